@@ -1,9 +1,15 @@
 import { Component, inject } from '@angular/core';
-import { SpreadsheetComponent, SpreadsheetData, SpreadsheetDataService } from '@ashitrai/ng-spreadsheet';
+import {
+  SpreadsheetComponent,
+  SpreadsheetData,
+  SpreadsheetDataService,
+  provideSpreadsheetStore,
+} from '@ashitrai/ng-spreadsheet';
 
 @Component({
   selector: 'app-root',
   imports: [SpreadsheetComponent],
+  providers: [provideSpreadsheetStore()],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
@@ -0,0 +1,253 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnInit,
+  Output,
+  inject,
+  ChangeDetectionStrategy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SpreadsheetDataService } from '../services/spreadsheet-data.service';
+import { ColumnFilter, FilterCondition, FilterOperator } from '../models';
+import { getColumnFilterColors } from '../filter';
+
+/**
+ * Dropdown of an AutoFilter column header.
+ * Offers sort shortcuts, a searchable checklist of the column's values, condition filters
+ * (text, number and date comparisons, top 10, above/below average) and filtering by color.
+ */
+@Component({
+  selector: 'ngs-auto-filter-menu',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './auto-filter-menu.component.html',
+  styleUrls: ['./auto-filter-menu.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AutoFilterMenuComponent implements OnInit {
+  protected readonly dataService = inject(SpreadsheetDataService);
+
+  /**
+   * Sheet column the menu filters
+   */
+  @Input({ required: true }) column!: number;
+
+  /**
+   * Emitted when the menu should close (after applying a choice or on cancel)
+   */
+  @Output() closed = new EventEmitter<void>();
+
+  // Comparisons offered for condition filters
+  readonly operators: Array<{ value: FilterOperator; label: string }> = [
+    { value: 'equals', label: 'Equals' },
+    { value: 'notEquals', label: 'Does not equal' },
+    { value: 'contains', label: 'Contains' },
+    { value: 'notContains', label: 'Does not contain' },
+    { value: 'beginsWith', label: 'Begins with' },
+    { value: 'endsWith', label: 'Ends with' },
+    { value: 'greaterThan', label: 'Greater than' },
+    { value: 'greaterThanOrEqual', label: 'Greater than or equal to' },
+    { value: 'lessThan', label: 'Less than' },
+    { value: 'lessThanOrEqual', label: 'Less than or equal to' },
+    { value: 'between', label: 'Between' },
+  ];
+
+  // Checklist state ('' stands for blanks)
+  values: string[] = [];
+  checked = new Set<string>();
+  searchText = '';
+
+  // Condition filter state
+  conditionOperator: FilterOperator = 'contains';
+  conditionValue = '';
+  conditionValue2 = '';
+  topCount = 10;
+
+  // Colors used in the column
+  fillColors: string[] = [];
+  fontColors: string[] = [];
+
+  ngOnInit(): void {
+    this.values = this.dataService.getColumnFilterValues(this.column);
+
+    const filter = this.dataService.getAutoFilter()?.columns[this.column];
+    if (filter?.type === 'values') {
+      const selected = new Set(filter.values.map((value) => value.toLowerCase()));
+      this.checked = new Set(this.values.filter((value) => selected.has(value.toLowerCase())));
+    } else {
+      this.checked = new Set(this.values);
+    }
+
+    if (filter?.type === 'condition' && filter.conditions[0]) {
+      this.conditionOperator = filter.conditions[0].operator;
+      this.conditionValue = String(filter.conditions[0].value);
+      this.conditionValue2 = String(filter.conditions[0].value2 ?? '');
+    } else if (filter?.type === 'top') {
+      this.topCount = filter.count;
+    }
+
+    const sheet = this.dataService.getActiveSheet();
+    const autoFilter = sheet?.autoFilter;
+    if (sheet && autoFilter) {
+      this.fillColors = getColumnFilterColors(sheet, autoFilter, this.column, 'fill');
+      this.fontColors = getColumnFilterColors(sheet, autoFilter, this.column, 'font');
+    }
+  }
+
+  /**
+   * Gets the checklist values matching the search text
+   */
+  getVisibleValues(): string[] {
+    const search = this.searchText.trim().toLowerCase();
+    if (!search) return this.values;
+    return this.values.filter((value) => value.toLowerCase().includes(search));
+  }
+
+  /**
+   * Gets the label of a checklist value
+   */
+  getValueLabel(value: string): string {
+    return value === '' ? '(Blanks)' : value;
+  }
+
+  /**
+   * Whether every visible value is checked (for the Select All box)
+   */
+  isAllChecked(): boolean {
+    return this.getVisibleValues().every((value) => this.checked.has(value));
+  }
+
+  /**
+   * Checks or unchecks a value
+   */
+  onToggleValue(value: string): void {
+    if (this.checked.has(value)) {
+      this.checked.delete(value);
+    } else {
+      this.checked.add(value);
+    }
+  }
+
+  /**
+   * Checks or unchecks every visible value
+   */
+  onToggleAll(): void {
+    const check = !this.isAllChecked();
+    for (const value of this.getVisibleValues()) {
+      if (check) {
+        this.checked.add(value);
+      } else {
+        this.checked.delete(value);
+      }
+    }
+  }
+
+  /**
+   * Updates the search text of the checklist
+   */
+  onSearchInput(event: Event): void {
+    this.searchText = (event.target as HTMLInputElement).value;
+  }
+
+  /**
+   * Sorts the filtered rows by this column
+   */
+  onSort(ascending: boolean): void {
+    this.dataService.sortAutoFilter(this.column, ascending);
+    this.closed.emit();
+  }
+
+  /**
+   * Applies the checklist. While searching, only checked values among the matches are kept,
+   * as in Excel; checking every value clears the column's filter.
+   */
+  onApplyValues(): void {
+    const candidates = this.searchText.trim() ? this.getVisibleValues() : this.values;
+    const values = candidates.filter((value) => this.checked.has(value));
+
+    const showsAll = values.length === this.values.length;
+    this.apply(showsAll ? null : { type: 'values', values });
+  }
+
+  /**
+   * Applies the condition entered in the condition section
+   */
+  onApplyCondition(): void {
+    if (this.conditionValue.trim() === '') return;
+
+    const condition: FilterCondition = {
+      operator: this.conditionOperator,
+      value: this.conditionValue,
+    };
+    if (this.conditionOperator === 'between') {
+      condition.value2 = this.conditionValue2;
+    }
+    this.apply({ type: 'condition', conditions: [condition] });
+  }
+
+  /**
+   * Shows the largest (or smallest) numbers of the column
+   */
+  onApplyTop(bottom: boolean): void {
+    if (!(this.topCount > 0)) return;
+    this.apply({ type: 'top', count: this.topCount, bottom });
+  }
+
+  /**
+   * Shows the numbers above (or below) the column average
+   */
+  onApplyAverage(below: boolean): void {
+    this.apply({ type: 'average', below });
+  }
+
+  /**
+   * Shows the cells with a fill or font color
+   */
+  onApplyColor(color: string, target: 'fill' | 'font'): void {
+    this.apply({ type: 'color', color, target });
+  }
+
+  /**
+   * Updates a condition field from its input
+   */
+  onConditionInput(field: 'conditionValue' | 'conditionValue2', event: Event): void {
+    this[field] = (event.target as HTMLInputElement).value;
+  }
+
+  /**
+   * Updates the comparison of the condition
+   */
+  onOperatorChange(event: Event): void {
+    this.conditionOperator = (event.target as HTMLSelectElement).value as FilterOperator;
+  }
+
+  /**
+   * Updates the number of values shown by the top 10 filter
+   */
+  onTopCountInput(event: Event): void {
+    this.topCount = Number((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Clears the column's filter
+   */
+  onClear(): void {
+    this.apply(null);
+  }
+
+  /**
+   * Closes the menu without changes
+   */
+  onCancel(): void {
+    this.closed.emit();
+  }
+
+  /**
+   * Sets the column's filter and closes the menu
+   */
+  private apply(filter: ColumnFilter | null): void {
+    this.dataService.setColumnFilter(this.column, filter);
+    this.closed.emit();
+  }
+}
@@ -0,0 +1,415 @@
+import {
+  Component,
+  EventEmitter,
+  OnInit,
+  Output,
+  inject,
+  ChangeDetectionStrategy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SpreadsheetDataService } from '../services/spreadsheet-data.service';
+import {
+  CellRange,
+  CellValueOperator,
+  ConditionalFormatCondition,
+  ConditionalFormatRule,
+  ConditionalStyle,
+  DatePeriod,
+  IconSetName,
+  TextOperator,
+  a1ToCellRange,
+  cellRangeToA1,
+  generateConditionalFormatId,
+} from '../models';
+import { ICON_SETS } from '../conditional-format';
+import { normalizeRange } from '../merge';
+
+type RuleType = ConditionalFormatCondition['type'];
+
+const RULE_TYPES: { type: RuleType; label: string }[] = [
+  { type: 'cellValue', label: 'Cell Value' },
+  { type: 'text', label: 'Specific Text' },
+  { type: 'date', label: 'Dates Occurring' },
+  { type: 'duplicates', label: 'Duplicate or Unique Values' },
+  { type: 'top', label: 'Top or Bottom Ranked Values' },
+  { type: 'average', label: 'Above or Below Average' },
+  { type: 'formula', label: 'Use a Formula' },
+  { type: 'colorScale', label: 'Color Scale' },
+  { type: 'dataBar', label: 'Data Bar' },
+  { type: 'iconSet', label: 'Icon Set' },
+];
+
+const CELL_VALUE_OPERATORS: { operator: CellValueOperator; label: string }[] = [
+  { operator: 'between', label: 'between' },
+  { operator: 'notBetween', label: 'not between' },
+  { operator: 'equals', label: 'equal to' },
+  { operator: 'notEquals', label: 'not equal to' },
+  { operator: 'greaterThan', label: 'greater than' },
+  { operator: 'lessThan', label: 'less than' },
+  { operator: 'greaterThanOrEqual', label: 'greater than or equal to' },
+  { operator: 'lessThanOrEqual', label: 'less than or equal to' },
+];
+
+const TEXT_OPERATORS: { operator: TextOperator; label: string }[] = [
+  { operator: 'contains', label: 'containing' },
+  { operator: 'notContains', label: 'not containing' },
+  { operator: 'beginsWith', label: 'beginning with' },
+  { operator: 'endsWith', label: 'ending with' },
+];
+
+const DATE_PERIODS: { period: DatePeriod; label: string }[] = [
+  { period: 'yesterday', label: 'Yesterday' },
+  { period: 'today', label: 'Today' },
+  { period: 'tomorrow', label: 'Tomorrow' },
+  { period: 'last7Days', label: 'In the last 7 days' },
+  { period: 'lastWeek', label: 'Last week' },
+  { period: 'thisWeek', label: 'This week' },
+  { period: 'nextWeek', label: 'Next week' },
+  { period: 'lastMonth', label: 'Last month' },
+  { period: 'thisMonth', label: 'This month' },
+  { period: 'nextMonth', label: 'Next month' },
+];
+
+/**
+ * Condition a new rule of each type starts with (Excel's defaults)
+ */
+const DEFAULT_CONDITIONS: Record<RuleType, ConditionalFormatCondition> = {
+  cellValue: { type: 'cellValue', operator: 'greaterThan', value: '' },
+  text: { type: 'text', operator: 'contains', text: '' },
+  date: { type: 'date', period: 'today' },
+  duplicates: { type: 'duplicates' },
+  top: { type: 'top', count: 10 },
+  average: { type: 'average' },
+  formula: { type: 'formula', formula: '' },
+  colorScale: {
+    type: 'colorScale',
+    minColor: '#f8696b',
+    midColor: '#ffeb84',
+    maxColor: '#63be7b',
+  },
+  dataBar: { type: 'dataBar', color: '#638ec6' },
+  iconSet: { type: 'iconSet', iconSet: '3Arrows' },
+};
+
+// Light red fill with dark red text
+const DEFAULT_STYLE: ConditionalStyle = { backgroundColor: '#ffc7ce', color: '#9c0006' };
+
+/**
+ * Conditional Formatting Rules Manager: lists the rules of the active sheet in priority
+ * order and creates, edits, deletes and reorders them. Changes apply on OK.
+ */
+@Component({
+  selector: 'ngs-conditional-format-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './conditional-format-dialog.component.html',
+  styleUrls: ['./conditional-format-dialog.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ConditionalFormatDialogComponent implements OnInit {
+  protected readonly dataService = inject(SpreadsheetDataService);
+
+  /**
+   * Emitted when the dialog should close (after applying the rules or on cancel)
+   */
+  @Output() closed = new EventEmitter<void>();
+
+  readonly ruleTypes = RULE_TYPES;
+  readonly cellValueOperators = CELL_VALUE_OPERATORS;
+  readonly textOperators = TEXT_OPERATORS;
+  readonly datePeriods = DATE_PERIODS;
+  readonly iconSetNames = Object.keys(ICON_SETS) as IconSetName[];
+
+  // Rules being managed, highest priority first
+  rules: ConditionalFormatRule[] = [];
+  selectedIndex: number | null = null;
+
+  // Rule open in the editor (null when the list is shown) and its position (null when new)
+  draft: ConditionalFormatRule | null = null;
+  draftIndex: number | null = null;
+  rangeText = '';
+  error = '';
+
+  ngOnInit(): void {
+    this.rules = [...this.dataService.getConditionalFormats()];
+    this.selectedIndex = this.rules.length ? 0 : null;
+  }
+
+  /**
+   * Gets the range of a rule in A1 notation
+   */
+  getRangeLabel(rule: ConditionalFormatRule): string {
+    return cellRangeToA1(rule.range);
+  }
+
+  /**
+   * Describes the condition of a rule
+   */
+  getDescription(rule: ConditionalFormatRule): string {
+    switch (rule.type) {
+      case 'cellValue': {
+        const operator = CELL_VALUE_OPERATORS.find((o) => o.operator === rule.operator)?.label;
+        const between = rule.operator === 'between' || rule.operator === 'notBetween';
+        const values = between ? `${rule.value} and ${rule.value2 ?? ''}` : rule.value;
+        return `Cell value ${operator} ${values}`;
+      }
+      case 'text': {
+        const operator = TEXT_OPERATORS.find((o) => o.operator === rule.operator)?.label;
+        return `Text ${operator} "${rule.text}"`;
+      }
+      case 'date': {
+        const period = DATE_PERIODS.find((p) => p.period === rule.period)?.label ?? '';
+        return `Date occurring: ${period}`;
+      }
+      case 'duplicates':
+        return rule.unique ? 'Unique values' : 'Duplicate values';
+      case 'top':
+        return `${rule.bottom ? 'Bottom' : 'Top'} ${rule.count}${rule.percent ? '%' : ''}`;
+      case 'average':
+        return rule.below ? 'Below average' : 'Above average';
+      case 'formula':
+        return `Formula: ${rule.formula}`;
+      case 'colorScale':
+        return rule.midColor ? '3-color scale' : '2-color scale';
+      case 'dataBar':
+        return 'Data bar';
+      case 'iconSet':
+        return `Icon set (${rule.iconSet})`;
+    }
+  }
+
+  /**
+   * Gets a field of the rule being edited, for the inputs of its type
+   */
+  getDraftValue(field: string): string | number | boolean | undefined {
+    return (this.draft as Record<string, string | number | boolean | undefined> | null)?.[
+      field
+    ];
+  }
+
+  /**
+   * Whether a rule type applies a highlight style (rather than drawing its own visuals)
+   */
+  isHighlightRule(type: RuleType): boolean {
+    return type !== 'colorScale' && type !== 'dataBar' && type !== 'iconSet';
+  }
+
+  /**
+   * Gets the symbols of an icon set, for its preview
+   */
+  getIconPreview(name: IconSetName): string {
+    return ICON_SETS[name].map((icon) => icon.symbol).join(' ');
+  }
+
+  /**
+   * Opens the editor for a new rule on the selected range (or cell)
+   */
+  onNewRule(): void {
+    const cell = this.dataService.getSelectedCell() ?? { row: 0, col: 0 };
+    const range = this.dataService.getSelectedRange() ?? { start: cell, end: cell };
+    const rule: ConditionalFormatRule = {
+      ...DEFAULT_CONDITIONS.cellValue,
+      id: generateConditionalFormatId(),
+      range,
+      style: { ...DEFAULT_STYLE },
+    };
+    this.openEditor(rule, null);
+  }
+
+  /**
+   * Opens the editor for the selected rule
+   */
+  onEditRule(): void {
+    if (this.selectedIndex === null) return;
+    this.openEditor(this.rules[this.selectedIndex], this.selectedIndex);
+  }
+
+  /**
+   * Deletes the selected rule
+   */
+  onDeleteRule(): void {
+    if (this.selectedIndex === null) return;
+    this.rules = this.rules.filter((_, i) => i !== this.selectedIndex);
+    this.selectedIndex = this.rules.length
+      ? Math.min(this.selectedIndex, this.rules.length - 1)
+      : null;
+  }
+
+  /**
+   * Moves the selected rule up (higher priority) or down
+   */
+  onMoveRule(offset: -1 | 1): void {
+    const index = this.selectedIndex;
+    if (index === null) return;
+    const target = index + offset;
+    if (target < 0 || target >= this.rules.length) return;
+
+    const rules = [...this.rules];
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    this.rules = rules;
+    this.selectedIndex = target;
+  }
+
+  /**
+   * Toggles Stop If True of a rule
+   */
+  onToggleStopIfTrue(index: number): void {
+    this.rules = this.rules.map((rule, i) =>
+      i === index ? { ...rule, stopIfTrue: !rule.stopIfTrue } : rule
+    );
+  }
+
+  /**
+   * Switches the rule being edited to another type, with that type's defaults
+   */
+  onTypeChange(event: Event): void {
+    if (!this.draft) return;
+    const type = (event.target as HTMLSelectElement).value as RuleType;
+    const { id, range, style, stopIfTrue } = this.draft;
+    this.draft = { ...DEFAULT_CONDITIONS[type], id, range, style, stopIfTrue };
+    this.error = '';
+  }
+
+  /**
+   * Updates a field of the rule being edited from its input. Checkboxes give booleans,
+   * number inputs numbers, and numeric comparison values are stored as numbers.
+   */
+  onDraftChange(field: string, event: Event): void {
+    if (!this.draft) return;
+    const input = event.target as HTMLInputElement;
+
+    let value: string | number | boolean | undefined = input.value;
+    if (input.type === 'checkbox') {
+      value = input.checked;
+    } else if (input.type === 'number') {
+      value = Number(input.value);
+    } else if ((field === 'value' || field === 'value2') && input.value.trim() !== '') {
+      value = isNaN(Number(input.value)) ? input.value : Number(input.value);
+    }
+    this.draft = { ...this.draft, [field]: value } as ConditionalFormatRule;
+  }
+
+  /**
+   * Switches the color scale being edited between two and three colors
+   */
+  onToggleMidColor(event: Event): void {
+    if (this.draft?.type !== 'colorScale') return;
+    const midColor = (event.target as HTMLInputElement).checked ? '#ffeb84' : undefined;
+    this.draft = { ...this.draft, midColor };
+  }
+
+  /**
+   * Updates the range of the rule being edited from its A1 text
+   */
+  onRangeInput(event: Event): void {
+    this.rangeText = (event.target as HTMLInputElement).value;
+  }
+
+  /**
+   * Updates the highlight style of the rule being edited
+   */
+  onStyleChange(field: 'backgroundColor' | 'color' | 'bold' | 'italic', event: Event): void {
+    if (!this.draft) return;
+    const input = event.target as HTMLInputElement;
+    const style: ConditionalStyle = { ...this.draft.style };
+
+    if (field === 'bold') {
+      style.fontWeight = input.checked ? 'bold' : undefined;
+    } else if (field === 'italic') {
+      style.fontStyle = input.checked ? 'italic' : undefined;
+    } else {
+      style[field] = input.value;
+    }
+    this.draft = { ...this.draft, style };
+  }
+
+  /**
+   * Saves the rule being edited into the list, or reports what is missing
+   */
+  onSaveRule(): void {
+    if (!this.draft) return;
+
+    let range: CellRange;
+    try {
+      range = normalizeRange(a1ToCellRange(this.rangeText.trim()));
+    } catch {
+      this.error = 'Enter a valid range, such as A1:B10';
+      return;
+    }
+
+    this.error = this.validate(this.draft);
+    if (this.error) return;
+
+    const rule = { ...this.draft, range };
+    if (this.draftIndex === null) {
+      this.rules = [rule, ...this.rules];
+      this.selectedIndex = 0;
+    } else {
+      const index = this.draftIndex;
+      this.rules = this.rules.map((current, i) => (i === index ? rule : current));
+      this.selectedIndex = index;
+    }
+    this.closeEditor();
+  }
+
+  /**
+   * Returns to the list without saving the rule being edited
+   */
+  onCancelRule(): void {
+    this.closeEditor();
+  }
+
+  /**
+   * Applies the rules to the sheet and closes the dialog
+   */
+  onOk(): void {
+    this.dataService.setConditionalFormats(this.rules);
+    this.closed.emit();
+  }
+
+  /**
+   * Closes the dialog without changing the rules
+   */
+  onCancel(): void {
+    this.closed.emit();
+  }
+
+  /**
+   * Opens the editor on a copy of a rule
+   */
+  private openEditor(rule: ConditionalFormatRule, index: number | null): void {
+    this.draft = { ...rule };
+    this.draftIndex = index;
+    this.rangeText = cellRangeToA1(rule.range);
+    this.error = '';
+  }
+
+  /**
+   * Returns to the list of rules
+   */
+  private closeEditor(): void {
+    this.draft = null;
+    this.draftIndex = null;
+    this.error = '';
+  }
+
+  /**
+   * Checks that a rule has the values its type needs, returning an error message or ''
+   */
+  private validate(rule: ConditionalFormatRule): string {
+    switch (rule.type) {
+      case 'cellValue':
+        if (rule.value === '') return 'Enter a value';
+        if (rule.operator !== 'between' && rule.operator !== 'notBetween') return '';
+        return (rule.value2 ?? '') === '' ? 'Enter both values' : '';
+      case 'text':
+        return rule.text === '' ? 'Enter the text to look for' : '';
+      case 'formula':
+        return rule.formula.trim() === '' ? 'Enter a formula' : '';
+      case 'top':
+        return rule.count > 0 ? '' : 'Enter a number greater than 0';
+      default:
+        return '';
+    }
+  }
+}
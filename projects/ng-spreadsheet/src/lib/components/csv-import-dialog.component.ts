@@ -0,0 +1,260 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnInit,
+  Output,
+  inject,
+  ChangeDetectionStrategy,
+  ChangeDetectorRef,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SpreadsheetDataService } from '../services/spreadsheet-data.service';
+import { CsvColumnType, CsvImportMode, colIndexToLetter } from '../models';
+import { CsvReadOptions, detectCsvColumnTypes, readCsvFile } from '../csv';
+
+/** Rows read for the preview and for detecting column types */
+const PREVIEW_ROWS = 100;
+
+/** Rows shown in the preview table */
+const VISIBLE_ROWS = 20;
+
+/**
+ * Import dialog for CSV and other delimited text files: reads a preview of the file with
+ * the chosen encoding, delimiter and quote characters, lets each column be imported as a
+ * type or skipped, and imports the whole file (read in chunks, with progress) to a new
+ * sheet, over the active sheet or at the selected cell.
+ */
+@Component({
+  selector: 'ngs-csv-import-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './csv-import-dialog.component.html',
+  styleUrls: ['./csv-import-dialog.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CsvImportDialogComponent implements OnInit {
+  protected readonly dataService = inject(SpreadsheetDataService);
+  private readonly cdr = inject(ChangeDetectorRef);
+
+  /**
+   * File to import
+   */
+  @Input() file: File | null = null;
+
+  /**
+   * Emitted when the dialog should close
+   */
+  @Output() closed = new EventEmitter<void>();
+
+  readonly encodings = [
+    { value: 'utf-8', label: 'Unicode (UTF-8)' },
+    { value: 'utf-16le', label: 'Unicode (UTF-16)' },
+    { value: 'windows-1252', label: 'Western European (Windows)' },
+    { value: 'iso-8859-1', label: 'Western European (ISO)' },
+    { value: 'shift_jis', label: 'Japanese (Shift-JIS)' },
+  ];
+  readonly delimiters = [
+    { value: '', label: 'Detect' },
+    { value: ',', label: 'Comma' },
+    { value: '\t', label: 'Tab' },
+    { value: ';', label: 'Semicolon' },
+    { value: '|', label: 'Pipe' },
+  ];
+  readonly quotes = [
+    { value: '"', label: 'Double quote (")' },
+    { value: "'", label: "Single quote (')" },
+  ];
+  readonly escapes = [
+    { value: '', label: 'Doubled quote' },
+    { value: '\\', label: 'Backslash (\\)' },
+  ];
+  readonly columnTypes: { value: CsvColumnType; label: string }[] = [
+    { value: 'general', label: 'General' },
+    { value: 'number', label: 'Number' },
+    { value: 'date', label: 'Date' },
+    { value: 'text', label: 'Text' },
+    { value: 'skip', label: 'Skip' },
+  ];
+
+  // File settings
+  encoding = 'utf-8';
+  delimiter = '';
+  quote = '"';
+  escape = '';
+  hasHeader = false;
+  mode: CsvImportMode = 'new-sheet';
+
+  /** Delimiter detected from the file when none is chosen */
+  detectedDelimiter = '';
+
+  /** First rows of the file */
+  previewRows: string[][] = [];
+
+  /** Type each column is imported as */
+  types: CsvColumnType[] = [];
+
+  /** Percentage of the file read while importing, or null before importing */
+  progress: number | null = null;
+
+  error = '';
+
+  ngOnInit(): void {
+    this.loadPreview(true);
+  }
+
+  /**
+   * Gets the rows shown in the preview table
+   */
+  getVisibleRows(): string[][] {
+    return this.previewRows.slice(0, VISIBLE_ROWS);
+  }
+
+  /**
+   * Gets the column letter each preview column lands in, or '' for skipped columns
+   */
+  getColumnLabels(): string[] {
+    const start = this.mode === 'insert' ? this.dataService.getSelectedCell()?.col ?? 0 : 0;
+    let next = start;
+    return this.types.map((type) => (type === 'skip' ? '' : colIndexToLetter(next++)));
+  }
+
+  /**
+   * Updates a file setting and reads the preview again
+   */
+  onSettingChange(setting: 'encoding' | 'delimiter' | 'quote' | 'escape', event: Event): void {
+    this[setting] = (event.target as HTMLSelectElement).value;
+    this.loadPreview(setting === 'encoding' || setting === 'delimiter');
+  }
+
+  /**
+   * Toggles whether the first row holds headers, which changes the detected types
+   */
+  onHeaderChange(event: Event): void {
+    this.hasHeader = (event.target as HTMLInputElement).checked;
+    this.types = this.detectTypes();
+  }
+
+  /**
+   * Updates where the data goes
+   */
+  onModeChange(mode: CsvImportMode): void {
+    this.mode = mode;
+  }
+
+  /**
+   * Updates the type a column is imported as
+   */
+  onTypeChange(col: number, event: Event): void {
+    this.types = this.types.map((type, i) =>
+      i === col ? ((event.target as HTMLSelectElement).value as CsvColumnType) : type
+    );
+  }
+
+  /**
+   * Reads the whole file and imports it, then closes the dialog
+   */
+  async onImport(): Promise<void> {
+    if (!this.file || this.progress !== null) return;
+
+    this.progress = 0;
+    this.error = '';
+    try {
+      const { rows } = await readCsvFile(this.file, {
+        ...this.getReadOptions(),
+        onProgress: (loaded, total) => {
+          this.progress = total > 0 ? Math.round((loaded / total) * 100) : 100;
+          this.cdr.markForCheck();
+        },
+      });
+      this.dataService.importCsv(rows, {
+        mode: this.mode,
+        columnTypes: this.types,
+        hasHeader: this.hasHeader,
+        sheetName: this.file.name.replace(/\.[^.]*$/, ''),
+      });
+      this.closed.emit();
+    } catch (error) {
+      this.progress = null;
+      this.error = `The file could not be read: ${(error as Error).message}`;
+      this.cdr.markForCheck();
+    }
+  }
+
+  /**
+   * Closes the dialog
+   */
+  onClose(): void {
+    this.closed.emit();
+  }
+
+  /**
+   * Reads the first rows of the file with the current settings. `detect` detects the
+   * delimiter (unless one is chosen) and the column types again; on the first read the
+   * header row is guessed as well.
+   */
+  private async loadPreview(detect: boolean): Promise<void> {
+    if (!this.file) return;
+
+    const firstRead = this.previewRows.length === 0;
+    if (detect) {
+      this.detectedDelimiter = '';
+    }
+    try {
+      const { rows, delimiter } = await readCsvFile(this.file, {
+        ...this.getReadOptions(),
+        maxRows: PREVIEW_ROWS,
+      });
+      this.previewRows = rows;
+      this.detectedDelimiter = delimiter;
+      this.error = '';
+      if (firstRead) {
+        this.hasHeader = this.looksLikeHeader(rows);
+      }
+      const width = Math.max(0, ...rows.map((row) => row.length));
+      if (detect || this.types.length !== width) {
+        this.types = this.detectTypes();
+      }
+    } catch (error) {
+      this.previewRows = [];
+      this.types = [];
+      this.error = `The file could not be read: ${(error as Error).message}`;
+    }
+    this.cdr.markForCheck();
+  }
+
+  private getReadOptions(): CsvReadOptions {
+    return {
+      encoding: this.encoding,
+      delimiter: this.delimiter || this.detectedDelimiter,
+      quote: this.quote,
+      escape: this.escape,
+    };
+  }
+
+  /**
+   * Detects the type of each column from the preview, leaving out the header row
+   */
+  private detectTypes(): CsvColumnType[] {
+    const rows = this.hasHeader ? this.previewRows.slice(1) : this.previewRows;
+    const types = detectCsvColumnTypes(rows, this.dataService.getLocale());
+    const width = Math.max(0, ...this.previewRows.map((row) => row.length));
+    return Array.from({ length: width }, (_, col) => types[col] ?? 'general');
+  }
+
+  /**
+   * Guesses whether the first row holds headers: it is all text while some column
+   * below it holds numbers or dates
+   */
+  private looksLikeHeader(rows: string[][]): boolean {
+    if (rows.length < 2) return false;
+
+    const locale = this.dataService.getLocale();
+    const headerTypes = detectCsvColumnTypes([rows[0]], locale);
+    const dataTypes = detectCsvColumnTypes(rows.slice(1), locale);
+    return (
+      headerTypes.every((type) => type === 'general') &&
+      dataTypes.some((type) => type !== 'general')
+    );
+  }
+}
@@ -0,0 +1,309 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnInit,
+  Output,
+  inject,
+  ChangeDetectionStrategy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SpreadsheetDataService } from '../services/spreadsheet-data.service';
+import {
+  CellRange,
+  CellValueOperator,
+  DataValidationAlertStyle,
+  DataValidationRule,
+  DataValidationType,
+  cellRangeToA1,
+} from '../models';
+import { formatListSource, parseListSource } from '../validation';
+import { formatValue, parseDateInput } from '../format';
+import { normalizeRange } from '../merge';
+
+const VALIDATION_TYPES: { type: DataValidationType; label: string }[] = [
+  { type: 'any', label: 'Any value' },
+  { type: 'wholeNumber', label: 'Whole number' },
+  { type: 'decimal', label: 'Decimal' },
+  { type: 'list', label: 'List' },
+  { type: 'date', label: 'Date' },
+  { type: 'textLength', label: 'Text length' },
+  { type: 'custom', label: 'Custom' },
+];
+
+const OPERATORS: { operator: CellValueOperator; label: string }[] = [
+  { operator: 'between', label: 'between' },
+  { operator: 'notBetween', label: 'not between' },
+  { operator: 'equals', label: 'equal to' },
+  { operator: 'notEquals', label: 'not equal to' },
+  { operator: 'greaterThan', label: 'greater than' },
+  { operator: 'lessThan', label: 'less than' },
+  { operator: 'greaterThanOrEqual', label: 'greater than or equal to' },
+  { operator: 'lessThanOrEqual', label: 'less than or equal to' },
+];
+
+const ALERT_STYLES: { style: DataValidationAlertStyle; label: string }[] = [
+  { style: 'stop', label: 'Stop' },
+  { style: 'warning', label: 'Warning' },
+  { style: 'information', label: 'Information' },
+];
+
+type DialogTab = 'settings' | 'input' | 'error';
+
+/**
+ * Data Validation dialog: sets what a range accepts (Settings), the message shown while one
+ * of its cells is selected (Input Message) and the alert for invalid entries (Error Alert).
+ * The rule of the range's first cell is loaded for editing; changes apply on OK.
+ */
+@Component({
+  selector: 'ngs-data-validation-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './data-validation-dialog.component.html',
+  styleUrls: ['./data-validation-dialog.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DataValidationDialogComponent implements OnInit {
+  protected readonly dataService = inject(SpreadsheetDataService);
+
+  /**
+   * Range whose validation is edited
+   */
+  @Input({ required: true }) range!: CellRange;
+
+  /**
+   * Emitted when the dialog should close (after applying the rule or on cancel)
+   */
+  @Output() closed = new EventEmitter<void>();
+
+  readonly validationTypes = VALIDATION_TYPES;
+  readonly operators = OPERATORS;
+  readonly alertStyles = ALERT_STYLES;
+
+  tab: DialogTab = 'settings';
+
+  // Settings
+  type: DataValidationType = 'any';
+  operator: CellValueOperator = 'between';
+  value1 = '';
+  value2 = '';
+  source = '';
+  formula = '';
+  allowBlank = true;
+  showDropdown = true;
+
+  // Input message
+  inputTitle = '';
+  inputMessage = '';
+
+  // Error alert
+  errorStyle: DataValidationAlertStyle = 'stop';
+  errorTitle = '';
+  errorMessage = '';
+
+  error = '';
+
+  ngOnInit(): void {
+    const { start } = normalizeRange(this.range);
+    const rule = this.dataService.getDataValidation(start.row, start.col);
+    if (!rule) return;
+
+    this.type = rule.type;
+    this.operator = rule.operator ?? 'between';
+    this.value1 = this.formatBound(rule.value1);
+    this.value2 = this.formatBound(rule.value2);
+    this.source = rule.type === 'list' ? formatListSource(rule) : '';
+    this.formula = rule.formula ?? '';
+    this.allowBlank = rule.allowBlank !== false;
+    this.showDropdown = rule.showDropdown !== false;
+    this.inputTitle = rule.inputTitle ?? '';
+    this.inputMessage = rule.inputMessage ?? '';
+    this.errorStyle = rule.errorStyle ?? 'stop';
+    this.errorTitle = rule.errorTitle ?? '';
+    this.errorMessage = rule.errorMessage ?? '';
+  }
+
+  /**
+   * Gets the range being validated in A1 notation
+   */
+  getRangeLabel(): string {
+    return cellRangeToA1(this.range);
+  }
+
+  /**
+   * Whether the chosen type compares values with bounds
+   */
+  hasBounds(): boolean {
+    return (
+      this.type === 'wholeNumber' ||
+      this.type === 'decimal' ||
+      this.type === 'date' ||
+      this.type === 'textLength'
+    );
+  }
+
+  /**
+   * Whether the chosen operator needs a second bound
+   */
+  hasSecondBound(): boolean {
+    return this.operator === 'between' || this.operator === 'notBetween';
+  }
+
+  /**
+   * Gets the labels of the bound inputs for the chosen operator
+   */
+  getBoundLabels(): [string, string] {
+    if (this.hasSecondBound()) {
+      return this.type === 'date' ? ['Start date', 'End date'] : ['Minimum', 'Maximum'];
+    }
+    return [this.type === 'date' ? 'Date' : 'Value', ''];
+  }
+
+  /**
+   * Updates a text field of the dialog from its input
+   */
+  onTextChange(
+    field:
+      | 'value1'
+      | 'value2'
+      | 'source'
+      | 'formula'
+      | 'inputTitle'
+      | 'inputMessage'
+      | 'errorTitle'
+      | 'errorMessage',
+    event: Event
+  ): void {
+    this[field] = (event.target as HTMLInputElement | HTMLTextAreaElement).value;
+  }
+
+  /**
+   * Switches the kind of values allowed, clearing the error of the previous kind
+   */
+  onTypeChange(event: Event): void {
+    this.type = (event.target as HTMLSelectElement).value as DataValidationType;
+    this.error = '';
+  }
+
+  /**
+   * Updates the comparison of the bounds
+   */
+  onOperatorChange(event: Event): void {
+    this.operator = (event.target as HTMLSelectElement).value as CellValueOperator;
+  }
+
+  /**
+   * Updates the style of the error alert
+   */
+  onErrorStyleChange(event: Event): void {
+    this.errorStyle = (event.target as HTMLSelectElement).value as DataValidationAlertStyle;
+  }
+
+  /**
+   * Removes the validation of the range and closes the dialog
+   */
+  onClearAll(): void {
+    this.dataService.setDataValidation(this.range, null);
+    this.closed.emit();
+  }
+
+  /**
+   * Applies the rule to the range and closes the dialog, or reports what is missing
+   */
+  onOk(): void {
+    const rule = this.buildRule();
+    if (!rule) {
+      this.tab = 'settings';
+      return;
+    }
+
+    const hasMessages = !!(rule.inputTitle || rule.inputMessage);
+    this.dataService.setDataValidation(
+      this.range,
+      rule.type === 'any' && !hasMessages ? null : rule
+    );
+    this.closed.emit();
+  }
+
+  /**
+   * Closes the dialog without changing the validation
+   */
+  onCancel(): void {
+    this.closed.emit();
+  }
+
+  /**
+   * Builds the rule from the dialog's fields, setting `error` and returning null when a
+   * required value is missing or invalid
+   */
+  private buildRule(): Omit<DataValidationRule, 'id' | 'range'> | null {
+    this.error = '';
+    const rule: Omit<DataValidationRule, 'id' | 'range'> = { type: this.type };
+
+    if (this.hasBounds()) {
+      const value1 = this.parseBound(this.value1);
+      const value2 = this.hasSecondBound() ? this.parseBound(this.value2) : undefined;
+      if (value1 === null || value2 === null) {
+        this.error =
+          this.type === 'date'
+            ? 'Enter valid dates or formulas'
+            : 'Enter valid numbers or formulas';
+        return null;
+      }
+      rule.operator = this.operator;
+      rule.value1 = value1;
+      if (value2 !== undefined) rule.value2 = value2;
+    } else if (this.type === 'list') {
+      const source = parseListSource(this.source);
+      if (!source) {
+        this.error = 'Enter the list values separated by commas, or a range such as =$A$1:$A$5';
+        return null;
+      }
+      Object.assign(rule, source);
+      rule.showDropdown = this.showDropdown;
+    } else if (this.type === 'custom') {
+      const formula = this.formula.trim();
+      if (formula === '' || formula === '=') {
+        this.error = 'Enter a formula';
+        return null;
+      }
+      rule.formula = formula.startsWith('=') ? formula : `=${formula}`;
+    }
+
+    rule.allowBlank = this.allowBlank;
+    if (this.inputTitle) rule.inputTitle = this.inputTitle;
+    if (this.inputMessage) rule.inputMessage = this.inputMessage;
+    rule.errorStyle = this.errorStyle;
+    if (this.errorTitle) rule.errorTitle = this.errorTitle;
+    if (this.errorMessage) rule.errorMessage = this.errorMessage;
+    return rule;
+  }
+
+  /**
+   * Parses a bound: formulas are kept as typed, dates become serial numbers and other
+   * values numbers. Returns null when the bound is empty or invalid.
+   */
+  private parseBound(text: string): string | number | null {
+    const trimmed = text.trim();
+    if (trimmed === '') return null;
+    if (trimmed.startsWith('=')) return trimmed;
+
+    if (this.type === 'date') {
+      const date = parseDateInput(trimmed);
+      if (date) return date.serial;
+    }
+    const number = Number(trimmed);
+    return isNaN(number) ? null : number;
+  }
+
+  /**
+   * Formats a stored bound for its input; dates are shown as yyyy-mm-dd
+   */
+  private formatBound(value: string | number | undefined): string {
+    if (value === undefined) return '';
+    if (typeof value === 'number' && this.type === 'date') {
+      return formatValue(value, 'yyyy-mm-dd').text;
+    }
+    return String(value);
+  }
+}
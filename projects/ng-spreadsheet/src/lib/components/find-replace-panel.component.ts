@@ -0,0 +1,221 @@
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  EventEmitter,
+  Input,
+  OnInit,
+  Output,
+  ViewChild,
+  inject,
+  ChangeDetectionStrategy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SpreadsheetDataService } from '../services/spreadsheet-data.service';
+import { FindLookIn, FindMatch, FindOptions, FindScope, cellAddressToA1 } from '../models';
+
+/**
+ * Find and Replace panel (Ctrl+F / Ctrl+H).
+ * Finds the next or previous match, lists all matches, and replaces one or all of them,
+ * with match case, entire cell, regular expression, scope and look-in options.
+ */
+@Component({
+  selector: 'ngs-find-replace-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './find-replace-panel.component.html',
+  styleUrls: ['./find-replace-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class FindReplacePanelComponent implements OnInit, AfterViewInit {
+  protected readonly dataService = inject(SpreadsheetDataService);
+
+  /**
+   * Tab shown: Find, or Find and Replace
+   */
+  @Input() mode: 'find' | 'replace' = 'find';
+
+  /**
+   * Text to search for when the panel opens; the first match is selected right away
+   */
+  @Input() initialQuery = '';
+
+  /**
+   * Emitted when the panel should close
+   */
+  @Output() closed = new EventEmitter<void>();
+
+  @ViewChild('findInput') findInput?: ElementRef<HTMLInputElement>;
+
+  query = '';
+  replacement = '';
+  matchCase = false;
+  matchEntireCell = false;
+  useRegex = false;
+  scope: FindScope = 'sheet';
+  lookIn: FindLookIn = 'values';
+
+  // Matches listed by Find All (null until it is used)
+  results: FindMatch[] | null = null;
+
+  // Outcome of the last action, or the error of an invalid regular expression
+  status = '';
+  error = '';
+
+  ngOnInit(): void {
+    if (this.initialQuery) {
+      this.query = this.initialQuery;
+      this.onFindNext();
+    }
+  }
+
+  ngAfterViewInit(): void {
+    this.findInput?.nativeElement.focus();
+  }
+
+  /**
+   * Gets the options of the search entered in the panel
+   */
+  getOptions(): FindOptions {
+    return {
+      query: this.query,
+      matchCase: this.matchCase,
+      matchEntireCell: this.matchEntireCell,
+      useRegex: this.useRegex,
+      scope: this.scope,
+      lookIn: this.mode === 'replace' ? 'formulas' : this.lookIn,
+    };
+  }
+
+  /**
+   * Gets the address of a match, with its sheet when searching the workbook
+   */
+  getMatchAddress(match: FindMatch): string {
+    const address = cellAddressToA1({ row: match.row, col: match.col });
+    return this.scope === 'workbook' ? `${match.sheetName}!${address}` : address;
+  }
+
+  /**
+   * Switches between the Find and Replace tabs
+   */
+  onModeChange(mode: 'find' | 'replace'): void {
+    this.mode = mode;
+    this.results = null;
+    this.status = '';
+  }
+
+  /**
+   * Selects the next (or previous) match
+   */
+  onFindNext(previous = false): void {
+    this.search(() => {
+      const match = this.dataService.findNext(this.getOptions(), previous);
+      this.status = match ? '' : 'No matches found';
+    });
+  }
+
+  /**
+   * Lists every match
+   */
+  onFindAll(): void {
+    this.search(() => {
+      this.results = this.dataService.findAll(this.getOptions());
+      const count = this.results.length;
+      this.status = count === 1 ? '1 cell found' : `${count} cells found`;
+    });
+  }
+
+  /**
+   * Replaces the selected match and selects the next one
+   */
+  onReplace(): void {
+    this.search(() => {
+      const match = this.dataService.replace(this.getOptions(), this.replacement);
+      this.status = match ? '' : 'No matches found';
+      this.results = null;
+    });
+  }
+
+  /**
+   * Replaces every match
+   */
+  onReplaceAll(): void {
+    this.search(() => {
+      const count = this.dataService.replaceAll(this.getOptions(), this.replacement);
+      this.status = count === 1 ? 'Made 1 replacement' : `Made ${count} replacements`;
+      this.results = null;
+    });
+  }
+
+  /**
+   * Selects a match from the Find All list
+   */
+  onSelectResult(match: FindMatch): void {
+    this.dataService.goToMatch(match);
+  }
+
+  /**
+   * Updates a text field from its input
+   */
+  onTextInput(field: 'query' | 'replacement', event: Event): void {
+    this[field] = (event.target as HTMLInputElement).value;
+  }
+
+  /**
+   * Toggles a match option
+   */
+  onToggle(option: 'matchCase' | 'matchEntireCell' | 'useRegex'): void {
+    this[option] = !this[option];
+  }
+
+  /**
+   * Updates the scope of the search
+   */
+  onScopeChange(event: Event): void {
+    this.scope = (event.target as HTMLSelectElement).value as FindScope;
+  }
+
+  /**
+   * Updates what the search looks in
+   */
+  onLookInChange(event: Event): void {
+    this.lookIn = (event.target as HTMLSelectElement).value as FindLookIn;
+  }
+
+  /**
+   * Finds the next match on Enter in a text field (the previous one with Shift)
+   * and closes on Escape
+   */
+  onKeyDown(event: KeyboardEvent): void {
+    const target = event.target as HTMLInputElement;
+    if (event.key === 'Enter' && target.type === 'text') {
+      event.preventDefault();
+      this.onFindNext(event.shiftKey);
+    } else if (event.key === 'Escape') {
+      this.closed.emit();
+    }
+  }
+
+  /**
+   * Closes the panel
+   */
+  onClose(): void {
+    this.closed.emit();
+  }
+
+  /**
+   * Runs a search, reporting an invalid regular expression instead of throwing
+   */
+  private search(action: () => void): void {
+    this.error = '';
+    if (this.query === '') return;
+
+    try {
+      action();
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      this.error = 'Invalid regular expression';
+      this.status = '';
+    }
+  }
+}
@@ -6,3 +6,10 @@ export * from './spreadsheet.component';
 export * from './spreadsheet-toolbar.component';
 export * from './spreadsheet-ribbon.component';
 export * from './sheet-tabs.component';
+export * from './auto-filter-menu.component';
+export * from './sort-dialog.component';
+export * from './find-replace-panel.component';
+export * from './conditional-format-dialog.component';
+export * from './data-validation-dialog.component';
+export * from './name-manager-dialog.component';
+export * from './csv-import-dialog.component';
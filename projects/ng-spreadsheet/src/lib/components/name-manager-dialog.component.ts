@@ -0,0 +1,187 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  Output,
+  inject,
+  ChangeDetectionStrategy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SpreadsheetDataService } from '../services/spreadsheet-data.service';
+import { CellRange, DefinedName, cellRangeToA1 } from '../models';
+import { formatNameReference, getDefinedNameError, parseNameReference } from '../names';
+
+/**
+ * Name Manager dialog: lists the defined names of the workbook and creates, edits and
+ * deletes them. A new name refers to the selection unless another reference is typed.
+ */
+@Component({
+  selector: 'ngs-name-manager-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './name-manager-dialog.component.html',
+  styleUrls: ['./name-manager-dialog.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class NameManagerDialogComponent {
+  protected readonly dataService = inject(SpreadsheetDataService);
+
+  /**
+   * Selected cells of the active sheet, suggested as the reference of new names
+   */
+  @Input() selection: CellRange | null = null;
+
+  /**
+   * Emitted when the dialog should close
+   */
+  @Output() closed = new EventEmitter<void>();
+
+  selectedId: string | null = null;
+
+  /** Whether a new name is being created or the selected one edited, if either */
+  mode: 'new' | 'edit' | null = null;
+
+  // Fields of the name being created or edited
+  name = '';
+  refersTo = '';
+  scope = '';
+  comment = '';
+
+  error = '';
+
+  /**
+   * Gets the defined names sorted by name, workbook names before sheet names
+   */
+  getNames(): DefinedName[] {
+    return [...this.dataService.getDefinedNames()].sort(
+      (a, b) =>
+        a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }) ||
+        Number(a.sheetId !== undefined) - Number(b.sheetId !== undefined)
+    );
+  }
+
+  /**
+   * Gets what a name refers to as written in formulas ('=Settings!$B$2')
+   */
+  getReference(name: DefinedName): string {
+    return formatNameReference(name);
+  }
+
+  /**
+   * Gets the scope of a name: the sheet it is scoped to, or Workbook
+   */
+  getScopeLabel(name: DefinedName): string {
+    if (name.sheetId === undefined) return 'Workbook';
+    return this.dataService.getSheets().find((sheet) => sheet.id === name.sheetId)?.name ?? '';
+  }
+
+  /**
+   * Selects a name of the list
+   */
+  selectName(id: string): void {
+    this.selectedId = id;
+  }
+
+  /**
+   * Starts a new name referring to the selection, scoped to the workbook
+   */
+  onNew(): void {
+    const sheetName = this.dataService.getActiveSheet()?.name ?? '';
+    const range = this.selection && parseNameReference(cellRangeToA1(this.selection), sheetName);
+
+    this.mode = 'new';
+    this.name = '';
+    this.refersTo = range ? formatNameReference({ id: '', name: '', range }) : '';
+    this.scope = '';
+    this.comment = '';
+    this.error = '';
+  }
+
+  /**
+   * Starts editing the selected name
+   */
+  onEdit(): void {
+    const name = this.dataService.getDefinedNames().find((n) => n.id === this.selectedId);
+    if (!name) return;
+
+    this.mode = 'edit';
+    this.name = name.name;
+    this.refersTo = formatNameReference(name);
+    this.scope = name.sheetId ?? '';
+    this.comment = name.comment ?? '';
+    this.error = '';
+  }
+
+  /**
+   * Deletes the selected name
+   */
+  onDelete(): void {
+    if (!this.selectedId) return;
+    this.dataService.deleteDefinedName(this.selectedId);
+    this.selectedId = null;
+    this.mode = null;
+  }
+
+  /**
+   * Updates a text field of the name being created or edited from its input
+   */
+  onTextChange(field: 'name' | 'refersTo' | 'comment', event: Event): void {
+    this[field] = (event.target as HTMLInputElement).value;
+  }
+
+  /**
+   * Updates the scope of the name being created ('' for the workbook, or a sheet id)
+   */
+  onScopeChange(event: Event): void {
+    this.scope = (event.target as HTMLSelectElement).value;
+  }
+
+  /**
+   * Creates or updates the name, or reports what is wrong with it
+   */
+  onSave(): void {
+    const name = this.name.trim();
+    const sheetId = this.scope || undefined;
+    const sheetName = this.dataService.getActiveSheet()?.name ?? '';
+
+    this.error =
+      getDefinedNameError(
+        name,
+        this.dataService.getDefinedNames(),
+        sheetId,
+        this.mode === 'edit' ? this.selectedId ?? undefined : undefined
+      ) ?? '';
+    if (!this.error && !parseNameReference(this.refersTo, sheetName)) {
+      this.error = 'Enter a cell or range, such as =Sheet1!$A$1:$B$10';
+    }
+    if (this.error) return;
+
+    if (this.mode === 'edit' && this.selectedId) {
+      this.dataService.updateDefinedName(this.selectedId, {
+        name,
+        refersTo: this.refersTo,
+        comment: this.comment,
+      });
+    } else {
+      this.selectedId =
+        this.dataService.addDefinedName(name, this.refersTo, { sheetId, comment: this.comment })
+          ?.id ?? null;
+    }
+    this.mode = null;
+  }
+
+  /**
+   * Leaves the name being created or edited unchanged
+   */
+  onCancelEdit(): void {
+    this.mode = null;
+    this.error = '';
+  }
+
+  /**
+   * Closes the dialog
+   */
+  onClose(): void {
+    this.closed.emit();
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnInit,
+  Output,
+  inject,
+  ChangeDetectionStrategy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SpreadsheetDataService } from '../services/spreadsheet-data.service';
+import {
+  BUILT_IN_CUSTOM_LISTS,
+  CellRange,
+  SortLevel,
+  SortOn,
+  colIndexToLetter,
+} from '../models';
+import { detectHeaderRow } from '../sort';
+
+/**
+ * Custom Sort dialog: sorts a range by several levels, each by value (A to Z, Z to A or
+ * a custom list such as Mon..Sun) or by cell/font color, with an optional header row.
+ */
+@Component({
+  selector: 'ngs-sort-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './sort-dialog.component.html',
+  styleUrls: ['./sort-dialog.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SortDialogComponent implements OnInit {
+  protected readonly dataService = inject(SpreadsheetDataService);
+
+  /**
+   * Range to sort, including its header row if it has one
+   */
+  @Input({ required: true }) range!: CellRange;
+
+  /**
+   * Column of the first sort level (defaults to the first column of the range)
+   */
+  @Input() initialColumn?: number;
+
+  /**
+   * Emitted when the dialog should close (after sorting or on cancel)
+   */
+  @Output() closed = new EventEmitter<void>();
+
+  readonly customLists = BUILT_IN_CUSTOM_LISTS;
+
+  levels: SortLevel[] = [];
+  hasHeader = false;
+  caseSensitive = false;
+
+  ngOnInit(): void {
+    const sheet = this.dataService.getActiveSheet();
+    this.hasHeader = !!sheet && detectHeaderRow(sheet, this.range);
+
+    const columns = this.getColumns();
+    const col = columns.includes(this.initialColumn ?? -1) ? this.initialColumn! : columns[0];
+    this.levels = [{ col }];
+  }
+
+  /**
+   * Gets the columns of the range
+   */
+  getColumns(): number[] {
+    const columns: number[] = [];
+    const lastCol = Math.max(this.range.start.col, this.range.end.col);
+    for (let col = Math.min(this.range.start.col, this.range.end.col); col <= lastCol; col++) {
+      columns.push(col);
+    }
+    return columns;
+  }
+
+  /**
+   * Gets the label of a column: its header text when the range has headers
+   */
+  getColumnLabel(col: number): string {
+    if (this.hasHeader) {
+      const row = Math.min(this.range.start.row, this.range.end.row);
+      const cell = this.dataService.getCell(row, col);
+      const text = String(cell?.displayValue ?? cell?.value ?? '').trim();
+      if (text) return text;
+    }
+    return `Column ${colIndexToLetter(col)}`;
+  }
+
+  /**
+   * Gets the label of a custom list (its first items)
+   */
+  getCustomListLabel(list: string[]): string {
+    return `${list.slice(0, 3).join(', ')}, ...`;
+  }
+
+  /**
+   * Gets the distinct fill or font colors used in a column's data rows
+   */
+  getColors(level: SortLevel): string[] {
+    const headerRows = this.hasHeader ? 1 : 0;
+    const firstRow = Math.min(this.range.start.row, this.range.end.row) + headerRows;
+    const lastRow = Math.max(this.range.start.row, this.range.end.row);
+
+    const colors = new Map<string, string>();
+    for (let row = firstRow; row <= lastRow; row++) {
+      const style = this.dataService.getCell(row, level.col)?.style;
+      const color = level.sortOn === 'fontColor' ? style?.color : style?.backgroundColor;
+      if (color && !colors.has(color.toLowerCase())) {
+        colors.set(color.toLowerCase(), color);
+      }
+    }
+    return [...colors.values()];
+  }
+
+  /**
+   * Adds a sort level for the next column of the range
+   */
+  onAddLevel(): void {
+    const columns = this.getColumns();
+    const last = this.levels[this.levels.length - 1];
+    const next = columns[Math.min(columns.indexOf(last?.col) + 1, columns.length - 1)];
+    this.levels = [...this.levels, { col: next ?? columns[0] }];
+  }
+
+  /**
+   * Removes a sort level
+   */
+  onDeleteLevel(index: number): void {
+    this.levels = this.levels.filter((_, i) => i !== index);
+  }
+
+  /**
+   * Updates the column of a level
+   */
+  onColumnChange(index: number, event: Event): void {
+    const col = Number((event.target as HTMLSelectElement).value);
+    this.updateLevel(index, { ...this.levels[index], col, color: undefined });
+  }
+
+  /**
+   * Updates what a level sorts on, picking the first color of the column for colors
+   */
+  onSortOnChange(index: number, event: Event): void {
+    const sortOn = (event.target as HTMLSelectElement).value as SortOn;
+    const level: SortLevel = { col: this.levels[index].col, sortOn };
+    if (sortOn !== 'value') {
+      level.color = this.getColors(level)[0];
+    }
+    this.updateLevel(index, level);
+  }
+
+  /**
+   * Updates the order of a level (A to Z / Z to A, or On Top / On Bottom for colors)
+   */
+  onOrderChange(index: number, event: Event): void {
+    const descending = (event.target as HTMLSelectElement).value === 'descending';
+    this.updateLevel(index, { ...this.levels[index], descending });
+  }
+
+  /**
+   * Updates the custom list of a level ('' for none)
+   */
+  onCustomListChange(index: number, event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    const customList = value === '' ? undefined : this.customLists[Number(value)];
+    this.updateLevel(index, { ...this.levels[index], customList });
+  }
+
+  /**
+   * Updates the color of a color level
+   */
+  onColorChange(index: number, event: Event): void {
+    const color = (event.target as HTMLSelectElement).value;
+    this.updateLevel(index, { ...this.levels[index], color });
+  }
+
+  /**
+   * Sorts the range and closes the dialog. Color levels without a color are skipped.
+   */
+  onOk(): void {
+    const levels = this.levels.filter(
+      (level) => (level.sortOn ?? 'value') === 'value' || level.color
+    );
+    this.dataService.sortRange(this.range, {
+      levels,
+      hasHeader: this.hasHeader,
+      caseSensitive: this.caseSensitive,
+    });
+    this.closed.emit();
+  }
+
+  /**
+   * Closes the dialog without sorting
+   */
+  onCancel(): void {
+    this.closed.emit();
+  }
+
+  /**
+   * Replaces a level
+   */
+  private updateLevel(index: number, level: SortLevel): void {
+    this.levels = this.levels.map((current, i) => (i === index ? level : current));
+  }
+}
@@ -225,6 +225,75 @@ describe('SpreadsheetRibbonComponent', () => {
         value: true
       });
     });
+
+    it('should apply a merge option and close the merge dropdown', () => {
+      spyOn(component.ribbonAction, 'emit');
+      component.toggleMergeDropdown();
+      expect(component.showMergeDropdown).toBe(true);
+      component.applyMerge('unmerge');
+      expect(component.ribbonAction.emit).toHaveBeenCalledWith({
+        type: 'merge',
+        action: 'unmerge',
+        value: true
+      });
+      expect(component.showMergeDropdown).toBe(false);
+    });
+
+    it('should freeze panes from the freeze dropdown', () => {
+      spyOn(component.ribbonAction, 'emit');
+      component.toggleFreezeDropdown();
+      expect(component.showFreezeDropdown).toBe(true);
+      component.freeze('topRow');
+      expect(component.ribbonAction.emit).toHaveBeenCalledWith({
+        type: 'freeze',
+        action: 'topRow',
+        value: true
+      });
+      expect(component.showFreezeDropdown).toBe(false);
+    });
+
+    it('should emit data validation actions and close the dropdown', () => {
+      spyOn(component.ribbonAction, 'emit');
+      component.toggleValidationDropdown();
+      expect(component.showValidationDropdown).toBe(true);
+      component.dataValidation('circle');
+      expect(component.ribbonAction.emit).toHaveBeenCalledWith({
+        type: 'validation',
+        action: 'circle',
+        value: true
+      });
+      expect(component.showValidationDropdown).toBe(false);
+    });
+
+    it('should open the Name Manager', () => {
+      spyOn(component.ribbonAction, 'emit');
+      component.manageNames();
+      expect(component.ribbonAction.emit).toHaveBeenCalledWith({
+        type: 'names',
+        action: 'manage',
+        value: true
+      });
+    });
+
+    it('should start a text file import', () => {
+      spyOn(component.ribbonAction, 'emit');
+      component.importText();
+      expect(component.ribbonAction.emit).toHaveBeenCalledWith({
+        type: 'import',
+        action: 'csv',
+        value: true
+      });
+    });
+
+    it('should open the conditional formatting rules manager', () => {
+      spyOn(component.ribbonAction, 'emit');
+      component.manageConditionalFormats();
+      expect(component.ribbonAction.emit).toHaveBeenCalledWith({
+        type: 'conditionalFormat',
+        action: 'manage',
+        value: true
+      });
+    });
   });
 
   describe('Number Formatting', () => {
@@ -343,6 +412,16 @@ describe('SpreadsheetRibbonComponent', () => {
         value: true
       });
     });
+
+    it('should clear comments only', () => {
+      spyOn(component.ribbonAction, 'emit');
+      component.clearComments();
+      expect(component.ribbonAction.emit).toHaveBeenCalledWith({
+        type: 'clear',
+        action: 'comments',
+        value: true
+      });
+    });
   });
 
   describe('Sort and Filter', () => {
@@ -366,6 +445,16 @@ describe('SpreadsheetRibbonComponent', () => {
       });
     });
 
+    it('should emit custom sort action', () => {
+      spyOn(component.ribbonAction, 'emit');
+      component.customSort();
+      expect(component.ribbonAction.emit).toHaveBeenCalledWith({
+        type: 'sort',
+        action: 'custom',
+        value: true
+      });
+    });
+
     it('should emit filter toggle action', () => {
       spyOn(component.ribbonAction, 'emit');
       component.toggleFilter();
@@ -406,6 +495,16 @@ describe('SpreadsheetRibbonComponent', () => {
         value: 'test search'
       });
     });
+
+    it('should emit replace action even without search text', () => {
+      spyOn(component.ribbonAction, 'emit');
+      component.replace();
+      expect(component.ribbonAction.emit).toHaveBeenCalledWith({
+        type: 'search',
+        action: 'replace',
+        value: ''
+      });
+    });
   });
 
   describe('Dropdown Management', () => {
@@ -4,7 +4,7 @@ import { FormsModule } from '@angular/forms';
 import { CellStyle } from '../models';
 
 export interface RibbonAction {
-  type: 'clipboard' | 'font' | 'format' | 'alignment' | 'sort' | 'filter' | 'search' | 'merge' | 'border' | 'clear' | 'formatPainter' | 'undo' | 'redo';
+  type: 'clipboard' | 'font' | 'format' | 'alignment' | 'sort' | 'filter' | 'search' | 'merge' | 'freeze' | 'conditionalFormat' | 'validation' | 'names' | 'import' | 'border' | 'clear' | 'formatPainter' | 'undo' | 'redo';
   action: string;
   value?: any;
 }
@@ -169,12 +169,23 @@ export interface RibbonAction {
               <path d="M3 6h18M3 12h15a3 3 0 0 1 0 6h-3m0 0l2-2m-2 2l2 2M3 18h7"/>
             </svg>
           </button>
-          <button class="ribbon-btn" (click)="mergeAndCenter()" title="Merge & Center">
-            <svg class="ribbon-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-              <rect x="3" y="3" width="18" height="18" rx="2"/>
-              <path d="M12 8v8m-4-4h8"/>
-            </svg>
-          </button>
+          <div class="ribbon-dropdown">
+            <button class="ribbon-btn" (click)="mergeAndCenter()" title="Merge & Center">
+              <svg class="ribbon-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <rect x="3" y="3" width="18" height="18" rx="2"/>
+                <path d="M12 8v8m-4-4h8"/>
+              </svg>
+            </button>
+            <button class="ribbon-btn ribbon-btn-small" (click)="toggleMergeDropdown()" title="Merge Options">▾</button>
+            @if (showMergeDropdown) {
+              <div class="ribbon-dropdown-menu" (click)="$event.stopPropagation()">
+                <button class="ribbon-dropdown-item" (click)="applyMerge('mergeAndCenter')">Merge & Center</button>
+                <button class="ribbon-dropdown-item" (click)="applyMerge('mergeAcross')">Merge Across</button>
+                <button class="ribbon-dropdown-item" (click)="applyMerge('mergeCells')">Merge Cells</button>
+                <button class="ribbon-dropdown-item" (click)="applyMerge('unmerge')">Unmerge Cells</button>
+              </div>
+            }
+          </div>
         </div>
       </div>
 
@@ -197,6 +208,21 @@ export interface RibbonAction {
         </div>
       </div>
 
+      <!-- Styles Section (Excel order: 5th) -->
+      <div class="ribbon-group">
+        <div class="ribbon-group-label">Styles</div>
+        <div class="ribbon-controls">
+          <button class="ribbon-btn" (click)="manageConditionalFormats()" title="Conditional Formatting">
+            <svg class="ribbon-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <rect x="3" y="3" width="18" height="18" rx="1"/>
+              <path d="M3 9h18M3 15h18M9 3v18"/>
+              <rect x="10" y="10" width="10" height="4" fill="currentColor" stroke="none"/>
+            </svg>
+            Conditional Formatting
+          </button>
+        </div>
+      </div>
+
       <!-- Editing Section (Excel order: 7th - combines Sort, Filter, Find) -->
       <div class="ribbon-group">
         <div class="ribbon-group-label">Editing</div>
@@ -213,6 +239,12 @@ export interface RibbonAction {
             </svg>
             Z-A
           </button>
+          <button class="ribbon-btn" (click)="customSort()" title="Custom Sort">
+            <svg class="ribbon-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M4 6h16M4 12h10M4 18h6m11-3l-3 3-3-3m3 3V9"/>
+            </svg>
+            Sort
+          </button>
           <button class="ribbon-btn" (click)="toggleFilter()" title="Filter">
             <svg class="ribbon-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
               <path d="M3 6h18l-7 8v6l-4 2v-8L3 6z"/>
@@ -226,6 +258,12 @@ export interface RibbonAction {
               <path d="m21 21-4.35-4.35"/>
             </svg>
           </button>
+          <button class="ribbon-btn" (click)="replace()" title="Replace (Ctrl+H)">
+            <svg class="ribbon-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M4 7h11m0 0-3-3m3 3-3 3M20 17H9m0 0 3-3m-3 3 3 3"/>
+            </svg>
+            Replace
+          </button>
           <div class="ribbon-dropdown">
             <button class="ribbon-btn" (click)="toggleClearDropdown()" title="Clear">
               <svg class="ribbon-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
@@ -238,6 +276,82 @@ export interface RibbonAction {
                 <button class="ribbon-dropdown-item" (click)="clearAll()">Clear All</button>
                 <button class="ribbon-dropdown-item" (click)="clearContents()">Clear Contents</button>
                 <button class="ribbon-dropdown-item" (click)="clearFormats()">Clear Formats</button>
+                <button class="ribbon-dropdown-item" (click)="clearComments()">Clear Comments</button>
+              </div>
+            }
+          </div>
+        </div>
+      </div>
+
+      <!-- Get Data Section -->
+      <div class="ribbon-group">
+        <div class="ribbon-group-label">Get Data</div>
+        <div class="ribbon-controls">
+          <button class="ribbon-btn" (click)="importText()" title="From Text/CSV">
+            <svg class="ribbon-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M14 3H6a1 1 0 0 0-1 1v16a1 1 0 0 0 1 1h12a1 1 0 0 0 1-1V8l-5-5z"/>
+              <path d="M14 3v5h5M8 13h8M8 17h8"/>
+            </svg>
+            From Text/CSV
+          </button>
+        </div>
+      </div>
+
+      <!-- Data Tools Section -->
+      <div class="ribbon-group">
+        <div class="ribbon-group-label">Data Tools</div>
+        <div class="ribbon-controls">
+          <div class="ribbon-dropdown">
+            <button class="ribbon-btn" (click)="toggleValidationDropdown()" title="Data Validation">
+              <svg class="ribbon-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <rect x="3" y="3" width="18" height="18" rx="2"/>
+                <path d="M7 12l3 3 7-7"/>
+              </svg>
+              Data Validation
+            </button>
+            @if (showValidationDropdown) {
+              <div class="ribbon-dropdown-menu" (click)="$event.stopPropagation()">
+                <button class="ribbon-dropdown-item" (click)="dataValidation('settings')">Data Validation...</button>
+                <button class="ribbon-dropdown-item" (click)="dataValidation('circle')">Circle Invalid Data</button>
+                <button class="ribbon-dropdown-item" (click)="dataValidation('clearCircles')">Clear Validation Circles</button>
+              </div>
+            }
+          </div>
+        </div>
+      </div>
+
+      <!-- Defined Names Section -->
+      <div class="ribbon-group">
+        <div class="ribbon-group-label">Defined Names</div>
+        <div class="ribbon-controls">
+          <button class="ribbon-btn" (click)="manageNames()" title="Name Manager">
+            <svg class="ribbon-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <rect x="3" y="5" width="18" height="14" rx="1"/>
+              <path d="M7 10h4M7 14h10"/>
+            </svg>
+            Name Manager
+          </button>
+        </div>
+      </div>
+
+      <!-- View Section -->
+      <div class="ribbon-group">
+        <div class="ribbon-group-label">View</div>
+        <div class="ribbon-controls">
+          <div class="ribbon-dropdown">
+            <button class="ribbon-btn" (click)="toggleFreezeDropdown()" title="Freeze Panes">
+              <svg class="ribbon-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <rect x="3" y="3" width="18" height="18" rx="2"/>
+                <path d="M3 9h18M9 3v18"/>
+              </svg>
+              Freeze
+            </button>
+            @if (showFreezeDropdown) {
+              <div class="ribbon-dropdown-menu" (click)="$event.stopPropagation()">
+                <button class="ribbon-dropdown-item" (click)="freeze('panes')">Freeze Panes</button>
+                <button class="ribbon-dropdown-item" (click)="freeze('topRow')">Freeze Top Row</button>
+                <button class="ribbon-dropdown-item" (click)="freeze('firstColumn')">Freeze First Column</button>
+                <button class="ribbon-dropdown-item" (click)="freeze('unfreeze')">Unfreeze Panes</button>
               </div>
             }
           </div>
@@ -404,6 +518,9 @@ export class SpreadsheetRibbonComponent {
   searchText = '';
   showBordersDropdown = false;
   showClearDropdown = false;
+  showMergeDropdown = false;
+  showFreezeDropdown = false;
+  showValidationDropdown = false;
   formatPainterActive = false;
 
   getFontSizeValue(): string {
@@ -479,12 +596,54 @@ export class SpreadsheetRibbonComponent {
   }
 
   mergeAndCenter(): void {
-    this.emitAction('merge', 'mergeAndCenter', true);
+    this.applyMerge('mergeAndCenter');
+  }
+
+  toggleMergeDropdown(): void {
+    this.showMergeDropdown = !this.showMergeDropdown;
+    this.showBordersDropdown = false;
+    this.showClearDropdown = false;
+    this.showFreezeDropdown = false;
+    this.showValidationDropdown = false;
+  }
+
+  applyMerge(type: 'mergeAndCenter' | 'mergeAcross' | 'mergeCells' | 'unmerge'): void {
+    this.emitAction('merge', type, true);
+    this.showMergeDropdown = false;
+  }
+
+  toggleFreezeDropdown(): void {
+    this.showFreezeDropdown = !this.showFreezeDropdown;
+    this.showBordersDropdown = false;
+    this.showClearDropdown = false;
+    this.showMergeDropdown = false;
+    this.showValidationDropdown = false;
+  }
+
+  toggleValidationDropdown(): void {
+    this.showValidationDropdown = !this.showValidationDropdown;
+    this.showBordersDropdown = false;
+    this.showClearDropdown = false;
+    this.showMergeDropdown = false;
+    this.showFreezeDropdown = false;
+  }
+
+  dataValidation(action: 'settings' | 'circle' | 'clearCircles'): void {
+    this.emitAction('validation', action, true);
+    this.showValidationDropdown = false;
+  }
+
+  freeze(type: 'panes' | 'topRow' | 'firstColumn' | 'unfreeze'): void {
+    this.emitAction('freeze', type, true);
+    this.showFreezeDropdown = false;
   }
 
   toggleBordersDropdown(): void {
     this.showBordersDropdown = !this.showBordersDropdown;
     this.showClearDropdown = false;
+    this.showMergeDropdown = false;
+    this.showFreezeDropdown = false;
+    this.showValidationDropdown = false;
   }
 
   applyBorder(type: string): void {
@@ -500,6 +659,9 @@ export class SpreadsheetRibbonComponent {
   toggleClearDropdown(): void {
     this.showClearDropdown = !this.showClearDropdown;
     this.showBordersDropdown = false;
+    this.showMergeDropdown = false;
+    this.showFreezeDropdown = false;
+    this.showValidationDropdown = false;
   }
 
   clearAll(): void {
@@ -517,6 +679,11 @@ export class SpreadsheetRibbonComponent {
     this.showClearDropdown = false;
   }
 
+  clearComments(): void {
+    this.emitAction('clear', 'comments', true);
+    this.showClearDropdown = false;
+  }
+
   sortAscending(): void {
     this.emitAction('sort', 'ascending', true);
   }
@@ -525,6 +692,22 @@ export class SpreadsheetRibbonComponent {
     this.emitAction('sort', 'descending', true);
   }
 
+  customSort(): void {
+    this.emitAction('sort', 'custom', true);
+  }
+
+  manageConditionalFormats(): void {
+    this.emitAction('conditionalFormat', 'manage', true);
+  }
+
+  manageNames(): void {
+    this.emitAction('names', 'manage', true);
+  }
+
+  importText(): void {
+    this.emitAction('import', 'csv', true);
+  }
+
   cut(): void {
     this.emitAction('clipboard', 'cut', true);
   }
@@ -555,12 +738,19 @@ export class SpreadsheetRibbonComponent {
     }
   }
 
+  replace(): void {
+    this.emitAction('search', 'replace', this.searchText.trim());
+  }
+
   @HostListener('document:click', ['$event'])
   onDocumentClick(event: MouseEvent): void {
     const target = event.target as HTMLElement;
     if (!target.closest('.ribbon-dropdown')) {
       this.showBordersDropdown = false;
       this.showClearDropdown = false;
+      this.showMergeDropdown = false;
+      this.showFreezeDropdown = false;
+      this.showValidationDropdown = false;
     }
   }
 
@@ -1,7 +1,11 @@
+import { Component, ViewChildren, QueryList } from '@angular/core';
 import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
 import { SpreadsheetComponent } from './spreadsheet.component';
+import { SheetTabsComponent } from './sheet-tabs.component';
 import { SpreadsheetDataService } from '../services/spreadsheet-data.service';
 import { FormulaService } from '../services/formula.service';
+import { provideSpreadsheetStore } from '../services/spreadsheet-store';
 import { CellAddress, CellRange } from '../models';
 
 describe('SpreadsheetComponent', () => {
@@ -149,6 +153,432 @@ describe('SpreadsheetComponent', () => {
   // Note: Drag and Shift+Click tests require proper DOM setup with event.target
   // These are tested via manual testing and E2E tests
 
+  describe('Fill Handle', () => {
+    it('should fill a series from the selected range and select the result', () => {
+      dataService.updateCell(0, 0, 1);
+      dataService.updateCell(1, 0, 2);
+      dataService.selectRange({ start: { row: 0, col: 0 }, end: { row: 1, col: 0 } });
+
+      expect(component.isFillHandleCell(1, 0)).toBe(true);
+      component.onFillHandleMouseDown(new MouseEvent('mousedown'), 1, 0);
+      component.onCellMouseMove(new MouseEvent('mousemove'), 3, 0);
+      expect(component.isCellInFillRange(3, 0)).toBe(true);
+      expect(component.isCellInFillRange(3, 1)).toBe(false);
+
+      component.onMouseUp(new MouseEvent('mouseup'));
+
+      expect(dataService.getCell(3, 0)?.value).toBe(4);
+      expect(dataService.getSelectedRange()).toEqual({
+        start: { row: 0, col: 0 },
+        end: { row: 3, col: 0 }
+      });
+    });
+
+    it('should switch to copy mode while Ctrl is held', () => {
+      dataService.updateCell(0, 0, 'Item 1');
+      dataService.selectCell({ row: 0, col: 0 });
+
+      component.onFillHandleMouseDown(new MouseEvent('mousedown'), 0, 0);
+      component.onCellMouseMove(new MouseEvent('mousemove'), 0, 2);
+      component.onMouseUp(new MouseEvent('mouseup', { ctrlKey: true }));
+
+      expect(dataService.getCell(0, 2)?.value).toBe('Item 1');
+    });
+  });
+
+  describe('AutoFilter', () => {
+    beforeEach(() => {
+      ['Region', 'North', 'South', 'North'].forEach((region, row) =>
+        dataService.updateCell(row, 0, region)
+      );
+      dataService.selectCell({ row: 1, col: 0 });
+    });
+
+    it('should toggle the AutoFilter on the current region from the ribbon', () => {
+      component.onRibbonAction({ type: 'filter', action: 'toggle' });
+      expect(dataService.getAutoFilter()?.range).toEqual({
+        start: { row: 0, col: 0 },
+        end: { row: 3, col: 0 }
+      });
+      expect(component.isFilterHeaderCell(0, 0)).toBe(true);
+      expect(component.isFilterHeaderCell(1, 0)).toBe(false);
+
+      component.onRibbonAction({ type: 'filter', action: 'toggle' });
+      expect(dataService.getAutoFilter()).toBeNull();
+    });
+
+    it('should leave filtered rows out of the grid and skip them with the arrow keys', () => {
+      component.onRibbonAction({ type: 'filter', action: 'toggle' });
+      dataService.setColumnFilter(0, { type: 'values', values: ['North'] });
+
+      expect(component.getRows().slice(0, 4)).toEqual([0, 1, 3, 4]);
+      expect(component.isRowFiltered(1)).toBe(true);
+
+      component.handleKeyDown(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+      expect(dataService.getSelectedCell()).toEqual({ row: 3, col: 0 });
+    });
+
+    it('should open the dropdown menu of a column', () => {
+      component.onRibbonAction({ type: 'filter', action: 'toggle' });
+      fixture.detectChanges();
+
+      const button = fixture.debugElement.query(By.css('.filter-button'));
+      button.nativeElement.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+      fixture.detectChanges();
+
+      expect(component.filterMenuColumn).toBe(0);
+      const items = fixture.debugElement.queryAll(By.css('ngs-auto-filter-menu .value-item span'));
+      expect(items.map((item) => item.nativeElement.textContent)).toEqual([
+        '(Select All)',
+        'North',
+        'South',
+      ]);
+    });
+  });
+
+  describe('Sorting', () => {
+    // A1:B4 holds Name | Age with a header row, and D1 is outside the region
+    beforeEach(() => {
+      [['Name', 'Age'], ['Cy', 30], ['Al', 41], ['Bo', 25]].forEach((values, row) =>
+        values.forEach((value, col) => dataService.updateCell(row, col, value))
+      );
+      dataService.updateCell(0, 3, 'Note');
+      dataService.selectCell({ row: 1, col: 1 });
+    });
+
+    const names = () => [0, 1, 2, 3].map((row) => dataService.getCell(row, 0)?.value);
+
+    it('should sort the current region by the selected column and undo it at once', () => {
+      component.onRibbonAction({ type: 'sort', action: 'descending', value: true });
+      expect(names()).toEqual(['Name', 'Al', 'Cy', 'Bo']);
+      expect(dataService.getCell(0, 3)?.value).toBe('Note');
+
+      dataService.undo();
+      expect(names()).toEqual(['Name', 'Cy', 'Al', 'Bo']);
+    });
+
+    it('should sort from the Custom Sort dialog', () => {
+      component.onRibbonAction({ type: 'sort', action: 'custom', value: true });
+      fixture.detectChanges();
+
+      const dialog = fixture.debugElement.query(By.css('ngs-sort-dialog'));
+      const options = dialog.queryAll(By.css('.level-column option'));
+      expect(options.map((option) => option.nativeElement.textContent.trim())).toEqual([
+        'Name',
+        'Age',
+      ]);
+
+      dialog.query(By.css('.ok-button')).nativeElement.click();
+      fixture.detectChanges();
+
+      expect(names()).toEqual(['Name', 'Bo', 'Cy', 'Al']);
+      expect(component.sortDialogRange).toBeNull();
+    });
+  });
+
+  describe('Merged Cells', () => {
+    // B2:C3 is selected; B2 holds a value and C3 another one
+    beforeEach(() => {
+      dataService.updateCell(1, 1, 'Title');
+      dataService.updateCell(2, 2, 'lost');
+      dataService.selectRange({ start: { row: 1, col: 1 }, end: { row: 2, col: 2 } });
+    });
+
+    it('should ask before discarding values and render the merge as one cell', () => {
+      const confirmSpy = spyOn(window, 'confirm').and.returnValue(false);
+      component.onRibbonAction({ type: 'merge', action: 'mergeAndCenter', value: true });
+      expect(confirmSpy).toHaveBeenCalled();
+      expect(dataService.getActiveSheet()?.merges).toBeUndefined();
+
+      confirmSpy.and.returnValue(true);
+      component.onRibbonAction({ type: 'merge', action: 'mergeAndCenter', value: true });
+      fixture.detectChanges();
+
+      expect(dataService.getCell(2, 2)?.value).toBe('');
+      const merged = fixture.debugElement.queryAll(By.css('.spreadsheet-cell.merged'));
+      expect(merged.length).toBe(1);
+      expect(merged[0].nativeElement.style.width).toBe(`${component.getColumnWidth(1) * 2}px`);
+      expect(merged[0].nativeElement.style.height).toBe(`${component.ROW_HEIGHT * 2}px`);
+    });
+
+    it('should move out of a merged cell as if it were one cell', () => {
+      spyOn(window, 'confirm').and.returnValue(true);
+      component.onRibbonAction({ type: 'merge', action: 'mergeCells', value: true });
+      dataService.selectCell({ row: 2, col: 2 });
+      expect(component.selectedCell).toEqual({ row: 1, col: 1 });
+
+      component.handleKeyDown(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+      expect(component.selectedCell).toEqual({ row: 3, col: 1 });
+
+      component.handleKeyDown(new KeyboardEvent('keydown', { key: 'ArrowUp' }));
+      expect(component.selectedCell).toEqual({ row: 1, col: 1 });
+
+      component.handleKeyDown(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+      expect(component.selectedCell).toEqual({ row: 1, col: 3 });
+    });
+  });
+
+  describe('Freeze Panes', () => {
+    it('should keep the rows above and columns left of the selection in place', () => {
+      dataService.selectCell({ row: 2, col: 1 });
+      component.onRibbonAction({ type: 'freeze', action: 'panes', value: true });
+      fixture.detectChanges();
+
+      expect(component.getFrozenRows()).toEqual([0, 1]);
+      expect(component.getScrollableRows()[0]).toBe(2);
+      const frozenRows = fixture.debugElement.queryAll(
+        By.css('.cells-container .frozen-rows .spreadsheet-row')
+      );
+      expect(frozenRows.length).toBe(2);
+
+      component.onCellsScroll({ target: { scrollLeft: 150, scrollTop: 0 } } as any);
+      expect(component.getCellLeft(0)).toBe(150);
+      expect(component.getCellLeft(1)).toBe(component.getColumnWidth(0));
+
+      component.onRibbonAction({ type: 'freeze', action: 'unfreeze', value: true });
+      expect(component.getFrozenRows()).toEqual([]);
+    });
+  });
+
+  describe('Conditional Formatting', () => {
+    it('should create a rule in the rules manager and render it in the grid', () => {
+      dataService.updateCell(0, 0, 5);
+      dataService.updateCell(1, 0, 1);
+      dataService.selectCell({ row: 0, col: 0 });
+      component.onRibbonAction({ type: 'conditionalFormat', action: 'manage', value: true });
+      fixture.detectChanges();
+
+      const dialog = () => fixture.debugElement.query(By.css('ngs-conditional-format-dialog'));
+      const click = (selector: string) => {
+        dialog().query(By.css(selector)).nativeElement.click();
+        fixture.detectChanges();
+      };
+      const type = (selector: string, value: string, event: string) => {
+        const input = dialog().query(By.css(selector)).nativeElement as HTMLInputElement;
+        input.value = value;
+        input.dispatchEvent(new Event(event));
+        fixture.detectChanges();
+      };
+
+      click('.new-rule');
+      type('.rule-range-input', 'A1:A2', 'input');
+      type('.condition-value', '3', 'change');
+      click('.save-rule');
+      expect(dialog().queryAll(By.css('.rule-row:not(.rule-header)')).length).toBe(1);
+      click('.ok-button');
+
+      expect(dialog()).toBeNull();
+      expect(component.getCellStyle(0, 0)['background-color']).toBe('#ffc7ce');
+      expect(component.getCellStyle(1, 0)['background-color']).toBeUndefined();
+
+      dataService.addConditionalFormat({
+        id: 'bars',
+        type: 'dataBar',
+        color: '#638ec6',
+        range: { start: { row: 0, col: 0 }, end: { row: 1, col: 0 } },
+      });
+      fixture.detectChanges();
+      expect(fixture.debugElement.queryAll(By.css('.data-bar')).length).toBe(2);
+    });
+  });
+
+  describe('Data Validation', () => {
+    const column: CellRange = { start: { row: 0, col: 0 }, end: { row: 4, col: 0 } };
+    const enter = (row: number, col: number, value: string) => {
+      component.onCellDoubleClick(new MouseEvent('dblclick'), row, col);
+      component.editingValue = value;
+      component.onEditingKeyDown(new KeyboardEvent('keydown', { key: 'Enter' }));
+    };
+
+    it('should reject entries breaking a stop rule', () => {
+      dataService.setDataValidation(column, {
+        type: 'wholeNumber',
+        value1: 1,
+        value2: 10,
+        errorMessage: 'Enter a number from 1 to 10',
+      });
+      const confirmSpy = spyOn(window, 'confirm').and.returnValue(true);
+
+      enter(0, 0, '50');
+      expect(confirmSpy.calls.mostRecent().args[0]).toContain('Enter a number from 1 to 10');
+      expect(dataService.getCell(0, 0)?.value).toBe('');
+      expect(component.editingCell).toEqual({ row: 0, col: 0 });
+
+      // Cancel discards the entry
+      confirmSpy.and.returnValue(false);
+      component.onEditingKeyDown(new KeyboardEvent('keydown', { key: 'Enter' }));
+      expect(component.editingCell).toBeNull();
+
+      enter(0, 0, '5');
+      expect(dataService.getCell(0, 0)?.value).toBe('5');
+    });
+
+    it('should pick a value from the dropdown of a list rule', () => {
+      dataService.setDataValidation(column, { type: 'list', list: ['Yes', 'No'] });
+      dataService.selectCell({ row: 1, col: 0 });
+      fixture.detectChanges();
+
+      const button = fixture.debugElement.query(By.css('.validation-dropdown-button'));
+      button.nativeElement.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+      fixture.detectChanges();
+
+      const items = fixture.debugElement.queryAll(By.css('.validation-list-item'));
+      expect(items.map((item) => item.nativeElement.textContent.trim())).toEqual(['Yes', 'No']);
+      items[1].nativeElement.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+      fixture.detectChanges();
+
+      expect(dataService.getCell(1, 0)?.value).toBe('No');
+      expect(fixture.debugElement.query(By.css('.validation-list'))).toBeNull();
+    });
+  });
+
+  describe('Comments', () => {
+    const popover = () => fixture.debugElement.query(By.css('.comment-popover'));
+    const openFromContextMenu = (row: number, col: number) => {
+      component.onCellContextMenu(new MouseEvent('contextmenu'), row, col);
+      fixture.detectChanges();
+      const item = fixture.debugElement
+        .queryAll(By.css('.context-menu-item'))
+        .find((element) => element.nativeElement.textContent.includes('Comment'));
+      item!.nativeElement.click();
+      fixture.detectChanges();
+    };
+
+    it('should add a comment from the context menu and show it on hover', () => {
+      component.author = 'Ann';
+      openFromContextMenu(1, 1);
+
+      const draft = popover().query(By.css('.comment-draft')).nativeElement;
+      draft.value = 'Please check';
+      draft.dispatchEvent(new Event('input'));
+      fixture.detectChanges();
+      popover().query(By.css('.comment-post')).nativeElement.click();
+      fixture.detectChanges();
+
+      expect(dataService.getComment(1, 1)?.author).toBe('Ann');
+      expect(fixture.debugElement.queryAll(By.css('.comment-indicator')).length).toBe(1);
+
+      component.closeCommentPopover();
+      fixture.detectChanges();
+      const cell = fixture.debugElement.query(By.css('.spreadsheet-cell.has-comment'));
+      cell.nativeElement.dispatchEvent(new MouseEvent('mouseenter'));
+      fixture.detectChanges();
+
+      expect(popover().query(By.css('.comment-text')).nativeElement.textContent).toContain(
+        'Please check'
+      );
+      // The hover popover only shows the thread
+      expect(popover().query(By.css('.comment-draft'))).toBeNull();
+
+      cell.nativeElement.dispatchEvent(new MouseEvent('mouseleave'));
+      fixture.detectChanges();
+      expect(popover()).toBeNull();
+    });
+
+    it('should resolve and reopen a thread', () => {
+      dataService.addComment(0, 0, 'Done?', 'Ann');
+      openFromContextMenu(0, 0);
+
+      popover().query(By.css('.comment-resolve')).nativeElement.click();
+      fixture.detectChanges();
+      expect(dataService.getComment(0, 0)?.resolved).toBeTrue();
+      expect(popover().query(By.css('.comment-draft'))).toBeNull();
+      expect(fixture.debugElement.query(By.css('.comment-indicator.resolved'))).toBeTruthy();
+
+      popover().query(By.css('.comment-resolve')).nativeElement.click();
+      fixture.detectChanges();
+      expect(dataService.getComment(0, 0)?.resolved).toBeUndefined();
+    });
+  });
+
+  describe('Defined Names', () => {
+    const nameBox = () =>
+      fixture.debugElement.query(By.css('.cell-name')).nativeElement as HTMLInputElement;
+
+    it('should define a name for the selection in the Name Manager', () => {
+      dataService.selectRange({ start: { row: 1, col: 0 }, end: { row: 4, col: 2 } });
+      fixture.detectChanges();
+      fixture.debugElement
+        .query(By.css('.ribbon-btn[title="Name Manager"]'))
+        .nativeElement.click();
+      fixture.detectChanges();
+
+      const dialog = () => fixture.debugElement.query(By.css('ngs-name-manager-dialog'));
+      dialog().query(By.css('.new-name')).nativeElement.click();
+      fixture.detectChanges();
+      expect(dialog().query(By.css('.name-refers-to')).nativeElement.value).toBe(
+        '=Sheet1!$A$2:$C$5'
+      );
+
+      const input = dialog().query(By.css('.name-input')).nativeElement;
+      input.value = 'SalesData';
+      input.dispatchEvent(new Event('input'));
+      dialog().query(By.css('.ok-button')).nativeElement.click();
+      fixture.detectChanges();
+
+      expect(dialog().query(By.css('.name-reference')).nativeElement.textContent).toBe(
+        '=Sheet1!$A$2:$C$5'
+      );
+      // The name box shows the name of the selection
+      expect(nameBox().value).toBe('SalesData');
+    });
+
+    it('should go to the name typed in the name box', () => {
+      dataService.addDefinedName('Target', 'C3:D4');
+      nameBox().value = 'target';
+      nameBox().dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+      fixture.detectChanges();
+
+      expect(dataService.getSelectedRange()).toEqual({
+        start: { row: 2, col: 2 },
+        end: { row: 3, col: 3 },
+      });
+      expect(nameBox().value).toBe('Target');
+      // Keys typed in the name box are not taken as cell input
+      expect(dataService.getEditingCell()).toBeNull();
+    });
+  });
+
+  describe('Find and Replace', () => {
+    beforeEach(() => {
+      dataService.updateCell(0, 0, 'Total');
+      dataService.updateCell(3, 1, 'total');
+      dataService.selectCell({ row: 0, col: 0 });
+    });
+
+    it('should open the panel with Ctrl+F and Ctrl+H', () => {
+      component.handleKeyDown(new KeyboardEvent('keydown', { key: 'f', ctrlKey: true }));
+      fixture.detectChanges();
+      expect(component.findPanelMode).toBe('find');
+      const replaceInput = () =>
+        fixture.debugElement.query(By.css('ngs-find-replace-panel .replace-input'));
+      expect(replaceInput()).toBeNull();
+
+      component.handleKeyDown(new KeyboardEvent('keydown', { key: 'h', ctrlKey: true }));
+      fixture.detectChanges();
+      expect(component.findPanelMode).toBe('replace');
+      expect(replaceInput()).toBeTruthy();
+    });
+
+    it('should find the ribbon search text and list all matches', () => {
+      component.onRibbonAction({ type: 'search', action: 'find', value: 'total' });
+      fixture.detectChanges();
+      expect(dataService.getSelectedCell()).toEqual({ row: 3, col: 1 });
+
+      const panel = fixture.debugElement.query(By.css('ngs-find-replace-panel'));
+      panel.query(By.css('.find-all-button')).nativeElement.click();
+      fixture.detectChanges();
+
+      const rows = panel.queryAll(By.css('.result-item')).map((row) =>
+        row.queryAll(By.css('span')).map((span) => span.nativeElement.textContent).join(' ')
+      );
+      expect(rows).toEqual([
+        'Sheet1 A1 Total',
+        'Sheet1 B4 total',
+      ]);
+    });
+  });
+
   describe('Copy Integration with Range Selection', () => {
     it('should copy range data after selection', () => {
       // Arrange
@@ -177,3 +607,77 @@ describe('SpreadsheetComponent', () => {
     });
   });
 });
+
+@Component({
+  standalone: true,
+  imports: [SpreadsheetComponent],
+  template: '<ngs-spreadsheet /><ngs-spreadsheet />',
+})
+class TwoSpreadsheetsHostComponent {
+  @ViewChildren(SpreadsheetComponent) spreadsheets!: QueryList<SpreadsheetComponent>;
+}
+
+@Component({
+  standalone: true,
+  imports: [SpreadsheetComponent],
+  providers: [provideSpreadsheetStore()],
+  template: '<ngs-spreadsheet /><ngs-spreadsheet />',
+})
+class SharedStoreHostComponent {
+  @ViewChildren(SpreadsheetComponent) spreadsheets!: QueryList<SpreadsheetComponent>;
+}
+
+describe('SpreadsheetComponent instances', () => {
+  it('should give each spreadsheet its own store', () => {
+    const fixture = TestBed.createComponent(TwoSpreadsheetsHostComponent);
+    fixture.detectChanges();
+    const [first, second] = fixture.componentInstance.spreadsheets.toArray();
+
+    expect(first.dataService).not.toBe(second.dataService);
+
+    first.dataService.updateCell(0, 0, 'Budget');
+    first.dataService.selectCell({ row: 0, col: 0 });
+    expect(second.dataService.getCell(0, 0)?.value).not.toBe('Budget');
+    expect(second.dataService.getSelectedCell()).toBeNull();
+
+    first.dataService.undo();
+    expect(first.dataService.getCell(0, 0)?.value).not.toBe('Budget');
+  });
+
+  it('should bind the sheet tabs to their parent spreadsheet', () => {
+    const fixture = TestBed.createComponent(TwoSpreadsheetsHostComponent);
+    fixture.detectChanges();
+    const spreadsheets = fixture.componentInstance.spreadsheets.toArray();
+    const tabs = fixture.debugElement.queryAll(By.directive(SheetTabsComponent));
+
+    expect(tabs.length).toBe(2);
+    tabs.forEach((tab, i) => {
+      expect(tab.injector.get(SpreadsheetDataService)).toBe(spreadsheets[i].dataService);
+    });
+  });
+
+  it('should share a store provided by the host', () => {
+    const fixture = TestBed.createComponent(SharedStoreHostComponent);
+    fixture.detectChanges();
+    const [first, second] = fixture.componentInstance.spreadsheets.toArray();
+    const hostStore = fixture.debugElement.injector.get(SpreadsheetDataService);
+
+    expect(first.dataService).toBe(hostStore);
+    expect(second.dataService).toBe(hostStore);
+  });
+
+  it('should send keyboard shortcuts only to the spreadsheet clicked last', () => {
+    const fixture = TestBed.createComponent(TwoSpreadsheetsHostComponent);
+    fixture.detectChanges();
+    const [first, second] = fixture.componentInstance.spreadsheets.toArray();
+    const elements = fixture.debugElement.queryAll(By.directive(SpreadsheetComponent));
+
+    first.dataService.selectCell({ row: 0, col: 0 });
+    second.dataService.selectCell({ row: 0, col: 0 });
+    elements[1].nativeElement.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+
+    expect(first.dataService.getSelectedCell()).toEqual({ row: 0, col: 0 });
+    expect(second.dataService.getSelectedCell()).toEqual({ row: 1, col: 0 });
+  });
+});
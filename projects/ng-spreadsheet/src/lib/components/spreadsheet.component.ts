@@ -10,6 +10,8 @@ import {
   HostListener,
   ChangeDetectionStrategy,
   ChangeDetectorRef,
+  Provider,
+  inject,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { CdkVirtualScrollViewport, ScrollingModule } from '@angular/cdk/scrolling';
@@ -17,17 +19,52 @@ import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 
 import { SpreadsheetDataService } from '../services/spreadsheet-data.service';
+import { FormulaService } from '../services/formula.service';
 import {
-  Cell,
   CellAddress,
+  CellComment,
   CellRange,
   CellStyle,
+  CommentEntry,
+  ConditionalFormatResult,
+  DataValidationRule,
+  DataValidationViolation,
   SpreadsheetData,
   Sheet,
   colIndexToLetter,
+  getCommentThread,
 } from '../models';
+import { parseCsv } from '../csv';
+import { FillDirection } from '../fill';
+import { expandRangeToMerges, normalizeRange } from '../merge';
+import { DEFAULT_VALIDATION_MESSAGE } from '../validation';
 import { SpreadsheetRibbonComponent, RibbonAction } from './spreadsheet-ribbon.component';
 import { SheetTabsComponent } from './sheet-tabs.component';
+import { AutoFilterMenuComponent } from './auto-filter-menu.component';
+import { SortDialogComponent } from './sort-dialog.component';
+import { FindReplacePanelComponent } from './find-replace-panel.component';
+import { ConditionalFormatDialogComponent } from './conditional-format-dialog.component';
+import { DataValidationDialogComponent } from './data-validation-dialog.component';
+import { NameManagerDialogComponent } from './name-manager-dialog.component';
+import { CsvImportDialogComponent } from './csv-import-dialog.component';
+
+/**
+ * Gives each spreadsheet its own store, unless an ancestor provides one to share
+ * (see provideSpreadsheetStore). The ribbon and sheet tabs inject the same instance.
+ */
+const SPREADSHEET_INSTANCE_PROVIDERS: Provider[] = [
+  {
+    provide: FormulaService,
+    useFactory: () =>
+      inject(FormulaService, { skipSelf: true, optional: true }) ?? new FormulaService(),
+  },
+  {
+    provide: SpreadsheetDataService,
+    useFactory: () =>
+      inject(SpreadsheetDataService, { skipSelf: true, optional: true }) ??
+      new SpreadsheetDataService(),
+  },
+];
 
 /**
  * Main spreadsheet component that displays an Excel-like grid with virtual scrolling.
@@ -47,10 +84,23 @@ import { SheetTabsComponent } from './sheet-tabs.component';
 @Component({
   selector: 'ngs-spreadsheet',
   standalone: true,
-  imports: [CommonModule, ScrollingModule, SpreadsheetRibbonComponent, SheetTabsComponent],
+  imports: [
+    CommonModule,
+    ScrollingModule,
+    SpreadsheetRibbonComponent,
+    SheetTabsComponent,
+    AutoFilterMenuComponent,
+    SortDialogComponent,
+    FindReplacePanelComponent,
+    ConditionalFormatDialogComponent,
+    DataValidationDialogComponent,
+    NameManagerDialogComponent,
+    CsvImportDialogComponent,
+  ],
   templateUrl: './spreadsheet.component.html',
   styleUrls: ['./spreadsheet.component.css'],
   changeDetection: ChangeDetectionStrategy.OnPush,
+  providers: SPREADSHEET_INSTANCE_PROVIDERS,
 })
 export class SpreadsheetComponent implements OnInit, OnDestroy {
   @ViewChild(CdkVirtualScrollViewport) viewport?: CdkVirtualScrollViewport;
@@ -59,6 +109,9 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   @ViewChild('cellsViewport') cellsViewport?: CdkVirtualScrollViewport;
   @ViewChild('rowHeadersViewport') rowHeadersViewport?: CdkVirtualScrollViewport;
   @ViewChild('columnHeadersContainer') columnHeadersContainer?: ElementRef<HTMLDivElement>;
+  @ViewChild('frozenRowsContainer') frozenRowsContainer?: ElementRef<HTMLDivElement>;
+  @ViewChild(FindReplacePanelComponent) findPanel?: FindReplacePanelComponent;
+  @ViewChild('csvFileInput') csvFileInput?: ElementRef<HTMLInputElement>;
 
   /**
    * Initial spreadsheet data
@@ -80,6 +133,11 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
    */
   @Input() readonly: boolean = false;
 
+  /**
+   * Name shown as the author of comments added in the grid
+   */
+  @Input() author: string = 'User';
+
   /**
    * Emitted when a cell is clicked
    */
@@ -126,6 +184,9 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   readonly RIBBON_HEIGHT = 60;
   readonly ROW_HEADER_WIDTH = 50;
 
+  // Horizontal scroll position of the cells, which frozen columns are shifted by to stay in place
+  scrollLeft = 0;
+
   // Context menu state
   contextMenuVisible = false;
   contextMenuX = 0;
@@ -138,6 +199,52 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   columnContextMenuY = 0;
   contextMenuColumnIndex = -1;
 
+  // AutoFilter dropdown state (column of the open menu, or null)
+  filterMenuColumn: number | null = null;
+  filterMenuX = 0;
+  filterMenuY = 0;
+
+  // Custom Sort dialog state (range being sorted, or null when closed)
+  sortDialogRange: CellRange | null = null;
+
+  // Conditional Formatting Rules Manager state
+  conditionalFormatDialogOpen = false;
+
+  // Data Validation dialog state (range being validated, or null when closed)
+  validationDialogRange: CellRange | null = null;
+
+  // Name Manager state, with the selection new names refer to
+  nameManagerOpen = false;
+  nameManagerSelection: CellRange | null = null;
+
+  // Text/CSV import dialog state (file being imported, or null when closed)
+  csvImportFile: File | null = null;
+
+  // In-cell dropdown of a list rule (cell it belongs to, or null when closed)
+  validationListCell: CellAddress | null = null;
+  validationListX = 0;
+  validationListY = 0;
+
+  // Whether cells breaking their data validation rule are circled
+  circleInvalidData = false;
+
+  // Set while a data validation alert is shown
+  private confirmingEntry = false;
+
+  // Comment popover: cell whose thread is shown (or null), and whether it was opened from
+  // the context menu and stays open, rather than shown while hovering the cell
+  commentCell: CellAddress | null = null;
+  commentPinned = false;
+  commentX = 0;
+  commentY = 0;
+  commentDraft = '';
+  editingCommentId: string | null = null;
+  editingCommentText = '';
+
+  // Find and Replace panel state (tab shown, or null when closed)
+  findPanelMode: 'find' | 'replace' | null = null;
+  findPanelQuery = '';
+
   // Format painter state
   formatPainterActive = false;
   copiedCellStyle: Partial<CellStyle> | null = null;
@@ -160,6 +267,7 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   fillStartCol = -1;
   fillEndRow = -1;
   fillEndCol = -1;
+  fillSource: CellRange | null = null;
 
   // Row/Column drag-and-drop state
   isDraggingRow = false;
@@ -196,10 +304,12 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     { name: 'PRODUCT', description: 'Multiplies all numbers', syntax: 'PRODUCT(range)' },
     { name: 'STDEV', description: 'Standard deviation (sample)', syntax: 'STDEV(range)' },
     { name: 'VAR', description: 'Variance (sample)', syntax: 'VAR(range)' },
+    { name: 'SUBTOTAL', description: 'Aggregates visible cells only', syntax: 'SUBTOTAL(function_num, ref1, ...)' },
     { name: 'CORREL', description: 'Correlation coefficient', syntax: 'CORREL(array1, array2)' },
     { name: 'PERCENTILE', description: 'Returns kth percentile', syntax: 'PERCENTILE(array, k)' },
     { name: 'QUARTILE', description: 'Returns quartile value', syntax: 'QUARTILE(array, quart)' },
     { name: 'RANK', description: 'Ranks a number in a list', syntax: 'RANK(number, ref, [order])' },
+    { name: 'ROUND', description: 'Rounds a number to a number of digits', syntax: 'ROUND(number, num_digits)' },
     { name: 'IF', description: 'Conditional logic', syntax: 'IF(condition, value_if_true, value_if_false)' },
     { name: 'IFS', description: 'Multiple conditions', syntax: 'IFS(condition1, value1, ...)' },
     { name: 'IFERROR', description: 'Error handling', syntax: 'IFERROR(value, value_if_error)' },
@@ -207,14 +317,32 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     { name: 'AND', description: 'All conditions must be true', syntax: 'AND(logical1, logical2, ...)' },
     { name: 'OR', description: 'Any condition must be true', syntax: 'OR(logical1, logical2, ...)' },
     { name: 'NOT', description: 'Reverses logic', syntax: 'NOT(logical)' },
+    { name: 'TODAY', description: 'Returns the current date', syntax: 'TODAY()' },
+    { name: 'NOW', description: 'Returns the current date and time', syntax: 'NOW()' },
+    { name: 'DATE', description: 'Builds a date from its parts', syntax: 'DATE(year, month, day)' },
+    { name: 'YEAR', description: 'Returns the year of a date', syntax: 'YEAR(serial_number)' },
+    { name: 'MONTH', description: 'Returns the month of a date', syntax: 'MONTH(serial_number)' },
+    { name: 'DAY', description: 'Returns the day of the month', syntax: 'DAY(serial_number)' },
+    { name: 'EDATE', description: 'Adds months to a date', syntax: 'EDATE(start_date, months)' },
+    { name: 'EOMONTH', description: 'Last day of the month, months away', syntax: 'EOMONTH(start_date, months)' },
+    { name: 'DATEDIF', description: 'Difference between two dates', syntax: 'DATEDIF(start_date, end_date, unit)' },
+    { name: 'NETWORKDAYS', description: 'Counts working days between dates', syntax: 'NETWORKDAYS(start_date, end_date, [holidays])' },
+    { name: 'WEEKDAY', description: 'Returns the day of the week', syntax: 'WEEKDAY(serial_number, [return_type])' },
+    { name: 'ISERROR', description: 'Checks for any error value', syntax: 'ISERROR(value)' },
+    { name: 'ISNA', description: 'Checks for the #N/A error', syntax: 'ISNA(value)' },
+    { name: 'ERROR.TYPE', description: 'Returns the number of an error value', syntax: 'ERROR.TYPE(error_val)' },
     { name: 'VLOOKUP', description: 'Vertical lookup in a table', syntax: 'VLOOKUP(lookup_value, table_array, col_index_num, [range_lookup])' },
   ];
 
   private destroy$ = new Subject<void>();
 
+  // Whether keyboard shortcuts go to this spreadsheet: the one last clicked on the page
+  private hasKeyboardFocus = true;
+
   constructor(
     public dataService: SpreadsheetDataService,
-    private cdr: ChangeDetectorRef
+    private cdr: ChangeDetectorRef,
+    private elementRef: ElementRef<HTMLElement>
   ) {}
 
   ngOnInit(): void {
@@ -281,13 +409,55 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
    */
   @HostListener('window:keydown', ['$event'])
   handleKeyDown(event: KeyboardEvent): void {
-    // Don't handle keyboard events if we're editing
-    if (this.editingCell) {
+    // Keys typed in the Find and Replace panel or the name box are handled there
+    if ((event.target as Element | null)?.closest?.('ngs-find-replace-panel, .cell-name')) return;
+
+    // Don't handle keyboard events if we're editing, a filter menu or dialog is open,
+    // or another spreadsheet has focus
+    const hasPopup =
+      this.filterMenuColumn !== null ||
+      this.sortDialogRange !== null ||
+      this.conditionalFormatDialogOpen ||
+      this.validationDialogRange !== null ||
+      this.nameManagerOpen ||
+      this.csvImportFile !== null ||
+      this.validationListCell !== null ||
+      this.commentPinned;
+    if (this.editingCell || hasPopup || !this.hasKeyboardFocus) {
+      if (event.key === 'Escape' && hasPopup) {
+        this.closeFilterMenu();
+        this.sortDialogRange = null;
+        this.conditionalFormatDialogOpen = false;
+        this.validationDialogRange = null;
+        this.nameManagerOpen = false;
+        this.csvImportFile = null;
+        this.validationListCell = null;
+        this.closeCommentPopover();
+      }
+      return;
+    }
+
+    // Ctrl+F opens Find, Ctrl+H Find and Replace
+    const key = event.key.toLowerCase();
+    if ((event.ctrlKey || event.metaKey) && (key === 'f' || key === 'h')) {
+      event.preventDefault();
+      this.openFindPanel(key === 'h' ? 'replace' : 'find');
       return;
     }
 
     if (!this.activeSheet) return;
 
+    // Alt+Down opens the dropdown of a list validation rule
+    if (event.altKey && event.key === 'ArrowDown' && this.selectedCell) {
+      const { row, col } = this.selectedCell;
+      const element = this.elementRef.nativeElement.querySelector('.spreadsheet-cell.selected');
+      if (element && this.hasValidationDropdown(row, col)) {
+        event.preventDefault();
+        this.openValidationList({ row, col }, element.getBoundingClientRect());
+        return;
+      }
+    }
+
     const selected = this.selectedCell;
     let handled = true;
 
@@ -458,10 +628,30 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   private moveSelection(row: number, col: number): void {
     if (!this.activeSheet) return;
 
+    // Step over the rest of a selected merged cell in the direction of travel
+    const selected = this.selectedCell;
+    const merge = selected && this.dataService.getMergeAt(selected.row, selected.col);
+    if (merge) {
+      if (row > selected.row) row = Math.max(row, merge.end.row + 1);
+      if (col > selected.col) col = Math.max(col, merge.end.col + 1);
+    }
+
     // Clamp to valid range
     row = Math.max(0, Math.min(row, this.activeSheet.rowCount - 1));
     col = Math.max(0, Math.min(col, this.activeSheet.colCount - 1));
 
+    // Skip rows hidden by a filter in the direction of travel, staying put at the edge
+    const hiddenRows = new Set(this.activeSheet.hiddenRows ?? []);
+    if (hiddenRows.has(row)) {
+      const step = this.selectedCell && row < this.selectedCell.row ? -1 : 1;
+      while (hiddenRows.has(row)) {
+        row += step;
+      }
+      if (row < 0 || row >= this.activeSheet.rowCount) {
+        row = this.selectedCell?.row ?? 0;
+      }
+    }
+
     this.dataService.selectCell({ row, col });
   }
 
@@ -473,9 +663,8 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     event.stopPropagation();
 
     // If we're currently editing a cell, commit the edit first
-    if (this.editingCell) {
-      this.commitEdit();
-    }
+    if (this.editingCell && !this.commitEdit()) return;
+    this.validationListCell = null;
 
     // Focus the spreadsheet container to enable keyboard navigation
     const container = (event.target as HTMLElement).closest('.spreadsheet-container') as HTMLElement;
@@ -524,11 +713,20 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Handles cell mouseenter (for hover effects)
+   * Handles cell mouseenter (for hover effects): shows the comment thread of the cell.
+   * Actual drag selection is handled by onCellMouseMove.
    */
   onCellMouseEnter(event: MouseEvent, row: number, col: number): void {
-    // Mouse enter is used for hover effects
-    // Actual drag selection is handled by onCellMouseMove
+    if (this.commentPinned || this.isDragging) return;
+
+    if (this.getComment(row, col)) {
+      const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+      this.commentCell = { row, col };
+      this.commentX = rect.right + 4;
+      this.commentY = rect.top;
+    } else {
+      this.commentCell = null;
+    }
   }
 
   /**
@@ -561,16 +759,34 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Tracks whether this spreadsheet was the last one clicked, so keyboard shortcuts
+   * only act on one spreadsheet when several are on the page.
+   * Also closes the AutoFilter menu when clicking outside of it.
+   */
+  @HostListener('document:mousedown', ['$event'])
+  onDocumentMouseDown(event: MouseEvent): void {
+    this.hasKeyboardFocus = this.elementRef.nativeElement.contains(event.target as Node);
+
+    const target = event.target as Element | null;
+    if (this.filterMenuColumn !== null && !target?.closest?.('ngs-auto-filter-menu')) {
+      this.closeFilterMenu();
+    }
+    if (this.commentPinned && !target?.closest?.('.comment-popover')) {
+      this.closeCommentPopover();
+    }
+  }
+
   /**
    * Handles mouseup (end of drag)
    */
-  @HostListener('window:mouseup')
-  onMouseUp(): void {
+  @HostListener('window:mouseup', ['$event'])
+  onMouseUp(event?: MouseEvent): void {
     this.isDragging = false;
 
     // Handle end of fill operation
     if (this.isFilling) {
-      this.completeFillOperation();
+      this.completeFillOperation(!!(event?.ctrlKey || event?.metaKey));
     }
 
     // Handle end of column resize
@@ -609,16 +825,8 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     if (this.isDragging && this.rangeStart && this.cellsViewport) {
       event.preventDefault();
 
-      // Get the cells viewport element
-      const viewportEl = this.cellsViewport.elementRef.nativeElement;
-      const rect = viewportEl.getBoundingClientRect();
-
-      // Calculate mouse position relative to viewport
-      const mouseX = event.clientX - rect.left + viewportEl.scrollLeft;
-      const mouseY = event.clientY - rect.top + viewportEl.scrollTop;
-
       // Find which cell the mouse is over
-      const cell = this.getCellAtPosition(mouseX, mouseY);
+      const cell = this.getCellAtPosition(event.clientX, event.clientY);
 
       if (cell) {
         this.rangeEnd = cell;
@@ -636,16 +844,8 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
 
     // Handle fill handle dragging
     if (this.isFilling && this.fillStartRow >= 0 && this.fillStartCol >= 0 && this.cellsViewport) {
-      // Get the cells viewport element
-      const viewportEl = this.cellsViewport.elementRef.nativeElement;
-      const rect = viewportEl.getBoundingClientRect();
-
-      // Calculate mouse position relative to viewport
-      const mouseX = event.clientX - rect.left + viewportEl.scrollLeft;
-      const mouseY = event.clientY - rect.top + viewportEl.scrollTop;
-
       // Find which cell the mouse is over
-      const cell = this.getCellAtPosition(mouseX, mouseY);
+      const cell = this.getCellAtPosition(event.clientX, event.clientY);
       if (cell) {
         this.fillEndRow = cell.row;
         this.fillEndCol = cell.col;
@@ -654,13 +854,27 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Calculates which cell is at the given pixel position
+   * Calculates which cell is at the given position of the page (mouse coordinates)
    */
-  private getCellAtPosition(x: number, y: number): CellAddress | null {
-    if (!this.activeSheet) return null;
+  private getCellAtPosition(clientX: number, clientY: number): CellAddress | null {
+    if (!this.activeSheet || !this.cellsViewport) return null;
+
+    // Position relative to the scrolled cells; frozen rows (above the viewport) and
+    // frozen columns do not scroll
+    const viewportEl = this.cellsViewport.elementRef.nativeElement;
+    const rect = viewportEl.getBoundingClientRect();
+    const frozenRows = this.getFrozenRows();
+    const inFrozenRows = clientY < rect.top && frozenRows.length > 0;
+    const x = clientX - rect.left < this.getFrozenWidth()
+      ? clientX - rect.left
+      : clientX - rect.left + viewportEl.scrollLeft;
+    const y = inFrozenRows
+      ? clientY - rect.top + this.getFrozenHeight()
+      : clientY - rect.top + viewportEl.scrollTop;
 
-    // Calculate row (assumes fixed row height for now)
-    const row = Math.floor(y / this.ROW_HEIGHT);
+    // Calculate row (assumes fixed row height for now; hidden rows take no space)
+    const rows = inFrozenRows ? frozenRows : this.getScrollableRows();
+    const row = rows[Math.min(Math.floor(y / this.ROW_HEIGHT), rows.length - 1)] ?? 0;
 
     // Calculate column (needs to account for variable widths)
     let col = 0;
@@ -716,7 +930,7 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     const cell = this.dataService.getCell(address.row, address.col);
     if (!cell || cell.readonly) return;
 
-    this.editingValue = String(cell.value ?? '');
+    this.editingValue = this.dataService.getCellEditText(address.row, address.col);
     this.dataService.setEditingCell(address);
   }
 
@@ -763,7 +977,7 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
       if (event.ctrlKey || event.metaKey) {
         this.commitEditToRange();
       } else {
-        this.commitEdit();
+        if (!this.commitEdit()) return;
         // Move to next row
         if (this.editingCell) {
           this.moveSelection(this.editingCell.row + 1, this.editingCell.col);
@@ -778,7 +992,7 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
       }
     } else if (event.key === 'Tab') {
       event.preventDefault();
-      this.commitEdit();
+      if (!this.commitEdit()) return;
 
       // Move to next column
       if (this.editingCell) {
@@ -791,26 +1005,32 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
    * Handles blur event during editing
    */
   onEditingBlur(): void {
+    if (this.confirmingEntry) return;
     this.commitEdit();
   }
 
   /**
-   * Commits the current edit
+   * Commits the current edit. Returns false when data validation keeps the cell in edit
+   * mode (see confirmEntry).
    */
-  private commitEdit(): void {
-    if (!this.editingCell) return;
+  private commitEdit(): boolean {
+    if (!this.editingCell) return true;
 
     const cell = this.dataService.getCell(
       this.editingCell.row,
       this.editingCell.col
     );
 
-    if (!cell) return;
+    if (!cell) return true;
 
     const oldValue = cell.value;
     const newValue = this.editingValue;
 
     if (oldValue !== newValue) {
+      if (!this.confirmEntry([this.editingCell], newValue)) {
+        return !this.editingCell;
+      }
+
       this.dataService.updateCell(
         this.editingCell.row,
         this.editingCell.col,
@@ -826,6 +1046,53 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
 
     this.dataService.setEditingCell(null);
     this.editingValue = '';
+    return true;
+  }
+
+  /**
+   * Checks an entry against the data validation of the cells it goes into. When it breaks
+   * a rule, shows the rule's alert as Excel does and returns whether to write it anyway:
+   * 'stop' rejects it (Retry keeps editing, Cancel discards the entry), 'warning' lets the
+   * user keep it or go on editing, and 'information' lets the user keep or discard it.
+   */
+  private confirmEntry(cells: CellAddress[], value: string): boolean {
+    const rules = cells
+      .map(({ row, col }) => this.dataService.validateCellValue(row, col, value))
+      .filter((rule): rule is DataValidationRule => rule !== null);
+    const rule = rules.find((r) => (r.errorStyle ?? 'stop') === 'stop') ?? rules[0];
+    if (!rule) return true;
+
+    const message = [rule.errorTitle, rule.errorMessage || DEFAULT_VALIDATION_MESSAGE]
+      .filter((text) => text)
+      .join('\n\n');
+
+    // The dialog takes focus from the cell input; its blur must not commit again
+    this.confirmingEntry = true;
+    let keep = false;
+    let discard = false;
+    try {
+      switch (rule.errorStyle ?? 'stop') {
+        case 'stop':
+          discard = !confirm(`${message}\n\nClick OK to retry or Cancel to discard your entry.`);
+          break;
+        case 'warning':
+          keep = confirm(`${message}\n\nContinue?`);
+          break;
+        case 'information':
+          keep = confirm(message);
+          discard = !keep;
+          break;
+      }
+    } finally {
+      this.confirmingEntry = false;
+    }
+
+    if (discard) {
+      this.cancelEdit();
+    } else if (!keep) {
+      setTimeout(() => this.cellInput?.nativeElement.focus(), 0);
+    }
+    return keep;
   }
 
   /**
@@ -836,6 +1103,7 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     if (!this.editingCell) return;
 
     const newValue = this.editingValue;
+    if (!this.confirmEntry(this.getEditTargets(), newValue)) return;
 
     console.log('[DEBUG] commitEditToRange called, savedEditRange:', this.savedEditRange, 'newValue:', newValue);
 
@@ -894,6 +1162,23 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     this.editingValue = '';
   }
 
+  /**
+   * Lists the cells Ctrl+Enter writes to: the saved range (except read-only cells),
+   * or the edited cell
+   */
+  private getEditTargets(): CellAddress[] {
+    if (!this.savedEditRange) return this.editingCell ? [this.editingCell] : [];
+
+    const { start, end } = normalizeRange(this.savedEditRange);
+    const cells: CellAddress[] = [];
+    for (let row = start.row; row <= end.row; row++) {
+      for (let col = start.col; col <= end.col; col++) {
+        if (!this.dataService.getCell(row, col)?.readonly) cells.push({ row, col });
+      }
+    }
+    return cells;
+  }
+
   /**
    * Cancels the current edit
    */
@@ -926,13 +1211,25 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     try {
       const text = await navigator.clipboard.readText();
       if (text) {
-        this.dataService.paste(text);
+        this.alertRejectedPaste(this.dataService.paste(text));
       }
     } catch (err) {
       console.error('Failed to paste from clipboard:', err);
     }
   }
 
+  /**
+   * Tells the user about pasted values that data validation rejected
+   */
+  private alertRejectedPaste(violations: DataValidationViolation[]): void {
+    const rejected = violations.filter(({ rule }) => (rule.errorStyle ?? 'stop') === 'stop');
+    if (rejected.length === 0) return;
+
+    const message = rejected[0].rule.errorMessage || DEFAULT_VALIDATION_MESSAGE;
+    const count = rejected.length === 1 ? '1 value was' : `${rejected.length} values were`;
+    alert(`${message}\n\n${count} not pasted.`);
+  }
+
   /**
    * Gets the display value for a cell
    */
@@ -941,6 +1238,13 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     return cell?.displayValue ?? '';
   }
 
+  /**
+   * Gets the error details of a cell (e.g. a circular reference path), shown as a tooltip
+   */
+  getCellError(row: number, col: number): string | null {
+    return this.dataService.getCell(row, col)?.error ?? null;
+  }
+
   /**
    * Checks if a cell is selected
    */
@@ -960,17 +1264,63 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Checks if a cell is in the selected range
+   * Checks if a cell is in the selected range (grown to the merged cells it touches)
    */
   isCellInRange(row: number, col: number): boolean {
     if (!this.rangeStart || !this.rangeEnd) return false;
 
-    const minRow = Math.min(this.rangeStart.row, this.rangeEnd.row);
-    const maxRow = Math.max(this.rangeStart.row, this.rangeEnd.row);
-    const minCol = Math.min(this.rangeStart.col, this.rangeEnd.col);
-    const maxCol = Math.max(this.rangeStart.col, this.rangeEnd.col);
+    const range = normalizeRange(
+      expandRangeToMerges(this.activeSheet?.merges, { start: this.rangeStart, end: this.rangeEnd })
+    );
+    return (
+      row >= range.start.row && row <= range.end.row &&
+      col >= range.start.col && col <= range.end.col
+    );
+  }
+
+  /**
+   * Checks if a cell belongs to a merged cell
+   */
+  isCellMerged(row: number, col: number): boolean {
+    return !!this.dataService.getMergeAt(row, col);
+  }
 
-    return row >= minRow && row <= maxRow && col >= minCol && col <= maxCol;
+  /**
+   * Checks if a cell is covered by a merged cell it is not the top-left cell of
+   * (such cells are not rendered)
+   */
+  isCellMergedAway(row: number, col: number): boolean {
+    const merge = this.dataService.getMergeAt(row, col);
+    return !!merge && (merge.start.row !== row || merge.start.col !== col);
+  }
+
+  /**
+   * Gets the width of a rendered cell: a merged cell spans the widths of its columns
+   */
+  getCellWidth(row: number, col: number): number {
+    const merge = this.dataService.getMergeAt(row, col);
+    if (!merge) return this.getColumnWidth(col);
+
+    let width = 0;
+    for (let c = merge.start.col; c <= merge.end.col; c++) {
+      width += this.getColumnWidth(c);
+    }
+    return width;
+  }
+
+  /**
+   * Gets the height of a rendered cell: a merged cell spans its rows that are not hidden
+   */
+  getCellHeight(row: number, col: number): number {
+    const merge = this.dataService.getMergeAt(row, col);
+    if (!merge) return this.ROW_HEIGHT;
+
+    const hiddenRows = new Set(this.activeSheet?.hiddenRows ?? []);
+    let rows = 0;
+    for (let r = merge.start.row; r <= merge.end.row; r++) {
+      if (!hiddenRows.has(r)) rows++;
+    }
+    return rows * this.ROW_HEIGHT;
   }
 
   /**
@@ -1003,11 +1353,73 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Gets an array of row indices for virtual scrolling
+   * Gets an array of row indices for virtual scrolling, leaving out hidden rows
    */
   getRows(): number[] {
     if (!this.activeSheet) return [];
-    return Array.from({ length: this.activeSheet.rowCount }, (_, i) => i);
+
+    const rows = Array.from({ length: this.activeSheet.rowCount }, (_, i) => i);
+    const hiddenRows = this.activeSheet.hiddenRows;
+    if (!hiddenRows?.length) return rows;
+
+    const hidden = new Set(hiddenRows);
+    return rows.filter((row) => !hidden.has(row));
+  }
+
+  /**
+   * Gets the visible rows kept in place above the scrolling rows by Freeze Panes
+   */
+  getFrozenRows(): number[] {
+    const frozenRows = this.activeSheet?.frozenRows ?? 0;
+    return frozenRows > 0 ? this.getRows().filter((row) => row < frozenRows) : [];
+  }
+
+  /**
+   * Gets the visible rows below the frozen rows, rendered by the virtual scroll viewports
+   */
+  getScrollableRows(): number[] {
+    const frozenRows = this.activeSheet?.frozenRows ?? 0;
+    const rows = this.getRows();
+    return frozenRows > 0 ? rows.filter((row) => row >= frozenRows) : rows;
+  }
+
+  /**
+   * Gets the height of the frozen rows
+   */
+  getFrozenHeight(): number {
+    return this.getFrozenRows().length * this.ROW_HEIGHT;
+  }
+
+  /**
+   * Gets the height of the scrolling part of the grid, below the frozen rows
+   */
+  getViewportHeight(): number {
+    return (
+      this.height - this.FORMULA_BAR_HEIGHT - this.RIBBON_HEIGHT - this.HEADER_HEIGHT -
+      this.getFrozenHeight()
+    );
+  }
+
+  /**
+   * Checks if a column is kept in place at the left by Freeze Panes
+   */
+  isColumnFrozen(col: number): boolean {
+    return col < (this.activeSheet?.frozenColumns ?? 0);
+  }
+
+  /**
+   * Gets the width of the frozen columns
+   */
+  getFrozenWidth(): number {
+    return this.getColumnLeft(this.activeSheet?.frozenColumns ?? 0);
+  }
+
+  /**
+   * Gets the left position of a column's cells and header: frozen columns are shifted by the
+   * horizontal scroll so they stay in place
+   */
+  getCellLeft(col: number): number {
+    return this.getColumnLeft(col) + (this.isColumnFrozen(col) ? this.scrollLeft : 0);
   }
 
   /**
@@ -1025,11 +1437,58 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Gets the selected cell name in A1 notation
+   * Gets the text of the name box: the defined name of the selection when it has one,
+   * otherwise the selected cell (or the cell a range selection started from) in A1 notation
    */
   getSelectedCellName(): string {
-    if (!this.selectedCell) return '';
-    return `${colIndexToLetter(this.selectedCell.col)}${this.selectedCell.row + 1}`;
+    const selection = this.getSelection();
+    const cell = this.selectedCell ?? this.rangeStart;
+    if (!selection || !cell) return '';
+
+    const name = this.dataService.getDefinedNameOfRange(selection);
+    return name?.name ?? `${colIndexToLetter(cell.col)}${cell.row + 1}`;
+  }
+
+  /**
+   * Goes to the cell, range or defined name typed in the name box on Enter.
+   * Escape, or something that cannot be found, puts the current selection back.
+   */
+  onNameBoxKeyDown(event: KeyboardEvent): void {
+    const input = event.target as HTMLInputElement;
+
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      if (this.editingCell && !this.commitEdit()) return;
+
+      if (this.dataService.goToReference(input.value)) {
+        input.blur();
+      } else {
+        input.value = this.getSelectedCellName();
+        input.select();
+      }
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      input.blur();
+    }
+  }
+
+  /**
+   * Shows the selection again in the name box when it loses focus
+   */
+  onNameBoxBlur(event: FocusEvent): void {
+    (event.target as HTMLInputElement).value = this.getSelectedCellName();
+  }
+
+  /**
+   * Gets the selected range, or the selected cell as a range
+   */
+  private getSelection(): CellRange | null {
+    if (this.selectedCell) {
+      return { start: this.selectedCell, end: this.selectedCell };
+    }
+    return this.rangeStart && this.rangeEnd
+      ? normalizeRange({ start: this.rangeStart, end: this.rangeEnd })
+      : null;
   }
 
   /**
@@ -1037,11 +1496,9 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
    */
   getFormulaBarValue(): string {
     if (!this.selectedCell) return '';
-    const cell = this.dataService.getCell(this.selectedCell.row, this.selectedCell.col);
-    if (!cell) return '';
 
-    // Return the raw value (which may be a formula starting with '=')
-    return String(cell.value ?? '');
+    // Return the raw value (which may be a formula starting with '='); dates as text
+    return this.dataService.getCellEditText(this.selectedCell.row, this.selectedCell.col);
   }
 
   /**
@@ -1149,6 +1606,7 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     if (this.cellsViewport) {
       this.cellsViewport.elementRef.nativeElement.scrollLeft = target.scrollLeft;
     }
+    this.scrollLeft = target.scrollLeft;
   }
 
   /**
@@ -1157,10 +1615,14 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   onCellsScroll(event: Event): void {
     const target = event.target as HTMLElement;
 
-    // Sync column headers horizontal scroll
+    // Sync column headers and frozen rows horizontal scroll
     if (this.columnHeadersContainer) {
       this.columnHeadersContainer.nativeElement.scrollLeft = target.scrollLeft;
     }
+    if (this.frozenRowsContainer) {
+      this.frozenRowsContainer.nativeElement.scrollLeft = target.scrollLeft;
+    }
+    this.scrollLeft = target.scrollLeft;
 
     // Sync row headers vertical scroll using scrollTo method
     if (this.rowHeadersViewport) {
@@ -1310,6 +1772,47 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     this.contextMenuVisible = true;
   }
 
+  /**
+   * Checks if a cell shows the fill handle (bottom-right corner of the selection)
+   */
+  isFillHandleCell(row: number, col: number): boolean {
+    if (this.rangeStart && this.rangeEnd) {
+      const { end } = normalizeRange(
+        expandRangeToMerges(this.activeSheet?.merges, { start: this.rangeStart, end: this.rangeEnd })
+      );
+      const merge = this.dataService.getMergeAt(end.row, end.col);
+      return merge
+        ? row === merge.start.row && col === merge.start.col
+        : row === end.row && col === end.col;
+    }
+    return this.isCellSelected(row, col);
+  }
+
+  /**
+   * Checks if a cell is in the area that the current fill drag will fill
+   */
+  isCellInFillRange(row: number, col: number): boolean {
+    const extent = this.getFillExtent();
+    if (!extent || !this.fillSource) return false;
+
+    const { direction, count } = extent;
+    const minRow = Math.min(this.fillSource.start.row, this.fillSource.end.row);
+    const maxRow = Math.max(this.fillSource.start.row, this.fillSource.end.row);
+    const minCol = Math.min(this.fillSource.start.col, this.fillSource.end.col);
+    const maxCol = Math.max(this.fillSource.start.col, this.fillSource.end.col);
+
+    if (direction === 'down' || direction === 'up') {
+      const inRows = direction === 'down'
+        ? row > maxRow && row <= maxRow + count
+        : row < minRow && row >= minRow - count;
+      return inRows && col >= minCol && col <= maxCol;
+    }
+    const inCols = direction === 'right'
+      ? col > maxCol && col <= maxCol + count
+      : col < minCol && col >= minCol - count;
+    return inCols && row >= minRow && row <= maxRow;
+  }
+
   /**
    * Handles fill handle mouse down
    */
@@ -1322,41 +1825,73 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     this.fillStartCol = col;
     this.fillEndRow = row;
     this.fillEndCol = col;
+
+    // A selected range is the source of the fill; otherwise the single cell is
+    this.fillSource = this.rangeStart && this.rangeEnd
+      ? { start: { ...this.rangeStart }, end: { ...this.rangeEnd } }
+      : { start: { row, col }, end: { row, col } };
   }
 
   /**
-   * Completes the fill operation
+   * Works out in which direction, and by how many rows or columns, the fill handle
+   * has been dragged past the source. The axis with the larger overshoot wins.
    */
-  private completeFillOperation(): void {
-    if (!this.isFilling || this.fillStartRow < 0 || this.fillStartCol < 0) {
-      this.isFilling = false;
-      return;
+  private getFillExtent(): { direction: FillDirection; count: number } | null {
+    if (!this.isFilling || !this.fillSource || this.fillEndRow < 0 || this.fillEndCol < 0) {
+      return null;
     }
 
-    // Get the source cell value
-    const sourceCell = this.dataService.getCell(this.fillStartRow, this.fillStartCol);
-    if (!sourceCell) {
-      this.isFilling = false;
-      return;
+    const minRow = Math.min(this.fillSource.start.row, this.fillSource.end.row);
+    const maxRow = Math.max(this.fillSource.start.row, this.fillSource.end.row);
+    const minCol = Math.min(this.fillSource.start.col, this.fillSource.end.col);
+    const maxCol = Math.max(this.fillSource.start.col, this.fillSource.end.col);
+
+    const down = this.fillEndRow - maxRow;
+    const up = minRow - this.fillEndRow;
+    const right = this.fillEndCol - maxCol;
+    const left = minCol - this.fillEndCol;
+
+    const vertical = Math.max(down, up);
+    const horizontal = Math.max(right, left);
+    if (vertical <= 0 && horizontal <= 0) return null;
+
+    if (vertical >= horizontal) {
+      return down > 0 ? { direction: 'down', count: down } : { direction: 'up', count: up };
     }
+    return right > 0 ? { direction: 'right', count: right } : { direction: 'left', count: left };
+  }
 
-    // Determine fill direction and range
-    const minRow = Math.min(this.fillStartRow, this.fillEndRow);
-    const maxRow = Math.max(this.fillStartRow, this.fillEndRow);
-    const minCol = Math.min(this.fillStartCol, this.fillEndCol);
-    const maxCol = Math.max(this.fillStartCol, this.fillEndCol);
+  /**
+   * Completes the fill operation.
+   * Holding Ctrl (Cmd on Mac) switches between copying the source and continuing its series.
+   */
+  private completeFillOperation(toggleMode = false): void {
+    const extent = this.getFillExtent();
 
-    // Fill cells in the range
-    for (let row = minRow; row <= maxRow; row++) {
-      for (let col = minCol; col <= maxCol; col++) {
-        // Skip the source cell
-        if (row === this.fillStartRow && col === this.fillStartCol) {
-          continue;
-        }
+    if (extent && this.fillSource && !this.readonly) {
+      this.dataService.fillRange(this.fillSource, extent.direction, extent.count, toggleMode);
+
+      // Select the source together with the filled cells, as Excel does
+      const { direction, count } = extent;
+      const start = {
+        row: Math.min(this.fillSource.start.row, this.fillSource.end.row),
+        col: Math.min(this.fillSource.start.col, this.fillSource.end.col),
+      };
+      const end = {
+        row: Math.max(this.fillSource.start.row, this.fillSource.end.row),
+        col: Math.max(this.fillSource.start.col, this.fillSource.end.col),
+      };
+      if (direction === 'down') end.row += count;
+      if (direction === 'up') start.row = Math.max(0, start.row - count);
+      if (direction === 'right') end.col += count;
+      if (direction === 'left') start.col = Math.max(0, start.col - count);
 
-        // Copy the value
-        this.dataService.updateCell(row, col, sourceCell.value);
+      const sheet = this.dataService.getActiveSheet();
+      if (sheet) {
+        end.row = Math.min(end.row, sheet.rowCount - 1);
+        end.col = Math.min(end.col, sheet.colCount - 1);
       }
+      this.dataService.selectRange({ start, end });
     }
 
     // Reset fill state
@@ -1365,6 +1900,7 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     this.fillStartCol = -1;
     this.fillEndRow = -1;
     this.fillEndCol = -1;
+    this.fillSource = null;
   }
 
   /**
@@ -1711,17 +2247,39 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
         }
         break;
       case 'sort':
-        this.sortData(action.action === 'ascending');
+        if (action.action === 'custom') {
+          this.openSortDialog();
+        } else {
+          this.sortData(action.action === 'ascending');
+        }
         break;
       case 'filter':
-        this.toggleFilterRow();
+        this.toggleAutoFilter();
         break;
       case 'search':
-        this.searchCells(action.value);
+        this.openFindPanel(action.action === 'replace' ? 'replace' : 'find', action.value);
         break;
       case 'merge':
-        if (action.action === 'mergeAndCenter') {
-          this.mergeAndCenterCells();
+        this.mergeSelection(action.action);
+        break;
+      case 'freeze':
+        this.freezePanes(action.action);
+        break;
+      case 'conditionalFormat':
+        this.conditionalFormatDialogOpen = true;
+        break;
+      case 'names':
+        this.nameManagerSelection = this.getSelection();
+        this.nameManagerOpen = true;
+        break;
+      case 'import':
+        this.csvFileInput?.nativeElement.click();
+        break;
+      case 'validation':
+        if (action.action === 'settings') {
+          this.openValidationDialog();
+        } else {
+          this.circleInvalidData = action.action === 'circle';
         }
         break;
       case 'border':
@@ -1785,78 +2343,408 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Sorts data based on the selected column
+   * Sorts the sort range by the selected column, keeping a detected header row in place
    */
   private sortData(ascending: boolean): void {
-    if (!this.selectedCell) return;
+    const range = this.getSortRange();
+    if (!range || !this.selectedCell) return;
 
-    const col = this.selectedCell.col;
-    const sheet = this.dataService.getActiveSheet();
-    if (!sheet) return;
+    this.dataService.sortRange(range, {
+      levels: [{ col: this.selectedCell.col, descending: !ascending }],
+    });
+  }
 
-    // Get all rows (excluding header if first row)
-    const dataRows = sheet.cells.slice(1);
+  /**
+   * Opens the import dialog for the file picked after From Text/CSV
+   */
+  onCsvFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.csvImportFile = input.files?.[0] ?? null;
+    // Picking the same file again must fire another change event
+    input.value = '';
+  }
 
-    // Sort rows based on the selected column
-    dataRows.sort((a, b) => {
-      const aVal = a[col]?.displayValue || a[col]?.value || '';
-      const bVal = b[col]?.displayValue || b[col]?.value || '';
+  /**
+   * Opens the Custom Sort dialog for the sort range
+   */
+  private openSortDialog(): void {
+    this.sortDialogRange = this.getSortRange();
+  }
 
-      // Try to compare as numbers first
-      const aNum = parseFloat(String(aVal));
-      const bNum = parseFloat(String(bVal));
+  /**
+   * Gets the range to sort: the selected range, or the current region around the
+   * selected cell when a single cell is selected
+   */
+  private getSortRange(): CellRange | null {
+    if (!this.selectedCell) return null;
 
-      if (!isNaN(aNum) && !isNaN(bNum)) {
-        return ascending ? aNum - bNum : bNum - aNum;
-      }
+    const range = this.dataService.getSelectedRange();
+    const isSingleCell =
+      !range || (range.start.row === range.end.row && range.start.col === range.end.col);
+    return isSingleCell ? this.dataService.getCurrentRegion(this.selectedCell) : range;
+  }
 
-      // Compare as strings
-      const aStr = String(aVal).toLowerCase();
-      const bStr = String(bVal).toLowerCase();
+  /**
+   * Turns the AutoFilter off, or on for the selected range (the current region around
+   * the selected cell when a single cell or row is selected)
+   */
+  private toggleAutoFilter(): void {
+    if (this.activeSheet?.autoFilter) {
+      this.closeFilterMenu();
+      this.dataService.setAutoFilter(null);
+      return;
+    }
 
-      if (ascending) {
-        return aStr < bStr ? -1 : aStr > bStr ? 1 : 0;
-      } else {
-        return aStr > bStr ? -1 : aStr < bStr ? 1 : 0;
-      }
+    const range = this.dataService.getSelectedRange();
+    if (range && range.start.row !== range.end.row) {
+      this.dataService.setAutoFilter(range);
+    } else if (this.selectedCell) {
+      this.dataService.setAutoFilter(this.dataService.getCurrentRegion(this.selectedCell));
+    }
+  }
+
+  /**
+   * Whether a cell is a header of the AutoFilter and shows a dropdown button
+   */
+  isFilterHeaderCell(row: number, col: number): boolean {
+    const range = this.activeSheet?.autoFilter?.range;
+    return !!range && row === range.start.row && col >= range.start.col && col <= range.end.col;
+  }
+
+  /**
+   * Whether an AutoFilter column has criteria applied
+   */
+  isColumnFiltered(col: number): boolean {
+    return !!this.activeSheet?.autoFilter?.columns[col];
+  }
+
+  /**
+   * Whether a row belongs to a filtered AutoFilter range (its header is shown in blue)
+   */
+  isRowFiltered(row: number): boolean {
+    const autoFilter = this.activeSheet?.autoFilter;
+    if (!autoFilter || Object.keys(autoFilter.columns).length === 0) return false;
+    return row > autoFilter.range.start.row && row <= autoFilter.range.end.row;
+  }
+
+  /**
+   * Opens (or closes) the AutoFilter menu of a column below its dropdown button
+   */
+  onFilterButtonMouseDown(event: MouseEvent, col: number): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.hasKeyboardFocus = true;
+
+    if (this.editingCell) {
+      this.commitEdit();
+    }
+
+    if (this.filterMenuColumn === col) {
+      this.closeFilterMenu();
+      return;
+    }
+
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    this.filterMenuX = rect.left;
+    this.filterMenuY = rect.bottom;
+    this.filterMenuColumn = col;
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Opens the Data Validation dialog for the selected range (or cell)
+   */
+  private openValidationDialog(): void {
+    const range = this.dataService.getSelectedRange();
+    const cell = this.selectedCell;
+    if (range) {
+      this.validationDialogRange = normalizeRange(range);
+    } else if (cell) {
+      this.validationDialogRange = { start: cell, end: cell };
+    }
+  }
+
+  /**
+   * Whether a cell shows the dropdown arrow of a list validation rule: only the selected
+   * cell does, when its rule has an in-cell dropdown
+   */
+  hasValidationDropdown(row: number, col: number): boolean {
+    if (this.readonly || !this.isCellSelected(row, col)) return false;
+    const rule = this.dataService.getDataValidation(row, col);
+    return rule?.type === 'list' && rule.showDropdown !== false;
+  }
+
+  /**
+   * Gets the values offered by the open validation dropdown
+   */
+  getValidationList(): string[] {
+    if (!this.validationListCell) return [];
+    const { row, col } = this.validationListCell;
+    const rule = this.dataService.getDataValidation(row, col);
+    return rule ? this.dataService.getValidationList(rule) : [];
+  }
+
+  /**
+   * Opens (or closes) the dropdown of a list validation rule below its cell
+   */
+  onValidationDropdownMouseDown(event: MouseEvent, row: number, col: number): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.hasKeyboardFocus = true;
+
+    if (this.editingCell && !this.commitEdit()) return;
+    if (this.validationListCell) {
+      this.validationListCell = null;
+      return;
+    }
+
+    const cell = (event.currentTarget as HTMLElement).closest('.spreadsheet-cell');
+    if (cell) {
+      this.openValidationList({ row, col }, cell.getBoundingClientRect());
+    }
+  }
+
+  /**
+   * Writes a value picked from the validation dropdown into its cell
+   */
+  onValidationListSelect(value: string): void {
+    const address = this.validationListCell;
+    this.validationListCell = null;
+    if (!address) return;
+
+    const oldValue = this.dataService.getCell(address.row, address.col)?.value;
+    if (oldValue !== value) {
+      this.dataService.updateCell(address.row, address.col, value);
+      this.cellChange.emit({ address, oldValue, newValue: value });
+    }
+  }
+
+  /**
+   * Gets the input message of a data validation rule, shown while its cell is selected
+   */
+  getInputMessage(row: number, col: number): { title?: string; message?: string } | null {
+    if (!this.isCellSelected(row, col) || this.validationListCell) return null;
+    const rule = this.dataService.getDataValidation(row, col);
+    if (!rule?.inputTitle && !rule?.inputMessage) return null;
+    return { title: rule.inputTitle, message: rule.inputMessage };
+  }
+
+  /**
+   * Whether a cell is circled by Circle Invalid Data
+   */
+  isCellCircled(row: number, col: number): boolean {
+    return this.circleInvalidData && this.dataService.isCellInvalid(row, col);
+  }
+
+  /**
+   * Shows the validation dropdown of a cell below the cell's on-screen rectangle
+   */
+  private openValidationList(cell: CellAddress, rect: DOMRect): void {
+    this.validationListX = rect.left;
+    this.validationListY = rect.bottom;
+    this.validationListCell = cell;
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Gets the comment thread of a cell, for its corner indicator and popover
+   */
+  getComment(row: number, col: number): CellComment | null {
+    return this.dataService.getComment(row, col);
+  }
+
+  /**
+   * Lists the comments of a thread in order, for the popover
+   */
+  getCommentThread(comment: CellComment): CommentEntry[] {
+    return getCommentThread(comment);
+  }
+
+  /**
+   * Formats when a comment was written, in the spreadsheet's locale
+   */
+  formatCommentDate(entry: CommentEntry): string {
+    const date = new Date(entry.createdAt);
+    if (isNaN(date.getTime())) return '';
+    return date.toLocaleString(this.dataService.getLocale(), {
+      dateStyle: 'medium',
+      timeStyle: 'short',
     });
+  }
 
-    // Reconstruct sheet with sorted data
-    const newCells = [sheet.cells[0], ...dataRows];
-    this.dataService.updateSheetCells(newCells);
+  /**
+   * Closes the hover popover of a comment when the mouse leaves its cell for anything but
+   * the popover
+   */
+  onCellMouseLeave(event: MouseEvent): void {
+    if (this.commentPinned || !this.commentCell) return;
+    const next = event.relatedTarget as Element | null;
+    if (!next?.closest?.('.comment-popover')) {
+      this.commentCell = null;
+    }
   }
 
   /**
-   * Toggles the filter row visibility (placeholder for now)
+   * Closes the hover popover of a comment when the mouse leaves it for another element
+   * than its cell
    */
-  private toggleFilterRow(): void {
-    // TODO: Implement filter functionality
+  onCommentPopoverMouseLeave(event: MouseEvent): void {
+    if (this.commentPinned) return;
+    const next = (event.relatedTarget as Element | null)?.closest?.('.spreadsheet-cell');
+    if (!next || !next.classList.contains('has-comment')) {
+      this.commentCell = null;
+    }
   }
 
   /**
-   * Searches for cells containing the specified text
+   * Context menu: New Comment / Edit Comment opens the thread of the selected cell
    */
-  private searchCells(searchText: string): void {
-    const sheet = this.dataService.getActiveSheet();
-    if (!sheet || !searchText) return;
+  onContextMenuComment(): void {
+    this.contextMenuVisible = false;
+    if (this.readonly || !this.selectedCell) return;
 
-    const lowerSearch = searchText.toLowerCase();
+    this.commentCell = this.selectedCell;
+    this.commentPinned = true;
+    this.commentX = this.contextMenuX;
+    this.commentY = this.contextMenuY;
+    this.commentDraft = '';
+    this.editingCommentId = null;
+    setTimeout(() => this.focusCommentInput(), 0);
+  }
 
-    // Find all cells matching the search
-    for (let row = 0; row < sheet.cells.length; row++) {
-      for (let col = 0; col < sheet.cells[row].length; col++) {
-        const cell = sheet.cells[row][col];
-        const cellText = String(cell.displayValue || cell.value || '').toLowerCase();
+  /**
+   * Context menu: Delete Comment
+   */
+  onContextMenuDeleteComment(): void {
+    this.contextMenuVisible = false;
+    if (this.readonly || !this.selectedCell) return;
+    this.dataService.deleteComment(this.selectedCell.row, this.selectedCell.col);
+    this.closeCommentPopover();
+  }
 
-        if (cellText.includes(lowerSearch)) {
-          // Select the first match
-          this.dataService.selectCell({ row, col });
-          return;
-        }
-      }
+  /**
+   * Updates the text of the new comment or reply being written
+   */
+  onCommentDraftInput(event: Event): void {
+    this.commentDraft = (event.target as HTMLTextAreaElement).value;
+  }
+
+  /**
+   * Posts the text being written: it starts the thread of a cell without comments, and
+   * is a reply otherwise
+   */
+  onPostComment(): void {
+    const cell = this.commentCell;
+    const text = this.commentDraft.trim();
+    if (!cell || !text) return;
+
+    if (this.getComment(cell.row, cell.col)) {
+      this.dataService.replyToComment(cell.row, cell.col, text, this.author);
+    } else {
+      this.dataService.addComment(cell.row, cell.col, text, this.author);
     }
+    this.commentDraft = '';
+  }
+
+  /**
+   * Starts editing the text of a comment of the open thread
+   */
+  onEditCommentEntry(entry: CommentEntry): void {
+    this.editingCommentId = entry.id;
+    this.editingCommentText = entry.text;
+  }
 
-    alert('No matches found');
+  /**
+   * Updates the text of the comment being edited
+   */
+  onEditingCommentInput(event: Event): void {
+    this.editingCommentText = (event.target as HTMLTextAreaElement).value;
+  }
+
+  /**
+   * Saves the comment being edited
+   */
+  onSaveCommentEdit(): void {
+    const cell = this.commentCell;
+    const text = this.editingCommentText.trim();
+    if (cell && this.editingCommentId && text) {
+      this.dataService.editComment(cell.row, cell.col, this.editingCommentId, text);
+    }
+    this.editingCommentId = null;
+  }
+
+  /**
+   * Deletes a comment of the open thread; deleting the first one deletes the thread
+   */
+  onDeleteCommentEntry(entry: CommentEntry): void {
+    const cell = this.commentCell;
+    if (!cell) return;
+
+    const comment = this.getComment(cell.row, cell.col);
+    this.dataService.deleteComment(cell.row, cell.col, entry.id);
+    if (comment?.id === entry.id) {
+      this.closeCommentPopover();
+    }
+  }
+
+  /**
+   * Resolves the open thread, or reopens it
+   */
+  onToggleCommentResolved(): void {
+    const cell = this.commentCell;
+    const comment = cell && this.getComment(cell.row, cell.col);
+    if (!cell || !comment) return;
+    this.dataService.setCommentResolved(cell.row, cell.col, !comment.resolved);
+  }
+
+  /**
+   * Closes the comment popover
+   */
+  closeCommentPopover(): void {
+    this.commentCell = null;
+    this.commentPinned = false;
+    this.commentDraft = '';
+    this.editingCommentId = null;
+  }
+
+  /**
+   * Focuses the text box of the comment popover
+   */
+  private focusCommentInput(): void {
+    const input = this.elementRef.nativeElement.querySelector('.comment-popover textarea');
+    (input as HTMLTextAreaElement | null)?.focus();
+  }
+
+  /**
+   * Closes the AutoFilter menu
+   */
+  closeFilterMenu(): void {
+    this.filterMenuColumn = null;
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Opens the Find and Replace panel on a tab, or switches the open panel to it.
+   * A query is searched for right away.
+   */
+  openFindPanel(mode: 'find' | 'replace', query = ''): void {
+    this.findPanelMode = mode;
+    if (this.findPanel && query) {
+      this.findPanel.query = query;
+      this.findPanel.onFindNext();
+    } else {
+      this.findPanelQuery = query;
+    }
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Closes the Find and Replace panel
+   */
+  closeFindPanel(): void {
+    this.findPanelMode = null;
+    this.findPanelQuery = '';
+    this.cdr.markForCheck();
   }
 
   /**
@@ -1886,38 +2774,85 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     if (style.borderBottom) cssStyle['border-bottom'] = style.borderBottom;
     if (style.borderLeft) cssStyle['border-left'] = style.borderLeft;
 
+    // Section colors of the number format ($#,##0;[Red]-$#,##0) override the text color
+    if (style.numberFormatPattern?.includes('[')) {
+      const color = this.dataService.getCellFormatColor(row, col);
+      if (color) cssStyle['color'] = color;
+    }
+
+    // Conditional formatting overrides both
+    const conditional = this.dataService.getConditionalFormat(row, col)?.style ?? {};
+    if (conditional.fontWeight) cssStyle['font-weight'] = conditional.fontWeight;
+    if (conditional.fontStyle) cssStyle['font-style'] = conditional.fontStyle;
+    if (conditional.textDecoration) cssStyle['text-decoration'] = conditional.textDecoration;
+    if (conditional.color) cssStyle['color'] = conditional.color;
+    if (conditional.backgroundColor) cssStyle['background-color'] = conditional.backgroundColor;
+
     return cssStyle;
   }
 
+  /**
+   * Gets the data bar, icon and value visibility conditional formatting gives a cell
+   */
+  getConditionalFormat(row: number, col: number): ConditionalFormatResult | null {
+    return this.dataService.getConditionalFormat(row, col);
+  }
+
   // ========== NEW FEATURE METHODS ==========
 
   /**
-   * Merges and centers the selected range of cells
+   * Merges the selected range (Merge & Center, Merge Across, Merge Cells) or unmerges the
+   * merged cells in it, asking first when merging would discard values
    */
-  private mergeAndCenterCells(): void {
-    if (!this.rangeStart || !this.rangeEnd) {
+  private mergeSelection(action: string): void {
+    const start = this.rangeStart ?? this.selectedCell;
+    const end = this.rangeEnd ?? this.selectedCell;
+    if (!start || !end) {
       alert('Please select a range of cells to merge');
       return;
     }
 
-    const minRow = Math.min(this.rangeStart.row, this.rangeEnd.row);
-    const maxRow = Math.max(this.rangeStart.row, this.rangeEnd.row);
-    const minCol = Math.min(this.rangeStart.col, this.rangeEnd.col);
-    const maxCol = Math.max(this.rangeStart.col, this.rangeEnd.col);
-
-    const rowSpan = maxRow - minRow + 1;
-    const colSpan = maxCol - minCol + 1;
+    const range: CellRange = { start, end };
+    if (action === 'unmerge') {
+      this.dataService.unmergeCells(range);
+      return;
+    }
 
-    // Apply merge style to the top-left cell
-    const currentStyle = this.getCurrentCellStyle();
-    const newStyle = {
-      ...currentStyle,
-      rowSpan,
-      colSpan,
-      textAlign: 'center' as const,
-    };
+    const across = action === 'mergeAcross';
+    if (
+      this.dataService.mergeWouldDiscardData(range, across) &&
+      !confirm('Merging cells only keeps the upper-left value and discards other values.')
+    ) {
+      return;
+    }
+    this.dataService.mergeCells(range, { across, center: action === 'mergeAndCenter' });
+  }
 
-    this.dataService.updateCellStyle(minRow, minCol, newStyle);
+  /**
+   * Freezes the top row, the first column, or the rows above and columns left of the
+   * selection (Freeze Panes), or unfreezes the panes
+   */
+  private freezePanes(action: string): void {
+    switch (action) {
+      case 'topRow':
+        this.dataService.setFrozenPanes(1, 0);
+        break;
+      case 'firstColumn':
+        this.dataService.setFrozenPanes(0, 1);
+        break;
+      case 'panes': {
+        const anchor = this.rangeStart && this.rangeEnd
+          ? normalizeRange({ start: this.rangeStart, end: this.rangeEnd }).start
+          : this.selectedCell;
+        if (anchor) {
+          this.dataService.setFrozenPanes(anchor.row, anchor.col);
+        }
+        break;
+      }
+      case 'unfreeze':
+        this.dataService.setFrozenPanes(0, 0);
+        break;
+    }
   }
 
   /**
@@ -2021,6 +2956,7 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
           case 'all':
             this.dataService.updateCell(row, col, '');
             this.dataService.updateCellStyle(row, col, {});
+            this.dataService.deleteComment(row, col);
             break;
           case 'contents':
             this.dataService.updateCell(row, col, '');
@@ -2028,6 +2964,9 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
           case 'formats':
             this.dataService.updateCellStyle(row, col, {});
             break;
+          case 'comments':
+            this.dataService.deleteComment(row, col);
+            break;
         }
       }
     }
@@ -2044,12 +2983,17 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
     navigator.clipboard.readText().then(text => {
       if (!text || !this.selectedCell) return;
 
+      // Pasting formulas is a regular paste, which shifts their relative references
+      if (type === 'formulas') {
+        this.alertRejectedPaste(this.dataService.paste(text));
+        return;
+      }
+
       const sheet = this.dataService.getActiveSheet();
       if (!sheet) return;
 
-      // Parse TSV data
-      const rows = text.split('\n').filter(line => line.trim());
-      const data = rows.map(row => row.split('\t'));
+      // Tab-separated values, read as paste() reads them
+      const data = parseCsv(text, { delimiter: '\t', keepEmptyRows: true });
 
       // Paste starting from selected cell
       for (let i = 0; i < data.length; i++) {
@@ -2063,9 +3007,6 @@ export class SpreadsheetComponent implements OnInit, OnDestroy {
               const value = data[i][j];
               const processedValue = value.startsWith('=') ? value.substring(1) : value;
               this.dataService.updateCell(targetRow, targetCol, processedValue);
-            } else if (type === 'formulas') {
-              // Paste formulas only
-              this.dataService.updateCell(targetRow, targetCol, data[i][j]);
             } else if (type === 'formats') {
               // Paste formats only - would need to copy cell styles
               // TODO: Implement full paste formats functionality
@@ -0,0 +1,165 @@
+import { ConditionalFormatRule, Sheet, createEmptySheet } from '../models';
+import { evaluateConditionalFormats, interpolateColor } from './conditional-format';
+import { numberCell, range, setCells, textCell } from '../../testing/spec-helpers';
+
+describe('Conditional formatting', () => {
+  let sheet: Sheet;
+
+  const red = { backgroundColor: '#ff0000' };
+
+  // Column A holds 1..5
+  beforeEach(() => {
+    sheet = createEmptySheet({ rowCount: 10, colCount: 3 });
+    setCells(sheet, ...[1, 2, 3, 4, 5].map((value, row) => numberCell(row, 0, value)));
+  });
+
+  const evaluate = (rules: ConditionalFormatRule[], today?: number) =>
+    evaluateConditionalFormats({ ...sheet, conditionalFormats: rules }, { today });
+  const highlighted = (rules: ConditionalFormatRule[]) => {
+    const results = evaluate(rules);
+    return [0, 1, 2, 3, 4].filter((row) => results[row]?.[0]);
+  };
+
+  it('should highlight cell values matching a comparison', () => {
+    const rule = (operator: 'greaterThan' | 'between' | 'notBetween'): ConditionalFormatRule => ({
+      id: operator,
+      type: 'cellValue',
+      operator,
+      value: 2,
+      value2: 4,
+      range: range(0, 0, 9, 0),
+      style: red,
+    });
+
+    expect(highlighted([rule('greaterThan')])).toEqual([2, 3, 4]);
+    expect(highlighted([rule('between')])).toEqual([1, 2, 3]);
+    // Blank cells are not "not between"
+    expect(highlighted([rule('notBetween')])).toEqual([0, 4]);
+    expect(evaluate([rule('notBetween')])[6]).toBeUndefined();
+  });
+
+  it('should highlight text, duplicates and top values', () => {
+    setCells(
+      sheet,
+      textCell(0, 1, 'Apple pie'),
+      textCell(1, 1, 'banana'),
+      textCell(2, 1, 'apple PIE')
+    );
+    const results = evaluateConditionalFormats({
+      ...sheet,
+      conditionalFormats: [
+        {
+          id: 't',
+          type: 'text',
+          operator: 'beginsWith',
+          text: 'apple',
+          range: range(0, 1, 2, 1),
+          style: red,
+        },
+        { id: 'd', type: 'duplicates', range: range(0, 1, 2, 1), style: { fontWeight: 'bold' } },
+      ],
+    });
+    expect(results[0][1]?.style).toEqual({ backgroundColor: '#ff0000', fontWeight: 'bold' });
+    expect(results[1]?.[1]).toBeUndefined();
+
+    expect(highlighted([{ id: 'top', type: 'top', count: 2, range: range(0, 0, 4, 0) }])).toEqual(
+      [3, 4]
+    );
+    expect(
+      highlighted([{ id: 'avg', type: 'average', below: true, range: range(0, 0, 4, 0) }])
+    ).toEqual([0, 1]);
+  });
+
+  it('should match dates occurring in a period relative to today', () => {
+    // 2024-01-10 is a Wednesday (serial 45301)
+    const today = 45301;
+    setCells(
+      sheet,
+      { ...numberCell(0, 1, today - 3), dataType: 'date' },
+      { ...numberCell(1, 1, today + 5), dataType: 'date' }
+    );
+    const rule = (period: 'thisWeek' | 'nextWeek' | 'thisMonth'): ConditionalFormatRule => ({
+      id: period,
+      type: 'date',
+      period,
+      range: range(0, 1, 1, 1),
+      style: red,
+    });
+
+    expect(evaluate([rule('thisWeek')], today)[0][1]).toBeDefined();
+    expect(evaluate([rule('thisWeek')], today)[1]?.[1]).toBeUndefined();
+    expect(evaluate([rule('nextWeek')], today)[1][1]).toBeDefined();
+    expect(evaluate([rule('thisMonth')], today)[1][1]).toBeDefined();
+  });
+
+  it('should move the relative references of formula rules with each cell', () => {
+    const formulas: string[] = [];
+    const results = evaluateConditionalFormats(
+      {
+        ...sheet,
+        conditionalFormats: [
+          { id: 'f', type: 'formula', formula: '=A1>3', range: range(0, 1, 4, 1), style: red },
+        ],
+      },
+      {
+        evaluateFormula: (formula, row) => {
+          formulas.push(formula);
+          return row + 1 > 3 ? 'TRUE' : 'FALSE';
+        },
+      }
+    );
+
+    expect(formulas[1]).toBe('=A2>3');
+    expect(results[3][1]).toBeDefined();
+    expect(results[2]?.[1]).toBeUndefined();
+  });
+
+  it('should apply rules by priority and stop after a matching stop-if-true rule', () => {
+    const rules: ConditionalFormatRule[] = [
+      {
+        id: 'high',
+        type: 'cellValue',
+        operator: 'greaterThan',
+        value: 3,
+        range: range(0, 0, 4, 0),
+        style: { color: '#0000ff' },
+        stopIfTrue: true,
+      },
+      {
+        id: 'all',
+        type: 'cellValue',
+        operator: 'greaterThan',
+        value: 0,
+        range: range(0, 0, 4, 0),
+        style: { color: '#00ff00', fontWeight: 'bold' },
+      },
+    ];
+
+    const results = evaluate(rules);
+    expect(results[4][0]?.style).toEqual({ color: '#0000ff' });
+    expect(results[0][0]?.style).toEqual({ color: '#00ff00', fontWeight: 'bold' });
+  });
+
+  it('should shade color scales and size data bars and icons by value', () => {
+    const column = range(0, 0, 4, 0);
+    const results = evaluate([
+      { id: 'scale', type: 'colorScale', minColor: '#000000', maxColor: '#ffffff', range: column },
+      { id: 'bar', type: 'dataBar', color: '#638ec6', range: column },
+      { id: 'icons', type: 'iconSet', iconSet: '3Arrows', showValue: false, range: column },
+    ]);
+
+    expect(results[0][0]?.style.backgroundColor).toBe('#000000');
+    expect(results[2][0]?.style.backgroundColor).toBe('#808080');
+    expect(results[4][0]?.dataBar).toEqual({ length: 1, color: '#638ec6' });
+    expect(results[0][0]?.dataBar?.length).toBeCloseTo(0.2);
+    expect(results[4][0]?.icon?.symbol).toBe('↑');
+    expect(results[2][0]?.icon?.symbol).toBe('→');
+    expect(results[0][0]?.icon?.symbol).toBe('↓');
+    expect(results[0][0]?.hideValue).toBeTrue();
+  });
+
+  it('should mix hex colors', () => {
+    expect(interpolateColor('#000', '#ffffff', 0.5)).toBe('#808080');
+    expect(interpolateColor('#ff0000', '#0000ff', 0)).toBe('#ff0000');
+  });
+});
@@ -0,0 +1,422 @@
+import {
+  Cell,
+  CellRange,
+  ConditionalFormatResult,
+  ConditionalFormatRule,
+  DatePeriod,
+  IconSetName,
+  Sheet,
+} from '../models';
+import {
+  createColumnPredicate,
+  createConditionTest,
+  getFilterNumber,
+  getFilterText,
+} from '../filter';
+import { dateToSerial, serialToUtcDate } from '../format';
+import { shiftFormulaReferences } from '../formula';
+
+/**
+ * Icons of each icon set, from the icon for the highest values to the lowest
+ */
+export const ICON_SETS: Record<IconSetName, { symbol: string; color: string }[]> = {
+  '3Arrows': [
+    { symbol: '↑', color: '#1e8c3a' },
+    { symbol: '→', color: '#e6a100' },
+    { symbol: '↓', color: '#d32f2f' },
+  ],
+  '3TrafficLights': [
+    { symbol: '●', color: '#1e8c3a' },
+    { symbol: '●', color: '#e6a100' },
+    { symbol: '●', color: '#d32f2f' },
+  ],
+  '3Symbols': [
+    { symbol: '✔', color: '#1e8c3a' },
+    { symbol: '!', color: '#e6a100' },
+    { symbol: '✖', color: '#d32f2f' },
+  ],
+  '3Flags': [
+    { symbol: '⚑', color: '#1e8c3a' },
+    { symbol: '⚑', color: '#e6a100' },
+    { symbol: '⚑', color: '#d32f2f' },
+  ],
+  '4Arrows': [
+    { symbol: '↑', color: '#1e8c3a' },
+    { symbol: '↗', color: '#e6a100' },
+    { symbol: '↘', color: '#e6a100' },
+    { symbol: '↓', color: '#d32f2f' },
+  ],
+  '5Ratings': [
+    { symbol: '█', color: '#2f6eba' },
+    { symbol: '▆', color: '#2f6eba' },
+    { symbol: '▄', color: '#2f6eba' },
+    { symbol: '▂', color: '#2f6eba' },
+    { symbol: '▁', color: '#2f6eba' },
+  ],
+};
+
+/**
+ * Percent of the way from the lowest to the highest value that each icon starts at,
+ * by number of icons (Excel's defaults)
+ */
+const ICON_THRESHOLDS: Record<number, number[]> = {
+  3: [67, 33],
+  4: [75, 50, 25],
+  5: [80, 60, 40, 20],
+};
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Evaluates a formula as if it were entered in a cell of the sheet
+ */
+export type ConditionalFormulaEvaluator = (
+  formula: string,
+  row: number,
+  col: number
+) => string | number;
+
+/**
+ * What conditional formatting needs besides the sheet
+ */
+export interface ConditionalFormatContext {
+  /** Evaluates formula rules and formula values; without it they never match */
+  evaluateFormula?: ConditionalFormulaEvaluator;
+
+  /** Serial number of today, for date rules (defaults to the current date) */
+  today?: number;
+}
+
+/**
+ * Formats one cell of a rule's range, or returns null when the rule does not apply to it
+ */
+type RuleFormatter = (
+  cell: Cell | undefined,
+  row: number,
+  col: number
+) => ConditionalFormatResult | null;
+
+/**
+ * Evaluates the conditional formatting rules of a sheet, returning the formatting of each
+ * cell as `results[row][col]` (undefined for unformatted cells).
+ * Rules apply in priority order: where two set the same property the first one wins, and a
+ * matching rule with `stopIfTrue` keeps the rules after it from applying to that cell.
+ */
+export function evaluateConditionalFormats(
+  sheet: Sheet,
+  context: ConditionalFormatContext = {}
+): (ConditionalFormatResult | undefined)[][] {
+  const results: (ConditionalFormatResult | undefined)[][] = [];
+  const stopped = new Set<string>();
+
+  for (const rule of sheet.conditionalFormats ?? []) {
+    const { start, end } = clampRange(sheet, rule.range);
+    const cells: (Cell | undefined)[] = [];
+    for (let row = start.row; row <= end.row; row++) {
+      for (let col = start.col; col <= end.col; col++) {
+        cells.push(sheet.cells[row]?.[col]);
+      }
+    }
+
+    const format = createRuleFormatter(rule, cells, start, context);
+    for (let row = start.row; row <= end.row; row++) {
+      for (let col = start.col; col <= end.col; col++) {
+        const key = `${row}:${col}`;
+        if (stopped.has(key)) continue;
+
+        const formatted = format(sheet.cells[row]?.[col], row, col);
+        if (!formatted) continue;
+
+        results[row] ??= [];
+        results[row][col] = mergeResults(results[row][col], formatted);
+        if (rule.stopIfTrue) stopped.add(key);
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * Mixes two colors given as hex codes ('#rrggbb' or '#rgb'): 0 gives the first, 1 the second
+ */
+export function interpolateColor(from: string, to: string, ratio: number): string {
+  const a = parseHexColor(from);
+  const b = parseHexColor(to);
+  if (!a || !b) return ratio < 0.5 ? from : to;
+
+  const t = Math.max(0, Math.min(1, ratio));
+  return `#${a
+    .map((channel, i) => Math.round(channel + (b[i] - channel) * t).toString(16).padStart(2, '0'))
+    .join('')}`;
+}
+
+/**
+ * Builds the formatter of a rule from the cells of its range
+ */
+function createRuleFormatter(
+  rule: ConditionalFormatRule,
+  cells: (Cell | undefined)[],
+  origin: { row: number; col: number },
+  context: ConditionalFormatContext
+): RuleFormatter {
+  const highlight = (test: (cell: Cell | undefined, row: number, col: number) => boolean) => {
+    const result: ConditionalFormatResult = { style: { ...rule.style } };
+    return (cell: Cell | undefined, row: number, col: number) =>
+      test(cell, row, col) ? result : null;
+  };
+  const evaluate = (formula: string, row: number, col: number) =>
+    context.evaluateFormula?.(
+      shiftFormulaReferences(formula, row - origin.row, col - origin.col),
+      row,
+      col
+    );
+
+  switch (rule.type) {
+    case 'cellValue': {
+      const isFormula = (value: unknown) => typeof value === 'string' && value.startsWith('=');
+      const resolve = (value: string | number, row: number, col: number) =>
+        isFormula(value) ? evaluate(String(value), row, col) ?? '' : value;
+      const operator = rule.operator === 'notBetween' ? 'between' : rule.operator;
+      const negate = rule.operator === 'notBetween';
+      const { value, value2 } = rule;
+
+      // Conditions without formulas are the same for every cell
+      const fixedTest =
+        !isFormula(value) && !isFormula(value2)
+          ? createConditionTest({ operator, value, value2 })
+          : null;
+      return highlight((cell, row, col) => {
+        const test =
+          fixedTest ??
+          createConditionTest({
+            operator,
+            value: resolve(value, row, col),
+            value2: value2 === undefined ? undefined : resolve(value2, row, col),
+          });
+        return negate ? getFilterNumber(cell) !== null && !test(cell) : test(cell);
+      });
+    }
+
+    case 'text': {
+      const test = createConditionTest({ operator: rule.operator, value: rule.text });
+      return highlight((cell) => getFilterText(cell) !== '' && test(cell));
+    }
+
+    case 'date': {
+      const [first, last] = getPeriodDays(rule.period, context.today);
+      return highlight((cell) => {
+        const value = getFilterNumber(cell);
+        return value !== null && Math.floor(value) >= first && Math.floor(value) <= last;
+      });
+    }
+
+    case 'duplicates': {
+      const counts = new Map<string, number>();
+      for (const cell of cells) {
+        const text = getFilterText(cell).toLowerCase();
+        if (text !== '') counts.set(text, (counts.get(text) ?? 0) + 1);
+      }
+      return highlight((cell) => {
+        const count = counts.get(getFilterText(cell).toLowerCase());
+        return count !== undefined && (rule.unique ? count === 1 : count > 1);
+      });
+    }
+
+    case 'top':
+      return highlight(
+        createColumnPredicate(
+          { type: 'top', count: rule.count, bottom: rule.bottom, percent: rule.percent },
+          cells
+        )
+      );
+
+    case 'average':
+      return highlight(createColumnPredicate({ type: 'average', below: rule.below }, cells));
+
+    case 'formula':
+      return highlight((_, row, col) => isTrue(evaluate(rule.formula, row, col)));
+
+    case 'colorScale': {
+      const numbers = getNumbers(cells).sort((a, b) => a - b);
+      if (numbers.length === 0) return () => null;
+
+      const min = numbers[0];
+      const max = numbers[numbers.length - 1];
+      const mid = getPercentile(numbers, 0.5);
+      return (cell) => {
+        const value = getFilterNumber(cell);
+        if (value === null) return null;
+
+        let backgroundColor: string;
+        if (rule.midColor === undefined) {
+          backgroundColor = interpolateColor(rule.minColor, rule.maxColor, ratio(value, min, max));
+        } else if (value <= mid) {
+          backgroundColor = interpolateColor(rule.minColor, rule.midColor, ratio(value, min, mid));
+        } else {
+          backgroundColor = interpolateColor(rule.midColor, rule.maxColor, ratio(value, mid, max));
+        }
+        return { style: { backgroundColor } };
+      };
+    }
+
+    case 'dataBar': {
+      const numbers = getNumbers(cells);
+      if (numbers.length === 0) return () => null;
+
+      // Bars start from zero unless values are negative
+      const low = Math.min(0, ...numbers);
+      const high = Math.max(0, ...numbers);
+      return (cell) => {
+        const value = getFilterNumber(cell);
+        if (value === null) return null;
+        return {
+          style: {},
+          dataBar: { length: high === low ? 0 : (value - low) / (high - low), color: rule.color },
+          hideValue: rule.showValue === false,
+        };
+      };
+    }
+
+    case 'iconSet': {
+      const numbers = getNumbers(cells);
+      if (numbers.length === 0) return () => null;
+
+      const icons = rule.reverse ? [...ICON_SETS[rule.iconSet]].reverse() : ICON_SETS[rule.iconSet];
+      const thresholds = ICON_THRESHOLDS[icons.length];
+      const min = Math.min(...numbers);
+      const max = Math.max(...numbers);
+      return (cell) => {
+        const value = getFilterNumber(cell);
+        if (value === null) return null;
+
+        const percent = max === min ? 100 : ratio(value, min, max) * 100;
+        const index = thresholds.findIndex((threshold) => percent >= threshold);
+        return {
+          style: {},
+          icon: icons[index === -1 ? icons.length - 1 : index],
+          hideValue: rule.showValue === false,
+        };
+      };
+    }
+  }
+}
+
+/**
+ * Combines the formatting of a higher-priority rule with that of a lower-priority one,
+ * keeping the properties the first already sets
+ */
+function mergeResults(
+  current: ConditionalFormatResult | undefined,
+  next: ConditionalFormatResult
+): ConditionalFormatResult {
+  if (!current) return { ...next, style: { ...next.style } };
+  return {
+    style: { ...next.style, ...current.style },
+    dataBar: current.dataBar ?? next.dataBar,
+    icon: current.icon ?? next.icon,
+    hideValue: current.hideValue || next.hideValue,
+  };
+}
+
+/**
+ * Gets the first and last day (serial numbers) of a date period
+ */
+function getPeriodDays(
+  period: DatePeriod,
+  today = Math.floor(dateToSerial(new Date()))
+): [number, number] {
+  const date = serialToUtcDate(today);
+  const weekStart = today - date.getUTCDay();
+  const monthStart = today - date.getUTCDate() + 1;
+  const monthDays = (year: number, month: number) =>
+    new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  switch (period) {
+    case 'yesterday':
+      return [today - 1, today - 1];
+    case 'today':
+      return [today, today];
+    case 'tomorrow':
+      return [today + 1, today + 1];
+    case 'last7Days':
+      return [today - 6, today];
+    case 'lastWeek':
+      return [weekStart - 7, weekStart - 1];
+    case 'thisWeek':
+      return [weekStart, weekStart + 6];
+    case 'nextWeek':
+      return [weekStart + 7, weekStart + 13];
+    case 'lastMonth': {
+      const days = monthDays(date.getUTCFullYear(), date.getUTCMonth() - 1);
+      return [monthStart - days, monthStart - 1];
+    }
+    case 'thisMonth': {
+      const days = monthDays(date.getUTCFullYear(), date.getUTCMonth());
+      return [monthStart, monthStart + days - 1];
+    }
+    case 'nextMonth': {
+      const days = monthDays(date.getUTCFullYear(), date.getUTCMonth());
+      const nextDays = monthDays(date.getUTCFullYear(), date.getUTCMonth() + 1);
+      return [monthStart + days, monthStart + days + nextDays - 1];
+    }
+  }
+}
+
+/**
+ * Whether a formula result counts as true: TRUE or a non-zero number
+ */
+function isTrue(value: string | number | undefined): boolean {
+  if (typeof value === 'number') return value !== 0;
+  return value === 'TRUE';
+}
+
+/**
+ * Where a value falls between a lower and an upper bound, from 0 to 1
+ */
+function ratio(value: number, low: number, high: number): number {
+  return high === low ? 1 : Math.max(0, Math.min(1, (value - low) / (high - low)));
+}
+
+/**
+ * Gets a percentile of sorted numbers, interpolating between neighbors
+ */
+function getPercentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Collects the numbers of a range, skipping text and blanks
+ */
+function getNumbers(cells: (Cell | undefined)[]): number[] {
+  return cells.map(getFilterNumber).filter((value): value is number => value !== null);
+}
+
+/**
+ * Normalizes a rule's range and keeps it inside the sheet
+ */
+function clampRange(sheet: Sheet, range: CellRange): CellRange {
+  return {
+    start: {
+      row: Math.max(0, Math.min(range.start.row, range.end.row)),
+      col: Math.max(0, Math.min(range.start.col, range.end.col)),
+    },
+    end: {
+      row: Math.min(sheet.rowCount - 1, Math.max(range.start.row, range.end.row)),
+      col: Math.min(sheet.colCount - 1, Math.max(range.start.col, range.end.col)),
+    },
+  };
+}
+
+/**
+ * Reads a hex color as its red, green and blue channels
+ */
+function parseHexColor(color: string): number[] | null {
+  const match = color.trim().match(HEX_COLOR_PATTERN);
+  if (!match) return null;
+
+  const hex = match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+  return [0, 2, 4].map((index) => parseInt(hex.slice(index, index + 2), 16));
+}
@@ -0,0 +1,5 @@
+/**
+ * Public API for conditional formatting
+ */
+
+export * from './conditional-format';
@@ -0,0 +1,46 @@
+import { convertCsvValue, detectCsvColumnTypes, parseCsvNumber } from './csv-columns';
+
+describe('detectCsvColumnTypes', () => {
+  it('should suggest a type for each column', () => {
+    const rows = [
+      ['1,250.50', '2024-03-01', '02134', 'Ana', ''],
+      ['(30)', '3/15/2024', '10001', '42', ''],
+      ['', '9:30 AM', '', 'x'],
+    ];
+
+    expect(detectCsvColumnTypes(rows)).toEqual(['number', 'date', 'text', 'general', 'general']);
+  });
+});
+
+describe('convertCsvValue', () => {
+  it('should convert values as their column type says', () => {
+    expect(convertCsvValue('', 'number')).toBeNull();
+    expect(convertCsvValue('007', 'text')).toEqual({ value: '007', format: '@' });
+    expect(convertCsvValue('007', 'general')).toEqual({ value: 7 });
+    expect(convertCsvValue('2024-01-01', 'date')).toEqual({ value: 45292, format: 'yyyy-mm-dd' });
+    expect(convertCsvValue('2024-01-01', 'general')).toEqual({
+      value: 45292,
+      format: 'yyyy-mm-dd',
+    });
+    expect(convertCsvValue('n/a', 'number')).toEqual({ value: 'n/a' });
+    expect(convertCsvValue('Smith', 'general')).toEqual({ value: 'Smith' });
+  });
+});
+
+describe('parseCsvNumber', () => {
+  it('should read numbers with separators, currency, percent and parentheses', () => {
+    expect(parseCsvNumber('1,234,567.5')).toEqual({ value: 1234567.5 });
+    expect(parseCsvNumber('-$1,200')).toEqual({ value: -1200 });
+    expect(parseCsvNumber('(45.00)')).toEqual({ value: -45 });
+    expect(parseCsvNumber('12.5%')).toEqual({ value: 0.125, format: '0.00%' });
+    expect(parseCsvNumber('1e3')).toEqual({ value: 1000 });
+    expect(parseCsvNumber('1,2')).toBeNull();
+    expect(parseCsvNumber('12 apples')).toBeNull();
+  });
+
+  it('should use the separators of the locale', () => {
+    expect(parseCsvNumber('1.234,5', 'de-DE')).toEqual({ value: 1234.5 });
+    expect(parseCsvNumber('3,75 €', 'de-DE')).toEqual({ value: 3.75 });
+    expect(parseCsvNumber('1.5', 'de-DE')).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { CsvColumnType } from '../models';
+import { getNumberSeparators, parseDateInput } from '../format';
+
+/**
+ * A CSV field converted for a cell: its value and, for dates, percentages and text
+ * columns, the number format that shows it as read
+ */
+export interface CsvValue {
+  value: string | number;
+  format?: string;
+}
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const CURRENCY_PATTERN = /^([+-]?)\s*[$€£¥]?\s*(.*?)\s*[$€£¥]?$/u;
+const LEADING_ZERO_PATTERN = /^0\d/;
+const DETECTION_ROWS = 100;
+
+/**
+ * Suggests a type for each column from its values: 'number' or 'date' when every
+ * non-empty value reads as one, 'text' for numbers written with leading zeros (such as
+ * ZIP codes or IDs, which would lose them) and 'general' otherwise.
+ * Only the first 100 rows are looked at.
+ */
+export function detectCsvColumnTypes(rows: string[][], locale?: string): CsvColumnType[] {
+  const sample = rows.slice(0, DETECTION_ROWS);
+  const columnCount = Math.max(0, ...sample.map((row) => row.length));
+  const types: CsvColumnType[] = [];
+
+  for (let col = 0; col < columnCount; col++) {
+    const values = sample.map((row) => row[col]?.trim() ?? '').filter((value) => value !== '');
+    if (values.length === 0) {
+      types.push('general');
+    } else if (values.every((value) => parseCsvNumber(value, locale))) {
+      types.push(values.some((value) => LEADING_ZERO_PATTERN.test(value)) ? 'text' : 'number');
+    } else if (values.every((value) => parseDateInput(value, locale))) {
+      types.push('date');
+    } else {
+      types.push('general');
+    }
+  }
+
+  return types;
+}
+
+/**
+ * Converts a CSV field as a column of the given type reads it (dates and numbers in
+ * the locale's conventions). Values a number or date column cannot read are kept as
+ * text. Returns null for empty fields, which leave the cell empty.
+ */
+export function convertCsvValue(
+  text: string,
+  type: CsvColumnType,
+  locale?: string
+): CsvValue | null {
+  if (text === '') return null;
+
+  switch (type) {
+    case 'text':
+      return { value: text, format: '@' };
+    case 'number':
+      return parseCsvNumber(text, locale) ?? { value: text };
+    case 'date':
+      return toDateValue(text, locale) ?? { value: text };
+    default:
+      return parseCsvNumber(text, locale) ?? toDateValue(text, locale) ?? { value: text };
+  }
+}
+
+/**
+ * Reads a number written in a locale's conventions: with thousands separators, a
+ * currency symbol ($, €, £, ¥), a trailing % or in parentheses for negative amounts.
+ * Returns null for anything else.
+ */
+export function parseCsvNumber(text: string, locale?: string): CsvValue | null {
+  const { group, decimal } = getNumberSeparators(locale);
+  let rest = text.trim();
+  let negative = false;
+  let percent = false;
+
+  if (rest.startsWith('(') && rest.endsWith(')')) {
+    negative = true;
+    rest = rest.slice(1, -1).trim();
+  }
+  if (rest.endsWith('%')) {
+    percent = true;
+    rest = rest.slice(0, -1).trim();
+  }
+  const currency = rest.match(CURRENCY_PATTERN);
+  if (currency) {
+    rest = currency[1] + currency[2];
+  }
+
+  // Thousands separators must group whole thousands (1,234 but not 1,2 in en-US)
+  const [integer, fraction, ...extra] = rest.split(decimal);
+  if (extra.length > 0) return null;
+  const digits = integer.replace(/^[+-]/, '');
+  const groups = digits.split(/^\s$/.test(group) ? /\s/ : group);
+  const grouped = groups.every(
+    (part, i) => /^\d+$/.test(part) && (i === 0 ? part.length <= 3 : part.length === 3)
+  );
+  if (groups.length > 1 && !grouped) return null;
+
+  const normalized =
+    integer.slice(0, integer.length - digits.length) +
+    groups.join('') +
+    (fraction === undefined ? '' : `.${fraction}`);
+  if (!NUMBER_PATTERN.test(normalized)) return null;
+
+  let value = parseFloat(normalized) * (negative ? -1 : 1);
+  if (!percent) return { value };
+
+  value /= 100;
+  return { value, format: fraction ? '0.00%' : '0%' };
+}
+
+/**
+ * Reads a date or time, returning its serial number with a matching date format
+ */
+function toDateValue(text: string, locale?: string): CsvValue | null {
+  const date = parseDateInput(text, locale);
+  return date && { value: date.serial, format: date.format };
+}
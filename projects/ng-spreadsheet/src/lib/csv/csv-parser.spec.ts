@@ -0,0 +1,93 @@
+import { CsvParser, detectCsvDelimiter, parseCsv, readCsvFile } from './csv-parser';
+
+describe('parseCsv', () => {
+  it('should read quoted fields with delimiters, quotes and line breaks', () => {
+    const text = 'Name,Note\r\n"Smith, Ana","said ""hi""\nthen left"\r\nLee,\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['Name', 'Note'],
+      ['Smith, Ana', 'said "hi"\nthen left'],
+      ['Lee', ''],
+    ]);
+  });
+
+  it('should skip a byte order mark and empty lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+    expect(parseCsv('a\n\nb', { keepEmptyRows: true })).toEqual([['a'], [''], ['b']]);
+  });
+
+  it('should use the given delimiter, quote and escape characters', () => {
+    expect(parseCsv("'a;b';c", { delimiter: ';', quote: "'" })).toEqual([['a;b', 'c']]);
+    expect(parseCsv('"say \\"hi\\"","C:\\\\temp"', { escape: '\\' })).toEqual([
+      ['say "hi"', 'C:\\temp'],
+    ]);
+  });
+
+  it('should keep quotes that do not start a field', () => {
+    expect(parseCsv('5" pipe,"a"b')).toEqual([['5" pipe', 'ab']]);
+  });
+
+  it('should parse text pushed in pieces', () => {
+    const parser = new CsvParser();
+    const rows = [
+      ...parser.push('a,"b'),
+      ...parser.push('""c"\r'),
+      ...parser.push('\nd,e'),
+      ...parser.end(),
+    ];
+
+    expect(rows).toEqual([
+      ['a', 'b"c'],
+      ['d', 'e'],
+    ]);
+  });
+});
+
+describe('detectCsvDelimiter', () => {
+  it('should pick the delimiter that splits rows consistently', () => {
+    expect(detectCsvDelimiter('a,b,c\n1,2,3\n')).toBe(',');
+    expect(detectCsvDelimiter('name;price\n"Tea, green";1,50\nCoffee;2,00\n')).toBe(';');
+    expect(detectCsvDelimiter('a\tb\n1\t2')).toBe('\t');
+    expect(detectCsvDelimiter('single column')).toBe(',');
+  });
+});
+
+describe('readCsvFile', () => {
+  const rows = Array.from({ length: 200 }, (_, i) => `${i},"row ${i}, quoted"`);
+  const file = new Blob([rows.join('\r\n')]);
+
+  it('should read a file in chunks and report progress', async () => {
+    const progress: number[] = [];
+    const result = await readCsvFile(file, {
+      chunkSize: 256,
+      onProgress: (loaded) => progress.push(loaded),
+    });
+
+    expect(result.delimiter).toBe(',');
+    expect(result.truncated).toBeFalse();
+    expect(result.rows.length).toBe(200);
+    expect(result.rows[199]).toEqual(['199', 'row 199, quoted']);
+    expect(progress.length).toBe(Math.ceil(file.size / 256));
+    expect(progress[progress.length - 1]).toBe(file.size);
+  });
+
+  it('should stop after the rows of a preview', async () => {
+    const result = await readCsvFile(file, { chunkSize: 256, maxRows: 10 });
+
+    expect(result.rows.length).toBe(10);
+    expect(result.truncated).toBeTrue();
+  });
+
+  it('should decode the chosen encoding unless a byte order mark says otherwise', async () => {
+    const latin1 = new Blob([new Uint8Array([0x63, 0x61, 0x66, 0xe9, 0x3b, 0x31])]);
+    const utf16 = new Blob([new Uint8Array([0xff, 0xfe, 0x61, 0x00, 0x09, 0x00, 0xe9, 0x00])]);
+
+    expect((await readCsvFile(latin1, { encoding: 'windows-1252' })).rows).toEqual([
+      ['café', '1'],
+    ]);
+    expect((await readCsvFile(utf16, { encoding: 'windows-1252' })).rows).toEqual([['a', 'é']]);
+  });
+});
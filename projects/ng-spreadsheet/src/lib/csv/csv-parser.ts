@@ -0,0 +1,288 @@
+/**
+ * Options for reading delimited text
+ */
+export interface CsvParseOptions {
+  /** Character between fields (default: ',') */
+  delimiter?: string;
+
+  /** Character around fields that hold delimiters, quotes or line breaks (default: '"') */
+  quote?: string;
+
+  /**
+   * Character that escapes a quote inside a quoted field. Defaults to the quote itself,
+   * so a doubled quote stands for one quote, as in RFC 4180.
+   */
+  escape?: string;
+
+  /** Keep rows without any content instead of leaving them out */
+  keepEmptyRows?: boolean;
+}
+
+/**
+ * Options for reading a CSV file in chunks
+ */
+export interface CsvReadOptions extends CsvParseOptions {
+  /**
+   * Encoding of the file, as a TextDecoder label (default: 'utf-8').
+   * A UTF-8 or UTF-16 byte order mark takes precedence.
+   */
+  encoding?: string;
+
+  /** Stop after this many rows, e.g. to show a preview */
+  maxRows?: number;
+
+  /** Bytes read and parsed at a time (default: 1 MB) */
+  chunkSize?: number;
+
+  /** Called after each chunk with the bytes read so far and the file size */
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+/**
+ * Rows read from a CSV file
+ */
+export interface CsvReadResult {
+  /** Fields of each row */
+  rows: string[][];
+
+  /** Delimiter used, as given or detected */
+  delimiter: string;
+
+  /** Whether reading stopped at `maxRows` before the end of the file */
+  truncated: boolean;
+}
+
+/** Delimiters tried when none is given, most common first */
+export const CSV_DELIMITERS = [',', '\t', ';', '|'];
+
+const BYTE_ORDER_MARK = '\uFEFF';
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+const DETECTION_ROWS = 50;
+
+/**
+ * Incremental RFC 4180 parser: text is pushed in pieces of any size (a quoted field
+ * or a CRLF may span two pieces) and complete rows come back as soon as they end.
+ * Lines end with CRLF, LF or CR. Quotes only open a quoted field at its start; elsewhere
+ * they are kept as typed, as are characters between a closing quote and the delimiter.
+ */
+export class CsvParser {
+  private readonly delimiter: string;
+  private readonly quote: string;
+  private readonly escape: string;
+  private readonly keepEmptyRows: boolean;
+
+  private row: string[] = [];
+  private field = '';
+  private fieldStarted = false;
+  private inQuotes = false;
+  // A quote or escape character inside a quoted field, whose meaning depends on the next
+  private pendingQuote = false;
+  private pendingEscape = false;
+  // A CR ended the last row; an LF right after it belongs to the same line break
+  private afterCarriageReturn = false;
+
+  constructor(options: CsvParseOptions = {}) {
+    this.delimiter = options.delimiter || ',';
+    this.quote = options.quote || '"';
+    this.escape = options.escape || this.quote;
+    this.keepEmptyRows = options.keepEmptyRows ?? false;
+  }
+
+  /**
+   * Parses the next piece of text. Returns the rows it completed.
+   */
+  push(text: string): string[][] {
+    const rows: string[][] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.afterCarriageReturn) {
+        this.afterCarriageReturn = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.pendingEscape) {
+          // Only a quote or the escape character itself can be escaped
+          this.field += char === this.quote || char === this.escape ? char : this.escape + char;
+          this.pendingEscape = false;
+        } else if (this.pendingQuote) {
+          this.pendingQuote = false;
+          if (char === this.quote) {
+            this.field += char;
+          } else {
+            this.inQuotes = false;
+            i--;
+          }
+        } else if (char === this.quote) {
+          // With the default escape, a quote may be the first half of a doubled quote
+          if (this.escape === this.quote) {
+            this.pendingQuote = true;
+          } else {
+            this.inQuotes = false;
+          }
+        } else if (char === this.escape) {
+          this.pendingEscape = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.afterCarriageReturn = char === '\r';
+        const row = this.endRow();
+        if (row) rows.push(row);
+      } else if (char === this.quote && !this.fieldStarted) {
+        this.inQuotes = true;
+        this.fieldStarted = true;
+      } else {
+        this.field += char;
+        this.fieldStarted = true;
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Ends the text. Returns the last row if it was not followed by a line break.
+   * An unclosed quoted field runs to the end of the text.
+   */
+  end(): string[][] {
+    if (this.pendingEscape) {
+      this.field += this.escape;
+    }
+    this.inQuotes = false;
+    this.pendingQuote = false;
+    this.pendingEscape = false;
+    this.afterCarriageReturn = false;
+
+    const row = this.row.length > 0 || this.fieldStarted ? this.endRow() : null;
+    return row ? [row] : [];
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = '';
+    this.fieldStarted = false;
+  }
+
+  private endRow(): string[] | null {
+    this.endField();
+    const row = this.row;
+    this.row = [];
+    const isEmpty = row.length === 1 && row[0] === '';
+    return isEmpty && !this.keepEmptyRows ? null : row;
+  }
+}
+
+/**
+ * Parses delimited text into rows of fields (see CsvParser). A byte order mark at the
+ * start is ignored.
+ */
+export function parseCsv(text: string, options: CsvParseOptions = {}): string[][] {
+  const parser = new CsvParser(options);
+  const rows = parser.push(text.startsWith(BYTE_ORDER_MARK) ? text.slice(1) : text);
+  return [...rows, ...parser.end()];
+}
+
+/**
+ * Guesses the delimiter of delimited text from a sample of its first lines: the
+ * candidate that splits the most rows into the same number of fields (more than one)
+ * wins. A last line without a line break is left out, as the sample may cut it off.
+ * Falls back to ','.
+ */
+export function detectCsvDelimiter(
+  sample: string,
+  quote = '"',
+  candidates: string[] = CSV_DELIMITERS
+): string {
+  let best = { delimiter: ',', rows: 0, fields: 1 };
+
+  for (const delimiter of candidates) {
+    const parser = new CsvParser({ delimiter, quote });
+    let rows = parser.push(sample).slice(0, DETECTION_ROWS);
+    if (rows.length === 0) {
+      rows = parser.end();
+    }
+
+    // The most common field count, and how many rows have it
+    const counts = new Map<number, number>();
+    for (const row of rows) {
+      counts.set(row.length, (counts.get(row.length) ?? 0) + 1);
+    }
+    for (const [fields, count] of counts) {
+      if (fields < 2) continue;
+      if (count > best.rows || (count === best.rows && fields > best.fields)) {
+        best = { delimiter, rows: count, fields };
+      }
+    }
+  }
+
+  return best.delimiter;
+}
+
+/**
+ * Reads a CSV file in chunks, yielding to the browser between chunks so large files do
+ * not freeze the page. The delimiter is detected from the first chunk unless given.
+ */
+export async function readCsvFile(
+  file: Blob,
+  options: CsvReadOptions = {}
+): Promise<CsvReadResult> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const maxRows = options.maxRows ?? Infinity;
+  const rows: string[][] = [];
+  let decoder: TextDecoder | null = null;
+  let parser: CsvParser | null = null;
+  let delimiter = options.delimiter ?? '';
+  let offset = 0;
+  let truncated = false;
+
+  const add = (parsed: string[][]) => {
+    for (const row of parsed) {
+      if (rows.length >= maxRows) {
+        truncated = true;
+        return;
+      }
+      rows.push(row);
+    }
+  };
+
+  while (offset < file.size && !truncated) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + chunkSize).arrayBuffer());
+    decoder ??= new TextDecoder(detectEncoding(bytes) ?? options.encoding ?? 'utf-8');
+    offset += bytes.length;
+    const text = decoder.decode(bytes, { stream: offset < file.size });
+
+    if (!parser) {
+      delimiter ||= detectCsvDelimiter(text, options.quote);
+      parser = new CsvParser({ ...options, delimiter });
+    }
+    add(parser.push(text));
+    options.onProgress?.(offset, file.size);
+
+    if (offset < file.size && !truncated) {
+      await new Promise((resolve) => setTimeout(resolve));
+    }
+  }
+
+  if (parser && !truncated) {
+    add(parser.end());
+  }
+  return { rows, delimiter: delimiter || ',', truncated };
+}
+
+/**
+ * Recognizes the encoding of text from its byte order mark, if it has one
+ */
+function detectEncoding(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+}
@@ -0,0 +1,24 @@
+import { parseCsv } from './csv-parser';
+import { formatCsv } from './csv-writer';
+
+describe('formatCsv', () => {
+  it('should quote fields that need it', () => {
+    const rows = [
+      ['Name', 'Note'],
+      ['Smith, Ana', 'said "hi"'],
+      [' padded', 'two\nlines'],
+      ['plain', ''],
+    ];
+
+    expect(formatCsv(rows)).toBe(
+      'Name,Note\r\n"Smith, Ana","said ""hi"""\r\n" padded","two\nlines"\r\nplain,'
+    );
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+
+  it('should use the given delimiter and line ending', () => {
+    expect(formatCsv([['a', 'b,c'], ['d\te', 'f']], { delimiter: '\t', lineEnding: '\n' })).toBe(
+      'a\tb,c\n"d\te"\tf'
+    );
+  });
+});
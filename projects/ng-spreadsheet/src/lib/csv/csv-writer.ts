@@ -0,0 +1,35 @@
+/**
+ * Options for writing delimited text
+ */
+export interface CsvWriteOptions {
+  /** Character between fields (default: ',') */
+  delimiter?: string;
+
+  /** Character around fields that need quoting (default: '"'), doubled inside them */
+  quote?: string;
+
+  /** Line break between rows (default: '\r\n', as in RFC 4180) */
+  lineEnding?: string;
+}
+
+/**
+ * Writes rows of fields as delimited text (the inverse of parseCsv). Fields holding the
+ * delimiter, the quote, a line break or leading or trailing spaces are quoted, with
+ * quotes inside them doubled.
+ */
+export function formatCsv(rows: string[][], options: CsvWriteOptions = {}): string {
+  const delimiter = options.delimiter || ',';
+  const quote = options.quote || '"';
+  const lineEnding = options.lineEnding ?? '\r\n';
+
+  const formatField = (field: string) => {
+    const needsQuotes =
+      field.includes(delimiter) ||
+      field.includes(quote) ||
+      /[\r\n]/.test(field) ||
+      field !== field.trim();
+    return needsQuotes ? quote + field.split(quote).join(quote + quote) + quote : field;
+  };
+
+  return rows.map((row) => row.map(formatField).join(delimiter)).join(lineEnding);
+}
@@ -0,0 +1,7 @@
+/**
+ * Public API for CSV import and export
+ */
+
+export * from './csv-parser';
+export * from './csv-columns';
+export * from './csv-writer';
@@ -0,0 +1,5 @@
+/**
+ * Public API for CSV, JSON and HTML export
+ */
+
+export * from './sheet-export';
@@ -0,0 +1,178 @@
+import { Sheet, SpreadsheetData, createEmptySheet, getSheetCell, setSheetCells } from '../models';
+import { exportSheet, exportWorkbook, getUsedRange, toBlob } from './sheet-export';
+
+describe('sheet export', () => {
+  function createSheet(): Sheet {
+    const sheet = createEmptySheet({
+      name: 'Q1/Q2',
+      rowCount: 10,
+      colCount: 5,
+      data: [
+        ['Region', 'Sales', ''],
+        ['North', 1200.5],
+        ['South, East', -30],
+      ],
+    });
+    const header = getSheetCell(sheet, 0, 0)!;
+    const north = getSheetCell(sheet, 1, 1)!;
+    const south = getSheetCell(sheet, 2, 1)!;
+    sheet.cells = setSheetCells(sheet.cells, [
+      { ...header, style: { fontWeight: 'bold', backgroundColor: '#e2efda' } },
+      { ...north, displayValue: '$1,200.50' },
+      {
+        ...south,
+        displayValue: '($30.00)',
+        style: { numberFormatPattern: '$#,##0.00;[Red]($#,##0.00)' },
+      },
+      {
+        row: 3,
+        col: 1,
+        value: '=SUM(B2:B3)',
+        computedValue: 1170.5,
+        displayValue: '1170.5',
+        dataType: 'formula',
+      },
+    ]);
+    sheet.merges = [{ start: { row: 0, col: 1 }, end: { row: 0, col: 2 } }];
+    return sheet;
+  }
+
+  it('should find the used range from A1', () => {
+    expect(getUsedRange(createSheet())).toEqual({
+      start: { row: 0, col: 0 },
+      end: { row: 3, col: 1 },
+    });
+    expect(getUsedRange(createEmptySheet())).toBeNull();
+  });
+
+  it('should export CSV and TSV with displayed or raw values', () => {
+    const sheet = createSheet();
+
+    const csv = exportSheet(sheet, { format: 'csv' });
+    expect(csv.name).toBe('Q1_Q2.csv');
+    expect(csv.type).toBe('text/csv');
+    expect(csv.content).toBe(
+      'Region,Sales\r\nNorth,"$1,200.50"\r\n"South, East",($30.00)\r\n,1170.5'
+    );
+
+    const tsv = exportSheet(sheet, {
+      format: 'tsv',
+      values: 'raw',
+      range: { start: { row: 3, col: 1 }, end: { row: 1, col: 0 } },
+      lineEnding: '\n',
+      byteOrderMark: true,
+    });
+    expect(tsv.content).toBe('\uFEFFNorth\t1200.5\nSouth, East\t-30\n\t=SUM(B2:B3)');
+  });
+
+  it('should export JSON objects keyed by the header row, or rows', () => {
+    const sheet = createSheet();
+
+    expect(JSON.parse(exportSheet(sheet, { format: 'json', values: 'raw' }).content)).toEqual([
+      { Region: 'North', Sales: 1200.5 },
+      { Region: 'South, East', Sales: -30 },
+      { Region: null, Sales: '=SUM(B2:B3)' },
+    ]);
+
+    const range = { start: { row: 0, col: 0 }, end: { row: 1, col: 2 } };
+    expect(JSON.parse(exportSheet(sheet, { format: 'json', range }).content)).toEqual([
+      { Region: 'North', Sales: '$1,200.50', C: null },
+    ]);
+    expect(
+      JSON.parse(exportSheet(sheet, { format: 'json', jsonShape: 'rows', range }).content)
+    ).toEqual([
+      ['Region', 'Sales', null],
+      ['North', '$1,200.50', null],
+    ]);
+  });
+
+  it('should export a styled HTML table', () => {
+    const { content, type } = exportSheet(createSheet(), { format: 'html' });
+
+    expect(type).toBe('text/html');
+    expect(content).toContain('<title>Q1/Q2</title>');
+    expect(content).toContain('<col style="width: 100px">');
+    expect(content).toContain(
+      '<tr style="height: 25px"><td style="font-weight: bold; background-color: #e2efda">' +
+        'Region</td><td>Sales</td></tr>'
+    );
+    expect(content).toContain('<td style="color: #FF0000">($30.00)</td>');
+    expect(content).not.toContain('<td colspan');
+
+    const merged = exportSheet(createSheet(), {
+      format: 'html',
+      range: { start: { row: 0, col: 0 }, end: { row: 0, col: 2 } },
+    });
+    expect(merged.content).toContain('<td colspan="2">Sales</td></tr>');
+  });
+
+  describe('comments', () => {
+    function createCommentedSheet(): Sheet {
+      const sheet = createSheet();
+      const comment = (id: string, author: string, text: string) => ({
+        id,
+        author,
+        text,
+        createdAt: '2024-01-15T09:00:00.000Z',
+      });
+      sheet.cells = setSheetCells(sheet.cells, [
+        {
+          ...getSheetCell(sheet, 1, 1)!,
+          comment: { ...comment('c1', 'Ana', 'Check "Q1"'), replies: [comment('c2', 'Ben', 'OK')] },
+        },
+        { row: 4, col: 0, value: null, comment: comment('c3', '', 'Outside the used range') },
+      ]);
+      return sheet;
+    }
+
+    it('should show comment threads as tooltips in HTML', () => {
+      const { content } = exportSheet(createCommentedSheet(), { format: 'html' });
+
+      expect(content).toContain('<td title="Ana: Check &quot;Q1&quot;\nBen: OK">$1,200.50</td>');
+      expect(content).not.toContain('Outside the used range');
+    });
+
+    it('should write comments into JSON only when asked for', () => {
+      const sheet = createCommentedSheet();
+      const range = { start: { row: 0, col: 0 }, end: { row: 4, col: 1 } };
+
+      expect(exportSheet(sheet, { format: 'json' }).content).not.toContain('Ana');
+
+      const json = JSON.parse(
+        exportSheet(sheet, { format: 'json', jsonShape: 'rows', comments: true, range }).content
+      );
+      expect(json.values.length).toBe(5);
+      expect(Object.keys(json.comments)).toEqual(['B2', 'A5']);
+      expect(json.comments.B2.replies[0]).toEqual(jasmine.objectContaining({ text: 'OK' }));
+
+      const data: SpreadsheetData = { sheets: [sheet], activeSheetIndex: 0 };
+      const [workbook] = exportWorkbook(data, { format: 'json', comments: true });
+      expect(Object.keys(JSON.parse(workbook.content)['Q1/Q2'].comments)).toEqual(['B2']);
+    });
+  });
+
+  it('should export every sheet of a workbook', () => {
+    const second = createEmptySheet({ name: 'Notes', rowCount: 2, colCount: 2, data: [['<b>']] });
+    const data: SpreadsheetData = { sheets: [createSheet(), second], activeSheetIndex: 0 };
+
+    expect(exportWorkbook(data, { format: 'csv' }).map((file) => file.name)).toEqual([
+      'Q1_Q2.csv',
+      'Notes.csv',
+    ]);
+
+    const [json] = exportWorkbook(data, { format: 'json', jsonShape: 'rows' });
+    expect(Object.keys(JSON.parse(json.content))).toEqual(['Q1/Q2', 'Notes']);
+
+    const [html] = exportWorkbook(data, { format: 'html' });
+    expect(html.name).toBe('workbook.html');
+    expect(html.content).toContain('<h2>Notes</h2>');
+    expect(html.content).toContain('<td>&lt;b&gt;</td>');
+  });
+
+  it('should turn a file into a Blob', async () => {
+    const blob = toBlob(exportSheet(createSheet(), { format: 'csv' }));
+
+    expect(blob.type).toBe('text/csv;charset=utf-8');
+    expect(await blob.text()).toContain('Region,Sales');
+  });
+});
@@ -0,0 +1,359 @@
+import {
+  Cell,
+  CellComment,
+  CellRange,
+  CellStyle,
+  ExportFormat,
+  ExportOptions,
+  ExportValues,
+  ExportedFile,
+  Sheet,
+  SpreadsheetData,
+  cellAddressToA1,
+  colIndexToLetter,
+  forEachSheetCell,
+  getCommentThread,
+} from '../models';
+import { formatCsv } from '../csv';
+import { formatValue, getNumberFormatPattern } from '../format';
+import { getMergeAt, normalizeRange } from '../merge';
+
+/** A value as written to a JSON export; empty cells are null */
+type ExportValue = string | number | boolean | null;
+
+/** The values of a sheet as written to a JSON export: rows, or objects keyed by the header row */
+type JsonValues = ExportValue[][] | Record<string, ExportValue>[];
+
+/** A sheet as written to a JSON export: its values, with its comments when asked for */
+type JsonSheet = JsonValues | { values: JsonValues; comments: Record<string, CellComment> };
+
+const MEDIA_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json',
+  html: 'text/html',
+};
+
+/** CSS properties written for the cell style properties of the same name */
+const CSS_PROPERTIES: Partial<Record<keyof CellStyle, string>> = {
+  fontFamily: 'font-family',
+  fontSize: 'font-size',
+  fontWeight: 'font-weight',
+  fontStyle: 'font-style',
+  textDecoration: 'text-decoration',
+  color: 'color',
+  backgroundColor: 'background-color',
+  textAlign: 'text-align',
+  verticalAlign: 'vertical-align',
+  whiteSpace: 'white-space',
+  padding: 'padding',
+  border: 'border',
+  borderTop: 'border-top',
+  borderRight: 'border-right',
+  borderBottom: 'border-bottom',
+  borderLeft: 'border-left',
+};
+
+const BYTE_ORDER_MARK = '\uFEFF';
+
+/**
+ * Gets the range from A1 to the last row and column holding a value, or null when the
+ * sheet is empty
+ */
+export function getUsedRange(sheet: Sheet): CellRange | null {
+  let lastRow = -1;
+  let lastCol = -1;
+  forEachSheetCell(sheet.cells, (cell, row, col) => {
+    if (isEmpty(cell)) return;
+    lastRow = Math.max(lastRow, row);
+    lastCol = Math.max(lastCol, col);
+  });
+  return lastRow < 0 ? null : { start: { row: 0, col: 0 }, end: { row: lastRow, col: lastCol } };
+}
+
+/**
+ * Exports a sheet, or the range of it given in the options, as a CSV, TSV, JSON or
+ * HTML file named after the sheet
+ */
+export function exportSheet(sheet: Sheet, options: ExportOptions): ExportedFile {
+  const range = options.range ? clampRange(sheet, options.range) : getUsedRange(sheet);
+  const format = options.format;
+
+  let content: string;
+  if (format === 'json') {
+    content = JSON.stringify(toJson(sheet, range, options), null, 2);
+  } else if (format === 'html') {
+    content = toHtmlDocument(sheet.name, toHtmlTable(sheet, range, options.values));
+  } else {
+    content = toDelimitedText(sheet, range, options);
+  }
+
+  return { name: `${toFileName(sheet.name)}.${format}`, type: MEDIA_TYPES[format], content };
+}
+
+/**
+ * Exports every sheet of a workbook: one file per sheet for CSV and TSV, which hold a
+ * single table, and one file for JSON (an object keyed by sheet name) and HTML (a table
+ * per sheet). Each sheet is exported from A1 to its last value.
+ */
+export function exportWorkbook(data: SpreadsheetData, options: ExportOptions): ExportedFile[] {
+  const format = options.format;
+  const sheetOptions = { ...options, range: undefined };
+
+  if (format === 'csv' || format === 'tsv') {
+    return data.sheets.map((sheet) => exportSheet(sheet, sheetOptions));
+  }
+
+  let content: string;
+  if (format === 'json') {
+    const sheets = Object.fromEntries(
+      data.sheets.map((sheet) => [sheet.name, toJson(sheet, getUsedRange(sheet), options)])
+    );
+    content = JSON.stringify(sheets, null, 2);
+  } else {
+    const tables = data.sheets.map(
+      (sheet) =>
+        `<h2>${escapeHtml(sheet.name)}</h2>\n` +
+        toHtmlTable(sheet, getUsedRange(sheet), options.values)
+    );
+    content = toHtmlDocument(data.metadata?.title ?? 'Workbook', tables.join('\n'));
+  }
+
+  return [{ name: `workbook.${format}`, type: MEDIA_TYPES[format], content }];
+}
+
+/**
+ * Turns an exported file into a Blob, e.g. to download or upload it
+ */
+export function toBlob(file: ExportedFile): Blob {
+  return new Blob([file.content], { type: `${file.type};charset=utf-8` });
+}
+
+/**
+ * Writes the cells of a range as CSV or TSV
+ */
+function toDelimitedText(sheet: Sheet, range: CellRange | null, options: ExportOptions): string {
+  const rows = getRows(sheet, range, options.values).map((row) =>
+    row.map((value) => (value === null ? '' : String(value)))
+  );
+  const text = formatCsv(rows, {
+    delimiter: options.format === 'tsv' ? '\t' : ',',
+    lineEnding: options.lineEnding,
+  });
+  return options.byteOrderMark ? BYTE_ORDER_MARK + text : text;
+}
+
+/**
+ * Writes a range as JSON values, together with the comments of its cells when the
+ * options ask for them
+ */
+function toJson(sheet: Sheet, range: CellRange | null, options: ExportOptions): JsonSheet {
+  const values = toJsonValues(sheet, range, options);
+  return options.comments ? { values, comments: getComments(sheet, range) } : values;
+}
+
+/**
+ * Writes the cells of a range as rows of values, or as objects keyed by the header row
+ * (blank headers become column letters and repeated ones get a _2, _3... suffix).
+ * Rows without any value are left out of the objects.
+ */
+function toJsonValues(sheet: Sheet, range: CellRange | null, options: ExportOptions): JsonValues {
+  const rows = getRows(sheet, range, options.values);
+  if (options.jsonShape === 'rows' || !range) return rows;
+
+  const keys: string[] = [];
+  getRows(sheet, range, 'display')[0].forEach((header, i) => {
+    const base = String(header ?? '').trim() || colIndexToLetter(range.start.col + i);
+    let key = base;
+    for (let n = 2; keys.includes(key); n++) {
+      key = `${base}_${n}`;
+    }
+    keys.push(key);
+  });
+
+  return rows
+    .slice(1)
+    .filter((row) => row.some((value) => value !== null))
+    .map((row) => Object.fromEntries(keys.map((key, i) => [key, row[i]])));
+}
+
+/**
+ * Gets the comment threads of the cells in a range, keyed by cell address
+ */
+function getComments(sheet: Sheet, range: CellRange | null): Record<string, CellComment> {
+  const comments: Record<string, CellComment> = {};
+  if (!range) return comments;
+
+  for (let row = range.start.row; row <= range.end.row; row++) {
+    for (let col = range.start.col; col <= range.end.col; col++) {
+      const comment = sheet.cells[row]?.[col]?.comment;
+      if (comment) comments[cellAddressToA1({ row, col })] = comment;
+    }
+  }
+  return comments;
+}
+
+/**
+ * Writes the cells of a range as an HTML table with their styles, column widths, row
+ * heights, merged cells and comments (as tooltips)
+ */
+function toHtmlTable(sheet: Sheet, range: CellRange | null, values?: ExportValues): string {
+  if (!range) return '<table></table>';
+
+  const { start, end } = range;
+  const lines = ['<table style="border-collapse: collapse">', '<colgroup>'];
+  for (let col = start.col; col <= end.col; col++) {
+    const width = sheet.columnWidths?.[col] ?? sheet.defaultColumnWidth ?? 100;
+    lines.push(`<col style="width: ${width}px">`);
+  }
+  lines.push('</colgroup>', '<tbody>');
+
+  for (let row = start.row; row <= end.row; row++) {
+    const height = sheet.rowHeights?.[row] ?? sheet.defaultRowHeight ?? 25;
+    let html = `<tr style="height: ${height}px">`;
+
+    for (let col = start.col; col <= end.col; col++) {
+      const merge = getMergeAt(sheet.merges, row, col);
+      const first = merge && {
+        row: Math.max(merge.start.row, start.row),
+        col: Math.max(merge.start.col, start.col),
+      };
+      // Cells covered by a merged cell are part of its first cell
+      if (first && (first.row !== row || first.col !== col)) continue;
+
+      const cell = sheet.cells[row]?.[col];
+      let attributes = '';
+      if (merge) {
+        const rowSpan = Math.min(merge.end.row, end.row) - row + 1;
+        const colSpan = Math.min(merge.end.col, end.col) - col + 1;
+        if (rowSpan > 1) attributes += ` rowspan="${rowSpan}"`;
+        if (colSpan > 1) attributes += ` colspan="${colSpan}"`;
+      }
+      const css = toCss(cell, values);
+      if (css) attributes += ` style="${escapeHtml(css)}"`;
+      if (cell?.comment) attributes += ` title="${escapeHtml(toCommentText(cell.comment))}"`;
+
+      const value = getValue(cell, values);
+      const text = escapeHtml(value === null ? '' : String(value)).replace(/\r?\n/g, '<br>');
+      html += `<td${attributes}>${text}</td>`;
+    }
+    lines.push(`${html}</tr>`);
+  }
+
+  lines.push('</tbody>', '</table>');
+  return lines.join('\n');
+}
+
+/**
+ * Wraps exported tables in an HTML document
+ */
+function toHtmlDocument(title: string, body: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+/**
+ * Writes the style of a cell as CSS. Displayed values also take the color of their
+ * number format section ([Red]).
+ */
+function toCss(cell: Cell | undefined, values?: ExportValues): string {
+  if (!cell?.style) return '';
+  const style = cell.style;
+
+  const declarations = new Map<string, string>();
+  for (const [key, property] of Object.entries(CSS_PROPERTIES)) {
+    const value = style[key as keyof CellStyle];
+    if (value !== undefined && value !== '') {
+      declarations.set(property, String(value));
+    }
+  }
+
+  const pattern = getNumberFormatPattern(style);
+  const value = cell.dataType === 'formula' ? cell.computedValue : cell.value;
+  if (values !== 'raw' && typeof value === 'number' && pattern.includes('[')) {
+    const color = formatValue(value, pattern).color;
+    if (color) declarations.set('color', color);
+  }
+
+  return [...declarations].map(([property, value]) => `${property}: ${value}`).join('; ');
+}
+
+/**
+ * Writes a comment thread as plain text, one 'Author: text' line per comment
+ */
+function toCommentText(comment: CellComment): string {
+  return getCommentThread(comment)
+    .map((entry) => (entry.author ? `${entry.author}: ${entry.text}` : entry.text))
+    .join('\n');
+}
+
+/**
+ * Gets the values of the cells in a range, row by row
+ */
+function getRows(sheet: Sheet, range: CellRange | null, values?: ExportValues): ExportValue[][] {
+  if (!range) return [];
+
+  const rows: ExportValue[][] = [];
+  for (let row = range.start.row; row <= range.end.row; row++) {
+    const rowValues: ExportValue[] = [];
+    for (let col = range.start.col; col <= range.end.col; col++) {
+      rowValues.push(getValue(sheet.cells[row]?.[col], values));
+    }
+    rows.push(rowValues);
+  }
+  return rows;
+}
+
+/**
+ * Gets the displayed text or the raw value of a cell, or null when it is empty
+ */
+function getValue(cell: Cell | undefined, values: ExportValues = 'display'): ExportValue {
+  if (!cell || isEmpty(cell)) return null;
+  if (values === 'raw') {
+    return cell.value instanceof Date ? cell.value.toISOString() : cell.value;
+  }
+  return cell.displayValue ?? String(cell.value);
+}
+
+function isEmpty(cell: Cell): boolean {
+  return cell.value === '' || cell.value === null || cell.value === undefined;
+}
+
+/**
+ * Normalizes a range and keeps it within the sheet
+ */
+function clampRange(sheet: Sheet, range: CellRange): CellRange {
+  const { start, end } = normalizeRange(range);
+  return {
+    start,
+    end: {
+      row: Math.min(end.row, sheet.rowCount - 1),
+      col: Math.min(end.col, sheet.colCount - 1),
+    },
+  };
+}
+
+/**
+ * Replaces characters file systems do not allow in file names
+ */
+function toFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, '_');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
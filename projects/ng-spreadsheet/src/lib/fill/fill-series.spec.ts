@@ -0,0 +1,57 @@
+import { extendSeries, getDefaultFillMode } from './fill-series';
+
+describe('Fill Series', () => {
+  describe('getDefaultFillMode', () => {
+    it('should copy a single number and extend everything else', () => {
+      expect(getDefaultFillMode([5])).toBe('copy');
+      expect(getDefaultFillMode(['5'])).toBe('copy');
+      expect(getDefaultFillMode([1, 2])).toBe('series');
+      expect(getDefaultFillMode(['Item 1'])).toBe('series');
+    });
+  });
+
+  describe('extendSeries', () => {
+    it('should continue linear numeric sequences', () => {
+      expect(extendSeries([1, 2, 3], 3)).toEqual([4, 5, 6]);
+      expect(extendSeries([10, 20], 2)).toEqual([30, 40]);
+      expect(extendSeries(['0.1', '0.2'], 2)).toEqual(['0.3', '0.4']);
+    });
+
+    it('should step a single number by one in series mode', () => {
+      expect(extendSeries([7], 2)).toEqual([8, 9]);
+    });
+
+    it('should continue backwards when filling up or left', () => {
+      expect(extendSeries([3, 4], 3, true)).toEqual([2, 1, 0]);
+      expect(extendSeries(['Mon'], 2, true)).toEqual(['Sun', 'Sat']);
+    });
+
+    it('should step dates by day, month or year', () => {
+      expect(extendSeries(['2024-01-30'], 3)).toEqual(['2024-01-31', '2024-02-01', '2024-02-02']);
+      expect(extendSeries(['2023-10-31', '2023-12-31'], 1)).toEqual(['2024-02-29']);
+      expect(extendSeries(['1/15/2024', '2/15/2024'], 2)).toEqual(['3/15/2024', '4/15/2024']);
+      expect(extendSeries(['2020-06-01', '2021-06-01'], 1)).toEqual(['2022-06-01']);
+    });
+
+    it('should continue weekday and month names in the same style', () => {
+      expect(extendSeries(['Friday'], 3)).toEqual(['Saturday', 'Sunday', 'Monday']);
+      expect(extendSeries(['JAN', 'MAR'], 2)).toEqual(['MAY', 'JUL']);
+      expect(extendSeries(['nov'], 2)).toEqual(['dec', 'jan']);
+    });
+
+    it('should increment the number at the end of text', () => {
+      expect(extendSeries(['Item 1'], 2)).toEqual(['Item 2', 'Item 3']);
+      expect(extendSeries(['Q01', 'Q03'], 2)).toEqual(['Q05', 'Q07']);
+    });
+
+    it('should repeat values that do not form a series', () => {
+      expect(extendSeries(['a', 'b'], 3)).toEqual(['a', 'b', 'a']);
+      expect(extendSeries(['=A1', 2], 2)).toEqual(['=A1', 2]);
+    });
+
+    it('should repeat values in copy mode', () => {
+      expect(extendSeries([1, 2], 3, false, 'copy')).toEqual([1, 2, 1]);
+      expect(extendSeries([1, 2], 3, true, 'copy')).toEqual([2, 1, 2]);
+    });
+  });
+});
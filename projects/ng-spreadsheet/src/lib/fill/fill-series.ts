@@ -0,0 +1,305 @@
+/**
+ * How the fill handle extends a selection:
+ * 'series' continues detected sequences, 'copy' repeats the source cells
+ */
+export type FillMode = 'series' | 'copy';
+
+/**
+ * Direction in which the fill handle was dragged
+ */
+export type FillDirection = 'down' | 'up' | 'right' | 'left';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const NUMERIC_PATTERN = /^\s*-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+const US_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const NUMBERED_TEXT_PATTERN = /^(.*?)(\d+)$/;
+
+/**
+ * A detected sequence: produces the value at any position, where positions
+ * 0..n-1 are the source cells and positions outside continue the series.
+ */
+type Series = (position: number) => string | number | Date;
+
+/**
+ * Returns the mode the fill handle uses without a modifier key.
+ * Like Excel, a single number is copied and everything else is treated as a series.
+ */
+export function getDefaultFillMode(values: unknown[]): FillMode {
+  return values.length === 1 && toNumber(values[0]) !== null ? 'copy' : 'series';
+}
+
+/**
+ * Extends a row or column of source values by `count` cells.
+ * Values are returned in fill order, nearest to the source first; when `backwards`
+ * is set (filling up or left) the series is continued before its first value.
+ *
+ * In series mode, linear numbers, dates (by day, month or year), weekday and month
+ * names and text with a numeric suffix ("Item 1") are continued. Anything else, and
+ * every value in copy mode, repeats the source cells in order. Formulas are returned
+ * unchanged; callers shift their references by the distance to the copied cell.
+ */
+export function extendSeries(
+  values: unknown[],
+  count: number,
+  backwards = false,
+  mode: FillMode = 'series'
+): unknown[] {
+  const n = values.length;
+  const series = mode === 'series' ? detectSeries(values) : null;
+  const result: unknown[] = [];
+
+  for (let i = 1; i <= count; i++) {
+    const position = backwards ? -i : n - 1 + i;
+    result.push(series ? series(position) : values[getSourceIndex(position, n)]);
+  }
+
+  return result;
+}
+
+/**
+ * Maps a position outside the source to the source cell it repeats
+ */
+export function getSourceIndex(position: number, length: number): number {
+  return ((position % length) + length) % length;
+}
+
+/**
+ * Detects the sequence formed by the source values, or null if they should be copied
+ */
+function detectSeries(values: unknown[]): Series | null {
+  if (values.length === 0) return null;
+  if (values.some((value) => typeof value === 'string' && value.startsWith('='))) {
+    return null;
+  }
+
+  return (
+    detectNumberSeries(values) ??
+    detectDateSeries(values) ??
+    detectNameSeries(values, WEEKDAYS) ??
+    detectNameSeries(values, MONTHS) ??
+    detectNumberedTextSeries(values)
+  );
+}
+
+/**
+ * Linear numeric series (1, 2, 3 or 10, 20), fitted by least squares as Excel does
+ */
+function detectNumberSeries(values: unknown[]): Series | null {
+  const numbers = values.map(toNumber);
+  if (numbers.some((value) => value === null)) return null;
+
+  const trend = fitLinearTrend(numbers as number[]);
+  const asText = values.every((value) => typeof value === 'string');
+  return (position) => {
+    const value = roundPrecision(trend.start + trend.step * position);
+    return asText ? String(value) : value;
+  };
+}
+
+/**
+ * Dates stepping by a whole number of days, months or years.
+ * A single date steps by one day.
+ */
+function detectDateSeries(values: unknown[]): Series | null {
+  const dates = values.map(toDate);
+  if (dates.some((date) => date === null)) return null;
+
+  const [first, ...rest] = dates as Date[];
+  const format = (date: Date) => formatDateLike(values[0], date);
+
+  const monthDelta = (date: Date) =>
+    (date.getFullYear() - first.getFullYear()) * 12 + (date.getMonth() - first.getMonth());
+  const sameDay = rest.every((date) => date.getDate() === first.getDate());
+
+  if (rest.length > 0 && sameDay && monthDelta(rest[0]) !== 0) {
+    const step = monthDelta(rest[0]);
+    if (rest.every((date, i) => monthDelta(date) === step * (i + 1))) {
+      return (position) => format(addMonths(first, step * position));
+    }
+  }
+
+  const dayDelta = (date: Date) => Math.round((date.getTime() - first.getTime()) / 86400000);
+  const step = rest.length > 0 ? dayDelta(rest[0]) : 1;
+  if (!rest.every((date, i) => dayDelta(date) === step * (i + 1))) return null;
+
+  return (position) => format(addDays(first, step * position));
+}
+
+/**
+ * Weekday or month names (Mon, Tuesday, JAN), keeping the case and length of the first value
+ */
+function detectNameSeries(values: unknown[], names: string[]): Series | null {
+  if (!values.every(isString)) return null;
+
+  const indices = values.map((value) => findName(value, names));
+  if (indices.some((index) => index < 0)) return null;
+
+  const step = indices.length > 1 ? getSourceIndex(indices[1] - indices[0], names.length) : 1;
+  if (!indices.every((index, i) => index === getSourceIndex(indices[0] + step * i, names.length))) {
+    return null;
+  }
+
+  const sample = values[0];
+  const short = sample.trim().length === 3;
+  return (position) => {
+    const name = names[getSourceIndex(indices[0] + step * position, names.length)];
+    return matchCase(short ? name.substring(0, 3) : name, sample.trim());
+  };
+}
+
+/**
+ * Text ending in a number ("Item 1", "Q01") where only the number changes.
+ * Zero padding is preserved and negative positions count back through zero.
+ */
+function detectNumberedTextSeries(values: unknown[]): Series | null {
+  if (!values.every(isString)) return null;
+
+  const matches = values.map((value) => value.match(NUMBERED_TEXT_PATTERN));
+  if (matches.some((match) => !match)) return null;
+
+  const prefix = matches[0]![1];
+  if (!matches.every((match) => match![1] === prefix)) return null;
+
+  const width = matches[0]![2].length;
+  const trend = fitLinearTrend(matches.map((match) => parseInt(match![2], 10)));
+  const step = values.length > 1 ? trend.step : 1;
+  if (!Number.isInteger(step)) return null;
+
+  return (position) => {
+    const value = Math.abs(Math.round(trend.start + step * position));
+    return prefix + String(value).padStart(width, '0');
+  };
+}
+
+/**
+ * Least-squares line through (0, v0), (1, v1), ...; a single value steps by one
+ */
+function fitLinearTrend(values: number[]): { start: number; step: number } {
+  const n = values.length;
+  if (n === 1) return { start: values[0], step: 1 };
+
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, x) => {
+    numerator += (x - meanX) * (value - meanY);
+    denominator += (x - meanX) * (x - meanX);
+  });
+
+  const step = roundPrecision(numerator / denominator);
+  return { start: roundPrecision(meanY - step * meanX), step };
+}
+
+/**
+ * Removes floating point noise (0.1 + 0.2 → 0.3)
+ */
+function roundPrecision(value: number): number {
+  return parseFloat(value.toPrecision(12));
+}
+
+/**
+ * Checks whether a value is text
+ */
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+/**
+ * Reads a number or numeric text, or returns null
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && NUMERIC_PATTERN.test(value)) return parseFloat(value);
+  return null;
+}
+
+/**
+ * Reads a Date or date text (2024-01-31, 1/31/2024), or returns null
+ */
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string') return null;
+
+  const iso = value.match(ISO_DATE_PATTERN);
+  if (iso) return validDate(+iso[1], +iso[2], +iso[3]);
+
+  const us = value.match(US_DATE_PATTERN);
+  if (us) return validDate(+us[3], +us[1], +us[2]);
+
+  return null;
+}
+
+/**
+ * Builds a local date, rejecting overflowing days such as 2/30
+ */
+function validDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+/**
+ * Formats a date the same way as the source value it was derived from
+ */
+function formatDateLike(sample: unknown, date: Date): Date | string {
+  if (sample instanceof Date) return date;
+
+  const year = date.getFullYear();
+  const month = date.getMonth() + 1;
+  const day = date.getDate();
+  if (typeof sample === 'string' && ISO_DATE_PATTERN.test(sample)) {
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * Adds whole days to a date
+ */
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Adds months, clamping to the end of shorter months (Jan 31 + 1 month → Feb 28/29)
+ */
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  return new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay));
+}
+
+/**
+ * Finds a full or three-letter name in a list, ignoring case. Returns -1 if not found.
+ */
+function findName(value: string, names: string[]): number {
+  const lower = value.trim().toLowerCase();
+  return names.findIndex(
+    (name) => name === lower || (lower.length === 3 && name.startsWith(lower))
+  );
+}
+
+/**
+ * Applies the capitalization of the sample (MON, mon, Mon) to a name
+ */
+function matchCase(name: string, sample: string): string {
+  if (sample === sample.toUpperCase()) return name.toUpperCase();
+  if (sample === sample.toLowerCase()) return name;
+  return name[0].toUpperCase() + name.substring(1);
+}
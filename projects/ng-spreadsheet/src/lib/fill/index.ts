@@ -0,0 +1,5 @@
+/**
+ * Public API for fill handle series detection
+ */
+
+export * from './fill-series';
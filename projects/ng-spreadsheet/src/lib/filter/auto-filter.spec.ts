@@ -0,0 +1,189 @@
+import { AutoFilter, Cell, Sheet, createEmptySheet, getSheetCell, setSheetCells } from '../models';
+import {
+  createColumnPredicate,
+  getColumnFilterColors,
+  getColumnFilterValues,
+  getFilteredRows,
+} from './auto-filter';
+import { setCells } from '../../testing/spec-helpers';
+
+describe('AutoFilter', () => {
+  let sheet: Sheet;
+
+  // Region | Sales, with a header row
+  const rows: [string, number | null][] = [
+    ['North', 120],
+    ['South', 80],
+    ['north', 200],
+    ['East', null],
+    ['', 50],
+  ];
+
+  const filterWith = (columns: AutoFilter['columns']): AutoFilter => ({
+    range: { start: { row: 0, col: 0 }, end: { row: rows.length, col: 1 } },
+    columns,
+  });
+
+  beforeEach(() => {
+    sheet = createEmptySheet({ rowCount: 10, colCount: 3 });
+    const cells: Cell[] = [
+      { row: 0, col: 0, value: 'Region', displayValue: 'Region' },
+      { row: 0, col: 1, value: 'Sales', displayValue: 'Sales' },
+    ];
+    rows.forEach(([region, sales], index) => {
+      const row = index + 1;
+      cells.push({ row, col: 0, value: region, displayValue: region });
+      cells.push(
+        sales === null
+          ? { row, col: 1, value: null }
+          : { row, col: 1, value: sales, displayValue: String(sales), dataType: 'number' }
+      );
+    });
+    sheet.cells = setSheetCells(sheet.cells, cells);
+  });
+
+  const cellAt = (row: number, col: number) => getSheetCell(sheet, row, col)!;
+
+  describe('getFilteredRows', () => {
+    it('should hide rows whose text is not checked, ignoring case', () => {
+      const autoFilter = filterWith({ 0: { type: 'values', values: ['North'] } });
+      expect(getFilteredRows(sheet, autoFilter)).toEqual([2, 4, 5]);
+    });
+
+    it('should match blanks with an empty value', () => {
+      const autoFilter = filterWith({ 0: { type: 'values', values: [''] } });
+      expect(getFilteredRows(sheet, autoFilter)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should combine the criteria of several columns', () => {
+      const hidden = getFilteredRows(
+        sheet,
+        filterWith({
+          0: { type: 'values', values: ['north', 'south'] },
+          1: { type: 'condition', conditions: [{ operator: 'greaterThan', value: 100 }] },
+        })
+      );
+      expect(hidden).toEqual([2, 4, 5]);
+    });
+
+    it('should only look at rows below the header', () => {
+      const autoFilter = filterWith({ 0: { type: 'values', values: ['South'] } });
+      autoFilter.range.end.row = 2;
+      expect(getFilteredRows(sheet, autoFilter)).toEqual([1]);
+    });
+  });
+
+  describe('createColumnPredicate', () => {
+    const columnCells = (col: number) => rows.map((_, index) => cellAt(index + 1, col));
+    const column = () => columnCells(1);
+    const matches = (predicate: (cell: Cell) => boolean) => column().map(predicate);
+
+    it('should apply text conditions', () => {
+      const region = columnCells(0);
+      const beginsWith = createColumnPredicate(
+        { type: 'condition', conditions: [{ operator: 'beginsWith', value: 'NO' }] },
+        region
+      );
+      expect(region.map(beginsWith)).toEqual([true, false, true, false, false]);
+
+      const either = createColumnPredicate(
+        {
+          type: 'condition',
+          conditions: [
+            { operator: 'endsWith', value: 'th' },
+            { operator: 'contains', value: 'as' },
+          ],
+          join: 'or',
+        },
+        region
+      );
+      expect(region.map(either)).toEqual([true, true, true, true, false]);
+    });
+
+    it('should compare numbers and skip text and blanks', () => {
+      const between = createColumnPredicate(
+        { type: 'condition', conditions: [{ operator: 'between', value: '80', value2: 120 }] },
+        column()
+      );
+      expect(matches(between)).toEqual([true, true, false, false, false]);
+    });
+
+    it('should compare dates by their serial number', () => {
+      setCells(sheet, { row: 1, col: 1, value: 46082, dataType: 'date' });
+      const after = createColumnPredicate(
+        {
+          type: 'condition',
+          conditions: [{ operator: 'greaterThanOrEqual', value: '2026-03-01' }],
+        },
+        column()
+      );
+      expect(after(cellAt(1, 1))).toBeTrue();
+      expect(after(cellAt(2, 1))).toBeFalse();
+    });
+
+    it('should keep the top and bottom values', () => {
+      const top2 = createColumnPredicate({ type: 'top', count: 2 }, column());
+      expect(matches(top2)).toEqual([true, false, true, false, false]);
+
+      const bottom = createColumnPredicate(
+        { type: 'top', count: 25, bottom: true, percent: true },
+        column()
+      );
+      expect(matches(bottom)).toEqual([false, false, false, false, true]);
+    });
+
+    it('should compare with the column average', () => {
+      // Average of 120, 80, 200 and 50 is 112.5
+      const above = createColumnPredicate({ type: 'average' }, column());
+      expect(matches(above)).toEqual([true, false, true, false, false]);
+
+      const below = createColumnPredicate({ type: 'average', below: true }, column());
+      expect(matches(below)).toEqual([false, true, false, false, true]);
+    });
+
+    it('should match fill and font colors', () => {
+      setCells(
+        sheet,
+        { ...cellAt(1, 1), style: { backgroundColor: '#FFFF00' } },
+        { ...cellAt(2, 1), style: { color: '#ff0000' } }
+      );
+
+      const fill = createColumnPredicate({ type: 'color', color: '#ffff00' }, column());
+      expect(matches(fill)).toEqual([true, false, false, false, false]);
+
+      const font = createColumnPredicate(
+        { type: 'color', color: '#FF0000', target: 'font' },
+        column()
+      );
+      expect(matches(font)).toEqual([false, true, false, false, false]);
+    });
+  });
+
+  describe('getColumnFilterValues', () => {
+    it('should list distinct values with numbers first and blanks last', () => {
+      const autoFilter = filterWith({});
+      expect(getColumnFilterValues(sheet, autoFilter, 0)).toEqual(['East', 'North', 'South', '']);
+      expect(getColumnFilterValues(sheet, autoFilter, 1)).toEqual(['50', '80', '120', '200', '']);
+    });
+
+    it('should only list values of rows shown by the other columns', () => {
+      const autoFilter = filterWith({ 0: { type: 'values', values: ['North'] } });
+      expect(getColumnFilterValues(sheet, autoFilter, 1)).toEqual(['120', '200']);
+      expect(getColumnFilterValues(sheet, autoFilter, 0).length).toBe(4);
+    });
+  });
+
+  describe('getColumnFilterColors', () => {
+    it('should list the distinct colors of a column', () => {
+      setCells(
+        sheet,
+        { ...cellAt(1, 1), style: { backgroundColor: '#FFFF00' } },
+        { ...cellAt(2, 1), style: { backgroundColor: '#ffff00' } },
+        { ...cellAt(3, 1), style: { backgroundColor: '#00ff00' } }
+      );
+
+      expect(getColumnFilterColors(sheet, filterWith({}), 1)).toEqual(['#FFFF00', '#00ff00']);
+      expect(getColumnFilterColors(sheet, filterWith({}), 1, 'font')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { AutoFilter, Cell, ColumnFilter, FilterCondition, Sheet } from '../models';
+import { parseDateInput } from '../format';
+
+const NUMERIC_PATTERN = /^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/;
+
+/**
+ * Tests whether a cell of a filtered column passes the column's criteria
+ */
+export type CellPredicate = (cell: Cell | undefined) => boolean;
+
+/**
+ * Returns the text a cell shows, as listed in a filter checklist ('' for blanks)
+ */
+export function getFilterText(cell: Cell | undefined): string {
+  if (!cell) return '';
+  return (cell.displayValue ?? String(cell.value ?? '')).trim();
+}
+
+/**
+ * Returns the number a cell holds (dates as serial numbers), or null for text and blanks
+ */
+export function getFilterNumber(cell: Cell | undefined): number | null {
+  if (!cell || cell.dataType === 'error') return null;
+
+  const value =
+    typeof cell.value === 'string' && cell.value.startsWith('=') ? cell.computedValue : cell.value;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && NUMERIC_PATTERN.test(value)) return parseFloat(value);
+  return null;
+}
+
+/**
+ * Builds the test for one column's criteria. `columnCells` are the column's data cells,
+ * used by criteria that depend on the whole column (top 10, above average).
+ */
+export function createColumnPredicate(
+  filter: ColumnFilter,
+  columnCells: (Cell | undefined)[]
+): CellPredicate {
+  switch (filter.type) {
+    case 'values': {
+      const values = new Set(filter.values.map((value) => value.toLowerCase()));
+      return (cell) => values.has(getFilterText(cell).toLowerCase());
+    }
+
+    case 'condition': {
+      const tests = filter.conditions.map((condition) => createConditionTest(condition));
+      if (tests.length === 0) return () => true;
+      return filter.join === 'or'
+        ? (cell) => tests.some((test) => test(cell))
+        : (cell) => tests.every((test) => test(cell));
+    }
+
+    case 'top': {
+      const numbers = getColumnNumbers(columnCells).sort((a, b) =>
+        filter.bottom ? a - b : b - a
+      );
+      const count = filter.percent
+        ? Math.ceil((numbers.length * filter.count) / 100)
+        : Math.floor(filter.count);
+      if (count <= 0 || numbers.length === 0) return () => false;
+
+      const threshold = numbers[Math.min(count, numbers.length) - 1];
+      return (cell) => {
+        const number = getFilterNumber(cell);
+        if (number === null) return false;
+        return filter.bottom ? number <= threshold : number >= threshold;
+      };
+    }
+
+    case 'average': {
+      const numbers = getColumnNumbers(columnCells);
+      if (numbers.length === 0) return () => false;
+
+      const average = numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+      return (cell) => {
+        const number = getFilterNumber(cell);
+        if (number === null) return false;
+        return filter.below ? number < average : number > average;
+      };
+    }
+
+    case 'color': {
+      const color = filter.color.toLowerCase();
+      return (cell) => {
+        const cellColor =
+          filter.target === 'font' ? cell?.style?.color : cell?.style?.backgroundColor;
+        return (cellColor ?? '').toLowerCase() === color;
+      };
+    }
+  }
+}
+
+/**
+ * Returns the data rows of an AutoFilter (the rows below its header) that fail the
+ * criteria of any column, in ascending order
+ */
+export function getFilteredRows(sheet: Sheet, autoFilter: AutoFilter): number[] {
+  const predicates = createPredicates(sheet, autoFilter);
+  const hidden: number[] = [];
+
+  forEachDataRow(sheet, autoFilter, (row) => {
+    if (predicates.some(({ col, test }) => !test(sheet.cells[row]?.[col]))) {
+      hidden.push(row);
+    }
+  });
+  return hidden;
+}
+
+/**
+ * Lists the distinct values of a column for its filter checklist, sorted with numbers
+ * and dates first (by value) and blanks ('') last. Only rows shown by the other columns'
+ * criteria are included, as in Excel.
+ */
+export function getColumnFilterValues(sheet: Sheet, autoFilter: AutoFilter, col: number): string[] {
+  const predicates = createPredicates(sheet, autoFilter).filter((entry) => entry.col !== col);
+  const values = new Map<string, { text: string; number: number | null }>();
+
+  forEachDataRow(sheet, autoFilter, (row) => {
+    const cells = sheet.cells[row];
+    if (predicates.some(({ col: other, test }) => !test(cells?.[other]))) return;
+
+    const cell = cells?.[col];
+    const text = getFilterText(cell);
+    const key = text.toLowerCase();
+    if (!values.has(key)) {
+      values.set(key, { text, number: getFilterNumber(cell) });
+    }
+  });
+
+  return [...values.values()]
+    .sort((a, b) => {
+      if (a.text === '' || b.text === '') return a.text === '' ? 1 : -1;
+      if (a.number !== null && b.number !== null) return a.number - b.number;
+      if (a.number !== null || b.number !== null) return a.number !== null ? -1 : 1;
+      return a.text.localeCompare(b.text, undefined, { sensitivity: 'base' });
+    })
+    .map((entry) => entry.text);
+}
+
+/**
+ * Lists the distinct fill (or font) colors used in the data rows of a column,
+ * for filtering by color
+ */
+export function getColumnFilterColors(
+  sheet: Sheet,
+  autoFilter: AutoFilter,
+  col: number,
+  target: 'fill' | 'font' = 'fill'
+): string[] {
+  const colors = new Map<string, string>();
+
+  forEachDataRow(sheet, autoFilter, (row) => {
+    const style = sheet.cells[row]?.[col]?.style;
+    const color = target === 'font' ? style?.color : style?.backgroundColor;
+    if (color && !colors.has(color.toLowerCase())) {
+      colors.set(color.toLowerCase(), color);
+    }
+  });
+  return [...colors.values()];
+}
+
+/**
+ * Builds the tests of every filtered column
+ */
+function createPredicates(
+  sheet: Sheet,
+  autoFilter: AutoFilter
+): { col: number; test: CellPredicate }[] {
+  return Object.entries(autoFilter.columns).map(([key, filter]) => {
+    const col = Number(key);
+    const columnCells: (Cell | undefined)[] = [];
+    forEachDataRow(sheet, autoFilter, (row) => columnCells.push(sheet.cells[row]?.[col]));
+    return { col, test: createColumnPredicate(filter, columnCells) };
+  });
+}
+
+/**
+ * Calls back for each row below the header row of an AutoFilter
+ */
+function forEachDataRow(sheet: Sheet, autoFilter: AutoFilter, callback: (row: number) => void) {
+  const { start, end } = autoFilter.range;
+  const lastRow = Math.min(Math.max(start.row, end.row), sheet.rowCount - 1);
+  for (let row = Math.min(start.row, end.row) + 1; row <= lastRow; row++) {
+    callback(row);
+  }
+}
+
+/**
+ * Builds the test for a single condition (also used by conditional formatting rules)
+ */
+export function createConditionTest(condition: FilterCondition): CellPredicate {
+  const text = String(condition.value).trim().toLowerCase();
+  const number = toCriteriaNumber(condition.value);
+  const upper = condition.value2 !== undefined ? toCriteriaNumber(condition.value2) : null;
+
+  const compare = (predicate: (value: number) => boolean): CellPredicate => (cell) => {
+    const value = getFilterNumber(cell);
+    return value !== null && number !== null && predicate(value);
+  };
+
+  switch (condition.operator) {
+    case 'equals':
+    case 'notEquals': {
+      const negate = condition.operator === 'notEquals';
+      return (cell) => {
+        const value = getFilterNumber(cell);
+        const equal =
+          value !== null && number !== null
+            ? value === number
+            : getFilterText(cell).toLowerCase() === text;
+        return equal !== negate;
+      };
+    }
+    case 'contains':
+      return (cell) => getFilterText(cell).toLowerCase().includes(text);
+    case 'notContains':
+      return (cell) => !getFilterText(cell).toLowerCase().includes(text);
+    case 'beginsWith':
+      return (cell) => getFilterText(cell).toLowerCase().startsWith(text);
+    case 'endsWith':
+      return (cell) => getFilterText(cell).toLowerCase().endsWith(text);
+    case 'greaterThan':
+      return compare((value) => value > number!);
+    case 'greaterThanOrEqual':
+      return compare((value) => value >= number!);
+    case 'lessThan':
+      return compare((value) => value < number!);
+    case 'lessThanOrEqual':
+      return compare((value) => value <= number!);
+    case 'between':
+      return compare((value) => upper !== null && value >= number! && value <= upper);
+  }
+}
+
+/**
+ * Reads a criteria value as a number: numbers, numeric text and date text (as a serial)
+ */
+function toCriteriaNumber(value: string | number): number | null {
+  if (typeof value === 'number') return value;
+  if (NUMERIC_PATTERN.test(value)) return parseFloat(value);
+  return parseDateInput(value)?.serial ?? null;
+}
+
+/**
+ * Collects the numbers of a column, skipping text and blanks
+ */
+function getColumnNumbers(cells: (Cell | undefined)[]): number[] {
+  return cells.map(getFilterNumber).filter((value): value is number => value !== null);
+}
@@ -0,0 +1,5 @@
+/**
+ * Public API for AutoFilter criteria
+ */
+
+export * from './auto-filter';
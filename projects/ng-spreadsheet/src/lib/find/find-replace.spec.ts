@@ -0,0 +1,105 @@
+import { Cell, Sheet, createEmptySheet, setSheetCells } from '../models';
+import { createSearchPattern, findInSheet, getSearchText, replaceMatches } from './find-replace';
+
+describe('Find and Replace', () => {
+  describe('createSearchPattern', () => {
+    it('should match plain queries literally and ignore case by default', () => {
+      const pattern = createSearchPattern({ query: '$1.50 (net)' });
+      expect(pattern.test('Price: $1.50 (NET)')).toBeTrue();
+      expect(pattern.test('$1x50 (net)')).toBeFalse();
+    });
+
+    it('should apply match case and match entire cell', () => {
+      const pattern = createSearchPattern({
+        query: 'North',
+        matchCase: true,
+        matchEntireCell: true,
+      });
+      expect(pattern.test('North')).toBeTrue();
+      expect(pattern.test('north')).toBeFalse();
+      expect(pattern.test('North East')).toBeFalse();
+    });
+
+    it('should read regular expressions and reject invalid ones', () => {
+      const pattern = createSearchPattern({ query: '^Q[1-4]$', useRegex: true });
+      expect(pattern.test('q3')).toBeTrue();
+      expect(pattern.test('Q5')).toBeFalse();
+      expect(() => createSearchPattern({ query: '(', useRegex: true })).toThrowError(SyntaxError);
+    });
+  });
+
+  describe('getSearchText', () => {
+    const formula: Cell = {
+      row: 0,
+      col: 0,
+      value: '=SUM(A1:A3)',
+      displayValue: '60',
+      dataType: 'formula',
+      comment: {
+        id: 'c1',
+        author: 'Ann',
+        text: 'Quarter total',
+        createdAt: '2026-01-05T09:00:00.000Z',
+        replies: [
+          { id: 'c2', author: 'Bo', text: 'Checked', createdAt: '2026-01-06T09:00:00.000Z' },
+        ],
+      },
+    };
+
+    it('should read the displayed value, the contents or the comment', () => {
+      expect(getSearchText(formula)).toBe('60');
+      expect(getSearchText(formula, 'formulas')).toBe('=SUM(A1:A3)');
+      expect(getSearchText(formula, 'comments')).toBe('Quarter total\nChecked');
+      expect(getSearchText({ row: 0, col: 1, value: 42 }, 'comments')).toBe('');
+    });
+
+    it('should read dates as displayed in either mode', () => {
+      const date: Cell = {
+        row: 0,
+        col: 0,
+        value: 46082,
+        displayValue: '3/1/2026',
+        dataType: 'date',
+      };
+      expect(getSearchText(date, 'formulas')).toBe('3/1/2026');
+    });
+  });
+
+  describe('findInSheet', () => {
+    let sheet: Sheet;
+
+    beforeEach(() => {
+      sheet = createEmptySheet({ rowCount: 3, colCount: 3, name: 'Data' });
+      sheet.cells = setSheetCells(sheet.cells, [
+        { row: 0, col: 2, value: 'apple', displayValue: 'apple' },
+        { row: 1, col: 0, value: 'Apple pie', displayValue: 'Apple pie' },
+        { row: 2, col: 1, value: 'pear', displayValue: 'pear' },
+      ]);
+    });
+
+    it('should list matches row by row with their sheet', () => {
+      const matches = findInSheet(sheet, createSearchPattern({ query: 'apple' }));
+      expect(matches.map(({ row, col }) => [row, col])).toEqual([[0, 2], [1, 0]]);
+      expect(matches[1]).toEqual(
+        jasmine.objectContaining({ sheetId: sheet.id, sheetName: 'Data', text: 'Apple pie' })
+      );
+    });
+
+    it('should never match empty cells', () => {
+      const anything = createSearchPattern({ query: '.*', useRegex: true });
+      expect(findInSheet(sheet, anything).length).toBe(3);
+    });
+  });
+
+  describe('replaceMatches', () => {
+    it('should replace every occurrence, inserting plain replacements as is', () => {
+      const pattern = createSearchPattern({ query: 'a' });
+      expect(replaceMatches('banana', pattern, '$&!')).toBe('b$&!n$&!n$&!');
+    });
+
+    it('should expand groups in regular expression replacements', () => {
+      const pattern = createSearchPattern({ query: '(\\w+)@(\\w+)', useRegex: true });
+      expect(replaceMatches('ann@home', pattern, '$2:$1', true)).toBe('home:ann');
+    });
+  });
+});
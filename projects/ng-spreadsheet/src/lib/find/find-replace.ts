@@ -0,0 +1,78 @@
+import {
+  Cell,
+  FindLookIn,
+  FindMatch,
+  FindOptions,
+  Sheet,
+  forEachSheetCell,
+  getCommentThread,
+} from '../models';
+
+const REGEX_SPECIAL_CHARACTERS = /[.*+?^${}()|[\]\\]/g;
+
+/**
+ * Builds the pattern a Find matches cells with. Plain queries match literally;
+ * `matchEntireCell` anchors the pattern to the whole text.
+ * Throws a SyntaxError when `useRegex` is set and the query is not a valid expression.
+ */
+export function createSearchPattern(options: FindOptions): RegExp {
+  const source = options.useRegex
+    ? options.query
+    : options.query.replace(REGEX_SPECIAL_CHARACTERS, '\\$&');
+  const anchored = options.matchEntireCell ? `^(?:${source})$` : source;
+  return new RegExp(anchored, options.matchCase ? '' : 'i');
+}
+
+/**
+ * Gets the text of a cell that Find looks at: its displayed value, its contents as typed
+ * (formulas rather than their results; dates as displayed) or its comments, one per line
+ */
+export function getSearchText(cell: Cell | undefined, lookIn: FindLookIn = 'values'): string {
+  if (!cell) return '';
+
+  if (lookIn === 'comments') {
+    return cell.comment
+      ? getCommentThread(cell.comment)
+          .map((entry) => entry.text)
+          .join('\n')
+      : '';
+  }
+  if (lookIn === 'formulas' && cell.dataType !== 'date') {
+    return String(cell.value ?? '');
+  }
+  return String(cell.displayValue ?? cell.value ?? '');
+}
+
+/**
+ * Lists the cells of a sheet whose text matches a pattern, row by row.
+ * Empty cells never match.
+ */
+export function findInSheet(
+  sheet: Sheet,
+  pattern: RegExp,
+  lookIn: FindLookIn = 'values'
+): FindMatch[] {
+  const matches: FindMatch[] = [];
+  forEachSheetCell(sheet.cells, (cell, row, col) => {
+    const text = getSearchText(cell, lookIn);
+    if (text !== '' && pattern.test(text)) {
+      matches.push({ sheetId: sheet.id, sheetName: sheet.name, row, col, text });
+    }
+  });
+  return matches;
+}
+
+/**
+ * Replaces every occurrence of a pattern in a text. With `useRegex` the replacement
+ * may refer to groups ($1, $&...); otherwise it is inserted as is.
+ */
+export function replaceMatches(
+  text: string,
+  pattern: RegExp,
+  replacement: string,
+  useRegex = false
+): string {
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+  const global = new RegExp(pattern.source, flags);
+  return useRegex ? text.replace(global, replacement) : text.replace(global, () => replacement);
+}
@@ -0,0 +1,5 @@
+/**
+ * Public API for Find and Replace
+ */
+
+export * from './find-replace';
@@ -0,0 +1,75 @@
+import { dateToSerial, parseDateInput, partsToSerial, serialToDate } from './date-serial';
+
+describe('Date Serials', () => {
+  describe('serial conversion', () => {
+    it('should count days from 1899-12-30 like Excel', () => {
+      expect(partsToSerial(1970, 1, 1)).toBe(25569);
+      expect(partsToSerial(2026, 3, 1)).toBe(46082);
+      expect(partsToSerial(2024, 1, 1, 12)).toBe(45292.5);
+    });
+
+    it('should roll over months and days', () => {
+      expect(partsToSerial(2025, 13, 1)).toBe(partsToSerial(2026, 1, 1));
+      expect(partsToSerial(2024, 3, 0)).toBe(partsToSerial(2024, 2, 29));
+    });
+
+    it('should convert Dates in local time both ways', () => {
+      const date = new Date(2026, 2, 1, 9, 30);
+      expect(dateToSerial(date)).toBeCloseTo(46082 + 9.5 / 24, 10);
+      expect(serialToDate(dateToSerial(date)).getTime()).toBe(date.getTime());
+    });
+  });
+
+  describe('parseDateInput', () => {
+    it('should recognize ISO dates', () => {
+      expect(parseDateInput('2026-03-01')).toEqual({ serial: 46082, format: 'yyyy-mm-dd' });
+    });
+
+    it('should read numeric dates in the locale order', () => {
+      expect(parseDateInput('3/1/2026')).toEqual({ serial: 46082, format: 'm/d/yyyy' });
+      expect(parseDateInput('1/3/2026', 'en-GB')).toEqual({ serial: 46082, format: 'd/m/yyyy' });
+      expect(parseDateInput('1.3.2026', 'de-DE')).toEqual({ serial: 46082, format: 'd.m.yyyy' });
+    });
+
+    it('should only accept the locale separator besides / and -', () => {
+      expect(parseDateInput('1.3.2026')).toBeNull();
+    });
+
+    it('should expand two-digit years with the 1930-2029 window', () => {
+      expect(parseDateInput('3/1/26')?.serial).toBe(46082);
+      expect(parseDateInput('3/1/45')?.serial).toBe(partsToSerial(1945, 3, 1));
+    });
+
+    it('should recognize month names', () => {
+      expect(parseDateInput('1-Mar-2026')).toEqual({ serial: 46082, format: 'd-mmm-yyyy' });
+      expect(parseDateInput('March 1, 2026')).toEqual({ serial: 46082, format: 'mmm d, yyyy' });
+      expect(parseDateInput('1. März 2026', 'de-DE')?.serial).toBe(46082);
+      expect(parseDateInput('1 Mar 2026', 'de-DE')?.serial).toBe(46082);
+    });
+
+    it('should recognize times', () => {
+      expect(parseDateInput('9:30')).toEqual({ serial: 9.5 / 24, format: 'h:mm' });
+      expect(parseDateInput('14:05:30')?.format).toBe('h:mm:ss');
+      expect(parseDateInput('9:30 PM')).toEqual({ serial: 21.5 / 24, format: 'h:mm AM/PM' });
+      expect(parseDateInput('12:00 am')?.serial).toBe(0);
+    });
+
+    it('should recognize dates followed by a time', () => {
+      expect(parseDateInput('2026-03-01 12:00')).toEqual({
+        serial: 46082.5,
+        format: 'yyyy-mm-dd h:mm',
+      });
+      expect(parseDateInput('2026-03-01T06:00:00')?.serial).toBe(46082.25);
+    });
+
+    it('should reject text that is not a date', () => {
+      expect(parseDateInput('hello')).toBeNull();
+      expect(parseDateInput('42')).toBeNull();
+      expect(parseDateInput('1.5')).toBeNull();
+      expect(parseDateInput('2/30/2026')).toBeNull();
+      expect(parseDateInput('25:00')).toBeNull();
+      expect(parseDateInput('13/1/2026')).toBeNull();
+      expect(parseDateInput('Item 1, 2026')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * A date or time recognized in typed input
+ */
+export interface DateInput {
+  /** Excel serial number: whole days since 1899-12-30 plus the time as a fraction of a day */
+  serial: number;
+
+  /** Format code matching how the value was typed (e.g. 'm/d/yyyy', 'h:mm AM/PM') */
+  format: string;
+}
+
+type DatePartType = 'year' | 'month' | 'day';
+
+/**
+ * How a locale writes numeric dates
+ */
+interface DateOrder {
+  /** Day, month and year in the order they are written */
+  parts: DatePartType[];
+
+  /** Separator between the parts ('/' in en-US, '.' in de-DE) */
+  separator: string;
+}
+
+/** Excel serial number of 1970-01-01 (serial 0 is 1899-12-30) */
+const UNIX_EPOCH_SERIAL = 25569;
+const MS_PER_DAY = 86400000;
+
+const ISO_DATE_PATTERN = /^(\d{4})([-/.])(\d{1,2})\2(\d{1,2})$/;
+const NUMERIC_DATE_PATTERN = /^(\d{1,4})([-/.])(\d{1,2})\2(\d{1,4})$/;
+const DAY_MONTH_NAME_PATTERN = /^(\d{1,2})\.?[\s-]+([^\d\s,.-]+)\.?,?[\s-]+(\d{2}|\d{4})$/u;
+const MONTH_NAME_DAY_PATTERN = /^([^\d\s,.-]+)\.?[\s-]+(\d{1,2}),?[\s-]+(\d{2}|\d{4})$/u;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?(?:\s*([ap])\.?m?\.?)?$/i;
+const DATE_TIME_PATTERN = /^(.+?)(?:T|\s+)(\d{1,2}:\d{2}\S*(?:\s*[ap]\.?m?\.?)?)$/i;
+
+const dateOrders = new Map<string, DateOrder>();
+const monthNames = new Map<string, Map<string, number>>();
+
+/**
+ * Converts a Date to an Excel serial number, using its local date and time
+ */
+export function dateToSerial(date: Date): number {
+  const utc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+  return utc / MS_PER_DAY + UNIX_EPOCH_SERIAL;
+}
+
+/**
+ * Converts an Excel serial number to a Date in local time
+ */
+export function serialToDate(serial: number): Date {
+  const utc = serialToUtcDate(serial);
+  return new Date(
+    utc.getUTCFullYear(),
+    utc.getUTCMonth(),
+    utc.getUTCDate(),
+    utc.getUTCHours(),
+    utc.getUTCMinutes(),
+    utc.getUTCSeconds()
+  );
+}
+
+/**
+ * Returns a Date whose UTC fields hold the date and time of an Excel serial number,
+ * rounded to the second. Working in UTC keeps day arithmetic free of DST shifts.
+ */
+export function serialToUtcDate(serial: number): Date {
+  return new Date(Math.round(((serial - UNIX_EPOCH_SERIAL) * MS_PER_DAY) / 1000) * 1000);
+}
+
+/**
+ * Builds a serial number from a year, a 1-based month and a day.
+ * Months and days outside their range roll over (month 13 is January of the next year,
+ * day 0 is the last day of the previous month).
+ * Serials before 1900-03-01 are one less than Excel's, which counts the nonexistent 1900-02-29.
+ */
+export function partsToSerial(
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+): number {
+  const date = new Date(0);
+  // setUTCFullYear keeps years 0-99 as written, unlike Date.UTC
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hours, minutes, seconds, 0);
+  return date.getTime() / MS_PER_DAY + UNIX_EPOCH_SERIAL;
+}
+
+/**
+ * Recognizes typed dates, times and date-times, returning their serial number and a
+ * matching format code, or null if the text is not a date.
+ *
+ * Accepted forms are ISO dates (2026-03-01), numeric dates in the locale's day/month/year
+ * order, written with '/', '-' or the locale's own separator (3/1/2026 in en-US,
+ * 1.3.2026 in de-DE), dates with month names (1-Mar-2026, Mar 1, 2026),
+ * times (9:30, 14:05:10, 9:30 PM) and a date followed by a time.
+ * Two-digit years 00-29 are read as 2000-2029 and 30-99 as 1930-1999, as in Excel.
+ */
+export function parseDateInput(text: string, locale?: string): DateInput | null {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+
+  const time = parseTime(trimmed);
+  if (time) return time;
+
+  const date = parseDate(trimmed, locale);
+  if (date) return date;
+
+  const dateTime = trimmed.match(DATE_TIME_PATTERN);
+  if (!dateTime) return null;
+
+  const datePart = parseDate(dateTime[1], locale);
+  const timePart = parseTime(dateTime[2]);
+  if (!datePart || !timePart) return null;
+
+  return {
+    serial: datePart.serial + timePart.serial,
+    format: `${datePart.format} ${timePart.format}`,
+  };
+}
+
+// ========== INPUT PARSING ==========
+
+/**
+ * Parses a date without a time
+ */
+function parseDate(text: string, locale?: string): DateInput | null {
+  const iso = text.match(ISO_DATE_PATTERN);
+  if (iso) {
+    return toDateInput(+iso[1], +iso[3], +iso[4], 'yyyy-mm-dd');
+  }
+
+  const numeric = text.match(NUMERIC_DATE_PATTERN);
+  if (numeric) {
+    const { parts: order, separator } = getDateOrder(locale);
+    if (!['/', '-', separator].includes(numeric[2])) return null;
+
+    const values = [numeric[1], numeric[3], numeric[4]];
+    const part = (type: DatePartType) => values[order.indexOf(type)];
+
+    const yearText = part('year');
+    if (yearText.length !== 2 && yearText.length !== 4) return null;
+    if (part('month').length > 2 || part('day').length > 2) return null;
+
+    const format = order
+      .map((type) => (type === 'year' ? (yearText.length === 2 ? 'yy' : 'yyyy') : type[0]))
+      .join(numeric[2]);
+    return toDateInput(toFullYear(yearText), +part('month'), +part('day'), format);
+  }
+
+  const dayFirst = text.match(DAY_MONTH_NAME_PATTERN);
+  if (dayFirst) {
+    const month = findMonth(dayFirst[2], locale);
+    const yearCode = dayFirst[3].length === 2 ? 'yy' : 'yyyy';
+    return month
+      ? toDateInput(toFullYear(dayFirst[3]), month, +dayFirst[1], `d-mmm-${yearCode}`)
+      : null;
+  }
+
+  const monthFirst = text.match(MONTH_NAME_DAY_PATTERN);
+  if (monthFirst) {
+    const month = findMonth(monthFirst[1], locale);
+    const yearCode = monthFirst[3].length === 2 ? 'yy' : 'yyyy';
+    return month
+      ? toDateInput(toFullYear(monthFirst[3]), month, +monthFirst[2], `mmm d, ${yearCode}`)
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parses a time of day (9:30, 09:30:15, 9:30 pm)
+ */
+function parseTime(text: string): DateInput | null {
+  const match = text.match(TIME_PATTERN);
+  if (!match) return null;
+
+  let hours = +match[1];
+  const minutes = +match[2];
+  const seconds = match[3] !== undefined ? parseFloat(match[3]) : 0;
+  const meridiem = match[4]?.toLowerCase();
+
+  if (minutes > 59 || seconds >= 60) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+
+  const format = (match[3] !== undefined ? 'h:mm:ss' : 'h:mm') + (meridiem ? ' AM/PM' : '');
+  return { serial: (hours * 3600 + minutes * 60 + seconds) / 86400, format };
+}
+
+/**
+ * Builds the result for a date, rejecting days that do not exist (such as 2/30)
+ */
+function toDateInput(year: number, month: number, day: number, format: string): DateInput | null {
+  if (year < 1900 || year > 9999 || month < 1 || month > 12 || day < 1) return null;
+
+  const serial = partsToSerial(year, month, day);
+  return serialToUtcDate(serial).getUTCDate() === day ? { serial, format } : null;
+}
+
+/**
+ * Expands a two-digit year using Excel's 1930-2029 window
+ */
+function toFullYear(text: string): number {
+  const year = +text;
+  if (text.length !== 2) return year;
+  return year < 30 ? 2000 + year : 1900 + year;
+}
+
+/**
+ * Returns the order and separator of numeric dates in a locale (cached)
+ */
+function getDateOrder(locale?: string): DateOrder {
+  const key = locale ?? 'en-US';
+  let order = dateOrders.get(key);
+  if (!order) {
+    const formatted = new Intl.DateTimeFormat(key, {
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      timeZone: 'UTC',
+    }).formatToParts(0);
+    const parts = formatted
+      .map((part) => part.type)
+      .filter((type): type is DatePartType => ['year', 'month', 'day'].includes(type));
+    const separator = formatted.find((part) => part.type === 'literal')?.value.trim() || '/';
+    order = parts.length === 3
+      ? { parts, separator }
+      : { parts: ['month', 'day', 'year'], separator: '/' };
+    dateOrders.set(key, order);
+  }
+  return order;
+}
+
+/**
+ * Finds a month by its full or abbreviated name in the locale or in English.
+ * Returns the 1-based month, or 0 if the name is not a month.
+ */
+function findMonth(name: string, locale?: string): number {
+  const key = locale ?? 'en-US';
+  let names = monthNames.get(key);
+  if (!names) {
+    names = new Map();
+    for (const source of [key, 'en-US']) {
+      for (const width of ['long', 'short'] as const) {
+        const format = new Intl.DateTimeFormat(source, { month: width, timeZone: 'UTC' });
+        for (let month = 0; month < 12; month++) {
+          const text = format.format(Date.UTC(2000, month, 1)).toLowerCase().replace(/\.$/, '');
+          if (!names.has(text)) names.set(text, month + 1);
+        }
+      }
+    }
+    monthNames.set(key, names);
+  }
+  return names.get(name.toLowerCase().replace(/\.$/, '')) ?? 0;
+}
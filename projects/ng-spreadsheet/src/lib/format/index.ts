@@ -0,0 +1,6 @@
+/**
+ * Public API for the number format engine
+ */
+
+export * from './date-serial';
+export * from './number-format';
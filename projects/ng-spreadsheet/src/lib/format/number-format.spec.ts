@@ -0,0 +1,130 @@
+import { formatValue, getNumberFormatPattern } from './number-format';
+
+describe('Number Format', () => {
+  const format = (value: unknown, pattern: string, locale?: string) =>
+    formatValue(value, pattern, { locale }).text;
+
+  describe('formatValue', () => {
+    it('should render General like Excel', () => {
+      expect(format(1234.5, 'General')).toBe('1234.5');
+      expect(format(0.1 + 0.2, 'General')).toBe('0.3');
+      expect(format(-7, 'General')).toBe('-7');
+      expect(format('text', 'General')).toBe('text');
+    });
+
+    it('should group thousands and round decimals', () => {
+      expect(format(1234567.891, '#,##0.00')).toBe('1,234,567.89');
+      expect(format(-1234.5, '#,##0')).toBe('-1,235');
+      expect(format(0.5, '#,##0.00')).toBe('0.50');
+      expect(format(5, '000')).toBe('005');
+    });
+
+    it('should drop or pad optional decimals', () => {
+      expect(format(1.5, '0.##')).toBe('1.5');
+      expect(format(2, '0.##')).toBe('2.');
+      expect(format(1.5, '0.0?')).toBe('1.5 ');
+    });
+
+    it('should scale by trailing commas', () => {
+      expect(format(1234567, '#,##0,"K"')).toBe('1,235K');
+      expect(format(1234567, '0.0,,"M"')).toBe('1.2M');
+    });
+
+    it('should render percentages', () => {
+      expect(format(0.256, '0%')).toBe('26%');
+      expect(format(0.256, '0.00%')).toBe('25.60%');
+    });
+
+    it('should pick the positive, negative, zero and text sections', () => {
+      const pattern = '$#,##0;[Red]-$#,##0;"zero";"Text: "@';
+      expect(formatValue(1500, pattern)).toEqual({ text: '$1,500' });
+      expect(formatValue(-1500, pattern)).toEqual({ text: '-$1,500', color: '#FF0000' });
+      expect(format(0, pattern)).toBe('zero');
+      expect(format('abc', pattern)).toBe('Text: abc');
+    });
+
+    it('should show negatives without a sign in a negative section', () => {
+      expect(format(-42, '0;(0)')).toBe('(42)');
+    });
+
+    it('should render scientific notation', () => {
+      expect(format(12345, '0.00E+00')).toBe('1.23E+04');
+      expect(format(0.00012, '0.00E+00')).toBe('1.20E-04');
+      expect(format(9.999, '0.00E+00')).toBe('1.00E+01');
+      expect(format(12345, '##0.0E+0')).toBe('12.3E+3');
+    });
+
+    it('should render fractions', () => {
+      expect(format(3.14159, '# ?/?')).toBe('3 1/7');
+      expect(format(3.14159, '?/?')).toBe('22/7');
+      expect(format(3.14159, '# ???/???')).toBe('3  16/113');
+      expect(format(0.5, '# ??/??')).toBe('  1/2 ');
+      expect(format(-1.25, '# ?/?')).toBe('-1 1/4');
+      expect(format(2.3, '# ?/8')).toBe('2 2/8');
+      expect(format(0.31, '?/10')).toBe('3/10');
+    });
+
+    it('should show only the whole part when the fraction rounds away', () => {
+      expect(format(3, '# ?/?')).toBe('3    ');
+      expect(format(2.999, '# ?/?')).toBe('3    ');
+      expect(format(0, '# ?/?')).toBe('0    ');
+    });
+
+    it('should write out numbers too large for toFixed', () => {
+      expect(format(1e21, '0.00')).toBe('1000000000000000000000.00');
+      expect(format(-1.5e22, '#,##0')).toBe('-15,000,000,000,000,000,000,000');
+      expect(format(1e21, '0.00E+00')).toBe('1.00E+21');
+    });
+
+    it('should fall back to General for non-finite numbers', () => {
+      expect(format(NaN, '0.00')).toBe('NaN');
+      expect(format(Infinity, '#,##0')).toBe('Infinity');
+      expect(format(-Infinity, '# ?/?')).toBe('-Infinity');
+      expect(format(new Date(NaN), 'yyyy-mm-dd')).toBe('NaN');
+    });
+
+    it('should render serial numbers as dates and times', () => {
+      expect(format(45306.75, 'yyyy-mm-dd hh:mm')).toBe('2024-01-15 18:00');
+      expect(format(45306, 'd-mmm-yy')).toBe('15-Jan-24');
+      expect(format(45306, 'dddd, mmmm d')).toBe('Monday, January 15');
+      expect(format(0.5625, 'h:mm AM/PM')).toBe('1:30 PM');
+      expect(format(1.5, '[h]:mm')).toBe('36:00');
+    });
+
+    it('should accept Date objects', () => {
+      expect(format(new Date(2024, 1, 29, 9, 5), 'm/d/yyyy h:mm')).toBe('2/29/2024 9:05');
+    });
+
+    it('should render text with the text format', () => {
+      expect(format('abc', '@')).toBe('abc');
+      expect(format('abc', '0.00')).toBe('abc');
+    });
+
+    it('should use the separators of the locale', () => {
+      expect(format(1234567.891, '#,##0.00', 'de-DE')).toBe('1.234.567,89');
+      expect(format(1.5, 'General', 'de-DE')).toBe('1,5');
+      expect(format(45306, 'mmmm', 'de-DE')).toBe('Januar');
+    });
+  });
+
+  describe('getNumberFormatPattern', () => {
+    it('should prefer an explicit pattern', () => {
+      expect(getNumberFormatPattern({ numberFormat: 'currency', numberFormatPattern: '0.0' })).toBe(
+        '0.0'
+      );
+    });
+
+    it('should derive patterns from the ribbon formats', () => {
+      expect(getNumberFormatPattern(undefined)).toBe('General');
+      expect(getNumberFormatPattern({ decimalPlaces: 1 })).toBe('0.0');
+      expect(getNumberFormatPattern({ numberFormat: 'number', decimalPlaces: 0 })).toBe('#,##0');
+      expect(getNumberFormatPattern({ numberFormat: 'percentage' })).toBe('0.00%');
+      expect(
+        format(-1234.5, getNumberFormatPattern({ numberFormat: 'currency', currencySymbol: '€' }))
+      ).toBe('-€1,234.50');
+      expect(format(-1234.5, getNumberFormatPattern({ numberFormat: 'accounting' }))).toBe(
+        ' $ (1,234.50)'
+      );
+    });
+  });
+});
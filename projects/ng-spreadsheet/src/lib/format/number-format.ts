@@ -0,0 +1,796 @@
+import { CellStyle } from '../models';
+import { dateToSerial, serialToUtcDate } from './date-serial';
+
+/**
+ * Options for rendering a value with a format code
+ */
+export interface NumberFormatOptions {
+  /**
+   * BCP 47 locale used for thousands/decimal separators and month/day names
+   * (e.g. 'de-DE'). Format codes are always written with ',' and '.', as in Excel.
+   * Defaults to en-US conventions.
+   */
+  locale?: string;
+}
+
+/**
+ * Result of formatting a value
+ */
+export interface FormattedValue {
+  /** Text to display */
+  text: string;
+
+  /** CSS color from a [Red]-style section color, if the chosen section has one */
+  color?: string;
+}
+
+/**
+ * Thousands and decimal separators of a locale
+ */
+export interface NumberSeparators {
+  group: string;
+  decimal: string;
+}
+
+type FormatToken =
+  | { type: 'literal'; text: string }
+  | { type: 'digit'; char: '0' | '#' | '?' }
+  | { type: 'decimal' }
+  | { type: 'comma' }
+  | { type: 'percent' }
+  | { type: 'exponent'; sign: '+' | '-' }
+  | { type: 'text' }
+  | { type: 'general' }
+  | { type: 'date'; code: string };
+
+interface FormatSection {
+  tokens: FormatToken[];
+  color?: string;
+  isDate: boolean;
+}
+
+const SECTION_COLORS: Record<string, string> = {
+  black: '#000000',
+  blue: '#0000FF',
+  cyan: '#00FFFF',
+  green: '#008000',
+  magenta: '#FF00FF',
+  red: '#FF0000',
+  white: '#FFFFFF',
+  yellow: '#FFFF00',
+};
+
+const parsedFormats = new Map<string, FormatSection[]>();
+const localeSeparators = new Map<string, NumberSeparators>();
+
+/**
+ * Renders a value with an Excel-style format code such as '#,##0.00', '0%',
+ * '$#,##0;[Red]-$#,##0', '0.00E+00', 'yyyy-mm-dd hh:mm' or '@'.
+ *
+ * Up to four ';'-separated sections apply to positive numbers, negative numbers,
+ * zero and text. Numbers in date/time sections are read as Excel serial dates;
+ * Date objects are accepted as well. Text without a text section is shown as-is.
+ */
+export function formatValue(
+  value: unknown,
+  pattern: string,
+  options: NumberFormatOptions = {}
+): FormattedValue {
+  if (value === null || value === undefined || value === '') {
+    return { text: '' };
+  }
+
+  const separators = getNumberSeparators(options.locale);
+  const sections = parseFormat(pattern || 'General');
+  const input = value instanceof Date ? dateToSerial(value) : value;
+
+  if (typeof input !== 'number') {
+    return formatText(String(input), sections);
+  }
+
+  // NaN and infinities have no digits to place; they are shown as General shows them
+  if (!Number.isFinite(input)) {
+    return { text: formatGeneral(input, separators) };
+  }
+
+  const { section, number, signed } = selectSection(sections, input);
+  const text = section.isDate
+    ? formatDate(number, section.tokens, options.locale)
+    : formatNumber(number, section.tokens, separators, signed);
+
+  return section.color ? { text, color: section.color } : { text };
+}
+
+/**
+ * Returns the format code for a cell style.
+ * An explicit numberFormatPattern wins; otherwise the pattern is derived from
+ * numberFormat, decimalPlaces and currencySymbol (as set from the ribbon).
+ */
+export function getNumberFormatPattern(style?: CellStyle): string {
+  if (style?.numberFormatPattern) {
+    return style.numberFormatPattern;
+  }
+
+  const decimals = style?.decimalPlaces;
+  const fraction = (places: number) => (places > 0 ? '.' + '0'.repeat(places) : '');
+  const symbol = `"${(style?.currencySymbol ?? '$').replace(/"/g, '')}"`;
+  const number = `#,##0${fraction(decimals ?? 2)}`;
+
+  switch (style?.numberFormat) {
+    case 'number':
+      return number;
+    case 'currency':
+      return `${symbol}${number}`;
+    case 'accounting':
+      return `_(${symbol}* ${number}_);_(${symbol}* (${number});_(${symbol}* "-"??_);_(@_)`;
+    case 'percentage':
+      return `0${fraction(decimals ?? 2)}%`;
+    case 'date':
+      return 'yyyy-mm-dd';
+    case 'time':
+      return 'hh:mm:ss';
+    case 'text':
+      return '@';
+    default:
+      return decimals !== undefined && decimals >= 0 ? `0${fraction(decimals)}` : 'General';
+  }
+}
+
+/**
+ * Checks whether a format code renders numbers as dates or times
+ */
+export function isDateFormat(pattern: string): boolean {
+  return parseFormat(pattern || 'General')[0].isDate;
+}
+
+// ========== PARSING ==========
+
+/**
+ * Splits a format code into sections and tokenizes each one (cached per pattern)
+ */
+function parseFormat(pattern: string): FormatSection[] {
+  let sections = parsedFormats.get(pattern);
+  if (!sections) {
+    sections = splitSections(pattern).map(parseSection);
+    parsedFormats.set(pattern, sections);
+  }
+  return sections;
+}
+
+/**
+ * Splits a format code on ';', ignoring separators inside quotes or after '\'
+ */
+function splitSections(pattern: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '"') quoted = !quoted;
+    if (char === '\\' && !quoted) {
+      current += char + (pattern[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === ';' && !quoted) {
+      sections.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  sections.push(current);
+  return sections.slice(0, 4);
+}
+
+/**
+ * Tokenizes one section of a format code
+ */
+function parseSection(source: string): FormatSection {
+  const tokens: FormatToken[] = [];
+  let color: string | undefined;
+  let i = 0;
+
+  const literal = (text: string) => tokens.push({ type: 'literal', text });
+
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.substring(i);
+
+    if (char === '"') {
+      const end = source.indexOf('"', i + 1);
+      literal(source.substring(i + 1, end < 0 ? source.length : end));
+      i = end < 0 ? source.length : end + 1;
+    } else if (char === '\\') {
+      literal(source[i + 1] ?? '');
+      i += 2;
+    } else if (char === '_') {
+      // Space the width of the next character (used to align parentheses)
+      literal(' ');
+      i += 2;
+    } else if (char === '*') {
+      // Repeat-to-fill needs a fixed column width; the character is shown once
+      literal(source[i + 1] ?? '');
+      i += 2;
+    } else if (char === '[') {
+      const end = source.indexOf(']', i);
+      const content = source.substring(i + 1, end < 0 ? source.length : end);
+      const currency = content.match(/^\$([^-]*)/);
+      if (SECTION_COLORS[content.toLowerCase()]) {
+        color = SECTION_COLORS[content.toLowerCase()];
+      } else if (currency) {
+        literal(currency[1]);
+      } else if (/^(h+|m+|s+)$/i.test(content)) {
+        tokens.push({ type: 'date', code: `[${content.toLowerCase()}]` });
+      }
+      // Conditions such as [>=100] and locale codes are ignored
+      i = end < 0 ? source.length : end + 1;
+    } else if (/^general/i.test(rest)) {
+      tokens.push({ type: 'general' });
+      i += 7;
+    } else if (char === '0' || char === '#' || char === '?') {
+      tokens.push({ type: 'digit', char });
+      i++;
+    } else if (char === '.') {
+      tokens.push({ type: 'decimal' });
+      i++;
+    } else if (char === ',') {
+      tokens.push({ type: 'comma' });
+      i++;
+    } else if (char === '%') {
+      tokens.push({ type: 'percent' });
+      i++;
+    } else if (/^[eE][+-]/.test(rest)) {
+      tokens.push({ type: 'exponent', sign: rest[1] as '+' | '-' });
+      i += 2;
+    } else if (char === '@') {
+      tokens.push({ type: 'text' });
+      i++;
+    } else if (/^(am\/pm|a\/p)/i.test(rest)) {
+      const code = rest.match(/^(am\/pm|a\/p)/i)![0];
+      tokens.push({ type: 'date', code });
+      i += code.length;
+    } else if (/[ymdhs]/i.test(char)) {
+      let end = i;
+      while (end < source.length && source[end].toLowerCase() === char.toLowerCase()) end++;
+      tokens.push({ type: 'date', code: source.substring(i, end).toLowerCase() });
+      i = end;
+    } else {
+      literal(char);
+      i++;
+    }
+  }
+
+  return { tokens, color, isDate: tokens.some((token) => token.type === 'date') };
+}
+
+// ========== SECTIONS ==========
+
+/**
+ * Picks the section for a number. With two or more sections, negative numbers
+ * use the second one without their sign; with one section the sign is kept.
+ */
+function selectSection(
+  sections: FormatSection[],
+  value: number
+): { section: FormatSection; number: number; signed: boolean } {
+  const numberSections = sections.length === 4 ? sections.slice(0, 3) : sections;
+
+  if (numberSections.length >= 3 && value === 0) {
+    return { section: numberSections[2], number: 0, signed: false };
+  }
+  if (numberSections.length >= 2 && value < 0) {
+    return { section: numberSections[1], number: -value, signed: false };
+  }
+  return { section: numberSections[0], number: value, signed: true };
+}
+
+/**
+ * Formats text with the text section (the fourth, or a lone section containing '@')
+ */
+function formatText(text: string, sections: FormatSection[]): FormattedValue {
+  const section =
+    sections.length === 4
+      ? sections[3]
+      : sections.find((candidate) => candidate.tokens.some((token) => token.type === 'text'));
+  if (!section) {
+    return { text };
+  }
+
+  const rendered = section.tokens
+    .map((token) => (token.type === 'text' ? text : token.type === 'literal' ? token.text : ''))
+    .join('');
+  return section.color ? { text: rendered, color: section.color } : { text: rendered };
+}
+
+// ========== NUMBERS ==========
+
+/**
+ * Renders a number with the digit placeholders, separators, percent signs and
+ * exponent of a section. `signed` adds a leading '-' for negative values.
+ */
+function formatNumber(
+  value: number,
+  tokens: FormatToken[],
+  separators: NumberSeparators,
+  signed: boolean
+): string {
+  const slashIndex = findFractionSlash(tokens);
+  if (slashIndex >= 0) {
+    return formatFraction(value, tokens, slashIndex, signed);
+  }
+
+  const digitIndexes = tokens.flatMap((token, index) => (token.type === 'digit' ? [index] : []));
+  const decimalIndex = tokens.findIndex((token) => token.type === 'decimal');
+  const exponentIndex = tokens.findIndex((token) => token.type === 'exponent');
+  const fractionEnd = exponentIndex >= 0 ? exponentIndex : tokens.length;
+  const integerEnd = decimalIndex >= 0 ? decimalIndex : fractionEnd;
+
+  const integerDigits = digitIndexes.filter((index) => index < integerEnd);
+  const fractionDigits = digitIndexes.filter((index) => index > integerEnd && index < fractionEnd);
+  const exponentDigits = digitIndexes.filter((index) => index > fractionEnd);
+
+  // ',' between integer placeholders groups thousands; ',' after the last digit divides by 1000
+  const lastInteger = integerDigits[integerDigits.length - 1] ?? -1;
+  const lastDigit = [...integerDigits, ...fractionDigits].pop() ?? -1;
+  const commaRoles = new Map<number, 'group' | 'scale' | 'literal'>();
+  tokens.forEach((token, index) => {
+    if (token.type !== 'comma') return;
+    if (index < lastInteger && index > (integerDigits[0] ?? Infinity)) {
+      commaRoles.set(index, 'group');
+    } else if (
+      lastDigit >= 0 &&
+      index > lastDigit &&
+      index < fractionEnd &&
+      tokens
+        .slice(lastDigit + 1, index)
+        .every((between) => between.type === 'comma' || between.type === 'decimal')
+    ) {
+      commaRoles.set(index, 'scale');
+    } else {
+      commaRoles.set(index, 'literal');
+    }
+  });
+  const grouping = [...commaRoles.values()].includes('group');
+  const scale = [...commaRoles.values()].filter((role) => role === 'scale').length;
+  const percents = tokens.filter((token) => token.type === 'percent').length;
+
+  const negative = value < 0;
+  let number = (Math.abs(value) * Math.pow(100, percents)) / Math.pow(1000, scale);
+
+  // Scientific notation: split into mantissa and exponent
+  let exponent = 0;
+  if (exponentIndex >= 0 && number !== 0) {
+    const integerCount = Math.max(integerDigits.length, 1);
+    const engineering =
+      integerCount > 1 && integerDigits.some((index) => digitChar(tokens[index]) === '#');
+    exponent = Math.floor(Math.log10(number));
+    exponent = engineering
+      ? Math.floor(exponent / integerCount) * integerCount
+      : exponent - (integerCount - 1);
+    number /= Math.pow(10, exponent);
+
+    // Rounding can carry into another digit (9.995 → 10.00)
+    if (Number(number.toFixed(fractionDigits.length)) >= Math.pow(10, integerCount)) {
+      number /= 10;
+      exponent += 1;
+    }
+  }
+
+  const fixed = toFixed(number, fractionDigits.length);
+  const [integerText, fractionText = ''] = fixed.split('.');
+  const rendered = new Map<number, string>();
+
+  const integerValue = integerText === '0' ? '' : integerText;
+  const groupSeparator = grouping ? separators.group : null;
+  renderInteger(integerValue, integerDigits, tokens, rendered, groupSeparator);
+  renderFraction(fractionText, fractionDigits, tokens, rendered);
+  renderExponent(exponent, exponentDigits, tokens, rendered);
+
+  let result = '';
+  tokens.forEach((token, index) => {
+    switch (token.type) {
+      case 'digit':
+        result += rendered.get(index) ?? '';
+        break;
+      case 'decimal':
+        result += separators.decimal;
+        break;
+      case 'comma':
+        result += commaRoles.get(index) === 'literal' ? ',' : '';
+        break;
+      case 'percent':
+        result += '%';
+        break;
+      case 'exponent':
+        result += 'E' + (exponent < 0 ? '-' : token.sign === '+' ? '+' : '');
+        break;
+      case 'general':
+        result += formatGeneral(number, separators);
+        break;
+      case 'literal':
+        result += token.text;
+        break;
+    }
+  });
+
+  const isZero = Number(fixed) === 0 && !tokens.some((token) => token.type === 'general');
+  return signed && negative && !isZero ? '-' + result : result;
+}
+
+/**
+ * Writes a non-negative number with a fixed number of decimals. Unlike toFixed, numbers
+ * from 1e21 up are written out in full, with 15 significant digits as in General.
+ */
+function toFixed(value: number, places: number): string {
+  if (value < 1e21) {
+    return value.toFixed(places);
+  }
+
+  const [mantissa, exponent] = value.toExponential(14).split('e');
+  const digits = mantissa.replace('.', '').padEnd(Number(exponent) + 1, '0');
+  return places > 0 ? `${digits}.${'0'.repeat(places)}` : digits;
+}
+
+/**
+ * Fills integer placeholders from the right; the leftmost one takes any extra digits.
+ * Unused placeholders show '0', a space ('?') or nothing ('#').
+ * With grouping, the whole integer is written at the first placeholder.
+ */
+function renderInteger(
+  digits: string,
+  indexes: number[],
+  tokens: FormatToken[],
+  rendered: Map<number, string>,
+  groupSeparator: string | null
+): void {
+  const parts = indexes.map((index, position) => {
+    const fromRight = indexes.length - 1 - position;
+    const digitIndex = digits.length - 1 - fromRight;
+    const own = digitIndex >= 0 ? digits[digitIndex] : placeholderFill(tokens[index]);
+    const overflow = position === 0 && digitIndex > 0 ? digits.substring(0, digitIndex) : '';
+    return overflow + own;
+  });
+
+  if (groupSeparator === null) {
+    indexes.forEach((index, position) => rendered.set(index, parts[position]));
+    return;
+  }
+
+  const text = parts.join('');
+  const padding = text.match(/^ */)![0];
+  const grouped = text
+    .substring(padding.length)
+    .replace(/\B(?=(\d{3})+(?!\d))/g, groupSeparator);
+  indexes.forEach((index, position) =>
+    rendered.set(index, position === 0 ? padding + grouped : '')
+  );
+}
+
+/**
+ * Fills fraction placeholders from the left. Trailing zeros are dropped for '#'
+ * and replaced by spaces for '?'.
+ */
+function renderFraction(
+  digits: string,
+  indexes: number[],
+  tokens: FormatToken[],
+  rendered: Map<number, string>
+): void {
+  let trailing = true;
+  for (let position = indexes.length - 1; position >= 0; position--) {
+    const index = indexes[position];
+    const digit = digits[position] ?? '0';
+    if (trailing && digit === '0' && digitChar(tokens[index]) !== '0') {
+      rendered.set(index, placeholderFill(tokens[index]));
+      continue;
+    }
+    trailing = false;
+    rendered.set(index, digit);
+  }
+}
+
+/**
+ * Writes the exponent, padded to the number of '0' placeholders
+ */
+function renderExponent(
+  exponent: number,
+  indexes: number[],
+  tokens: FormatToken[],
+  rendered: Map<number, string>
+): void {
+  renderInteger(String(Math.abs(exponent)), indexes, tokens, rendered, null);
+}
+
+// ========== FRACTIONS ==========
+
+/**
+ * Finds the '/' of a fraction section such as '# ?/?' or '?/8': a '/' right after a
+ * digit placeholder and followed by one or by a fixed denominator. Returns -1 otherwise.
+ */
+function findFractionSlash(tokens: FormatToken[]): number {
+  if (tokens.some((token) => token.type === 'decimal' || token.type === 'exponent')) {
+    return -1;
+  }
+
+  return tokens.findIndex(
+    (token, index) =>
+      token.type === 'literal' &&
+      token.text === '/' &&
+      tokens[index - 1]?.type === 'digit' &&
+      isDenominatorToken(tokens[index + 1])
+  );
+}
+
+/**
+ * Checks whether a token can be part of a denominator: a placeholder or a written digit
+ */
+function isDenominatorToken(token: FormatToken | undefined): boolean {
+  return token?.type === 'digit' || (token?.type === 'literal' && /^\d$/.test(token.text));
+}
+
+/**
+ * Renders a number as a fraction. Placeholders before the numerator take the whole part;
+ * without them the numerator takes it. The denominator is either written in the format
+ * ('# ?/8') or the one closest to the value that fits its placeholders ('# ??/??').
+ * When the fraction rounds to nothing, only the whole part is shown.
+ */
+function formatFraction(
+  value: number,
+  tokens: FormatToken[],
+  slashIndex: number,
+  signed: boolean
+): string {
+  let numeratorStart = slashIndex;
+  while (tokens[numeratorStart - 1]?.type === 'digit') numeratorStart--;
+  let denominatorEnd = slashIndex + 1;
+  while (isDenominatorToken(tokens[denominatorEnd])) denominatorEnd++;
+
+  const indexesBetween = (start: number, end: number) =>
+    tokens.flatMap((token, index) =>
+      token.type === 'digit' && index >= start && index < end ? [index] : []
+    );
+  const denominatorTokens = tokens.slice(slashIndex + 1, denominatorEnd);
+  const fixedDenominator =
+    denominatorTokens[0].type === 'literal'
+      ? Number(
+          denominatorTokens
+            .map((token) => (token.type === 'literal' ? token.text : digitChar(token)))
+            .join('')
+        )
+      : 0;
+  const wholeIndexes = indexesBetween(0, numeratorStart);
+  const numeratorIndexes = indexesBetween(numeratorStart, slashIndex);
+  const denominatorIndexes =
+    fixedDenominator > 0 ? [] : indexesBetween(slashIndex + 1, denominatorEnd);
+
+  const absolute = Math.abs(value);
+  let whole = wholeIndexes.length > 0 ? Math.floor(absolute) : 0;
+  let [numerator, denominator] =
+    fixedDenominator > 0
+      ? [Math.round((absolute - whole) * fixedDenominator), fixedDenominator]
+      : closestFraction(absolute - whole, Math.pow(10, denominatorIndexes.length) - 1);
+  if (wholeIndexes.length > 0 && numerator === denominator) {
+    whole += 1;
+    numerator = 0;
+  }
+
+  const rendered = new Map<number, string>();
+  const hideFraction = numerator === 0 && wholeIndexes.length > 0;
+  const wholeText = whole > 0 || hideFraction ? String(whole) : '';
+  renderInteger(wholeText, wholeIndexes, tokens, rendered, null);
+  renderInteger(String(numerator), numeratorIndexes, tokens, rendered, null);
+
+  // The denominator is aligned left, padding its unused placeholders on the right
+  const denominatorText = String(denominator);
+  denominatorIndexes.forEach((index, position) => {
+    const last = position === denominatorIndexes.length - 1;
+    const digits = last ? denominatorText.substring(position) : denominatorText.charAt(position);
+    rendered.set(index, digits || placeholderFill(tokens[index]));
+  });
+
+  let result = '';
+  tokens.forEach((token, index) => {
+    let text = token.type === 'literal' ? token.text : (rendered.get(index) ?? digitChar(token));
+    if (hideFraction && index >= numeratorStart && index < denominatorEnd) {
+      // A hidden fraction keeps its width, unless it is made of '#' placeholders
+      text = digitChar(token) === '#' ? '' : ' '.repeat(text.length);
+    }
+    result += text;
+  });
+
+  const isZero = whole === 0 && numerator === 0;
+  return signed && value < 0 && !isZero ? '-' + result : result;
+}
+
+/**
+ * Finds the fraction closest to a value with a denominator up to a maximum,
+ * preferring the smallest denominator on ties
+ */
+function closestFraction(value: number, maxDenominator: number): [number, number] {
+  let best: [number, number] = [Math.round(value), 1];
+  let bestError = Math.abs(value - best[0]);
+
+  for (let denominator = 2; denominator <= maxDenominator && bestError > 0; denominator++) {
+    const numerator = Math.round(value * denominator);
+    const error = Math.abs(value - numerator / denominator);
+    if (error < bestError) {
+      best = [numerator, denominator];
+      bestError = error;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Returns the placeholder character of a digit token ('0', '#' or '?')
+ */
+function digitChar(token: FormatToken): string {
+  return token.type === 'digit' ? token.char : '';
+}
+
+/**
+ * What an unused digit placeholder shows
+ */
+function placeholderFill(token: FormatToken): string {
+  const char = digitChar(token);
+  return char === '0' ? '0' : char === '?' ? ' ' : '';
+}
+
+/**
+ * Excel's General format: up to 15 significant digits, no grouping
+ */
+function formatGeneral(value: number, separators: NumberSeparators): string {
+  const text = String(parseFloat(value.toPrecision(15)));
+  return separators.decimal === '.' ? text : text.replace('.', separators.decimal);
+}
+
+// ========== DATES ==========
+
+/**
+ * Renders an Excel serial date with date/time codes (yyyy, mmm, dd, hh, mm, ss, AM/PM)
+ */
+function formatDate(serial: number, tokens: FormatToken[], locale?: string): string {
+  const date = serialToUtcDate(serial);
+  const twelveHour = tokens.some(
+    (token) => token.type === 'date' && /^(am\/pm|a\/p)$/.test(token.code.toLowerCase())
+  );
+
+  const dateTokens = tokens
+    .map((token, index) => ({ token, index }))
+    .filter(({ token }) => token.type === 'date');
+
+  // 'm' means minutes right after an hour or right before a second code
+  const isMinute = (position: number): boolean => {
+    const previous = dateTokens[position - 1]?.token as { code: string } | undefined;
+    const next = dateTokens[position + 1]?.token as { code: string } | undefined;
+    return !!previous?.code.match(/^\[?h/) || !!next?.code.match(/^\[?s/);
+  };
+
+  const hours = date.getUTCHours();
+  const elapsedSeconds = Math.round(serial * 86400);
+
+  const names = (option: 'long' | 'short', kind: 'month' | 'weekday') =>
+    new Intl.DateTimeFormat(locale ?? 'en-US', { [kind]: option, timeZone: 'UTC' }).format(date);
+
+  let result = '';
+  let datePosition = 0;
+  tokens.forEach((token) => {
+    if (token.type === 'literal') {
+      result += token.text;
+      return;
+    }
+    if (token.type === 'decimal' || token.type === 'comma') {
+      result += token.type === 'decimal' ? '.' : ',';
+      return;
+    }
+    if (token.type === 'digit') {
+      result += token.char === '0' ? '0' : '';
+      return;
+    }
+    if (token.type !== 'date') return;
+
+    const position = datePosition++;
+    const code = token.code;
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    switch (code) {
+      case 'yy':
+        result += pad(date.getUTCFullYear() % 100);
+        break;
+      case 'y':
+      case 'yyy':
+      case 'yyyy':
+        result += date.getUTCFullYear();
+        break;
+      case 'm':
+      case 'mm':
+        if (isMinute(position)) {
+          result += code === 'mm' ? pad(date.getUTCMinutes()) : date.getUTCMinutes();
+        } else {
+          result += code === 'mm' ? pad(date.getUTCMonth() + 1) : date.getUTCMonth() + 1;
+        }
+        break;
+      case 'mmm':
+        result += names('short', 'month');
+        break;
+      case 'mmmmm':
+        result += names('long', 'month')[0];
+        break;
+      case 'd':
+        result += date.getUTCDate();
+        break;
+      case 'dd':
+        result += pad(date.getUTCDate());
+        break;
+      case 'ddd':
+        result += names('short', 'weekday');
+        break;
+      case 'h':
+      case 'hh': {
+        const hour = twelveHour ? hours % 12 || 12 : hours;
+        result += code === 'hh' ? pad(hour) : hour;
+        break;
+      }
+      case 's':
+        result += date.getUTCSeconds();
+        break;
+      case 'ss':
+        result += pad(date.getUTCSeconds());
+        break;
+      case '[h]':
+      case '[hh]':
+        result += Math.floor(elapsedSeconds / 3600);
+        break;
+      case '[m]':
+      case '[mm]':
+        result += Math.floor(elapsedSeconds / 60);
+        break;
+      case '[s]':
+      case '[ss]':
+        result += elapsedSeconds;
+        break;
+      default:
+        if (/^am\/pm$/i.test(code)) {
+          const marker = hours < 12 ? 'AM' : 'PM';
+          result += code === code.toLowerCase() ? marker.toLowerCase() : marker;
+        } else if (/^a\/p$/i.test(code)) {
+          const marker = hours < 12 ? 'A' : 'P';
+          result += code === code.toLowerCase() ? marker.toLowerCase() : marker;
+        } else if (code.startsWith('mmmm')) {
+          result += names('long', 'month');
+        } else if (code.startsWith('dddd')) {
+          result += names('long', 'weekday');
+        } else if (code.startsWith('y')) {
+          result += date.getUTCFullYear();
+        }
+    }
+  });
+
+  return result;
+}
+
+// ========== LOCALE ==========
+
+/**
+ * Looks up the thousands and decimal separators of a locale (cached)
+ */
+export function getNumberSeparators(locale?: string): NumberSeparators {
+  if (!locale) {
+    return { group: ',', decimal: '.' };
+  }
+
+  let separators = localeSeparators.get(locale);
+  if (!separators) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+    separators = {
+      group: parts.find((part) => part.type === 'group')?.value ?? ',',
+      decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+    };
+    localeSeparators.set(locale, separators);
+  }
+  return separators;
+}
@@ -0,0 +1,115 @@
+import { DependencyGraph, GraphRange } from './dependency-graph';
+
+describe('DependencyGraph', () => {
+  let graph: DependencyGraph;
+
+  const cellRange = (row: number, col: number): GraphRange => ({
+    sheetId: 's1',
+    startRow: row,
+    startCol: col,
+    endRow: row,
+    endCol: col,
+  });
+
+  beforeEach(() => {
+    graph = new DependencyGraph();
+  });
+
+  it('should return direct dependents of a cell', () => {
+    graph.setPrecedents({ sheetId: 's1', row: 0, col: 1 }, [cellRange(0, 0)]);
+
+    expect(graph.getDependents({ sheetId: 's1', row: 0, col: 0 })).toEqual([
+      { sheetId: 's1', row: 0, col: 1 },
+    ]);
+    expect(graph.getDependents({ sheetId: 's1', row: 5, col: 5 })).toEqual([]);
+  });
+
+  it('should match range precedents by containment', () => {
+    const range = DependencyGraph.toGraphRange('s1', {
+      start: { row: 9, col: 0 },
+      end: { row: 0, col: 0 },
+    });
+    graph.setPrecedents({ sheetId: 's1', row: 0, col: 1 }, [range]);
+
+    expect(graph.getDependents({ sheetId: 's1', row: 4, col: 0 }).length).toBe(1);
+    expect(graph.getDependents({ sheetId: 's1', row: 4, col: 1 }).length).toBe(0);
+    expect(graph.getDependents({ sheetId: 's2', row: 4, col: 0 }).length).toBe(0);
+  });
+
+  it('should find range dependents across column bands', () => {
+    const wide = { sheetId: 's1', startRow: 0, startCol: 1, endRow: 9, endCol: 30 };
+    const formulaCell = { sheetId: 's1', row: 20, col: 0 };
+    graph.setPrecedents(formulaCell, [wide]);
+
+    expect(graph.getDependents({ sheetId: 's1', row: 5, col: 1 })).toEqual([formulaCell]);
+    expect(graph.getDependents({ sheetId: 's1', row: 5, col: 30 })).toEqual([formulaCell]);
+    expect(graph.getDependents({ sheetId: 's1', row: 5, col: 31 })).toEqual([]);
+    expect(graph.getDependents({ sheetId: 's1', row: 10, col: 12 })).toEqual([]);
+
+    graph.remove(formulaCell);
+    expect(graph.getDependents({ sheetId: 's1', row: 5, col: 12 })).toEqual([]);
+  });
+
+  it('should order recalculation so precedents come first', () => {
+    // C1 = A1 + B1, B1 = A1 * 2
+    graph.setPrecedents({ sheetId: 's1', row: 0, col: 2 }, [cellRange(0, 0), cellRange(0, 1)]);
+    graph.setPrecedents({ sheetId: 's1', row: 0, col: 1 }, [cellRange(0, 0)]);
+
+    const chain = graph.getCalculationChain([{ sheetId: 's1', row: 0, col: 0 }]);
+    expect(chain).toEqual([
+      [{ sheetId: 's1', row: 0, col: 1 }],
+      [{ sheetId: 's1', row: 0, col: 2 }],
+    ]);
+  });
+
+  it('should order a long chain without overflowing the stack', () => {
+    // A2 = A1 + 1, A3 = A2 + 1, ...
+    const length = 100_000;
+    for (let row = 1; row < length; row++) {
+      graph.setPrecedents({ sheetId: 's1', row, col: 0 }, [cellRange(row - 1, 0)]);
+    }
+
+    const chain = graph.getCalculationChain([{ sheetId: 's1', row: 0, col: 0 }]);
+    expect(chain.length).toBe(length - 1);
+    expect(chain.every((component, index) => component[0].row === index + 1)).toBeTrue();
+  });
+
+  it('should group a cycle into one component and report its path', () => {
+    // A1 = C1, B1 = A1, C1 = B1, D1 = C1
+    const a1 = { sheetId: 's1', row: 0, col: 0 };
+    const b1 = { sheetId: 's1', row: 0, col: 1 };
+    const c1 = { sheetId: 's1', row: 0, col: 2 };
+    const d1 = { sheetId: 's1', row: 0, col: 3 };
+    graph.setPrecedents(a1, [cellRange(0, 2)]);
+    graph.setPrecedents(b1, [cellRange(0, 0)]);
+    graph.setPrecedents(c1, [cellRange(0, 1)]);
+    graph.setPrecedents(d1, [cellRange(0, 2)]);
+
+    const chain = graph.getCalculationChain([a1]);
+    expect(chain.length).toBe(2);
+    expect(chain[0].length).toBe(3);
+    expect(chain[1]).toEqual([d1]);
+
+    expect(graph.getCyclePath(a1, chain[0])).toEqual([a1, c1, b1, a1]);
+    expect(graph.getCyclePath(d1, chain[1])).toBeNull();
+  });
+
+  it('should detect a cell that references itself', () => {
+    const a1 = { sheetId: 's1', row: 0, col: 0 };
+    graph.setPrecedents(a1, [cellRange(0, 0)]);
+    expect(graph.getCyclePath(a1, [a1])).toEqual([a1, a1]);
+  });
+
+  it('should drop old precedents when they are replaced or removed', () => {
+    const formulaCell = { sheetId: 's1', row: 1, col: 0 };
+    graph.setPrecedents(formulaCell, [cellRange(0, 0)]);
+    graph.setPrecedents(formulaCell, [cellRange(0, 1)]);
+
+    expect(graph.getDependents({ sheetId: 's1', row: 0, col: 0 })).toEqual([]);
+    expect(graph.getDependents({ sheetId: 's1', row: 0, col: 1 })).toEqual([formulaCell]);
+
+    graph.remove(formulaCell);
+    expect(graph.getDependents({ sheetId: 's1', row: 0, col: 1 })).toEqual([]);
+    expect(graph.getFormulaCells()).toEqual([]);
+  });
+});
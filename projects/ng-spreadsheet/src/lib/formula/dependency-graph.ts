@@ -0,0 +1,356 @@
+import { CellRange } from '../models';
+
+/**
+ * Number of columns per band of the range index. A range is listed in every band it
+ * overlaps, and looking up the dependents of a cell only checks the ranges of its band.
+ */
+const RANGE_BAND_WIDTH = 8;
+
+/**
+ * Identifies a cell anywhere in the workbook
+ */
+export interface GraphCell {
+  sheetId: string;
+  row: number;
+  col: number;
+}
+
+/**
+ * A block of cells a formula reads from
+ */
+export interface GraphRange {
+  sheetId: string;
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+/**
+ * Tracks which formula cells read from which cells (precedents) and the
+ * reverse relation (dependents), so that a change only recalculates the
+ * formulas that can observe it.
+ *
+ * Single-cell references are indexed per cell. Range references are indexed
+ * by sheet and column band (see RANGE_BAND_WIDTH) and matched by containment,
+ * which avoids expanding large ranges such as SUM(A1:A1000) into one edge per
+ * cell while only checking the ranges that can contain a given cell.
+ */
+export class DependencyGraph {
+  private precedents = new Map<string, GraphRange[]>();
+  private cellDependents = new Map<string, Set<string>>();
+  private rangeDependents = new Map<string, GraphRange[]>();
+  private rangeBands = new Map<string, Set<string>>();
+  private nodes = new Map<string, GraphCell>();
+
+  /**
+   * Builds a graph range from a parsed range, normalizing reversed corners
+   */
+  static toGraphRange(sheetId: string, range: CellRange): GraphRange {
+    return {
+      sheetId,
+      startRow: Math.min(range.start.row, range.end.row),
+      startCol: Math.min(range.start.col, range.end.col),
+      endRow: Math.max(range.start.row, range.end.row),
+      endCol: Math.max(range.start.col, range.end.col),
+    };
+  }
+
+  /**
+   * Replaces the precedents of a formula cell
+   */
+  setPrecedents(cell: GraphCell, precedents: GraphRange[]): void {
+    this.remove(cell);
+    const key = cellKey(cell);
+    this.nodes.set(key, cell);
+    this.precedents.set(key, precedents);
+
+    precedents.forEach((range) => {
+      if (range.startRow === range.endRow && range.startCol === range.endCol) {
+        const precedentKey = cellKey({
+          sheetId: range.sheetId,
+          row: range.startRow,
+          col: range.startCol,
+        });
+        let dependents = this.cellDependents.get(precedentKey);
+        if (!dependents) {
+          dependents = new Set();
+          this.cellDependents.set(precedentKey, dependents);
+        }
+        dependents.add(key);
+      } else {
+        const list = this.rangeDependents.get(key) ?? [];
+        list.push(range);
+        this.rangeDependents.set(key, list);
+        getBandKeys(range).forEach((bandKey) => {
+          let band = this.rangeBands.get(bandKey);
+          if (!band) {
+            band = new Set();
+            this.rangeBands.set(bandKey, band);
+          }
+          band.add(key);
+        });
+      }
+    });
+  }
+
+  /**
+   * Removes a cell from the graph (e.g. when its formula is cleared)
+   */
+  remove(cell: GraphCell): void {
+    const key = cellKey(cell);
+    const previous = this.precedents.get(key);
+    if (!previous) {
+      return;
+    }
+
+    this.rangeDependents.get(key)?.forEach((range) => {
+      getBandKeys(range).forEach((bandKey) => {
+        const band = this.rangeBands.get(bandKey);
+        band?.delete(key);
+        if (band?.size === 0) {
+          this.rangeBands.delete(bandKey);
+        }
+      });
+    });
+
+    previous.forEach((range) => {
+      const precedentKey = cellKey({
+        sheetId: range.sheetId,
+        row: range.startRow,
+        col: range.startCol,
+      });
+      const dependents = this.cellDependents.get(precedentKey);
+      if (dependents) {
+        dependents.delete(key);
+        if (dependents.size === 0) {
+          this.cellDependents.delete(precedentKey);
+        }
+      }
+    });
+
+    this.precedents.delete(key);
+    this.rangeDependents.delete(key);
+    this.nodes.delete(key);
+  }
+
+  /**
+   * Removes every formula cell that belongs to a sheet
+   */
+  removeSheet(sheetId: string): void {
+    this.getFormulaCells(sheetId).forEach((cell) => this.remove(cell));
+  }
+
+  /**
+   * Removes all cells from the graph
+   */
+  clear(): void {
+    this.precedents.clear();
+    this.cellDependents.clear();
+    this.rangeDependents.clear();
+    this.rangeBands.clear();
+    this.nodes.clear();
+  }
+
+  /**
+   * Returns the ranges a formula cell reads from
+   */
+  getPrecedents(cell: GraphCell): GraphRange[] {
+    return this.precedents.get(cellKey(cell)) ?? [];
+  }
+
+  /**
+   * Returns the formula cells that read directly from a cell
+   */
+  getDependents(cell: GraphCell): GraphCell[] {
+    const key = cellKey(cell);
+    const result = new Set<string>(this.cellDependents.get(key) ?? []);
+
+    this.rangeBands.get(bandKey(cell.sheetId, getBand(cell.col)))?.forEach((dependentKey) => {
+      const ranges = this.rangeDependents.get(dependentKey)!;
+      if (ranges.some((range) => rangeContains(range, cell))) {
+        result.add(dependentKey);
+      }
+    });
+
+    return Array.from(result, (dependentKey) => this.nodes.get(dependentKey)!);
+  }
+
+  /**
+   * Returns every formula cell in the graph, optionally limited to one sheet
+   */
+  getFormulaCells(sheetId?: string): GraphCell[] {
+    const cells = Array.from(this.nodes.values());
+    return sheetId === undefined ? cells : cells.filter((cell) => cell.sheetId === sheetId);
+  }
+
+  /**
+   * Returns the formula cells affected by a change to the given cells, grouped into
+   * strongly connected components and ordered so that every group comes after the
+   * groups it reads from. A group with more than one cell (or a single cell that
+   * references itself) is a circular reference.
+   * Changed cells that are formulas themselves are included.
+   */
+  getCalculationChain(changed: GraphCell[]): GraphCell[][] {
+    // Tarjan's algorithm over the dependents edges; components are emitted
+    // in reverse topological order. The depth-first search keeps its own stack
+    // of frames so that long dependency chains do not overflow the call stack.
+    let nextIndex = 0;
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: GraphCell[] = [];
+    const onStack = new Set<string>();
+    const components: GraphCell[][] = [];
+
+    interface Frame {
+      key: string;
+      dependents: Iterator<GraphCell>;
+    }
+    const frames: Frame[] = [];
+
+    const open = (cell: GraphCell) => {
+      const key = cellKey(cell);
+      indices.set(key, nextIndex);
+      lowLinks.set(key, nextIndex);
+      nextIndex++;
+      stack.push(cell);
+      onStack.add(key);
+      frames.push({ key, dependents: this.getDependents(cell)[Symbol.iterator]() });
+    };
+
+    const close = (key: string) => {
+      if (lowLinks.get(key) === indices.get(key)) {
+        const component: GraphCell[] = [];
+        let member: GraphCell;
+        do {
+          member = stack.pop()!;
+          onStack.delete(cellKey(member));
+          component.unshift(member);
+        } while (cellKey(member) !== key);
+
+        // Plain (non-formula) cells can never be part of a cycle
+        if (this.nodes.has(key)) {
+          components.push(component);
+        }
+      }
+    };
+
+    const connect = (cell: GraphCell) => {
+      open(cell);
+      while (frames.length > 0) {
+        const frame = frames[frames.length - 1];
+        const next = frame.dependents.next();
+        if (next.done) {
+          frames.pop();
+          close(frame.key);
+          const parent = frames[frames.length - 1];
+          if (parent) {
+            lowLinks.set(
+              parent.key,
+              Math.min(lowLinks.get(parent.key)!, lowLinks.get(frame.key)!)
+            );
+          }
+          continue;
+        }
+
+        const dependentKey = cellKey(next.value);
+        if (!indices.has(dependentKey)) {
+          open(next.value);
+        } else if (onStack.has(dependentKey)) {
+          lowLinks.set(
+            frame.key,
+            Math.min(lowLinks.get(frame.key)!, indices.get(dependentKey)!)
+          );
+        }
+      }
+    };
+
+    changed.forEach((cell) => {
+      if (!indices.has(cellKey(cell))) {
+        connect(cell);
+      }
+    });
+
+    return components.reverse();
+  }
+
+  /**
+   * Returns the shortest circular path that starts and ends at a cell, following
+   * references through the members of its component (e.g. A1 → B1 → A1).
+   * Returns null when the cell is not part of a cycle.
+   */
+  getCyclePath(cell: GraphCell, component: GraphCell[]): GraphCell[] | null {
+    const startKey = cellKey(cell);
+    const previous = new Map<string, GraphCell>();
+    const queue: GraphCell[] = [cell];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const ranges = this.getPrecedents(current);
+
+      for (const member of component) {
+        if (!ranges.some((range) => rangeContains(range, member))) continue;
+
+        const memberKey = cellKey(member);
+        if (memberKey === startKey) {
+          const path = [cell];
+          for (let step: GraphCell | undefined = current; step; step = previous.get(cellKey(step))) {
+            path.unshift(step);
+          }
+          return path;
+        }
+        if (!previous.has(memberKey)) {
+          previous.set(memberKey, current);
+          queue.push(member);
+        }
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Builds the map key of a cell
+ */
+function cellKey(cell: GraphCell): string {
+  return `${cell.sheetId}!${cell.row}:${cell.col}`;
+}
+
+/**
+ * Returns the column band of a column
+ */
+function getBand(col: number): number {
+  return Math.floor(col / RANGE_BAND_WIDTH);
+}
+
+/**
+ * Builds the map key of a column band of a sheet
+ */
+function bandKey(sheetId: string, band: number): string {
+  return `${sheetId}!${band}`;
+}
+
+/**
+ * Returns the keys of the column bands a range overlaps
+ */
+function getBandKeys(range: GraphRange): string[] {
+  const keys: string[] = [];
+  for (let band = getBand(range.startCol); band <= getBand(range.endCol); band++) {
+    keys.push(bandKey(range.sheetId, band));
+  }
+  return keys;
+}
+
+/**
+ * Checks whether a cell lies inside a range
+ */
+function rangeContains(range: GraphRange, cell: GraphCell): boolean {
+  return (
+    range.sheetId === cell.sheetId &&
+    cell.row >= range.startRow &&
+    cell.row <= range.endRow &&
+    cell.col >= range.startCol &&
+    cell.col <= range.endCol
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * Error codes a formula can produce.
+ * '#CIRC!' marks circular references and '#ERROR!' formulas that cannot be parsed;
+ * the rest are Excel's standard error values.
+ */
+export type FormulaErrorCode =
+  | '#NULL!'
+  | '#DIV/0!'
+  | '#VALUE!'
+  | '#REF!'
+  | '#NAME?'
+  | '#NUM!'
+  | '#N/A'
+  | '#CIRC!'
+  | '#ERROR!';
+
+/**
+ * Excel's error values, in the order ERROR.TYPE numbers them (1-7)
+ */
+export const EXCEL_ERROR_CODES: FormulaErrorCode[] = [
+  '#NULL!',
+  '#DIV/0!',
+  '#VALUE!',
+  '#REF!',
+  '#NAME?',
+  '#NUM!',
+  '#N/A',
+];
+
+/**
+ * An error value produced while evaluating a formula (e.g. '#DIV/0!').
+ * Errors are passed around as values so functions like ISERROR and COUNTA can
+ * inspect them, and are thrown when an operator or function consumes them.
+ */
+export class FormulaError extends Error {
+  constructor(public readonly code: FormulaErrorCode) {
+    super(code);
+    this.name = 'FormulaError';
+  }
+}
+
+/**
+ * Parses an Excel error literal such as '#n/a' (case-insensitive).
+ * Returns null if the text is not an error value.
+ */
+export function toFormulaErrorCode(text: string): FormulaErrorCode | null {
+  const upper = text.trim().toUpperCase();
+  return EXCEL_ERROR_CODES.find((code) => code === upper) ?? null;
+}
@@ -0,0 +1,211 @@
+import { parseFormula } from './formula-parser';
+import {
+  adjustReferenceForDelete,
+  adjustReferenceForInsert,
+  shiftFormulaReferences,
+  transformFormulaReferences,
+  renameFormulaName
+} from './formula-references';
+import { FormulaSyntaxError, tokenizeFormula } from './formula-tokenizer';
+
+describe('Formula Parser', () => {
+  describe('tokenizeFormula', () => {
+    it('should tokenize references, ranges and functions', () => {
+      const tokens = tokenizeFormula('SUM(a1:$B$2)*C3').filter(t => t.type !== 'whitespace');
+      expect(tokens.map(t => [t.type, t.text])).toEqual([
+        ['function', 'SUM'],
+        ['lparen', '('],
+        ['reference', 'A1:$B$2'],
+        ['rparen', ')'],
+        ['operator', '*'],
+        ['reference', 'C3'],
+      ]);
+    });
+
+    it('should keep source offsets for each token', () => {
+      const tokens = tokenizeFormula('A1 + B22');
+      const ref = tokens.find(t => t.text === 'B22')!;
+      expect(ref.start).toBe(5);
+      expect(ref.end).toBe(8);
+    });
+
+    it('should not treat function names like LOG10 as references', () => {
+      const tokens = tokenizeFormula('LOG10(100)');
+      expect(tokens[0].type).toBe('function');
+      expect(tokens[0].text).toBe('LOG10');
+    });
+
+    it('should tokenize sheet-qualified references, keeping the sheet name', () => {
+      const tokens = tokenizeFormula("Sheet2!a1+'My ''Q'' Sheet'!B2:C9");
+      expect(tokens[0]).toEqual(
+        jasmine.objectContaining({ type: 'reference', text: 'Sheet2!A1', sheet: 'Sheet2' })
+      );
+      expect(tokens[2]).toEqual(
+        jasmine.objectContaining({ type: 'reference', sheet: "My 'Q' Sheet", end: 32 })
+      );
+    });
+
+    it('should tokenize error literals', () => {
+      expect(tokenizeFormula('#REF!+1')[0]).toEqual(
+        jasmine.objectContaining({ type: 'error', text: '#REF!' })
+      );
+    });
+
+    it('should reject unterminated strings', () => {
+      expect(() => tokenizeFormula('"abc')).toThrowError(FormulaSyntaxError);
+    });
+  });
+
+  describe('parseFormula', () => {
+    it('should build a binary tree honoring precedence', () => {
+      const ast = parseFormula('=1+2*3');
+      expect(ast).toEqual({
+        type: 'binary',
+        operator: '+',
+        left: { type: 'number', value: 1 },
+        right: {
+          type: 'binary',
+          operator: '*',
+          left: { type: 'number', value: 2 },
+          right: { type: 'number', value: 3 },
+        },
+      });
+    });
+
+    it('should parse nested function calls with multiple arguments', () => {
+      const ast = parseFormula('=ROUND(AVERAGE(B2:B9),2)');
+      expect(ast.type).toBe('function');
+      if (ast.type === 'function') {
+        expect(ast.name).toBe('ROUND');
+        expect(ast.args.length).toBe(2);
+        expect(ast.args[0].type).toBe('function');
+      }
+    });
+
+    it('should parse ranges with absolute markers', () => {
+      const ast = parseFormula('$A$1:B2');
+      expect(ast).toEqual({
+        type: 'range',
+        range: {
+          start: { row: 0, col: 0, absoluteRow: true, absoluteCol: true },
+          end: { row: 1, col: 1, absoluteRow: false, absoluteCol: false },
+        },
+      });
+    });
+
+    it('should parse sheet-qualified cells and ranges', () => {
+      expect(parseFormula("='My Sheet'!B2:C9")).toEqual({
+        type: 'range',
+        range: {
+          start: { row: 1, col: 1, absoluteRow: false, absoluteCol: false },
+          end: { row: 8, col: 2, absoluteRow: false, absoluteCol: false },
+          sheet: 'My Sheet',
+        },
+      });
+      expect(parseFormula('=Data!$A$1')).toEqual({
+        type: 'cell',
+        address: { row: 0, col: 0, absoluteRow: true, absoluteCol: true },
+        sheet: 'Data',
+      });
+    });
+
+    it('should parse postfix percent and prefix minus', () => {
+      const ast = parseFormula('=-5%');
+      expect(ast).toEqual({
+        type: 'unary',
+        operator: '%',
+        operand: { type: 'unary', operator: '-', operand: { type: 'number', value: 5 } },
+      });
+    });
+
+    it('should throw on trailing tokens', () => {
+      expect(() => parseFormula('=1 2')).toThrowError(FormulaSyntaxError);
+    });
+  });
+
+  describe('transformFormulaReferences', () => {
+    it('should rewrite only matching references and keep the rest of the formula', () => {
+      const result = transformFormulaReferences("=SUM(Old!A1:A3) + old!B1 * C1", (reference) =>
+        reference.sheet?.toLowerCase() === 'old' ? { ...reference, sheet: 'New Name' } : reference
+      );
+      expect(result).toBe("=SUM('New Name'!A1:A3) + 'New Name'!B1 * C1");
+    });
+
+    it('should replace removed references with #REF!', () => {
+      const result = transformFormulaReferences('=Gone!A1+1', () => null);
+      expect(result).toBe('=#REF!+1');
+    });
+
+    it('should leave plain values and malformed formulas untouched', () => {
+      expect(transformFormulaReferences('A1', () => null)).toBe('A1');
+      expect(transformFormulaReferences('="abc', () => null)).toBe('="abc');
+    });
+  });
+
+  describe('renameFormulaName', () => {
+    it('should rename a defined name ignoring case and keep the rest of the formula', () => {
+      expect(renameFormulaName('=taxrate * SUM(TaxRates) + TAXRATE', 'TaxRate', 'Vat')).toBe(
+        '=Vat * SUM(TaxRates) + Vat'
+      );
+      expect(renameFormulaName('=A1+1', 'TaxRate', 'Vat')).toBe('=A1+1');
+    });
+  });
+
+  describe('shiftFormulaReferences', () => {
+    it('should shift relative references and keep absolute parts', () => {
+      expect(shiftFormulaReferences('=A1+$B$2+$C3+D$4', 1, 2)).toBe('=C2+$B$2+$C4+F$4');
+      expect(shiftFormulaReferences("=SUM('My Sheet'!A1:B2)", 2, 0)).toBe(
+        "=SUM('My Sheet'!A3:B4)"
+      );
+    });
+
+    it('should return #REF! for references moved off the grid', () => {
+      expect(shiftFormulaReferences('=A2+B1', -1, 0)).toBe('=A1+#REF!');
+    });
+
+    it('should leave values that are not formulas untouched', () => {
+      expect(shiftFormulaReferences('A1', 1, 1)).toBe('A1');
+    });
+  });
+
+  describe('reference adjustment', () => {
+    const insertRow = (formula: string, index: number) =>
+      transformFormulaReferences(formula, (reference) =>
+        adjustReferenceForInsert(reference, 'row', index)
+      );
+    const deleteRow = (formula: string, index: number, count = 1) =>
+      transformFormulaReferences(formula, (reference) =>
+        adjustReferenceForDelete(reference, 'row', index, count)
+      );
+    const deleteColumn = (formula: string, index: number) =>
+      transformFormulaReferences(formula, (reference) =>
+        adjustReferenceForDelete(reference, 'col', index)
+      );
+
+    it('should grow ranges when rows are inserted inside them', () => {
+      expect(insertRow('=SUM(A1:A10)', 2)).toBe('=SUM(A1:A11)');
+      expect(insertRow('=SUM(A3:A10)', 2)).toBe('=SUM(A4:A11)');
+      expect(insertRow('=SUM(A1:A10)', 10)).toBe('=SUM(A1:A10)');
+    });
+
+    it('should move absolute references and keep their markers', () => {
+      expect(insertRow('=$A$5+A$5+$A5', 0)).toBe('=$A$6+A$6+$A6');
+    });
+
+    it('should shrink ranges and shift references below deleted rows', () => {
+      expect(deleteRow('=SUM(A1:A10)+A12', 2)).toBe('=SUM(A1:A9)+A11');
+      expect(deleteRow('=SUM(A3:A10)', 1, 3)).toBe('=SUM(A2:A7)');
+      expect(deleteRow('=SUM(A1:A10)', 9)).toBe('=SUM(A1:A9)');
+    });
+
+    it('should turn references to deleted cells into #REF!', () => {
+      expect(deleteRow('=A3*2', 2)).toBe('=#REF!*2');
+      expect(deleteRow('=SUM(A3:B4)', 2, 2)).toBe('=SUM(#REF!)');
+      expect(deleteColumn("='My Sheet'!B1+A1", 1)).toBe('=#REF!+A1');
+    });
+
+    it('should keep references before the change untouched', () => {
+      expect(deleteRow('=A1+Sheet2!B2', 5)).toBe('=A1+Sheet2!B2');
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { CellAddress, CellRange, a1ToCellAddress } from '../models';
+import { FormulaErrorCode } from './formula-error';
+import { FormulaSyntaxError, FormulaToken, tokenizeFormula } from './formula-tokenizer';
+
+/**
+ * Binary operators supported in formulas, in Excel's notation
+ */
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '^'
+  | '&'
+  | '='
+  | '<>'
+  | '<'
+  | '>'
+  | '<='
+  | '>=';
+
+/**
+ * Prefix (+, -) and postfix (%) operators
+ */
+export type UnaryOperator = '+' | '-' | '%';
+
+/**
+ * A node of the abstract syntax tree produced by {@link parseFormula}
+ */
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; code: FormulaErrorCode }
+  | { type: 'cell'; address: CellAddress; sheet?: string }
+  | { type: 'range'; range: CellRange }
+  | { type: 'name'; name: string }
+  | { type: 'function'; name: string; args: FormulaNode[] }
+  | { type: 'unary'; operator: UnaryOperator; operand: FormulaNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode };
+
+const COMPARISON_OPERATORS: BinaryOperator[] = ['=', '<>', '<', '>', '<=', '>='];
+
+/**
+ * Parses a formula into an AST.
+ * Accepts the formula with or without its leading '='.
+ *
+ * Operator precedence follows Excel, from lowest to highest:
+ * comparison, &, + -, * /, ^, %, unary minus/plus.
+ *
+ * @throws FormulaSyntaxError if the formula is malformed
+ */
+export function parseFormula(formula: string): FormulaNode {
+  const trimmed = formula.trim();
+  const expression = trimmed.startsWith('=') ? trimmed.substring(1) : trimmed;
+  const tokens = tokenizeFormula(expression).filter((t) => t.type !== 'whitespace');
+
+  if (tokens.length === 0) {
+    throw new FormulaSyntaxError('Empty formula', 0);
+  }
+
+  return new FormulaParser(tokens, expression.length).parse();
+}
+
+/**
+ * Recursive-descent parser over a token list
+ */
+class FormulaParser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: FormulaToken[],
+    private readonly length: number
+  ) {}
+
+  parse(): FormulaNode {
+    const node = this.parseComparison();
+    const extra = this.peek();
+    if (extra) {
+      throw new FormulaSyntaxError(`Unexpected '${extra.text}'`, extra.start);
+    }
+    return node;
+  }
+
+  private parseComparison(): FormulaNode {
+    let left = this.parseConcatenation();
+    while (this.isOperator(...COMPARISON_OPERATORS)) {
+      const operator = this.next().text as BinaryOperator;
+      const right = this.parseConcatenation();
+      left = { type: 'binary', operator, left, right };
+    }
+    return left;
+  }
+
+  private parseConcatenation(): FormulaNode {
+    let left = this.parseAdditive();
+    while (this.isOperator('&')) {
+      this.next();
+      const right = this.parseAdditive();
+      left = { type: 'binary', operator: '&', left, right };
+    }
+    return left;
+  }
+
+  private parseAdditive(): FormulaNode {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+', '-')) {
+      const operator = this.next().text as BinaryOperator;
+      const right = this.parseMultiplicative();
+      left = { type: 'binary', operator, left, right };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    let left = this.parseExponent();
+    while (this.isOperator('*', '/')) {
+      const operator = this.next().text as BinaryOperator;
+      const right = this.parseExponent();
+      left = { type: 'binary', operator, left, right };
+    }
+    return left;
+  }
+
+  private parseExponent(): FormulaNode {
+    let left = this.parsePercent();
+    while (this.isOperator('^')) {
+      this.next();
+      const right = this.parsePercent();
+      left = { type: 'binary', operator: '^', left, right };
+    }
+    return left;
+  }
+
+  private parsePercent(): FormulaNode {
+    let operand = this.parseUnary();
+    while (this.isOperator('%')) {
+      this.next();
+      operand = { type: 'unary', operator: '%', operand };
+    }
+    return operand;
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.isOperator('+', '-')) {
+      const operator = this.next().text as UnaryOperator;
+      return { type: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.peek();
+    if (!token) {
+      throw new FormulaSyntaxError('Unexpected end of formula', this.length);
+    }
+
+    switch (token.type) {
+      case 'number':
+        this.next();
+        return { type: 'number', value: parseFloat(token.text) };
+
+      case 'string':
+        this.next();
+        return { type: 'string', value: token.text };
+
+      case 'boolean':
+        this.next();
+        return { type: 'boolean', value: token.text === 'TRUE' };
+
+      case 'error':
+        this.next();
+        return { type: 'error', code: token.text as FormulaErrorCode };
+
+      case 'reference':
+        this.next();
+        return parseReference(token);
+
+      case 'name':
+        this.next();
+        return { type: 'name', name: token.text };
+
+      case 'function':
+        return this.parseFunction();
+
+      case 'lparen': {
+        this.next();
+        const inner = this.parseComparison();
+        this.expect('rparen');
+        return inner;
+      }
+
+      default:
+        throw new FormulaSyntaxError(`Unexpected '${token.text}'`, token.start);
+    }
+  }
+
+  private parseFunction(): FormulaNode {
+    const name = this.next().text;
+    this.expect('lparen');
+
+    const args: FormulaNode[] = [];
+    if (this.peek()?.type === 'rparen') {
+      this.next();
+      return { type: 'function', name, args };
+    }
+
+    while (true) {
+      args.push(this.parseComparison());
+      const token = this.peek();
+      if (token?.type === 'comma') {
+        this.next();
+        continue;
+      }
+      this.expect('rparen');
+      break;
+    }
+
+    return { type: 'function', name, args };
+  }
+
+  private peek(): FormulaToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): FormulaToken {
+    return this.tokens[this.index++];
+  }
+
+  private expect(type: FormulaToken['type']): FormulaToken {
+    const token = this.peek();
+    if (!token || token.type !== type) {
+      throw new FormulaSyntaxError(
+        `Expected ${type}`,
+        token ? token.start : this.length
+      );
+    }
+    return this.next();
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    return token?.type === 'operator' && operators.includes(token.text);
+  }
+}
+
+/**
+ * Converts a reference token (A1, A1:B10, Sheet2!A1) into an AST node
+ */
+function parseReference(token: FormulaToken): FormulaNode {
+  const text = token.sheet === undefined ? token.text : token.text.split('!').pop()!;
+  const [start, end] = text.split(':');
+
+  if (end === undefined) {
+    const node: FormulaNode = { type: 'cell', address: a1ToCellAddress(start) };
+    if (token.sheet !== undefined) {
+      node.sheet = token.sheet;
+    }
+    return node;
+  }
+
+  const range: CellRange = { start: a1ToCellAddress(start), end: a1ToCellAddress(end) };
+  if (token.sheet !== undefined) {
+    range.sheet = token.sheet;
+  }
+  return { type: 'range', range };
+}
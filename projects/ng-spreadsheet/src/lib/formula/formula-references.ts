@@ -0,0 +1,230 @@
+import { CellAddress, CellRange, a1ToCellRange, cellRangeToA1 } from '../models';
+import { FormulaNode } from './formula-parser';
+import { FormulaSyntaxError, tokenizeFormula } from './formula-tokenizer';
+
+/**
+ * Rewrites a single reference found in a formula.
+ * Receives the parsed reference and whether it was written as a range (A1:B2)
+ * rather than a single cell. Returns the replacement, the same object to keep
+ * the reference unchanged, or null to replace it with #REF!.
+ */
+export type ReferenceTransform = (reference: CellRange, isRange: boolean) => CellRange | null;
+
+/**
+ * Collects every cell and range referenced by a formula AST.
+ * Single cells are returned as ranges whose start and end are equal.
+ */
+export function getFormulaReferences(node: FormulaNode): CellRange[] {
+  const references: CellRange[] = [];
+
+  const visit = (current: FormulaNode) => {
+    switch (current.type) {
+      case 'cell': {
+        const range: CellRange = { start: current.address, end: current.address };
+        if (current.sheet !== undefined) {
+          range.sheet = current.sheet;
+        }
+        references.push(range);
+        break;
+      }
+      case 'range':
+        references.push(current.range);
+        break;
+      case 'function':
+        current.args.forEach(visit);
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+    }
+  };
+
+  visit(node);
+  return references;
+}
+
+/**
+ * Rewrites the references of a formula in place, leaving everything else
+ * (spacing, literals, function names) untouched.
+ * Values that are not formulas, or formulas that cannot be tokenized, are returned as-is.
+ */
+export function transformFormulaReferences(formula: string, transform: ReferenceTransform): string {
+  if (typeof formula !== 'string' || !formula.startsWith('=')) {
+    return formula;
+  }
+
+  const expression = formula.substring(1);
+  let tokens;
+  try {
+    tokens = tokenizeFormula(expression);
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) {
+      return formula;
+    }
+    throw error;
+  }
+
+  let result = '';
+  let offset = 0;
+
+  for (const token of tokens) {
+    if (token.type !== 'reference') continue;
+
+    const reference = a1ToCellRange(token.text);
+    const replacement = transform(reference, token.text.includes(':'));
+    if (replacement === reference) continue;
+
+    result += expression.substring(offset, token.start);
+    result += replacement ? formatReference(replacement, token.text.includes(':')) : '#REF!';
+    offset = token.end;
+  }
+
+  return '=' + result + expression.substring(offset);
+}
+
+/**
+ * Replaces the uses of a defined name in a formula (matched ignoring case) with a new name,
+ * leaving everything else untouched.
+ * Values that are not formulas, or formulas that cannot be tokenized, are returned as-is.
+ */
+export function renameFormulaName(formula: string, oldName: string, newName: string): string {
+  if (typeof formula !== 'string' || !formula.startsWith('=')) {
+    return formula;
+  }
+
+  const expression = formula.substring(1);
+  let tokens;
+  try {
+    tokens = tokenizeFormula(expression);
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) {
+      return formula;
+    }
+    throw error;
+  }
+
+  const lowerName = oldName.toLowerCase();
+  let result = '';
+  let offset = 0;
+
+  for (const token of tokens) {
+    if (token.type !== 'name' || token.text.toLowerCase() !== lowerName) continue;
+
+    result += expression.substring(offset, token.start) + newName;
+    offset = token.end;
+  }
+
+  return offset === 0 ? formula : '=' + result + expression.substring(offset);
+}
+
+/**
+ * Formats a reference, keeping the A1:A1 form when the original was written as a range
+ */
+function formatReference(reference: CellRange, isRange: boolean): string {
+  const text = cellRangeToA1(reference);
+  if (!isRange || text.includes(':')) {
+    return text;
+  }
+  return `${text}:${cellRangeToA1({ start: reference.end, end: reference.end })}`;
+}
+
+/**
+ * Axis along which rows or columns are inserted or deleted
+ */
+export type ReferenceAxis = 'row' | 'col';
+
+/**
+ * Adjusts a reference for `count` rows or columns inserted at `index`, as Excel does.
+ * Coordinates at or after the insertion point move by `count` (absolute ones too,
+ * the `$` markers are kept), so a range grows when the insertion falls inside it.
+ * Returns the same object when the reference is not affected.
+ */
+export function adjustReferenceForInsert(
+  reference: CellRange,
+  axis: ReferenceAxis,
+  index: number,
+  count = 1
+): CellRange {
+  const start = reference.start[axis];
+  const end = reference.end[axis];
+  if (end < index) {
+    return reference;
+  }
+
+  return {
+    ...reference,
+    start: { ...reference.start, [axis]: start >= index ? start + count : start },
+    end: { ...reference.end, [axis]: end + count },
+  };
+}
+
+/**
+ * Adjusts a reference for `count` rows or columns deleted at `index`, as Excel does.
+ * Coordinates after the deleted block move back, a range that loses some of its
+ * rows or columns shrinks, and a reference whose cells are all deleted returns null (#REF!).
+ * Returns the same object when the reference is not affected.
+ */
+export function adjustReferenceForDelete(
+  reference: CellRange,
+  axis: ReferenceAxis,
+  index: number,
+  count = 1
+): CellRange | null {
+  const last = index + count - 1;
+  const start = reference.start[axis];
+  const end = reference.end[axis];
+  if (end < index) {
+    return reference;
+  }
+  if (start >= index && end <= last) {
+    return null;
+  }
+
+  const newStart = start < index ? start : Math.max(start - count, index);
+  const newEnd = end > last ? end - count : index - 1;
+
+  return {
+    ...reference,
+    start: { ...reference.start, [axis]: newStart },
+    end: { ...reference.end, [axis]: newEnd },
+  };
+}
+
+/**
+ * Translates the relative references of a formula copied `rowOffset` rows down and
+ * `colOffset` columns right, as Excel does on paste and fill.
+ * Absolute parts ($A$1, $A1, A$1) stay fixed; references pushed above row 1 or left
+ * of column A become #REF!. Values that are not formulas are returned as-is.
+ */
+export function shiftFormulaReferences(
+  formula: string,
+  rowOffset: number,
+  colOffset: number
+): string {
+  if (rowOffset === 0 && colOffset === 0) {
+    return formula;
+  }
+
+  return transformFormulaReferences(formula, (reference) => {
+    const start = shiftAddress(reference.start, rowOffset, colOffset);
+    const end = shiftAddress(reference.end, rowOffset, colOffset);
+    return start && end ? { ...reference, start, end } : null;
+  });
+}
+
+/**
+ * Moves the relative parts of an address, or returns null if it leaves the grid
+ */
+function shiftAddress(
+  address: CellAddress,
+  rowOffset: number,
+  colOffset: number
+): CellAddress | null {
+  const row = address.absoluteRow ? address.row : address.row + rowOffset;
+  const col = address.absoluteCol ? address.col : address.col + colOffset;
+  return row >= 0 && col >= 0 ? { ...address, row, col } : null;
+}
@@ -0,0 +1,227 @@
+/**
+ * Kinds of tokens produced by the formula tokenizer
+ */
+export type FormulaTokenType =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'reference'
+  | 'error'
+  | 'function'
+  | 'name'
+  | 'operator'
+  | 'comma'
+  | 'lparen'
+  | 'rparen'
+  | 'whitespace';
+
+/**
+ * A single token of a formula expression.
+ * `start`/`end` are offsets into the tokenized expression so callers can
+ * rewrite parts of a formula without re-serializing the whole thing.
+ */
+export interface FormulaToken {
+  /** Kind of token */
+  type: FormulaTokenType;
+
+  /** Source text of the token (function names and references are upper-cased) */
+  text: string;
+
+  /** Start offset (inclusive) in the expression */
+  start: number;
+
+  /** End offset (exclusive) in the expression */
+  end: number;
+
+  /** Unquoted sheet name of a sheet-qualified reference (Sheet2!A1, 'My Sheet'!A1) */
+  sheet?: string;
+}
+
+/**
+ * Error thrown when a formula cannot be tokenized or parsed
+ */
+export class FormulaSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'FormulaSyntaxError';
+  }
+}
+
+const CELL_PATTERN = /^\$?[A-Za-z]{1,3}\$?\d+/;
+const QUOTED_SHEET_PATTERN = /^'((?:[^']|'')+)'!/;
+const UNQUOTED_SHEET_PATTERN = /^([A-Za-z_][A-Za-z0-9_.]*)!/;
+const ERROR_PATTERN = /^#(NULL!|DIV\/0!|VALUE!|REF!|NAME\?|NUM!|N\/A)/i;
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*/;
+const TWO_CHAR_OPERATORS = ['<=', '>=', '<>'];
+const ONE_CHAR_OPERATORS = ['+', '-', '*', '/', '^', '&', '=', '<', '>', '%'];
+
+/**
+ * Splits a formula expression (without the leading '=') into tokens.
+ *
+ * Cell references and ranges (A1, $B$2, A1:C10), optionally qualified with
+ * a sheet name (Sheet2!A1, 'My Sheet'!B2:C9), are emitted as a single
+ * 'reference' token. An identifier directly followed by '(' is a 'function'
+ * token; any other identifier is a 'name'.
+ */
+export function tokenizeFormula(expression: string): FormulaToken[] {
+  const tokens: FormulaToken[] = [];
+  let pos = 0;
+
+  const push = (type: FormulaTokenType, text: string, length: number) => {
+    tokens.push({ type, text, start: pos, end: pos + length });
+    pos += length;
+  };
+
+  while (pos < expression.length) {
+    const rest = expression.substring(pos);
+    const char = rest[0];
+
+    // Whitespace is kept so formulas can be rewritten in place
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      push('whitespace', whitespace[0], whitespace[0].length);
+      continue;
+    }
+
+    // String literal ("" escapes a quote)
+    if (char === '"') {
+      let value = '';
+      let i = 1;
+      let closed = false;
+      while (i < rest.length) {
+        if (rest[i] === '"') {
+          if (rest[i + 1] === '"') {
+            value += '"';
+            i += 2;
+            continue;
+          }
+          closed = true;
+          i++;
+          break;
+        }
+        value += rest[i];
+        i++;
+      }
+      if (!closed) {
+        throw new FormulaSyntaxError('Unterminated string literal', pos);
+      }
+      push('string', value, i);
+      continue;
+    }
+
+    // Error literal (#REF!, #DIV/0!, ...)
+    const error = rest.match(ERROR_PATTERN);
+    if (error) {
+      push('error', error[0].toUpperCase(), error[0].length);
+      continue;
+    }
+
+    // Sheet-qualified reference or range
+    const sheetPrefix = rest.match(QUOTED_SHEET_PATTERN) ?? rest.match(UNQUOTED_SHEET_PATTERN);
+    if (sheetPrefix) {
+      const qualified = matchReference(rest.substring(sheetPrefix[0].length));
+      if (!qualified) {
+        throw new FormulaSyntaxError('Expected a reference after the sheet name', pos);
+      }
+      const sheet = sheetPrefix[1].replace(/''/g, "'");
+      tokens.push({
+        type: 'reference',
+        text: sheetPrefix[0] + qualified.toUpperCase(),
+        start: pos,
+        end: pos + sheetPrefix[0].length + qualified.length,
+        sheet,
+      });
+      pos += sheetPrefix[0].length + qualified.length;
+      continue;
+    }
+
+    // Cell reference or range
+    const reference = matchReference(rest);
+    if (reference) {
+      push('reference', reference.toUpperCase(), reference.length);
+      continue;
+    }
+
+    // Number literal
+    const number = rest.match(NUMBER_PATTERN);
+    if (number) {
+      push('number', number[0], number[0].length);
+      continue;
+    }
+
+    // Function name, boolean or name
+    const identifier = rest.match(IDENTIFIER_PATTERN);
+    if (identifier) {
+      const text = identifier[0];
+      const upper = text.toUpperCase();
+      const next = rest.substring(text.length).match(/^\s*\(/);
+
+      if (next) {
+        push('function', upper, text.length);
+      } else if (upper === 'TRUE' || upper === 'FALSE') {
+        push('boolean', upper, text.length);
+      } else {
+        push('name', text, text.length);
+      }
+      continue;
+    }
+
+    const twoChar = rest.substring(0, 2);
+    if (TWO_CHAR_OPERATORS.includes(twoChar)) {
+      push('operator', twoChar, 2);
+      continue;
+    }
+
+    if (ONE_CHAR_OPERATORS.includes(char)) {
+      push('operator', char, 1);
+      continue;
+    }
+
+    if (char === ',') {
+      push('comma', char, 1);
+      continue;
+    }
+
+    if (char === '(') {
+      push('lparen', char, 1);
+      continue;
+    }
+
+    if (char === ')') {
+      push('rparen', char, 1);
+      continue;
+    }
+
+    throw new FormulaSyntaxError(`Unexpected character '${char}'`, pos);
+  }
+
+  return tokens;
+}
+
+/**
+ * Matches a cell reference or range at the start of the input.
+ * Returns the matched text, or null if the input does not start with one.
+ */
+function matchReference(input: string): string | null {
+  const start = input.match(CELL_PATTERN);
+  if (!start) return null;
+
+  let text = start[0];
+
+  // A reference must not run into an identifier or function call (e.g. LOG10( or A1B)
+  const after = input.substring(text.length);
+  if (/^[A-Za-z0-9_.(]/.test(after)) {
+    return null;
+  }
+
+  // Range (A1:B10)
+  if (after.startsWith(':')) {
+    const end = after.substring(1).match(CELL_PATTERN);
+    if (end && !/^[A-Za-z0-9_.(]/.test(after.substring(1 + end[0].length))) {
+      text += ':' + end[0];
+    }
+  }
+
+  return text;
+}
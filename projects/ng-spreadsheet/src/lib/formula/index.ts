@@ -0,0 +1,9 @@
+/**
+ * Public API for the formula tokenizer, parser and dependency graph
+ */
+
+export * from './formula-tokenizer';
+export * from './formula-parser';
+export * from './formula-error';
+export * from './formula-references';
+export * from './dependency-graph';
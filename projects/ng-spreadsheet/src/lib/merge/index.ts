@@ -0,0 +1,5 @@
+/**
+ * Public API for merged cells
+ */
+
+export * from './merged-cells';
@@ -0,0 +1,32 @@
+import { CellRange } from '../models';
+import { range } from '../../testing/spec-helpers';
+import { expandRangeToMerges, getMergeAreas, getMergeAt, rangesIntersect } from './merged-cells';
+
+describe('Merged Cells', () => {
+  // B2:C3 and D1:D4
+  const merges: CellRange[] = [range(1, 1, 2, 2), range(0, 3, 3, 3)];
+
+  it('should find the merged cell covering a cell', () => {
+    expect(getMergeAt(merges, 2, 2)).toEqual(range(1, 1, 2, 2));
+    expect(getMergeAt(merges, 0, 0)).toBeNull();
+    expect(getMergeAt(undefined, 1, 1)).toBeNull();
+  });
+
+  it('should tell whether ranges overlap in either direction', () => {
+    expect(rangesIntersect(range(2, 2, 0, 0), range(1, 1, 3, 3))).toBeTrue();
+    expect(rangesIntersect(range(0, 0, 0, 0), range(1, 1, 3, 3))).toBeFalse();
+  });
+
+  it('should grow a range to the merged cells it touches, keeping its direction', () => {
+    expect(expandRangeToMerges(merges, range(0, 0, 1, 1))).toEqual(range(0, 0, 2, 2));
+    // Growing to B2:C3 reaches column D, which pulls in D1:D4
+    expect(expandRangeToMerges(merges, range(2, 1, 2, 3))).toEqual(range(0, 1, 3, 3));
+    expect(expandRangeToMerges(merges, range(2, 2, 0, 0))).toEqual(range(2, 2, 0, 0));
+  });
+
+  it('should split Merge Across into rows and skip single cells', () => {
+    expect(getMergeAreas(range(3, 2, 0, 0))).toEqual([range(0, 0, 3, 2)]);
+    expect(getMergeAreas(range(0, 0, 1, 1), true)).toEqual([range(0, 0, 0, 1), range(1, 0, 1, 1)]);
+    expect(getMergeAreas(range(0, 0, 2, 0), true)).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import { CellRange } from '../models';
+
+/**
+ * Returns a range with its start at the top-left cell and its end at the bottom-right cell
+ */
+export function normalizeRange(range: CellRange): CellRange {
+  return {
+    start: {
+      row: Math.min(range.start.row, range.end.row),
+      col: Math.min(range.start.col, range.end.col),
+    },
+    end: {
+      row: Math.max(range.start.row, range.end.row),
+      col: Math.max(range.start.col, range.end.col),
+    },
+  };
+}
+
+/**
+ * Whether two ranges share at least one cell
+ */
+export function rangesIntersect(a: CellRange, b: CellRange): boolean {
+  const first = normalizeRange(a);
+  const second = normalizeRange(b);
+  return (
+    first.start.row <= second.end.row &&
+    second.start.row <= first.end.row &&
+    first.start.col <= second.end.col &&
+    second.start.col <= first.end.col
+  );
+}
+
+/**
+ * Gets the merged cell covering a cell, or null when the cell is not merged
+ */
+export function getMergeAt(
+  merges: CellRange[] | undefined,
+  row: number,
+  col: number
+): CellRange | null {
+  return (
+    merges?.find(
+      ({ start, end }) => row >= start.row && row <= end.row && col >= start.col && col <= end.col
+    ) ?? null
+  );
+}
+
+/**
+ * Grows a range until every merged cell it touches lies completely inside it, as Excel
+ * does when selecting. The direction of the range (where it starts) is kept.
+ */
+export function expandRangeToMerges(merges: CellRange[] | undefined, range: CellRange): CellRange {
+  let bounds = normalizeRange(range);
+
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (const merge of merges ?? []) {
+      if (!rangesIntersect(bounds, merge)) continue;
+
+      const next = normalizeRange({
+        start: {
+          row: Math.min(bounds.start.row, merge.start.row),
+          col: Math.min(bounds.start.col, merge.start.col),
+        },
+        end: {
+          row: Math.max(bounds.end.row, merge.end.row),
+          col: Math.max(bounds.end.col, merge.end.col),
+        },
+      });
+      if (
+        next.start.row !== bounds.start.row ||
+        next.start.col !== bounds.start.col ||
+        next.end.row !== bounds.end.row ||
+        next.end.col !== bounds.end.col
+      ) {
+        bounds = next;
+        grown = true;
+      }
+    }
+  }
+
+  const rowsDown = range.start.row <= range.end.row;
+  const colsRight = range.start.col <= range.end.col;
+  return {
+    start: {
+      row: rowsDown ? bounds.start.row : bounds.end.row,
+      col: colsRight ? bounds.start.col : bounds.end.col,
+    },
+    end: {
+      row: rowsDown ? bounds.end.row : bounds.start.row,
+      col: colsRight ? bounds.end.col : bounds.start.col,
+    },
+  };
+}
+
+/**
+ * Gets the merged cells a merge of a range creates: the whole range, or one per row for
+ * Merge Across. Areas of a single cell are left out.
+ */
+export function getMergeAreas(range: CellRange, across = false): CellRange[] {
+  const { start, end } = normalizeRange(range);
+  const areas = across
+    ? Array.from({ length: end.row - start.row + 1 }, (_, index) => ({
+        start: { row: start.row + index, col: start.col },
+        end: { row: start.row + index, col: end.col },
+      }))
+    : [{ start, end }];
+
+  return areas.filter((area) => !isSingleCell(area));
+}
+
+/**
+ * Whether a range covers a single cell
+ */
+export function isSingleCell(range: CellRange): boolean {
+  return range.start.row === range.end.row && range.start.col === range.end.col;
+}
@@ -57,10 +57,16 @@ export interface CellStyle {
   /** Number of decimal places */
   decimalPlaces?: number;
 
-  /** Column span for merged cells (number of columns to span) */
+  /**
+   * Column span for merged cells (number of columns to span)
+   * @deprecated Not rendered; merged cells are stored as ranges in `Sheet.merges`
+   */
   colSpan?: number;
 
-  /** Row span for merged cells (number of rows to span) */
+  /**
+   * Row span for merged cells (number of rows to span)
+   * @deprecated Not rendered; merged cells are stored as ranges in `Sheet.merges`
+   */
   rowSpan?: number;
 }
 
@@ -1,4 +1,5 @@
 import { CellStyle } from './cell-style.model';
+import { CellComment } from './comment.model';
 
 /**
  * Represents a single cell in the spreadsheet.
@@ -17,6 +18,9 @@ export interface Cell {
   /** The computed/display value shown to the user (result of formula evaluation) */
   displayValue?: string;
 
+  /** Unformatted result of the last evaluation of a formula cell, read by dependent formulas */
+  computedValue?: string | number;
+
   /** Cell styling properties */
   style?: CellStyle;
 
@@ -35,8 +39,11 @@ export interface Cell {
   /** Data type of the cell value */
   dataType?: 'string' | 'number' | 'boolean' | 'date' | 'formula' | 'error';
 
-  /** Error message if cell contains an error (e.g., '#REF!', '#DIV/0!') */
+  /** Error code of an error value (e.g., '#REF!', '#DIV/0!'), or the cycle path for #CIRC! */
   error?: string;
+
+  /** Comment thread attached to the cell */
+  comment?: CellComment;
 }
 
 /**
@@ -139,3 +146,47 @@ export function a1ToCellAddress(a1: string): CellAddress {
     row: parseInt(match[4], 10) - 1,
   };
 }
+
+/**
+ * Formats a sheet name for use in a reference, quoting it when needed
+ * (e.g., 'Sheet2' -> 'Sheet2', 'My Sheet' -> "'My Sheet'")
+ */
+export function formatSheetName(name: string): string {
+  const needsQuotes =
+    !/^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) || /^[A-Za-z]{1,3}\d+$/.test(name);
+  return needsQuotes ? `'${name.replace(/'/g, "''")}'` : name;
+}
+
+/**
+ * Converts a range to A1 notation, including the sheet name if present
+ * (e.g., {sheet: 'My Sheet', start: B2, end: C9} -> "'My Sheet'!B2:C9")
+ */
+export function cellRangeToA1(range: CellRange): string {
+  const start = cellAddressToA1(range.start);
+  const end = cellAddressToA1(range.end);
+  const reference =
+    range.start.row === range.end.row && range.start.col === range.end.col
+      ? start
+      : `${start}:${end}`;
+  return range.sheet ? `${formatSheetName(range.sheet)}!${reference}` : reference;
+}
+
+/**
+ * Parses a cell or range in A1 notation, optionally qualified with a sheet name
+ * (e.g., 'Sheet2!A1', "'My Sheet'!B2:C9"). A single cell yields a range whose
+ * start and end are equal.
+ */
+export function a1ToCellRange(a1: string): CellRange {
+  const match = a1.match(/^(?:'((?:[^']|'')+)'|([A-Za-z_][A-Za-z0-9_.]*))!(.+)$/);
+  const sheet = match ? (match[1]?.replace(/''/g, "'") ?? match[2]) : undefined;
+  const [start, end] = (match ? match[3] : a1).toUpperCase().split(':');
+
+  const range: CellRange = {
+    start: a1ToCellAddress(start),
+    end: a1ToCellAddress(end ?? start),
+  };
+  if (sheet !== undefined) {
+    range.sheet = sheet;
+  }
+  return range;
+}
@@ -0,0 +1,53 @@
+/**
+ * One comment of a cell's thread: the comment that started it or a reply
+ */
+export interface CommentEntry {
+  /** Unique identifier of the comment */
+  id: string;
+
+  /** Name of the person who wrote it */
+  author: string;
+
+  /** Plain text of the comment */
+  text: string;
+
+  /** When it was written (ISO 8601) */
+  createdAt: string;
+
+  /** When its text was last changed (ISO 8601), if it was */
+  editedAt?: string;
+}
+
+/**
+ * Comment thread of a cell: the comment that started it, with its replies oldest first.
+ * A resolved thread is kept but takes no more replies until it is reopened.
+ */
+export interface CellComment extends CommentEntry {
+  /** Replies to the comment, oldest first */
+  replies?: CommentEntry[];
+
+  /** Whether the discussion was marked as resolved */
+  resolved?: boolean;
+}
+
+/**
+ * Creates a unique identifier for a comment
+ */
+export function generateCommentId(): string {
+  return `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Creates a comment written now
+ */
+export function createCommentEntry(text: string, author: string): CommentEntry {
+  return { id: generateCommentId(), author, text, createdAt: new Date().toISOString() };
+}
+
+/**
+ * Lists the comments of a thread in order: the one that started it, then its replies
+ */
+export function getCommentThread(comment: CellComment): CommentEntry[] {
+  const { replies, resolved, ...first } = comment;
+  return [first, ...(replies ?? [])];
+}
@@ -0,0 +1,132 @@
+import { CellRange } from './cell.model';
+import { CellStyle } from './cell-style.model';
+
+/**
+ * Comparison of a "Format only cells with a cell value" rule.
+ * Values are compared as numbers (dates by their serial number), except that
+ * equals / not equals fall back to case-insensitive text.
+ */
+export type CellValueOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'between'
+  | 'notBetween';
+
+/**
+ * Comparison of a "Format only cells with specific text" rule (case-insensitive)
+ */
+export type TextOperator = 'contains' | 'notContains' | 'beginsWith' | 'endsWith';
+
+/**
+ * Period of a "A date occurring" rule. Weeks start on Sunday, as in Excel.
+ */
+export type DatePeriod =
+  | 'yesterday'
+  | 'today'
+  | 'tomorrow'
+  | 'last7Days'
+  | 'lastWeek'
+  | 'thisWeek'
+  | 'nextWeek'
+  | 'lastMonth'
+  | 'thisMonth'
+  | 'nextMonth';
+
+/**
+ * Icons of an icon set, from the icon for the highest values to the lowest
+ */
+export type IconSetName =
+  | '3Arrows'
+  | '3TrafficLights'
+  | '3Symbols'
+  | '3Flags'
+  | '4Arrows'
+  | '5Ratings';
+
+/**
+ * Formatting a highlight rule applies to the cells it matches
+ */
+export type ConditionalStyle = Pick<
+  CellStyle,
+  'backgroundColor' | 'color' | 'fontWeight' | 'fontStyle' | 'textDecoration'
+>;
+
+/**
+ * Condition of a conditional formatting rule.
+ * Highlight rules apply a `style`; color scales, data bars and icon sets draw their own visuals.
+ */
+export type ConditionalFormatCondition =
+  /** Compare the cell value; values starting with '=' are formulas, relative to each cell */
+  | {
+      type: 'cellValue';
+      operator: CellValueOperator;
+      value: string | number;
+      value2?: string | number;
+    }
+  /** Look for text in the displayed value */
+  | { type: 'text'; operator: TextOperator; text: string }
+  /** Dates (serial numbers) falling in a period relative to today */
+  | { type: 'date'; period: DatePeriod }
+  /** Values that appear more than once in the range (or only once with `unique`) */
+  | { type: 'duplicates'; unique?: boolean }
+  /** The largest (or smallest) N numbers of the range, or N percent of them */
+  | { type: 'top'; count: number; bottom?: boolean; percent?: boolean }
+  /** Numbers above (or below) the average of the range */
+  | { type: 'average'; below?: boolean }
+  /**
+   * Cells for which a formula is true. The formula is written for the top-left cell of
+   * the range; its relative references move with each cell.
+   */
+  | { type: 'formula'; formula: string }
+  /** Fill shaded between two or three colors, from the lowest number to the highest */
+  | { type: 'colorScale'; minColor: string; midColor?: string; maxColor: string }
+  /** Bar as long as the number is large compared with the rest of the range */
+  | { type: 'dataBar'; color: string; showValue?: boolean }
+  /** Icon picked by where the number falls between the lowest and highest of the range */
+  | { type: 'iconSet'; iconSet: IconSetName; reverse?: boolean; showValue?: boolean };
+
+/**
+ * Conditional formatting rule of a sheet. Rules are listed in priority order in
+ * `Sheet.conditionalFormats`: the first rule wins where matching rules set the same property.
+ */
+export type ConditionalFormatRule = ConditionalFormatCondition & {
+  /** Unique identifier of the rule */
+  id: string;
+
+  /** Cells the rule applies to */
+  range: CellRange;
+
+  /** Formatting of highlight rules (ignored by color scales, data bars and icon sets) */
+  style?: ConditionalStyle;
+
+  /** When the rule matches a cell, rules of lower priority are not applied to it */
+  stopIfTrue?: boolean;
+};
+
+/**
+ * Formatting conditional formatting rules give a cell
+ */
+export interface ConditionalFormatResult {
+  /** Style properties to apply over the cell's own style */
+  style: ConditionalStyle;
+
+  /** Data bar: its length as a fraction of the cell width (0-1) and its color */
+  dataBar?: { length: number; color: string };
+
+  /** Icon of an icon set shown before the value, and its color */
+  icon?: { symbol: string; color: string };
+
+  /** Whether the value is hidden (data bars and icon sets with `showValue: false`) */
+  hideValue?: boolean;
+}
+
+/**
+ * Creates a unique identifier for a conditional formatting rule
+ */
+export function generateConditionalFormatId(): string {
+  return `cf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -0,0 +1,29 @@
+/**
+ * How the values of a CSV column are read: 'general' turns numbers and dates into
+ * numbers and dates and keeps everything else as text, 'number' and 'date' read every
+ * value as that type, 'text' keeps values as typed and 'skip' leaves the column out
+ */
+export type CsvColumnType = 'general' | 'number' | 'date' | 'text' | 'skip';
+
+/**
+ * Where imported CSV data goes: a new sheet, the active sheet (replacing its contents)
+ * or the active sheet starting at the selected cell
+ */
+export type CsvImportMode = 'new-sheet' | 'replace' | 'insert';
+
+/**
+ * Options of a CSV import
+ */
+export interface CsvImportOptions {
+  /** Where the data goes (default: 'new-sheet') */
+  mode?: CsvImportMode;
+
+  /** Type of each column, by position in the file; missing columns are 'general' */
+  columnTypes?: CsvColumnType[];
+
+  /** Whether the first row holds headers, which are always imported as text */
+  hasHeader?: boolean;
+
+  /** Name of the new sheet in 'new-sheet' mode (default: the next free SheetN name) */
+  sheetName?: string;
+}
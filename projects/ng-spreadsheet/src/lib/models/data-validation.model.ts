@@ -0,0 +1,93 @@
+import { CellRange } from './cell.model';
+import { CellValueOperator } from './conditional-format.model';
+
+/**
+ * What a data validation rule allows in its cells
+ */
+export type DataValidationType =
+  | 'any'
+  | 'wholeNumber'
+  | 'decimal'
+  | 'list'
+  | 'date'
+  | 'textLength'
+  | 'custom';
+
+/**
+ * How an entry that breaks a rule is handled: 'stop' rejects it, 'warning' asks whether to
+ * keep it and 'information' keeps it after showing the message
+ */
+export type DataValidationAlertStyle = 'stop' | 'warning' | 'information';
+
+/**
+ * Data validation rule of a sheet. Each cell has at most one rule.
+ */
+export interface DataValidationRule {
+  /** Unique identifier of the rule */
+  id: string;
+
+  /** Cells the rule applies to */
+  range: CellRange;
+
+  /** What the rule allows */
+  type: DataValidationType;
+
+  /**
+   * Comparison of whole number, decimal, date and text length rules (default 'between').
+   * Text length rules compare the number of characters.
+   */
+  operator?: CellValueOperator;
+
+  /**
+   * Value compared with (the minimum for between / not between), and the maximum.
+   * Dates are serial numbers; values starting with '=' are formulas, relative to each cell.
+   */
+  value1?: string | number;
+  value2?: string | number;
+
+  /** Allowed values of a list rule */
+  list?: string[];
+
+  /** Cells holding the allowed values of a list rule (instead of `list`) */
+  listRange?: CellRange;
+
+  /**
+   * Formula of a custom rule, written for the top-left cell of the range; the entry is
+   * allowed when it is true
+   */
+  formula?: string;
+
+  /** Whether blank cells are allowed (default true, Excel's "Ignore blank") */
+  allowBlank?: boolean;
+
+  /** Whether list rules show a dropdown arrow on the selected cell (default true) */
+  showDropdown?: boolean;
+
+  /** Message shown while a cell of the range is selected */
+  inputTitle?: string;
+  inputMessage?: string;
+
+  /** How entries that break the rule are handled (default 'stop') */
+  errorStyle?: DataValidationAlertStyle;
+
+  /** Message of the alert shown for entries that break the rule */
+  errorTitle?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Entry that breaks a data validation rule
+ */
+export interface DataValidationViolation {
+  row: number;
+  col: number;
+  value: any;
+  rule: DataValidationRule;
+}
+
+/**
+ * Creates a unique identifier for a data validation rule
+ */
+export function generateDataValidationId(): string {
+  return `dv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -0,0 +1,33 @@
+import { CellRange } from './cell.model';
+
+/**
+ * A name that stands for a cell or range in formulas and the name box
+ * (e.g. TaxRate → Settings!$B$2). Workbook names can be used from every sheet; a name
+ * scoped to a sheet only from that sheet, where it wins over a workbook name spelled the same.
+ */
+export interface DefinedName {
+  /** Unique identifier of the name */
+  id: string;
+
+  /** Name as typed; names are matched ignoring case */
+  name: string;
+
+  /**
+   * Cells the name refers to, qualified with their sheet. Missing once all of them
+   * were deleted, in which case the name evaluates to #REF!
+   */
+  range?: CellRange;
+
+  /** Id of the sheet the name is scoped to; workbook names have none */
+  sheetId?: string;
+
+  /** Description shown in the Name Manager */
+  comment?: string;
+}
+
+/**
+ * Creates a unique identifier for a defined name
+ */
+export function generateDefinedNameId(): string {
+  return `name_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -0,0 +1,62 @@
+import { CellRange } from './cell.model';
+
+/**
+ * File formats sheets and ranges can be exported to
+ */
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'html';
+
+/**
+ * What an export writes for each cell: the displayed text (formatted numbers and dates,
+ * formula results) or the raw value (numbers, dates as serial numbers, formulas as typed)
+ */
+export type ExportValues = 'display' | 'raw';
+
+/**
+ * Shape of a JSON export: an array of objects keyed by the header row, or an array of
+ * rows holding the values of each row
+ */
+export type JsonExportShape = 'objects' | 'rows';
+
+/**
+ * Options of a sheet, range or workbook export
+ */
+export interface ExportOptions {
+  /** File format */
+  format: ExportFormat;
+
+  /** Write displayed text or raw values (default: 'display') */
+  values?: ExportValues;
+
+  /** Cells to export; defaults to the used range of the sheet (A1 to its last value) */
+  range?: CellRange;
+
+  /** Shape of JSON exports (default: 'objects') */
+  jsonShape?: JsonExportShape;
+
+  /**
+   * Write the comment threads of the cells into JSON exports: each sheet then becomes an
+   * object with its `values` and its `comments` keyed by cell address (e.g. 'B2').
+   * HTML exports always show comments as tooltips; CSV and TSV have no place for them.
+   */
+  comments?: boolean;
+
+  /** Line break between CSV and TSV rows (default: '\r\n', as in RFC 4180) */
+  lineEnding?: string;
+
+  /** Start CSV and TSV files with a UTF-8 byte order mark, which Excel needs to read them */
+  byteOrderMark?: boolean;
+}
+
+/**
+ * An exported file
+ */
+export interface ExportedFile {
+  /** Suggested file name (e.g. 'Sheet1.csv') */
+  name: string;
+
+  /** Media type (e.g. 'text/csv') */
+  type: string;
+
+  /** File contents */
+  content: string;
+}
@@ -0,0 +1,60 @@
+import { CellRange } from './cell.model';
+
+/**
+ * Comparison used by a condition filter.
+ * Text operators compare displayed text case-insensitively; the others compare numbers,
+ * with dates compared by their serial number.
+ */
+export type FilterOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'notContains'
+  | 'beginsWith'
+  | 'endsWith'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'between';
+
+/**
+ * A single condition of a condition filter (e.g. "begins with 'North'", "between 10 and 20")
+ */
+export interface FilterCondition {
+  /** Comparison to apply */
+  operator: FilterOperator;
+
+  /** Value to compare with; date text such as '2026-03-01' is compared as a date */
+  value: string | number;
+
+  /** Upper bound for 'between' (inclusive) */
+  value2?: string | number;
+}
+
+/**
+ * Criteria of one AutoFilter column, as chosen in its dropdown
+ */
+export type ColumnFilter =
+  /** Show rows whose displayed text is one of the checked values ('' for blanks) */
+  | { type: 'values'; values: string[] }
+  /** Show rows matching one or two conditions */
+  | { type: 'condition'; conditions: FilterCondition[]; join?: 'and' | 'or' }
+  /** Show the largest (or smallest) N numbers, or N percent of them */
+  | { type: 'top'; count: number; bottom?: boolean; percent?: boolean }
+  /** Show numbers above (or below) the column average */
+  | { type: 'average'; below?: boolean }
+  /** Show cells with the given fill or font color */
+  | { type: 'color'; color: string; target?: 'fill' | 'font' };
+
+/**
+ * AutoFilter of a sheet: the filtered range and the criteria of its columns.
+ * Rows that fail any criteria are listed in `Sheet.hiddenRows`.
+ */
+export interface AutoFilter {
+  /** Filtered range; its first row is the header row that holds the dropdowns */
+  range: CellRange;
+
+  /** Criteria keyed by column index; columns without an entry show every row */
+  columns: Record<number, ColumnFilter>;
+}
@@ -0,0 +1,53 @@
+/**
+ * What Find looks at in each cell: the displayed values, the contents as typed
+ * (formulas rather than their results) or the cell comments
+ */
+export type FindLookIn = 'values' | 'formulas' | 'comments';
+
+/**
+ * Where Find searches: the active sheet or every sheet of the workbook
+ */
+export type FindScope = 'sheet' | 'workbook';
+
+/**
+ * Options of a Find or Replace
+ */
+export interface FindOptions {
+  /** Text to find, or a regular expression when `useRegex` is set */
+  query: string;
+
+  /** Tell upper and lower case apart */
+  matchCase?: boolean;
+
+  /** Only match cells whose whole text matches the query */
+  matchEntireCell?: boolean;
+
+  /** Read the query as a JavaScript regular expression; replacements may use $1, $2... */
+  useRegex?: boolean;
+
+  /** What to search in (default: 'values') */
+  lookIn?: FindLookIn;
+
+  /** Where to search (default: 'sheet') */
+  scope?: FindScope;
+}
+
+/**
+ * A cell found by Find
+ */
+export interface FindMatch {
+  /** Sheet holding the cell */
+  sheetId: string;
+
+  /** Name of that sheet, for listing results */
+  sheetName: string;
+
+  /** Row index (0-based) */
+  row: number;
+
+  /** Column index (0-based) */
+  col: number;
+
+  /** Text that matched (displayed value, contents or comment, depending on `lookIn`) */
+  text: string;
+}
@@ -5,3 +5,12 @@
 export * from './cell.model';
 export * from './cell-style.model';
 export * from './sheet.model';
+export * from './filter.model';
+export * from './sort.model';
+export * from './find.model';
+export * from './conditional-format.model';
+export * from './data-validation.model';
+export * from './comment.model';
+export * from './defined-name.model';
+export * from './csv-import.model';
+export * from './export.model';
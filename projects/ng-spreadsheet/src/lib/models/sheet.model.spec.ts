@@ -0,0 +1,70 @@
+import { createEmptyCell } from './cell.model';
+import {
+  compactCells,
+  createEmptySheet,
+  forEachSheetCell,
+  getSheetCell,
+  moveSheetCells,
+  setSheetCells,
+  toDenseCells,
+} from './sheet.model';
+
+describe('Sparse sheet cells', () => {
+  it('should only store the cells of the initial data', () => {
+    const sheet = createEmptySheet({
+      rowCount: 3,
+      colCount: 3,
+      data: [['a', '', 1], [], [null, 'b']],
+    });
+
+    expect(Object.keys(sheet.cells)).toEqual(['0', '2']);
+    expect(Object.keys(sheet.cells[0] ?? [])).toEqual(['0', '2']);
+    expect(getSheetCell(sheet, 2, 1)?.value).toBe('b');
+    expect(getSheetCell(sheet, 1, 1)).toEqual(createEmptyCell(1, 1));
+    expect(getSheetCell(sheet, 3, 0)).toBeNull();
+  });
+
+  it('should write cells without changing the original and drop blank ones', () => {
+    const sheet = createEmptySheet({ rowCount: 5, colCount: 5, data: [['a'], ['b']] });
+    const cells = setSheetCells(sheet.cells, [
+      { row: 0, col: 0, value: '' },
+      { row: 1, col: 1, value: '', style: { fontWeight: 'bold' } },
+      { row: 4, col: 2, value: 3 },
+    ]);
+
+    expect(cells[0]).toBeUndefined();
+    expect(cells[1]?.[0]).toBe(sheet.cells[1]?.[0]);
+    expect(cells[1]?.[1]?.style).toEqual({ fontWeight: 'bold' });
+    expect(cells[4]?.[2]?.value).toBe(3);
+    expect(sheet.cells[0]?.[0]?.value).toBe('a');
+    expect(setSheetCells(cells, [])).toBe(cells);
+  });
+
+  it('should visit only the stored cells', () => {
+    const sheet = createEmptySheet({ rowCount: 5, colCount: 5, data: [['a'], [], [null, 'b']] });
+    const visited: string[] = [];
+    forEachSheetCell(sheet.cells, (cell, row, col) => visited.push(`${row},${col}:${cell.value}`));
+
+    expect(visited).toEqual(['0,0:a', '2,1:b']);
+  });
+
+  it('should move cells and update their position', () => {
+    const sheet = createEmptySheet({ rowCount: 5, colCount: 5, data: [['a', 'b'], ['c']] });
+    const cells = moveSheetCells(sheet.cells, (row, col) =>
+      col === 0 ? null : { row: row + 2, col }
+    );
+
+    expect(Object.keys(cells)).toEqual(['2']);
+    expect(cells[2]?.[1]).toEqual(jasmine.objectContaining({ row: 2, col: 1, value: 'b' }));
+  });
+
+  it('should convert between full grids and sparse cells', () => {
+    const sheet = createEmptySheet({ rowCount: 2, colCount: 2, data: [[null, 'a']] });
+    const dense = toDenseCells(sheet);
+
+    expect(dense.length).toBe(2);
+    expect(dense[1][1]).toEqual(createEmptyCell(1, 1));
+    expect(dense[0][1]).toBe(getSheetCell(sheet, 0, 1)!);
+    expect(compactCells(dense)).toEqual(sheet.cells);
+  });
+});
@@ -1,4 +1,14 @@
-import { Cell } from './cell.model';
+import { Cell, CellRange, createEmptyCell } from './cell.model';
+import { AutoFilter } from './filter.model';
+import { ConditionalFormatRule } from './conditional-format.model';
+import { DataValidationRule } from './data-validation.model';
+import { DefinedName } from './defined-name.model';
+
+/**
+ * Cells of a sheet by row and column. Rows and cells that are not stored are holes, typed
+ * as undefined.
+ */
+export type SheetCells = ((Cell | undefined)[] | undefined)[];
 
 /**
  * Represents a single spreadsheet sheet/tab.
@@ -11,8 +21,14 @@ export interface Sheet {
   /** Display name of the sheet (shown in tab) */
   name: string;
 
-  /** 2D array of cells [row][col] */
-  cells: Cell[][];
+  /**
+   * Cells by row and column ([row][col]), stored sparsely: rows and cells that hold nothing
+   * are missing (holes in the arrays), so large sheets only cost what they contain.
+   * Read cells with getSheetCell, which creates empty cells on demand, and write them with
+   * setSheetCells. The type has the holes, so indexing it directly has to handle missing
+   * rows and cells; toDenseCells returns every cell of the sheet as a full grid.
+   */
+  cells: SheetCells;
 
   /** Number of rows in the sheet */
   rowCount: number;
@@ -37,6 +53,30 @@ export interface Sheet {
 
   /** Default row height for rows without explicit height */
   defaultRowHeight?: number;
+
+  /** Rows that are hidden, in ascending order (e.g. rows filtered out by the AutoFilter) */
+  hiddenRows?: number[];
+
+  /** AutoFilter dropdowns on a header row, with the criteria of each column */
+  autoFilter?: AutoFilter;
+
+  /**
+   * Merged cells, each a range shown as one cell that holds the value of its top-left cell.
+   * Ranges are normalized (start is the top-left cell) and never overlap.
+   */
+  merges?: CellRange[];
+
+  /** Number of rows at the top that stay in place while the sheet scrolls (Freeze Panes) */
+  frozenRows?: number;
+
+  /** Number of columns at the left that stay in place while the sheet scrolls (Freeze Panes) */
+  frozenColumns?: number;
+
+  /** Conditional formatting rules, highest priority first */
+  conditionalFormats?: ConditionalFormatRule[];
+
+  /** Data validation rules; their ranges do not overlap */
+  dataValidations?: DataValidationRule[];
 }
 
 /**
@@ -49,6 +89,18 @@ export interface SpreadsheetData {
   /** Index of the currently active sheet */
   activeSheetIndex: number;
 
+  /** Workbook calculation settings (defaults to DEFAULT_CALCULATION_SETTINGS) */
+  calculation?: CalculationSettings;
+
+  /** Defined names of the workbook, including the names scoped to a sheet */
+  names?: DefinedName[];
+
+  /**
+   * Locale used to display numbers and dates (e.g. 'de-DE' shows 1.234,5).
+   * Format codes keep Excel's en-US ',' and '.'; defaults to en-US conventions.
+   */
+  locale?: string;
+
   /** Metadata about the spreadsheet */
   metadata?: {
     title?: string;
@@ -58,6 +110,30 @@ export interface SpreadsheetData {
   };
 }
 
+/**
+ * Controls how circular references are calculated, like Excel's
+ * "Enable iterative calculation" option
+ */
+export interface CalculationSettings {
+  /** When false, every cell in a circular reference shows #CIRC! */
+  iterative: boolean;
+
+  /** Maximum number of passes over a circular reference per recalculation */
+  maxIterations: number;
+
+  /** Iteration stops early once no value changes by more than this amount */
+  maxChange: number;
+}
+
+/**
+ * Default calculation settings (iterative calculation disabled, as in Excel)
+ */
+export const DEFAULT_CALCULATION_SETTINGS: CalculationSettings = {
+  iterative: false,
+  maxIterations: 100,
+  maxChange: 0.001,
+};
+
 /**
  * Configuration options for creating a new sheet
  */
@@ -94,12 +170,12 @@ export function createEmptySheet(config: SheetConfig = {}): Sheet {
     data = [],
   } = config;
 
-  // Initialize empty 2D array
+  // Only the cells of the initial data are stored; empty cells are created when read
   const cells: Cell[][] = [];
-  for (let row = 0; row < rowCount; row++) {
-    cells[row] = [];
-    for (let col = 0; col < colCount; col++) {
-      const value = data[row]?.[col] ?? '';
+  data.slice(0, rowCount).forEach((values, row) =>
+    values.slice(0, colCount).forEach((value, col) => {
+      if (value === '' || value === null || value === undefined) return;
+      cells[row] ??= [];
       cells[row][col] = {
         row,
         col,
@@ -107,8 +183,8 @@ export function createEmptySheet(config: SheetConfig = {}): Sheet {
         displayValue: String(value),
         dataType: typeof value === 'number' ? 'number' : 'string',
       };
-    }
-  }
+    })
+  );
 
   return {
     id: generateSheetId(),
@@ -124,6 +200,146 @@ export function createEmptySheet(config: SheetConfig = {}): Sheet {
   };
 }
 
+/**
+ * Gets a cell of a sheet. Cells that hold nothing are not stored, so they are created
+ * empty when read. Returns null outside the sheet.
+ */
+export function getSheetCell(sheet: Sheet, row: number, col: number): Cell | null {
+  if (row < 0 || row >= sheet.rowCount || col < 0 || col >= sheet.colCount) {
+    return null;
+  }
+  return sheet.cells[row]?.[col] ?? createEmptyCell(row, col);
+}
+
+/**
+ * Returns a copy of the cells of a sheet with the given cells written at their row and
+ * column. Only the rows array and the rows written to are copied; cells that hold
+ * nothing (see isBlankCell) are removed instead of stored.
+ */
+export function setSheetCells(cells: SheetCells, updates: Cell[]): SheetCells {
+  if (updates.length === 0) return cells;
+
+  const updated = cells.slice();
+  const copiedRows = new Set<number>();
+  for (const cell of updates) {
+    const { row, col } = cell;
+    let cellsInRow = updated[row];
+    if (!cellsInRow || !copiedRows.has(row)) {
+      cellsInRow = updated[row] = cellsInRow?.slice() ?? [];
+      copiedRows.add(row);
+    }
+    if (isBlankCell(cell)) {
+      delete cellsInRow[col];
+    } else {
+      cellsInRow[col] = cell;
+    }
+  }
+
+  for (const row of copiedRows) {
+    if (!updated[row]?.some(() => true)) {
+      delete updated[row];
+    }
+  }
+  return updated;
+}
+
+/**
+ * Whether a cell holds nothing worth storing: no value, style, comment or readonly flag
+ */
+export function isBlankCell(cell: Cell): boolean {
+  return (
+    (cell.value === '' || cell.value === null || cell.value === undefined) &&
+    !cell.style &&
+    !cell.comment &&
+    !cell.readonly
+  );
+}
+
+/**
+ * Calls `visit` for every stored cell, row by row
+ */
+export function forEachSheetCell(
+  cells: SheetCells,
+  visit: (cell: Cell, row: number, col: number) => void
+): void {
+  cells.forEach((cellsInRow, row) =>
+    cellsInRow?.forEach((cell, col) => {
+      if (cell) visit(cell, row, col);
+    })
+  );
+}
+
+/**
+ * Returns the cells with every stored cell replaced by what `update` returns for it.
+ * Rows without a changed cell are kept, as is the whole array when nothing changed.
+ */
+export function mapSheetCells(
+  cells: SheetCells,
+  update: (cell: Cell, row: number, col: number) => Cell
+): SheetCells {
+  let changed = false;
+  const updated = cells.map((cellsInRow, row) => {
+    let rowChanged = false;
+    const updatedRow = cellsInRow?.map((cell, col) => {
+      // map skips holes, so cell is always set
+      const result = cell && update(cell, row, col);
+      rowChanged ||= result !== cell;
+      return result;
+    });
+    changed ||= rowChanged;
+    return rowChanged ? updatedRow : cellsInRow;
+  });
+  return changed ? updated : cells;
+}
+
+/**
+ * Returns the cells with every stored cell moved to the position `move` gives it, or
+ * removed when it gives null (as when rows or columns are inserted, deleted or reordered)
+ */
+export function moveSheetCells(
+  cells: SheetCells,
+  move: (row: number, col: number) => { row: number; col: number } | null
+): SheetCells {
+  const moved: Cell[][] = [];
+  forEachSheetCell(cells, (cell, row, col) => {
+    const target = move(row, col);
+    if (!target) return;
+    moved[target.row] ??= [];
+    moved[target.row][target.col] =
+      target.row === row && target.col === col ? cell : { ...cell, ...target };
+  });
+  return moved;
+}
+
+/**
+ * Stores the cells of a grid sparsely: drops blank cells and rows left without cells.
+ * Used for data built as a full grid (such as data saved before cells were sparse).
+ */
+export function compactCells(cells: ((Cell | null | undefined)[] | undefined)[]): SheetCells {
+  const compacted: Cell[][] = [];
+  cells.forEach((cellsInRow, row) =>
+    cellsInRow?.forEach((cell, col) => {
+      if (!cell || isBlankCell(cell)) return;
+      compacted[row] ??= [];
+      compacted[row][col] = cell;
+    })
+  );
+  return compacted;
+}
+
+/**
+ * Returns every cell of a sheet as a full grid, with empty cells created where none are
+ * stored. This allocates rowCount × colCount cells, so prefer getSheetCell on large sheets.
+ */
+export function toDenseCells(sheet: Sheet): Cell[][] {
+  return Array.from({ length: sheet.rowCount }, (_, row) =>
+    Array.from(
+      { length: sheet.colCount },
+      (_, col) => sheet.cells[row]?.[col] ?? createEmptyCell(row, col)
+    )
+  );
+}
+
 /**
  * Generates a unique sheet ID
  */
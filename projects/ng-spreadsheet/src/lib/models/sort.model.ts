@@ -0,0 +1,64 @@
+/**
+ * What a sort level orders rows by
+ */
+export type SortOn = 'value' | 'fillColor' | 'fontColor';
+
+/**
+ * One level of a multi-key sort. Later levels break ties left by earlier ones.
+ */
+export interface SortLevel {
+  /** Column to sort by (sheet column index) */
+  col: number;
+
+  /** Sort largest or last values first; for colors, puts the color at the bottom instead */
+  descending?: boolean;
+
+  /** Compare values (default) or bring cells with `color` to the top */
+  sortOn?: SortOn;
+
+  /** Fill or font color brought to the top (or bottom) when sorting by color */
+  color?: string;
+
+  /**
+   * Order text by its position in this list (e.g. Mon..Sun) instead of alphabetically,
+   * matched case-insensitively. Values not in the list follow, sorted as usual.
+   */
+  customList?: string[];
+}
+
+/**
+ * Options of a range sort
+ */
+export interface SortOptions {
+  /** Sort levels, most significant first */
+  levels: SortLevel[];
+
+  /** Whether the first row holds headers that stay in place; detected when omitted */
+  hasHeader?: boolean;
+
+  /** Tell upper and lower case apart (lower case sorts first, as in Excel) */
+  caseSensitive?: boolean;
+}
+
+/**
+ * Custom lists offered for sorting (weeks start on Monday)
+ */
+export const BUILT_IN_CUSTOM_LISTS: string[][] = [
+  ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+  ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
+  ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  [
+    'January',
+    'February',
+    'March',
+    'April',
+    'May',
+    'June',
+    'July',
+    'August',
+    'September',
+    'October',
+    'November',
+    'December',
+  ],
+];
@@ -0,0 +1,71 @@
+import { DefinedName } from '../models';
+import {
+  findDefinedName,
+  formatNameReference,
+  getDefinedNameError,
+  parseNameReference,
+} from './defined-names';
+
+describe('Defined names', () => {
+  const absolute = (row: number, col: number) => ({
+    row,
+    col,
+    absoluteRow: true,
+    absoluteCol: true,
+  });
+  const cell = (sheet: string, row: number, col: number) => ({
+    start: absolute(row, col),
+    end: absolute(row, col),
+    sheet,
+  });
+  const names: DefinedName[] = [
+    { id: 'a', name: 'TaxRate', range: cell('Settings', 1, 1) },
+    { id: 'b', name: 'TaxRate', range: cell('Q1', 0, 0), sheetId: 'q1' },
+  ];
+
+  it('should reject names that are not identifiers or look like references', () => {
+    expect(getDefinedNameError('Sales_Data.2024', [])).toBeNull();
+    expect(getDefinedNameError('', [])).toBe('Enter a name');
+    for (const name of ['A1', 'xfd100', 'R1C1', 'r', 'C', 'TRUE', '1st', 'Tax Rate', 'Net%']) {
+      expect(getDefinedNameError(name, [])).withContext(name).toContain('not a valid name');
+    }
+  });
+
+  it('should only allow one name of a spelling per scope', () => {
+    expect(getDefinedNameError('taxrate', names)).toContain('already exists');
+    expect(getDefinedNameError('TAXRATE', names, 'q1')).toContain('already exists');
+    expect(getDefinedNameError('TaxRate', names, 'q2')).toBeNull();
+    expect(getDefinedNameError('TaxRate', names, undefined, 'a')).toBeNull();
+  });
+
+  it('should find names scoped to the sheet before workbook names', () => {
+    expect(findDefinedName(names, 'taxrate', 'q1')?.id).toBe('b');
+    expect(findDefinedName(names, 'TAXRATE', 'q2')?.id).toBe('a');
+    expect(findDefinedName(names, 'TaxRate')?.id).toBe('a');
+    expect(findDefinedName(names, 'Other', 'q1')).toBeUndefined();
+    expect(findDefinedName(undefined, 'TaxRate')).toBeUndefined();
+  });
+
+  it('should parse references as absolute ranges on a sheet', () => {
+    expect(parseNameReference('=Settings!$B$2', 'Sheet1')).toEqual(cell('Settings', 1, 1));
+    expect(parseNameReference(' F500:A2 ', 'Sheet1')).toEqual({
+      start: absolute(1, 0),
+      end: absolute(499, 5),
+      sheet: 'Sheet1',
+    });
+    expect(parseNameReference('=TaxRate', 'Sheet1')).toBeNull();
+    expect(parseNameReference('', 'Sheet1')).toBeNull();
+  });
+
+  it('should format references as written in formulas', () => {
+    expect(formatNameReference(names[0])).toBe('=Settings!$B$2');
+    expect(
+      formatNameReference({
+        id: 'c',
+        name: 'SalesData',
+        range: { start: absolute(1, 0), end: absolute(499, 5), sheet: 'My Data' },
+      })
+    ).toBe("='My Data'!$A$2:$F$500");
+    expect(formatNameReference({ id: 'd', name: 'Gone' })).toBe('=#REF!');
+  });
+});
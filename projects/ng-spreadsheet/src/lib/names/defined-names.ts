@@ -0,0 +1,93 @@
+import { CellAddress, CellRange, DefinedName, a1ToCellRange, cellRangeToA1 } from '../models';
+import { normalizeRange } from '../merge';
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+const CELL_NAME_PATTERN = /^[A-Za-z]{1,3}\d+$/;
+const R1C1_NAME_PATTERN = /^(R\d*C\d*|R\d*|C\d*)$/i;
+const RESERVED_NAMES = ['TRUE', 'FALSE'];
+const MAX_NAME_LENGTH = 255;
+
+/**
+ * Checks a name for a new or renamed defined name. Returns the problem as a message,
+ * or null when the name can be used: it must look like an identifier without being
+ * readable as a cell reference, and be unique (ignoring case) within its scope.
+ * `ignoreId` leaves out the name being edited.
+ */
+export function getDefinedNameError(
+  name: string,
+  names: DefinedName[],
+  sheetId?: string,
+  ignoreId?: string
+): string | null {
+  if (name === '') return 'Enter a name';
+  if (
+    name.length > MAX_NAME_LENGTH ||
+    !NAME_PATTERN.test(name) ||
+    CELL_NAME_PATTERN.test(name) ||
+    R1C1_NAME_PATTERN.test(name) ||
+    RESERVED_NAMES.includes(name.toUpperCase())
+  ) {
+    return `'${name}' is not a valid name. Names start with a letter or underscore, ` +
+      'contain no spaces and cannot look like a cell reference.';
+  }
+
+  const lowerName = name.toLowerCase();
+  const duplicate = names.some(
+    (existing) =>
+      existing.id !== ignoreId &&
+      existing.sheetId === sheetId &&
+      existing.name.toLowerCase() === lowerName
+  );
+  return duplicate ? `The name '${name}' already exists in this scope` : null;
+}
+
+/**
+ * Finds the name a formula or the name box on a sheet refers to: a name scoped to
+ * that sheet, otherwise a workbook name. Names are matched ignoring case.
+ */
+export function findDefinedName(
+  names: DefinedName[] | undefined,
+  name: string,
+  sheetId?: string
+): DefinedName | undefined {
+  const lowerName = name.toLowerCase();
+  const matches = (names ?? []).filter((defined) => defined.name.toLowerCase() === lowerName);
+  return (
+    matches.find((defined) => sheetId !== undefined && defined.sheetId === sheetId) ??
+    matches.find((defined) => defined.sheetId === undefined)
+  );
+}
+
+/**
+ * Parses what a name refers to, with or without the leading '=' (e.g. '=Settings!$B$2'
+ * or 'A2:F500'). References without a sheet are taken to point at `sheetName`.
+ * The range is stored absolute, as Excel does. Returns null for anything but a
+ * cell or range.
+ */
+export function parseNameReference(text: string, sheetName: string): CellRange | null {
+  const trimmed = text.trim();
+  const reference = (trimmed.startsWith('=') ? trimmed.slice(1) : trimmed).trim();
+
+  let parsed: CellRange;
+  try {
+    parsed = a1ToCellRange(reference);
+  } catch {
+    return null;
+  }
+
+  const { start, end } = normalizeRange(parsed);
+  const absolute = (address: CellAddress): CellAddress => ({
+    ...address,
+    absoluteRow: true,
+    absoluteCol: true,
+  });
+  return { start: absolute(start), end: absolute(end), sheet: parsed.sheet ?? sheetName };
+}
+
+/**
+ * Formats what a name refers to as shown in the Name Manager ('=Settings!$B$2'),
+ * or '=#REF!' once its cells were deleted
+ */
+export function formatNameReference(name: DefinedName): string {
+  return `=${name.range ? cellRangeToA1(name.range) : '#REF!'}`;
+}
@@ -0,0 +1,5 @@
+/**
+ * Public API for defined names
+ */
+
+export * from './defined-names';
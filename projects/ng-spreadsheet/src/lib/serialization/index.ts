@@ -0,0 +1,6 @@
+/**
+ * Public API for workbook serialization
+ */
+
+export * from './workbook-format';
+export * from './workbook-serializer';
@@ -0,0 +1,152 @@
+import {
+  AutoFilter,
+  CalculationSettings,
+  CellComment,
+  CellRange,
+  CellStyle,
+  ConditionalFormatRule,
+  DataValidationRule,
+  DefinedName,
+} from '../models';
+
+/**
+ * Identifies a serialized workbook
+ */
+export const WORKBOOK_FORMAT = 'ng-spreadsheet';
+
+/**
+ * Version of the format written by serializeWorkbook. Older versions are upgraded by
+ * migrations when they are read.
+ *
+ * - 0: SpreadsheetData written with JSON.stringify (rows of cells, no `format` field)
+ * - 1: sparse cells with a shared style table
+ */
+export const WORKBOOK_FORMAT_VERSION = 1;
+
+/**
+ * A workbook in the serialized format: plain JSON that only holds what is needed to
+ * restore it. Empty cells, editing and selection state, formula results and display
+ * values are left out; they are rebuilt when the workbook is read.
+ */
+export interface SerializedWorkbook {
+  /** Always 'ng-spreadsheet' */
+  format: typeof WORKBOOK_FORMAT;
+
+  /** Version of the format */
+  version: number;
+
+  /** Index of the active sheet */
+  activeSheetIndex: number;
+
+  /** Locale used to display numbers and dates */
+  locale?: string;
+
+  /** Workbook calculation settings */
+  calculation?: CalculationSettings;
+
+  /** Defined names */
+  names?: DefinedName[];
+
+  /** Metadata, with dates in ISO 8601 */
+  metadata?: {
+    title?: string;
+    author?: string;
+    createdDate?: string;
+    modifiedDate?: string;
+  };
+
+  /** Distinct cell styles, referenced by index from the cells */
+  styles?: CellStyle[];
+
+  /** Sheets in tab order */
+  sheets: SerializedSheet[];
+}
+
+/**
+ * A sheet in the serialized format
+ */
+export interface SerializedSheet {
+  id: string;
+  name: string;
+  rowCount: number;
+  colCount: number;
+  defaultColumnWidth?: number;
+  defaultRowHeight?: number;
+
+  /** Widths of the columns that differ from the default width, keyed by column index */
+  columnWidths?: Record<string, number>;
+
+  /** Heights of the rows that differ from the default height, keyed by row index */
+  rowHeights?: Record<string, number>;
+
+  isHidden?: boolean;
+  hiddenRows?: number[];
+  autoFilter?: AutoFilter;
+  merges?: CellRange[];
+  frozenRows?: number;
+  frozenColumns?: number;
+  conditionalFormats?: ConditionalFormatRule[];
+  dataValidations?: DataValidationRule[];
+
+  /** Cells holding a value, a style, a comment or a readonly flag, row by row */
+  cells: SerializedCell[];
+}
+
+/**
+ * A cell in the serialized format
+ */
+export interface SerializedCell {
+  /** Row index (0-based) */
+  r: number;
+
+  /** Column index (0-based) */
+  c: number;
+
+  /** Value or formula as typed; dates are serial numbers. Left out when empty. */
+  v?: string | number | boolean;
+
+  /** Index of the cell style in the style table */
+  s?: number;
+
+  /** Comment thread */
+  comment?: CellComment;
+
+  /** Set when the cell cannot be edited */
+  readonly?: boolean;
+}
+
+/**
+ * Upgrades serialized workbooks of one version of the format to the next one
+ */
+export interface WorkbookMigration {
+  /** Version this migration upgrades from; it returns a workbook of version `from + 1` */
+  from: number;
+
+  /**
+   * Returns the upgraded workbook; throws a SerializationError for invalid input. The
+   * result is checked again as it is read.
+   */
+  migrate(workbook: Record<string, unknown>): unknown;
+}
+
+/**
+ * Options for reading a serialized workbook
+ */
+export interface DeserializeOptions {
+  /** Migrations to upgrade older versions with (default: WORKBOOK_MIGRATIONS) */
+  migrations?: WorkbookMigration[];
+}
+
+/**
+ * Thrown when a serialized workbook cannot be read. `path` points to the offending
+ * value (e.g. 'sheets[0].cells[3].s'), or is empty when the whole input is invalid.
+ */
+export class SerializationError extends Error {
+  constructor(
+    message: string,
+    public readonly path = ''
+  ) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'SerializationError';
+  }
+}
@@ -0,0 +1,439 @@
+import {
+  AutoFilter,
+  CalculationSettings,
+  CellAddress,
+  CellComment,
+  CellRange,
+  CellStyle,
+  CellValueOperator,
+  ColumnFilter,
+  CommentEntry,
+  ConditionalFormatCondition,
+  ConditionalFormatRule,
+  DataValidationAlertStyle,
+  DataValidationRule,
+  DataValidationType,
+  DatePeriod,
+  DefinedName,
+  FilterCondition,
+  FilterOperator,
+  IconSetName,
+  TextOperator,
+} from '../models';
+import { ICON_SETS } from '../conditional-format';
+import { SerializationError } from './workbook-format';
+
+/**
+ * Readers that check a value of a serialized workbook and return it typed. Each one
+ * throws a SerializationError with the path of the first value that does not fit.
+ */
+export type Reader<T> = (value: unknown, path: string) => T;
+
+const CELL_VALUE_OPERATORS: CellValueOperator[] = [
+  'equals',
+  'notEquals',
+  'greaterThan',
+  'greaterThanOrEqual',
+  'lessThan',
+  'lessThanOrEqual',
+  'between',
+  'notBetween',
+];
+const TEXT_OPERATORS: TextOperator[] = ['contains', 'notContains', 'beginsWith', 'endsWith'];
+const FILTER_OPERATORS: FilterOperator[] = [
+  ...TEXT_OPERATORS,
+  ...CELL_VALUE_OPERATORS.filter((operator) => operator !== 'notBetween'),
+];
+const DATE_PERIODS: DatePeriod[] = [
+  'yesterday',
+  'today',
+  'tomorrow',
+  'last7Days',
+  'lastWeek',
+  'thisWeek',
+  'nextWeek',
+  'lastMonth',
+  'thisMonth',
+  'nextMonth',
+];
+const DATA_VALIDATION_TYPES: DataValidationType[] = [
+  'any',
+  'wholeNumber',
+  'decimal',
+  'list',
+  'date',
+  'textLength',
+  'custom',
+];
+const ALERT_STYLES: DataValidationAlertStyle[] = ['stop', 'warning', 'information'];
+
+export function readObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SerializationError('Expected an object', path);
+  }
+  return value as Record<string, unknown>;
+}
+
+export function readArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new SerializationError('Expected an array', path);
+  }
+  return value;
+}
+
+export function readString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new SerializationError('Expected a string', path);
+  }
+  return value;
+}
+
+export function readNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SerializationError('Expected a number', path);
+  }
+  return value;
+}
+
+export function readBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new SerializationError('Expected true or false', path);
+  }
+  return value;
+}
+
+export function readInteger(value: unknown, path: string, min: number, max = Infinity): number {
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    const range = max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`;
+    throw new SerializationError(`Expected an integer ${range}`, path);
+  }
+  return value as number;
+}
+
+export function readDate(value: unknown, path: string): Date {
+  const date = new Date(readString(value, path));
+  if (isNaN(date.getTime())) {
+    throw new SerializationError('Expected an ISO 8601 date', path);
+  }
+  return date;
+}
+
+export function readOptional<T>(value: unknown, path: string, read: Reader<T>): T | undefined {
+  return value === undefined ? undefined : read(value, path);
+}
+
+/**
+ * Reads an array whose items are all read by `read`
+ */
+export function readList<T>(value: unknown, path: string, read: Reader<T>): T[] {
+  return readArray(value, path).map((item, i) => read(item, `${path}[${i}]`));
+}
+
+/**
+ * Returns a reader for one of a fixed set of strings
+ */
+export function readOneOf<T extends string>(values: readonly T[]): Reader<T> {
+  return (value, path) => {
+    if (!values.includes(value as T)) {
+      throw new SerializationError(`Expected one of ${values.join(', ')}`, path);
+    }
+    return value as T;
+  };
+}
+
+/**
+ * Reads a cell value as written: text, a number or a boolean
+ */
+export function readCellValue(value: unknown, path: string): string | number | boolean {
+  if (
+    typeof value !== 'string' &&
+    typeof value !== 'boolean' &&
+    (typeof value !== 'number' || !Number.isFinite(value))
+  ) {
+    throw new SerializationError('Expected a string, number or boolean', path);
+  }
+  return value;
+}
+
+/**
+ * Reads a cell style: an object of CSS-like strings and numbers
+ */
+export function readStyle(value: unknown, path: string): CellStyle {
+  const style = readObject(value, path);
+  for (const [key, property] of Object.entries(style)) {
+    readNumberOrString(property, `${path}.${key}`);
+  }
+  return style as CellStyle;
+}
+
+export function readCalculation(value: unknown, path: string): CalculationSettings {
+  const { required } = readFields(value, path);
+  return {
+    iterative: required('iterative', readBoolean),
+    maxIterations: required('maxIterations', (count, at) => readInteger(count, at, 1)),
+    maxChange: required('maxChange', readNumber),
+  };
+}
+
+export function readDefinedName(value: unknown, path: string): DefinedName {
+  const { required, optional } = readFields(value, path);
+  return assignDefined(
+    { id: required('id', readString), name: required('name', readString) },
+    {
+      range: optional('range', readRange),
+      sheetId: optional('sheetId', readString),
+      comment: optional('comment', readString),
+    }
+  );
+}
+
+/**
+ * Reads a comment thread: the comment that started it, its replies and whether it
+ * was resolved
+ */
+export function readComment(value: unknown, path: string): CellComment {
+  const { optional } = readFields(value, path);
+  return assignDefined(readCommentEntry(value, path), {
+    replies: optional('replies', (replies, at) => readList(replies, at, readCommentEntry)),
+    resolved: optional('resolved', readBoolean),
+  });
+}
+
+export function readRange(value: unknown, path: string): CellRange {
+  const { required, optional } = readFields(value, path);
+  return assignDefined(
+    { start: required('start', readAddress), end: required('end', readAddress) },
+    { sheet: optional('sheet', readString) }
+  );
+}
+
+export function readAutoFilter(value: unknown, path: string): AutoFilter {
+  const { object, required } = readFields(value, path);
+  const range = required('range', readRange);
+
+  const columns: Record<number, ColumnFilter> = {};
+  const columnsPath = `${path}.columns`;
+  for (const [key, filter] of Object.entries(readObject(object['columns'], columnsPath))) {
+    if (!/^\d+$/.test(key)) {
+      throw new SerializationError('Expected a column index', `${columnsPath}.${key}`);
+    }
+    columns[Number(key)] = readColumnFilter(filter, `${columnsPath}.${key}`);
+  }
+  return { range, columns };
+}
+
+export function readConditionalFormat(value: unknown, path: string): ConditionalFormatRule {
+  const { required, optional } = readFields(value, path);
+  const rule = assignDefined(
+    { id: required('id', readString), range: required('range', readRange) },
+    { style: optional('style', readStyle), stopIfTrue: optional('stopIfTrue', readBoolean) }
+  );
+  return { ...rule, ...readConditionalFormatCondition(value, path) };
+}
+
+export function readDataValidation(value: unknown, path: string): DataValidationRule {
+  const { required, optional } = readFields(value, path);
+  return assignDefined(
+    {
+      id: required('id', readString),
+      range: required('range', readRange),
+      type: required('type', readOneOf(DATA_VALIDATION_TYPES)),
+    },
+    {
+      operator: optional('operator', readOneOf(CELL_VALUE_OPERATORS)),
+      value1: optional('value1', readNumberOrString),
+      value2: optional('value2', readNumberOrString),
+      list: optional('list', (list, at) => readList(list, at, readString)),
+      listRange: optional('listRange', readRange),
+      formula: optional('formula', readString),
+      allowBlank: optional('allowBlank', readBoolean),
+      showDropdown: optional('showDropdown', readBoolean),
+      inputTitle: optional('inputTitle', readString),
+      inputMessage: optional('inputMessage', readString),
+      errorStyle: optional('errorStyle', readOneOf(ALERT_STYLES)),
+      errorTitle: optional('errorTitle', readString),
+      errorMessage: optional('errorMessage', readString),
+    }
+  );
+}
+
+function readAddress(value: unknown, path: string): CellAddress {
+  const { required, optional } = readFields(value, path);
+  const readIndex: Reader<number> = (index, at) => readInteger(index, at, 0);
+  return assignDefined(
+    { row: required('row', readIndex), col: required('col', readIndex) },
+    {
+      absoluteRow: optional('absoluteRow', readBoolean),
+      absoluteCol: optional('absoluteCol', readBoolean),
+    }
+  );
+}
+
+function readCommentEntry(value: unknown, path: string): CommentEntry {
+  const { required, optional } = readFields(value, path);
+  return assignDefined(
+    {
+      id: required('id', readString),
+      author: required('author', readString),
+      text: required('text', readString),
+      createdAt: required('createdAt', readString),
+    },
+    { editedAt: optional('editedAt', readString) }
+  );
+}
+
+function readColumnFilter(value: unknown, path: string): ColumnFilter {
+  const { required, optional } = readFields(value, path);
+  const type = required(
+    'type',
+    readOneOf(['values', 'condition', 'top', 'average', 'color'] as const)
+  );
+
+  switch (type) {
+    case 'values':
+      return { type, values: required('values', (values, at) => readList(values, at, readString)) };
+    case 'condition':
+      return assignDefined(
+        {
+          type,
+          conditions: required('conditions', (conditions, at) =>
+            readList(conditions, at, readFilterCondition)
+          ),
+        },
+        { join: optional('join', readOneOf(['and', 'or'] as const)) }
+      );
+    case 'top':
+      return assignDefined(
+        { type, count: required('count', readNumber) },
+        { bottom: optional('bottom', readBoolean), percent: optional('percent', readBoolean) }
+      );
+    case 'average':
+      return assignDefined({ type }, { below: optional('below', readBoolean) });
+    case 'color':
+      return assignDefined(
+        { type, color: required('color', readString) },
+        { target: optional('target', readOneOf(['fill', 'font'] as const)) }
+      );
+  }
+}
+
+function readFilterCondition(value: unknown, path: string): FilterCondition {
+  const { required, optional } = readFields(value, path);
+  return assignDefined(
+    {
+      operator: required('operator', readOneOf(FILTER_OPERATORS)),
+      value: required('value', readNumberOrString),
+    },
+    { value2: optional('value2', readNumberOrString) }
+  );
+}
+
+function readConditionalFormatCondition(value: unknown, path: string): ConditionalFormatCondition {
+  const { required, optional } = readFields(value, path);
+  const type = required(
+    'type',
+    readOneOf([
+      'cellValue',
+      'text',
+      'date',
+      'duplicates',
+      'top',
+      'average',
+      'formula',
+      'colorScale',
+      'dataBar',
+      'iconSet',
+    ] as const)
+  );
+
+  switch (type) {
+    case 'cellValue':
+      return assignDefined(
+        {
+          type,
+          operator: required('operator', readOneOf(CELL_VALUE_OPERATORS)),
+          value: required('value', readNumberOrString),
+        },
+        { value2: optional('value2', readNumberOrString) }
+      );
+    case 'text':
+      return {
+        type,
+        operator: required('operator', readOneOf(TEXT_OPERATORS)),
+        text: required('text', readString),
+      };
+    case 'date':
+      return { type, period: required('period', readOneOf(DATE_PERIODS)) };
+    case 'duplicates':
+      return assignDefined({ type }, { unique: optional('unique', readBoolean) });
+    case 'top':
+      return assignDefined(
+        { type, count: required('count', readNumber) },
+        { bottom: optional('bottom', readBoolean), percent: optional('percent', readBoolean) }
+      );
+    case 'average':
+      return assignDefined({ type }, { below: optional('below', readBoolean) });
+    case 'formula':
+      return { type, formula: required('formula', readString) };
+    case 'colorScale':
+      return assignDefined(
+        {
+          type,
+          minColor: required('minColor', readString),
+          maxColor: required('maxColor', readString),
+        },
+        { midColor: optional('midColor', readString) }
+      );
+    case 'dataBar':
+      return assignDefined(
+        { type, color: required('color', readString) },
+        { showValue: optional('showValue', readBoolean) }
+      );
+    case 'iconSet':
+      return assignDefined(
+        {
+          type,
+          iconSet: required('iconSet', readOneOf(Object.keys(ICON_SETS) as IconSetName[])),
+        },
+        {
+          reverse: optional('reverse', readBoolean),
+          showValue: optional('showValue', readBoolean),
+        }
+      );
+  }
+}
+
+function readNumberOrString(value: unknown, path: string): number | string {
+  if (typeof value !== 'string' && (typeof value !== 'number' || !Number.isFinite(value))) {
+    throw new SerializationError('Expected a string or number', path);
+  }
+  return value;
+}
+
+/**
+ * Reads an object and returns helpers that read its properties, with the path of each
+ */
+function readFields(value: unknown, path: string) {
+  const object = readObject(value, path);
+  return {
+    object,
+    required: <T>(key: string, read: Reader<T>): T => read(object[key], `${path}.${key}`),
+    optional: <T>(key: string, read: Reader<T>): T | undefined =>
+      readOptional(object[key], `${path}.${key}`, read),
+  };
+}
+
+/**
+ * Copies the properties that are defined onto an object, leaving out the others
+ */
+function assignDefined<T extends object, U extends object>(
+  target: T,
+  properties: U
+): T & { [K in keyof U]?: Exclude<U[K], undefined> } {
+  for (const [key, value] of Object.entries(properties)) {
+    if (value !== undefined) {
+      (target as Record<string, unknown>)[key] = value;
+    }
+  }
+  return target;
+}
@@ -0,0 +1,290 @@
+import {
+  SpreadsheetData,
+  createEmptyCell,
+  createEmptySheet,
+  getSheetCell,
+  setSheetCells,
+  toDenseCells,
+} from '../models';
+import { SerializationError, WORKBOOK_FORMAT_VERSION } from './workbook-format';
+import { WORKBOOK_MIGRATIONS, deserializeWorkbook, serializeWorkbook } from './workbook-serializer';
+
+describe('workbook serialization', () => {
+  function createWorkbook(): SpreadsheetData {
+    const sheet = createEmptySheet({
+      name: 'Budget',
+      rowCount: 100,
+      colCount: 10,
+      data: [['Item', 'Cost'], ['Rent', 1200]],
+    });
+    const bold = { fontWeight: 'bold' };
+    sheet.cells = setSheetCells(sheet.cells, [
+      { ...getSheetCell(sheet, 0, 0)!, style: { ...bold }, isSelected: true },
+      { ...getSheetCell(sheet, 0, 1)!, style: { ...bold }, isEditing: true },
+      { ...getSheetCell(sheet, 1, 1)!, style: { numberFormatPattern: '$#,##0.00' } },
+      { row: 2, col: 1, value: '=B2*2', dataType: 'formula' },
+      {
+        row: 5,
+        col: 5,
+        value: '',
+        readonly: true,
+        isInRange: true,
+        comment: { id: 'c1', author: 'Ana', text: 'Check', createdAt: '2024-01-01T00:00:00Z' },
+      },
+    ]);
+    sheet.columnWidths![2] = 180;
+    sheet.merges = [{ start: { row: 0, col: 2 }, end: { row: 0, col: 3 } }];
+    sheet.frozenRows = 1;
+
+    const notes = createEmptySheet({ name: 'Notes', rowCount: 5, colCount: 5 });
+    notes.cells = setSheetCells(notes.cells, [{ row: 0, col: 0, value: new Date(2024, 0, 15) }]);
+
+    return {
+      sheets: [sheet, notes],
+      activeSheetIndex: 1,
+      locale: 'de-DE',
+      metadata: { title: 'Budget', createdDate: new Date('2024-01-01T08:00:00Z') },
+    };
+  }
+
+  it('should write only non-empty cells with a shared style table', () => {
+    const workbook = serializeWorkbook(createWorkbook());
+    const [budget, notes] = workbook.sheets;
+
+    expect(workbook.format).toBe('ng-spreadsheet');
+    expect(workbook.version).toBe(WORKBOOK_FORMAT_VERSION);
+    expect(workbook.metadata).toEqual({ title: 'Budget', createdDate: '2024-01-01T08:00:00.000Z' });
+    expect(workbook.styles).toEqual([{ fontWeight: 'bold' }, { numberFormatPattern: '$#,##0.00' }]);
+    expect(budget.cells).toEqual([
+      { r: 0, c: 0, v: 'Item', s: 0 },
+      { r: 0, c: 1, v: 'Cost', s: 0 },
+      { r: 1, c: 0, v: 'Rent' },
+      { r: 1, c: 1, v: 1200, s: 1 },
+      { r: 2, c: 1, v: '=B2*2' },
+      {
+        r: 5,
+        c: 5,
+        comment: { id: 'c1', author: 'Ana', text: 'Check', createdAt: '2024-01-01T00:00:00Z' },
+        readonly: true,
+      },
+    ]);
+    expect(budget.columnWidths).toEqual({ 2: 180 });
+    expect(budget.rowHeights).toBeUndefined();
+    expect(notes.cells).toEqual([{ r: 0, c: 0, v: 45306 }]);
+    expect(JSON.stringify(workbook)).not.toContain('isSelected');
+  });
+
+  it('should restore the workbook without editing or selection state', () => {
+    const original = createWorkbook();
+    const data = deserializeWorkbook(JSON.stringify(serializeWorkbook(original)));
+    const [budget, notes] = data.sheets;
+
+    expect(data.activeSheetIndex).toBe(1);
+    expect(data.locale).toBe('de-DE');
+    expect(data.metadata?.createdDate).toEqual(new Date('2024-01-01T08:00:00Z'));
+    expect(budget.id).toBe(original.sheets[0].id);
+    expect(budget.rowCount).toBe(100);
+    expect(getSheetCell(budget, 99, 9)).toEqual(createEmptyCell(99, 9));
+    expect(budget.columnWidths![2]).toBe(180);
+    expect(budget.columnWidths![3]).toBe(100);
+    expect(budget.merges).toEqual(original.sheets[0].merges);
+    expect(budget.frozenRows).toBe(1);
+    expect(getSheetCell(budget, 0, 0)).toEqual({
+      row: 0,
+      col: 0,
+      value: 'Item',
+      displayValue: 'Item',
+      dataType: 'string',
+      style: { fontWeight: 'bold' },
+    });
+    expect(getSheetCell(budget, 1, 1)?.displayValue).toBe('$1.200,00');
+    expect(getSheetCell(budget, 2, 1)?.dataType).toBe('formula');
+    expect(getSheetCell(budget, 5, 5)?.readonly).toBeTrue();
+    expect(getSheetCell(budget, 5, 5)?.isInRange).toBeUndefined();
+    expect(getSheetCell(budget, 0, 1)?.isEditing).toBeUndefined();
+    expect(notes.isActive).toBeTrue();
+    expect(getSheetCell(notes, 0, 0)?.value).toBe(45306);
+  });
+
+  it('should rebuild the data type of each value', () => {
+    const data = deserializeWorkbook({
+      format: 'ng-spreadsheet',
+      version: 1,
+      activeSheetIndex: 0,
+      styles: [{ numberFormatPattern: 'yyyy-mm-dd' }],
+      sheets: [
+        {
+          id: 's1',
+          name: 'Sheet1',
+          rowCount: 2,
+          colCount: 3,
+          cells: [
+            { r: 0, c: 0, v: 45306, s: 0 },
+            { r: 0, c: 1, v: true },
+            { r: 0, c: 2, v: '#n/a' },
+          ],
+        },
+      ],
+    });
+    const [date, flag, error] = toDenseCells(data.sheets[0])[0];
+
+    expect(date.dataType).toBe('date');
+    expect(date.displayValue).toBe('2024-01-15');
+    expect(flag.dataType).toBe('boolean');
+    expect(error.dataType).toBe('error');
+    expect(error.error).toBe('#N/A');
+  });
+
+  it('should upgrade SpreadsheetData saved with JSON.stringify', () => {
+    const legacy = createWorkbook();
+    legacy.sheets[0].cells = setSheetCells(legacy.sheets[0].cells, [
+      { row: 3, col: 0, value: null, comment: 'Old note' as any },
+    ]);
+
+    const data = deserializeWorkbook(JSON.stringify(legacy));
+
+    expect(getSheetCell(data.sheets[0], 0, 0)?.value).toBe('Item');
+    expect(getSheetCell(data.sheets[0], 0, 0)?.isSelected).toBeUndefined();
+    expect(getSheetCell(data.sheets[0], 3, 0)?.comment?.text).toBe('Old note');
+    expect(getSheetCell(data.sheets[1], 0, 0)?.value).toBe(45306);
+    expect(data.metadata?.createdDate).toEqual(new Date('2024-01-01T08:00:00Z'));
+  });
+
+  it('should run migrations up to the current version', () => {
+    const workbook = serializeWorkbook(createWorkbook());
+    const renamed = {
+      from: 0,
+      migrate: (old: Record<string, unknown>) => ({ ...(old['book'] as object), version: 1 }),
+    };
+
+    const data = deserializeWorkbook({ format: 'ng-spreadsheet', version: 0, book: workbook }, {
+      migrations: [renamed, ...WORKBOOK_MIGRATIONS.slice(1)],
+    });
+    expect(data.sheets[0].name).toBe('Budget');
+
+    expect(() => deserializeWorkbook({ ...workbook, version: 99 })).toThrowError(
+      SerializationError,
+      'version: Version 99 is newer than the supported version 1'
+    );
+    expect(() =>
+      deserializeWorkbook({ ...workbook, version: 0 }, { migrations: [] })
+    ).toThrowError(SerializationError, 'version: No migration from version 0');
+  });
+
+  it('should point to the offending value of invalid input', () => {
+    const workbook = serializeWorkbook(createWorkbook());
+    const pathOf = (input: unknown) => {
+      try {
+        deserializeWorkbook(input);
+      } catch (error) {
+        return (error as SerializationError).path;
+      }
+      return null;
+    };
+    const withCell = (cell: unknown) => ({
+      ...workbook,
+      sheets: [{ ...workbook.sheets[0], cells: [workbook.sheets[0].cells[0], cell] }],
+    });
+
+    expect(pathOf(withCell({ r: 0, c: 1, v: 'x', s: 7 }))).toBe('sheets[0].cells[1].s');
+    expect(pathOf(withCell({ r: 100, c: 0 }))).toBe('sheets[0].cells[1].r');
+    expect(pathOf(withCell({ r: 0, c: 0, v: {} }))).toBe('sheets[0].cells[1].v');
+    expect(pathOf({ ...workbook, format: 'other' })).toBe('format');
+    expect(pathOf({ ...workbook, activeSheetIndex: 2 })).toBe('activeSheetIndex');
+    expect(pathOf({ ...workbook, metadata: { createdDate: 'soon' } })).toBe(
+      'metadata.createdDate'
+    );
+    expect(pathOf('{"sheets": ')).toBe('');
+    expect(() => deserializeWorkbook('{"sheets": ')).toThrowError(/^Invalid JSON/);
+  });
+
+  it('should point to invalid ranges, rules, comments and names', () => {
+    const workbook = serializeWorkbook(createWorkbook());
+    const [sheet] = workbook.sheets;
+    const messageOf = (input: unknown) => {
+      try {
+        deserializeWorkbook(input);
+      } catch (error) {
+        return (error as SerializationError).message;
+      }
+      return null;
+    };
+    const withSheet = (changes: object) => ({
+      ...workbook,
+      sheets: [{ ...sheet, ...changes }, workbook.sheets[1]],
+    });
+    const range = { start: { row: 0, col: 0 }, end: { row: 3, col: 0 } };
+
+    expect(messageOf(withSheet({ merges: [{}] }))).toBe(
+      'sheets[0].merges[0].start: Expected an object'
+    );
+    expect(messageOf(withSheet({ merges: [{ ...range, end: { row: -1, col: 0 } }] }))).toBe(
+      'sheets[0].merges[0].end.row: Expected an integer of at least 0'
+    );
+    expect(messageOf(withSheet({ autoFilter: {} }))).toBe(
+      'sheets[0].autoFilter.range: Expected an object'
+    );
+    expect(messageOf(withSheet({ autoFilter: { range, columns: { 0: { type: 'top' } } } }))).toBe(
+      'sheets[0].autoFilter.columns.0.count: Expected a number'
+    );
+    expect(messageOf(withSheet({ autoFilter: { range, columns: { x: { type: 'top' } } } }))).toBe(
+      'sheets[0].autoFilter.columns.x: Expected a column index'
+    );
+    expect(messageOf(withSheet({ conditionalFormats: [{}] }))).toBe(
+      'sheets[0].conditionalFormats[0].id: Expected a string'
+    );
+    expect(
+      messageOf(withSheet({ conditionalFormats: [{ id: 'f', range, type: 'text', text: 'a' }] }))
+    ).toBe(
+      'sheets[0].conditionalFormats[0].operator: ' +
+        'Expected one of contains, notContains, beginsWith, endsWith'
+    );
+    expect(messageOf(withSheet({ dataValidations: [{}] }))).toBe(
+      'sheets[0].dataValidations[0].id: Expected a string'
+    );
+    expect(
+      messageOf(withSheet({ dataValidations: [{ id: 'v', range, type: 'list', list: [1] }] }))
+    ).toBe('sheets[0].dataValidations[0].list[0]: Expected a string');
+    expect(
+      messageOf(withSheet({ cells: [{ r: 0, c: 0, comment: { id: 'c', text: 'Hi' } }] }))
+    ).toBe('sheets[0].cells[0].comment.author: Expected a string');
+    expect(messageOf({ ...workbook, names: [{ id: 'n', name: 'Rate', range: {} }] })).toBe(
+      'names[0].range.start: Expected an object'
+    );
+    expect(messageOf({ ...workbook, calculation: { iterative: true } })).toBe(
+      'calculation.maxIterations: Expected an integer of at least 1'
+    );
+    expect(messageOf({ ...workbook, styles: [{ color: null }] })).toBe(
+      'styles[0].color: Expected a string or number'
+    );
+  });
+
+  it('should read back filters, rules and names', () => {
+    const data = createWorkbook();
+    const range = { start: { row: 0, col: 0 }, end: { row: 3, col: 1 } };
+    data.sheets[0].autoFilter = {
+      range,
+      columns: {
+        0: { type: 'values', values: ['Rent'] },
+        1: { type: 'condition', conditions: [{ operator: 'greaterThan', value: 10 }] },
+      },
+    };
+    data.sheets[0].conditionalFormats = [
+      { id: 'f1', range, type: 'cellValue', operator: 'between', value: 1, value2: 9 },
+      { id: 'f2', range, type: 'iconSet', iconSet: '3Arrows', style: { color: 'red' } },
+    ];
+    data.sheets[0].dataValidations = [
+      { id: 'v1', range, type: 'list', list: ['a', 'b'], errorStyle: 'warning' },
+    ];
+    data.names = [{ id: 'n1', name: 'Costs', range: { ...range, sheet: 'Budget' } }];
+    data.calculation = { iterative: true, maxIterations: 10, maxChange: 0.5 };
+
+    const restored = deserializeWorkbook(JSON.stringify(serializeWorkbook(data)));
+
+    expect(restored.sheets[0].autoFilter).toEqual(data.sheets[0].autoFilter);
+    expect(restored.sheets[0].conditionalFormats).toEqual(data.sheets[0].conditionalFormats);
+    expect(restored.sheets[0].dataValidations).toEqual(data.sheets[0].dataValidations);
+    expect(restored.names).toEqual(data.names);
+    expect(restored.calculation).toEqual(data.calculation);
+  });
+});
@@ -0,0 +1,476 @@
+import {
+  Cell,
+  CellStyle,
+  Sheet,
+  SpreadsheetData,
+  compactCells,
+  createCommentEntry,
+  createEmptySheet,
+  forEachSheetCell,
+  setSheetCells,
+} from '../models';
+import { dateToSerial, formatValue, getNumberFormatPattern, isDateFormat } from '../format';
+import { toFormulaErrorCode } from '../formula';
+import {
+  DeserializeOptions,
+  SerializationError,
+  SerializedCell,
+  SerializedSheet,
+  SerializedWorkbook,
+  WORKBOOK_FORMAT,
+  WORKBOOK_FORMAT_VERSION,
+  WorkbookMigration,
+} from './workbook-format';
+import {
+  readArray,
+  readAutoFilter,
+  readBoolean,
+  readCalculation,
+  readCellValue,
+  readComment,
+  readConditionalFormat,
+  readDataValidation,
+  readDate,
+  readDefinedName,
+  readInteger,
+  readList,
+  readNumber,
+  readObject,
+  readOptional,
+  readRange,
+  readString,
+  readStyle,
+} from './workbook-readers';
+
+/** Dates as written by JSON.stringify (Date.prototype.toJSON) */
+const JSON_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+/**
+ * Built-in migrations, from the oldest version of the format
+ */
+export const WORKBOOK_MIGRATIONS: WorkbookMigration[] = [
+  {
+    // SpreadsheetData written with JSON.stringify: dense cells, dates as ISO strings and,
+    // before comment threads, plain-text comments
+    from: 0,
+    migrate: (workbook) => {
+      const sheets = readArray(workbook['sheets'], 'sheets').map((input, i) => {
+        const sheet = readObject(input, `sheets[${i}]`);
+        // Rows and cells that are not stored are written as null
+        const rows = sheet['cells'];
+        const isRow = (row: unknown) => row === null || Array.isArray(row);
+        if (!Array.isArray(rows) || !rows.every(isRow)) {
+          throw new SerializationError('Expected an array of rows of cells', `sheets[${i}].cells`);
+        }
+        const cells = rows.map((row: unknown[] | null, r) =>
+          (row ?? []).map((cell, c) =>
+            cell === null ? null : upgradeCell(cell, `sheets[${i}].cells[${r}][${c}]`, r, c)
+          )
+        );
+        return { ...sheet, cells: compactCells(cells) } as Sheet;
+      });
+      return serializeWorkbook({ ...workbook, sheets } as SpreadsheetData);
+    },
+  },
+];
+
+/**
+ * Writes a workbook in the serialized format (see SerializedWorkbook). Only cells with
+ * a value, a style, a comment or a readonly flag are kept, equal styles are written
+ * once to a shared style table, and row heights and column widths only where they
+ * differ from the default. Editing and selection state is left out.
+ */
+export function serializeWorkbook(data: SpreadsheetData): SerializedWorkbook {
+  const styles: CellStyle[] = [];
+  const styleIndexes = new Map<string, number>();
+  const getStyleIndex = (style: CellStyle) => {
+    const key = JSON.stringify(Object.entries(style).sort(([a], [b]) => a.localeCompare(b)));
+    let index = styleIndexes.get(key);
+    if (index === undefined) {
+      index = styles.push({ ...style }) - 1;
+      styleIndexes.set(key, index);
+    }
+    return index;
+  };
+
+  const workbook: SerializedWorkbook = {
+    format: WORKBOOK_FORMAT,
+    version: WORKBOOK_FORMAT_VERSION,
+    activeSheetIndex: data.activeSheetIndex,
+    sheets: data.sheets.map((sheet) => serializeSheet(sheet, getStyleIndex)),
+  };
+  if (data.locale) workbook.locale = data.locale;
+  if (data.calculation) workbook.calculation = { ...data.calculation };
+  if (data.names?.length) workbook.names = data.names.map((name) => ({ ...name }));
+  if (data.metadata) {
+    const { createdDate, modifiedDate, ...metadata } = data.metadata;
+    workbook.metadata = {
+      ...metadata,
+      ...(createdDate && { createdDate: toIsoString(createdDate) }),
+      ...(modifiedDate && { modifiedDate: toIsoString(modifiedDate) }),
+    };
+  }
+  if (styles.length) workbook.styles = styles;
+  return workbook;
+}
+
+/**
+ * Reads a serialized workbook, given as JSON text or as the parsed object. Workbooks of
+ * older versions of the format are upgraded with the migrations first. Display values
+ * are rebuilt from the values; formulas are calculated when the workbook is loaded into
+ * the spreadsheet (see SpreadsheetDataService.deserialize).
+ * Throws a SerializationError pointing to the first invalid value.
+ */
+export function deserializeWorkbook(
+  input: unknown,
+  options: DeserializeOptions = {}
+): SpreadsheetData {
+  const workbook = upgradeWorkbook(
+    typeof input === 'string' ? parseJson(input) : input,
+    options.migrations ?? WORKBOOK_MIGRATIONS
+  );
+
+  const styles = readList(workbook['styles'] ?? [], 'styles', readStyle);
+  const locale = readOptional(workbook['locale'], 'locale', readString);
+  const sheets = readArray(workbook['sheets'], 'sheets').map((sheet, i) =>
+    readSheet(sheet, `sheets[${i}]`, styles, locale)
+  );
+  if (!sheets.length) {
+    throw new SerializationError('Expected at least one sheet', 'sheets');
+  }
+
+  const activeSheetIndex = readInteger(
+    workbook['activeSheetIndex'],
+    'activeSheetIndex',
+    0,
+    sheets.length - 1
+  );
+  sheets[activeSheetIndex].isActive = true;
+
+  const data: SpreadsheetData = { sheets, activeSheetIndex };
+  if (locale) data.locale = locale;
+  if (workbook['calculation'] !== undefined) {
+    data.calculation = readCalculation(workbook['calculation'], 'calculation');
+  }
+  if (workbook['names'] !== undefined) {
+    data.names = readList(workbook['names'], 'names', readDefinedName);
+  }
+  if (workbook['metadata'] !== undefined) {
+    const { title, author, createdDate, modifiedDate } = readObject(
+      workbook['metadata'],
+      'metadata'
+    );
+    data.metadata = {
+      ...(title !== undefined && { title: readString(title, 'metadata.title') }),
+      ...(author !== undefined && { author: readString(author, 'metadata.author') }),
+      ...(createdDate !== undefined && {
+        createdDate: readDate(createdDate, 'metadata.createdDate'),
+      }),
+      ...(modifiedDate !== undefined && {
+        modifiedDate: readDate(modifiedDate, 'metadata.modifiedDate'),
+      }),
+    };
+  }
+  return data;
+}
+
+/**
+ * Writes a sheet with its non-empty cells
+ */
+function serializeSheet(
+  sheet: Sheet,
+  getStyleIndex: (style: CellStyle) => number
+): SerializedSheet {
+  const defaultColumnWidth = sheet.defaultColumnWidth ?? 100;
+  const defaultRowHeight = sheet.defaultRowHeight ?? 25;
+
+  const cells: SerializedCell[] = [];
+  forEachSheetCell(sheet.cells, (cell, row, col) => {
+    const serialized = serializeCell(cell, row, col, getStyleIndex);
+    if (serialized) cells.push(serialized);
+  });
+
+  const serialized: Omit<SerializedSheet, 'cells'> = {
+    id: sheet.id,
+    name: sheet.name,
+    rowCount: sheet.rowCount,
+    colCount: sheet.colCount,
+    defaultColumnWidth,
+    defaultRowHeight,
+  };
+
+  const columnWidths = getSizes(sheet.columnWidths, defaultColumnWidth);
+  if (columnWidths) serialized.columnWidths = columnWidths;
+  const rowHeights = getSizes(sheet.rowHeights, defaultRowHeight);
+  if (rowHeights) serialized.rowHeights = rowHeights;
+
+  if (sheet.isHidden) serialized.isHidden = true;
+  if (sheet.hiddenRows?.length) serialized.hiddenRows = [...sheet.hiddenRows];
+  if (sheet.autoFilter) serialized.autoFilter = sheet.autoFilter;
+  if (sheet.merges?.length) serialized.merges = sheet.merges;
+  if (sheet.frozenRows) serialized.frozenRows = sheet.frozenRows;
+  if (sheet.frozenColumns) serialized.frozenColumns = sheet.frozenColumns;
+  if (sheet.conditionalFormats?.length) serialized.conditionalFormats = sheet.conditionalFormats;
+  if (sheet.dataValidations?.length) serialized.dataValidations = sheet.dataValidations;
+  return { ...serialized, cells };
+}
+
+/**
+ * Writes a cell, or returns null when it has nothing worth keeping
+ */
+function serializeCell(
+  cell: Cell,
+  row: number,
+  col: number,
+  getStyleIndex: (style: CellStyle) => number
+): SerializedCell | null {
+  const serialized: SerializedCell = { r: row, c: col };
+
+  const value = cell.value;
+  if (value instanceof Date) {
+    serialized.v = dateToSerial(value);
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    serialized.v = value;
+  } else if (value !== '' && value !== null && value !== undefined) {
+    serialized.v = String(value);
+  }
+  if (cell.style && Object.keys(cell.style).length) {
+    serialized.s = getStyleIndex(cell.style);
+  }
+  if (cell.comment) serialized.comment = cell.comment;
+  if (cell.readonly) serialized.readonly = true;
+
+  return Object.keys(serialized).length > 2 ? serialized : null;
+}
+
+/**
+ * Gets the sizes that differ from the default size, keyed by index, or null if none do
+ */
+function getSizes(
+  sizes: number[] | undefined,
+  defaultSize: number
+): Record<string, number> | null {
+  const entries = (sizes ?? [])
+    .map((size, i) => [String(i), size] as const)
+    .filter(([, size]) => size !== undefined && size !== null && size !== defaultSize);
+  return entries.length ? Object.fromEntries(entries) : null;
+}
+
+/**
+ * Parses JSON text, reporting a syntax error as a SerializationError
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new SerializationError(`Invalid JSON (${(error as Error).message})`);
+  }
+}
+
+/**
+ * Runs the migrations from the version of a workbook up to the current version
+ */
+function upgradeWorkbook(
+  input: unknown,
+  migrations: WorkbookMigration[]
+): Record<string, unknown> {
+  let workbook = readObject(input, '');
+  let version = getVersion(workbook);
+
+  while (version < WORKBOOK_FORMAT_VERSION) {
+    const migration = migrations.find((m) => m.from === version);
+    if (!migration) {
+      throw new SerializationError(`No migration from version ${version}`, 'version');
+    }
+    workbook = readObject(migration.migrate(workbook), '');
+    if (getVersion(workbook) !== version + 1) {
+      throw new SerializationError(
+        `Migration from version ${version} did not return version ${version + 1}`,
+        'version'
+      );
+    }
+    version++;
+  }
+  return workbook;
+}
+
+/**
+ * Gets the version of the format of a workbook; SpreadsheetData written with
+ * JSON.stringify is version 0
+ */
+function getVersion(workbook: Record<string, unknown>): number {
+  if (workbook['format'] === undefined && Array.isArray(workbook['sheets'])) {
+    return 0;
+  }
+  if (workbook['format'] !== WORKBOOK_FORMAT) {
+    throw new SerializationError(`Expected '${WORKBOOK_FORMAT}'`, 'format');
+  }
+  const version = readInteger(workbook['version'], 'version', 0);
+  if (version > WORKBOOK_FORMAT_VERSION) {
+    throw new SerializationError(
+      `Version ${version} is newer than the supported version ${WORKBOOK_FORMAT_VERSION}`,
+      'version'
+    );
+  }
+  return version;
+}
+
+/**
+ * Upgrades a cell written with JSON.stringify: restores its dates and turns a
+ * plain-text comment into a comment thread
+ */
+function upgradeCell(input: unknown, path: string, row: number, col: number): Cell {
+  const { comment, value, ...cell } = readObject(input, path);
+  const upgraded: Cell = { ...cell, row, col, value };
+  if (typeof comment === 'string') {
+    upgraded.comment = createCommentEntry(comment, '');
+  } else if (comment !== undefined) {
+    upgraded.comment = readComment(comment, `${path}.comment`);
+  }
+  if (typeof value === 'string' && JSON_DATE_PATTERN.test(value)) {
+    upgraded.value = new Date(value);
+  }
+  return upgraded;
+}
+
+/**
+ * Reads a sheet and rebuilds its cells
+ */
+function readSheet(
+  input: unknown,
+  path: string,
+  styles: CellStyle[],
+  locale: string | undefined
+): Sheet {
+  const sheet = readObject(input, path);
+  const rowCount = readInteger(sheet['rowCount'], `${path}.rowCount`, 1);
+  const colCount = readInteger(sheet['colCount'], `${path}.colCount`, 1);
+  const defaultColumnWidth =
+    readOptional(sheet['defaultColumnWidth'], `${path}.defaultColumnWidth`, readNumber) ?? 100;
+  const defaultRowHeight =
+    readOptional(sheet['defaultRowHeight'], `${path}.defaultRowHeight`, readNumber) ?? 25;
+
+  const result: Sheet = {
+    ...createEmptySheet({
+      name: readString(sheet['name'], `${path}.name`),
+      rowCount,
+      colCount,
+      defaultColumnWidth,
+      defaultRowHeight,
+    }),
+    id: readString(sheet['id'], `${path}.id`),
+  };
+  readSizes(sheet['columnWidths'], `${path}.columnWidths`, result.columnWidths!);
+  readSizes(sheet['rowHeights'], `${path}.rowHeights`, result.rowHeights!);
+
+  if (readOptional(sheet['isHidden'], `${path}.isHidden`, readBoolean)) {
+    result.isHidden = true;
+  }
+  if (sheet['hiddenRows'] !== undefined) {
+    result.hiddenRows = readArray(sheet['hiddenRows'], `${path}.hiddenRows`).map((row, i) =>
+      readInteger(row, `${path}.hiddenRows[${i}]`, 0, rowCount - 1)
+    );
+  }
+  for (const key of ['frozenRows', 'frozenColumns'] as const) {
+    const count = readOptional(sheet[key], `${path}.${key}`, (value, at) =>
+      readInteger(value, at, 0)
+    );
+    if (count) result[key] = count;
+  }
+  if (sheet['autoFilter'] !== undefined) {
+    result.autoFilter = readAutoFilter(sheet['autoFilter'], `${path}.autoFilter`);
+  }
+  if (sheet['merges'] !== undefined) {
+    result.merges = readList(sheet['merges'], `${path}.merges`, readRange);
+  }
+  if (sheet['conditionalFormats'] !== undefined) {
+    result.conditionalFormats = readList(
+      sheet['conditionalFormats'],
+      `${path}.conditionalFormats`,
+      readConditionalFormat
+    );
+  }
+  if (sheet['dataValidations'] !== undefined) {
+    result.dataValidations = readList(
+      sheet['dataValidations'],
+      `${path}.dataValidations`,
+      readDataValidation
+    );
+  }
+
+  const cells = readArray(sheet['cells'], `${path}.cells`).map((input, i) => {
+    const at = `${path}.cells[${i}]`;
+    const cell = readObject(input, at);
+    const row = readInteger(cell['r'], `${at}.r`, 0, rowCount - 1);
+    const col = readInteger(cell['c'], `${at}.c`, 0, colCount - 1);
+    const style =
+      cell['s'] === undefined
+        ? undefined
+        : styles[readInteger(cell['s'], `${at}.s`, 0, styles.length - 1)];
+
+    const value = readOptional(cell['v'], `${at}.v`, readCellValue) ?? '';
+    const restored = createCell(row, col, value, style, locale);
+    if (cell['comment'] !== undefined) {
+      restored.comment = readComment(cell['comment'], `${at}.comment`);
+    }
+    if (readOptional(cell['readonly'], `${at}.readonly`, readBoolean)) {
+      restored.readonly = true;
+    }
+    return restored;
+  });
+
+  return { ...result, cells: setSheetCells(result.cells, cells) };
+}
+
+/**
+ * Creates a cell holding a value, with its data type and display value as the grid
+ * shows it. Formulas are shown once the workbook is calculated.
+ */
+function createCell(
+  row: number,
+  col: number,
+  value: string | number | boolean,
+  style: CellStyle | undefined,
+  locale: string | undefined
+): Cell {
+  const cell: Cell = { row, col, value, displayValue: '', dataType: 'string' };
+  if (style) {
+    cell.style = { ...style };
+  }
+
+  const errorCode = typeof value === 'string' ? toFormulaErrorCode(value) : null;
+  if (typeof value === 'string' && value.startsWith('=')) {
+    cell.dataType = 'formula';
+  } else if (typeof value === 'boolean') {
+    cell.dataType = 'boolean';
+    cell.displayValue = String(value);
+  } else if (errorCode) {
+    cell.dataType = 'error';
+    cell.error = errorCode;
+    cell.displayValue = errorCode;
+  } else {
+    const pattern = getNumberFormatPattern(style);
+    if (typeof value === 'number') {
+      cell.dataType = isDateFormat(pattern) ? 'date' : 'number';
+    }
+    cell.displayValue = formatValue(value, pattern, { locale }).text;
+  }
+  return cell;
+}
+
+/**
+ * Copies sizes keyed by index into the sizes of a sheet
+ */
+function readSizes(input: unknown, path: string, sizes: number[]): void {
+  if (input === undefined) return;
+  for (const [key, size] of Object.entries(readObject(input, path))) {
+    if (!/^\d+$/.test(key) || Number(key) >= sizes.length) {
+      throw new SerializationError(`Expected an index below ${sizes.length}`, `${path}.${key}`);
+    }
+    sizes[Number(key)] = readNumber(size, `${path}.${key}`);
+  }
+}
+
+function toIsoString(date: Date | string): string {
+  return date instanceof Date ? date.toISOString() : String(date);
+}
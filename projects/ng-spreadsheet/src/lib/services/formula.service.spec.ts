@@ -1,6 +1,6 @@
 import { TestBed } from '@angular/core/testing';
 import { FormulaService } from './formula.service';
-import { Cell } from '../models';
+import { Cell, DefinedName, Sheet, createEmptySheet } from '../models';
 
 describe('FormulaService', () => {
   let service: FormulaService;
@@ -198,6 +198,55 @@ describe('FormulaService', () => {
         expect(result).toBeCloseTo(4, 0);
       });
     });
+
+    describe('SUBTOTAL', () => {
+      // Column A holds 1-5; rows 2-3 (A2:A3) are hidden
+      const sheetWith = (filterStartRow: number, hiddenRows: number[]): Sheet => ({
+        ...createEmptySheet({ rowCount: 5, colCount: 5 }),
+        cells: mockCells,
+        hiddenRows,
+        autoFilter: {
+          range: { start: { row: filterStartRow, col: 0 }, end: { row: 4, col: 0 } },
+          columns: {},
+        },
+      });
+      const evaluate = (formula: string, sheet?: Sheet) =>
+        service.evaluateFormula(formula, mockCells, 4, 4, sheet ? [sheet] : []);
+
+      it('should apply the function chosen by function_num', () => {
+        expect(evaluate('=SUBTOTAL(9,A1:A5)')).toBe(15);
+        expect(evaluate('=SUBTOTAL(1,A1:A5)')).toBe(3);
+        expect(evaluate('=SUBTOTAL(2,A1:A5,B1)')).toBe(6);
+        expect(evaluate('=SUBTOTAL(4,A1:A5)')).toBe(5);
+        expect(evaluate('=SUBTOTAL(11,A1:A5)')).toBe(2);
+        expect(evaluate('=SUBTOTAL(12,A1:A5)')).toBe('#VALUE!');
+        expect(evaluate('=SUBTOTAL(9,5)')).toBe('#VALUE!');
+      });
+
+      it('should skip rows hidden by the AutoFilter', () => {
+        const sheet = sheetWith(0, [1, 2]);
+        expect(evaluate('=SUBTOTAL(9,A1:A5)', sheet)).toBe(10);
+        expect(evaluate('=SUBTOTAL(109,A1:A5)', sheet)).toBe(10);
+      });
+
+      it('should only skip other hidden rows with 101-111', () => {
+        // Row 2 is hidden but lies above the filtered rows
+        const sheet = sheetWith(2, [1]);
+        expect(evaluate('=SUBTOTAL(9,A1:A5)', sheet)).toBe(15);
+        expect(evaluate('=SUBTOTAL(109,A1:A5)', sheet)).toBe(13);
+      });
+
+      it('should ignore other SUBTOTAL results', () => {
+        mockCells[4][0] = {
+          row: 4,
+          col: 0,
+          value: '=SUBTOTAL(9,A1:A4)',
+          computedValue: 10,
+          dataType: 'formula',
+        };
+        expect(evaluate('=SUBTOTAL(9,A1:A5)')).toBe(10);
+      });
+    });
   });
 
   describe('Logical Functions', () => {
@@ -282,10 +331,211 @@ describe('FormulaService', () => {
     });
   });
 
+  describe('Defined Names', () => {
+    const range = (sheet: string, row: number, col: number, endRow: number, endCol: number) => ({
+      start: { row, col },
+      end: { row: endRow, col: endCol },
+      sheet,
+    });
+
+    it('should resolve names to the cells and ranges they refer to', () => {
+      const sheet: Sheet = { ...createEmptySheet({ name: 'Data' }), cells: mockCells };
+      const names: DefinedName[] = [
+        { id: '1', name: 'Rate', range: range('Data', 1, 1, 1, 1) },
+        { id: '2', name: 'Values', range: range('Data', 0, 0, 4, 0) },
+        { id: '3', name: 'Gone' },
+      ];
+      const evaluate = (formula: string) =>
+        service.evaluateFormula(formula, mockCells, 4, 4, [sheet], names);
+
+      // B2 = 4, A1:A5 = 1..5
+      expect(evaluate('=rate*10')).toBe(40);
+      expect(evaluate('=SUM(Values)')).toBe(15);
+      expect(evaluate('=SUBTOTAL(9,Values)')).toBe(15);
+      expect(evaluate('=Gone+1')).toBe('#REF!');
+      expect(evaluate('=Unknown+1')).toBe('#NAME?');
+    });
+
+    it('should prefer names scoped to the sheet of the formula', () => {
+      const sheet: Sheet = { ...createEmptySheet({ name: 'Data' }), cells: mockCells };
+      const names: DefinedName[] = [
+        { id: '1', name: 'Rate', range: range('Data', 0, 0, 0, 0) },
+        { id: '2', name: 'Rate', range: range('Data', 0, 2, 0, 2), sheetId: sheet.id },
+      ];
+      expect(service.evaluateFormula('=Rate', mockCells, 4, 4, [sheet], names)).toBe(3);
+      expect(service.getReferences('=Rate', names, 'other')).toEqual([range('Data', 0, 0, 0, 0)]);
+    });
+  });
+
   describe('Error Handling', () => {
-    it('should return #ERROR! for invalid formula', () => {
+    it('should return #NAME? for unknown functions', () => {
       const result = service.evaluateFormula('=INVALID()', mockCells, 0, 0);
-      expect(result).toBe('#ERROR!');
+      expect(result).toBe('#NAME?');
+    });
+
+    it('should return #ERROR! for malformed expressions', () => {
+      expect(service.evaluateFormula('=1+', mockCells, 0, 0)).toBe('#ERROR!');
+      expect(service.evaluateFormula('=SUM(A1:A3', mockCells, 0, 0)).toBe('#ERROR!');
+    });
+
+    it('should return #VALUE! for arithmetic on non-numeric text', () => {
+      mockCells[0][0].value = 'text';
+      const result = service.evaluateFormula('=A1*2', mockCells, 4, 4);
+      expect(result).toBe('#VALUE!');
+    });
+  });
+
+  describe('Error Values', () => {
+    beforeEach(() => {
+      mockCells[0][0] = {
+        row: 0,
+        col: 0,
+        value: '=1/0',
+        displayValue: '#DIV/0!',
+        computedValue: '#DIV/0!',
+        dataType: 'error',
+        error: '#DIV/0!'
+      };
+    });
+
+    it('should return #DIV/0! for division by zero', () => {
+      expect(service.evaluateFormula('=5/0', mockCells, 4, 4)).toBe('#DIV/0!');
+    });
+
+    it('should report the error code separately from the value', () => {
+      expect(service.evaluate('=5/0', mockCells, 4, 4)).toEqual({
+        value: '#DIV/0!',
+        error: '#DIV/0!'
+      });
+      expect(service.evaluate('=5/2', mockCells, 4, 4)).toEqual({ value: 2.5 });
+    });
+
+    it('should propagate errors through operators and functions', () => {
+      expect(service.evaluateFormula('=A1+1', mockCells, 4, 4)).toBe('#DIV/0!');
+      expect(service.evaluateFormula('=SUM(A1:A5)', mockCells, 4, 4)).toBe('#DIV/0!');
+      expect(service.evaluateFormula('=A1&"x"', mockCells, 4, 4)).toBe('#DIV/0!');
+    });
+
+    it('should propagate the leftmost error of an operator', () => {
+      expect(service.evaluateFormula('=#N/A+A1', mockCells, 4, 4)).toBe('#N/A');
+      expect(service.evaluateFormula('=A1+#N/A', mockCells, 4, 4)).toBe('#DIV/0!');
+    });
+
+    it('should skip errors in COUNT and count them in COUNTA', () => {
+      expect(service.evaluateFormula('=COUNT(A1:A5)', mockCells, 4, 4)).toBe(4);
+      expect(service.evaluateFormula('=COUNTA(A1:A5)', mockCells, 4, 4)).toBe(5);
+    });
+
+    it('should treat typed error literals in cells as errors', () => {
+      mockCells[1][0] = { row: 1, col: 0, value: '#N/A', displayValue: '#N/A', dataType: 'string' };
+      expect(service.evaluateFormula('=A2*2', mockCells, 4, 4)).toBe('#N/A');
+    });
+
+    it('should catch every error with IFERROR', () => {
+      expect(service.evaluateFormula('=IFERROR(A1,"caught")', mockCells, 4, 4)).toBe('caught');
+      expect(service.evaluateFormula('=IFERROR(#N/A,"caught")', mockCells, 4, 4)).toBe('caught');
+    });
+
+    it('should only catch #N/A with IFNA', () => {
+      expect(service.evaluateFormula('=IFNA(#N/A,"missing")', mockCells, 4, 4)).toBe('missing');
+      expect(service.evaluateFormula('=IFNA(A1,"missing")', mockCells, 4, 4)).toBe('#DIV/0!');
+    });
+
+    it('should return #N/A when VLOOKUP finds no match', () => {
+      expect(service.evaluateFormula('=VLOOKUP(99,B1:C5,2,FALSE)', mockCells, 4, 4)).toBe('#N/A');
+    });
+
+    it('should return #REF! when the VLOOKUP column is outside the table', () => {
+      expect(service.evaluateFormula('=VLOOKUP(2,B1:C5,3,FALSE)', mockCells, 4, 4)).toBe('#REF!');
+    });
+
+    it('should detect errors with ISERROR and ISNA', () => {
+      expect(service.evaluateFormula('=ISERROR(A1)', mockCells, 4, 4)).toBe('TRUE');
+      expect(service.evaluateFormula('=ISERROR(A2)', mockCells, 4, 4)).toBe('FALSE');
+      expect(service.evaluateFormula('=ISNA(A1)', mockCells, 4, 4)).toBe('FALSE');
+      expect(service.evaluateFormula('=ISNA(#N/A)', mockCells, 4, 4)).toBe('TRUE');
+    });
+
+    it('should number errors with ERROR.TYPE', () => {
+      expect(service.evaluateFormula('=ERROR.TYPE(A1)', mockCells, 4, 4)).toBe(2);
+      expect(service.evaluateFormula('=ERROR.TYPE(#N/A)', mockCells, 4, 4)).toBe(7);
+      expect(service.evaluateFormula('=ERROR.TYPE(A2)', mockCells, 4, 4)).toBe('#N/A');
+    });
+  });
+
+  describe('Date Functions', () => {
+    const evaluate = (formula: string) => service.evaluateFormula(formula, mockCells, 4, 4);
+
+    it('should build serial dates with DATE, rolling over months and days', () => {
+      expect(evaluate('=DATE(2026,3,1)')).toBe(46082);
+      expect(evaluate('=DATE(2025,14,1)')).toBe(evaluate('=DATE(2026,2,1)'));
+      expect(evaluate('=DATE(2024,3,0)')).toBe(evaluate('=DATE(2024,2,29)'));
+      expect(evaluate('=DATE(126,3,1)')).toBe(46082);
+      expect(evaluate('=DATE(10000,1,1)')).toBe('#NUM!');
+    });
+
+    it('should suggest a date format for functions returning dates', () => {
+      const today = service.evaluate('=TODAY()', mockCells, 4, 4);
+      expect(today.numberFormat).toBe('yyyy-mm-dd');
+      expect(Number.isInteger(today.value)).toBeTrue();
+      expect(service.evaluate('=YEAR(46082)', mockCells, 4, 4).numberFormat).toBeUndefined();
+    });
+
+    it('should return the current date and time with TODAY and NOW', () => {
+      const now = evaluate('=NOW()') as number;
+      expect(now - (evaluate('=TODAY()') as number)).toBeGreaterThanOrEqual(0);
+      expect(now - (evaluate('=TODAY()') as number)).toBeLessThan(1);
+    });
+
+    it('should extract parts of a date with YEAR, MONTH and DAY', () => {
+      expect(evaluate('=YEAR(46082)')).toBe(2026);
+      expect(evaluate('=MONTH(46082.75)')).toBe(3);
+      expect(evaluate('=DAY(46082)')).toBe(1);
+      expect(evaluate('=YEAR("2024-12-31")')).toBe(2024);
+      expect(evaluate('=DAY("soon")')).toBe('#VALUE!');
+      expect(evaluate('=YEAR(-1)')).toBe('#NUM!');
+    });
+
+    it('should add months with EDATE and EOMONTH', () => {
+      expect(evaluate('=EDATE(DATE(2024,1,31),1)')).toBe(evaluate('=DATE(2024,2,29)'));
+      expect(evaluate('=EDATE(DATE(2024,3,15),-3)')).toBe(evaluate('=DATE(2023,12,15)'));
+      expect(evaluate('=EOMONTH(DATE(2024,1,15),1)')).toBe(evaluate('=DATE(2024,2,29)'));
+      expect(evaluate('=EOMONTH(DATE(2024,1,15),0)')).toBe(evaluate('=DATE(2024,1,31)'));
+    });
+
+    it('should measure differences with DATEDIF', () => {
+      expect(evaluate('=DATEDIF("2020-01-31","2024-03-01","Y")')).toBe(4);
+      expect(evaluate('=DATEDIF("2020-01-31","2024-03-01","M")')).toBe(49);
+      expect(evaluate('=DATEDIF("2024-01-01","2024-03-01","D")')).toBe(60);
+      expect(evaluate('=DATEDIF("2020-01-31","2020-02-29","MD")')).toBe(29);
+      expect(evaluate('=DATEDIF("2020-01-31","2024-03-01","YM")')).toBe(1);
+      expect(evaluate('=DATEDIF("2019-03-01","2020-02-29","YD")')).toBe(365);
+      expect(evaluate('=DATEDIF("2024-03-01","2024-01-01","D")')).toBe('#NUM!');
+      expect(evaluate('=DATEDIF("2024-01-01","2024-03-01","W")')).toBe('#NUM!');
+    });
+
+    it('should count working days with NETWORKDAYS', () => {
+      // 2026-03-02 is a Monday
+      expect(evaluate('=NETWORKDAYS("2026-03-02","2026-03-13")')).toBe(10);
+      expect(evaluate('=NETWORKDAYS("2026-03-13","2026-03-02")')).toBe(-10);
+      expect(evaluate('=NETWORKDAYS("2026-03-02","2026-03-13",DATE(2026,3,4))')).toBe(9);
+    });
+
+    it('should number weekdays with WEEKDAY', () => {
+      // 2026-03-01 is a Sunday
+      expect(evaluate('=WEEKDAY(46082)')).toBe(1);
+      expect(evaluate('=WEEKDAY(46082,2)')).toBe(7);
+      expect(evaluate('=WEEKDAY(46082,3)')).toBe(6);
+      expect(evaluate('=WEEKDAY(46083,11)')).toBe(1);
+      expect(evaluate('=WEEKDAY(46082,17)')).toBe(1);
+      expect(evaluate('=WEEKDAY(46082,9)')).toBe('#NUM!');
+    });
+
+    it('should do arithmetic on date cells', () => {
+      mockCells[0][0] = { row: 0, col: 0, value: 46082, dataType: 'date' };
+      mockCells[1][0] = { row: 1, col: 0, value: 46113, dataType: 'date' };
+      expect(evaluate('=A2-A1')).toBe(31);
+      expect(evaluate('=A1+7')).toBe(46089);
     });
   });
 
@@ -304,5 +554,63 @@ describe('FormulaService', () => {
       const result = service.evaluateFormula('=A1*2+B1', mockCells, 0, 0);
       expect(result).toBe(4); // 1*2 + 2
     });
+
+    it('should respect operator precedence and parentheses', () => {
+      expect(service.evaluateFormula('=2+3*4', mockCells, 0, 0)).toBe(14);
+      expect(service.evaluateFormula('=(2+3)*4', mockCells, 0, 0)).toBe(20);
+      expect(service.evaluateFormula('=10-4-3', mockCells, 0, 0)).toBe(3);
+    });
+
+    it('should handle unary minus, percent and exponent', () => {
+      expect(service.evaluateFormula('=-A1+5', mockCells, 0, 0)).toBe(4);
+      expect(service.evaluateFormula('=50%', mockCells, 0, 0)).toBe(0.5);
+      expect(service.evaluateFormula('=2^3', mockCells, 0, 0)).toBe(8);
+      // Negation binds tighter than exponent, as in Excel
+      expect(service.evaluateFormula('=-2^2', mockCells, 0, 0)).toBe(4);
+    });
+
+    it('should combine functions with operators', () => {
+      // A1=1, A2=2, A3=3 => (1+2+3)*2 = 12
+      const result = service.evaluateFormula('=SUM(A1:A3)*2', mockCells, 0, 0);
+      expect(result).toBe(12);
+    });
+
+    it('should evaluate nested function calls', () => {
+      mockCells[0][1].value = 1;
+      mockCells[1][1].value = 2;
+      mockCells[2][1].value = 2;
+      // AVERAGE(B1:B3) = 5/3
+      const result = service.evaluateFormula('=ROUND(AVERAGE(B1:B3),2)', mockCells, 4, 4);
+      expect(result).toBe(1.67);
+    });
+  });
+
+  describe('Text and Comparison Operators', () => {
+    it('should concatenate strings with &', () => {
+      const result = service.evaluateFormula('=A1&" units"', mockCells, 4, 4);
+      expect(result).toBe('1 units');
+    });
+
+    it('should unescape doubled quotes in string literals', () => {
+      const result = service.evaluateFormula('="say ""hi"""', mockCells, 4, 4);
+      expect(result).toBe('say "hi"');
+    });
+
+    it('should return TRUE/FALSE for comparisons', () => {
+      expect(service.evaluateFormula('=A1>5', mockCells, 4, 4)).toBe('FALSE');
+      expect(service.evaluateFormula('=E5>5', mockCells, 0, 0)).toBe('TRUE');
+      expect(service.evaluateFormula('=A1<>B1', mockCells, 4, 4)).toBe('TRUE');
+    });
+
+    it('should compare text case-insensitively', () => {
+      mockCells[0][0].value = 'Apple';
+      const result = service.evaluateFormula('=A1="apple"', mockCells, 4, 4);
+      expect(result).toBe('TRUE');
+    });
+
+    it('should use comparison results inside IF', () => {
+      const result = service.evaluateFormula('=IF(SUM(A1:A3)>=6,"ok","low")', mockCells, 4, 4);
+      expect(result).toBe('ok');
+    });
   });
 });
@@ -1,325 +1,762 @@
 import { Injectable } from '@angular/core';
-import { Cell, a1ToCellAddress } from '../models';
+import { CellRange, DefinedName, Sheet, SheetCells } from '../models';
+import {
+  EXCEL_ERROR_CODES,
+  FormulaError,
+  FormulaErrorCode,
+  FormulaNode,
+  getFormulaReferences,
+  parseFormula,
+  toFormulaErrorCode,
+} from '../formula';
+import { dateToSerial, parseDateInput, partsToSerial, serialToUtcDate } from '../format';
+import { isSingleCell } from '../merge';
+import { findDefinedName } from '../names';
+
+/**
+ * Result of evaluating a formula: the value to store, plus the error code
+ * when the formula evaluated to an error (in which case `value` is that code)
+ */
+export interface FormulaResult {
+  value: string | number;
+  error?: FormulaErrorCode;
+
+  /**
+   * Format code suggested for the result, set when the formula returns a date
+   * (e.g. =TODAY()) so cells without a number format can show it as one
+   */
+  numberFormat?: string;
+}
+
+/**
+ * A single value produced while evaluating a formula.
+ * `null` represents a blank cell; errors are FormulaError instances.
+ */
+type FormulaScalar = number | string | boolean | null | FormulaError;
+
+/**
+ * Any value produced while evaluating a formula.
+ * Ranges evaluate to a 2D array of scalars ([row][col]).
+ */
+type FormulaValue = FormulaScalar | FormulaScalar[][];
+
+/**
+ * State carried through the evaluation of a single formula
+ */
+interface EvaluationContext {
+  /** Cells of the sheet references currently resolve against */
+  cells: SheetCells;
+
+  /** Id of the sheet `cells` belongs to ('' when evaluated without a workbook) */
+  sheetKey: string;
+
+  /** All sheets of the workbook, used to resolve sheet-qualified references */
+  sheets: Sheet[];
+
+  /** Row of the cell being evaluated */
+  row: number;
+
+  /** Column of the cell being evaluated */
+  col: number;
+
+  /** Keys ('sheet!row:col') of formula cells currently on the evaluation stack */
+  evaluating: Set<string>;
+}
+
+/**
+ * Implementation of a spreadsheet function.
+ * Receives unevaluated argument nodes so functions like IF can evaluate lazily.
+ */
+type FormulaFunction = (args: FormulaNode[], context: EvaluationContext) => FormulaValue;
+
+const NUMERIC_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/** Format codes for the results of functions that return dates */
+const DATE_RESULT_FORMATS: Record<string, string> = {
+  TODAY: 'yyyy-mm-dd',
+  NOW: 'yyyy-mm-dd hh:mm',
+  DATE: 'yyyy-mm-dd',
+  EDATE: 'yyyy-mm-dd',
+  EOMONTH: 'yyyy-mm-dd',
+};
+
+/** Functions applied by SUBTOTAL, in function_num order (1-11, or 101-111) */
+const SUBTOTAL_FUNCTIONS = [
+  'AVERAGE',
+  'COUNT',
+  'COUNTA',
+  'MAX',
+  'MIN',
+  'PRODUCT',
+  'STDEV',
+  'STDEVP',
+  'SUM',
+  'VAR',
+  'VARP',
+];
+
+const SUBTOTAL_PATTERN = /\bSUBTOTAL\s*\(/i;
 
 /**
  * Service for evaluating spreadsheet formulas.
- * Handles basic arithmetic operations and simple functions.
+ * Formulas are parsed into an AST and evaluated with Excel's operator
+ * precedence, supporting nested function calls, string concatenation (&),
+ * comparisons, unary minus, percent and exponent.
  */
-@Injectable({
-  providedIn: 'root',
-})
+@Injectable()
 export class FormulaService {
+  /** Parsed formulas keyed by their source text */
+  private readonly astCache = new Map<string, FormulaNode>();
+
+  /** Built-in functions keyed by upper-case name */
+  private readonly functions: Record<string, FormulaFunction> = {
+    // Mathematical & Statistical Functions
+    SUM: (args, ctx) => this.collectNumbers(args, ctx).reduce((sum, val) => sum + val, 0),
+    AVERAGE: (args, ctx) => this.evaluateAverage(this.collectNumbers(args, ctx)),
+    COUNT: (args, ctx) => this.collectNumbers(args, ctx, true).length,
+    COUNTA: (args, ctx) => this.evaluateCountA(args, ctx),
+    COUNTBLANK: (args, ctx) => this.evaluateCountBlank(args, ctx),
+    MIN: (args, ctx) => this.evaluateMin(this.collectNumbers(args, ctx)),
+    MAX: (args, ctx) => this.evaluateMax(this.collectNumbers(args, ctx)),
+    MEDIAN: (args, ctx) => this.evaluateMedian(this.collectNumbers(args, ctx)),
+    MODE: (args, ctx) => this.evaluateMode(this.collectNumbers(args, ctx)),
+    PRODUCT: (args, ctx) => this.evaluateProduct(this.collectNumbers(args, ctx)),
+    STDEV: (args, ctx) => this.evaluateStdev(this.collectNumbers(args, ctx)),
+    VAR: (args, ctx) => this.evaluateVar(this.collectNumbers(args, ctx)),
+    SUBTOTAL: (args, ctx) => this.evaluateSubtotal(args, ctx),
+    CORREL: (args, ctx) => this.evaluateCorrel(args, ctx),
+    PERCENTILE: (args, ctx) => this.evaluatePercentile(args, ctx),
+    QUARTILE: (args, ctx) => this.evaluateQuartile(args, ctx),
+    RANK: (args, ctx) => this.evaluateRank(args, ctx),
+    ROUND: (args, ctx) => this.evaluateRound(args, ctx),
+
+    // Logical Functions
+    IF: (args, ctx) => this.evaluateIf(args, ctx),
+    IFS: (args, ctx) => this.evaluateIfs(args, ctx),
+    IFERROR: (args, ctx) => this.evaluateIfError(args, ctx),
+    IFNA: (args, ctx) => this.evaluateIfNa(args, ctx),
+    AND: (args, ctx) => (this.collectBooleans(args, ctx).every((b) => b) ? 1 : 0),
+    OR: (args, ctx) => (this.collectBooleans(args, ctx).some((b) => b) ? 1 : 0),
+    NOT: (args, ctx) => this.evaluateNot(args, ctx),
+
+    // Date Functions
+    TODAY: (args) => this.evaluateToday(args),
+    NOW: (args) => this.evaluateNow(args),
+    DATE: (args, ctx) => this.evaluateDate(args, ctx),
+    YEAR: (args, ctx) => this.evaluateDatePart(args, ctx, (date) => date.getUTCFullYear()),
+    MONTH: (args, ctx) => this.evaluateDatePart(args, ctx, (date) => date.getUTCMonth() + 1),
+    DAY: (args, ctx) => this.evaluateDatePart(args, ctx, (date) => date.getUTCDate()),
+    EDATE: (args, ctx) => this.evaluateEdate(args, ctx),
+    EOMONTH: (args, ctx) => this.evaluateEomonth(args, ctx),
+    DATEDIF: (args, ctx) => this.evaluateDatedif(args, ctx),
+    NETWORKDAYS: (args, ctx) => this.evaluateNetworkdays(args, ctx),
+    WEEKDAY: (args, ctx) => this.evaluateWeekday(args, ctx),
+
+    // Information Functions
+    ISERROR: (args, ctx) => this.evaluateErrorCheck(args, ctx, () => true),
+    ISNA: (args, ctx) => this.evaluateErrorCheck(args, ctx, (error) => error.code === '#N/A'),
+    'ERROR.TYPE': (args, ctx) => this.evaluateErrorType(args, ctx),
+
+    // Lookup Functions
+    VLOOKUP: (args, ctx) => this.evaluateVlookup(args, ctx),
+  };
+
   /**
-   * Evaluates a formula and returns the calculated value
+   * Evaluates a formula and returns the calculated value.
+   * Errors are returned as their code (e.g. '#DIV/0!').
+   * Pass the workbook's sheets to resolve sheet-qualified references (Sheet2!A1),
+   * and its defined names to resolve names such as TaxRate.
    */
   evaluateFormula(
     formula: string,
-    cells: Cell[][],
+    cells: SheetCells,
     currentRow: number,
-    currentCol: number
+    currentCol: number,
+    sheets: Sheet[] = [],
+    names: DefinedName[] = []
   ): string | number {
+    return this.evaluate(formula, cells, currentRow, currentCol, sheets, names).value;
+  }
+
+  /**
+   * Evaluates a formula and reports whether the result is an error value,
+   * so callers can tell the #N/A error apart from the text "#N/A"
+   */
+  evaluate(
+    formula: string,
+    cells: SheetCells,
+    currentRow: number,
+    currentCol: number,
+    sheets: Sheet[] = [],
+    names: DefinedName[] = []
+  ): FormulaResult {
+    const sheetKey = sheets.find((sheet) => sheet.cells === cells)?.id ?? '';
+    let ast: FormulaNode;
+    try {
+      ast = this.resolveNames(this.parse(formula), names, sheetKey);
+    } catch {
+      return { value: '#ERROR!', error: '#ERROR!' };
+    }
+
+    try {
+      const context: EvaluationContext = {
+        cells,
+        sheetKey,
+        sheets,
+        row: currentRow,
+        col: currentCol,
+        evaluating: new Set([this.cellKey(sheetKey, currentRow, currentCol)]),
+      };
+      const value = this.toResult(this.evaluateNode(ast, context));
+      const numberFormat = ast.type === 'function' ? DATE_RESULT_FORMATS[ast.name] : undefined;
+      return numberFormat ? { value, numberFormat } : { value };
+    } catch (error) {
+      const code = error instanceof FormulaError ? error.code : '#ERROR!';
+      return { value: code, error: code };
+    }
+  }
+
+  /**
+   * Returns the cells and ranges a formula reads from, including those of the defined
+   * names it uses as seen from the sheet `sheetId`. Malformed formulas have no references.
+   */
+  getReferences(formula: string, names: DefinedName[] = [], sheetId?: string): CellRange[] {
     try {
-      // Remove the = sign
-      const expression = formula.trim().substring(1);
-      const upperExpr = expression.toUpperCase();
-
-      // Mathematical & Statistical Functions
-      if (upperExpr.startsWith('SUM(')) {
-        return this.evaluateSum(expression, cells);
-      } else if (upperExpr.startsWith('AVERAGE(')) {
-        return this.evaluateAverage(expression, cells);
-      } else if (upperExpr.startsWith('COUNT(')) {
-        return this.evaluateCount(expression, cells);
-      } else if (upperExpr.startsWith('COUNTA(')) {
-        return this.evaluateCountA(expression, cells);
-      } else if (upperExpr.startsWith('COUNTBLANK(')) {
-        return this.evaluateCountBlank(expression, cells);
-      } else if (upperExpr.startsWith('MIN(')) {
-        return this.evaluateMin(expression, cells);
-      } else if (upperExpr.startsWith('MAX(')) {
-        return this.evaluateMax(expression, cells);
-      } else if (upperExpr.startsWith('MEDIAN(')) {
-        return this.evaluateMedian(expression, cells);
-      } else if (upperExpr.startsWith('MODE(')) {
-        return this.evaluateMode(expression, cells);
-      } else if (upperExpr.startsWith('PRODUCT(')) {
-        return this.evaluateProduct(expression, cells);
-      } else if (upperExpr.startsWith('STDEV(')) {
-        return this.evaluateStdev(expression, cells);
-      } else if (upperExpr.startsWith('VAR(')) {
-        return this.evaluateVar(expression, cells);
-      } else if (upperExpr.startsWith('CORREL(')) {
-        return this.evaluateCorrel(expression, cells);
-      } else if (upperExpr.startsWith('PERCENTILE(')) {
-        return this.evaluatePercentile(expression, cells);
-      } else if (upperExpr.startsWith('QUARTILE(')) {
-        return this.evaluateQuartile(expression, cells);
-      } else if (upperExpr.startsWith('RANK(')) {
-        return this.evaluateRank(expression, cells);
+      return getFormulaReferences(this.resolveNames(this.parse(formula), names, sheetId));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Parses a formula, reusing the cached AST when the same formula was seen before
+   */
+  private parse(formula: string): FormulaNode {
+    let ast = this.astCache.get(formula);
+    if (!ast) {
+      ast = parseFormula(formula);
+      this.astCache.set(formula, ast);
+    }
+    return ast;
+  }
+
+  /**
+   * Replaces the defined names of an AST with the cells and ranges they refer to, as seen
+   * from a sheet, so functions treat them like the references they stand for.
+   * Unknown names are kept (#NAME?) and names whose cells were deleted become #REF!.
+   * Returns new nodes, leaving the cached AST untouched.
+   */
+  private resolveNames(node: FormulaNode, names: DefinedName[], sheetId?: string): FormulaNode {
+    if (names.length === 0) return node;
+
+    switch (node.type) {
+      case 'name': {
+        const defined = findDefinedName(names, node.name, sheetId);
+        if (!defined) return node;
+        if (!defined.range) return { type: 'error', code: '#REF!' };
+
+        const { range } = defined;
+        return isSingleCell(range)
+          ? { type: 'cell', address: range.start, sheet: range.sheet }
+          : { type: 'range', range };
       }
-      // Logical Functions
-      else if (upperExpr.startsWith('IF(')) {
-        return this.evaluateIf(expression, cells, currentRow, currentCol);
-      } else if (upperExpr.startsWith('IFS(')) {
-        return this.evaluateIfs(expression, cells, currentRow, currentCol);
-      } else if (upperExpr.startsWith('IFERROR(')) {
-        return this.evaluateIfError(expression, cells, currentRow, currentCol);
-      } else if (upperExpr.startsWith('IFNA(')) {
-        return this.evaluateIfNa(expression, cells, currentRow, currentCol);
-      } else if (upperExpr.startsWith('AND(')) {
-        return this.evaluateAnd(expression, cells, currentRow, currentCol) ? 1 : 0;
-      } else if (upperExpr.startsWith('OR(')) {
-        return this.evaluateOr(expression, cells, currentRow, currentCol) ? 1 : 0;
-      } else if (upperExpr.startsWith('NOT(')) {
-        return this.evaluateNot(expression, cells, currentRow, currentCol) ? 1 : 0;
+      case 'function':
+        return { ...node, args: node.args.map((arg) => this.resolveNames(arg, names, sheetId)) };
+      case 'unary':
+        return { ...node, operand: this.resolveNames(node.operand, names, sheetId) };
+      case 'binary':
+        return {
+          ...node,
+          left: this.resolveNames(node.left, names, sheetId),
+          right: this.resolveNames(node.right, names, sheetId),
+        };
+      default:
+        return node;
+    }
+  }
+
+  /**
+   * Converts an evaluated value to the value returned by evaluateFormula
+   */
+  private toResult(value: FormulaValue): string | number {
+    const scalar = this.toScalar(value);
+
+    if (scalar instanceof FormulaError) throw scalar;
+    if (scalar === null) return 0;
+    if (typeof scalar === 'boolean') return scalar ? 'TRUE' : 'FALSE';
+    if (typeof scalar === 'number' && !isFinite(scalar)) {
+      throw new FormulaError('#NUM!');
+    }
+    return scalar;
+  }
+
+  // ========== EVALUATOR ==========
+
+  /**
+   * Evaluates an AST node
+   */
+  private evaluateNode(node: FormulaNode, ctx: EvaluationContext): FormulaValue {
+    switch (node.type) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return node.value;
+
+      case 'error':
+        return new FormulaError(node.code);
+
+      case 'cell':
+        return this.getReferencedValue(
+          node.address.row,
+          node.address.col,
+          this.resolveSheet(node.sheet, ctx)
+        );
+
+      case 'range':
+        return this.getRangeMatrix(node.range, this.resolveSheet(node.range.sheet, ctx));
+
+      case 'name':
+        throw new FormulaError('#NAME?');
+
+      case 'function': {
+        const fn = this.functions[node.name];
+        if (!fn) {
+          throw new FormulaError('#NAME?');
+        }
+        return fn(node.args, ctx);
       }
-      // Lookup Functions
-      else if (upperExpr.startsWith('VLOOKUP(')) {
-        return this.evaluateVlookup(expression, cells, currentRow, currentCol);
+
+      case 'unary': {
+        const operand = this.toNumber(this.evaluateScalar(node.operand, ctx));
+        if (node.operator === '-') return -operand;
+        if (node.operator === '%') return operand / 100;
+        return operand;
       }
 
-      // Replace cell references with their values
-      const evaluatedExpression = this.replaceCellReferences(
-        expression,
-        cells,
-        currentRow,
-        currentCol
-      );
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, ctx);
+    }
+  }
 
-      // Evaluate the expression
-      const result = this.safeEval(evaluatedExpression);
+  /**
+   * Evaluates a node and reduces ranges to their top-left value
+   */
+  private evaluateScalar(node: FormulaNode, ctx: EvaluationContext): FormulaScalar {
+    return this.toScalar(this.evaluateNode(node, ctx));
+  }
 
-      return result;
-    } catch (error) {
-      return '#ERROR!';
+  /**
+   * Evaluates a binary operation
+   */
+  private evaluateBinary(
+    operator: string,
+    leftNode: FormulaNode,
+    rightNode: FormulaNode,
+    ctx: EvaluationContext
+  ): FormulaValue {
+    const left = this.evaluateScalar(leftNode, ctx);
+    const right = this.evaluateScalar(rightNode, ctx);
+
+    // The first error operand wins, as in Excel
+    this.throwIfError(left);
+    this.throwIfError(right);
+
+    switch (operator) {
+      case '&':
+        return this.toText(left) + this.toText(right);
+      case '=':
+        return this.compareScalars(left, right) === 0;
+      case '<>':
+        return this.compareScalars(left, right) !== 0;
+      case '<':
+        return this.compareScalars(left, right) < 0;
+      case '>':
+        return this.compareScalars(left, right) > 0;
+      case '<=':
+        return this.compareScalars(left, right) <= 0;
+      case '>=':
+        return this.compareScalars(left, right) >= 0;
+    }
+
+    const a = this.toNumber(left);
+    const b = this.toNumber(right);
+
+    switch (operator) {
+      case '+':
+        return a + b;
+      case '-':
+        return a - b;
+      case '*':
+        return a * b;
+      case '/':
+        if (b === 0) {
+          throw new FormulaError('#DIV/0!');
+        }
+        return a / b;
+      case '^':
+        return Math.pow(a, b);
+      default:
+        throw new FormulaError('#VALUE!');
     }
   }
 
   /**
-   * Replaces cell references (e.g., A1, B2) with their actual values
+   * Gets the value of a referenced cell.
+   * Formula cells use their cached computedValue and are only evaluated when it is missing.
+   * Error cells (and error literals typed into cells) yield a FormulaError value.
    */
-  private replaceCellReferences(
-    expression: string,
-    cells: Cell[][],
-    currentRow: number,
-    currentCol: number
-  ): string {
-    // Match cell references like A1, B2, $A$1, etc.
-    const cellRefRegex = /\$?([A-Z]+)\$?(\d+)/g;
+  private getReferencedValue(row: number, col: number, ctx: EvaluationContext): FormulaScalar {
+    const cell = ctx.cells[row]?.[col];
+    if (!cell || cell.value === null || cell.value === undefined) {
+      return null;
+    }
 
-    return expression.replace(cellRefRegex, (match, colLetter, rowNum) => {
-      try {
-        const address = a1ToCellAddress(match);
-        const cell = cells[address.row]?.[address.col];
+    let value = cell.value;
 
-        if (!cell) {
-          return '0';
+    if (typeof value === 'string' && value.startsWith('=')) {
+      const key = this.cellKey(ctx.sheetKey, row, col);
+      if (cell.computedValue !== undefined) {
+        // Cycles among cached cells are detected (or iterated) by the caller
+        if (cell.dataType === 'error') {
+          return new FormulaError(String(cell.computedValue) as FormulaErrorCode);
         }
-
-        // If the cell contains a formula, evaluate it recursively
-        if (
-          typeof cell.value === 'string' &&
-          cell.value.startsWith('=')
-        ) {
-          // Prevent circular references
-          if (address.row === currentRow && address.col === currentCol) {
-            throw new Error('Circular reference');
-          }
-
-          const result = this.evaluateFormula(
-            cell.value,
-            cells,
-            address.row,
-            address.col
-          );
-          return String(result);
+        value = cell.computedValue;
+      } else {
+        if (ctx.evaluating.has(key)) {
+          return new FormulaError('#CIRC!');
         }
 
-        // Return the cell value
-        const value = cell.value ?? 0;
-        return typeof value === 'number' ? String(value) : `"${value}"`;
-      } catch {
-        return '0';
+        ctx.evaluating.add(key);
+        try {
+          return this.evaluateScalar(this.parse(value), { ...ctx, row, col });
+        } catch (error) {
+          if (error instanceof FormulaError) return error;
+          return new FormulaError('#ERROR!');
+        } finally {
+          ctx.evaluating.delete(key);
+        }
       }
-    });
+    } else if (cell.dataType === 'error' && cell.error) {
+      return new FormulaError(cell.error as FormulaErrorCode);
+    }
+
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return value;
+    }
+
+    const text = String(value);
+    if (text.trim() === '') return null;
+    if (NUMERIC_PATTERN.test(text.trim())) return parseFloat(text);
+
+    const upper = text.toUpperCase();
+    if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE';
+
+    const errorCode = toFormulaErrorCode(text);
+    if (errorCode) return new FormulaError(errorCode);
+
+    return text;
   }
 
   /**
-   * Safely evaluates a mathematical expression
+   * Gets the values of a range as a 2D array [row][col]
    */
-  private safeEval(expression: string): number {
-    try {
-      // Remove any non-mathematical characters for safety
-      const sanitized = expression.replace(/[^0-9+\-*/().]/g, '');
+  private getRangeMatrix(range: CellRange, ctx: EvaluationContext): FormulaScalar[][] {
+    const minRow = Math.min(range.start.row, range.end.row);
+    const maxRow = Math.max(range.start.row, range.end.row);
+    const minCol = Math.min(range.start.col, range.end.col);
+    const maxCol = Math.max(range.start.col, range.end.col);
+
+    const matrix: FormulaScalar[][] = [];
+    for (let row = minRow; row <= maxRow; row++) {
+      const rowValues: FormulaScalar[] = [];
+      for (let col = minCol; col <= maxCol; col++) {
+        rowValues.push(this.getReferencedValue(row, col, ctx));
+      }
+      matrix.push(rowValues);
+    }
+    return matrix;
+  }
 
-      // Use Function constructor for safer evaluation than eval()
-      const result = new Function(`return ${sanitized}`)();
+  // ========== COERCION HELPERS ==========
 
-      if (typeof result !== 'number' || isNaN(result)) {
-        return 0;
-      }
+  /**
+   * Reduces a value to a scalar (ranges use their top-left cell)
+   */
+  private toScalar(value: FormulaValue): FormulaScalar {
+    if (Array.isArray(value)) {
+      return value[0]?.[0] ?? null;
+    }
+    return value;
+  }
 
-      return result;
-    } catch {
-      throw new Error('Invalid expression');
+  /**
+   * Throws the value if it is an error, propagating it to the caller
+   */
+  private throwIfError(
+    value: FormulaScalar
+  ): asserts value is Exclude<FormulaScalar, FormulaError> {
+    if (value instanceof FormulaError) {
+      throw value;
     }
   }
 
   /**
-   * Evaluates SUM function (e.g., SUM(A1:A10))
+   * Converts a scalar to a number, throwing #VALUE! for non-numeric text
    */
-  private evaluateSum(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const values = this.getRangeValues(range, cells);
-    return values.reduce((sum, val) => sum + val, 0);
+  private toNumber(value: FormulaScalar): number {
+    this.throwIfError(value);
+    if (value === null) return 0;
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+
+    const text = value.trim();
+    if (NUMERIC_PATTERN.test(text)) {
+      return parseFloat(text);
+    }
+    throw new FormulaError('#VALUE!');
   }
 
   /**
-   * Evaluates AVERAGE function
+   * Converts a scalar to text
    */
-  private evaluateAverage(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const values = this.getRangeValues(range, cells);
-    if (values.length === 0) return 0;
-    return values.reduce((sum, val) => sum + val, 0) / values.length;
+  private toText(value: FormulaScalar): string {
+    this.throwIfError(value);
+    if (value === null) return '';
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    return String(value);
   }
 
   /**
-   * Evaluates COUNT function
+   * Converts a scalar to a boolean
    */
-  private evaluateCount(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const values = this.getRangeValues(range, cells);
-    return values.length;
+  private toBoolean(value: FormulaScalar): boolean {
+    this.throwIfError(value);
+    if (value === null) return false;
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0;
+
+    const upper = value.trim().toUpperCase();
+    if (upper === 'TRUE') return true;
+    if (upper === 'FALSE') return false;
+    return this.toNumber(value) !== 0;
   }
 
   /**
-   * Evaluates MIN function
+   * Compares two scalars using Excel's rules.
+   * Numbers sort before text, text before booleans; text compares case-insensitively.
+   * Returns: negative if a < b, 0 if equal, positive if a > b
    */
-  private evaluateMin(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const values = this.getRangeValues(range, cells);
-    if (values.length === 0) return 0;
-    return Math.min(...values);
+  private compareScalars(a: FormulaScalar, b: FormulaScalar): number {
+    this.throwIfError(a);
+    this.throwIfError(b);
+
+    // Blank cells compare as the empty value of the other operand's type
+    if (a === null) a = this.blankFor(b);
+    if (b === null) b = this.blankFor(a);
+
+    const rank = (v: FormulaScalar) =>
+      typeof v === 'number' ? 0 : typeof v === 'string' ? 1 : 2;
+
+    if (rank(a) !== rank(b)) {
+      return rank(a) - rank(b);
+    }
+
+    if (typeof a === 'string' && typeof b === 'string') {
+      const aStr = a.toLowerCase();
+      const bStr = b.toLowerCase();
+      return aStr < bStr ? -1 : aStr > bStr ? 1 : 0;
+    }
+
+    return Number(a) - Number(b);
   }
 
   /**
-   * Evaluates MAX function
+   * Returns the blank equivalent for the type of the given value
    */
-  private evaluateMax(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const values = this.getRangeValues(range, cells);
-    if (values.length === 0) return 0;
-    return Math.max(...values);
+  private blankFor(value: FormulaScalar): FormulaScalar {
+    if (typeof value === 'string') return '';
+    if (typeof value === 'boolean') return false;
+    return 0;
   }
 
   /**
-   * Extracts range from function expression (e.g., "SUM(A1:A10)" -> "A1:A10")
+   * Flattens evaluated arguments into a list of scalars
    */
-  private extractRange(expression: string): string {
-    const match = expression.match(/\(([^)]+)\)/);
-    return match ? match[1] : '';
+  private flatten(value: FormulaValue): FormulaScalar[] {
+    return Array.isArray(value) ? value.flat() : [value];
   }
 
   /**
-   * Gets all numeric values from a range (e.g., A1:B10)
+   * Collects numeric values from function arguments.
+   * Values inside ranges are coerced leniently (text and blanks count as 0),
+   * while direct arguments must be numeric. Errors propagate unless skipped (for COUNT).
    */
-  private getRangeValues(range: string, cells: Cell[][]): number[] {
+  private collectNumbers(args: FormulaNode[], ctx: EvaluationContext, skipErrors = false): number[] {
     const values: number[] = [];
 
-    try {
-      const [start, end] = range.split(':');
-      const startAddr = a1ToCellAddress(start.trim());
-      const endAddr = a1ToCellAddress(end.trim());
-
-      const minRow = Math.min(startAddr.row, endAddr.row);
-      const maxRow = Math.max(startAddr.row, endAddr.row);
-      const minCol = Math.min(startAddr.col, endAddr.col);
-      const maxCol = Math.max(startAddr.col, endAddr.col);
+    for (const arg of args) {
+      let value: FormulaValue;
+      try {
+        value = this.evaluateNode(arg, ctx);
+      } catch (error) {
+        if (skipErrors && error instanceof FormulaError) continue;
+        throw error;
+      }
 
-      for (let row = minRow; row <= maxRow; row++) {
-        for (let col = minCol; col <= maxCol; col++) {
-          const cell = cells[row]?.[col];
-          if (cell) {
-            const value = this.getCellNumericValue(cell, cells);
-            if (!isNaN(value)) {
-              values.push(value);
-            }
-          }
+      if (Array.isArray(value)) {
+        for (const item of value.flat()) {
+          if (skipErrors && item instanceof FormulaError) continue;
+          values.push(this.toLenientNumber(item));
         }
+      } else if (!(skipErrors && value instanceof FormulaError)) {
+        values.push(this.toNumber(value));
       }
-    } catch {
-      // Invalid range
     }
 
     return values;
   }
 
   /**
-   * Gets the numeric value of a cell, evaluating formulas if necessary
+   * Converts a range value to a number, treating non-numeric values as 0
    */
-  private getCellNumericValue(cell: Cell, cells: Cell[][]): number {
-    if (typeof cell.value === 'number') {
-      return cell.value;
+  private toLenientNumber(value: FormulaScalar): number {
+    this.throwIfError(value);
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'string') {
+      const num = parseFloat(value);
+      return isNaN(num) ? 0 : num;
     }
+    return 0;
+  }
 
-    if (typeof cell.value === 'string') {
-      // If it's a formula, evaluate it
-      if (cell.value.startsWith('=')) {
-        const result = this.evaluateFormula(
-          cell.value,
-          cells,
-          cell.row,
-          cell.col
-        );
-        return typeof result === 'number' ? result : parseFloat(String(result)) || 0;
-      }
+  /**
+   * Collects boolean values from function arguments (for AND, OR)
+   */
+  private collectBooleans(args: FormulaNode[], ctx: EvaluationContext): boolean[] {
+    return args.flatMap((arg) =>
+      this.flatten(this.evaluateNode(arg, ctx)).map((value) => this.toBoolean(value))
+    );
+  }
 
-      // Try to parse as number
-      const num = parseFloat(cell.value);
-      return isNaN(num) ? 0 : num;
+  /**
+   * Evaluates the argument at the given index as a number
+   */
+  private numberArg(args: FormulaNode[], index: number, ctx: EvaluationContext): number {
+    return this.toNumber(this.evaluateScalar(args[index], ctx));
+  }
+
+  /**
+   * Evaluates the argument at the given index as a list of numbers
+   */
+  private numbersArg(args: FormulaNode[], index: number, ctx: EvaluationContext): number[] {
+    return this.collectNumbers([args[index]], ctx);
+  }
+
+  /**
+   * Evaluates a node, returning an error as a value instead of propagating it
+   * (for IFERROR, IFNA and the IS* functions)
+   */
+  private evaluateCatchingErrors(node: FormulaNode, ctx: EvaluationContext): FormulaValue {
+    try {
+      return this.evaluateNode(node, ctx);
+    } catch (error) {
+      if (error instanceof FormulaError) return error;
+      throw error;
     }
+  }
 
-    return 0;
+  /**
+   * Throws if a function received fewer arguments than it requires
+   */
+  private requireArgs(args: FormulaNode[], min: number, max = Infinity): void {
+    if (args.length < min || args.length > max) {
+      throw new FormulaError('#VALUE!');
+    }
   }
 
-  // ========== NEW STATISTICAL FUNCTIONS ==========
+  /**
+   * Builds a key identifying a cell in the evaluation stack
+   */
+  private cellKey(sheetKey: string, row: number, col: number): string {
+    return `${sheetKey}!${row}:${col}`;
+  }
 
   /**
-   * Evaluates COUNTA function - counts non-empty cells
+   * Returns the context to read a reference from, switching to another sheet
+   * for sheet-qualified references (matched case-insensitively, like Excel)
    */
-  private evaluateCountA(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const allCells = this.getRangeCells(range, cells);
-    return allCells.filter(cell => cell.value !== null && cell.value !== undefined && cell.value !== '').length;
+  private resolveSheet(sheetName: string | undefined, ctx: EvaluationContext): EvaluationContext {
+    if (sheetName === undefined) {
+      return ctx;
+    }
+
+    const name = sheetName.toLowerCase();
+    const sheet = ctx.sheets.find((s) => s.name.toLowerCase() === name);
+    if (!sheet) {
+      throw new FormulaError('#REF!');
+    }
+    return { ...ctx, cells: sheet.cells, sheetKey: sheet.id };
   }
 
+  // ========== STATISTICAL FUNCTIONS ==========
+
   /**
-   * Evaluates COUNTBLANK function - counts empty cells
+   * Evaluates AVERAGE function
    */
-  private evaluateCountBlank(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const allCells = this.getRangeCells(range, cells);
-    return allCells.filter(cell => !cell.value || cell.value === '').length;
+  private evaluateAverage(values: number[]): number {
+    if (values.length === 0) return 0;
+    return values.reduce((sum, val) => sum + val, 0) / values.length;
   }
 
   /**
-   * Evaluates MEDIAN function - finds middle value
+   * Evaluates MIN function
    */
-  private evaluateMedian(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const values = this.getRangeValues(range, cells).sort((a, b) => a - b);
+  private evaluateMin(values: number[]): number {
     if (values.length === 0) return 0;
-    const mid = Math.floor(values.length / 2);
-    return values.length % 2 === 0 ? (values[mid - 1] + values[mid]) / 2 : values[mid];
+    return Math.min(...values);
+  }
+
+  /**
+   * Evaluates MAX function
+   */
+  private evaluateMax(values: number[]): number {
+    if (values.length === 0) return 0;
+    return Math.max(...values);
+  }
+
+  /**
+   * Evaluates COUNTA function - counts non-empty values
+   */
+  private evaluateCountA(args: FormulaNode[], ctx: EvaluationContext): number {
+    return args
+      .flatMap((arg) => this.flatten(this.evaluateNode(arg, ctx)))
+      .filter((value) => value !== null && value !== '').length;
+  }
+
+  /**
+   * Evaluates COUNTBLANK function - counts empty values
+   */
+  private evaluateCountBlank(args: FormulaNode[], ctx: EvaluationContext): number {
+    return args
+      .flatMap((arg) => this.flatten(this.evaluateNode(arg, ctx)))
+      .filter((value) => value === null || value === '').length;
+  }
+
+  /**
+   * Evaluates MEDIAN function - finds middle value
+   */
+  private evaluateMedian(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    if (sorted.length === 0) return 0;
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
   }
 
   /**
    * Evaluates MODE function - finds most frequent value
    */
-  private evaluateMode(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const values = this.getRangeValues(range, cells);
+  private evaluateMode(values: number[]): number {
     if (values.length === 0) return 0;
 
     const frequency: { [key: number]: number } = {};
@@ -340,9 +777,7 @@ export class FormulaService {
   /**
    * Evaluates PRODUCT function - multiplies numbers
    */
-  private evaluateProduct(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const values = this.getRangeValues(range, cells);
+  private evaluateProduct(values: number[]): number {
     if (values.length === 0) return 0;
     return values.reduce((product, val) => product * val, 1);
   }
@@ -350,23 +785,15 @@ export class FormulaService {
   /**
    * Evaluates STDEV function - standard deviation (sample)
    */
-  private evaluateStdev(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const values = this.getRangeValues(range, cells);
+  private evaluateStdev(values: number[]): number {
     if (values.length < 2) return 0;
-
-    const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-    const squaredDiffs = values.map(val => Math.pow(val - mean, 2));
-    const variance = squaredDiffs.reduce((sum, val) => sum + val, 0) / (values.length - 1);
-    return Math.sqrt(variance);
+    return Math.sqrt(this.evaluateVar(values));
   }
 
   /**
    * Evaluates VAR function - variance (sample)
    */
-  private evaluateVar(expression: string, cells: Cell[][]): number {
-    const range = this.extractRange(expression);
-    const values = this.getRangeValues(range, cells);
+  private evaluateVar(values: number[]): number {
     if (values.length < 2) return 0;
 
     const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
@@ -374,15 +801,118 @@ export class FormulaService {
     return squaredDiffs.reduce((sum, val) => sum + val, 0) / (values.length - 1);
   }
 
+  /**
+   * Evaluates the population variance (VARP), also used for STDEVP
+   */
+  private evaluatePopulationVar(values: number[]): number {
+    if (values.length === 0) {
+      throw new FormulaError('#DIV/0!');
+    }
+
+    const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
+    return values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
+  }
+
+  /**
+   * Evaluates SUBTOTAL function - applies an aggregate to the visible cells of references
+   * SUBTOTAL(function_num, ref1, [ref2], ...)
+   * function_num 1-11 skip rows hidden by an AutoFilter; 101-111 skip every hidden row.
+   * Cells holding other SUBTOTAL formulas are skipped to avoid double counting.
+   */
+  private evaluateSubtotal(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 2);
+
+    const functionNum = Math.trunc(this.numberArg(args, 0, ctx));
+    const ignoreHidden = functionNum > 100;
+    const name = SUBTOTAL_FUNCTIONS[(ignoreHidden ? functionNum - 100 : functionNum) - 1];
+    if (!name) {
+      throw new FormulaError('#VALUE!');
+    }
+
+    const values: FormulaScalar[] = [];
+    for (const arg of args.slice(1)) {
+      if (arg.type !== 'cell' && arg.type !== 'range') {
+        throw new FormulaError('#VALUE!');
+      }
+
+      const range = arg.type === 'range' ? arg.range : { start: arg.address, end: arg.address };
+      const rangeCtx = this.resolveSheet(arg.type === 'range' ? arg.range.sheet : arg.sheet, ctx);
+      const isHidden = this.getHiddenRowTest(rangeCtx, ignoreHidden);
+
+      const maxRow = Math.max(range.start.row, range.end.row);
+      const minCol = Math.min(range.start.col, range.end.col);
+      const maxCol = Math.max(range.start.col, range.end.col);
+      for (let row = Math.min(range.start.row, range.end.row); row <= maxRow; row++) {
+        if (isHidden(row)) continue;
+        for (let col = minCol; col <= maxCol; col++) {
+          const value = rangeCtx.cells[row]?.[col]?.value;
+          if (typeof value === 'string' && SUBTOTAL_PATTERN.test(value)) continue;
+          values.push(this.getReferencedValue(row, col, rangeCtx));
+        }
+      }
+    }
+
+    if (name === 'COUNTA') {
+      return values.filter((value) => value !== null && value !== '').length;
+    }
+    if (name === 'COUNT') {
+      return values.filter((value) => typeof value === 'number').length;
+    }
+
+    const numbers = values.filter((value): value is number => {
+      this.throwIfError(value);
+      return typeof value === 'number';
+    });
+
+    switch (name) {
+      case 'AVERAGE':
+        if (numbers.length === 0) throw new FormulaError('#DIV/0!');
+        return this.evaluateAverage(numbers);
+      case 'MAX':
+        return this.evaluateMax(numbers);
+      case 'MIN':
+        return this.evaluateMin(numbers);
+      case 'PRODUCT':
+        return this.evaluateProduct(numbers);
+      case 'STDEV':
+        return this.evaluateStdev(numbers);
+      case 'STDEVP':
+        return Math.sqrt(this.evaluatePopulationVar(numbers));
+      case 'SUM':
+        return numbers.reduce((sum, val) => sum + val, 0);
+      case 'VAR':
+        return this.evaluateVar(numbers);
+      default:
+        return this.evaluatePopulationVar(numbers);
+    }
+  }
+
+  /**
+   * Returns a test for the rows SUBTOTAL skips on a sheet: rows hidden by its AutoFilter,
+   * or every hidden row when `allHidden` is set
+   */
+  private getHiddenRowTest(ctx: EvaluationContext, allHidden: boolean): (row: number) => boolean {
+    const sheet = ctx.sheets.find((s) => s.id === ctx.sheetKey);
+    const hiddenRows = new Set(sheet?.hiddenRows ?? []);
+    if (hiddenRows.size === 0) return () => false;
+    if (allHidden) return (row) => hiddenRows.has(row);
+
+    const range = sheet?.autoFilter?.range;
+    if (!range) return () => false;
+
+    const firstRow = Math.min(range.start.row, range.end.row) + 1;
+    const lastRow = Math.max(range.start.row, range.end.row);
+    return (row) => row >= firstRow && row <= lastRow && hiddenRows.has(row);
+  }
+
   /**
    * Evaluates CORREL function - correlation coefficient
    */
-  private evaluateCorrel(expression: string, cells: Cell[][]): number {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length !== 2) return 0;
+  private evaluateCorrel(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 2, 2);
 
-    const values1 = this.getRangeValues(args[0], cells);
-    const values2 = this.getRangeValues(args[1], cells);
+    const values1 = this.numbersArg(args, 0, ctx);
+    const values2 = this.numbersArg(args, 1, ctx);
 
     if (values1.length !== values2.length || values1.length === 0) return 0;
 
@@ -408,57 +938,52 @@ export class FormulaService {
   /**
    * Evaluates PERCENTILE function - kth percentile
    */
-  private evaluatePercentile(expression: string, cells: Cell[][]): number {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length !== 2) return 0;
+  private evaluatePercentile(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 2, 2);
 
-    const values = this.getRangeValues(args[0], cells).sort((a, b) => a - b);
-    const k = parseFloat(args[1]);
+    const values = this.numbersArg(args, 0, ctx).sort((a, b) => a - b);
+    const k = this.numberArg(args, 1, ctx);
 
     if (values.length === 0 || k < 0 || k > 1) return 0;
 
-    const index = k * (values.length - 1);
-    const lower = Math.floor(index);
-    const upper = Math.ceil(index);
-    const weight = index - lower;
-
-    return values[lower] * (1 - weight) + values[upper] * weight;
+    return this.interpolate(values, k);
   }
 
   /**
    * Evaluates QUARTILE function - quartile values
    */
-  private evaluateQuartile(expression: string, cells: Cell[][]): number {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length !== 2) return 0;
+  private evaluateQuartile(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 2, 2);
 
-    const values = this.getRangeValues(args[0], cells).sort((a, b) => a - b);
-    const quart = parseInt(args[1]);
+    const values = this.numbersArg(args, 0, ctx).sort((a, b) => a - b);
+    const quart = Math.trunc(this.numberArg(args, 1, ctx));
 
     if (values.length === 0 || quart < 0 || quart > 4) return 0;
 
-    const percentiles = [0, 0.25, 0.5, 0.75, 1];
-    const k = percentiles[quart];
-    const index = k * (values.length - 1);
+    return this.interpolate(values, quart / 4);
+  }
+
+  /**
+   * Linear interpolation at fraction k of a sorted list (used by PERCENTILE and QUARTILE)
+   */
+  private interpolate(sorted: number[], k: number): number {
+    const index = k * (sorted.length - 1);
     const lower = Math.floor(index);
     const upper = Math.ceil(index);
     const weight = index - lower;
 
-    return values[lower] * (1 - weight) + values[upper] * weight;
+    return sorted[lower] * (1 - weight) + sorted[upper] * weight;
   }
 
   /**
    * Evaluates RANK function - ranks a number in a list
    */
-  private evaluateRank(expression: string, cells: Cell[][]): number {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length < 2) return 0;
-
-    const number = parseFloat(args[0]);
-    const values = this.getRangeValues(args[1], cells);
-    const order = args.length > 2 ? parseInt(args[2]) : 0; // 0 = descending, 1 = ascending
+  private evaluateRank(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 2, 3);
 
-    if (isNaN(number)) return 0;
+    const number = this.numberArg(args, 0, ctx);
+    const values = this.numbersArg(args, 1, ctx);
+    const order = args.length > 2 ? this.numberArg(args, 2, ctx) : 0; // 0 = descending, 1 = ascending
 
     const sorted = order === 0
       ? [...values].sort((a, b) => b - a)  // Descending
@@ -468,235 +993,343 @@ export class FormulaService {
     return rank === 0 ? values.length + 1 : rank;
   }
 
+  /**
+   * Evaluates ROUND function - rounds half away from zero
+   */
+  private evaluateRound(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 1, 2);
+
+    const number = this.numberArg(args, 0, ctx);
+    const digits = args.length > 1 ? Math.trunc(this.numberArg(args, 1, ctx)) : 0;
+
+    // Shift via exponent notation to avoid binary floating point drift (e.g. 1.005)
+    const shifted = Math.round(Number(`${Math.abs(number)}e${digits}`));
+    return Math.sign(number) * Number(`${shifted}e${-digits}`);
+  }
+
   // ========== LOGICAL FUNCTIONS ==========
 
   /**
    * Evaluates IF function - conditional logic
    */
-  private evaluateIf(expression: string, cells: Cell[][], currentRow: number, currentCol: number): string | number {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length < 2) return '#ERROR!';
+  private evaluateIf(args: FormulaNode[], ctx: EvaluationContext): FormulaValue {
+    this.requireArgs(args, 2, 3);
 
-    const condition = this.evaluateCondition(args[0], cells, currentRow, currentCol);
-
-    if (condition) {
-      return this.evaluateExpression(args[1], cells, currentRow, currentCol);
-    } else {
-      return args.length > 2 ? this.evaluateExpression(args[2], cells, currentRow, currentCol) : '';
+    if (this.toBoolean(this.evaluateScalar(args[0], ctx))) {
+      return this.evaluateNode(args[1], ctx);
     }
+    return args.length > 2 ? this.evaluateNode(args[2], ctx) : '';
   }
 
   /**
    * Evaluates IFS function - multiple conditions
    */
-  private evaluateIfs(expression: string, cells: Cell[][], currentRow: number, currentCol: number): string | number {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length < 2 || args.length % 2 !== 0) return '#ERROR!';
+  private evaluateIfs(args: FormulaNode[], ctx: EvaluationContext): FormulaValue {
+    if (args.length < 2 || args.length % 2 !== 0) {
+      throw new FormulaError('#VALUE!');
+    }
 
     for (let i = 0; i < args.length; i += 2) {
-      const condition = this.evaluateCondition(args[i], cells, currentRow, currentCol);
-      if (condition) {
-        return this.evaluateExpression(args[i + 1], cells, currentRow, currentCol);
+      if (this.toBoolean(this.evaluateScalar(args[i], ctx))) {
+        return this.evaluateNode(args[i + 1], ctx);
       }
     }
 
-    return '#N/A';
+    throw new FormulaError('#N/A');
   }
 
   /**
    * Evaluates IFERROR function - error handling
    */
-  private evaluateIfError(expression: string, cells: Cell[][], currentRow: number, currentCol: number): string | number {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length < 2) return '#ERROR!';
+  private evaluateIfError(args: FormulaNode[], ctx: EvaluationContext): FormulaValue {
+    this.requireArgs(args, 2, 2);
 
-    try {
-      const result = this.evaluateExpression(args[0], cells, currentRow, currentCol);
-      if (String(result).startsWith('#')) {
-        return this.evaluateExpression(args[1], cells, currentRow, currentCol);
-      }
-      return result;
-    } catch {
-      return this.evaluateExpression(args[1], cells, currentRow, currentCol);
-    }
+    const result = this.evaluateCatchingErrors(args[0], ctx);
+    return this.toScalar(result) instanceof FormulaError ? this.evaluateNode(args[1], ctx) : result;
   }
 
   /**
    * Evaluates IFNA function - handles #N/A errors
    */
-  private evaluateIfNa(expression: string, cells: Cell[][], currentRow: number, currentCol: number): string | number {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length < 2) return '#ERROR!';
+  private evaluateIfNa(args: FormulaNode[], ctx: EvaluationContext): FormulaValue {
+    this.requireArgs(args, 2, 2);
 
-    const result = this.evaluateExpression(args[0], cells, currentRow, currentCol);
-    if (result === '#N/A') {
-      return this.evaluateExpression(args[1], cells, currentRow, currentCol);
+    const result = this.evaluateCatchingErrors(args[0], ctx);
+    const scalar = this.toScalar(result);
+    if (scalar instanceof FormulaError && scalar.code === '#N/A') {
+      return this.evaluateNode(args[1], ctx);
     }
     return result;
   }
 
   /**
-   * Evaluates AND function - all conditions must be true
+   * Evaluates NOT function - reverses logic
    */
-  private evaluateAnd(expression: string, cells: Cell[][], currentRow: number, currentCol: number): boolean {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length === 0) return true;
-
-    return args.every(arg => this.evaluateCondition(arg, cells, currentRow, currentCol));
+  private evaluateNot(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 1, 1);
+    return this.toBoolean(this.evaluateScalar(args[0], ctx)) ? 0 : 1;
   }
 
+  // ========== DATE FUNCTIONS ==========
+
   /**
-   * Evaluates OR function - any condition must be true
+   * Evaluates the argument at the given index as a serial date.
+   * Text is read as a typed date (e.g. "2026-03-01"); negative serials are #NUM!.
    */
-  private evaluateOr(expression: string, cells: Cell[][], currentRow: number, currentCol: number): boolean {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length === 0) return false;
+  private dateArg(args: FormulaNode[], index: number, ctx: EvaluationContext): number {
+    const value = this.evaluateScalar(args[index], ctx);
+    this.throwIfError(value);
+
+    let serial: number;
+    if (typeof value === 'string' && !NUMERIC_PATTERN.test(value.trim())) {
+      const date = parseDateInput(value);
+      if (!date) {
+        throw new FormulaError('#VALUE!');
+      }
+      serial = date.serial;
+    } else {
+      serial = this.toNumber(value);
+    }
 
-    return args.some(arg => this.evaluateCondition(arg, cells, currentRow, currentCol));
+    if (serial < 0) {
+      throw new FormulaError('#NUM!');
+    }
+    return Math.floor(serial);
   }
 
   /**
-   * Evaluates NOT function - reverses logic
+   * Evaluates TODAY function - the current date as a serial number
    */
-  private evaluateNot(expression: string, cells: Cell[][], currentRow: number, currentCol: number): boolean {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length !== 1) return false;
-
-    return !this.evaluateCondition(args[0], cells, currentRow, currentCol);
+  private evaluateToday(args: FormulaNode[]): number {
+    this.requireArgs(args, 0, 0);
+    return Math.floor(dateToSerial(new Date()));
   }
 
-  // ========== HELPER FUNCTIONS ==========
+  /**
+   * Evaluates NOW function - the current date and time as a serial number
+   */
+  private evaluateNow(args: FormulaNode[]): number {
+    this.requireArgs(args, 0, 0);
+    return dateToSerial(new Date());
+  }
 
   /**
-   * Gets all cells from a range (not just numeric values)
+   * Evaluates DATE function - builds a serial date, rolling over months and days
+   * DATE(year, month, day); years 0-1899 are counted from 1900, as in Excel
    */
-  private getRangeCells(range: string, cells: Cell[][]): Cell[] {
-    const result: Cell[] = [];
+  private evaluateDate(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 3, 3);
 
-    try {
-      const [start, end] = range.split(':');
-      const startAddr = a1ToCellAddress(start.trim());
-      const endAddr = a1ToCellAddress(end.trim());
+    let year = Math.trunc(this.numberArg(args, 0, ctx));
+    const month = Math.trunc(this.numberArg(args, 1, ctx));
+    const day = Math.trunc(this.numberArg(args, 2, ctx));
 
-      const minRow = Math.min(startAddr.row, endAddr.row);
-      const maxRow = Math.max(startAddr.row, endAddr.row);
-      const minCol = Math.min(startAddr.col, endAddr.col);
-      const maxCol = Math.max(startAddr.col, endAddr.col);
+    if (year < 0 || year > 9999) {
+      throw new FormulaError('#NUM!');
+    }
+    if (year < 1900) {
+      year += 1900;
+    }
 
-      for (let row = minRow; row <= maxRow; row++) {
-        for (let col = minCol; col <= maxCol; col++) {
-          const cell = cells[row]?.[col];
-          if (cell) {
-            result.push(cell);
-          }
-        }
-      }
-    } catch {
-      // Invalid range
+    const serial = partsToSerial(year, month, day);
+    if (serial < 0) {
+      throw new FormulaError('#NUM!');
     }
+    return serial;
+  }
 
-    return result;
+  /**
+   * Evaluates YEAR / MONTH / DAY - extracts a part of a serial date
+   */
+  private evaluateDatePart(
+    args: FormulaNode[],
+    ctx: EvaluationContext,
+    part: (date: Date) => number
+  ): number {
+    this.requireArgs(args, 1, 1);
+    return part(serialToUtcDate(this.dateArg(args, 0, ctx)));
   }
 
   /**
-   * Extracts multiple arguments from a function expression
+   * Evaluates EDATE function - the same day a number of months before or after a date,
+   * clamped to the end of shorter months
    */
-  private extractMultipleArgs(expression: string): string[] {
-    const match = expression.match(/\((.+)\)/);
-    if (!match) return [];
+  private evaluateEdate(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 2, 2);
 
-    const argsStr = match[1];
-    const args: string[] = [];
-    let currentArg = '';
-    let parenDepth = 0;
-    let inQuotes = false;
+    const date = serialToUtcDate(this.dateArg(args, 0, ctx));
+    const months = Math.trunc(this.numberArg(args, 1, ctx));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1 + months;
+    const lastDay = serialToUtcDate(partsToSerial(year, month + 1, 0)).getUTCDate();
 
-    for (let i = 0; i < argsStr.length; i++) {
-      const char = argsStr[i];
+    return this.toDateResult(partsToSerial(year, month, Math.min(date.getUTCDate(), lastDay)));
+  }
 
-      if (char === '"') {
-        inQuotes = !inQuotes;
-        currentArg += char;
-      } else if (char === '(' && !inQuotes) {
-        parenDepth++;
-        currentArg += char;
-      } else if (char === ')' && !inQuotes) {
-        parenDepth--;
-        currentArg += char;
-      } else if (char === ',' && parenDepth === 0 && !inQuotes) {
-        args.push(currentArg.trim());
-        currentArg = '';
-      } else {
-        currentArg += char;
-      }
-    }
+  /**
+   * Evaluates EOMONTH function - the last day of the month a number of months away
+   */
+  private evaluateEomonth(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 2, 2);
+
+    const date = serialToUtcDate(this.dateArg(args, 0, ctx));
+    const months = Math.trunc(this.numberArg(args, 1, ctx));
 
-    if (currentArg) {
-      args.push(currentArg.trim());
+    return this.toDateResult(
+      partsToSerial(date.getUTCFullYear(), date.getUTCMonth() + 2 + months, 0)
+    );
+  }
+
+  /**
+   * Evaluates DATEDIF function - the difference between two dates
+   * DATEDIF(start_date, end_date, unit) with unit "Y", "M", "D", "MD", "YM" or "YD"
+   */
+  private evaluateDatedif(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 3, 3);
+
+    const startSerial = this.dateArg(args, 0, ctx);
+    const endSerial = this.dateArg(args, 1, ctx);
+    const unit = this.toText(this.evaluateScalar(args[2], ctx)).toUpperCase();
+    if (startSerial > endSerial) {
+      throw new FormulaError('#NUM!');
     }
 
-    return args;
+    const start = serialToUtcDate(startSerial);
+    const end = serialToUtcDate(endSerial);
+    const dayShortfall = end.getUTCDate() < start.getUTCDate() ? 1 : 0;
+    const months =
+      (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+      (end.getUTCMonth() - start.getUTCMonth()) -
+      dayShortfall;
+
+    switch (unit) {
+      case 'Y':
+        return Math.floor(months / 12);
+      case 'M':
+        return months;
+      case 'D':
+        return endSerial - startSerial;
+      case 'MD': {
+        // Days since the last month anniversary of the start date
+        const anniversary = partsToSerial(
+          end.getUTCFullYear(),
+          end.getUTCMonth() + 1 - dayShortfall,
+          start.getUTCDate()
+        );
+        return endSerial - anniversary;
+      }
+      case 'YM':
+        return months % 12;
+      case 'YD': {
+        // Days since the last year anniversary of the start date
+        let anniversary = partsToSerial(
+          end.getUTCFullYear(),
+          start.getUTCMonth() + 1,
+          start.getUTCDate()
+        );
+        if (anniversary > endSerial) {
+          anniversary = partsToSerial(
+            end.getUTCFullYear() - 1,
+            start.getUTCMonth() + 1,
+            start.getUTCDate()
+          );
+        }
+        return endSerial - anniversary;
+      }
+      default:
+        throw new FormulaError('#NUM!');
+    }
   }
 
   /**
-   * Evaluates a condition expression (for IF, AND, OR, etc.)
+   * Evaluates NETWORKDAYS function - counts Monday-Friday days between two dates,
+   * inclusive, skipping holidays. Negative when the end date comes first.
+   * NETWORKDAYS(start_date, end_date, [holidays])
    */
-  private evaluateCondition(condition: string, cells: Cell[][], currentRow: number, currentCol: number): boolean {
-    try {
-      // Replace cell references
-      const evaluated = this.replaceCellReferences(condition, cells, currentRow, currentCol);
-
-      // Handle comparison operators
-      if (evaluated.includes('>=')) {
-        const [left, right] = evaluated.split('>=').map(s => parseFloat(s.trim()));
-        return left >= right;
-      } else if (evaluated.includes('<=')) {
-        const [left, right] = evaluated.split('<=').map(s => parseFloat(s.trim()));
-        return left <= right;
-      } else if (evaluated.includes('<>')) {
-        const [left, right] = evaluated.split('<>').map(s => s.trim().replace(/"/g, ''));
-        return left !== right;
-      } else if (evaluated.includes('>')) {
-        const [left, right] = evaluated.split('>').map(s => parseFloat(s.trim()));
-        return left > right;
-      } else if (evaluated.includes('<')) {
-        const [left, right] = evaluated.split('<').map(s => parseFloat(s.trim()));
-        return left < right;
-      } else if (evaluated.includes('=')) {
-        const [left, right] = evaluated.split('=').map(s => s.trim().replace(/"/g, ''));
-        return left === right;
+  private evaluateNetworkdays(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 2, 3);
+
+    const start = this.dateArg(args, 0, ctx);
+    const end = this.dateArg(args, 1, ctx);
+    const holidays = new Set(
+      args.length > 2
+        ? this.flatten(this.evaluateNode(args[2], ctx))
+          .filter((value) => value !== null)
+          .map((value) => Math.floor(this.toNumber(value)))
+        : []
+    );
+
+    const [first, last] = start <= end ? [start, end] : [end, start];
+    let count = 0;
+    for (let serial = first; serial <= last; serial++) {
+      const weekday = serialToUtcDate(serial).getUTCDay();
+      if (weekday !== 0 && weekday !== 6 && !holidays.has(serial)) {
+        count++;
       }
+    }
+    return start <= end ? count : -count;
+  }
 
-      // Try to parse as boolean or number
-      const num = parseFloat(evaluated);
-      return !isNaN(num) && num !== 0;
-    } catch {
-      return false;
+  /**
+   * Evaluates WEEKDAY function - the day of the week of a date
+   * WEEKDAY(serial_number, [return_type]): 1 counts Sunday=1..Saturday=7 (default),
+   * 2 Monday=1..Sunday=7, 3 Monday=0..Sunday=6, 11-17 start the week on Monday-Sunday
+   */
+  private evaluateWeekday(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 1, 2);
+
+    const day = serialToUtcDate(this.dateArg(args, 0, ctx)).getUTCDay();
+    const returnType = args.length > 1 ? Math.trunc(this.numberArg(args, 1, ctx)) : 1;
+
+    if (returnType === 1) return day + 1;
+    if (returnType === 2) return ((day + 6) % 7) + 1;
+    if (returnType === 3) return (day + 6) % 7;
+    if (returnType >= 11 && returnType <= 17) {
+      // 11 starts the week on Monday (day 1), 17 on Sunday (day 0)
+      const firstDay = (returnType - 10) % 7;
+      return ((day - firstDay + 7) % 7) + 1;
     }
+    throw new FormulaError('#NUM!');
   }
 
   /**
-   * Evaluates an expression (for IF return values)
+   * Rejects dates before the start of the serial calendar
    */
-  private evaluateExpression(expr: string, cells: Cell[][], currentRow: number, currentCol: number): string | number {
-    try {
-      // Remove quotes if it's a string literal
-      if (expr.startsWith('"') && expr.endsWith('"')) {
-        return expr.slice(1, -1);
-      }
+  private toDateResult(serial: number): number {
+    if (serial < 0) {
+      throw new FormulaError('#NUM!');
+    }
+    return serial;
+  }
 
-      // Check if it's a nested function
-      if (expr.toUpperCase().match(/^[A-Z]+\(/)) {
-        return this.evaluateFormula('=' + expr, cells, currentRow, currentCol);
-      }
+  // ========== INFORMATION FUNCTIONS ==========
 
-      // Replace cell references and evaluate
-      const evaluated = this.replaceCellReferences(expr, cells, currentRow, currentCol);
-      const num = parseFloat(evaluated);
-      return isNaN(num) ? evaluated : num;
-    } catch {
-      return '#ERROR!';
+  /**
+   * Evaluates ISERROR / ISNA - checks whether a value is an error matching the predicate
+   */
+  private evaluateErrorCheck(
+    args: FormulaNode[],
+    ctx: EvaluationContext,
+    matches: (error: FormulaError) => boolean
+  ): boolean {
+    this.requireArgs(args, 1, 1);
+
+    const scalar = this.toScalar(this.evaluateCatchingErrors(args[0], ctx));
+    return scalar instanceof FormulaError && matches(scalar);
+  }
+
+  /**
+   * Evaluates ERROR.TYPE function - returns 1-7 for Excel's error values, #N/A otherwise
+   */
+  private evaluateErrorType(args: FormulaNode[], ctx: EvaluationContext): number {
+    this.requireArgs(args, 1, 1);
+
+    const scalar = this.toScalar(this.evaluateCatchingErrors(args[0], ctx));
+    const index = scalar instanceof FormulaError ? EXCEL_ERROR_CODES.indexOf(scalar.code) : -1;
+    if (index < 0) {
+      throw new FormulaError('#N/A');
     }
+    return index + 1;
   }
 
   // ========== LOOKUP FUNCTIONS ==========
@@ -705,25 +1338,23 @@ export class FormulaService {
    * Evaluates VLOOKUP function - vertical lookup
    * VLOOKUP(lookup_value, table_array, col_index_num, [range_lookup])
    */
-  private evaluateVlookup(expression: string, cells: Cell[][], currentRow: number, currentCol: number): string | number {
-    const args = this.extractMultipleArgs(expression);
-    if (args.length < 3) return '#ERROR!';
+  private evaluateVlookup(args: FormulaNode[], ctx: EvaluationContext): FormulaScalar {
+    this.requireArgs(args, 3, 4);
 
-    // Parse arguments
-    const lookupValue = this.evaluateExpression(args[0], cells, currentRow, currentCol);
-    const tableRange = args[1].trim();
-    const colIndex = parseInt(args[2]);
-    const rangeLookup = args.length > 3 ? this.parseBooleanArg(args[3]) : true;
+    const lookupValue = this.evaluateScalar(args[0], ctx);
+    this.throwIfError(lookupValue);
+    const table = this.evaluateNode(args[1], ctx);
+    const colIndex = Math.trunc(this.numberArg(args, 2, ctx));
+    const rangeLookup = args.length > 3 ? this.toBoolean(this.evaluateScalar(args[3], ctx)) : true;
 
     // Validate column index
-    if (isNaN(colIndex) || colIndex < 1) {
-      return '#ERROR!';
+    if (colIndex < 1) {
+      throw new FormulaError('#VALUE!');
     }
 
-    // Get table as 2D array
-    const tableData = this.getRangeAs2DArray(tableRange, cells);
+    const tableData = Array.isArray(table) ? table : [[table]];
     if (tableData.length === 0 || tableData[0].length < colIndex) {
-      return '#N/A';
+      throw new FormulaError('#REF!');
     }
 
     // Perform lookup
@@ -737,7 +1368,7 @@ export class FormulaService {
   /**
    * Performs exact match VLOOKUP
    */
-  private vlookupExact(lookupValue: string | number, tableData: (string | number)[][], colIndex: number): string | number {
+  private vlookupExact(lookupValue: FormulaScalar, tableData: FormulaScalar[][], colIndex: number): FormulaScalar {
     for (let i = 0; i < tableData.length; i++) {
       const firstColValue = tableData[i][0];
 
@@ -747,13 +1378,13 @@ export class FormulaService {
       }
     }
 
-    return '#N/A';
+    throw new FormulaError('#N/A');
   }
 
   /**
    * Performs approximate match VLOOKUP (assumes first column is sorted ascending)
    */
-  private vlookupApproximate(lookupValue: string | number, tableData: (string | number)[][], colIndex: number): string | number {
+  private vlookupApproximate(lookupValue: FormulaScalar, tableData: FormulaScalar[][], colIndex: number): FormulaScalar {
     let lastMatchIndex = -1;
 
     // Find the largest value that is less than or equal to lookup_value
@@ -777,14 +1408,17 @@ export class FormulaService {
       return tableData[lastMatchIndex][colIndex - 1];
     }
 
-    return '#N/A';
+    throw new FormulaError('#N/A');
   }
 
   /**
    * Compares two values for VLOOKUP matching
    * Returns: -1 if a < b, 0 if a === b, 1 if a > b
    */
-  private compareValues(a: string | number, b: string | number): number {
+  private compareValues(a: FormulaScalar, b: FormulaScalar): number {
+    // Errors in the lookup column never match
+    if (a instanceof FormulaError || b instanceof FormulaError) return 1;
+
     // Convert both to same type for comparison
     const aNum = typeof a === 'number' ? a : parseFloat(String(a));
     const bNum = typeof b === 'number' ? b : parseFloat(String(b));
@@ -797,73 +1431,11 @@ export class FormulaService {
     }
 
     // Otherwise compare as strings
-    const aStr = String(a).toLowerCase();
-    const bStr = String(b).toLowerCase();
+    const aStr = this.toText(a).toLowerCase();
+    const bStr = this.toText(b).toLowerCase();
 
     if (aStr < bStr) return -1;
     if (aStr > bStr) return 1;
     return 0;
   }
-
-  /**
-   * Gets a range as a 2D array of values
-   */
-  private getRangeAs2DArray(range: string, cells: Cell[][]): (string | number)[][] {
-    const result: (string | number)[][] = [];
-
-    try {
-      const [start, end] = range.split(':');
-      const startAddr = a1ToCellAddress(start.trim());
-      const endAddr = a1ToCellAddress(end.trim());
-
-      const minRow = Math.min(startAddr.row, endAddr.row);
-      const maxRow = Math.max(startAddr.row, endAddr.row);
-      const minCol = Math.min(startAddr.col, endAddr.col);
-      const maxCol = Math.max(startAddr.col, endAddr.col);
-
-      for (let row = minRow; row <= maxRow; row++) {
-        const rowData: (string | number)[] = [];
-        for (let col = minCol; col <= maxCol; col++) {
-          const cell = cells[row]?.[col];
-          const value = this.getCellValue(cell, cells);
-          rowData.push(value);
-        }
-        result.push(rowData);
-      }
-    } catch {
-      // Invalid range
-    }
-
-    return result;
-  }
-
-  /**
-   * Gets the actual value from a cell (evaluates formulas)
-   */
-  private getCellValue(cell: Cell | undefined, cells: Cell[][]): string | number {
-    if (!cell || cell.value === null || cell.value === undefined) {
-      return '';
-    }
-
-    // If it's a formula, evaluate it
-    if (typeof cell.value === 'string' && cell.value.startsWith('=')) {
-      const result = this.evaluateFormula(cell.value, cells, cell.row, cell.col);
-      return result;
-    }
-
-    return cell.value;
-  }
-
-  /**
-   * Parses a boolean argument (TRUE/FALSE, 1/0)
-   */
-  private parseBooleanArg(arg: string): boolean {
-    const upper = arg.trim().toUpperCase();
-    if (upper === 'TRUE' || upper === '1') return true;
-    if (upper === 'FALSE' || upper === '0') return false;
-
-    // Try to parse as number
-    const num = parseFloat(arg);
-    return !isNaN(num) && num !== 0;
-  }
 }
@@ -4,3 +4,4 @@
 
 export * from './spreadsheet-data.service';
 export * from './formula.service';
+export * from './spreadsheet-store';
@@ -1,7 +1,21 @@
 import { TestBed } from '@angular/core/testing';
 import { SpreadsheetDataService } from './spreadsheet-data.service';
 import { FormulaService } from './formula.service';
-import { SpreadsheetData, CellAddress, CellRange } from '../models';
+import {
+  BUILT_IN_CUSTOM_LISTS,
+  CellAddress,
+  CellRange,
+  FindMatch,
+  FindOptions,
+  SpreadsheetData,
+  createDefaultSpreadsheet,
+  createEmptySheet,
+  getSheetCell,
+  setSheetCells,
+  toDenseCells,
+} from '../models';
+import { formatNameReference } from '../names';
+import { range } from '../../testing/spec-helpers';
 
 describe('SpreadsheetDataService', () => {
   let service: SpreadsheetDataService;
@@ -258,6 +272,1096 @@ describe('SpreadsheetDataService', () => {
     });
   });
 
+  describe('Number Formats', () => {
+    it('should render numbers with the ribbon formats', () => {
+      service.updateCell(0, 0, 1234.5);
+
+      service.updateCellStyle(0, 0, { numberFormat: 'currency' });
+      expect(service.getCell(0, 0)?.displayValue).toBe('$1,234.50');
+
+      service.updateCellStyle(0, 0, { numberFormat: 'percentage', decimalPlaces: 0 });
+      expect(service.getCell(0, 0)?.displayValue).toBe('123450%');
+    });
+
+    it('should format numbers typed as text and formula results', () => {
+      service.updateCellStyle(0, 0, { numberFormatPattern: '#,##0.00' });
+      service.updateCell(0, 0, '2500');
+      expect(service.getCell(0, 0)?.displayValue).toBe('2,500.00');
+
+      service.updateCellStyle(0, 1, { numberFormatPattern: '0.0%' });
+      service.updateCell(0, 1, '=1/8');
+      expect(service.getCell(0, 1)?.displayValue).toBe('12.5%');
+    });
+
+    it('should keep numeric text as typed in the text format', () => {
+      service.updateCellStyle(0, 0, { numberFormat: 'text' });
+      service.updateCell(0, 0, '007');
+      expect(service.getCell(0, 0)?.displayValue).toBe('007');
+    });
+
+    it('should expose section colors', () => {
+      service.updateCellStyle(0, 0, { numberFormatPattern: '0;[Red]-0' });
+      service.updateCell(0, 0, -5);
+
+      expect(service.getCell(0, 0)?.displayValue).toBe('-5');
+      expect(service.getCellFormatColor(0, 0)).toBe('#FF0000');
+      expect(service.getCellFormatColor(0, 1)).toBeUndefined();
+    });
+
+    it('should re-render every cell when the locale changes', () => {
+      service.updateCellStyle(0, 0, { numberFormat: 'number' });
+      service.updateCell(0, 0, 1234.5);
+      service.updateCell(0, 1, 0.25);
+
+      service.setLocale('de-DE');
+      expect(service.getLocale()).toBe('de-DE');
+      expect(service.getCell(0, 0)?.displayValue).toBe('1.234,50');
+      expect(service.getCell(0, 1)?.displayValue).toBe('0,25');
+    });
+  });
+
+  describe('Fill', () => {
+    it('should extend a numeric series down', () => {
+      service.updateCell(0, 0, 1);
+      service.updateCell(1, 0, 2);
+      service.fillRange({ start: { row: 0, col: 0 }, end: { row: 1, col: 0 } }, 'down', 3);
+
+      expect(service.getCell(2, 0)?.value).toBe(3);
+      expect(service.getCell(4, 0)?.value).toBe(5);
+    });
+
+    it('should extend each column of a multi-column source on its own', () => {
+      service.updateCell(0, 0, 'Mon');
+      service.updateCell(0, 1, 'Item 1');
+      service.fillRange({ start: { row: 0, col: 0 }, end: { row: 0, col: 1 } }, 'down', 2);
+
+      expect(service.getCell(2, 0)?.value).toBe('Wed');
+      expect(service.getCell(2, 1)?.value).toBe('Item 3');
+    });
+
+    it('should copy a single number unless the mode is toggled', () => {
+      service.updateCell(0, 2, 5);
+      service.fillRange({ start: { row: 0, col: 2 }, end: { row: 0, col: 2 } }, 'right', 2);
+      expect(service.getCell(0, 4)?.value).toBe(5);
+
+      service.fillRange({ start: { row: 0, col: 2 }, end: { row: 0, col: 2 } }, 'right', 2, true);
+      expect(service.getCell(0, 4)?.value).toBe(7);
+    });
+
+    it('should fill up and left, stopping at the edge of the sheet', () => {
+      service.updateCell(1, 1, 'Item 5');
+      service.fillRange({ start: { row: 1, col: 1 }, end: { row: 1, col: 1 } }, 'up', 3);
+      service.fillRange({ start: { row: 1, col: 1 }, end: { row: 1, col: 1 } }, 'left', 1);
+
+      expect(service.getCell(0, 1)?.value).toBe('Item 4');
+      expect(service.getCell(1, 0)?.value).toBe('Item 4');
+    });
+
+    it('should shift formula references by the distance to the repeated cell', () => {
+      service.updateCell(0, 0, 2);
+      service.updateCell(1, 0, 3);
+      service.updateCell(0, 1, '=A1*10');
+      service.fillRange({ start: { row: 0, col: 1 }, end: { row: 0, col: 1 } }, 'down', 1);
+
+      expect(service.getCell(1, 1)?.value).toBe('=A2*10');
+      expect(service.getCell(1, 1)?.displayValue).toBe('30');
+    });
+
+    it('should undo a whole fill in one step', () => {
+      service.updateCell(0, 0, 1);
+      service.updateCell(1, 0, 2);
+      service.fillRange({ start: { row: 0, col: 0 }, end: { row: 1, col: 0 } }, 'down', 150);
+      expect(service.getCell(151, 0)?.value).toBe(152);
+
+      service.undo();
+      expect(service.getCell(2, 0)?.value).toBe('');
+      expect(service.getCell(151, 0)?.value).toBe('');
+      expect(service.getCell(1, 0)?.value).toBe(2);
+
+      service.undo();
+      expect(service.getCell(1, 0)?.value).toBe('');
+    });
+  });
+
+  describe('Dates', () => {
+    it('should store typed dates as serial numbers with a date format', () => {
+      service.updateCell(0, 0, '2026-03-01');
+
+      const cell = service.getCell(0, 0);
+      expect(cell?.value).toBe(46082);
+      expect(cell?.dataType).toBe('date');
+      expect(cell?.style?.numberFormatPattern).toBe('yyyy-mm-dd');
+      expect(cell?.displayValue).toBe('2026-03-01');
+    });
+
+    it('should read numeric dates in the workbook locale', () => {
+      service.setLocale('de-DE');
+      service.updateCell(0, 0, '1.3.2026');
+
+      expect(service.getCell(0, 0)?.value).toBe(46082);
+      expect(service.getCell(0, 0)?.displayValue).toBe('1.3.2026');
+    });
+
+    it('should recognize times and keep existing date formats', () => {
+      service.updateCell(0, 0, '9:30 PM');
+      expect(service.getCell(0, 0)?.value).toBe(21.5 / 24);
+      expect(service.getCell(0, 0)?.displayValue).toBe('9:30 PM');
+
+      service.updateCellStyle(0, 1, { numberFormatPattern: 'mmm d' });
+      service.updateCell(0, 1, '3/1/2026');
+      expect(service.getCell(0, 1)?.displayValue).toBe('Mar 1');
+    });
+
+    it('should keep dates typed into text-formatted cells as text', () => {
+      service.updateCellStyle(0, 0, { numberFormat: 'text' });
+      service.updateCell(0, 0, '2026-03-01');
+
+      expect(service.getCell(0, 0)?.value).toBe('2026-03-01');
+      expect(service.getCell(0, 0)?.dataType).toBe('string');
+    });
+
+    it('should support date arithmetic in formulas', () => {
+      service.updateCell(0, 0, '2026-03-01');
+      service.updateCell(1, 0, '2026-04-01');
+      service.updateCell(2, 0, '=A2-A1');
+
+      expect(service.getCell(2, 0)?.displayValue).toBe('31');
+    });
+
+    it('should give formulas returning dates a date format', () => {
+      service.updateCell(0, 0, '=DATE(2026,3,1)');
+
+      expect(service.getCell(0, 0)?.computedValue).toBe(46082);
+      expect(service.getCell(0, 0)?.displayValue).toBe('2026-03-01');
+    });
+
+    it('should edit and copy dates as text that is recognized again', () => {
+      service.updateCell(0, 0, '3/1/2026 14:30');
+      expect(service.getCellEditText(0, 0)).toBe('2026-03-01 14:30:00');
+
+      service.selectCell({ row: 0, col: 0 });
+      expect(service.copy()).toBe('2026-03-01 14:30:00');
+    });
+
+    it('should turn numbers into dates when a date format is applied', () => {
+      service.updateCell(0, 0, 46082);
+      expect(service.getCell(0, 0)?.dataType).toBe('number');
+
+      service.updateCellStyle(0, 0, { numberFormat: 'date' });
+      expect(service.getCell(0, 0)?.dataType).toBe('date');
+      expect(service.getCell(0, 0)?.displayValue).toBe('2026-03-01');
+    });
+
+    it('should restore the previous format on undo', () => {
+      service.updateCell(0, 0, 5);
+      service.updateCell(0, 0, '2026-03-01');
+      service.undo();
+
+      expect(service.getCell(0, 0)?.value).toBe(5);
+      expect(service.getCell(0, 0)?.dataType).toBe('number');
+      expect(service.getCell(0, 0)?.displayValue).toBe('5');
+
+      service.redo();
+      expect(service.getCell(0, 0)?.displayValue).toBe('2026-03-01');
+    });
+
+    it('should fill dates by day and keep their format', () => {
+      service.updateCell(0, 0, '1/30/2026');
+      service.fillRange({ start: { row: 0, col: 0 }, end: { row: 0, col: 0 } }, 'down', 2);
+
+      expect(service.getCell(1, 0)?.value).toBe(46053);
+      expect(service.getCell(2, 0)?.displayValue).toBe('2/1/2026');
+      expect(service.getCell(2, 0)?.dataType).toBe('date');
+    });
+
+    it('should fill times as a linear series', () => {
+      service.updateCell(0, 0, '9:00');
+      service.updateCell(1, 0, '10:00');
+      service.fillRange({ start: { row: 0, col: 0 }, end: { row: 1, col: 0 } }, 'down', 1);
+
+      expect(service.getCell(2, 0)?.displayValue).toBe('11:00');
+    });
+  });
+
+  describe('AutoFilter', () => {
+    // A1:B5 holds Region | Sales; the sheet's active range starts at A1
+    beforeEach(() => {
+      const rows: [string, number][] = [
+        ['Region', 0],
+        ['North', 120],
+        ['South', 80],
+        ['North', 200],
+        ['East', 50],
+      ];
+      rows.forEach(([region, sales], row) => {
+        service.updateCell(row, 0, region);
+        service.updateCell(row, 1, row === 0 ? 'Sales' : sales);
+      });
+    });
+
+    it('should find the current region around a cell', () => {
+      expect(service.getCurrentRegion({ row: 2, col: 1 })).toEqual({
+        start: { row: 0, col: 0 },
+        end: { row: 4, col: 1 },
+      });
+    });
+
+    it('should hide rows that fail a column filter and keep them on the sheet', () => {
+      service.setAutoFilter(service.getCurrentRegion({ row: 0, col: 0 }));
+      service.setColumnFilter(0, { type: 'values', values: ['North'] });
+
+      const sheet = service.getActiveSheet();
+      expect(sheet?.hiddenRows).toEqual([2, 4]);
+      expect(sheet?.autoFilter?.columns[0]).toEqual({ type: 'values', values: ['North'] });
+      expect(service.getCell(2, 0)?.value).toBe('South');
+    });
+
+    it('should show filtered rows again when filters are cleared or turned off', () => {
+      service.setAutoFilter({ start: { row: 0, col: 0 }, end: { row: 4, col: 1 } });
+      service.setColumnFilter(1, { type: 'top', count: 1 });
+      expect(service.getActiveSheet()?.hiddenRows).toEqual([1, 2, 4]);
+
+      service.setColumnFilter(1, null);
+      expect(service.getActiveSheet()?.hiddenRows).toEqual([]);
+
+      service.setColumnFilter(1, { type: 'average' });
+      service.setAutoFilter(null);
+      expect(service.getActiveSheet()?.autoFilter).toBeUndefined();
+      expect(service.getActiveSheet()?.hiddenRows).toEqual([]);
+    });
+
+    it('should recalculate SUBTOTAL when rows are filtered', () => {
+      service.updateCell(6, 1, '=SUBTOTAL(9,B2:B5)');
+      service.setAutoFilter({ start: { row: 0, col: 0 }, end: { row: 4, col: 1 } });
+      expect(service.getCell(6, 1)?.computedValue).toBe(450);
+
+      service.setColumnFilter(0, { type: 'values', values: ['North'] });
+      expect(service.getCell(6, 1)?.computedValue).toBe(320);
+    });
+
+    it('should list checklist values from rows shown by other columns', () => {
+      service.setAutoFilter({ start: { row: 0, col: 0 }, end: { row: 4, col: 1 } });
+      expect(service.getColumnFilterValues(0)).toEqual(['East', 'North', 'South']);
+
+      service.setColumnFilter(1, {
+        type: 'condition',
+        conditions: [{ operator: 'lessThan', value: 100 }],
+      });
+      expect(service.getColumnFilterValues(0)).toEqual(['East', 'South']);
+    });
+
+    it('should sort the rows below the header and re-apply the filter', () => {
+      service.updateCell(1, 2, '=B2*2');
+      service.setAutoFilter({ start: { row: 0, col: 0 }, end: { row: 4, col: 2 } });
+      service.setColumnFilter(0, { type: 'values', values: ['North', 'East'] });
+
+      service.sortAutoFilter(1, false);
+
+      const regions = [0, 1, 2, 3, 4].map((row) => service.getCell(row, 0)?.value);
+      expect(regions).toEqual(['Region', 'North', 'North', 'South', 'East']);
+      expect(service.getCell(2, 2)?.value).toBe('=B3*2');
+      expect(service.getCell(2, 2)?.computedValue).toBe(240);
+      expect(service.getActiveSheet()?.hiddenRows).toEqual([3]);
+    });
+
+    it('should move the filter and hidden rows when rows and columns change', () => {
+      service.setAutoFilter({ start: { row: 0, col: 0 }, end: { row: 4, col: 1 } });
+      service.setColumnFilter(1, {
+        type: 'condition',
+        conditions: [{ operator: 'greaterThan', value: 100 }],
+      });
+
+      service.insertRow(0);
+      let sheet = service.getActiveSheet();
+      expect(sheet?.autoFilter?.range).toEqual({
+        start: { row: 1, col: 0 },
+        end: { row: 5, col: 1 },
+      });
+      expect(sheet?.hiddenRows).toEqual([3, 5]);
+
+      service.insertColumn(0);
+      sheet = service.getActiveSheet();
+      expect(Object.keys(sheet?.autoFilter?.columns ?? {})).toEqual(['2']);
+
+      service.deleteColumn(2);
+      sheet = service.getActiveSheet();
+      expect(sheet?.autoFilter?.columns).toEqual({});
+      expect(sheet?.hiddenRows).toEqual([]);
+    });
+  });
+
+  describe('Sorting', () => {
+    // A1:C5 holds Name | Day | Hours, below a bold header
+    beforeEach(() => {
+      const rows: [string, string, number][] = [
+        ['bob', 'Wed', 4],
+        ['Alice', 'Mon', 6],
+        ['carol', 'Mon', 2],
+        ['Bob', 'Sun', 4],
+      ];
+      ['Name', 'Day', 'Hours'].forEach((header, col) => service.updateCell(0, col, header));
+      rows.forEach((values, index) => {
+        values.forEach((value, col) => service.updateCell(index + 1, col, value));
+      });
+    });
+
+    const column = (col: number) => [1, 2, 3, 4].map((row) => service.getCell(row, col)?.value);
+    const region = { start: { row: 0, col: 0 }, end: { row: 4, col: 2 } };
+
+    it('should sort by several levels and keep a detected header in place', () => {
+      service.sortRange(region, { levels: [{ col: 2, descending: true }, { col: 0 }] });
+
+      expect(service.getCell(0, 0)?.value).toBe('Name');
+      expect(column(0)).toEqual(['Alice', 'bob', 'Bob', 'carol']);
+      expect(column(2)).toEqual([6, 4, 4, 2]);
+    });
+
+    it('should sort the first row too when told there is no header', () => {
+      service.sortRange(
+        { start: { row: 0, col: 0 }, end: { row: 4, col: 0 } },
+        { levels: [{ col: 0 }], hasHeader: false }
+      );
+
+      const names = [0, 1, 2, 3, 4].map((row) => service.getCell(row, 0)?.value);
+      expect(names).toEqual(['Alice', 'bob', 'Bob', 'carol', 'Name']);
+    });
+
+    it('should sort by a custom list and tell case apart when asked', () => {
+      service.sortRange(region, {
+        levels: [{ col: 1, customList: BUILT_IN_CUSTOM_LISTS[0] }, { col: 0 }],
+        caseSensitive: true,
+      });
+
+      expect(column(1)).toEqual(['Mon', 'Mon', 'Wed', 'Sun']);
+      expect(column(0)).toEqual(['Alice', 'carol', 'bob', 'Bob']);
+    });
+
+    it('should keep formulas pointing at their own row', () => {
+      service.updateCell(0, 3, 'Double');
+      [1, 2, 3, 4].forEach((row) => service.updateCell(row, 3, `=C${row + 1}*2`));
+
+      service.sortRange(
+        { start: { row: 0, col: 0 }, end: { row: 4, col: 3 } },
+        { levels: [{ col: 2 }] }
+      );
+
+      expect(column(3)).toEqual(['=C2*2', '=C3*2', '=C4*2', '=C5*2']);
+      expect([1, 2, 3, 4].map((row) => service.getCell(row, 3)?.computedValue)).toEqual([
+        4, 8, 8, 12,
+      ]);
+    });
+
+    it('should undo and redo the whole sort as one step', () => {
+      service.sortRange(region, { levels: [{ col: 0 }] });
+      const sorted = column(0);
+
+      service.undo();
+      expect(column(0)).toEqual(['bob', 'Alice', 'carol', 'Bob']);
+
+      service.redo();
+      expect(column(0)).toEqual(sorted);
+    });
+  });
+
+  describe('Find and Replace', () => {
+    // Sheet1 holds apple (A1), =B1&"pie" (A2) and Apple (B2); Sheet2 holds apple (A3)
+    beforeEach(() => {
+      service.updateCell(0, 0, 'apple');
+      service.updateCell(0, 1, 'cake');
+      service.updateCell(1, 0, '=B1&"pie"');
+      service.updateCell(1, 1, 'Apple');
+      service.addSheet();
+      service.setActiveSheet(1);
+      service.updateCell(2, 0, 'apple');
+      service.setActiveSheet(0);
+    });
+
+    const position = (match: FindMatch | null) => match && [match.sheetName, match.row, match.col];
+
+    it('should find all matches in the sheet or the whole workbook', () => {
+      expect(service.findAll({ query: 'apple' }).map(position)).toEqual([
+        ['Sheet1', 0, 0],
+        ['Sheet1', 1, 1],
+      ]);
+
+      const workbook = service.findAll({ query: 'apple', scope: 'workbook', matchCase: true });
+      expect(workbook.map(position)).toEqual([
+        ['Sheet1', 0, 0],
+        ['Sheet2', 2, 0],
+      ]);
+    });
+
+    it('should look in values or formulas', () => {
+      expect(service.findAll({ query: 'cakepie' }).map(position)).toEqual([['Sheet1', 1, 0]]);
+      expect(service.findAll({ query: '"pie"', lookIn: 'formulas' }).map(position)).toEqual([
+        ['Sheet1', 1, 0],
+      ]);
+      expect(service.findAll({ query: '"pie"' })).toEqual([]);
+    });
+
+    it('should go to the next and previous match, wrapping across sheets', () => {
+      const options: FindOptions = { query: 'apple', scope: 'workbook', matchEntireCell: true };
+      service.selectCell({ row: 0, col: 0 });
+
+      expect(position(service.findNext(options))).toEqual(['Sheet1', 1, 1]);
+      expect(position(service.findNext(options))).toEqual(['Sheet2', 2, 0]);
+      expect(service.getActiveSheet()?.name).toBe('Sheet2');
+      expect(service.getSelectedCell()).toEqual({ row: 2, col: 0 });
+
+      expect(position(service.findNext(options))).toEqual(['Sheet1', 0, 0]);
+      expect(position(service.findNext(options, true))).toEqual(['Sheet2', 2, 0]);
+    });
+
+    it('should replace the selected match and go to the next one', () => {
+      service.selectCell({ row: 0, col: 0 });
+      const next = service.replace({ query: 'apple' }, 'pear');
+
+      expect(service.getCell(0, 0)?.value).toBe('pear');
+      expect(position(next)).toEqual(['Sheet1', 1, 1]);
+      expect(service.getCell(1, 1)?.value).toBe('Apple');
+    });
+
+    it('should replace all matches through updateCell and undo them in one step', () => {
+      const count = service.replaceAll({ query: 'apple', scope: 'workbook' }, 'plum');
+      expect(count).toBe(3);
+      expect(service.getCell(1, 1)?.value).toBe('plum');
+      expect(getSheetCell(service.getSheets()[1], 2, 0)?.value).toBe('plum');
+      expect(service.getActiveSheet()?.name).toBe('Sheet1');
+
+      service.updateCell(0, 1, 'tart');
+      expect(service.getCell(1, 0)?.displayValue).toBe('tartpie');
+
+      service.undo();
+      service.undo();
+      expect(service.getCell(0, 0)?.value).toBe('apple');
+      expect(service.getCell(1, 1)?.value).toBe('Apple');
+      expect(getSheetCell(service.getSheets()[1], 2, 0)?.value).toBe('apple');
+      expect(service.getActiveSheet()?.name).toBe('Sheet1');
+
+      service.redo();
+      expect(getSheetCell(service.getSheets()[1], 2, 0)?.value).toBe('plum');
+      expect(service.getCell(0, 1)?.value).toBe('cake');
+    });
+
+    it('should replace with regular expression groups', () => {
+      service.replaceAll({ query: '^(\\w)(\\w+)$', useRegex: true, matchCase: true }, '$2$1');
+      expect(service.getCell(0, 1)?.value).toBe('akec');
+    });
+  });
+
+  describe('Merged Cells', () => {
+    it('should merge a range, keeping only the top-left value, and undo it in one step', () => {
+      service.updateCell(0, 0, 'Title');
+      service.updateCell(0, 1, 'lost');
+      expect(service.mergeWouldDiscardData(range(0, 0, 1, 2))).toBeTrue();
+
+      service.mergeCells(range(0, 0, 1, 2), { center: true });
+      expect(service.getActiveSheet()?.merges).toEqual([range(0, 0, 1, 2)]);
+      expect(service.getCell(0, 0)?.style?.textAlign).toBe('center');
+      expect(service.getCell(0, 1)?.value).toBe('');
+      expect(service.getMergeAt(1, 2)).toEqual(range(0, 0, 1, 2));
+
+      service.undo();
+      expect(service.getActiveSheet()?.merges).toBeUndefined();
+      expect(service.getCell(0, 1)?.value).toBe('lost');
+    });
+
+    it('should merge each row with Merge Across and unmerge them', () => {
+      service.mergeCells(range(2, 0, 3, 2), { across: true });
+      expect(service.getActiveSheet()?.merges).toEqual([range(2, 0, 2, 2), range(3, 0, 3, 2)]);
+      expect(service.mergeWouldDiscardData(range(2, 0, 3, 2), true)).toBeFalse();
+
+      service.unmergeCells(range(3, 1, 3, 1));
+      expect(service.getActiveSheet()?.merges).toEqual([range(2, 0, 2, 2)]);
+    });
+
+    it('should select a merged cell as one cell', () => {
+      service.mergeCells(range(1, 1, 2, 2));
+
+      service.selectCell({ row: 2, col: 2 });
+      expect(service.getSelectedCell()).toEqual({ row: 1, col: 1 });
+
+      service.selectRange(range(0, 0, 1, 1));
+      expect(service.getSelectedRange()).toEqual(range(0, 0, 2, 2));
+    });
+
+    it('should move merged cells with inserted and deleted rows', () => {
+      service.mergeCells(range(1, 0, 2, 1));
+
+      service.insertRow(0);
+      expect(service.getActiveSheet()?.merges).toEqual([range(2, 0, 3, 1)]);
+
+      service.deleteRow(3);
+      expect(service.getActiveSheet()?.merges).toEqual([range(2, 0, 2, 1)]);
+    });
+  });
+
+  describe('Freeze Panes', () => {
+    it('should store frozen rows and columns on the sheet and unfreeze them', () => {
+      service.setFrozenPanes(2, 1);
+      expect(service.getActiveSheet()?.frozenRows).toBe(2);
+      expect(service.getActiveSheet()?.frozenColumns).toBe(1);
+      expect(JSON.parse(JSON.stringify(service.getData())).sheets[0].frozenRows).toBe(2);
+
+      service.setFrozenPanes(0, 0);
+      expect(service.getActiveSheet()?.frozenRows).toBeUndefined();
+      expect(service.getActiveSheet()?.frozenColumns).toBeUndefined();
+    });
+
+    it('should move the split with rows and columns inserted or deleted above it', () => {
+      service.setFrozenPanes(2, 1);
+
+      service.insertRow(0);
+      service.insertRow(5);
+      expect(service.getActiveSheet()?.frozenRows).toBe(3);
+
+      service.deleteColumn(0);
+      expect(service.getActiveSheet()?.frozenColumns).toBeUndefined();
+    });
+  });
+
+  describe('Conditional Formatting', () => {
+    const column: CellRange = { start: { row: 0, col: 0 }, end: { row: 4, col: 0 } };
+
+    beforeEach(() => {
+      [1, 2, 3, 4, 5].forEach((value, row) => service.updateCell(row, 0, value));
+    });
+
+    it('should re-evaluate rules when values change', () => {
+      service.addConditionalFormat({
+        id: 'high',
+        type: 'cellValue',
+        operator: 'greaterThan',
+        value: 3,
+        range: column,
+        style: { backgroundColor: '#ffc7ce' },
+      });
+      expect(service.getConditionalFormat(4, 0)?.style.backgroundColor).toBe('#ffc7ce');
+      expect(service.getConditionalFormat(0, 0)).toBeNull();
+
+      service.updateCell(0, 0, 10);
+      expect(service.getConditionalFormat(0, 0)?.style.backgroundColor).toBe('#ffc7ce');
+    });
+
+    it('should evaluate formula rules relative to each cell of the range', () => {
+      service.updateCell(2, 1, 'x');
+      service.addConditionalFormat({
+        id: 'flagged',
+        type: 'formula',
+        formula: '=B1="x"',
+        range: column,
+        style: { fontWeight: 'bold' },
+      });
+
+      expect(service.getConditionalFormat(2, 0)?.style.fontWeight).toBe('bold');
+      expect(service.getConditionalFormat(1, 0)).toBeNull();
+    });
+
+    it('should move rule ranges and formulas with inserted rows', () => {
+      service.setConditionalFormats([
+        { id: 'f', type: 'formula', formula: '=A1>2', range: column, style: {} },
+      ]);
+      service.insertRow(0);
+
+      const [rule] = service.getConditionalFormats();
+      expect(rule.range).toEqual({ start: { row: 1, col: 0 }, end: { row: 5, col: 0 } });
+      expect(rule.type === 'formula' && rule.formula).toBe('=A2>2');
+
+      service.setConditionalFormats([]);
+      expect(service.getActiveSheet()?.conditionalFormats).toBeUndefined();
+    });
+
+    it('should rewrite formulas that point at another sheet', () => {
+      service.addSheet('Lists');
+      service.setActiveSheet(1);
+      service.updateCell(1, 0, 'Yes');
+      service.setActiveSheet(0);
+      service.setConditionalFormats([
+        {
+          id: 'f',
+          type: 'formula',
+          formula: '=Lists!$A$2="Yes"',
+          range: column,
+          style: { fontWeight: 'bold' },
+        },
+      ]);
+      expect(service.getConditionalFormat(0, 0)).not.toBeNull();
+
+      service.renameSheet(1, 'Choices');
+      expect(service.getConditionalFormat(0, 0)).not.toBeNull();
+
+      service.setActiveSheet(1);
+      service.insertRow(0);
+      service.setActiveSheet(0);
+      const [rule] = service.getConditionalFormats();
+      expect(rule.type === 'formula' && rule.formula).toBe('=Choices!$A$3="Yes"');
+      expect(service.getConditionalFormat(0, 0)).not.toBeNull();
+    });
+  });
+
+  describe('Data Validation', () => {
+    const column: CellRange = { start: { row: 0, col: 0 }, end: { row: 4, col: 0 } };
+    const list: CellRange = { start: { row: 0, col: 2 }, end: { row: 2, col: 2 } };
+
+    it('should replace the rules of the cells a new rule is set on', () => {
+      service.setDataValidation(column, { type: 'wholeNumber', value1: 1, value2: 10 });
+      service.setDataValidation(
+        { start: { row: 1, col: 0 }, end: { row: 2, col: 0 } },
+        { type: 'list', list: ['Yes', 'No'] }
+      );
+
+      expect(service.getDataValidations().map((rule) => rule.range)).toEqual([
+        { start: { row: 0, col: 0 }, end: { row: 0, col: 0 } },
+        { start: { row: 3, col: 0 }, end: { row: 4, col: 0 } },
+        { start: { row: 1, col: 0 }, end: { row: 2, col: 0 } },
+      ]);
+      expect(service.getDataValidation(2, 0)?.type).toBe('list');
+      expect(service.getDataValidation(4, 0)?.type).toBe('wholeNumber');
+
+      service.setDataValidation(column, null);
+      expect(service.getActiveSheet()?.dataValidations).toBeUndefined();
+    });
+
+    it('should check values before they are written', () => {
+      service.updateCell(0, 1, 5);
+      service.setDataValidation(column, { type: 'decimal', operator: 'lessThan', value1: '=B1' });
+
+      expect(service.validateCellValue(0, 0, '3')).toBeNull();
+      expect(service.validateCellValue(0, 0, '7')?.type).toBe('decimal');
+      // Formula bounds move with the cell: A2 is compared with B2, which is empty
+      expect(service.validateCellValue(1, 0, '3')).not.toBeNull();
+      expect(service.validateCellValue(0, 0, '=B1-1')).toBeNull();
+      expect(service.getCell(0, 0)?.value).toBe('');
+    });
+
+    it('should allow the values of a list range', () => {
+      ['Red', 'Green', 'Red'].forEach((value, row) => service.updateCell(row, 2, value));
+      service.setDataValidation(column, { type: 'list', listRange: list });
+
+      expect(service.getValidationList(service.getDataValidation(0, 0)!)).toEqual([
+        'Red',
+        'Green',
+      ]);
+      expect(service.validateCellValue(0, 0, 'green')).toBeNull();
+      expect(service.validateCellValue(0, 0, 'Blue')).not.toBeNull();
+    });
+
+    it('should skip pasted values rejected by stop rules', () => {
+      service.setDataValidation(column, { type: 'wholeNumber', value1: 1, value2: 10 });
+      service.setDataValidation(
+        { start: { row: 0, col: 1 }, end: { row: 4, col: 1 } },
+        { type: 'wholeNumber', value1: 1, value2: 10, errorStyle: 'warning' }
+      );
+      service.selectCell({ row: 0, col: 0 });
+
+      const violations = service.paste('5\t50\n50\t5');
+      expect(violations.map(({ row, col }) => [row, col])).toEqual([
+        [0, 1],
+        [1, 0],
+      ]);
+      expect(service.getCell(0, 0)?.value).toBe('5');
+      expect(service.getCell(1, 0)?.value).toBe('');
+      // Warnings let the value in
+      expect(service.getCell(0, 1)?.value).toBe('50');
+    });
+
+    it('should move rules and list ranges with inserted rows', () => {
+      service.setDataValidation(column, { type: 'list', listRange: list });
+      service.insertRow(0);
+
+      const [rule] = service.getDataValidations();
+      expect(rule.range).toEqual({ start: { row: 1, col: 0 }, end: { row: 5, col: 0 } });
+      expect(rule.listRange).toEqual({ start: { row: 1, col: 2 }, end: { row: 3, col: 2 } });
+    });
+
+    describe('with sources on another sheet', () => {
+      const source: CellRange = { start: { row: 0, col: 0 }, end: { row: 1, col: 0 } };
+
+      beforeEach(() => {
+        service.addSheet('Lists');
+        service.setActiveSheet(1);
+        service.updateCell(0, 0, 'Yes');
+        service.updateCell(1, 0, 'No');
+        service.updateCell(0, 1, 5);
+        service.setActiveSheet(0);
+        service.setDataValidation(column, {
+          type: 'list',
+          listRange: { ...source, sheet: 'Lists' },
+        });
+        service.setDataValidation(
+          { start: { row: 0, col: 1 }, end: { row: 4, col: 1 } },
+          { type: 'decimal', operator: 'lessThan', value1: '=Lists!$B$1' }
+        );
+      });
+
+      it('should follow a renamed sheet', () => {
+        service.renameSheet(1, 'Choices');
+
+        const rule = service.getDataValidation(0, 0)!;
+        expect(rule.listRange).toEqual({ ...source, sheet: 'Choices' });
+        expect(service.getValidationList(rule)).toEqual(['Yes', 'No']);
+        expect(service.validateCellValue(0, 0, 'Yes')).toBeNull();
+        expect(service.getDataValidation(0, 1)?.value1).toBe('=Choices!$B$1');
+        expect(service.validateCellValue(0, 1, '3')).toBeNull();
+      });
+
+      it('should move with rows inserted on that sheet', () => {
+        service.setActiveSheet(1);
+        service.insertRow(0);
+        service.setActiveSheet(0);
+
+        const rule = service.getDataValidation(0, 0)!;
+        expect(rule.listRange?.start.row).toBe(1);
+        expect(service.getValidationList(rule)).toEqual(['Yes', 'No']);
+        expect(service.getDataValidation(0, 1)?.value1).toBe('=Lists!$B$2');
+        expect(service.validateCellValue(0, 1, '3')).toBeNull();
+      });
+
+      it('should reject every value once that sheet is deleted', () => {
+        service.deleteSheet(1);
+
+        const rule = service.getDataValidation(0, 0)!;
+        expect(rule.listRange).toBeUndefined();
+        expect(service.validateCellValue(0, 0, 'Yes')).not.toBeNull();
+        expect(service.getDataValidation(0, 1)?.value1).toBe('=#REF!');
+        expect(service.validateCellValue(0, 1, '3')).not.toBeNull();
+      });
+    });
+
+    it('should report existing values that break their rule', () => {
+      service.updateCell(0, 0, 50);
+      service.updateCell(1, 0, 5);
+      service.setDataValidation(column, { type: 'wholeNumber', value1: 1, value2: 10 });
+
+      expect(service.isCellInvalid(0, 0)).toBeTrue();
+      expect(service.isCellInvalid(1, 0)).toBeFalse();
+      expect(service.isCellInvalid(2, 0)).toBeFalse();
+
+      service.updateCell(0, 0, 8);
+      expect(service.isCellInvalid(0, 0)).toBeFalse();
+    });
+  });
+
+  describe('Comments', () => {
+    it('should keep a thread of replies with authors and timestamps', () => {
+      service.addComment(0, 0, 'Check this total', 'Ann');
+      service.replyToComment(0, 0, 'Looks right', 'Bo');
+
+      const comment = service.getComment(0, 0)!;
+      expect(comment.author).toBe('Ann');
+      expect(isNaN(Date.parse(comment.createdAt))).toBeFalse();
+      expect(comment.replies?.map((reply) => [reply.author, reply.text])).toEqual([
+        ['Bo', 'Looks right'],
+      ]);
+
+      service.editComment(0, 0, comment.replies![0].id, 'Fixed');
+      expect(service.getComment(0, 0)?.replies?.[0].text).toBe('Fixed');
+      expect(service.getComment(0, 0)?.replies?.[0].editedAt).toBeDefined();
+
+      service.deleteComment(0, 0, comment.replies![0].id);
+      expect(service.getComment(0, 0)?.replies).toBeUndefined();
+      service.deleteComment(0, 0);
+      expect(service.getComment(0, 0)).toBeNull();
+    });
+
+    it('should take no replies while a thread is resolved', () => {
+      service.addComment(0, 0, 'Done?', 'Ann');
+      service.setCommentResolved(0, 0, true);
+      service.replyToComment(0, 0, 'Not yet', 'Bo');
+      expect(service.getComment(0, 0)?.replies).toBeUndefined();
+
+      service.setCommentResolved(0, 0, false);
+      service.replyToComment(0, 0, 'Not yet', 'Bo');
+      expect(service.getComment(0, 0)?.resolved).toBeUndefined();
+      expect(service.getComment(0, 0)?.replies?.length).toBe(1);
+    });
+
+    it('should move comments with their cells', () => {
+      service.updateCell(0, 0, 'b');
+      service.updateCell(1, 0, 'a');
+      service.addComment(0, 0, 'On b', 'Ann');
+      service.updateCell(0, 0, 'B');
+
+      service.insertRow(0);
+      expect(service.getComment(1, 0)?.text).toBe('On b');
+
+      service.sortRange(
+        { start: { row: 1, col: 0 }, end: { row: 2, col: 0 } },
+        { levels: [{ col: 0 }], hasHeader: false }
+      );
+      expect(service.getCell(2, 0)?.value).toBe('B');
+      expect(service.getComment(2, 0)?.text).toBe('On b');
+    });
+
+    it('should turn plain-text comments of loaded data into threads', () => {
+      const data = service.getData();
+      const sheet = data.sheets[0];
+      const cells = toDenseCells(sheet);
+      cells[0][0] = { ...cells[0][0], comment: 'Old note' as any };
+
+      service.loadData({ ...data, sheets: [{ ...sheet, cells }] });
+      expect(service.getComment(0, 0)).toEqual(
+        jasmine.objectContaining({ author: '', text: 'Old note' })
+      );
+    });
+  });
+
+  describe('Defined Names', () => {
+    const reference = (name: string) => {
+      const defined = service.getDefinedNames().find((n) => n.name === name);
+      return defined && formatNameReference(defined);
+    };
+
+    it('should evaluate names and recalculate when they or their cells change', () => {
+      service.addSheet('Settings');
+      service.setActiveSheet(1);
+      service.updateCell(1, 1, 0.2);
+      service.setActiveSheet(0);
+
+      const taxRate = service.addDefinedName('TaxRate', 'Settings!$B$2')!;
+      service.updateCell(0, 0, 100);
+      service.updateCell(0, 1, '=A1*taxrate');
+      expect(service.getCell(0, 1)?.displayValue).toBe('20');
+
+      service.setActiveSheet(1);
+      service.updateCell(1, 1, 0.5);
+      service.setActiveSheet(0);
+      expect(service.getCell(0, 1)?.displayValue).toBe('50');
+
+      // Renaming a name renames it in formulas
+      expect(service.updateDefinedName(taxRate.id, { name: 'Vat' })).toBeTrue();
+      expect(service.getCell(0, 1)?.value).toBe('=A1*Vat');
+      expect(service.getCell(0, 1)?.displayValue).toBe('50');
+
+      service.deleteDefinedName(taxRate.id);
+      expect(service.getCell(0, 1)?.displayValue).toBe('#NAME?');
+    });
+
+    it('should reject invalid references and names taken in their scope', () => {
+      expect(service.addDefinedName('A1', 'B2')).toBeNull();
+      expect(service.addDefinedName('Rate', 'not a reference')).toBeNull();
+      expect(service.addDefinedName('Rate', 'B2')).not.toBeNull();
+      expect(service.addDefinedName('rate', 'B3')).toBeNull();
+
+      // A name scoped to a sheet wins over the workbook name on that sheet
+      const sheetId = service.getActiveSheet()!.id;
+      expect(service.addDefinedName('Rate', 'B3', { sheetId })).not.toBeNull();
+      expect(service.resolveDefinedName('RATE')?.sheetId).toBe(sheetId);
+      expect(reference('Rate')).toBe('=Sheet1!$B$2');
+    });
+
+    it('should adjust names when rows and columns are inserted or deleted', () => {
+      service.addDefinedName('SalesData', 'A2:F10');
+      service.addDefinedName('Header', '$A$1');
+      service.updateCell(5, 7, '=SUM(SalesData)+Header');
+
+      service.insertRow(0);
+      expect(reference('SalesData')).toBe('=Sheet1!$A$3:$F$11');
+      service.deleteColumn(0);
+      expect(reference('SalesData')).toBe('=Sheet1!$A$3:$E$11');
+
+      // Names whose cells are all deleted refer to #REF!
+      service.deleteRow(1);
+      expect(reference('Header')).toBe('=#REF!');
+      expect(service.getCell(5, 6)?.displayValue).toBe('#REF!');
+
+      service.renameSheet(0, 'Sales');
+      expect(reference('SalesData')).toBe('=Sales!$A$2:$E$10');
+    });
+
+    it('should go to names and references typed in the name box', () => {
+      service.addSheet();
+      service.addDefinedName('Block', 'B2:C3');
+
+      expect(service.goToReference('block')).toBeTrue();
+      expect(service.getSelectedRange()).toEqual({
+        start: { row: 1, col: 1 },
+        end: { row: 2, col: 2 },
+      });
+
+      expect(service.goToReference('Sheet2!D4')).toBeTrue();
+      expect(service.getData().activeSheetIndex).toBe(1);
+      expect(service.getSelectedCell()).toEqual({ row: 3, col: 3 });
+
+      expect(service.goToReference('Nowhere')).toBeFalse();
+      expect(service.goToReference('Sheet3!A1')).toBeFalse();
+    });
+  });
+
+  describe('Excel Import/Export', () => {
+    it('should load an exported workbook and recalculate it', async () => {
+      service.updateCell(0, 0, 2);
+      service.updateCell(0, 1, '=A1*10');
+      service.updateCellStyle(0, 1, { fontWeight: 'bold' });
+      service.addSheet('Summary');
+      service.setActiveSheet(0);
+
+      const { blob, warnings } = await service.exportXlsx();
+      expect(warnings).toEqual([]);
+
+      service.loadData(createDefaultSpreadsheet());
+      expect(await service.importXlsx(blob)).toEqual([]);
+
+      expect(service.getSheets().map((sheet) => sheet.name)).toEqual(['Sheet1', 'Summary']);
+      expect(service.getCell(0, 1)?.displayValue).toBe('20');
+      expect(service.getCell(0, 1)?.style?.fontWeight).toBe('bold');
+
+      service.updateCell(0, 0, 3);
+      expect(service.getCell(0, 1)?.displayValue).toBe('30');
+    });
+  });
+
+  describe('CSV Import', () => {
+    const rows = [
+      ['Name', 'Score', 'Date', 'Code'],
+      ['Ana', '90', '2024-01-01', '007'],
+      ['Lee', '=B2+1', '', '010'],
+    ];
+    const columnTypes = ['general', 'number', 'date', 'text'] as const;
+
+    it('should import to a new sheet with converted column types', () => {
+      service.importCsv(rows, {
+        columnTypes: [...columnTypes],
+        hasHeader: true,
+        sheetName: 'Sheet1',
+      });
+
+      const sheet = service.getActiveSheet()!;
+      expect(service.getSheets().length).toBe(2);
+      expect(sheet.name).toBe('Sheet1 (2)');
+      expect(service.getCell(0, 1)?.value).toBe('Score');
+      expect(service.getCell(1, 1)).toEqual(
+        jasmine.objectContaining({ value: 90, dataType: 'number' })
+      );
+      expect(service.getCell(2, 1)?.displayValue).toBe('91');
+      expect(service.getCell(1, 2)).toEqual(
+        jasmine.objectContaining({ value: 45292, dataType: 'date', displayValue: '2024-01-01' })
+      );
+      expect(service.getCell(2, 3)).toEqual(
+        jasmine.objectContaining({ value: '010', displayValue: '010' })
+      );
+      expect(service.canUndo()).toBeFalse();
+    });
+
+    it('should leave out skipped columns and insert at the selected cell', () => {
+      service.updateCell(0, 0, 'keep');
+      service.selectCell({ row: 998, col: 24 });
+      service.importCsv(rows, { mode: 'insert', columnTypes: ['skip', 'general'] });
+
+      const sheet = service.getActiveSheet()!;
+      expect(sheet.rowCount).toBe(1001);
+      expect(sheet.colCount).toBe(27);
+      expect(sheet.rowHeights?.length).toBe(1001);
+      expect(service.getCell(998, 24)?.value).toBe('Score');
+      expect(service.getCell(999, 25)?.value).toBe(45292);
+      expect(service.getCell(1000, 26)?.value).toBe(10);
+      expect(service.getCell(0, 0)?.value).toBe('keep');
+    });
+
+    it('should replace the active sheet as one undo step', () => {
+      service.updateCell(5, 5, 'old');
+      service.mergeCells({ start: { row: 8, col: 0 }, end: { row: 8, col: 1 } });
+      service.importCsv(rows, { mode: 'replace' });
+
+      expect(service.getCell(5, 5)?.value).toBe('');
+      expect(service.getCell(1, 0)?.value).toBe('Ana');
+      expect(service.getActiveSheet()?.merges).toBeUndefined();
+
+      service.undo();
+      expect(service.getCell(5, 5)?.value).toBe('old');
+      expect(service.getCell(1, 0)?.value).toBe('');
+      expect(service.getActiveSheet()?.merges?.length).toBe(1);
+    });
+  });
+
+  describe('Export', () => {
+    it('should export the active sheet, a range or every sheet', () => {
+      service.updateCell(0, 0, 'Item');
+      service.updateCell(1, 0, 'Tea');
+      service.updateCell(1, 1, '=1+2');
+      service.addSheet('Empty');
+
+      const range = { start: { row: 1, col: 0 }, end: { row: 1, col: 1 } };
+      expect(service.exportActiveSheet({ format: 'csv' })?.content).toBe('Item,\r\nTea,3');
+      expect(service.exportActiveSheet({ format: 'csv', values: 'raw', range })?.content).toBe(
+        'Tea,=1+2'
+      );
+      expect(service.exportSheets({ format: 'tsv' }).map((file) => file.content)).toEqual([
+        'Item\t\r\nTea\t3',
+        '',
+      ]);
+    });
+  });
+
+  describe('Serialization', () => {
+    it('should save and restore the workbook', () => {
+      service.updateCell(0, 0, 20);
+      service.updateCell(0, 1, '=A1*2');
+      service.selectCell({ row: 0, col: 1 });
+
+      const json = service.serialize();
+      expect(JSON.parse(json).sheets[0].cells.length).toBe(2);
+
+      service.updateCell(0, 0, 1);
+      service.deserialize(json);
+
+      expect(service.getCell(0, 1)?.displayValue).toBe('40');
+      expect(service.getCell(0, 1)?.isSelected).toBeUndefined();
+      expect(service.canUndo()).toBeFalse();
+    });
+  });
+
+  describe('Reference Adjustment', () => {
+    beforeEach(() => {
+      for (let row = 0; row < 10; row++) {
+        service.updateCell(row, 0, row + 1);
+      }
+      service.updateCell(0, 2, '=SUM(A1:A10)');
+    });
+
+    it('should grow ranges when a row is inserted inside them', () => {
+      service.insertRow(2);
+      service.updateCell(2, 0, 100);
+
+      expect(service.getCell(0, 2)?.value).toBe('=SUM(A1:A11)');
+      expect(service.getCell(0, 2)?.displayValue).toBe('155');
+    });
+
+    it('should shift references when a column is inserted before them', () => {
+      service.insertColumn(0);
+      expect(service.getCell(0, 3)?.value).toBe('=SUM(B1:B10)');
+      expect(service.getCell(0, 3)?.displayValue).toBe('55');
+    });
+
+    it('should shrink ranges and return #REF! for deleted cells', () => {
+      service.updateCell(0, 3, '=A5*2');
+      service.deleteRow(4);
+
+      expect(service.getCell(0, 2)?.value).toBe('=SUM(A1:A9)');
+      expect(service.getCell(0, 2)?.displayValue).toBe('50');
+      expect(service.getCell(0, 3)?.value).toBe('=#REF!*2');
+      expect(service.getCell(0, 3)?.error).toBe('#REF!');
+    });
+
+    it('should return #REF! when a referenced column is deleted', () => {
+      service.deleteColumn(0);
+      expect(service.getCell(0, 1)?.value).toBe('=SUM(#REF!)');
+      expect(service.getCell(0, 1)?.displayValue).toBe('#REF!');
+    });
+
+    it('should adjust sheet-qualified references from other sheets only', () => {
+      service.addSheet('Summary');
+      service.setActiveSheet(1);
+      service.updateCell(0, 0, '=Sheet1!A5+A5');
+      service.setActiveSheet(0);
+
+      service.insertRow(0);
+
+      service.setActiveSheet(1);
+      expect(service.getCell(0, 0)?.value).toBe('=Sheet1!A6+A5');
+    });
+  });
+
   describe('Cell Styling', () => {
     it('should apply style to cell', () => {
       const style = {
@@ -327,6 +1431,29 @@ describe('SpreadsheetDataService', () => {
       expect(clipboard).toContain('Cell B1');
     });
 
+    it('should quote tabs and line breaks and read them back', () => {
+      service.updateCell(0, 0, 'a\nb');
+      service.updateCell(0, 1, 'c\td');
+      service.selectRange({ start: { row: 0, col: 0 }, end: { row: 1, col: 1 } });
+
+      const clipboard = service.copy();
+      expect(clipboard).toBe('"a\nb"\t"c\td"\n\t');
+
+      service.selectCell({ row: 3, col: 0 });
+      service.paste(clipboard);
+      expect(service.getCell(3, 0)?.value).toBe('a\nb');
+      expect(service.getCell(3, 1)?.value).toBe('c\td');
+    });
+
+    it('should keep blank lines of pasted text', () => {
+      service.selectCell({ row: 2, col: 0 });
+      service.paste('x\n\ny\n');
+
+      expect(service.getCell(2, 0)?.value).toBe('x');
+      expect(service.getCell(4, 0)?.value).toBe('y');
+      expect(service.getCell(5, 0)?.value).toBe('');
+    });
+
     describe('Multi-Cell Range Copy (TSV Format)', () => {
       it('should copy 2x2 range in TSV format', () => {
         service.updateCell(0, 0, 'A1');
@@ -486,6 +1613,65 @@ describe('SpreadsheetDataService', () => {
         expect(clipboard).toContain('123');
       });
     });
+
+    describe('Relative Reference Shifting', () => {
+      beforeEach(() => {
+        service.updateCell(0, 1, 10);
+        service.updateCell(1, 1, 20);
+        service.updateCell(0, 2, '=A1+B1');
+      });
+
+      it('should shift relative references by the paste offset', () => {
+        service.selectCell({ row: 0, col: 2 });
+        const clipboard = service.copy();
+
+        service.selectCell({ row: 1, col: 2 });
+        service.paste(clipboard);
+
+        expect(service.getCell(1, 2)?.value).toBe('=A2+B2');
+        expect(service.getCell(1, 2)?.displayValue).toBe('20');
+      });
+
+      it('should keep absolute rows and columns fixed', () => {
+        service.updateCell(0, 3, '=$A$1+$A1+A$1+B1');
+        service.selectCell({ row: 0, col: 3 });
+        const clipboard = service.copy();
+
+        service.selectCell({ row: 2, col: 4 });
+        service.paste(clipboard);
+
+        expect(service.getCell(2, 4)?.value).toBe('=$A$1+$A3+B$1+C3');
+      });
+
+      it('should shift every formula of a pasted range from its own position', () => {
+        service.updateCell(1, 2, '=SUM(B1:B2)');
+        service.selectRange({ start: { row: 0, col: 2 }, end: { row: 1, col: 2 } });
+        const clipboard = service.copy();
+
+        service.selectCell({ row: 3, col: 3 });
+        service.paste(clipboard);
+
+        expect(service.getCell(3, 3)?.value).toBe('=B4+C4');
+        expect(service.getCell(4, 3)?.value).toBe('=SUM(C4:C5)');
+      });
+
+      it('should return #REF! for references shifted off the sheet', () => {
+        service.updateCell(2, 2, '=A1');
+        service.selectCell({ row: 2, col: 2 });
+        const clipboard = service.copy();
+
+        service.selectCell({ row: 0, col: 2 });
+        service.paste(clipboard);
+
+        expect(service.getCell(0, 2)?.value).toBe('=#REF!');
+      });
+
+      it('should paste text copied elsewhere unchanged', () => {
+        service.selectCell({ row: 4, col: 4 });
+        service.paste('=A1+B1');
+        expect(service.getCell(4, 4)?.value).toBe('=A1+B1');
+      });
+    });
   });
 
   describe('Formula Recalculation', () => {
@@ -517,6 +1703,258 @@ describe('SpreadsheetDataService', () => {
       cell2 = service.getCell(2, 0);
       expect(cell2?.displayValue).toBe('20'); // (5*2)+10 = 20
     });
+
+    it('should propagate through chains longer than ten levels', () => {
+      service.updateCell(0, 0, 1);
+      for (let row = 1; row < 25; row++) {
+        service.updateCell(row, 0, `=A${row}+1`);
+      }
+      expect(service.getCell(24, 0)?.displayValue).toBe('25');
+
+      service.updateCell(0, 0, 100);
+      expect(service.getCell(24, 0)?.displayValue).toBe('124');
+    });
+
+    it('should recalculate formulas that reference a range', () => {
+      service.updateCell(0, 1, '=SUM(A1:A5)');
+      service.updateCell(3, 0, 7);
+      expect(service.getCell(0, 1)?.displayValue).toBe('7');
+    });
+
+    it('should only recalculate dependents of the changed cell', () => {
+      service.updateCell(0, 0, 1);
+      service.updateCell(0, 1, '=A1*2');
+      service.updateCell(5, 5, '=10+1');
+
+      const spy = spyOn(formulaService, 'evaluate').and.callThrough();
+      service.updateCell(0, 0, 3);
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(service.getCell(0, 1)?.displayValue).toBe('6');
+    });
+
+    it('should stop recalculating a cell once its formula is replaced', () => {
+      service.updateCell(0, 1, '=A1+1');
+      service.updateCell(0, 1, 'plain');
+      service.updateCell(0, 0, 5);
+      expect(service.getCell(0, 1)?.displayValue).toBe('plain');
+    });
+
+    it('should recalculate dependents on undo and redo', () => {
+      service.updateCell(0, 0, 2);
+      service.updateCell(0, 1, '=A1*10');
+      service.updateCell(0, 0, 4);
+      expect(service.getCell(0, 1)?.displayValue).toBe('40');
+
+      service.undo();
+      expect(service.getCell(0, 1)?.displayValue).toBe('20');
+
+      service.redo();
+      expect(service.getCell(0, 1)?.displayValue).toBe('40');
+    });
+
+    it('should keep dependencies after inserting a row', () => {
+      service.updateCell(0, 0, 2);
+      service.updateCell(2, 0, '=A1*3');
+      service.insertRow(5);
+      service.updateCell(0, 0, 4);
+      expect(service.getCell(2, 0)?.displayValue).toBe('12');
+    });
+
+    it('should evaluate formulas in loaded data regardless of their position', () => {
+      const data = service.getData();
+      const sheet = data.sheets[0];
+      const cells = toDenseCells(sheet);
+      cells[0][0] = { ...cells[0][0], value: '=A2+1' };
+      cells[1][0] = { ...cells[1][0], value: '=A3+1' };
+      cells[2][0] = { ...cells[2][0], value: 1 };
+
+      service.loadData({ ...data, sheets: [{ ...sheet, cells }] });
+      expect(service.getCell(0, 0)?.displayValue).toBe('3');
+
+      service.updateCell(2, 0, 10);
+      expect(service.getCell(0, 0)?.displayValue).toBe('12');
+    });
+  });
+
+  describe('Cross-Sheet References', () => {
+    beforeEach(() => {
+      service.addSheet('Raw Data');
+      service.setActiveSheet(1);
+      service.updateCell(0, 0, 10);
+      service.updateCell(1, 0, 20);
+      service.setActiveSheet(0);
+    });
+
+    it('should evaluate references to other sheets, including quoted names', () => {
+      service.updateCell(0, 0, "=SUM('Raw Data'!A1:A2)");
+      service.updateCell(0, 1, "='raw data'!A2*2");
+      expect(service.getCell(0, 0)?.displayValue).toBe('30');
+      expect(service.getCell(0, 1)?.displayValue).toBe('40');
+    });
+
+    it('should propagate changes across sheets', () => {
+      service.updateCell(0, 0, "='Raw Data'!A1+1");
+
+      service.setActiveSheet(1);
+      service.updateCell(0, 0, 99);
+      service.setActiveSheet(0);
+
+      expect(service.getCell(0, 0)?.displayValue).toBe('100');
+    });
+
+    it('should show #REF! for references to a missing sheet', () => {
+      service.updateCell(0, 0, '=Missing!A1');
+      expect(service.getCell(0, 0)?.displayValue).toBe('#REF!');
+    });
+
+    it('should resolve a reference once the sheet is added', () => {
+      service.updateCell(0, 0, '=Later!A1+5');
+      service.addSheet('Later');
+      expect(service.getCell(0, 0)?.displayValue).toBe('5');
+    });
+
+    it('should update references when a sheet is renamed', () => {
+      service.updateCell(0, 0, "='Raw Data'!A1");
+      service.renameSheet(1, 'Inputs');
+
+      expect(service.getCell(0, 0)?.value).toBe('=Inputs!A1');
+      expect(service.getCell(0, 0)?.displayValue).toBe('10');
+    });
+
+    it('should give added sheets unique names', () => {
+      service.addSheet();
+      service.deleteSheet(1);
+      service.addSheet();
+      service.addSheet('SHEET1');
+      expect(service.getSheets().map((sheet) => sheet.name)).toEqual([
+        'Sheet1',
+        'Sheet3',
+        'Sheet3 (2)',
+        'SHEET1 (2)',
+      ]);
+
+      service.setActiveSheet(1);
+      service.updateCell(0, 0, 7);
+      service.setActiveSheet(0);
+      service.updateCell(0, 0, '=Sheet3!A1');
+      expect(service.getCell(0, 0)?.displayValue).toBe('7');
+    });
+
+    it('should not rename a sheet to an existing name', () => {
+      service.renameSheet(1, 'SHEET1');
+      expect(service.getSheets()[1].name).toBe('Raw Data');
+    });
+
+    it('should turn references to a deleted sheet into #REF!', () => {
+      service.updateCell(0, 0, "='Raw Data'!A1+1");
+      service.deleteSheet(1);
+
+      expect(service.getCell(0, 0)?.value).toBe('=#REF!+1');
+      expect(service.getCell(0, 0)?.displayValue).toBe('#REF!');
+    });
+
+    it('should detect cycles that span sheets', () => {
+      service.updateCell(0, 0, "='Raw Data'!B1");
+      service.setActiveSheet(1);
+      service.updateCell(0, 1, '=Sheet1!A1');
+
+      expect(service.getCell(0, 1)?.displayValue).toBe('#CIRC!');
+      expect(service.getCell(0, 1)?.error).toBe(
+        "Circular reference: 'Raw Data'!B1 → Sheet1!A1 → 'Raw Data'!B1"
+      );
+    });
+  });
+
+  describe('Error Values', () => {
+    it('should store formula errors as typed error cells', () => {
+      service.updateCell(0, 0, '=1/0');
+
+      const a1 = service.getCell(0, 0);
+      expect(a1?.dataType).toBe('error');
+      expect(a1?.error).toBe('#DIV/0!');
+      expect(a1?.displayValue).toBe('#DIV/0!');
+    });
+
+    it('should propagate errors to dependents and clear them once fixed', () => {
+      service.updateCell(0, 0, '=1/0');
+      service.updateCell(0, 1, '=A1*2');
+      expect(service.getCell(0, 1)?.error).toBe('#DIV/0!');
+
+      service.updateCell(0, 0, 4);
+      const b1 = service.getCell(0, 1);
+      expect(b1?.displayValue).toBe('8');
+      expect(b1?.dataType).toBe('formula');
+      expect(b1?.error).toBeUndefined();
+    });
+
+    it('should treat typed error literals as error values', () => {
+      service.updateCell(0, 0, '#n/a');
+      service.updateCell(0, 1, '=ISNA(A1)');
+
+      const a1 = service.getCell(0, 0);
+      expect(a1?.dataType).toBe('error');
+      expect(a1?.error).toBe('#N/A');
+      expect(a1?.displayValue).toBe('#N/A');
+      expect(service.getCell(0, 1)?.displayValue).toBe('TRUE');
+    });
+  });
+
+  describe('Circular References', () => {
+    it('should mark every cell in a cycle with #CIRC! and its own path', () => {
+      service.updateCell(0, 0, '=B1+1');
+      service.updateCell(0, 1, '=C1+1');
+      service.updateCell(0, 2, '=A1+1');
+
+      const a1 = service.getCell(0, 0);
+      const b1 = service.getCell(0, 1);
+      expect(a1?.displayValue).toBe('#CIRC!');
+      expect(a1?.dataType).toBe('error');
+      expect(a1?.error).toBe('Circular reference: A1 → B1 → C1 → A1');
+      expect(b1?.error).toBe('Circular reference: B1 → C1 → A1 → B1');
+      expect(service.getCell(0, 2)?.displayValue).toBe('#CIRC!');
+    });
+
+    it('should report a cell that references itself', () => {
+      service.updateCell(0, 0, '=SUM(A1:A3)');
+      expect(service.getCell(0, 0)?.displayValue).toBe('#CIRC!');
+      expect(service.getCell(0, 0)?.error).toBe('Circular reference: A1 → A1');
+    });
+
+    it('should clear the error once the cycle is broken', () => {
+      service.updateCell(0, 0, '=B1');
+      service.updateCell(0, 1, '=A1');
+      service.updateCell(0, 1, 7);
+
+      const a1 = service.getCell(0, 0);
+      expect(a1?.displayValue).toBe('7');
+      expect(a1?.dataType).toBe('formula');
+      expect(a1?.error).toBeUndefined();
+    });
+
+    it('should converge when iterative calculation is enabled', () => {
+      service.setCalculationSettings({ iterative: true, maxIterations: 100, maxChange: 0.0001 });
+      service.updateCell(0, 0, '=A1/2+1');
+
+      const value = Number(service.getCell(0, 0)?.displayValue);
+      expect(value).toBeCloseTo(2, 3);
+      expect(service.getCell(0, 0)?.error).toBeUndefined();
+    });
+
+    it('should stop iterating at the maximum iteration count', () => {
+      service.setCalculationSettings({ iterative: true, maxIterations: 3, maxChange: 0 });
+      service.updateCell(0, 0, '=A1+1');
+      expect(service.getCell(0, 0)?.displayValue).toBe('3');
+    });
+
+    it('should recalculate existing cycles when the settings change', () => {
+      service.updateCell(0, 0, '=A1+1');
+      expect(service.getCell(0, 0)?.displayValue).toBe('#CIRC!');
+
+      service.setCalculationSettings({ iterative: true, maxIterations: 5 });
+      expect(service.getCell(0, 0)?.displayValue).toBe('5');
+      expect(service.getCalculationSettings().maxIterations).toBe(5);
+    });
   });
 
   describe('Active Sheet', () => {
@@ -553,4 +1991,92 @@ describe('SpreadsheetDataService', () => {
       expect(editing).toBeNull();
     });
   });
+
+  describe('Large Sheets', () => {
+    const rowCount = 100_000;
+    const colCount = 50;
+    const time = (action: () => void) => {
+      const start = performance.now();
+      action();
+      return performance.now() - start;
+    };
+
+    beforeEach(() => {
+      const sheet = createEmptySheet({ name: 'Large', rowCount, colCount });
+      sheet.isActive = true;
+      sheet.cells = setSheetCells(
+        sheet.cells,
+        Array.from({ length: rowCount }, (_, row) => ({
+          row,
+          col: 0,
+          value: 1,
+          displayValue: '1',
+          dataType: 'number' as const,
+        }))
+      );
+      sheet.cells = setSheetCells(sheet.cells, [
+        { row: 0, col: 1, value: `=SUM(A1:A${rowCount})` },
+      ]);
+
+      const elapsed = time(() => service.loadData({ sheets: [sheet], activeSheetIndex: 0 }));
+      expect(elapsed).toBeLessThan(5000);
+    });
+
+    it('should load and edit a long chain of running totals', () => {
+      const sheet = createEmptySheet({ name: 'Totals', rowCount: 20_000, colCount: 2 });
+      sheet.cells = setSheetCells(sheet.cells, [
+        { row: 0, col: 0, value: 1 },
+        ...Array.from({ length: 19_999 }, (_, index) => ({
+          row: index + 1,
+          col: 0,
+          value: `=A${index + 1}+1`,
+        })),
+      ]);
+
+      service.loadData({ sheets: [sheet], activeSheetIndex: 0 });
+      expect(service.getCell(19_999, 0)?.computedValue).toBe(20_000);
+
+      service.updateCell(0, 0, 5);
+      expect(service.getCell(19_999, 0)?.computedValue).toBe(20_004);
+    });
+
+    it('should only store cells that hold something', () => {
+      const cells = service.getActiveSheet()!.cells;
+
+      expect(cells.length).toBe(rowCount);
+      expect(cells.reduce((count, row) => count + (row?.filter(Boolean).length ?? 0), 0)).toBe(
+        rowCount + 1
+      );
+      expect(service.getCell(rowCount - 1, colCount - 1)).toEqual(
+        jasmine.objectContaining({ row: rowCount - 1, col: colCount - 1, value: '' })
+      );
+      expect(service.getCell(0, 1)?.computedValue).toBe(rowCount);
+    });
+
+    it('should update cells and recalculate formulas quickly', () => {
+      const elapsed = time(() => {
+        for (let col = 2; col < 12; col++) {
+          service.updateCell(rowCount - 1, col, col);
+        }
+        service.updateCell(5, 0, 11);
+      });
+
+      expect(elapsed).toBeLessThan(3000);
+      expect(service.getCell(0, 1)?.computedValue).toBe(rowCount + 10);
+      expect(service.getCell(rowCount - 1, 11)?.value).toBe(11);
+    });
+
+    it('should insert and delete rows and columns quickly', () => {
+      const elapsed = time(() => {
+        service.insertRow(0);
+        service.insertColumn(0);
+        service.deleteRow(0);
+        service.deleteColumn(0);
+      });
+
+      expect(elapsed).toBeLessThan(5000);
+      expect(service.getActiveSheet()!.rowCount).toBe(rowCount);
+      expect(getSheetCell(service.getActiveSheet()!, 0, 1)?.value).toBe(`=SUM(A1:A${rowCount})`);
+    });
+  });
 });
@@ -2,39 +2,138 @@ import { Injectable, inject } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
 import {
+  AutoFilter,
+  CalculationSettings,
   Cell,
   CellAddress,
+  CellComment,
   CellRange,
+  CellStyle,
+  ColumnFilter,
+  ConditionalFormatResult,
+  ConditionalFormatRule,
+  CsvImportOptions,
+  DEFAULT_CALCULATION_SETTINGS,
+  DataValidationRule,
+  DataValidationViolation,
+  DefinedName,
+  ExportOptions,
+  ExportedFile,
+  FindMatch,
+  FindOptions,
   Sheet,
+  SheetCells,
+  SortOptions,
   SpreadsheetData,
+  cellAddressToA1,
+  cellRangeToA1,
+  compactCells,
+  createCommentEntry,
   createDefaultSpreadsheet,
   createEmptyCell,
   createEmptySheet,
+  formatSheetName,
+  generateDataValidationId,
+  generateDefinedNameId,
+  getSheetCell,
+  mapSheetCells,
+  moveSheetCells,
+  setSheetCells,
 } from '../models';
+import {
+  DependencyGraph,
+  GraphCell,
+  GraphRange,
+  ReferenceTransform,
+  adjustReferenceForDelete,
+  adjustReferenceForInsert,
+  renameFormulaName,
+  shiftFormulaReferences,
+  toFormulaErrorCode,
+  transformFormulaReferences,
+} from '../formula';
+import { FillDirection, extendSeries, getDefaultFillMode, getSourceIndex } from '../fill';
+import { getColumnFilterValues, getFilteredRows } from '../filter';
+import { detectHeaderRow, getSortedRows } from '../sort';
+import { createSearchPattern, findInSheet, getSearchText, replaceMatches } from '../find';
+import {
+  expandRangeToMerges,
+  getMergeAreas,
+  getMergeAt,
+  isSingleCell,
+  normalizeRange,
+  rangesIntersect,
+} from '../merge';
+import { evaluateConditionalFormats } from '../conditional-format';
+import { getDataValidationAt, getListValues, isValidCell, subtractRange } from '../validation';
+import { findDefinedName, getDefinedNameError, parseNameReference } from '../names';
+import { XlsxExportResult, readXlsx, writeXlsx } from '../xlsx';
+import { CsvValue, convertCsvValue, formatCsv, parseCsv } from '../csv';
+import { exportSheet, exportWorkbook } from '../export';
+import {
+  DeserializeOptions,
+  SerializedWorkbook,
+  deserializeWorkbook,
+  serializeWorkbook,
+} from '../serialization';
+import {
+  DateInput,
+  FormattedValue,
+  dateToSerial,
+  formatValue,
+  getNumberFormatPattern,
+  isDateFormat,
+  parseDateInput,
+  serialToDate,
+} from '../format';
 import { FormulaService } from './formula.service';
 
+const NUMERIC_TEXT_PATTERN = /^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/;
+
 /**
  * Represents a single change in spreadsheet history for undo/redo
  */
 interface HistoryEntry {
-  type: 'cell-update' | 'cell-style' | 'row-height' | 'col-width' | 'row-reorder' | 'col-reorder';
+  type:
+    | 'cell-update'
+    | 'cell-style'
+    | 'row-height'
+    | 'col-width'
+    | 'row-reorder'
+    | 'col-reorder'
+    | 'sheet-snapshot'
+    | 'batch';
   sheetId: string;
   row?: number;
   col?: number;
   oldValue?: any;
   newValue?: any;
+  oldStyle?: CellStyle | null;  // Styles around a cell-update that applied a date format
+  newStyle?: CellStyle | null;
   fromIndex?: number;  // For reordering operations
   toIndex?: number;    // For reordering operations
+  entries?: HistoryEntry[];  // For batches, undone and redone as one step
   timestamp: number;
 }
 
+/**
+ * Cells, hidden rows and merged cells of a sheet, recorded as the old and new value of a
+ * sheet-snapshot entry around operations that change many cells at once (e.g. sorting)
+ */
+interface SheetSnapshot {
+  cells: SheetCells;
+  hiddenRows?: number[];
+  merges?: CellRange[];
+}
+
 /**
  * Service responsible for managing spreadsheet data state.
  * Handles all data operations, state management, and provides reactive streams.
+ *
+ * Not provided in root: each SpreadsheetComponent creates its own instance unless an
+ * ancestor provides one (see provideSpreadsheetStore).
  */
-@Injectable({
-  providedIn: 'root',
-})
+@Injectable()
 export class SpreadsheetDataService {
   private readonly _data$ = new BehaviorSubject<SpreadsheetData>(
     createDefaultSpreadsheet()
@@ -57,6 +156,12 @@ export class SpreadsheetDataService {
   private redoStack: HistoryEntry[] = [];
   private readonly MAX_HISTORY = 100;
 
+  // Entries collected by recordAsOneStep, or null outside a batch
+  private batchEntries: HistoryEntry[] | null = null;
+
+  // Where the last copied block came from, so pasting it can shift relative references
+  private clipboardSource: { text: string; row: number; col: number } | null = null;
+
   // Public observables
   public readonly data$: Observable<SpreadsheetData> =
     this._data$.asObservable();
@@ -73,6 +178,20 @@ export class SpreadsheetDataService {
 
   private formulaService = inject(FormulaService);
 
+  // Precedent/dependent links between formula cells, keyed by sheet id
+  private readonly dependencyGraph = new DependencyGraph();
+
+  // Conditional formatting of the active sheet, evaluated again when the workbook changes
+  private conditionalFormatCache: {
+    sheets: Sheet[];
+    sheet: Sheet;
+    results: (ConditionalFormatResult | undefined)[][];
+  } | null = null;
+
+  // Cells of the active sheet whose content breaks their data validation rule ('row:col')
+  private invalidCellsCache: { sheets: Sheet[]; sheet: Sheet; cells: Set<string> } | null =
+    null;
+
   constructor() {}
 
   /**
@@ -91,39 +210,57 @@ export class SpreadsheetDataService {
   }
 
   /**
-   * Gets a specific cell from the active sheet
+   * Gets a specific cell from the active sheet. Cells that hold nothing are created empty
+   * (see getSheetCell); returns null outside the sheet.
    */
   getCell(row: number, col: number): Cell | null {
     const sheet = this.getActiveSheet();
     if (!sheet) return null;
 
-    if (
-      row < 0 ||
-      row >= sheet.rowCount ||
-      col < 0 ||
-      col >= sheet.colCount
-    ) {
-      return null;
+    return getSheetCell(sheet, row, col);
+  }
+
+  /**
+   * Renders a value with a cell's number format (see formatValue).
+   * Numeric text is formatted as a number unless the cell uses the text format (@).
+   */
+  private applyNumberFormat(
+    value: any,
+    style?: CellStyle,
+    locale = this.getData().locale
+  ): FormattedValue {
+    const pattern = getNumberFormatPattern(style);
+    if (typeof value === 'string' && pattern !== 'General' && pattern !== '@' &&
+        NUMERIC_TEXT_PATTERN.test(value)) {
+      value = parseFloat(value);
     }
+    return formatValue(value, pattern, { locale });
+  }
 
-    return sheet.cells[row]?.[col] ?? null;
+  /**
+   * Renders a value as text with a cell's number format
+   */
+  private formatDisplayValue(
+    value: any,
+    style?: CellStyle,
+    locale = this.getData().locale
+  ): string {
+    return this.applyNumberFormat(value, style, locale).text;
   }
 
   /**
-   * Formats a number value based on decimal places
+   * Renders the display value of a cell from its value, or its cached result for formulas.
+   * Error values are shown as their code.
    */
-  private formatNumberValue(value: any, decimalPlaces?: number): string {
-    if (typeof value !== 'number') {
-      return String(value);
+  private formatCell(cell: Cell, locale = this.getData().locale): string {
+    if (cell.dataType === 'error') {
+      return cell.displayValue ?? '';
     }
-
-    // If decimalPlaces is specified, format with that precision
-    if (decimalPlaces !== undefined && decimalPlaces >= 0) {
-      return value.toFixed(decimalPlaces);
+    const value = this.isFormula(cell.value) ? cell.computedValue : cell.value;
+    if (typeof value === 'boolean') {
+      return String(value);
     }
-
-    // Otherwise return the number as-is
-    return String(value);
+    return this.formatDisplayValue(value, cell.style, locale);
   }
 
   /**
@@ -136,6 +273,32 @@ export class SpreadsheetDataService {
     const cell = this.getCell(row, col);
     if (!cell) return;
 
+    this.updateCellValue(row, col, value);
+  }
+
+  /**
+   * Updates a cell value in the active sheet and records it for undo.
+   * `dateFormat` marks a number or Date as a date and is applied when the cell
+   * has no date format yet.
+   */
+  private updateCellValue(row: number, col: number, value: any, dateFormat?: string): void {
+    const sheet = this.getActiveSheet();
+    if (!sheet) return;
+
+    const cell = this.getCell(row, col);
+    if (!cell) return;
+
+    const updatedSheets = this.applyCellValue(
+      this.getSheets(),
+      sheet.id,
+      row,
+      col,
+      value,
+      dateFormat
+    );
+    const updatedSheet = updatedSheets.find((s) => s.id === sheet.id);
+    const updatedStyle = updatedSheet && getSheetCell(updatedSheet, row, col)?.style;
+
     // Store for undo
     this.addToHistory({
       type: 'cell-update',
@@ -144,38 +307,87 @@ export class SpreadsheetDataService {
       col,
       oldValue: cell.value,
       newValue: value,
+      ...(updatedStyle !== cell.style && {
+        oldStyle: cell.style ?? null,
+        newStyle: updatedStyle ?? null,
+      }),
       timestamp: Date.now(),
     });
 
+    this.updateSheets(updatedSheets);
+  }
+
+  /**
+   * Writes a value into a sheet and recalculates only the formulas that depend on it,
+   * on any sheet. Returns the updated sheets; does not record history.
+   */
+  private applyCellValue(
+    sheets: Sheet[],
+    sheetId: string,
+    row: number,
+    col: number,
+    value: any,
+    dateFormat?: string
+  ): Sheet[] {
+    const sheet = sheets.find((s) => s.id === sheetId);
+    if (!sheet) return sheets;
+
+    const cell = getSheetCell(sheet, row, col);
+    if (!cell) return sheets;
+    const updatedCells = setSheetCells(sheet.cells, [
+      this.createCellWithValue(cell, value, dateFormat),
+    ]);
+
+    const updatedSheets = sheets.map((s) =>
+      s.id === sheetId ? { ...sheet, cells: updatedCells } : s
+    );
+
+    // Recalculate the edited cell (if it is a formula) and everything downstream of it
+    this.trackDependencies(updatedSheets, sheetId, row, col, value);
+    const chain = this.dependencyGraph.getCalculationChain([{ sheetId, row, col }]);
+
+    return this.recalculateCells(updatedSheets, chain);
+  }
+
+  /**
+   * Builds the cell a value turns into when it is written to a cell: dates become serial
+   * numbers with a date format, and the data type and displayed value are set.
+   * Formulas are left to be evaluated by the caller.
+   */
+  private createCellWithValue(cell: Cell, value: any, dateFormat?: string): Cell {
+    let style = cell.style;
+
+    // Dates are stored as serial numbers and shown with a date format, as in Excel
+    const date = this.toDateValue(value, style, dateFormat);
+    if (date) {
+      value = date.serial;
+      if (!isDateFormat(getNumberFormatPattern(style))) {
+        style = { ...style, numberFormatPattern: date.format };
+      }
+    }
+
     // Determine data type
     let dataType: Cell['dataType'] = 'string';
     let displayValue: string;
+    const errorCode = typeof value === 'string' ? toFormulaErrorCode(value) : null;
 
-    if (typeof value === 'string' && value.startsWith('=')) {
+    if (this.isFormula(value)) {
+      // Evaluated below together with its dependents
       dataType = 'formula';
-      // Evaluate the formula
-      try {
-        const result = this.formulaService.evaluateFormula(
-          value,
-          sheet.cells,
-          row,
-          col
-        );
-        // Format the result if it's a number
-        displayValue = this.formatNumberValue(result, cell.style?.decimalPlaces);
-      } catch {
-        displayValue = '#ERROR!';
-        dataType = 'error';
-      }
+      displayValue = cell.displayValue ?? '';
     } else if (typeof value === 'number') {
-      dataType = 'number';
-      // Apply decimal formatting if specified in cell style
-      displayValue = this.formatNumberValue(value, cell.style?.decimalPlaces);
+      dataType = isDateFormat(getNumberFormatPattern(style)) ? 'date' : 'number';
+      // Apply the cell's number format
+      displayValue = this.formatDisplayValue(value, style);
     } else if (typeof value === 'boolean') {
       dataType = 'boolean';
       displayValue = String(value);
+    } else if (errorCode) {
+      // Typed error literals such as #N/A are error values, as in Excel
+      dataType = 'error';
+      displayValue = errorCode;
     } else {
-      displayValue = String(value);
+      displayValue = this.formatDisplayValue(value, style);
     }
 
     // Update cell
@@ -184,84 +396,492 @@ export class SpreadsheetDataService {
       value,
       displayValue,
       dataType,
+      style,
     };
+    if (!style) {
+      delete updatedCell.style;
+    }
+    delete updatedCell.computedValue;
+    delete updatedCell.error;
+    if (dataType === 'error') {
+      updatedCell.error = displayValue;
+    }
 
-    // Update the sheet
-    const updatedCells = [...sheet.cells];
-    updatedCells[row] = [...updatedCells[row]];
-    updatedCells[row][col] = updatedCell;
+    return updatedCell;
+  }
 
-    let updatedSheet: Sheet = {
-      ...sheet,
-      cells: updatedCells,
+  /**
+   * Recognizes a date value: a Date, a number marked with a date format, or text typed
+   * as a date or time (in the workbook's locale). Cells formatted as text ('@') keep
+   * typed text as-is. Returns null for anything else.
+   */
+  private toDateValue(value: any, style?: CellStyle, dateFormat?: string): DateInput | null {
+    if (value instanceof Date) {
+      const serial = dateToSerial(value);
+      if (isNaN(serial)) return null;
+      const format = Number.isInteger(serial) ? 'yyyy-mm-dd' : 'yyyy-mm-dd hh:mm:ss';
+      return { serial, format: dateFormat ?? format };
+    }
+    if (typeof value === 'number') {
+      return dateFormat ? { serial: value, format: dateFormat } : null;
+    }
+    if (typeof value !== 'string' || this.isFormula(value)) return null;
+    if (getNumberFormatPattern(style) === '@') return null;
+
+    return parseDateInput(value, this.getData().locale);
+  }
+
+  /**
+   * Checks whether a raw cell value is a formula
+   */
+  private isFormula(value: any): value is string {
+    return typeof value === 'string' && value.startsWith('=');
+  }
+
+  /**
+   * Registers the references of a cell in the dependency graph,
+   * or removes the cell from the graph when it no longer holds a formula.
+   * References to sheets that do not exist are left out (they evaluate to #REF!).
+   */
+  private trackDependencies(
+    sheets: Sheet[],
+    sheetId: string,
+    row: number,
+    col: number,
+    value: any,
+    names: DefinedName[] = this.getDefinedNames()
+  ): void {
+    const graphCell = { sheetId, row, col };
+    if (!this.isFormula(value)) {
+      this.dependencyGraph.remove(graphCell);
+      return;
+    }
+
+    const precedents: GraphRange[] = [];
+    for (const range of this.formulaService.getReferences(value, names, sheetId)) {
+      const targetId =
+        range.sheet === undefined ? sheetId : this.findSheetByName(sheets, range.sheet)?.id;
+      if (targetId !== undefined) {
+        precedents.push(DependencyGraph.toGraphRange(targetId, range));
+      }
+    }
+    this.dependencyGraph.setPrecedents(graphCell, precedents);
+  }
+
+  /**
+   * Finds a sheet by name, ignoring case like formula references do
+   */
+  private findSheetByName(sheets: Sheet[], name: string): Sheet | undefined {
+    const lowerName = name.toLowerCase();
+    return sheets.find((sheet) => sheet.name.toLowerCase() === lowerName);
+  }
+
+  /**
+   * Evaluates formula cells group by group in calculation-chain order, writing each
+   * result into working copies of the sheets before its dependents read it.
+   * Sheets touched by the chain get a copied cells array; rows are copied on write.
+   * Circular groups either iterate or are marked #CIRC!, depending on the settings.
+   */
+  private recalculateCells(
+    sheets: Sheet[],
+    chain: GraphCell[][],
+    settings: CalculationSettings = this.getCalculationSettings(),
+    names: DefinedName[] = this.getDefinedNames()
+  ): Sheet[] {
+    const touched = new Set(chain.flat().map((cell) => cell.sheetId));
+    const workingSheets = sheets.map((sheet) =>
+      touched.has(sheet.id) ? { ...sheet, cells: sheet.cells.slice() } : sheet
+    );
+
+    for (const component of chain) {
+      const isCircular =
+        component.length > 1 ||
+        this.dependencyGraph.getCyclePath(component[0], component) !== null;
+
+      if (!isCircular) {
+        this.evaluateFormulaCell(workingSheets, component[0], names);
+      } else if (settings.iterative) {
+        this.iterateCircularCells(workingSheets, component, settings, names);
+      } else {
+        this.markCircularCells(workingSheets, component);
+      }
+    }
+    return workingSheets;
+  }
+
+  /**
+   * Evaluates a single formula cell into the working sheets and returns its new result
+   */
+  private evaluateFormulaCell(
+    sheets: Sheet[],
+    target: GraphCell,
+    names: DefinedName[]
+  ): string | number | undefined {
+    const { row, col } = target;
+    const cells = sheets.find((sheet) => sheet.id === target.sheetId)?.cells;
+    const cellsInRow = cells?.[row];
+    const cell = cellsInRow?.[col];
+    if (!cells || !cellsInRow || !cell || !this.isFormula(cell.value)) return undefined;
+
+    const result = this.formulaService.evaluate(cell.value, cells, row, col, sheets, names);
+
+    // Formulas returning dates (=TODAY()) give unformatted cells a date format, as in Excel
+    let style = cell.style;
+    if (result.numberFormat && getNumberFormatPattern(style) === 'General') {
+      style = { ...style, numberFormatPattern: result.numberFormat };
+    }
+
+    const updatedCell: Cell = {
+      ...cell,
+      computedValue: result.value,
+      // Errors show their code; other results are rendered with the cell's number format
+      displayValue: result.error
+        ? String(result.value)
+        : this.formatDisplayValue(result.value, style),
+      dataType: result.error ? 'error' : 'formula',
     };
+    if (style) {
+      updatedCell.style = style;
+    }
+    if (result.error) {
+      updatedCell.error = result.error;
+    } else {
+      delete updatedCell.error;
+    }
 
-    // Recalculate ALL formulas since other cells might reference this one
-    updatedSheet = this.recalculateFormulasInSheet(updatedSheet);
+    const updatedRow = cellsInRow.slice();
+    updatedRow[col] = updatedCell;
+    cells[row] = updatedRow;
+    return result.value;
+  }
 
-    this.updateSheet(updatedSheet);
+  /**
+   * Marks every cell of a circular group with #CIRC! and stores its own cycle path.
+   * Paths that cross sheets are written with sheet names (Sheet2!A1 → Sheet1!B1 → Sheet2!A1).
+   */
+  private markCircularCells(sheets: Sheet[], component: GraphCell[]): void {
+    const crossesSheets = component.some((member) => member.sheetId !== component[0].sheetId);
+    const formatStep = (step: GraphCell) => {
+      const address = cellAddressToA1(step);
+      const sheetName = sheets.find((sheet) => sheet.id === step.sheetId)?.name;
+      return crossesSheets && sheetName ? `${formatSheetName(sheetName)}!${address}` : address;
+    };
+
+    for (const member of component) {
+      const cells = sheets.find((sheet) => sheet.id === member.sheetId)?.cells;
+      const cellsInRow = cells?.[member.row];
+      const cell = cellsInRow?.[member.col];
+      if (!cells || !cellsInRow || !cell) continue;
+
+      const path = this.dependencyGraph.getCyclePath(member, component) ?? [member, member];
+
+      const updatedRow = cellsInRow.slice();
+      updatedRow[member.col] = {
+        ...cell,
+        computedValue: '#CIRC!',
+        displayValue: '#CIRC!',
+        dataType: 'error',
+        error: `Circular reference: ${path.map(formatStep).join(' → ')}`,
+      };
+      cells[member.row] = updatedRow;
+    }
   }
 
   /**
-   * Recalculates all formulas in a single sheet
-   */
-  private recalculateFormulasInSheet(sheet: Sheet): Sheet {
-    // Create a working copy of cells
-    let workingCells = sheet.cells.map(row => [...row]);
-
-    // Recalculate all formulas (do multiple passes to handle dependencies)
-    // Maximum of 10 passes to avoid infinite loops
-    for (let pass = 0; pass < 10; pass++) {
-      let hasChanges = false;
-
-      workingCells = workingCells.map((row, rowIndex) =>
-        row.map((cell, colIndex) => {
-          if (
-            typeof cell.value === 'string' &&
-            cell.value.startsWith('=')
-          ) {
-            try {
-              const result = this.formulaService.evaluateFormula(
-                cell.value,
-                workingCells,
-                rowIndex,
-                colIndex
-              );
-              // Format the result if it's a number
-              const newDisplayValue = this.formatNumberValue(result, cell.style?.decimalPlaces);
-
-              // Check if value changed
-              if (cell.displayValue !== newDisplayValue) {
-                hasChanges = true;
-              }
-
-              return {
-                ...cell,
-                displayValue: newDisplayValue,
-                dataType: 'formula' as Cell['dataType'],
-              };
-            } catch {
-              return {
-                ...cell,
-                displayValue: '#ERROR!',
-                dataType: 'error' as Cell['dataType'],
-              };
-            }
-          }
-          return cell;
-        })
-      );
+   * Resolves a circular group by repeated evaluation, starting from the previous
+   * results (or 0), until values converge or the iteration limit is reached
+   */
+  private iterateCircularCells(
+    sheets: Sheet[],
+    component: GraphCell[],
+    settings: CalculationSettings,
+    names: DefinedName[]
+  ): void {
+    const cellsOf = (member: GraphCell) =>
+      sheets.find((sheet) => sheet.id === member.sheetId)!.cells;
+
+    for (const member of component) {
+      const cells = cellsOf(member);
+      const cellsInRow = cells[member.row];
+      const cell = cellsInRow?.[member.col];
+      if (!cellsInRow || !cell) continue;
+
+      if (cell.computedValue === undefined || cell.dataType === 'error') {
+        const seeded: Cell = { ...cell, computedValue: 0, dataType: 'formula' };
+        delete seeded.error;
+        const updatedRow = cellsInRow.slice();
+        updatedRow[member.col] = seeded;
+        cells[member.row] = updatedRow;
+      }
+    }
+
+    for (let iteration = 0; iteration < settings.maxIterations; iteration++) {
+      let maxChange = 0;
 
-      // If no changes in this pass, we're done
-      if (!hasChanges) {
+      for (const member of component) {
+        const previous = cellsOf(member)[member.row]?.[member.col]?.computedValue;
+        const result = this.evaluateFormulaCell(sheets, member, names);
+
+        const change =
+          typeof previous === 'number' && typeof result === 'number'
+            ? Math.abs(result - previous)
+            : previous === result
+              ? 0
+              : Infinity;
+        maxChange = Math.max(maxChange, change);
+      }
+
+      if (maxChange <= settings.maxChange) {
         break;
       }
     }
+  }
 
-    return {
+  /**
+   * Rebuilds the dependency graph and recalculates every formula in the workbook.
+   * Used after loading and after structural changes that move cells or sheets around.
+   */
+  private recalculateWorkbook(
+    sheets: Sheet[],
+    settings: CalculationSettings = this.getCalculationSettings(),
+    names: DefinedName[] = this.getDefinedNames()
+  ): Sheet[] {
+    this.dependencyGraph.clear();
+
+    // Cached results are stale once cells have moved
+    const workingSheets = sheets.map((sheet) => ({
       ...sheet,
-      cells: workingCells,
-    };
+      cells: mapSheetCells(sheet.cells, (cell, row, col) => {
+        if (!this.isFormula(cell.value)) return cell;
+        this.trackDependencies(sheets, sheet.id, row, col, cell.value, names);
+        const staleCell = { ...cell };
+        delete staleCell.computedValue;
+        return staleCell;
+      }),
+    }));
+
+    const chain = this.dependencyGraph.getCalculationChain(this.dependencyGraph.getFormulaCells());
+    return this.recalculateCells(workingSheets, chain, settings, names);
+  }
+
+  /**
+   * Replaces a sheet after a structural change and recalculates the workbook
+   */
+  private updateSheetAndRecalculate(updatedSheet: Sheet): void {
+    const sheets = this.getSheets().map((sheet) =>
+      sheet.id === updatedSheet.id ? updatedSheet : sheet
+    );
+    this.updateSheets(this.recalculateWorkbook(sheets));
+  }
+
+  /**
+   * Replaces a sheet after rows or columns were inserted or deleted, adjusts every
+   * reference that points into it (from any sheet or defined name) and recalculates
+   * the workbook
+   */
+  private updateSheetAndAdjustReferences(updatedSheet: Sheet, adjust: ReferenceTransform): void {
+    const data = this.getData();
+    const name = updatedSheet.name.toLowerCase();
+    const sheets = this.getSheets().map((sheet) =>
+      sheet.id === updatedSheet.id ? this.adjustSheetPositions(updatedSheet, adjust) : sheet
+    );
+
+    const adjustedSheets = this.rewriteFormulas(sheets, (sheet) => (reference, isRange) => {
+      const pointsIntoSheet =
+        reference.sheet === undefined
+          ? sheet.id === updatedSheet.id
+          : reference.sheet.toLowerCase() === name;
+      return pointsIntoSheet ? adjust(reference, isRange) : reference;
+    });
+    const names = this.rewriteDefinedNames(updatedSheet.name, (range) => adjust(range, true));
+
+    this._data$.next({
+      ...data,
+      ...(data.names && { names }),
+      sheets: this.recalculateWorkbook(adjustedSheets, undefined, names),
+      metadata: {
+        ...data.metadata,
+        modifiedDate: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Moves the row and column positions a sheet keeps besides its cells (hidden rows and
+   * the AutoFilter) after rows or columns were inserted or deleted.
+   * Hidden rows that were deleted are dropped; the AutoFilter is removed when its whole
+   * range is deleted, and re-applied when one of its filtered columns is.
+   */
+  private adjustSheetPositions(sheet: Sheet, adjust: ReferenceTransform): Sheet {
+    const adjustRow = (row: number) =>
+      adjust({ start: { row, col: 0 }, end: { row, col: Number.MAX_SAFE_INTEGER } }, true)
+        ?.start.row;
+    const adjustCol = (col: number) =>
+      adjust({ start: { row: 0, col }, end: { row: Number.MAX_SAFE_INTEGER, col } }, true)
+        ?.start.col;
+
+    const adjusted: Sheet = { ...sheet };
+    if (sheet.hiddenRows) {
+      adjusted.hiddenRows = sheet.hiddenRows
+        .map(adjustRow)
+        .filter((row): row is number => row !== undefined);
+    }
+    if (sheet.merges) {
+      adjusted.merges = sheet.merges
+        .map((merge) => adjust(merge, true))
+        .filter((merge): merge is CellRange => !!merge && !isSingleCell(merge));
+    }
+
+    // The formulas of rules are rewritten with those of cells (see rewriteFormulas)
+    if (sheet.conditionalFormats) {
+      adjusted.conditionalFormats = sheet.conditionalFormats.flatMap(
+        (rule): ConditionalFormatRule[] => {
+          const range = adjust(rule.range, true);
+          return range ? [{ ...rule, range }] : [];
+        }
+      );
+    }
+    if (sheet.dataValidations) {
+      adjusted.dataValidations = sheet.dataValidations.flatMap((rule): DataValidationRule[] => {
+        const range = adjust(rule.range, true);
+        return range ? [{ ...rule, range }] : [];
+      });
+    }
+
+    // Rows and columns inserted or deleted inside the frozen panes move the split with them
+    if (sheet.frozenRows) {
+      const frozen = adjust(
+        { start: { row: 0, col: 0 }, end: { row: sheet.frozenRows - 1, col: 0 } },
+        true
+      );
+      if (frozen) {
+        adjusted.frozenRows = frozen.end.row + 1;
+      } else {
+        delete adjusted.frozenRows;
+      }
+    }
+    if (sheet.frozenColumns) {
+      const frozen = adjust(
+        { start: { row: 0, col: 0 }, end: { row: 0, col: sheet.frozenColumns - 1 } },
+        true
+      );
+      if (frozen) {
+        adjusted.frozenColumns = frozen.end.col + 1;
+      } else {
+        delete adjusted.frozenColumns;
+      }
+    }
+
+    if (!sheet.autoFilter) return adjusted;
+
+    const range = adjust(sheet.autoFilter.range, true);
+    if (!range) {
+      delete adjusted.autoFilter;
+      return adjusted;
+    }
+
+    const columns: Record<number, ColumnFilter> = {};
+    let columnDeleted = false;
+    for (const [key, filter] of Object.entries(sheet.autoFilter.columns)) {
+      const col = adjustCol(Number(key));
+      if (col === undefined) {
+        columnDeleted = true;
+      } else {
+        columns[col] = filter;
+      }
+    }
+
+    adjusted.autoFilter = { range, columns };
+    return columnDeleted ? this.applyAutoFilter(adjusted) : adjusted;
+  }
+
+  /**
+   * Rewrites the references of every formula in the given sheets: those of cells, of
+   * conditional format rules and of data validation rules (including list sources).
+   * `transformFor` returns the transform to apply to formulas of a given sheet,
+   * since unqualified references point at the sheet the formula lives in.
+   */
+  private rewriteFormulas(
+    sheets: Sheet[],
+    transformFor: (sheet: Sheet) => ReferenceTransform
+  ): Sheet[] {
+    return sheets.map((sheet) => {
+      const transform = transformFor(sheet);
+      const cells = mapSheetCells(sheet.cells, (cell) => {
+        if (!this.isFormula(cell.value)) return cell;
+        const value = transformFormulaReferences(cell.value, transform);
+        return value === cell.value ? cell : { ...cell, value };
+      });
+      const rewritten = cells !== sheet.cells ? { ...sheet, cells } : sheet;
+      return this.rewriteRuleFormulas(rewritten, transform);
+    });
+  }
+
+  /**
+   * Rewrites the references in the conditional format and data validation rules of a
+   * sheet. A list source whose cells are deleted leaves the list empty, so every value
+   * is rejected.
+   */
+  private rewriteRuleFormulas(sheet: Sheet, transform: ReferenceTransform): Sheet {
+    const rewrite = (formula: string) => transformFormulaReferences(formula, transform);
+    const rewriteValue = (value: string | number) =>
+      typeof value === 'string' && this.isFormula(value) ? rewrite(value) : value;
+
+    const updated: Sheet = { ...sheet };
+    if (sheet.conditionalFormats) {
+      updated.conditionalFormats = sheet.conditionalFormats.map((rule) =>
+        rule.type === 'formula' ? { ...rule, formula: rewrite(rule.formula) } : rule
+      );
+    }
+    if (sheet.dataValidations) {
+      updated.dataValidations = sheet.dataValidations.map((rule) => {
+        const rewritten: DataValidationRule = { ...rule };
+        if (rule.formula) rewritten.formula = rewrite(rule.formula);
+        if (rule.value1 !== undefined) rewritten.value1 = rewriteValue(rule.value1);
+        if (rule.value2 !== undefined) rewritten.value2 = rewriteValue(rule.value2);
+        if (rule.listRange) {
+          const listRange = transform(rule.listRange, true);
+          if (listRange) {
+            rewritten.listRange = { start: listRange.start, end: listRange.end };
+            if (listRange.sheet !== undefined) rewritten.listRange.sheet = listRange.sheet;
+          } else {
+            delete rewritten.listRange;
+            rewritten.list = [];
+          }
+        }
+        return rewritten;
+      });
+    }
+    return updated;
+  }
+
+  /**
+   * Gets the color a section of the cell's number format assigns to its value
+   * (e.g. [Red] in '$#,##0;[Red]-$#,##0'), if any
+   */
+  getCellFormatColor(row: number, col: number): string | undefined {
+    const cell = this.getCell(row, col);
+    if (!cell || cell.dataType === 'error') return undefined;
+
+    const value = this.isFormula(cell.value) ? cell.computedValue : cell.value;
+    return this.applyNumberFormat(value, cell.style).color;
+  }
+
+  /**
+   * Gets the text to edit for a cell: its formula or raw value, with dates and times
+   * written in a form that is recognized as the same date again when committed
+   */
+  getCellEditText(row: number, col: number): string {
+    const cell = this.getCell(row, col);
+    if (!cell) return '';
+
+    if (cell.dataType === 'date' && typeof cell.value === 'number') {
+      const serial = cell.value;
+      const date = Math.floor(serial) !== 0 ? 'yyyy-mm-dd' : '';
+      const time = Number.isInteger(serial) ? '' : 'h:mm:ss';
+      return formatValue(serial, [date, time].filter(Boolean).join(' ')).text;
+    }
+    return String(cell.value ?? '');
   }
 
   /**
@@ -276,24 +896,29 @@ export class SpreadsheetDataService {
 
     const newStyle = { ...cell.style, ...style };
 
-    // If decimalPlaces changed and cell has a numeric value, refresh displayValue
+    // If the number format changed, re-render the value (or the cached formula result)
     let newDisplayValue = cell.displayValue;
-    if (style && 'decimalPlaces' in style) {
-      if (cell.dataType === 'number' && typeof cell.value === 'number') {
-        newDisplayValue = this.formatNumberValue(cell.value, newStyle.decimalPlaces);
-      } else if (cell.dataType === 'formula') {
-        // For formulas, re-evaluate to get the result
-        try {
-          const result = this.formulaService.evaluateFormula(
-            cell.value,
-            sheet.cells,
-            row,
-            col
-          );
-          newDisplayValue = this.formatNumberValue(result, newStyle.decimalPlaces);
-        } catch {
-          newDisplayValue = '#ERROR!';
-        }
+    let dataType = cell.dataType;
+    const formatKeys = ['numberFormat', 'numberFormatPattern', 'currencySymbol', 'decimalPlaces'];
+    if (style && formatKeys.some((key) => key in style)) {
+      // Numbers become dates (and back) with the format, as in Excel
+      if (typeof cell.value === 'number' && (dataType === 'number' || dataType === 'date')) {
+        dataType = isDateFormat(getNumberFormatPattern(newStyle)) ? 'date' : 'number';
+      }
+
+      if (cell.dataType === 'formula' && cell.computedValue === undefined) {
+        // Re-evaluate if the result is missing
+        const result = this.formulaService.evaluateFormula(
+          cell.value,
+          sheet.cells,
+          row,
+          col,
+          this.getSheets(),
+          this.getDefinedNames()
+        );
+        newDisplayValue = this.formatDisplayValue(result, newStyle);
+      } else {
+        newDisplayValue = this.formatCell({ ...cell, style: newStyle });
       }
     }
 
@@ -301,24 +926,20 @@ export class SpreadsheetDataService {
       ...cell,
       style: newStyle,
       displayValue: newDisplayValue,
+      dataType,
     };
 
-    const updatedCells = [...sheet.cells];
-    updatedCells[row] = [...updatedCells[row]];
-    updatedCells[row][col] = updatedCell;
-
-    const updatedSheet: Sheet = {
-      ...sheet,
-      cells: updatedCells,
-    };
-
-    this.updateSheet(updatedSheet);
+    this.updateSheet({ ...sheet, cells: setSheetCells(sheet.cells, [updatedCell]) });
   }
 
   /**
-   * Sets the selected cell
+   * Sets the selected cell. A cell covered by a merged cell selects the merged cell.
    */
   selectCell(address: CellAddress | null): void {
+    const merge = address && getMergeAt(this.getActiveSheet()?.merges, address.row, address.col);
+    if (merge) {
+      address = { row: merge.start.row, col: merge.start.col };
+    }
     this._selectedCell$.next(address);
 
     // Clear range selection when selecting a single cell
@@ -328,10 +949,10 @@ export class SpreadsheetDataService {
   }
 
   /**
-   * Sets the selected range
+   * Sets the selected range, grown to take in every merged cell it touches
    */
   selectRange(range: CellRange | null): void {
-    this._selectedRange$.next(range);
+    this._selectedRange$.next(range && expandRangeToMerges(this.getActiveSheet()?.merges, range));
 
     // Clear single cell selection when selecting a range
     if (range) {
@@ -368,94 +989,237 @@ export class SpreadsheetDataService {
   }
 
   /**
-   * Loads spreadsheet data
+   * Loads spreadsheet data. Cells given as a full grid are stored sparsely, and plain-text
+   * comments of older data become comment threads.
    */
   loadData(data: SpreadsheetData): void {
-    // Recalculate all formulas in the loaded data
-    const updatedData = this.recalculateAllFormulas(data);
+    // Rebuild the dependency graph and recalculate all formulas in the loaded data
+    this.dependencyGraph.clear();
+    const settings = { ...DEFAULT_CALCULATION_SETTINGS, ...data.calculation };
+    const sheets = data.sheets.map((sheet) => ({ ...sheet, cells: compactCells(sheet.cells) }));
+    const updatedData: SpreadsheetData = {
+      ...data,
+      sheets: this.recalculateWorkbook(
+        this.upgradeComments(sheets),
+        settings,
+        data.names ?? []
+      ),
+    };
     this._data$.next(updatedData);
     this.clearHistory();
   }
 
   /**
-   * Recalculates all formulas in all sheets
-   */
-  private recalculateAllFormulas(data: SpreadsheetData): SpreadsheetData {
-    const updatedSheets = data.sheets.map((sheet) => {
-      const updatedCells = sheet.cells.map((row, rowIndex) =>
-        row.map((cell, colIndex) => {
-          if (
-            typeof cell.value === 'string' &&
-            cell.value.startsWith('=')
-          ) {
-            try {
-              const result = this.formulaService.evaluateFormula(
-                cell.value,
-                sheet.cells,
-                rowIndex,
-                colIndex
-              );
-              return {
-                ...cell,
-                displayValue: String(result),
-                dataType: 'formula' as Cell['dataType'],
-              };
-            } catch {
-              return {
-                ...cell,
-                displayValue: '#ERROR!',
-                dataType: 'error' as Cell['dataType'],
-              };
-            }
-          }
-          return cell;
-        })
-      );
-
-      return {
-        ...sheet,
-        cells: updatedCells,
-      };
-    });
-
-    return {
-      ...data,
-      sheets: updatedSheets,
-    };
+   * Loads a workbook from an .xlsx file (see readXlsx). Returns the warnings about
+   * features of the file that were skipped or approximated.
+   */
+  async importXlsx(source: Blob | ArrayBuffer): Promise<string[]> {
+    const { data, warnings } = await readXlsx(source);
+    this.loadData(data);
+    return warnings;
   }
 
   /**
-   * Updates the active sheet
+   * Writes the workbook as an .xlsx file (see writeXlsx)
    */
-  setActiveSheet(index: number): void {
-    const data = this.getData();
-    if (index < 0 || index >= data.sheets.length) return;
-
-    const updatedSheets = data.sheets.map((sheet, i) => ({
-      ...sheet,
-      isActive: i === index,
-    }));
-
-    this._data$.next({
-      ...data,
-      sheets: updatedSheets,
-      activeSheetIndex: index,
-    });
+  exportXlsx(): Promise<XlsxExportResult> {
+    return writeXlsx(this.getData());
   }
 
   /**
-   * Adds a new sheet to the spreadsheet
+   * Imports rows read from a CSV file (see parseCsv and readCsvFile), converting each
+   * column as its type says (see convertCsvValue). Depending on the mode, the rows go to
+   * a new sheet that becomes active, replace the cells, merges and hidden rows of the
+   * active sheet, or are written over the active sheet from the selected cell. The sheet
+   * grows to fit them. Replacing and inserting are undone as one step.
    */
-  addSheet(name?: string): void {
+  importCsv(rows: string[][], options: CsvImportOptions = {}): void {
+    const { mode = 'new-sheet', columnTypes = [], hasHeader = false } = options;
+    const locale = this.getData().locale;
+    const width = Math.max(0, ...rows.map((row) => row.length));
+    const columns = Array.from({ length: width }, (_, col) => col).filter(
+      (col) => columnTypes[col] !== 'skip'
+    );
+    const values = rows.map((row, i) =>
+      columns.map((col) =>
+        convertCsvValue(row[col] ?? '', hasHeader && i === 0 ? 'text' : columnTypes[col], locale)
+      )
+    );
+
+    if (mode === 'new-sheet') {
+      const data = this.getData();
+      const name = this.getUniqueSheetName(options.sheetName || `Sheet${data.sheets.length + 1}`);
+      const sheet = createEmptySheet({
+        name,
+        rowCount: Math.max(1000, values.length),
+        colCount: Math.max(26, columns.length),
+      });
+      const sheets = [
+        ...data.sheets.map((s) => ({ ...s, isActive: false })),
+        { ...this.writeCsvValues(sheet, values, { row: 0, col: 0 }), isActive: true },
+      ];
+
+      this._data$.next({
+        ...data,
+        sheets: this.recalculateWorkbook(sheets),
+        activeSheetIndex: sheets.length - 1,
+        metadata: {
+          ...data.metadata,
+          modifiedDate: new Date(),
+        },
+      });
+      return;
+    }
+
+    const activeSheet = this.getActiveSheet();
+    if (!activeSheet) return;
+
+    const origin = (mode === 'insert' && this.getSelectedCell()) || { row: 0, col: 0 };
+    const sheet = this.growSheet(
+      activeSheet,
+      origin.row + values.length,
+      origin.col + columns.length
+    );
+    if (sheet !== activeSheet) {
+      this.updateSheet(sheet);
+    }
+
+    let updatedSheet = sheet;
+    if (mode === 'replace') {
+      updatedSheet = {
+        ...sheet,
+        cells: [],
+      };
+      delete updatedSheet.merges;
+      delete updatedSheet.hiddenRows;
+    }
+    this.updateSheetWithSnapshot(sheet, this.writeCsvValues(updatedSheet, values, origin));
+  }
+
+  /**
+   * Exports the active sheet, or the range given in the options (such as the selected
+   * range), as CSV, TSV, JSON or HTML (see exportSheet). Returns null without a sheet.
+   */
+  exportActiveSheet(options: ExportOptions): ExportedFile | null {
+    const sheet = this.getActiveSheet();
+    return sheet && exportSheet(sheet, options);
+  }
+
+  /**
+   * Exports every sheet as CSV, TSV, JSON or HTML (see exportWorkbook)
+   */
+  exportSheets(options: ExportOptions): ExportedFile[] {
+    return exportWorkbook(this.getData(), options);
+  }
+
+  /**
+   * Writes the workbook as JSON in the versioned, sparse serialization format
+   * (see serializeWorkbook). Editing and selection state is not saved.
+   */
+  serialize(): string {
+    return JSON.stringify(serializeWorkbook(this.getData()));
+  }
+
+  /**
+   * Loads a workbook written by serialize, or SpreadsheetData saved with JSON.stringify,
+   * upgrading older versions of the format (see deserializeWorkbook).
+   * Throws a SerializationError pointing to the first invalid value.
+   */
+  deserialize(input: string | SerializedWorkbook, options?: DeserializeOptions): void {
+    this.loadData(deserializeWorkbook(input, options));
+  }
+
+  /**
+   * Gets the workbook calculation settings
+   */
+  getCalculationSettings(): CalculationSettings {
+    return { ...DEFAULT_CALCULATION_SETTINGS, ...this.getData().calculation };
+  }
+
+  /**
+   * Updates the workbook calculation settings and recalculates every sheet
+   */
+  setCalculationSettings(settings: Partial<CalculationSettings>): void {
+    const data = this.getData();
+    const calculation = { ...this.getCalculationSettings(), ...settings };
+
+    this._data$.next({
+      ...data,
+      calculation,
+      sheets: this.recalculateWorkbook(data.sheets, calculation),
+      metadata: {
+        ...data.metadata,
+        modifiedDate: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Gets the locale used to display numbers and dates, if one is set
+   */
+  getLocale(): string | undefined {
+    return this.getData().locale;
+  }
+
+  /**
+   * Sets the locale used to display numbers and dates (e.g. 'de-DE') and
+   * re-renders every cell. Pass undefined to return to en-US conventions.
+   */
+  setLocale(locale: string | undefined): void {
+    const data = this.getData();
+    const sheets = data.sheets.map((sheet) => ({
+      ...sheet,
+      cells: mapSheetCells(sheet.cells, (cell) => ({
+        ...cell,
+        displayValue: this.formatCell(cell, locale),
+      })),
+    }));
+
+    this._data$.next({
+      ...data,
+      locale,
+      sheets,
+      metadata: {
+        ...data.metadata,
+        modifiedDate: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Updates the active sheet
+   */
+  setActiveSheet(index: number): void {
+    const data = this.getData();
+    if (index < 0 || index >= data.sheets.length) return;
+
+    const updatedSheets = data.sheets.map((sheet, i) => ({
+      ...sheet,
+      isActive: i === index,
+    }));
+
+    this._data$.next({
+      ...data,
+      sheets: updatedSheets,
+      activeSheetIndex: index,
+    });
+  }
+
+  /**
+   * Adds a new sheet to the spreadsheet. Its name is made unique (ignoring case), as
+   * references find sheets by name.
+   */
+  addSheet(name?: string): void {
     const data = this.getData();
     const sheetNumber = data.sheets.length + 1;
-    const sheetName = name || `Sheet${sheetNumber}`;
+    const sheetName = this.getUniqueSheetName(name?.trim() || `Sheet${sheetNumber}`);
 
     const newSheet: Sheet = createEmptySheet({ name: sheetName });
 
     this._data$.next({
       ...data,
-      sheets: [...data.sheets, newSheet],
+      // References to the new sheet's name that were #REF! can now resolve
+      sheets: this.recalculateWorkbook([...data.sheets, newSheet]),
       metadata: {
         ...data.metadata,
         modifiedDate: new Date(),
@@ -475,7 +1239,20 @@ export class SpreadsheetDataService {
     // Can't delete invalid index
     if (index < 0 || index >= data.sheets.length) return;
 
-    const updatedSheets = data.sheets.filter((_, i) => i !== index);
+    // References to the deleted sheet become #REF!, and the names scoped to it go with it
+    const deletedSheet = data.sheets[index];
+    const deletedName = deletedSheet.name.toLowerCase();
+    const names = this.rewriteDefinedNames(deletedSheet.name, () => null).filter(
+      (defined) => defined.sheetId !== deletedSheet.id
+    );
+    const updatedSheets = this.recalculateWorkbook(
+      this.rewriteFormulas(
+        data.sheets.filter((_, i) => i !== index),
+        () => (reference) => (reference.sheet?.toLowerCase() === deletedName ? null : reference)
+      ),
+      undefined,
+      names
+    );
 
     // If we deleted the active sheet, activate another one
     let newActiveIndex = data.activeSheetIndex;
@@ -494,6 +1271,7 @@ export class SpreadsheetDataService {
 
     this._data$.next({
       ...data,
+      ...(data.names && { names }),
       sheets: sheetsWithActiveFlag,
       activeSheetIndex: newActiveIndex,
       metadata: {
@@ -512,12 +1290,29 @@ export class SpreadsheetDataService {
     if (index < 0 || index >= data.sheets.length) return;
     if (!newName || !newName.trim()) return;
 
-    const updatedSheets = data.sheets.map((sheet, i) =>
-      i === index ? { ...sheet, name: newName.trim() } : sheet
+    const name = newName.trim();
+    const oldName = data.sheets[index].name.toLowerCase();
+
+    // Sheet names must stay unique (ignoring case) for references to resolve
+    const duplicate = this.findSheetByName(data.sheets, name);
+    if (duplicate && duplicate.id !== data.sheets[index].id) {
+      return;
+    }
+
+    // Point references and defined names to the old name at the new one
+    const renamedSheets = data.sheets.map((sheet, i) => (i === index ? { ...sheet, name } : sheet));
+    const names = this.rewriteDefinedNames(oldName, (range) => ({ ...range, sheet: name }));
+    const updatedSheets = this.recalculateWorkbook(
+      this.rewriteFormulas(renamedSheets, () => (reference) =>
+        reference.sheet?.toLowerCase() === oldName ? { ...reference, sheet: name } : reference
+      ),
+      undefined,
+      names
     );
 
     this._data$.next({
       ...data,
+      ...(data.names && { names }),
       sheets: updatedSheets,
       metadata: {
         ...data.metadata,
@@ -556,18 +1351,34 @@ export class SpreadsheetDataService {
   }
 
   /**
-   * Updates the cells of the active sheet (for sorting)
+   * Replaces all sheets of the spreadsheet, keeping the active sheet index
+   */
+  private updateSheets(updatedSheets: Sheet[]): void {
+    const data = this.getData();
+
+    this._data$.next({
+      ...data,
+      sheets: updatedSheets,
+      metadata: {
+        ...data.metadata,
+        modifiedDate: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Updates the cells of the active sheet (for sorting). A full grid is stored sparsely.
    */
-  updateSheetCells(cells: Cell[][]): void {
+  updateSheetCells(cells: SheetCells): void {
     const sheet = this.getActiveSheet();
     if (!sheet) return;
 
     const updatedSheet: Sheet = {
       ...sheet,
-      cells
+      cells: compactCells(cells),
     };
 
-    this.updateSheet(updatedSheet);
+    this.updateSheetAndRecalculate(updatedSheet);
   }
 
   /**
@@ -607,29 +1418,38 @@ export class SpreadsheetDataService {
   }
 
   /**
-   * Inserts a new row at the specified position
+   * Freezes the first rows and columns of the active sheet so they stay in place while the
+   * rest scrolls; 0 rows and 0 columns unfreezes the panes
    */
-  insertRow(atIndex: number): void {
+  setFrozenPanes(rows: number, columns: number): void {
     const sheet = this.getActiveSheet();
     if (!sheet) return;
 
-    // Create a new empty row
-    const newRow: Cell[] = [];
-    for (let col = 0; col < sheet.colCount; col++) {
-      newRow.push(createEmptyCell(atIndex, col));
-    }
+    const updatedSheet: Sheet = { ...sheet };
+    delete updatedSheet.frozenRows;
+    delete updatedSheet.frozenColumns;
 
-    // Insert the new row
-    const updatedCells = [...sheet.cells];
-    updatedCells.splice(atIndex, 0, newRow);
+    rows = Math.max(0, Math.min(Math.floor(rows), sheet.rowCount - 1));
+    columns = Math.max(0, Math.min(Math.floor(columns), sheet.colCount - 1));
+    if (rows > 0) updatedSheet.frozenRows = rows;
+    if (columns > 0) updatedSheet.frozenColumns = columns;
 
-    // Update row indices for all rows after the inserted row
-    for (let row = atIndex + 1; row < updatedCells.length; row++) {
-      updatedCells[row] = updatedCells[row].map((cell) => ({
-        ...cell,
-        row,
-      }));
-    }
+    this.updateSheet(updatedSheet);
+  }
+
+  /**
+   * Inserts a new row at the specified position.
+   * References at or below it move down, so ranges spanning the insertion grow.
+   */
+  insertRow(atIndex: number): void {
+    const sheet = this.getActiveSheet();
+    if (!sheet) return;
+
+    // Move the rows at or below the new row down; the new row is empty
+    const updatedCells = moveSheetCells(sheet.cells, (row, col) => ({
+      row: row >= atIndex ? row + 1 : row,
+      col,
+    }));
 
     // Insert default row height
     const updatedHeights = [...(sheet.rowHeights || [])];
@@ -642,32 +1462,24 @@ export class SpreadsheetDataService {
       rowHeights: updatedHeights,
     };
 
-    this.updateSheet(updatedSheet);
+    this.updateSheetAndAdjustReferences(updatedSheet, (reference) =>
+      adjustReferenceForInsert(reference, 'row', atIndex)
+    );
   }
 
   /**
-   * Inserts a new column at the specified position
+   * Inserts a new column at the specified position.
+   * References at or right of it move right, so ranges spanning the insertion grow.
    */
   insertColumn(atIndex: number): void {
     const sheet = this.getActiveSheet();
     if (!sheet) return;
 
-    // Insert a new cell in each row at the specified column index
-    const updatedCells = sheet.cells.map((row, rowIndex) => {
-      const newRow = [...row];
-      const newCell = createEmptyCell(rowIndex, atIndex);
-      newRow.splice(atIndex, 0, newCell);
-
-      // Update column indices for all cells after the inserted column
-      for (let col = atIndex + 1; col < newRow.length; col++) {
-        newRow[col] = {
-          ...newRow[col],
-          col,
-        };
-      }
-
-      return newRow;
-    });
+    // Move the columns at or right of the new column right; the new column is empty
+    const updatedCells = moveSheetCells(sheet.cells, (row, col) => ({
+      row,
+      col: col >= atIndex ? col + 1 : col,
+    }));
 
     // Insert default column width
     const updatedWidths = [...(sheet.columnWidths || [])];
@@ -680,27 +1492,23 @@ export class SpreadsheetDataService {
       columnWidths: updatedWidths,
     };
 
-    this.updateSheet(updatedSheet);
+    this.updateSheetAndAdjustReferences(updatedSheet, (reference) =>
+      adjustReferenceForInsert(reference, 'col', atIndex)
+    );
   }
 
   /**
-   * Deletes a row at the specified position
+   * Deletes a row at the specified position.
+   * References below it move up, ranges shrink, and references to the row become #REF!.
    */
   deleteRow(atIndex: number): void {
     const sheet = this.getActiveSheet();
     if (!sheet || sheet.rowCount <= 1) return;
 
-    // Remove the row
-    const updatedCells = [...sheet.cells];
-    updatedCells.splice(atIndex, 1);
-
-    // Update row indices for all rows after the deleted row
-    for (let row = atIndex; row < updatedCells.length; row++) {
-      updatedCells[row] = updatedCells[row].map((cell) => ({
-        ...cell,
-        row,
-      }));
-    }
+    // Remove the row and move the rows below it up
+    const updatedCells = moveSheetCells(sheet.cells, (row, col) =>
+      row === atIndex ? null : { row: row > atIndex ? row - 1 : row, col }
+    );
 
     // Remove row height
     const updatedHeights = [...(sheet.rowHeights || [])];
@@ -713,31 +1521,23 @@ export class SpreadsheetDataService {
       rowHeights: updatedHeights,
     };
 
-    this.updateSheet(updatedSheet);
+    this.updateSheetAndAdjustReferences(updatedSheet, (reference) =>
+      adjustReferenceForDelete(reference, 'row', atIndex)
+    );
   }
 
   /**
-   * Deletes a column at the specified position
+   * Deletes a column at the specified position.
+   * References right of it move left, ranges shrink, and references to it become #REF!.
    */
   deleteColumn(atIndex: number): void {
     const sheet = this.getActiveSheet();
     if (!sheet || sheet.colCount <= 1) return;
 
-    // Remove the column from each row
-    const updatedCells = sheet.cells.map((row) => {
-      const newRow = [...row];
-      newRow.splice(atIndex, 1);
-
-      // Update column indices for all cells after the deleted column
-      for (let col = atIndex; col < newRow.length; col++) {
-        newRow[col] = {
-          ...newRow[col],
-          col,
-        };
-      }
-
-      return newRow;
-    });
+    // Remove the column and move the columns right of it left
+    const updatedCells = moveSheetCells(sheet.cells, (row, col) =>
+      col === atIndex ? null : { row, col: col > atIndex ? col - 1 : col }
+    );
 
     // Remove column width
     const updatedWidths = [...(sheet.columnWidths || [])];
@@ -750,7 +1550,9 @@ export class SpreadsheetDataService {
       columnWidths: updatedWidths,
     };
 
-    this.updateSheet(updatedSheet);
+    this.updateSheetAndAdjustReferences(updatedSheet, (reference) =>
+      adjustReferenceForDelete(reference, 'col', atIndex)
+    );
   }
 
   /**
@@ -779,7 +1581,8 @@ export class SpreadsheetDataService {
     const sheet = this.getActiveSheet();
     if (!sheet) return '';
 
-    let data: any[][] = [];
+    let data: string[][] = [];
+    let origin: CellAddress | null = null;
 
     if (range) {
       // Copy range
@@ -789,50 +1592,141 @@ export class SpreadsheetDataService {
       const maxCol = Math.max(range.start.col, range.end.col);
 
       for (let row = minRow; row <= maxRow; row++) {
-        const rowData: any[] = [];
+        const rowData: string[] = [];
         for (let col = minCol; col <= maxCol; col++) {
-          const cell = this.getCell(row, col);
-          rowData.push(cell?.value ?? '');
+          rowData.push(this.getCellEditText(row, col));
         }
         data.push(rowData);
       }
+      origin = { row: minRow, col: minCol };
     } else {
       // Copy single cell
       const selected = this.getSelectedCell();
       if (selected) {
-        const cell = this.getCell(selected.row, selected.col);
-        data = [[cell?.value ?? '']];
+        data = [[this.getCellEditText(selected.row, selected.col)]];
+        origin = selected;
       }
     }
 
-    // Convert to TSV format for clipboard
-    const result = data.map(row => row.join('\t')).join('\n');
+    // Tab-separated, with fields holding tabs, line breaks or quotes quoted as Excel does
+    const result = formatCsv(data, { delimiter: '\t', lineEnding: '\n' });
+    this.clipboardSource = origin && { text: result, row: origin.row, col: origin.col };
     return result;
   }
 
   /**
-   * Pastes clipboard data into the spreadsheet
+   * Pastes clipboard data into the spreadsheet: tab-separated values, with fields holding
+   * tabs, line breaks or quotes quoted (as copy() and Excel write them).
+   * When the data is the block last returned by copy(), relative references in its
+   * formulas are shifted by the distance between the copied and the target cells.
+   * Values are checked against the data validation of their cell as if typed: those that
+   * break a rule with the 'stop' alert style are not pasted. Returns every value that
+   * broke a rule.
    */
-  paste(clipboardData: string): void {
+  paste(clipboardData: string): DataValidationViolation[] {
     const sheet = this.getActiveSheet();
     const selected = this.getSelectedCell();
-    if (!sheet || !selected) return;
+    if (!sheet || !selected) return [];
 
-    // Parse TSV data
-    const rows = clipboardData.split('\n').filter(line => line.trim());
-    const data = rows.map(row => row.split('\t'));
+    const source =
+      this.clipboardSource?.text === clipboardData.replace(/\r\n/g, '\n')
+        ? this.clipboardSource
+        : null;
+    const rowOffset = source ? selected.row - source.row : 0;
+    const colOffset = source ? selected.col - source.col : 0;
+
+    // Blank lines are kept so that the rows below them land where they were copied from
+    const data = parseCsv(clipboardData, { delimiter: '\t', keepEmptyRows: true });
 
     // Paste starting from selected cell
+    const violations: DataValidationViolation[] = [];
     for (let i = 0; i < data.length; i++) {
       for (let j = 0; j < data[i].length; j++) {
         const targetRow = selected.row + i;
         const targetCol = selected.col + j;
 
         if (targetRow < sheet.rowCount && targetCol < sheet.colCount) {
-          this.updateCell(targetRow, targetCol, data[i][j]);
+          const value = shiftFormulaReferences(data[i][j], rowOffset, colOffset);
+          const rule = this.validateCellValue(targetRow, targetCol, value);
+          if (rule) {
+            violations.push({ row: targetRow, col: targetCol, value, rule });
+            if ((rule.errorStyle ?? 'stop') === 'stop') continue;
+          }
+          this.updateCell(targetRow, targetCol, value);
         }
       }
     }
+    return violations;
+  }
+
+  /**
+   * Extends a source range with the fill handle by `count` rows or columns.
+   * Each column (filling up or down) or row (filling left or right) of the source is
+   * continued on its own: series such as 1, 2, 3, dates, weekdays or "Item 1" are
+   * extended and anything else is repeated, with formula references shifted.
+   * `toggleMode` switches between copy and series mode, as holding Ctrl does in Excel.
+   * The filled cells are undone together.
+   */
+  fillRange(source: CellRange, direction: FillDirection, count: number, toggleMode = false): void {
+    const sheet = this.getActiveSheet();
+    if (!sheet || count <= 0) return;
+
+    const minRow = Math.min(source.start.row, source.end.row);
+    const maxRow = Math.max(source.start.row, source.end.row);
+    const minCol = Math.min(source.start.col, source.end.col);
+    const maxCol = Math.max(source.start.col, source.end.col);
+
+    const vertical = direction === 'down' || direction === 'up';
+    const backwards = direction === 'up' || direction === 'left';
+    const length = vertical ? maxRow - minRow + 1 : maxCol - minCol + 1;
+    const lineCount = vertical ? maxCol - minCol + 1 : maxRow - minRow + 1;
+
+    this.recordAsOneStep(() => {
+      for (let line = 0; line < lineCount; line++) {
+        // Address of the n-th cell along this line, counted from the start of the source
+        const addressAt = (position: number): CellAddress =>
+          vertical
+            ? { row: minRow + position, col: minCol + line }
+            : { row: minRow + line, col: minCol + position };
+
+        const cells = Array.from({ length }, (_, position) => {
+          const address = addressAt(position);
+          return this.getCell(address.row, address.col);
+        });
+        // Whole dates continue by day, month or year; times continue as numbers
+        const values = cells.map((cell) =>
+          cell?.dataType === 'date' && Number.isInteger(cell.value)
+            ? serialToDate(cell.value)
+            : cell?.value ?? ''
+        );
+
+        let mode = getDefaultFillMode(values);
+        if (toggleMode) {
+          mode = mode === 'series' ? 'copy' : 'series';
+        }
+
+        extendSeries(values, count, backwards, mode).forEach((value, i) => {
+          const position = backwards ? -(i + 1) : length + i;
+          const target = addressAt(position);
+          if (target.row < 0 || target.col < 0) return;
+          if (target.row >= sheet.rowCount || target.col >= sheet.colCount) return;
+
+          // Copied formulas move relative to the source cell they repeat
+          const sourceIndex = getSourceIndex(position, length);
+          const origin = addressAt(sourceIndex);
+          const filled =
+            typeof value === 'string'
+              ? shiftFormulaReferences(value, target.row - origin.row, target.col - origin.col)
+              : value;
+
+          // Filled dates keep the date format of the source
+          const sourceCell = cells[sourceIndex];
+          const dateFormat =
+            sourceCell?.dataType === 'date' ? getNumberFormatPattern(sourceCell.style) : undefined;
+          this.updateCellValue(target.row, target.col, filled, dateFormat);
+        });
+      }
+    });
   }
 
   /**
@@ -848,22 +1742,11 @@ export class SpreadsheetDataService {
       return;
     }
 
-    // Create a copy of the cells array
-    const newCells = [...sheet.cells];
-
-    // Remove the row from its original position
-    const [movedRow] = newCells.splice(fromIndex, 1);
-
-    // Insert it at the new position
-    newCells.splice(toIndex, 0, movedRow);
-
-    // Update row indices in all cells
-    for (let row = 0; row < newCells.length; row++) {
-      newCells[row] = newCells[row].map((cell) => ({
-        ...cell,
-        row,
-      }));
-    }
+    // Move the row, shifting the rows between its old and new position
+    const newCells = moveSheetCells(sheet.cells, (row, col) => ({
+      row: this.getReorderedIndex(row, fromIndex, toIndex),
+      col,
+    }));
 
     // Update row heights if present
     let newRowHeights = sheet.rowHeights;
@@ -873,11 +1756,17 @@ export class SpreadsheetDataService {
       newRowHeights.splice(toIndex, 0, movedHeight);
     }
 
+    // Hidden rows move with their contents
+    const hiddenRows = sheet.hiddenRows
+      ?.map((row) => this.getReorderedIndex(row, fromIndex, toIndex))
+      .sort((a, b) => a - b);
+
     // Update the sheet
     const updatedSheet: Sheet = {
       ...sheet,
       cells: newCells,
       rowHeights: newRowHeights,
+      ...(hiddenRows && { hiddenRows }),
     };
 
     this.updateSheet(updatedSheet);
@@ -908,18 +1797,11 @@ export class SpreadsheetDataService {
       return;
     }
 
-    // Create a copy of the cells array
-    const newCells = sheet.cells.map(row => {
-      const newRow = [...row];
-      const [movedCell] = newRow.splice(fromIndex, 1);
-      newRow.splice(toIndex, 0, movedCell);
-
-      // Update column indices in all cells
-      return newRow.map((cell, col) => ({
-        ...cell,
-        col,
-      }));
-    });
+    // Move the column, shifting the columns between its old and new position
+    const newCells = moveSheetCells(sheet.cells, (row, col) => ({
+      row,
+      col: this.getReorderedIndex(col, fromIndex, toIndex),
+    }));
 
     // Update column widths if present
     let newColumnWidths = sheet.columnWidths;
@@ -951,6 +1833,16 @@ export class SpreadsheetDataService {
     });
   }
 
+  /**
+   * Returns where a row or column ends up after the one at `fromIndex` moved to `toIndex`
+   */
+  private getReorderedIndex(index: number, fromIndex: number, toIndex: number): number {
+    if (index === fromIndex) return toIndex;
+    if (fromIndex < toIndex && index > fromIndex && index <= toIndex) return index - 1;
+    if (fromIndex > toIndex && index >= toIndex && index < fromIndex) return index + 1;
+    return index;
+  }
+
   /**
    * Updates formula references after a row reorder
    */
@@ -958,34 +1850,14 @@ export class SpreadsheetDataService {
     const sheet = this.getActiveSheet();
     if (!sheet) return;
 
-    const updatedCells = [...sheet.cells];
-    let hasChanges = false;
-
-    for (let row = 0; row < sheet.rowCount; row++) {
-      for (let col = 0; col < sheet.colCount; col++) {
-        const cell = updatedCells[row][col];
-        if (cell && cell.value && typeof cell.value === 'string' && cell.value.startsWith('=')) {
-          const updatedFormula = this.updateRowReferencesInFormula(cell.value, fromIndex, toIndex);
-          if (updatedFormula !== cell.value) {
-            updatedCells[row] = [...updatedCells[row]];
-            updatedCells[row][col] = {
-              ...cell,
-              value: updatedFormula,
-            };
-            hasChanges = true;
-          }
-        }
-      }
-    }
+    const cells = mapSheetCells(sheet.cells, (cell) => {
+      if (!this.isFormula(cell.value)) return cell;
+      const value = this.updateRowReferencesInFormula(cell.value, fromIndex, toIndex);
+      return value === cell.value ? cell : { ...cell, value };
+    });
 
-    if (hasChanges) {
-      const updatedSheet: Sheet = {
-        ...sheet,
-        cells: updatedCells,
-      };
-      this.updateSheet(updatedSheet);
-      this.recalculateFormulasInSheet(updatedSheet);
-    }
+    // Cells have moved, so the dependency graph is rebuilt even if no formula changed
+    this.updateSheetAndRecalculate(cells !== sheet.cells ? { ...sheet, cells } : sheet);
   }
 
   /**
@@ -995,34 +1867,14 @@ export class SpreadsheetDataService {
     const sheet = this.getActiveSheet();
     if (!sheet) return;
 
-    const updatedCells = [...sheet.cells];
-    let hasChanges = false;
-
-    for (let row = 0; row < sheet.rowCount; row++) {
-      for (let col = 0; col < sheet.colCount; col++) {
-        const cell = updatedCells[row][col];
-        if (cell && cell.value && typeof cell.value === 'string' && cell.value.startsWith('=')) {
-          const updatedFormula = this.updateColumnReferencesInFormula(cell.value, fromIndex, toIndex);
-          if (updatedFormula !== cell.value) {
-            updatedCells[row] = [...updatedCells[row]];
-            updatedCells[row][col] = {
-              ...cell,
-              value: updatedFormula,
-            };
-            hasChanges = true;
-          }
-        }
-      }
-    }
+    const cells = mapSheetCells(sheet.cells, (cell) => {
+      if (!this.isFormula(cell.value)) return cell;
+      const value = this.updateColumnReferencesInFormula(cell.value, fromIndex, toIndex);
+      return value === cell.value ? cell : { ...cell, value };
+    });
 
-    if (hasChanges) {
-      const updatedSheet: Sheet = {
-        ...sheet,
-        cells: updatedCells,
-      };
-      this.updateSheet(updatedSheet);
-      this.recalculateFormulasInSheet(updatedSheet);
-    }
+    // Cells have moved, so the dependency graph is rebuilt even if no formula changed
+    this.updateSheetAndRecalculate(cells !== sheet.cells ? { ...sheet, cells } : sheet);
   }
 
   /**
@@ -1105,42 +1957,1155 @@ export class SpreadsheetDataService {
   }
 
   /**
-   * Undo last action
+   * Gets the current region around a cell: the block of data it belongs to, bounded by
+   * blank rows and columns (as selected by Ctrl+A in Excel)
    */
-  undo(): void {
-    const entry = this.undoStack.pop();
-    if (!entry) return;
+  getCurrentRegion(address: CellAddress): CellRange {
+    const sheet = this.getActiveSheet();
+    if (!sheet) return { start: { ...address }, end: { ...address } };
 
-    // Apply the undo
-    if (entry.type === 'cell-update' && entry.row !== undefined && entry.col !== undefined) {
-      const sheet = this.getActiveSheet();
-      if (!sheet || sheet.id !== entry.sheetId) return;
+    const region = {
+      top: address.row,
+      bottom: address.row,
+      left: address.col,
+      right: address.col,
+    };
 
-      const cell = this.getCell(entry.row, entry.col);
-      if (!cell) return;
+    const hasData = (rowFrom: number, rowTo: number, colFrom: number, colTo: number) => {
+      for (let row = Math.max(0, rowFrom); row <= Math.min(rowTo, sheet.rowCount - 1); row++) {
+        for (let col = Math.max(0, colFrom); col <= Math.min(colTo, sheet.colCount - 1); col++) {
+          const value = sheet.cells[row]?.[col]?.value;
+          if (value !== null && value !== undefined && value !== '') return true;
+        }
+      }
+      return false;
+    };
 
-      // Don't add to history when undoing
-      const updatedCell: Cell = {
-        ...cell,
-        value: entry.oldValue,
-        displayValue: String(entry.oldValue),
-      };
+    // Grow the region while a neighbouring row or column (diagonals included) has data
+    let grown = true;
+    while (grown) {
+      const { top, bottom, left, right } = region;
+      grown = false;
+      if (top > 0 && hasData(top - 1, top - 1, left - 1, right + 1)) {
+        region.top--;
+        grown = true;
+      }
+      if (bottom < sheet.rowCount - 1 && hasData(bottom + 1, bottom + 1, left - 1, right + 1)) {
+        region.bottom++;
+        grown = true;
+      }
+      if (left > 0 && hasData(top - 1, bottom + 1, left - 1, left - 1)) {
+        region.left--;
+        grown = true;
+      }
+      if (right < sheet.colCount - 1 && hasData(top - 1, bottom + 1, right + 1, right + 1)) {
+        region.right++;
+        grown = true;
+      }
+    }
+
+    return {
+      start: { row: region.top, col: region.left },
+      end: { row: region.bottom, col: region.right },
+    };
+  }
+
+  /**
+   * Sorts the rows of a range by one or more levels, as a single undoable step.
+   * A header row (`hasHeader`, detected when omitted) stays in place. Numbers and dates
+   * sort by value ahead of text, blanks always go last, and formulas moved to another row
+   * have their relative references shifted as if copied there.
+   */
+  sortRange(range: CellRange, options: SortOptions): void {
+    const sheet = this.getActiveSheet();
+    if (!sheet || options.levels.length === 0) return;
+
+    const hasHeader = options.hasHeader ?? detectHeaderRow(sheet, range);
+    const top = Math.min(range.start.row, range.end.row) + (hasHeader ? 1 : 0);
+    const bottom = Math.max(range.start.row, range.end.row);
+    if (top >= bottom) return;
+
+    const dataRange = {
+      start: { row: top, col: Math.min(range.start.col, range.end.col) },
+      end: { row: bottom, col: Math.max(range.start.col, range.end.col) },
+    };
+    this.updateSheetWithSnapshot(sheet, this.sortRows(sheet, dataRange, options));
+  }
+
+  /**
+   * Gets the AutoFilter of the active sheet, or null when it has none
+   */
+  getAutoFilter(): AutoFilter | null {
+    return this.getActiveSheet()?.autoFilter ?? null;
+  }
+
+  /**
+   * Turns on the AutoFilter of the active sheet for a range whose first row holds the
+   * column headers, or turns it off (null), showing the rows it hid
+   */
+  setAutoFilter(range: CellRange | null): void {
+    const sheet = this.getActiveSheet();
+    if (!sheet) return;
 
-      const updatedCells = [...sheet.cells];
-      updatedCells[entry.row] = [...updatedCells[entry.row]];
-      updatedCells[entry.row][entry.col] = updatedCell;
+    if (!range) {
+      if (!sheet.autoFilter) return;
 
       const updatedSheet: Sheet = {
         ...sheet,
-        cells: updatedCells,
+        hiddenRows: this.getRowsOutsideFilter(sheet.hiddenRows ?? [], sheet.autoFilter),
       };
+      delete updatedSheet.autoFilter;
+      this.updateSheetAndRecalculate(updatedSheet);
+      return;
+    }
 
-      this.updateSheet(updatedSheet);
+    // Rows the previous AutoFilter hid are shown again before applying the new one
+    const hiddenRows = sheet.autoFilter
+      ? this.getRowsOutsideFilter(sheet.hiddenRows ?? [], sheet.autoFilter)
+      : sheet.hiddenRows;
+    const autoFilter: AutoFilter = {
+      range: {
+        start: {
+          row: Math.min(range.start.row, range.end.row),
+          col: Math.min(range.start.col, range.end.col),
+        },
+        end: {
+          row: Math.max(range.start.row, range.end.row),
+          col: Math.max(range.start.col, range.end.col),
+        },
+      },
+      columns: {},
+    };
 
-      // Move to redo stack
-      this.redoStack.push(entry);
-    } else if (entry.type === 'row-reorder' && entry.fromIndex !== undefined && entry.toIndex !== undefined) {
-      // Undo row reorder by reversing the operation
+    this.updateSheetAndRecalculate(this.applyAutoFilter({ ...sheet, hiddenRows, autoFilter }));
+  }
+
+  /**
+   * Sets the criteria of one column of the AutoFilter, or clears them (null),
+   * and hides the rows that no longer match
+   */
+  setColumnFilter(col: number, filter: ColumnFilter | null): void {
+    const sheet = this.getActiveSheet();
+    const autoFilter = sheet?.autoFilter;
+    if (!sheet || !autoFilter) return;
+    if (col < autoFilter.range.start.col || col > autoFilter.range.end.col) return;
+
+    const columns = { ...autoFilter.columns };
+    if (filter) {
+      columns[col] = filter;
+    } else {
+      delete columns[col];
+    }
+
+    this.updateSheetAndRecalculate(
+      this.applyAutoFilter({ ...sheet, autoFilter: { ...autoFilter, columns } })
+    );
+  }
+
+  /**
+   * Clears the criteria of every column, showing all rows of the AutoFilter
+   */
+  clearColumnFilters(): void {
+    const sheet = this.getActiveSheet();
+    if (!sheet?.autoFilter) return;
+
+    this.updateSheetAndRecalculate(
+      this.applyAutoFilter({ ...sheet, autoFilter: { ...sheet.autoFilter, columns: {} } })
+    );
+  }
+
+  /**
+   * Applies the AutoFilter criteria again, e.g. after the data changed.
+   * Like Excel, editing cells does not re-filter rows by itself.
+   */
+  reapplyAutoFilter(): void {
+    const sheet = this.getActiveSheet();
+    if (!sheet?.autoFilter) return;
+
+    this.updateSheetAndRecalculate(this.applyAutoFilter(sheet));
+  }
+
+  /**
+   * Lists the distinct values of an AutoFilter column for its checklist
+   * ('' stands for blanks), from the rows the other columns' criteria show
+   */
+  getColumnFilterValues(col: number): string[] {
+    const sheet = this.getActiveSheet();
+    if (!sheet?.autoFilter) return [];
+
+    return getColumnFilterValues(sheet, sheet.autoFilter, col);
+  }
+
+  /**
+   * Sorts the data rows of the AutoFilter (below its header row) by one of its columns,
+   * then applies its criteria to the sorted rows, as a single undoable step
+   */
+  sortAutoFilter(col: number, ascending = true): void {
+    const sheet = this.getActiveSheet();
+    const autoFilter = sheet?.autoFilter;
+    if (!sheet || !autoFilter) return;
+
+    const { start, end } = autoFilter.range;
+    if (end.row <= start.row) return;
+
+    const dataRange = { start: { row: start.row + 1, col: start.col }, end };
+    const sorted = this.sortRows(sheet, dataRange, { levels: [{ col, descending: !ascending }] });
+    this.updateSheetWithSnapshot(sheet, this.applyAutoFilter(sorted));
+  }
+
+  /**
+   * Gets the conditional formatting rules of the active sheet, highest priority first
+   */
+  getConditionalFormats(): ConditionalFormatRule[] {
+    return this.getActiveSheet()?.conditionalFormats ?? [];
+  }
+
+  /**
+   * Replaces the conditional formatting rules of the active sheet (highest priority first)
+   */
+  setConditionalFormats(rules: ConditionalFormatRule[]): void {
+    const sheet = this.getActiveSheet();
+    if (!sheet) return;
+
+    const updatedSheet: Sheet = { ...sheet, conditionalFormats: rules };
+    if (rules.length === 0) {
+      delete updatedSheet.conditionalFormats;
+    }
+    this.updateSheet(updatedSheet);
+  }
+
+  /**
+   * Adds a conditional formatting rule to the active sheet with the highest priority,
+   * as Excel does for new rules
+   */
+  addConditionalFormat(rule: ConditionalFormatRule): void {
+    this.setConditionalFormats([rule, ...this.getConditionalFormats()]);
+  }
+
+  /**
+   * Gets the formatting conditional formatting rules give a cell of the active sheet,
+   * or null when no rule applies to it
+   */
+  getConditionalFormat(row: number, col: number): ConditionalFormatResult | null {
+    const sheet = this.getActiveSheet();
+    if (!sheet?.conditionalFormats?.length) return null;
+
+    const sheets = this.getSheets();
+    const names = this.getDefinedNames();
+    let cache = this.conditionalFormatCache;
+    if (!cache || cache.sheet !== sheet || cache.sheets !== sheets) {
+      const results = evaluateConditionalFormats(sheet, {
+        evaluateFormula: (formula, formulaRow, formulaCol) =>
+          this.formulaService.evaluateFormula(
+            formula,
+            sheet.cells,
+            formulaRow,
+            formulaCol,
+            sheets,
+            names
+          ),
+      });
+      cache = this.conditionalFormatCache = { sheets, sheet, results };
+    }
+    return cache.results[row]?.[col] ?? null;
+  }
+
+  /**
+   * Gets the data validation rules of the active sheet
+   */
+  getDataValidations(): DataValidationRule[] {
+    return this.getActiveSheet()?.dataValidations ?? [];
+  }
+
+  /**
+   * Gets the data validation rule of a cell of the active sheet, or null when its entries
+   * are not restricted
+   */
+  getDataValidation(row: number, col: number): DataValidationRule | null {
+    return getDataValidationAt(this.getActiveSheet()?.dataValidations, row, col);
+  }
+
+  /**
+   * Sets the data validation of a range of the active sheet, replacing the rules its cells
+   * had (as in Excel, a cell has at most one rule). A null rule clears validation.
+   * Values already in the range are not checked; see isCellInvalid.
+   */
+  setDataValidation(
+    range: CellRange,
+    rule: Omit<DataValidationRule, 'id' | 'range'> | null
+  ): void {
+    const sheet = this.getActiveSheet();
+    if (!sheet) return;
+
+    const rules = (sheet.dataValidations ?? []).flatMap((existing) =>
+      subtractRange(existing.range, range).map((part, index) => ({
+        ...existing,
+        id: index === 0 ? existing.id : generateDataValidationId(),
+        range: part,
+      }))
+    );
+    if (rule) {
+      rules.push({ ...rule, id: generateDataValidationId(), range: normalizeRange(range) });
+    }
+
+    const updatedSheet: Sheet = { ...sheet, dataValidations: rules };
+    if (rules.length === 0) {
+      delete updatedSheet.dataValidations;
+    }
+    this.updateSheet(updatedSheet);
+  }
+
+  /**
+   * Gets the values a list rule allows, for its in-cell dropdown
+   */
+  getValidationList(rule: DataValidationRule): string[] {
+    const sheet = this.getActiveSheet();
+    if (!sheet) return [];
+    return getListValues(rule, {
+      listValues: this.getListRangeValues(this.getSheets(), sheet, rule),
+    });
+  }
+
+  /**
+   * Checks a value before it is written to a cell of the active sheet, returning the
+   * data validation rule it breaks, or null when it is allowed
+   */
+  validateCellValue(row: number, col: number, value: any): DataValidationRule | null {
+    const sheet = this.getActiveSheet();
+    const rule = this.getDataValidation(row, col);
+    const current = sheet && getSheetCell(sheet, row, col);
+    if (!sheet || !rule || !current) return null;
+
+    // Check the cell as it would be once written, without touching the dependency graph
+    const sheets = this.getSheets();
+    const cell = this.createCellWithValue(current, value);
+    const cells = setSheetCells(sheet.cells, [cell]);
+    if (this.isFormula(cell.value)) {
+      cell.computedValue = this.formulaService.evaluateFormula(
+        cell.value,
+        cells,
+        row,
+        col,
+        sheets,
+        this.getDefinedNames()
+      );
+    }
+
+    const preview: Sheet = { ...sheet, cells };
+    const previewSheets = sheets.map((s) => (s.id === sheet.id ? preview : s));
+    return this.isValidEntry(rule, previewSheets, preview, row, col) ? null : rule;
+  }
+
+  /**
+   * Whether the content of a cell of the active sheet breaks its data validation rule
+   * (for Circle Invalid Data)
+   */
+  isCellInvalid(row: number, col: number): boolean {
+    const sheet = this.getActiveSheet();
+    if (!sheet?.dataValidations?.length) return false;
+
+    const sheets = this.getSheets();
+    let cache = this.invalidCellsCache;
+    if (!cache || cache.sheet !== sheet || cache.sheets !== sheets) {
+      const cells = new Set<string>();
+      for (const rule of sheet.dataValidations) {
+        const { start, end } = normalizeRange(rule.range);
+        for (let r = start.row; r <= Math.min(end.row, sheet.rowCount - 1); r++) {
+          for (let c = start.col; c <= Math.min(end.col, sheet.colCount - 1); c++) {
+            if (!this.isValidEntry(rule, sheets, sheet, r, c)) cells.add(`${r}:${c}`);
+          }
+        }
+      }
+      cache = this.invalidCellsCache = { sheets, sheet, cells };
+    }
+    return cache.cells.has(`${row}:${col}`);
+  }
+
+  /**
+   * Gets the comment thread of a cell of the active sheet, or null when it has none
+   */
+  getComment(row: number, col: number): CellComment | null {
+    return this.getCell(row, col)?.comment ?? null;
+  }
+
+  /**
+   * Starts the comment thread of a cell of the active sheet, replacing the one it had
+   */
+  addComment(row: number, col: number, text: string, author: string): void {
+    this.updateComment(row, col, () => createCommentEntry(text, author));
+  }
+
+  /**
+   * Adds a reply to the comment thread of a cell of the active sheet. Resolved threads
+   * take no replies until they are reopened.
+   */
+  replyToComment(row: number, col: number, text: string, author: string): void {
+    this.updateComment(row, col, (comment) =>
+      comment && !comment.resolved
+        ? { ...comment, replies: [...(comment.replies ?? []), createCommentEntry(text, author)] }
+        : comment
+    );
+  }
+
+  /**
+   * Changes the text of a comment of a cell's thread (the first one or a reply)
+   */
+  editComment(row: number, col: number, id: string, text: string): void {
+    const editedAt = new Date().toISOString();
+    this.updateComment(row, col, (comment) => {
+      if (!comment) return comment;
+      if (comment.id === id) return { ...comment, text, editedAt };
+      return {
+        ...comment,
+        replies: comment.replies?.map((reply) =>
+          reply.id === id ? { ...reply, text, editedAt } : reply
+        ),
+      };
+    });
+  }
+
+  /**
+   * Deletes a reply of a cell's comment thread, or the whole thread when `id` is omitted
+   * or is the first comment's
+   */
+  deleteComment(row: number, col: number, id?: string): void {
+    this.updateComment(row, col, (comment) => {
+      if (!comment || id === undefined || comment.id === id) return undefined;
+      const replies = comment.replies?.filter((reply) => reply.id !== id);
+      const updated: CellComment = { ...comment, replies };
+      if (!replies?.length) delete updated.replies;
+      return updated;
+    });
+  }
+
+  /**
+   * Marks the comment thread of a cell of the active sheet as resolved, or reopens it
+   */
+  setCommentResolved(row: number, col: number, resolved: boolean): void {
+    this.updateComment(row, col, (comment) => {
+      if (!comment) return comment;
+      const updated: CellComment = { ...comment, resolved };
+      if (!resolved) delete updated.resolved;
+      return updated;
+    });
+  }
+
+  /**
+   * Gets the merged cell covering a cell of the active sheet, or null when it is not merged
+   */
+  getMergeAt(row: number, col: number): CellRange | null {
+    return getMergeAt(this.getActiveSheet()?.merges, row, col);
+  }
+
+  /**
+   * Whether merging a range would discard values: only the top-left cell of each merged
+   * cell keeps its value
+   */
+  mergeWouldDiscardData(range: CellRange, across = false): boolean {
+    const sheet = this.getActiveSheet();
+    if (!sheet) return false;
+
+    return getMergeAreas(expandRangeToMerges(sheet.merges, range), across).some((area) =>
+      this.getAreaCells(sheet, area).some(
+        (cell) =>
+          (cell.row !== area.start.row || cell.col !== area.start.col) &&
+          cell.value !== '' &&
+          cell.value !== null &&
+          cell.value !== undefined
+      )
+    );
+  }
+
+  /**
+   * Merges a range into one cell (or each of its rows with `across`), as a single undoable
+   * step. Merged cells it touches are merged into it; values other than the top-left one
+   * of each merged cell are cleared, and `center` centers the kept values.
+   */
+  mergeCells(range: CellRange, options: { across?: boolean; center?: boolean } = {}): void {
+    const sheet = this.getActiveSheet();
+    if (!sheet) return;
+
+    const expanded = normalizeRange(expandRangeToMerges(sheet.merges, range));
+    const areas = getMergeAreas(expanded, options.across);
+    if (areas.length === 0) return;
+
+    const updates: Cell[] = [];
+    for (const area of areas) {
+      for (const cell of this.getAreaCells(sheet, area)) {
+        if (cell.row === area.start.row && cell.col === area.start.col) {
+          if (options.center) {
+            updates.push({ ...cell, style: { ...cell.style, textAlign: 'center' } });
+          }
+        } else {
+          const emptyCell = createEmptyCell(cell.row, cell.col);
+          updates.push(cell.style ? { ...emptyCell, style: cell.style } : emptyCell);
+        }
+      }
+    }
+    const cells = setSheetCells(sheet.cells, updates);
+
+    const merges = [
+      ...(sheet.merges ?? []).filter((merge) => !rangesIntersect(merge, expanded)),
+      ...areas,
+    ];
+    this.updateSheetWithSnapshot(sheet, { ...sheet, cells, merges });
+  }
+
+  /**
+   * Splits the merged cells a range touches back into single cells, as a single undoable step
+   */
+  unmergeCells(range: CellRange): void {
+    const sheet = this.getActiveSheet();
+    if (!sheet?.merges?.some((merge) => rangesIntersect(merge, range))) return;
+
+    const merges = sheet.merges.filter((merge) => !rangesIntersect(merge, range));
+    this.updateSheetWithSnapshot(sheet, { ...sheet, merges });
+  }
+
+  /**
+   * Lists the cells matching a Find, sheet by sheet in workbook order and row by row.
+   * Throws a SyntaxError when `useRegex` is set and the query is not a valid expression.
+   */
+  findAll(options: FindOptions): FindMatch[] {
+    if (options.query === '') return [];
+
+    const pattern = createSearchPattern(options);
+    const activeSheet = this.getActiveSheet();
+    const sheets =
+      options.scope === 'workbook' ? this.getSheets() : activeSheet ? [activeSheet] : [];
+    return sheets.flatMap((sheet) => findInSheet(sheet, pattern, options.lookIn));
+  }
+
+  /**
+   * Goes to the next cell matching a Find after the selected cell (or the previous one
+   * before it), wrapping around the sheet or workbook. Returns null when nothing matches.
+   */
+  findNext(options: FindOptions, previous = false): FindMatch | null {
+    const matches = this.findAll(options);
+    if (matches.length === 0) return null;
+
+    const sheetIds = this.getSheets().map((sheet) => sheet.id);
+    const selected = this.getSelectedCell();
+    const current = [this.getData().activeSheetIndex, selected?.row ?? -1, selected?.col ?? -1];
+    const compare = (match: FindMatch) =>
+      sheetIds.indexOf(match.sheetId) - current[0] ||
+      match.row - current[1] ||
+      match.col - current[2];
+
+    const match = previous
+      ? [...matches].reverse().find((m) => compare(m) < 0) ?? matches[matches.length - 1]
+      : matches.find((m) => compare(m) > 0) ?? matches[0];
+    this.goToMatch(match);
+    return match;
+  }
+
+  /**
+   * Activates the sheet of a Find match and selects its cell
+   */
+  goToMatch(match: FindMatch): void {
+    const index = this.getSheets().findIndex((sheet) => sheet.id === match.sheetId);
+    if (index === -1) return;
+
+    if (index !== this.getData().activeSheetIndex) {
+      this.setActiveSheet(index);
+    }
+    this.selectCell({ row: match.row, col: match.col });
+  }
+
+  /**
+   * Replaces the matches in the selected cell if it matches, then goes to the next match.
+   * Like Excel, Replace works on cell contents as typed (formulas rather than results).
+   */
+  replace(options: FindOptions, replacement: string): FindMatch | null {
+    const replaceOptions: FindOptions = { ...options, lookIn: 'formulas' };
+    const selected = this.getSelectedCell();
+
+    if (selected && options.query !== '') {
+      const pattern = createSearchPattern(replaceOptions);
+      const text = getSearchText(this.getCell(selected.row, selected.col) ?? undefined, 'formulas');
+      if (text !== '' && pattern.test(text)) {
+        const value = replaceMatches(text, pattern, replacement, options.useRegex);
+        this.updateCell(selected.row, selected.col, value);
+      }
+    }
+
+    return this.findNext(replaceOptions);
+  }
+
+  /**
+   * Replaces the matches in every matching cell and returns the number of cells changed.
+   * Each cell goes through updateCell; together they are undone as a single step.
+   */
+  replaceAll(options: FindOptions, replacement: string): number {
+    const replaceOptions: FindOptions = { ...options, lookIn: 'formulas' };
+    const matches = this.findAll(replaceOptions);
+    if (matches.length === 0) return 0;
+
+    const pattern = createSearchPattern(replaceOptions);
+    const sheetIds = [...new Set(matches.map((match) => match.sheetId))];
+    this.recordAsOneStep(() => {
+      for (const sheetId of sheetIds) {
+        this.withActiveSheet(sheetId, () => {
+          for (const match of matches.filter((m) => m.sheetId === sheetId)) {
+            const value = replaceMatches(match.text, pattern, replacement, options.useRegex);
+            this.updateCell(match.row, match.col, value);
+          }
+        });
+      }
+    });
+    return matches.length;
+  }
+
+  /**
+   * Hides the rows of a sheet's AutoFilter that fail its criteria and shows the others,
+   * leaving rows hidden outside its range as they are
+   */
+  private applyAutoFilter(sheet: Sheet): Sheet {
+    if (!sheet.autoFilter) return sheet;
+
+    const hiddenRows = [
+      ...this.getRowsOutsideFilter(sheet.hiddenRows ?? [], sheet.autoFilter),
+      ...getFilteredRows(sheet, sheet.autoFilter),
+    ].sort((a, b) => a - b);
+    return { ...sheet, hiddenRows };
+  }
+
+  /**
+   * Returns the rows that lie outside the data rows of an AutoFilter
+   */
+  private getRowsOutsideFilter(rows: number[], autoFilter: AutoFilter): number[] {
+    const { start, end } = autoFilter.range;
+    return rows.filter((row) => row <= start.row || row > end.row);
+  }
+
+  /**
+   * Returns a copy of a sheet with the rows of a range sorted by the given levels
+   */
+  private sortRows(
+    sheet: Sheet,
+    range: CellRange,
+    options: Pick<SortOptions, 'levels' | 'caseSensitive'>
+  ): Sheet {
+    const minRow = Math.min(range.start.row, range.end.row);
+    const minCol = Math.min(range.start.col, range.end.col);
+    const maxCol = Math.max(range.start.col, range.end.col);
+
+    const updates: Cell[] = [];
+    getSortedRows(sheet, range, options).forEach((sourceRow, index) => {
+      const targetRow = minRow + index;
+      if (sourceRow === targetRow) return;
+
+      for (let c = minCol; c <= Math.min(maxCol, sheet.colCount - 1); c++) {
+        const cell = getSheetCell(sheet, sourceRow, c)!;
+        const value = this.isFormula(cell.value)
+          ? shiftFormulaReferences(cell.value, targetRow - sourceRow, 0)
+          : cell.value;
+        updates.push({ ...cell, row: targetRow, value });
+      }
+    });
+
+    return { ...sheet, cells: setSheetCells(sheet.cells, updates) };
+  }
+
+  /**
+   * Lists the cells of a range of a sheet, row by row
+   */
+  private getAreaCells(sheet: Sheet, range: CellRange): Cell[] {
+    const { start, end } = normalizeRange(range);
+    const cells: Cell[] = [];
+    for (let row = start.row; row <= Math.min(end.row, sheet.rowCount - 1); row++) {
+      for (let col = start.col; col <= Math.min(end.col, sheet.colCount - 1); col++) {
+        cells.push(getSheetCell(sheet, row, col)!);
+      }
+    }
+    return cells;
+  }
+
+  /**
+   * Whether the content of a cell is allowed by a data validation rule
+   */
+  private isValidEntry(
+    rule: DataValidationRule,
+    sheets: Sheet[],
+    sheet: Sheet,
+    row: number,
+    col: number
+  ): boolean {
+    const names = this.getDefinedNames();
+    return isValidCell(rule, sheet.cells[row]?.[col], row, col, {
+      evaluateFormula: (formula, formulaRow, formulaCol) =>
+        this.formulaService.evaluateFormula(
+          formula,
+          sheet.cells,
+          formulaRow,
+          formulaCol,
+          sheets,
+          names
+        ),
+      listValues: this.getListRangeValues(sheets, sheet, rule),
+    });
+  }
+
+  /**
+   * Gets the displayed values of the cells a list rule takes its values from
+   * (on another sheet when its reference names one)
+   */
+  private getListRangeValues(sheets: Sheet[], sheet: Sheet, rule: DataValidationRule): string[] {
+    const range = rule.listRange;
+    if (!range) return [];
+
+    const source =
+      range.sheet === undefined
+        ? sheet
+        : sheets.find((s) => s.name.toLowerCase() === range.sheet!.toLowerCase());
+    if (!source) return [];
+    return this.getAreaCells(source, range).map((cell) =>
+      String(cell.displayValue ?? cell.value ?? '')
+    );
+  }
+
+  /**
+   * Replaces the comment thread of a cell of the active sheet with what `update` returns
+   * (undefined removes it). Comments are not part of the undo history.
+   */
+  private updateComment(
+    row: number,
+    col: number,
+    update: (comment: CellComment | undefined) => CellComment | undefined
+  ): void {
+    const sheet = this.getActiveSheet();
+    const cell = sheet && getSheetCell(sheet, row, col);
+    if (!sheet || !cell) return;
+
+    const comment = update(cell.comment);
+    if (comment === cell.comment) return;
+
+    const updatedCell: Cell = { ...cell, comment };
+    if (!comment) delete updatedCell.comment;
+
+    this.updateSheet({ ...sheet, cells: setSheetCells(sheet.cells, [updatedCell]) });
+  }
+
+  /**
+   * Turns the plain-text notes of data saved before comment threads existed into threads
+   * without an author
+   */
+  private upgradeComments(sheets: Sheet[]): Sheet[] {
+    return sheets.map((sheet) => {
+      const cells = mapSheetCells(sheet.cells, (cell) =>
+        typeof (cell.comment as unknown) === 'string'
+          ? { ...cell, comment: createCommentEntry(String(cell.comment), '') }
+          : cell
+      );
+      return cells !== sheet.cells ? { ...sheet, cells } : sheet;
+    });
+  }
+
+  /**
+   * Gets the defined names of the workbook: workbook names and names scoped to a sheet
+   */
+  getDefinedNames(): DefinedName[] {
+    return this.getData().names ?? [];
+  }
+
+  /**
+   * Finds the defined name a formula on a sheet (the active sheet by default) refers to
+   * with `name`: a name scoped to that sheet, otherwise a workbook name
+   */
+  resolveDefinedName(
+    name: string,
+    sheetId = this.getActiveSheet()?.id
+  ): DefinedName | undefined {
+    return findDefinedName(this.getDefinedNames(), name, sheetId);
+  }
+
+  /**
+   * Finds a defined name visible from the active sheet that refers to exactly the given
+   * range of that sheet, for the name box to show it
+   */
+  getDefinedNameOfRange(range: CellRange): DefinedName | undefined {
+    const sheet = this.getActiveSheet();
+    if (!sheet) return undefined;
+
+    const { start, end } = normalizeRange(range);
+    const sheetName = sheet.name.toLowerCase();
+    const matches = this.getDefinedNames().filter(
+      (defined) =>
+        defined.range?.sheet?.toLowerCase() === sheetName &&
+        defined.range.start.row === start.row &&
+        defined.range.start.col === start.col &&
+        defined.range.end.row === end.row &&
+        defined.range.end.col === end.col &&
+        this.resolveDefinedName(defined.name, sheet.id) === defined
+    );
+    return matches.find((defined) => defined.sheetId === sheet.id) ?? matches[0];
+  }
+
+  /**
+   * Defines a name for a cell or range, given as a reference ('Settings!$B$2', 'A2:F500')
+   * or a range. References without a sheet point at the sheet the name is scoped to, or at
+   * the active sheet for workbook names. Returns the new name, or null when the name is
+   * invalid or taken (see getDefinedNameError) or the reference is not a cell or range.
+   */
+  addDefinedName(
+    name: string,
+    refersTo: string | CellRange,
+    options: { sheetId?: string; comment?: string } = {}
+  ): DefinedName | null {
+    const names = this.getDefinedNames();
+    const trimmed = name.trim();
+    if (getDefinedNameError(trimmed, names, options.sheetId)) return null;
+
+    const range = this.toDefinedNameRange(refersTo, options.sheetId);
+    if (!range) return null;
+
+    const defined: DefinedName = { id: generateDefinedNameId(), name: trimmed, range };
+    if (options.sheetId !== undefined) defined.sheetId = options.sheetId;
+    if (options.comment) defined.comment = options.comment;
+
+    this.updateDefinedNames([...names, defined], this.getSheets());
+    return defined;
+  }
+
+  /**
+   * Changes the name, reference or comment of a defined name. Renaming it also renames
+   * it in the formulas that use it. Returns false when the name does not exist or a
+   * change is invalid (see addDefinedName).
+   */
+  updateDefinedName(
+    id: string,
+    changes: { name?: string; refersTo?: string | CellRange; comment?: string }
+  ): boolean {
+    const names = this.getDefinedNames();
+    const current = names.find((defined) => defined.id === id);
+    if (!current) return false;
+
+    const updated: DefinedName = { ...current };
+    let sheets = this.getSheets();
+
+    if (changes.name !== undefined && changes.name.trim() !== current.name) {
+      const name = changes.name.trim();
+      if (getDefinedNameError(name, names, current.sheetId, id)) return false;
+      sheets = this.renameInFormulas(sheets, current, name);
+      updated.name = name;
+    }
+    if (changes.refersTo !== undefined) {
+      const range = this.toDefinedNameRange(changes.refersTo, current.sheetId);
+      if (!range) return false;
+      updated.range = range;
+    }
+    if (changes.comment !== undefined) {
+      updated.comment = changes.comment;
+      if (!changes.comment) delete updated.comment;
+    }
+
+    this.updateDefinedNames(
+      names.map((defined) => (defined.id === id ? updated : defined)),
+      sheets
+    );
+    return true;
+  }
+
+  /**
+   * Deletes a defined name; formulas that still use it evaluate to #NAME?
+   */
+  deleteDefinedName(id: string): void {
+    const names = this.getDefinedNames();
+    if (!names.some((defined) => defined.id === id)) return;
+
+    this.updateDefinedNames(
+      names.filter((defined) => defined.id !== id),
+      this.getSheets()
+    );
+  }
+
+  /**
+   * Selects what the name box was given: a defined name, or a cell or range in A1
+   * notation that may name its sheet ('Sheet2!B3'). Activates the sheet it is on.
+   * Returns false when it is neither or lies outside its sheet.
+   */
+  goToReference(text: string): boolean {
+    const activeSheet = this.getActiveSheet();
+    const trimmed = text.trim();
+    if (!activeSheet || trimmed === '') return false;
+
+    const defined = this.resolveDefinedName(trimmed);
+    const range = defined ? defined.range : parseNameReference(trimmed, activeSheet.name);
+    const sheet = range?.sheet !== undefined && this.findSheetByName(this.getSheets(), range.sheet);
+    if (!range || !sheet) return false;
+
+    const { start, end } = normalizeRange(range);
+    if (end.row >= sheet.rowCount || end.col >= sheet.colCount) return false;
+
+    const index = this.getSheets().indexOf(sheet);
+    if (index !== this.getData().activeSheetIndex) {
+      this.setActiveSheet(index);
+    }
+    if (isSingleCell(range)) {
+      this.selectCell(start);
+    } else {
+      this.selectRange({ start, end });
+    }
+    return true;
+  }
+
+  /**
+   * Parses what a defined name refers to, qualifying references without a sheet with the
+   * sheet the name is scoped to (or the active sheet). Returns null when it is not a cell
+   * or range.
+   */
+  private toDefinedNameRange(refersTo: string | CellRange, sheetId?: string): CellRange | null {
+    const scopeSheet = this.getSheets().find((sheet) => sheet.id === sheetId);
+    if (sheetId !== undefined && !scopeSheet) return null;
+
+    const sheetName = (scopeSheet ?? this.getActiveSheet())?.name ?? '';
+    return parseNameReference(
+      typeof refersTo === 'string' ? refersTo : cellRangeToA1(refersTo),
+      sheetName
+    );
+  }
+
+  /**
+   * Replaces the defined names of the workbook and recalculates every formula with them
+   */
+  private updateDefinedNames(names: DefinedName[], sheets: Sheet[]): void {
+    const data = this.getData();
+
+    this._data$.next({
+      ...data,
+      names,
+      sheets: this.recalculateWorkbook(sheets, undefined, names),
+      metadata: {
+        ...data.metadata,
+        modifiedDate: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Rewrites the ranges of the defined names that point into a sheet (by name).
+   * A name whose range becomes null is kept and refers to #REF!, as in Excel.
+   */
+  private rewriteDefinedNames(
+    sheetName: string,
+    transform: (range: CellRange) => CellRange | null
+  ): DefinedName[] {
+    const lowerName = sheetName.toLowerCase();
+    return this.getDefinedNames().map((defined) => {
+      if (defined.range?.sheet?.toLowerCase() !== lowerName) return defined;
+
+      const range = transform(defined.range);
+      if (range === defined.range) return defined;
+
+      const updated: DefinedName = { ...defined };
+      if (range) {
+        updated.range = range;
+      } else {
+        delete updated.range;
+      }
+      return updated;
+    });
+  }
+
+  /**
+   * Renames a defined name in the formulas that refer to it: those on the sheet it is
+   * scoped to, or for workbook names those on sheets without a name of their own spelled
+   * the same
+   */
+  private renameInFormulas(sheets: Sheet[], defined: DefinedName, newName: string): Sheet[] {
+    return sheets.map((sheet) => {
+      if (this.resolveDefinedName(defined.name, sheet.id) !== defined) return sheet;
+
+      const cells = mapSheetCells(sheet.cells, (cell) => {
+        if (!this.isFormula(cell.value)) return cell;
+        const value = renameFormulaName(cell.value, defined.name, newName);
+        return value === cell.value ? cell : { ...cell, value };
+      });
+      return cells !== sheet.cells ? { ...sheet, cells } : sheet;
+    });
+  }
+
+  /**
+   * Writes converted CSV values into a sheet from an origin cell. Empty values clear
+   * the cell they land on.
+   */
+  private writeCsvValues(sheet: Sheet, values: (CsvValue | null)[][], origin: CellAddress): Sheet {
+    const updates: Cell[] = [];
+    values.forEach((rowValues, i) => {
+      const row = origin.row + i;
+      rowValues.forEach((csvValue, j) => {
+        const col = origin.col + j;
+        const cell = getSheetCell(sheet, row, col)!;
+        if (!csvValue && cell.value === '') return;
+
+        const { value, format } = csvValue ?? { value: '' };
+        const style = format ? { ...cell.style, numberFormatPattern: format } : cell.style;
+        updates.push(this.createCellWithValue({ ...cell, style }, value));
+      });
+    });
+    return { ...sheet, cells: setSheetCells(sheet.cells, updates) };
+  }
+
+  /**
+   * Adds empty rows and columns at the end of a sheet until it has at least the given
+   * size. Returns the sheet itself when it is large enough.
+   */
+  private growSheet(sheet: Sheet, rowCount: number, colCount: number): Sheet {
+    if (rowCount <= sheet.rowCount && colCount <= sheet.colCount) return sheet;
+
+    const rows = Math.max(rowCount, sheet.rowCount);
+    const cols = Math.max(colCount, sheet.colCount);
+
+    // The added rows and columns are empty, so no cells are stored for them
+    return {
+      ...sheet,
+      rowCount: rows,
+      colCount: cols,
+      rowHeights: [
+        ...(sheet.rowHeights || []),
+        ...Array(rows - sheet.rowCount).fill(sheet.defaultRowHeight || 25),
+      ],
+      columnWidths: [
+        ...(sheet.columnWidths || []),
+        ...Array(cols - sheet.colCount).fill(sheet.defaultColumnWidth || 100),
+      ],
+    };
+  }
+
+  /**
+   * Makes a sheet name unique (ignoring case) by appending (2), (3)... as needed
+   */
+  private getUniqueSheetName(name: string): string {
+    const sheets = this.getSheets();
+    let unique = name;
+    for (let n = 2; this.findSheetByName(sheets, unique); n++) {
+      unique = `${name} (${n})`;
+    }
+    return unique;
+  }
+
+  /**
+   * Replaces a sheet whose cells were rearranged and records the change as one undo step
+   */
+  private updateSheetWithSnapshot(sheet: Sheet, updatedSheet: Sheet): void {
+    const snapshot = ({ cells, hiddenRows, merges }: Sheet): SheetSnapshot => ({
+      cells,
+      hiddenRows,
+      merges,
+    });
+    this.addToHistory({
+      type: 'sheet-snapshot',
+      sheetId: sheet.id,
+      oldValue: snapshot(sheet),
+      newValue: snapshot(updatedSheet),
+      timestamp: Date.now(),
+    });
+    this.updateSheetAndRecalculate(updatedSheet);
+  }
+
+  /**
+   * Puts back the cells, hidden rows and merged cells a sheet-snapshot entry recorded
+   */
+  private restoreSnapshot(sheetId: string, snapshot: SheetSnapshot): void {
+    const sheet = this.getSheets().find((s) => s.id === sheetId);
+    if (!sheet) return;
+
+    const updatedSheet: Sheet = { ...sheet, cells: snapshot.cells };
+    if (snapshot.hiddenRows) {
+      updatedSheet.hiddenRows = snapshot.hiddenRows;
+    } else {
+      delete updatedSheet.hiddenRows;
+    }
+    if (snapshot.merges) {
+      updatedSheet.merges = snapshot.merges;
+    } else {
+      delete updatedSheet.merges;
+    }
+    this.updateSheetAndRecalculate(updatedSheet);
+  }
+
+  /**
+   * Runs changes that each record history and keeps them as a single undo step
+   */
+  private recordAsOneStep(action: () => void): void {
+    this.batchEntries = [];
+    action();
+    const entries = this.batchEntries;
+    this.batchEntries = null;
+
+    if (entries.length > 0) {
+      this.addToHistory({
+        type: 'batch',
+        sheetId: entries[0].sheetId,
+        entries,
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * Undoes (newest first) or redoes the entries of a batch, each on its own sheet
+   */
+  private replayBatch(entries: HistoryEntry[], direction: 'undo' | 'redo'): void {
+    const undoStack = this.undoStack;
+    const redoStack = this.redoStack;
+
+    const ordered = direction === 'undo' ? [...entries].reverse() : entries;
+    for (const entry of ordered) {
+      this.undoStack = direction === 'undo' ? [entry] : [];
+      this.redoStack = direction === 'redo' ? [entry] : [];
+      this.withActiveSheet(entry.sheetId, () =>
+        direction === 'undo' ? this.undo() : this.redo()
+      );
+    }
+
+    this.undoStack = undoStack;
+    this.redoStack = redoStack;
+  }
+
+  /**
+   * Runs an action that works on the active sheet against another sheet, then
+   * activates the previously active sheet again
+   */
+  private withActiveSheet(sheetId: string, action: () => void): void {
+    const activeIndex = this.getData().activeSheetIndex;
+    const index = this.getSheets().findIndex((sheet) => sheet.id === sheetId);
+    if (index === -1) return;
+
+    if (index === activeIndex) {
+      action();
+      return;
+    }
+    this.setActiveSheet(index);
+    action();
+    this.setActiveSheet(activeIndex);
+  }
+
+  /**
+   * Undo last action
+   */
+  undo(): void {
+    const entry = this.undoStack.pop();
+    if (!entry) return;
+
+    // Apply the undo
+    if (entry.type === 'cell-update' && entry.row !== undefined && entry.col !== undefined) {
+      const sheet = this.getActiveSheet();
+      if (!sheet || sheet.id !== entry.sheetId) return;
+
+      const cell = this.getCell(entry.row, entry.col);
+      if (!cell) return;
+
+      // Don't add to history when undoing
+      const sheets = this.restoreCellStyle(this.getSheets(), entry, entry.oldStyle);
+      this.updateSheets(
+        this.applyCellValue(sheets, sheet.id, entry.row, entry.col, entry.oldValue)
+      );
+
+      // Move to redo stack
+      this.redoStack.push(entry);
+    } else if (entry.type === 'row-reorder' && entry.fromIndex !== undefined && entry.toIndex !== undefined) {
+      // Undo row reorder by reversing the operation
       // Temporarily disable history tracking
       const tempStack = this.undoStack;
       this.undoStack = [];
@@ -1161,6 +3126,12 @@ export class SpreadsheetDataService {
       // Restore undo stack and move entry to redo
       this.undoStack = tempStack;
       this.redoStack.push(entry);
+    } else if (entry.type === 'sheet-snapshot') {
+      this.restoreSnapshot(entry.sheetId, entry.oldValue);
+      this.redoStack.push(entry);
+    } else if (entry.type === 'batch' && entry.entries) {
+      this.replayBatch(entry.entries, 'undo');
+      this.redoStack.push(entry);
     }
   }
 
@@ -1179,22 +3150,10 @@ export class SpreadsheetDataService {
       const cell = this.getCell(entry.row, entry.col);
       if (!cell) return;
 
-      const updatedCell: Cell = {
-        ...cell,
-        value: entry.newValue,
-        displayValue: String(entry.newValue),
-      };
-
-      const updatedCells = [...sheet.cells];
-      updatedCells[entry.row] = [...updatedCells[entry.row]];
-      updatedCells[entry.row][entry.col] = updatedCell;
-
-      const updatedSheet: Sheet = {
-        ...sheet,
-        cells: updatedCells,
-      };
-
-      this.updateSheet(updatedSheet);
+      const sheets = this.restoreCellStyle(this.getSheets(), entry, entry.newStyle);
+      this.updateSheets(
+        this.applyCellValue(sheets, sheet.id, entry.row, entry.col, entry.newValue)
+      );
 
       // Move back to undo stack
       this.undoStack.push(entry);
@@ -1220,6 +3179,12 @@ export class SpreadsheetDataService {
       // Restore undo stack and move entry back
       this.undoStack = tempStack;
       this.undoStack.push(entry);
+    } else if (entry.type === 'sheet-snapshot') {
+      this.restoreSnapshot(entry.sheetId, entry.newValue);
+      this.undoStack.push(entry);
+    } else if (entry.type === 'batch' && entry.entries) {
+      this.replayBatch(entry.entries, 'redo');
+      this.undoStack.push(entry);
     }
   }
 
@@ -1227,6 +3192,11 @@ export class SpreadsheetDataService {
    * Adds an entry to the undo history
    */
   private addToHistory(entry: HistoryEntry): void {
+    if (this.batchEntries) {
+      this.batchEntries.push(entry);
+      return;
+    }
+
     this.undoStack.push(entry);
 
     // Limit history size
@@ -1238,6 +3208,33 @@ export class SpreadsheetDataService {
     this.redoStack = [];
   }
 
+  /**
+   * Puts back the style a cell-update entry recorded, before its value is reapplied.
+   * Entries that did not change the style leave the sheets untouched.
+   */
+  private restoreCellStyle(
+    sheets: Sheet[],
+    entry: HistoryEntry,
+    style: CellStyle | null | undefined
+  ): Sheet[] {
+    if (style === undefined || entry.row === undefined || entry.col === undefined) {
+      return sheets;
+    }
+    const { row, col } = entry;
+
+    return sheets.map((sheet) => {
+      if (sheet.id !== entry.sheetId) return sheet;
+
+      const cell: Cell = { ...getSheetCell(sheet, row, col)! };
+      if (style) {
+        cell.style = style;
+      } else {
+        delete cell.style;
+      }
+      return { ...sheet, cells: setSheetCells(sheet.cells, [cell]) };
+    });
+  }
+
   /**
    * Clears undo/redo history
    */
@@ -0,0 +1,25 @@
+import { Provider } from '@angular/core';
+import { FormulaService } from './formula.service';
+import { SpreadsheetDataService } from './spreadsheet-data.service';
+
+/**
+ * Provides a spreadsheet store: a SpreadsheetDataService with its own FormulaService.
+ *
+ * Every `<ngs-spreadsheet>` gets an isolated store by default. Add these providers to a
+ * host component (or route) to inject the store there and have every spreadsheet below
+ * the host use it instead.
+ *
+ * @example
+ * ```typescript
+ * @Component({
+ *   providers: [provideSpreadsheetStore()],
+ *   template: '<ngs-spreadsheet [data]="data" />',
+ * })
+ * export class BudgetComponent {
+ *   private readonly store = inject(SpreadsheetDataService);
+ * }
+ * ```
+ */
+export function provideSpreadsheetStore(): Provider[] {
+  return [SpreadsheetDataService, FormulaService];
+}
@@ -0,0 +1,5 @@
+/**
+ * Public API for range sorting
+ */
+
+export * from './range-sort';
@@ -0,0 +1,109 @@
+import { Sheet, createEmptySheet, getSheetCell } from '../models';
+import { compareSortCells, detectHeaderRow, getSortedRows } from './range-sort';
+import { numberCell, setCells, textCell } from '../../testing/spec-helpers';
+
+describe('Range sort', () => {
+  let sheet: Sheet;
+
+  beforeEach(() => {
+    sheet = createEmptySheet({ rowCount: 10, colCount: 3 });
+  });
+
+  describe('compareSortCells', () => {
+    it('should put numbers before text and blanks last in both directions', () => {
+      const cells = [textCell(0, 0, 'b'), { row: 1, col: 0, value: null }, numberCell(2, 0, 3)];
+      const sorted = (descending: boolean) =>
+        [...cells].sort((a, b) => compareSortCells(a, b, descending)).map((c) => c.value);
+
+      expect(sorted(false)).toEqual([3, 'b', null]);
+      expect(sorted(true)).toEqual(['b', 3, null]);
+    });
+
+    it('should only tell case apart when case sensitive, lower case first', () => {
+      const upper = textCell(0, 0, 'ABC');
+      const lower = textCell(1, 0, 'abc');
+      expect(compareSortCells(upper, lower)).toBe(0);
+      expect(compareSortCells(upper, lower, false, true)).toBeGreaterThan(0);
+    });
+  });
+
+  describe('detectHeaderRow', () => {
+    const range = { start: { row: 0, col: 0 }, end: { row: 2, col: 1 } };
+
+    it('should detect text above numbers', () => {
+      setCells(
+        sheet,
+        textCell(0, 0, 'Item'),
+        textCell(0, 1, 'Price'),
+        textCell(1, 0, 'Pen'),
+        numberCell(1, 1, 2)
+      );
+      expect(detectHeaderRow(sheet, range)).toBeTrue();
+    });
+
+    it('should detect a header formatted differently from the data', () => {
+      setCells(
+        sheet,
+        { ...textCell(0, 0, 'Item'), style: { fontWeight: 'bold' } },
+        textCell(1, 0, 'Pen')
+      );
+      expect(detectHeaderRow(sheet, range)).toBeTrue();
+    });
+
+    it('should not detect a header in plain text or numeric rows', () => {
+      setCells(sheet, textCell(0, 0, 'Pen'), textCell(1, 0, 'Ink'));
+      expect(detectHeaderRow(sheet, range)).toBeFalse();
+
+      setCells(sheet, numberCell(0, 1, 2020), numberCell(1, 1, 5));
+      expect(detectHeaderRow(sheet, range)).toBeFalse();
+    });
+  });
+
+  describe('getSortedRows', () => {
+    const range = { start: { row: 1, col: 0 }, end: { row: 4, col: 1 } };
+
+    beforeEach(() => {
+      setCells(
+        sheet,
+        ...['Fri', 'monday', 'Sat', 'Tue'].map((day, index) => textCell(index + 1, 0, day))
+      );
+    });
+
+    it('should order by a custom list, with other values after it', () => {
+      const customList = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+      expect(getSortedRows(sheet, range, { levels: [{ col: 0, customList }] })).toEqual([
+        4, 1, 3, 2,
+      ]);
+      expect(
+        getSortedRows(sheet, range, { levels: [{ col: 0, customList, descending: true }] })
+      ).toEqual([3, 1, 4, 2]);
+    });
+
+    it('should bring a fill or font color to the top or bottom', () => {
+      setCells(
+        sheet,
+        { ...getSheetCell(sheet, 3, 0)!, style: { backgroundColor: '#FFFF00' } },
+        { row: 2, col: 1, value: null, style: { color: '#ff0000' } }
+      );
+
+      const fill = getSortedRows(sheet, range, {
+        levels: [{ col: 0, sortOn: 'fillColor', color: '#ffff00' }],
+      });
+      expect(fill).toEqual([3, 1, 2, 4]);
+
+      const font = getSortedRows(sheet, range, {
+        levels: [{ col: 1, sortOn: 'fontColor', color: '#FF0000', descending: true }],
+      });
+      expect(font).toEqual([1, 3, 4, 2]);
+    });
+
+    it('should break ties with later levels and keep equal rows in order', () => {
+      setCells(sheet, ...[2, 1, 2, 1].map((value, index) => numberCell(index + 1, 1, value)));
+
+      expect(getSortedRows(sheet, range, { levels: [{ col: 1 }] })).toEqual([2, 4, 1, 3]);
+      expect(
+        getSortedRows(sheet, range, { levels: [{ col: 1 }, { col: 0, descending: true }] })
+      ).toEqual([4, 2, 3, 1]);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { Cell, CellRange, Sheet, SortLevel, SortOptions } from '../models';
+import { getFilterNumber, getFilterText } from '../filter';
+
+/**
+ * Compares two cells for sorting: numbers (and dates) before text, blanks last in
+ * either direction. Text compares alphabetically, telling case apart only when
+ * `caseSensitive` is set (lower case first, as in Excel).
+ */
+export function compareSortCells(
+  a: Cell | undefined,
+  b: Cell | undefined,
+  descending = false,
+  caseSensitive = false
+): number {
+  const aText = getFilterText(a);
+  const bText = getFilterText(b);
+  if (aText === '' || bText === '') {
+    return aText === bText ? 0 : aText === '' ? 1 : -1;
+  }
+
+  const aNumber = getFilterNumber(a);
+  const bNumber = getFilterNumber(b);
+  let result: number;
+  if (aNumber !== null && bNumber !== null) {
+    result = aNumber - bNumber;
+  } else if (aNumber !== null || bNumber !== null) {
+    result = aNumber !== null ? -1 : 1;
+  } else {
+    result = aText.localeCompare(bText, undefined, {
+      sensitivity: caseSensitive ? 'case' : 'base',
+      caseFirst: 'lower',
+    });
+  }
+  return descending ? -result : result;
+}
+
+/**
+ * Guesses whether the first row of a range holds headers, as Excel does: the row has
+ * text and no numbers, and differs from the row below in type (text above numbers
+ * or dates) or formatting (bold, italic, colors)
+ */
+export function detectHeaderRow(sheet: Sheet, range: CellRange): boolean {
+  const firstRow = Math.min(range.start.row, range.end.row);
+  if (Math.max(range.start.row, range.end.row) <= firstRow) return false;
+
+  const columns: number[] = [];
+  const lastCol = Math.max(range.start.col, range.end.col);
+  for (let col = Math.min(range.start.col, range.end.col); col <= lastCol; col++) {
+    columns.push(col);
+  }
+
+  const header = columns.map((col) => sheet.cells[firstRow]?.[col]);
+  if (header.every((cell) => getFilterText(cell) === '')) return false;
+  if (header.some((cell) => getFilterNumber(cell) !== null)) return false;
+
+  return columns.some((col, index) => {
+    const below = sheet.cells[firstRow + 1]?.[col];
+    return getFilterNumber(below) !== null || hasDifferentFormatting(header[index], below);
+  });
+}
+
+/**
+ * Returns the rows of a range in sorted order (as their current indices).
+ * The sort is stable: rows that compare equal on every level keep their order.
+ */
+export function getSortedRows(
+  sheet: Sheet,
+  range: CellRange,
+  options: Pick<SortOptions, 'levels' | 'caseSensitive'>
+): number[] {
+  const rows: number[] = [];
+  const lastRow = Math.min(Math.max(range.start.row, range.end.row), sheet.rowCount - 1);
+  for (let row = Math.min(range.start.row, range.end.row); row <= lastRow; row++) {
+    rows.push(row);
+  }
+
+  return rows.sort((a, b) => {
+    for (const level of options.levels) {
+      const result = compareLevel(
+        sheet.cells[a]?.[level.col],
+        sheet.cells[b]?.[level.col],
+        level,
+        !!options.caseSensitive
+      );
+      if (result !== 0) return result;
+    }
+    return a - b;
+  });
+}
+
+/**
+ * Compares two cells on one sort level
+ */
+function compareLevel(
+  a: Cell | undefined,
+  b: Cell | undefined,
+  level: SortLevel,
+  caseSensitive: boolean
+): number {
+  if (level.sortOn === 'fillColor' || level.sortOn === 'fontColor') {
+    const color = (level.color ?? '').toLowerCase();
+    const rank = (cell: Cell | undefined) => {
+      const cellColor =
+        level.sortOn === 'fontColor' ? cell?.style?.color : cell?.style?.backgroundColor;
+      return (cellColor ?? '').toLowerCase() === color ? 0 : 1;
+    };
+    const result = rank(a) - rank(b);
+    return level.descending ? -result : result;
+  }
+
+  if (level.customList?.length) {
+    const list = level.customList.map((item) => item.toLowerCase());
+    const aIndex = list.indexOf(getFilterText(a).toLowerCase());
+    const bIndex = list.indexOf(getFilterText(b).toLowerCase());
+    if (aIndex >= 0 && bIndex >= 0) {
+      return level.descending ? bIndex - aIndex : aIndex - bIndex;
+    }
+    if (aIndex >= 0 || bIndex >= 0) {
+      return aIndex >= 0 ? -1 : 1;
+    }
+  }
+
+  return compareSortCells(a, b, level.descending, caseSensitive);
+}
+
+/**
+ * Whether two cells are formatted differently enough to tell a header from data
+ */
+function hasDifferentFormatting(header: Cell | undefined, data: Cell | undefined): boolean {
+  const a = header?.style;
+  const b = data?.style;
+  return (
+    (a?.fontWeight ?? 'normal') !== (b?.fontWeight ?? 'normal') ||
+    (a?.fontStyle ?? 'normal') !== (b?.fontStyle ?? 'normal') ||
+    (a?.backgroundColor ?? '') !== (b?.backgroundColor ?? '') ||
+    (a?.color ?? '') !== (b?.color ?? '')
+  );
+}
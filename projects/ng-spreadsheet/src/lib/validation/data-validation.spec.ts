@@ -0,0 +1,118 @@
+import { Cell, DataValidationRule } from '../models';
+import {
+  formatListSource,
+  getDataValidationAt,
+  getListValues,
+  isValidCell,
+  parseListSource,
+  subtractRange,
+} from './data-validation';
+import { range } from '../../testing/spec-helpers';
+
+describe('Data validation', () => {
+  const number = (value: number, dataType: Cell['dataType'] = 'number'): Cell => ({
+    row: 0,
+    col: 0,
+    value,
+    displayValue: String(value),
+    dataType,
+  });
+  const text = (value: string): Cell => ({ row: 0, col: 0, value, displayValue: value });
+  const rule = (fields: Partial<DataValidationRule>): DataValidationRule => ({
+    id: 'rule',
+    range: range(0, 0, 9, 0),
+    type: 'any',
+    ...fields,
+  });
+
+  it('should check numbers against their bounds', () => {
+    const whole = rule({ type: 'wholeNumber', value1: 1, value2: 10 });
+    expect(isValidCell(whole, number(5), 0, 0)).toBeTrue();
+    expect(isValidCell(whole, number(5.5), 0, 0)).toBeFalse();
+    expect(isValidCell(whole, number(11), 0, 0)).toBeFalse();
+    expect(isValidCell(whole, text('abc'), 0, 0)).toBeFalse();
+
+    const decimal = rule({ type: 'decimal', operator: 'greaterThan', value1: 0.5 });
+    expect(isValidCell(decimal, number(0.75), 0, 0)).toBeTrue();
+    expect(isValidCell(decimal, number(0.25), 0, 0)).toBeFalse();
+
+    const date = rule({ type: 'date', operator: 'lessThanOrEqual', value1: 45301 });
+    expect(isValidCell(date, number(45300, 'date'), 0, 0)).toBeTrue();
+    expect(isValidCell(date, number(45302, 'date'), 0, 0)).toBeFalse();
+
+    const length = rule({ type: 'textLength', operator: 'lessThan', value1: 4 });
+    expect(isValidCell(length, text('abc'), 0, 0)).toBeTrue();
+    expect(isValidCell(length, text('abcd'), 0, 0)).toBeFalse();
+  });
+
+  it('should allow blank cells unless blanks are not ignored', () => {
+    const whole = rule({ type: 'wholeNumber', value1: 1, value2: 10 });
+    expect(isValidCell(whole, undefined, 0, 0)).toBeTrue();
+    expect(isValidCell(whole, text(''), 0, 0)).toBeTrue();
+    expect(isValidCell({ ...whole, allowBlank: false }, text(''), 0, 0)).toBeFalse();
+  });
+
+  it('should match list values case-insensitively', () => {
+    const list = rule({ type: 'list', list: ['Yes', 'No'] });
+    expect(isValidCell(list, text('yes'), 0, 0)).toBeTrue();
+    expect(isValidCell(list, text('Maybe'), 0, 0)).toBeFalse();
+
+    const fromRange = rule({ type: 'list', listRange: range(0, 2, 3, 2) });
+    const listValues = ['Red', '', 'Green', 'red'];
+    expect(getListValues(fromRange, { listValues })).toEqual(['Red', 'Green']);
+    expect(isValidCell(fromRange, text('green'), 0, 0, { listValues })).toBeTrue();
+  });
+
+  it('should move the relative references of formulas with each cell', () => {
+    const formulas: string[] = [];
+    const custom = rule({ type: 'custom', formula: '=B1>0' });
+    const context = {
+      evaluateFormula: (formula: string) => {
+        formulas.push(formula);
+        return formula === '=B3>0' ? 'TRUE' : 0;
+      },
+    };
+
+    expect(isValidCell(custom, number(1), 2, 0, context)).toBeTrue();
+    expect(isValidCell(custom, number(1), 1, 0, context)).toBeFalse();
+    expect(formulas).toEqual(['=B3>0', '=B2>0']);
+
+    // Without an evaluator formula rules never allow an entry
+    expect(isValidCell(custom, number(1), 0, 0)).toBeFalse();
+  });
+
+  it('should find the rule of a cell', () => {
+    const rules = [
+      rule({ id: 'a', range: range(0, 0, 4, 0) }),
+      rule({ id: 'b', range: range(0, 1, 0, 1) }),
+    ];
+    expect(getDataValidationAt(rules, 3, 0)?.id).toBe('a');
+    expect(getDataValidationAt(rules, 0, 1)?.id).toBe('b');
+    expect(getDataValidationAt(rules, 5, 0)).toBeNull();
+  });
+
+  it('should parse and format list sources', () => {
+    expect(parseListSource(' Yes, No ,')).toEqual({ list: ['Yes', 'No'] });
+    expect(parseListSource('=$A$5:$A$1')).toEqual({ listRange: range(0, 0, 4, 0) });
+    expect(parseListSource("='My Lists'!B1:B3")).toEqual({
+      listRange: { ...range(0, 1, 2, 1), sheet: 'My Lists' },
+    });
+    expect(parseListSource('')).toBeNull();
+    expect(parseListSource('=not a range')).toBeNull();
+
+    expect(formatListSource(rule({ type: 'list', list: ['Yes', 'No'] }))).toBe('Yes,No');
+    const listRange = { ...range(0, 1, 2, 1), sheet: 'My Lists' };
+    expect(formatListSource(rule({ type: 'list', listRange }))).toBe("='My Lists'!$B$1:$B$3");
+  });
+
+  it('should subtract one range from another', () => {
+    expect(subtractRange(range(0, 0, 4, 4), range(1, 1, 2, 2))).toEqual([
+      range(0, 0, 0, 4),
+      range(3, 0, 4, 4),
+      range(1, 0, 2, 0),
+      range(1, 3, 2, 4),
+    ]);
+    expect(subtractRange(range(0, 0, 4, 0), range(0, 0, 9, 9))).toEqual([]);
+    expect(subtractRange(range(0, 0, 1, 1), range(5, 5, 6, 6))).toEqual([range(0, 0, 1, 1)]);
+  });
+});
@@ -0,0 +1,237 @@
+import {
+  Cell,
+  CellAddress,
+  CellRange,
+  CellValueOperator,
+  DataValidationRule,
+  a1ToCellRange,
+  cellAddressToA1,
+  formatSheetName,
+} from '../models';
+import { getFilterNumber } from '../filter';
+import { shiftFormulaReferences } from '../formula';
+import { isSingleCell, normalizeRange, rangesIntersect } from '../merge';
+
+/**
+ * Message of the alert for entries that break a rule without an error message of its own
+ */
+export const DEFAULT_VALIDATION_MESSAGE =
+  'This value doesn\'t match the data validation restrictions defined for this cell.';
+
+/**
+ * What checking an entry needs besides the rule and the cell
+ */
+export interface DataValidationContext {
+  /**
+   * Evaluates custom rules and formula bounds as if entered in a cell of the sheet;
+   * without it they never allow an entry
+   */
+  evaluateFormula?: (formula: string, row: number, col: number) => string | number;
+
+  /** Values of the cells of a list rule's `listRange` */
+  listValues?: string[];
+}
+
+/**
+ * Gets the data validation rule of a cell, or null when its entries are not restricted
+ */
+export function getDataValidationAt(
+  rules: DataValidationRule[] | undefined,
+  row: number,
+  col: number
+): DataValidationRule | null {
+  return (
+    rules?.find(({ range }) => {
+      const { start, end } = normalizeRange(range);
+      return row >= start.row && row <= end.row && col >= start.col && col <= end.col;
+    }) ?? null
+  );
+}
+
+/**
+ * Whether a cell's content is allowed by a data validation rule. `row` and `col` are the
+ * cell's position, which relative references of formulas in the rule move with.
+ */
+export function isValidCell(
+  rule: DataValidationRule,
+  cell: Cell | undefined,
+  row: number,
+  col: number,
+  context: DataValidationContext = {}
+): boolean {
+  const value = cell?.value;
+  if (value === null || value === undefined || value === '') {
+    return rule.allowBlank !== false;
+  }
+  if (rule.type === 'any') return true;
+  if (cell?.dataType === 'error') return false;
+
+  const origin = normalizeRange(rule.range).start;
+  const evaluate = (formula: string) =>
+    context.evaluateFormula?.(
+      shiftFormulaReferences(formula, row - origin.row, col - origin.col),
+      row,
+      col
+    );
+  const bound = (limit: string | number | undefined): number => {
+    if (typeof limit === 'string' && limit.startsWith('=')) {
+      const result = evaluate(limit);
+      return typeof result === 'number' ? result : Number(result ?? NaN);
+    }
+    return limit === undefined || limit === '' ? NaN : Number(limit);
+  };
+  const compareTo = (number: number) =>
+    compare(rule.operator ?? 'between', number, bound(rule.value1), bound(rule.value2));
+
+  switch (rule.type) {
+    case 'wholeNumber':
+    case 'decimal':
+    case 'date': {
+      const number = getFilterNumber(cell);
+      if (number === null) return false;
+      if (rule.type === 'wholeNumber' && !Number.isInteger(number)) return false;
+      return compareTo(number);
+    }
+
+    case 'textLength':
+      return compareTo(String(cell?.displayValue ?? value).length);
+
+    case 'list': {
+      const text = String(cell?.displayValue ?? value).trim().toLowerCase();
+      const raw = String(value).trim().toLowerCase();
+      return getListValues(rule, context).some((item) => {
+        const allowed = item.trim().toLowerCase();
+        return allowed === text || allowed === raw;
+      });
+    }
+
+    case 'custom': {
+      if (!rule.formula) return false;
+      const result = evaluate(rule.formula);
+      return typeof result === 'number' ? result !== 0 : result === 'TRUE';
+    }
+  }
+}
+
+/**
+ * Gets the values a list rule allows, without blanks and duplicates, in their order
+ */
+export function getListValues(
+  rule: DataValidationRule,
+  context: Pick<DataValidationContext, 'listValues'> = {}
+): string[] {
+  const values = rule.listRange ? context.listValues ?? [] : rule.list ?? [];
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.trim().toLowerCase();
+    if (key === '' || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Parses the source of a list rule as typed in Excel: values separated by commas
+ * ("Yes,No") or a reference to the cells holding them ("=$A$1:$A$5", "=Lists!A1:A9").
+ * Returns null when the source is empty or not a valid reference.
+ */
+export function parseListSource(
+  source: string
+): Pick<DataValidationRule, 'list' | 'listRange'> | null {
+  const trimmed = source.trim();
+  if (!trimmed.startsWith('=')) {
+    const list = trimmed.split(',').map((value) => value.trim()).filter((value) => value);
+    return list.length ? { list } : null;
+  }
+
+  try {
+    const reference = a1ToCellRange(trimmed.slice(1).trim());
+    const listRange = normalizeRange(reference);
+    if (reference.sheet !== undefined) {
+      listRange.sheet = reference.sheet;
+    }
+    return { listRange };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Formats the source of a list rule as typed in Excel (see parseListSource)
+ */
+export function formatListSource(rule: DataValidationRule): string {
+  if (!rule.listRange) return (rule.list ?? []).join(',');
+
+  const { start, end, sheet } = rule.listRange;
+  const absolute = (address: CellAddress) =>
+    cellAddressToA1({ ...address, absoluteRow: true, absoluteCol: true });
+  const reference = isSingleCell(rule.listRange)
+    ? absolute(start)
+    : `${absolute(start)}:${absolute(end)}`;
+  return `=${sheet !== undefined ? `${formatSheetName(sheet)}!` : ''}${reference}`;
+}
+
+/**
+ * Removes the cells of one range from another, returning what is left as up to
+ * four ranges (the rows above and below, then the columns left and right)
+ */
+export function subtractRange(range: CellRange, removed: CellRange): CellRange[] {
+  const area = normalizeRange(range);
+  if (!rangesIntersect(area, removed)) return [area];
+
+  const cut = normalizeRange(removed);
+  const top = Math.max(area.start.row, cut.start.row);
+  const bottom = Math.min(area.end.row, cut.end.row);
+  const parts: CellRange[] = [];
+
+  if (area.start.row < cut.start.row) {
+    parts.push({ start: area.start, end: { row: cut.start.row - 1, col: area.end.col } });
+  }
+  if (area.end.row > cut.end.row) {
+    parts.push({ start: { row: cut.end.row + 1, col: area.start.col }, end: area.end });
+  }
+  if (area.start.col < cut.start.col) {
+    parts.push({
+      start: { row: top, col: area.start.col },
+      end: { row: bottom, col: cut.start.col - 1 },
+    });
+  }
+  if (area.end.col > cut.end.col) {
+    parts.push({
+      start: { row: top, col: cut.end.col + 1 },
+      end: { row: bottom, col: area.end.col },
+    });
+  }
+  return parts;
+}
+
+/**
+ * Compares a number with a rule's bounds; a missing or invalid bound never matches
+ */
+function compare(
+  operator: CellValueOperator,
+  value: number,
+  first: number,
+  second: number
+): boolean {
+  const low = Math.min(first, second);
+  const high = Math.max(first, second);
+  switch (operator) {
+    case 'between':
+      return value >= low && value <= high;
+    case 'notBetween':
+      return !isNaN(low) && !isNaN(high) && (value < low || value > high);
+    case 'equals':
+      return value === first;
+    case 'notEquals':
+      return !isNaN(first) && value !== first;
+    case 'greaterThan':
+      return value > first;
+    case 'greaterThanOrEqual':
+      return value >= first;
+    case 'lessThan':
+      return value < first;
+    case 'lessThanOrEqual':
+      return value <= first;
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Public API for data validation
+ */
+
+export * from './data-validation';
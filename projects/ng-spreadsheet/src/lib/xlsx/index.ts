@@ -0,0 +1,6 @@
+/**
+ * Public API for Excel (.xlsx) import and export
+ */
+
+export * from './xlsx-reader';
+export * from './xlsx-writer';
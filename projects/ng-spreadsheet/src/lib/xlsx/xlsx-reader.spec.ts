@@ -0,0 +1,196 @@
+import { toDenseCells } from '../models';
+import { readXlsx } from './xlsx-reader';
+import { writeZip } from './zip';
+
+describe('readXlsx', () => {
+  const main = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const relationships = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  const rels = (items: string) =>
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    `${items}</Relationships>`;
+  const rel = (id: string, type: string, target: string) =>
+    `<Relationship Id="${id}" Type="${relationships}/${type}" Target="${target}"/>`;
+
+  // A workbook as Excel saves it: shared strings, shared formulas, theme colors
+  const parts: Record<string, string> = {
+    '_rels/.rels': rels(rel('rId1', 'officeDocument', 'xl/workbook.xml')),
+    'xl/workbook.xml':
+      `<workbook xmlns="${main}" xmlns:r="${relationships}">` +
+      '<bookViews><workbookView activeTab="1"/></bookViews><sheets>' +
+      '<sheet name="Chart1" sheetId="3" r:id="rId3"/>' +
+      '<sheet name="Data" sheetId="1" r:id="rId1"/>' +
+      '<sheet name="Lookup" sheetId="2" state="hidden" r:id="rId2"/></sheets>' +
+      '<definedNames>' +
+      '<definedName name="_xlnm.Print_Area" localSheetId="1">Data!$A$1:$C$3</definedName>' +
+      '<definedName name="Rates">Lookup!$A$1:$A$2</definedName>' +
+      '<definedName name="Total" localSheetId="1" comment="Grand total">Data!$B$3</definedName>' +
+      '<definedName name="Gone">#REF!</definedName>' +
+      '<definedName name="Half">0.5</definedName>' +
+      '</definedNames></workbook>',
+    'xl/_rels/workbook.xml.rels': rels(
+      rel('rId1', 'worksheet', 'worksheets/sheet1.xml') +
+        rel('rId2', 'worksheet', '/xl/worksheets/sheet2.xml') +
+        rel('rId3', 'chartsheet', 'chartsheets/sheet1.xml') +
+        rel('rId4', 'styles', 'styles.xml') +
+        rel('rId5', 'sharedStrings', 'sharedStrings.xml')
+    ),
+    'xl/sharedStrings.xml':
+      `<sst xmlns="${main}"><si><t>Region</t></si>` +
+      '<si><r><rPr><b/></rPr><t>Net </t></r><r><t>Sales</t></r></si>' +
+      '<si><t>Line_x000A_break</t><rPh><t>ignored</t></rPh></si></sst>',
+    'xl/styles.xml':
+      `<styleSheet xmlns="${main}">` +
+      '<numFmts count="1"><numFmt numFmtId="164" formatCode="0.0%"/></numFmts>' +
+      '<fonts><font><sz val="11"/><color theme="1"/><name val="Calibri"/></font>' +
+      '<font><b/><i val="0"/><u/><sz val="15"/><color rgb="FFFF0000"/><name val="Arial"/></font>' +
+      '</fonts><fills><fill><patternFill patternType="none"/></fill>' +
+      '<fill><patternFill patternType="gray125"/></fill>' +
+      '<fill><patternFill patternType="solid"><fgColor theme="4" tint="0.79998168889431442"/>' +
+      '</patternFill></fill></fills>' +
+      '<borders><border/><border><left style="thin"><color indexed="64"/></left>' +
+      '<bottom style="medium"><color rgb="FF0000FF"/></bottom></border></borders>' +
+      '<cellXfs><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/>' +
+      '<xf numFmtId="164" fontId="1" fillId="2" borderId="1">' +
+      '<alignment horizontal="center" vertical="center" wrapText="1"/></xf>' +
+      '<xf numFmtId="14" fontId="0" fillId="0" borderId="0"/></cellXfs></styleSheet>',
+    'xl/worksheets/sheet1.xml':
+      `<worksheet xmlns="${main}" xmlns:r="${relationships}">` +
+      '<sheetViews><sheetView workbookViewId="0">' +
+      '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+      '</sheetView></sheetViews>' +
+      '<sheetFormatPr defaultRowHeight="15"/>' +
+      '<cols><col min="1" max="2" width="14.28515625" customWidth="1"/></cols><sheetData>' +
+      '<row r="1" ht="30" customHeight="1"><c r="A1" t="s"><v>0</v></c>' +
+      '<c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Note</t></is></c></row>' +
+      '<row r="2"><c r="A2"><v>10</v></c><c r="B2" s="1"><v>0.25</v></c>' +
+      '<c t="b"><v>1</v></c><c r="D2" t="e"><v>#N/A</v></c></row>' +
+      '<row r="3" hidden="1"><c r="A3"><v>20</v></c>' +
+      '<c r="B3"><f t="shared" ref="B3:C3" si="0">SUM(A$2:A3)</f><v>30</v></c>' +
+      '<c r="C3"><f t="shared" si="0"/><v>0</v></c>' +
+      '<c r="D3" t="str"><f>_xlfn.CONCAT("a","b")</f><v>ab</v></c>' +
+      '<c r="E3" s="2"><v>45292</v></c></row>' +
+      '<row r="5"><c r="A5" t="s"><v>2</v></c></row>' +
+      '</sheetData><mergeCells count="1"><mergeCell ref="C1:D1"/></mergeCells>' +
+      '<conditionalFormatting sqref="A1"/><hyperlinks/></worksheet>',
+    'xl/worksheets/sheet2.xml':
+      `<worksheet xmlns="${main}"><sheetData>` +
+      '<row r="1"><c r="A1"><v>0.1</v></c></row><row r="2"><c r="A2"><v>0.2</v></c></row>' +
+      '</sheetData></worksheet>',
+  };
+
+  async function read(files: Record<string, string> = parts) {
+    const encoder = new TextEncoder();
+    const zip = await writeZip(
+      new Map(Object.entries(files).map(([path, xml]) => [path, encoder.encode(xml)]))
+    );
+    return readXlsx(await zip.arrayBuffer());
+  }
+
+  it('should read sheets, values and cached formula results', async () => {
+    const { data } = await read();
+    const [sheet, lookup] = data.sheets;
+    const cells = toDenseCells(sheet);
+
+    expect(data.sheets.map((s) => s.name)).toEqual(['Data', 'Lookup']);
+    expect(data.activeSheetIndex).toBe(0);
+    expect(sheet.isActive).toBeTrue();
+    expect(lookup.isHidden).toBeTrue();
+    expect(sheet.rowCount).toBe(1000);
+    expect(sheet.colCount).toBe(26);
+
+    expect(cells[0][0].value).toBe('Region');
+    expect(cells[0][1].value).toBe('Net Sales');
+    expect(cells[0][2].value).toBe('Note');
+    expect(cells[4][0].value).toBe('Line\nbreak');
+    expect(cells[1][0]).toEqual(
+      jasmine.objectContaining({ value: 10, displayValue: '10', dataType: 'number' })
+    );
+    expect(cells[1][2]).toEqual(jasmine.objectContaining({ value: true, dataType: 'boolean' }));
+    expect(cells[1][3]).toEqual(
+      jasmine.objectContaining({ value: '#N/A', dataType: 'error', error: '#N/A' })
+    );
+
+    expect(cells[2][1]).toEqual(
+      jasmine.objectContaining({ value: '=SUM(A$2:A3)', computedValue: 30, dataType: 'formula' })
+    );
+    expect(cells[2][2].value).toBe('=SUM(B$2:B3)');
+    expect(cells[2][3]).toEqual(
+      jasmine.objectContaining({ value: '=CONCAT("a","b")', computedValue: 'ab' })
+    );
+    expect(cells[2][4]).toEqual(
+      jasmine.objectContaining({ value: 45292, displayValue: '1/1/2024', dataType: 'date' })
+    );
+  });
+
+  it('should read cell styles and number formats', async () => {
+    const { data } = await read();
+    const cells = toDenseCells(data.sheets[0]);
+
+    expect(cells[1][1].style).toEqual({
+      fontWeight: 'bold',
+      textDecoration: 'underline',
+      fontSize: '20px',
+      fontFamily: 'Arial',
+      color: '#ff0000',
+      backgroundColor: '#dae3f3',
+      borderLeft: '1px solid #000000',
+      borderBottom: '2px solid #0000ff',
+      textAlign: 'center',
+      verticalAlign: 'middle',
+      whiteSpace: 'normal',
+      numberFormatPattern: '0.0%',
+    });
+    expect(cells[1][1].displayValue).toBe('25.0%');
+    expect(cells[1][0].style).toBeUndefined();
+  });
+
+  it('should read the layout of each sheet', async () => {
+    const sheet = (await read()).data.sheets[0];
+
+    expect(sheet.columnWidths?.slice(0, 3)).toEqual([100, 100, 64]);
+    expect(sheet.defaultColumnWidth).toBe(64);
+    expect(sheet.rowHeights?.slice(0, 3)).toEqual([40, 20, 20]);
+    expect(sheet.hiddenRows).toEqual([2]);
+    expect(sheet.frozenRows).toBe(1);
+    expect(sheet.frozenColumns).toBeUndefined();
+    expect(sheet.merges).toEqual([{ start: { row: 0, col: 2 }, end: { row: 0, col: 3 } }]);
+  });
+
+  it('should read defined names of cells and ranges', async () => {
+    const { data } = await read();
+    const [sheet, lookup] = data.sheets;
+    const names = data.names ?? [];
+
+    expect(names.map((name) => name.name)).toEqual(['Rates', 'Total', 'Gone']);
+    expect(names[0].range?.sheet).toBe(lookup.name);
+    expect(names[0].sheetId).toBeUndefined();
+    expect(names[1]).toEqual(
+      jasmine.objectContaining({ sheetId: sheet.id, comment: 'Grand total' })
+    );
+    expect(names[2].range).toBeUndefined();
+  });
+
+  it('should list the features it skipped', async () => {
+    const { warnings } = await read();
+
+    expect(warnings).toEqual(
+      jasmine.arrayWithExactContents([
+        'Imported rich text as plain text (mixed formatting is not supported)',
+        "Skipped sheet 'Chart1': only worksheets are supported",
+        "Sheet 'Data': skipped conditional formatting (not supported)",
+        "Sheet 'Data': skipped hyperlinks (not supported)",
+        'Skipped print areas and print titles (not supported)',
+        "Skipped the name 'Half': only names of cells and ranges are supported",
+      ])
+    );
+  });
+
+  it('should reject files that are not workbooks', async () => {
+    await expectAsync(readXlsx(new TextEncoder().encode('not a zip').buffer)).toBeRejectedWithError(
+      /Not a ZIP archive/
+    );
+    await expectAsync(read({ 'docProps/app.xml': '<Properties/>' })).toBeRejectedWithError(
+      /Not an \.xlsx workbook/
+    );
+  });
+});
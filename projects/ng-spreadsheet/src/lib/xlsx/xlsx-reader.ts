@@ -0,0 +1,918 @@
+import {
+  Cell,
+  CellAddress,
+  CellComment,
+  CellRange,
+  CellStyle,
+  DefinedName,
+  Sheet,
+  SpreadsheetData,
+  a1ToCellAddress,
+  a1ToCellRange,
+  createEmptySheet,
+  generateCommentId,
+  generateDefinedNameId,
+  setSheetCells,
+} from '../models';
+import { dateToSerial, formatValue, getNumberFormatPattern, isDateFormat } from '../format';
+import { shiftFormulaReferences } from '../formula';
+import { normalizeRange } from '../merge';
+import { getDefinedNameError, parseNameReference } from '../names';
+import { readZip } from './zip';
+import { BUILT_IN_NUMBER_FORMATS, columnWidthToPixels, pointsToPixels } from './xlsx-shared';
+
+/**
+ * A workbook read from an .xlsx file
+ */
+export interface XlsxImportResult {
+  /** The workbook, ready for SpreadsheetDataService.loadData */
+  data: SpreadsheetData;
+
+  /** Features of the file that were skipped or approximated, one message each */
+  warnings: string[];
+}
+
+/** A relationship of a package part, with its target resolved to a path in the archive */
+interface Relationship {
+  type: string;
+  target: string;
+}
+
+/** What the cells of every sheet need from the workbook parts */
+interface WorkbookContext {
+  files: Map<string, Uint8Array>;
+  sharedStrings: string[];
+  cellStyles: (CellStyle | undefined)[];
+  warnings: Set<string>;
+}
+
+/** Smallest grid an imported sheet gets, as for sheets added in the grid */
+const MIN_ROW_COUNT = 1000;
+const MIN_COL_COUNT = 26;
+
+/** Excel's standard column width (8.43 characters) and row height (15pt) in pixels */
+const EXCEL_COLUMN_WIDTH = 64;
+const EXCEL_ROW_HEIGHT = 20;
+
+/** Colors of the default Office theme, in the order styles refer to them */
+const DEFAULT_THEME_COLORS = [
+  'FFFFFF', '000000', 'E7E6E6', '44546A', '4472C4', 'ED7D31',
+  'A5A5A5', 'FFC000', '5B9BD5', '70AD47', '0563C1', '954F72',
+];
+
+/** Legacy palette of indexed colors */
+const INDEXED_COLORS = [
+  '000000', 'FFFFFF', 'FF0000', '00FF00', '0000FF', 'FFFF00', 'FF00FF', '00FFFF',
+  '000000', 'FFFFFF', 'FF0000', '00FF00', '0000FF', 'FFFF00', 'FF00FF', '00FFFF',
+  '800000', '008000', '000080', '808000', '800080', '008080', 'C0C0C0', '808080',
+  '9999FF', '993366', 'FFFFCC', 'CCFFFF', '660066', 'FF8080', '0066CC', 'CCCCFF',
+  '000080', 'FF00FF', 'FFFF00', '00FFFF', '800080', '800000', '008080', '0000FF',
+  '00CCFF', 'CCFFFF', 'CCFFCC', 'FFFF99', '99CCFF', 'FF99CC', 'CC99FF', 'FFCC99',
+  '3366FF', '33CCCC', '99CC00', 'FFCC00', 'FF9900', 'FF6600', '666699', '969696',
+  '003366', '339966', '003300', '333300', '993300', '993366', '333399', '333333',
+  '000000', 'FFFFFF',
+];
+
+/** CSS borders for Excel's border styles */
+const BORDER_STYLES: Record<string, string> = {
+  hair: '1px dotted',
+  dotted: '1px dotted',
+  thin: '1px solid',
+  dashed: '1px dashed',
+  dashDot: '1px dashed',
+  dashDotDot: '1px dashed',
+  medium: '2px solid',
+  mediumDashed: '2px dashed',
+  mediumDashDot: '2px dashed',
+  mediumDashDotDot: '2px dashed',
+  slantDashDot: '2px dashed',
+  thick: '3px solid',
+  double: '3px double',
+};
+
+/** Worksheet parts that are not imported, with how warnings name them */
+const UNSUPPORTED_SHEET_PARTS: Record<string, string> = {
+  conditionalFormatting: 'conditional formatting',
+  dataValidations: 'data validation',
+  autoFilter: 'the AutoFilter',
+  hyperlinks: 'hyperlinks',
+  drawing: 'charts, images and shapes',
+  tableParts: 'tables',
+  sheetProtection: 'sheet protection',
+};
+
+/**
+ * Reads an .xlsx workbook from a File, Blob or ArrayBuffer: its sheets (hidden ones
+ * included), values, formulas with their cached results, cell styles, number formats,
+ * column widths, row heights, hidden rows, merged cells, frozen panes, comments (notes)
+ * and defined names.
+ * Parts of the file the grid cannot show are skipped and listed in `warnings`.
+ * Throws if the file is not an .xlsx workbook.
+ */
+export async function readXlsx(source: Blob | ArrayBuffer): Promise<XlsxImportResult> {
+  const buffer = source instanceof ArrayBuffer ? source : await source.arrayBuffer();
+  const files = await readZip(buffer);
+  const warnings = new Set<string>();
+
+  const workbookPath =
+    findTarget(readRelationships(files, ''), 'officeDocument') ?? 'xl/workbook.xml';
+  const workbook = parseXml(files, workbookPath);
+  if (!workbook) {
+    throw new Error('Not an .xlsx workbook: the workbook part is missing');
+  }
+  const relationships = readRelationships(files, workbookPath);
+
+  const themePath = findTarget(relationships, 'theme');
+  const themeColors = readThemeColors(themePath ? parseXml(files, themePath) : null);
+  const stylesPath = findTarget(relationships, 'styles');
+  const sharedStringsPath = findTarget(relationships, 'sharedStrings');
+  const context: WorkbookContext = {
+    files,
+    sharedStrings: sharedStringsPath
+      ? readSharedStrings(parseXml(files, sharedStringsPath), warnings)
+      : [],
+    cellStyles: stylesPath ? readStyles(parseXml(files, stylesPath), themeColors, warnings) : [],
+    warnings,
+  };
+
+  if ([...files.keys()].some((path) => path.endsWith('vbaProject.bin'))) {
+    warnings.add('Skipped macros (not supported)');
+  }
+  if (findTarget(relationships, 'externalLink')) {
+    warnings.add('Skipped links to other workbooks (not supported)');
+  }
+
+  // Sheets by their position in the workbook; chart sheets are left out
+  const root = workbook.documentElement;
+  const sheetsByPosition: (Sheet | undefined)[] = [];
+  for (const entry of descendants(root, 'sheet')) {
+    const name = entry.getAttribute('name') ?? `Sheet${sheetsByPosition.length + 1}`;
+    const relationship = relationships.get(getRelationshipId(entry));
+    const document =
+      relationship?.type.endsWith('/worksheet') && parseXml(files, relationship.target);
+
+    if (!relationship || !document) {
+      warnings.add(`Skipped sheet '${name}': only worksheets are supported`);
+      sheetsByPosition.push(undefined);
+      continue;
+    }
+
+    const sheet = readWorksheet(document, name, relationship.target, context);
+    if (entry.getAttribute('state') === 'hidden' || entry.getAttribute('state') === 'veryHidden') {
+      sheet.isHidden = true;
+    }
+    sheetsByPosition.push(sheet);
+  }
+
+  const sheets = sheetsByPosition.filter((sheet): sheet is Sheet => sheet !== undefined);
+  if (sheets.length === 0) {
+    throw new Error('The workbook has no worksheets');
+  }
+
+  // The active sheet, or the first visible one if it was left out or is hidden
+  const activeTab = Number(first(root, 'workbookView')?.getAttribute('activeTab') ?? 0);
+  let activeSheetIndex = sheets.indexOf(sheetsByPosition[activeTab] as Sheet);
+  if (activeSheetIndex < 0 || sheets[activeSheetIndex].isHidden) {
+    activeSheetIndex = Math.max(0, sheets.findIndex((sheet) => !sheet.isHidden));
+  }
+  sheets[activeSheetIndex].isActive = true;
+
+  const data: SpreadsheetData = { sheets, activeSheetIndex };
+
+  const names = readDefinedNames(root, sheetsByPosition, sheets[0].name, warnings);
+  if (names.length > 0) {
+    data.names = names;
+  }
+
+  const calculation = first(root, 'calcPr');
+  if (isOn(calculation?.getAttribute('iterate'), false)) {
+    data.calculation = {
+      iterative: true,
+      maxIterations: Number(calculation?.getAttribute('iterateCount') ?? 100),
+      maxChange: Number(calculation?.getAttribute('iterateDelta') ?? 0.001),
+    };
+  }
+
+  return { data, warnings: [...warnings] };
+}
+
+/**
+ * Reads the cells, layout and merged cells of a worksheet
+ */
+function readWorksheet(
+  document: Document,
+  name: string,
+  path: string,
+  context: WorkbookContext
+): Sheet {
+  const { warnings } = context;
+  const root = document.documentElement;
+
+  for (const [part, feature] of Object.entries(UNSUPPORTED_SHEET_PARTS)) {
+    if (first(root, part)) {
+      warnings.add(`Sheet '${name}': skipped ${feature} (not supported)`);
+    }
+  }
+  const sheetRelationships = readRelationships(context.files, path);
+  for (const relationship of sheetRelationships.values()) {
+    if (relationship.type.endsWith('/pivotTable')) {
+      warnings.add(`Sheet '${name}': skipped pivot tables (not supported)`);
+    }
+  }
+
+  const format = first(root, 'sheetFormatPr');
+  const defaultColWidth = format?.getAttribute('defaultColWidth');
+  const defaultRowHeight = format?.getAttribute('defaultRowHeight');
+  const defaultColumnWidth = defaultColWidth
+    ? columnWidthToPixels(Number(defaultColWidth))
+    : EXCEL_COLUMN_WIDTH;
+  const defaultHeight = defaultRowHeight
+    ? pointsToPixels(Number(defaultRowHeight))
+    : EXCEL_ROW_HEIGHT;
+
+  // Read the cells first: their extent decides the size of the grid
+  const cells: Cell[] = [];
+  const rowHeights = new Map<number, number>();
+  const hiddenRows: number[] = [];
+  const sharedFormulas = new Map<string, { formula: string; row: number; col: number }>();
+  let rowIndex = -1;
+
+  for (const rowElement of children(first(root, 'sheetData'), 'row')) {
+    const r = rowElement.getAttribute('r');
+    rowIndex = r ? Number(r) - 1 : rowIndex + 1;
+
+    const height = rowElement.getAttribute('ht');
+    if (height && isOn(rowElement.getAttribute('customHeight'), false)) {
+      rowHeights.set(rowIndex, pointsToPixels(Number(height)));
+    }
+    if (isOn(rowElement.getAttribute('hidden'), false)) {
+      hiddenRows.push(rowIndex);
+    }
+    if (isOn(rowElement.getAttribute('customFormat'), false)) {
+      warnings.add(`Sheet '${name}': skipped row and column formatting (not supported)`);
+    }
+
+    let colIndex = -1;
+    for (const cellElement of children(rowElement, 'c')) {
+      const reference = cellElement.getAttribute('r');
+      const address: CellAddress = reference
+        ? a1ToCellAddress(reference)
+        : { row: rowIndex, col: colIndex + 1 };
+      colIndex = address.col;
+
+      const cell = readCell(cellElement, address, name, sharedFormulas, context);
+      if (cell) cells.push(cell);
+    }
+  }
+
+  const commentsPath = findTarget(sheetRelationships, 'comments');
+  if (commentsPath) {
+    readComments(parseXml(context.files, commentsPath), cells);
+  } else if (first(root, 'legacyDrawing')) {
+    warnings.add(`Sheet '${name}': skipped form controls (not supported)`);
+  }
+
+  const columns = children(first(root, 'cols'), 'col');
+  const merges = children(first(root, 'mergeCells'), 'mergeCell').map((merge) =>
+    normalizeRange(a1ToCellRange(merge.getAttribute('ref') ?? ''))
+  );
+
+  let rowCount = MIN_ROW_COUNT;
+  let colCount = MIN_COL_COUNT;
+  for (const { row, col } of [...cells, ...merges.map((merge) => merge.end)]) {
+    rowCount = Math.max(rowCount, row + 1);
+    colCount = Math.max(colCount, col + 1);
+  }
+  for (const row of [...hiddenRows, ...rowHeights.keys()]) {
+    rowCount = Math.max(rowCount, row + 1);
+  }
+
+  const sheet = createEmptySheet({
+    name,
+    rowCount,
+    colCount,
+    defaultColumnWidth,
+    defaultRowHeight: defaultHeight,
+  });
+  sheet.cells = setSheetCells(sheet.cells, cells);
+
+  const columnWidths = sheet.columnWidths ?? [];
+  for (const column of columns) {
+    const min = Number(column.getAttribute('min') ?? 1) - 1;
+    const max = Math.min(Number(column.getAttribute('max') ?? min + 1), colCount) - 1;
+    const width = column.getAttribute('width');
+    for (let col = min; width && col <= max; col++) {
+      columnWidths[col] = columnWidthToPixels(Number(width));
+    }
+    if (isOn(column.getAttribute('hidden'), false)) {
+      warnings.add(`Sheet '${name}': hidden columns are shown (not supported)`);
+    }
+    if (Number(column.getAttribute('style') ?? 0) > 0) {
+      warnings.add(`Sheet '${name}': skipped row and column formatting (not supported)`);
+    }
+  }
+  for (const [row, height] of rowHeights) {
+    if (sheet.rowHeights) sheet.rowHeights[row] = height;
+  }
+
+  if (hiddenRows.length > 0) {
+    sheet.hiddenRows = hiddenRows.sort((a, b) => a - b);
+  }
+  if (merges.length > 0) {
+    sheet.merges = merges;
+  }
+
+  const pane = first(first(root, 'sheetView'), 'pane');
+  if (pane) {
+    const state = pane.getAttribute('state');
+    if (state === 'frozen' || state === 'frozenSplit') {
+      const rows = Number(pane.getAttribute('ySplit') ?? 0);
+      const cols = Number(pane.getAttribute('xSplit') ?? 0);
+      if (rows > 0) sheet.frozenRows = rows;
+      if (cols > 0) sheet.frozenColumns = cols;
+    } else {
+      warnings.add(`Sheet '${name}': skipped split panes (not supported)`);
+    }
+  }
+
+  return sheet;
+}
+
+/**
+ * Reads a cell with its value or formula and style. Returns null for cells
+ * with neither a value nor a style.
+ */
+function readCell(
+  element: Element,
+  { row, col }: CellAddress,
+  sheetName: string,
+  sharedFormulas: Map<string, { formula: string; row: number; col: number }>,
+  context: WorkbookContext
+): Cell | null {
+  const type = element.getAttribute('t') ?? 'n';
+  const text = first(element, 'v')?.textContent ?? null;
+  const style = context.cellStyles[Number(element.getAttribute('s') ?? 0)];
+
+  let value: string | number | boolean;
+  switch (type) {
+    case 's':
+      value = context.sharedStrings[Number(text)] ?? '';
+      break;
+    case 'inlineStr':
+      value = readText(first(element, 'is'));
+      break;
+    case 'str':
+    case 'e':
+      value = text ?? '';
+      break;
+    case 'b':
+      value = text === '1' || text === 'true';
+      break;
+    case 'd':
+      value = text ? dateToSerial(new Date(text.length === 10 ? `${text}T00:00:00` : text)) : '';
+      break;
+    default:
+      value = text === null || text === '' ? '' : Number(text);
+  }
+
+  const formula = readFormula(first(element, 'f'), row, col, sheetName, sharedFormulas, context);
+  if (value === '' && !formula && !style) {
+    return null;
+  }
+
+  const cell: Cell = { row, col, value, displayValue: '', dataType: 'string' };
+  if (style) {
+    cell.style = { ...style };
+  }
+
+  if (formula) {
+    // The cached result is shown until the workbook is recalculated
+    cell.value = `=${formula}`;
+    cell.dataType = 'formula';
+    if (typeof value === 'boolean') {
+      cell.computedValue = value ? 'TRUE' : 'FALSE';
+      cell.displayValue = String(value);
+    } else if (value !== '') {
+      cell.computedValue = value;
+      cell.displayValue = type === 'e' ? value.toString() : formatCellValue(value, style);
+    }
+  } else if (type === 'e') {
+    cell.dataType = 'error';
+    cell.error = String(value);
+    cell.displayValue = String(value);
+  } else if (typeof value === 'boolean') {
+    cell.dataType = 'boolean';
+    cell.displayValue = String(value);
+  } else {
+    if (typeof value === 'number') {
+      cell.dataType = isDateFormat(getNumberFormatPattern(style)) ? 'date' : 'number';
+    }
+    cell.displayValue = formatCellValue(value, style);
+  }
+
+  return cell;
+}
+
+/**
+ * Reads the notes of a worksheet onto its cells, adding cells that only hold a note.
+ * Excel starts the text of a note with its author's name, which is taken out.
+ */
+function readComments(document: Document | null, cells: Cell[]): void {
+  if (!document) return;
+  const root = document.documentElement;
+  const authors = children(first(root, 'authors'), 'author').map(
+    (author) => author.textContent ?? ''
+  );
+  const cellsByAddress = new Map(cells.map((cell) => [`${cell.row}:${cell.col}`, cell]));
+
+  for (const element of children(first(root, 'commentList'), 'comment')) {
+    const { row, col } = a1ToCellAddress(element.getAttribute('ref') ?? '');
+    const author = authors[Number(element.getAttribute('authorId') ?? 0)] ?? '';
+    let text = readText(first(element, 'text'));
+    if (author && text.startsWith(`${author}:\n`)) {
+      text = text.slice(author.length + 2);
+    }
+    const comment: CellComment = { id: generateCommentId(), author, text, createdAt: '' };
+
+    let cell = cellsByAddress.get(`${row}:${col}`);
+    if (!cell) {
+      cell = { row, col, value: '', displayValue: '', dataType: 'string' };
+      cells.push(cell);
+      cellsByAddress.set(`${row}:${col}`, cell);
+    }
+    cell.comment = comment;
+  }
+}
+
+/**
+ * Reads the formula of a cell without its '='. Cells sharing a formula only carry
+ * it on the first cell; the others get it with their references moved along.
+ */
+function readFormula(
+  element: Element | undefined,
+  row: number,
+  col: number,
+  sheetName: string,
+  sharedFormulas: Map<string, { formula: string; row: number; col: number }>,
+  { warnings }: WorkbookContext
+): string {
+  if (!element) return '';
+
+  let formula = element.textContent ?? '';
+  switch (element.getAttribute('t')) {
+    case 'shared': {
+      const index = element.getAttribute('si') ?? '';
+      const shared = sharedFormulas.get(index);
+      if (formula) {
+        sharedFormulas.set(index, { formula, row, col });
+      } else if (shared) {
+        formula = shiftFormulaReferences(
+          `=${shared.formula}`,
+          row - shared.row,
+          col - shared.col
+        ).slice(1);
+      }
+      break;
+    }
+    case 'array':
+      warnings.add(`Sheet '${sheetName}': imported array formulas as regular formulas`);
+      break;
+    case 'dataTable':
+      warnings.add(`Sheet '${sheetName}': skipped data tables (not supported)`);
+      return '';
+  }
+
+  // Functions added after Excel 2007 are saved with a prefix
+  return formula.replace(/_xl(fn|ws|udf)\./gi, '');
+}
+
+/**
+ * Formats a value with the number format of its style, as the grid shows it
+ */
+function formatCellValue(value: string | number, style: CellStyle | undefined): string {
+  return formatValue(value, getNumberFormatPattern(style)).text;
+}
+
+/**
+ * Reads the defined names of the workbook that refer to a cell or range
+ */
+function readDefinedNames(
+  workbook: Element,
+  sheetsByPosition: (Sheet | undefined)[],
+  firstSheetName: string,
+  warnings: Set<string>
+): DefinedName[] {
+  const names: DefinedName[] = [];
+
+  for (const element of descendants(workbook, 'definedName')) {
+    const name = element.getAttribute('name') ?? '';
+    const reference = (element.textContent ?? '').trim();
+    const localSheetId = element.getAttribute('localSheetId');
+    const sheetId =
+      localSheetId === null ? undefined : sheetsByPosition[Number(localSheetId)]?.id;
+
+    if (name.startsWith('_xlnm.')) {
+      if (name !== '_xlnm._FilterDatabase') {
+        warnings.add('Skipped print areas and print titles (not supported)');
+      }
+      continue;
+    }
+    if (localSheetId !== null && sheetId === undefined) continue;
+
+    let range: CellRange | undefined;
+    if (!reference.includes('#REF!')) {
+      const parsed = parseNameReference(reference, firstSheetName);
+      if (!parsed) {
+        warnings.add(`Skipped the name '${name}': only names of cells and ranges are supported`);
+        continue;
+      }
+      range = parsed;
+    }
+
+    const error = getDefinedNameError(name, names, sheetId);
+    if (error) {
+      warnings.add(`Skipped the name '${name}': ${error}`);
+      continue;
+    }
+
+    const definedName: DefinedName = { id: generateDefinedNameId(), name };
+    if (range) definedName.range = range;
+    if (sheetId) definedName.sheetId = sheetId;
+    const comment = element.getAttribute('comment');
+    if (comment) definedName.comment = comment;
+    names.push(definedName);
+  }
+
+  return names;
+}
+
+/**
+ * Reads the shared string table; rich text keeps its text only
+ */
+function readSharedStrings(document: Document | null, warnings: Set<string>): string[] {
+  if (!document) return [];
+  return children(document.documentElement, 'si').map((item) => {
+    if (first(item, 'r')) {
+      warnings.add('Imported rich text as plain text (mixed formatting is not supported)');
+    }
+    return readText(item);
+  });
+}
+
+/**
+ * Reads the text of a string item, leaving out phonetic guides
+ */
+function readText(element: Element | undefined): string {
+  if (!element) return '';
+  return descendants(element, 't')
+    .filter((text) => text.parentElement?.localName !== 'rPh')
+    .map((text) => text.textContent ?? '')
+    .join('')
+    .replace(/_x([0-9A-Fa-f]{4})_/g, (_, code: string) => String.fromCharCode(parseInt(code, 16)));
+}
+
+/**
+ * Reads the cell formats of the workbook as cell styles, by their index.
+ * Font settings equal to the default font are left out.
+ */
+function readStyles(
+  document: Document | null,
+  themeColors: string[],
+  warnings: Set<string>
+): (CellStyle | undefined)[] {
+  if (!document) return [];
+  const root = document.documentElement;
+
+  const numberFormats = new Map<number, string>();
+  for (const format of children(first(root, 'numFmts'), 'numFmt')) {
+    const id = Number(format.getAttribute('numFmtId'));
+    numberFormats.set(id, format.getAttribute('formatCode') ?? '');
+  }
+
+  const fonts = children(first(root, 'fonts'), 'font').map((font) =>
+    readFont(font, themeColors, warnings)
+  );
+  const defaultFont = fonts[0] ?? {};
+  const fills = children(first(root, 'fills'), 'fill');
+  const borders = children(first(root, 'borders'), 'border').map((border) =>
+    readBorder(border, themeColors, warnings)
+  );
+
+  return children(first(root, 'cellXfs'), 'xf').map((xf) => {
+    const font = { ...fonts[Number(xf.getAttribute('fontId') ?? 0)] };
+    if (font.fontFamily === defaultFont.fontFamily) delete font.fontFamily;
+    if (font.fontSize === defaultFont.fontSize) delete font.fontSize;
+    if (font.color === defaultFont.color) delete font.color;
+
+    const style: CellStyle = {
+      ...font,
+      ...readFill(fills[Number(xf.getAttribute('fillId') ?? 0)], themeColors, warnings),
+      ...borders[Number(xf.getAttribute('borderId') ?? 0)],
+      ...readAlignment(first(xf, 'alignment'), warnings),
+    };
+
+    const formatId = Number(xf.getAttribute('numFmtId') ?? 0);
+    const pattern = numberFormats.get(formatId) ?? BUILT_IN_NUMBER_FORMATS[formatId];
+    if (pattern === undefined) {
+      warnings.add(`Skipped the built-in number format ${formatId} (not supported)`);
+    } else if (pattern !== 'General') {
+      style.numberFormatPattern = pattern;
+    }
+
+    return Object.keys(style).length > 0 ? style : undefined;
+  });
+}
+
+function readFont(font: Element, themeColors: string[], warnings: Set<string>): CellStyle {
+  const style: CellStyle = {};
+  if (hasFlag(font, 'b')) style.fontWeight = 'bold';
+  if (hasFlag(font, 'i')) style.fontStyle = 'italic';
+
+  const decorations: string[] = [];
+  const underline = first(font, 'u');
+  if (underline && underline.getAttribute('val') !== 'none') decorations.push('underline');
+  if (hasFlag(font, 'strike')) decorations.push('line-through');
+  if (decorations.length > 0) style.textDecoration = decorations.join(' ');
+
+  const size = first(font, 'sz')?.getAttribute('val');
+  if (size) style.fontSize = `${pointsToPixels(Number(size))}px`;
+  const name = first(font, 'name')?.getAttribute('val');
+  if (name) style.fontFamily = name;
+  const color = readColor(first(font, 'color'), themeColors);
+  if (color) style.color = color;
+
+  const vertAlign = first(font, 'vertAlign')?.getAttribute('val');
+  if (vertAlign && vertAlign !== 'baseline') {
+    warnings.add('Skipped superscript and subscript (not supported)');
+  }
+  return style;
+}
+
+function readFill(
+  fill: Element | undefined,
+  themeColors: string[],
+  warnings: Set<string>
+): CellStyle {
+  if (!fill) return {};
+  if (first(fill, 'gradientFill')) {
+    warnings.add('Skipped gradient fills (not supported)');
+    return {};
+  }
+
+  const pattern = first(fill, 'patternFill');
+  const type = pattern?.getAttribute('patternType') ?? 'none';
+  if (!pattern || type === 'none') return {};
+  if (type !== 'solid') {
+    warnings.add('Imported pattern fills as solid fills');
+  }
+
+  const color =
+    readColor(first(pattern, 'fgColor'), themeColors) ??
+    readColor(first(pattern, 'bgColor'), themeColors);
+  return color ? { backgroundColor: color } : {};
+}
+
+function readBorder(border: Element, themeColors: string[], warnings: Set<string>): CellStyle {
+  const style: CellStyle = {};
+  const sides = {
+    left: 'borderLeft',
+    right: 'borderRight',
+    top: 'borderTop',
+    bottom: 'borderBottom',
+  } as const;
+
+  for (const [side, property] of Object.entries(sides)) {
+    const element = first(border, side);
+    const css = BORDER_STYLES[element?.getAttribute('style') ?? ''];
+    if (element && css) {
+      style[property] = `${css} ${readColor(first(element, 'color'), themeColors) ?? '#000000'}`;
+    }
+  }
+
+  if (first(border, 'diagonal')?.getAttribute('style')) {
+    warnings.add('Skipped diagonal borders (not supported)');
+  }
+  return style;
+}
+
+function readAlignment(alignment: Element | undefined, warnings: Set<string>): CellStyle {
+  const style: CellStyle = {};
+  if (!alignment) return style;
+
+  switch (alignment.getAttribute('horizontal')) {
+    case 'left':
+      style.textAlign = 'left';
+      break;
+    case 'center':
+    case 'centerContinuous':
+      style.textAlign = 'center';
+      break;
+    case 'right':
+      style.textAlign = 'right';
+      break;
+    case 'fill':
+    case 'justify':
+    case 'distributed':
+      style.textAlign = 'left';
+      warnings.add('Imported filled and justified text as left-aligned');
+      break;
+  }
+
+  switch (alignment.getAttribute('vertical')) {
+    case 'top':
+      style.verticalAlign = 'top';
+      break;
+    case 'center':
+    case 'justify':
+    case 'distributed':
+      style.verticalAlign = 'middle';
+      break;
+    case 'bottom':
+      style.verticalAlign = 'bottom';
+      break;
+  }
+
+  if (isOn(alignment.getAttribute('wrapText'), false)) {
+    style.whiteSpace = 'normal';
+  }
+  if (
+    Number(alignment.getAttribute('textRotation') ?? 0) !== 0 ||
+    Number(alignment.getAttribute('indent') ?? 0) !== 0
+  ) {
+    warnings.add('Skipped text rotation and indents (not supported)');
+  }
+  return style;
+}
+
+/**
+ * Reads a color given as ARGB, a theme color with an optional tint, or an indexed
+ * color, as a CSS hex color. Automatic colors yield undefined.
+ */
+function readColor(element: Element | undefined, themeColors: string[]): string | undefined {
+  if (!element) return undefined;
+
+  const rgb = element.getAttribute('rgb');
+  const theme = element.getAttribute('theme');
+  const indexed = element.getAttribute('indexed');
+  let hex: string | undefined;
+  if (rgb) {
+    hex = rgb.slice(-6);
+  } else if (theme !== null) {
+    hex = themeColors[Number(theme)];
+  } else if (indexed !== null) {
+    hex = INDEXED_COLORS[Number(indexed)];
+  }
+  if (!hex || !/^[0-9A-Fa-f]{6}$/.test(hex)) return undefined;
+
+  const tint = Number(element.getAttribute('tint') ?? 0);
+  return `#${(tint ? applyTint(hex, tint) : hex).toLowerCase()}`;
+}
+
+/**
+ * Lightens (positive tint) or darkens (negative tint) a color the way Excel
+ * shades theme colors: by changing its lightness
+ */
+function applyTint(hex: string, tint: number): string {
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const saturation = max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1));
+  let hue = 0;
+  if (max !== min) {
+    if (max === r) hue = ((g - b) / (max - min) + 6) % 6;
+    else if (max === g) hue = (b - r) / (max - min) + 2;
+    else hue = (r - g) / (max - min) + 4;
+  }
+
+  const tinted = tint < 0 ? lightness * (1 + tint) : lightness * (1 - tint) + tint;
+  const amount = saturation * Math.min(tinted, 1 - tinted);
+  const channel = (n: number) => {
+    const k = (n + hue * 2) % 12;
+    const value = tinted - amount * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return channel(0) + channel(8) + channel(4);
+}
+
+/**
+ * Reads the colors of the workbook theme in the order styles refer to them
+ * (light 1, dark 1, light 2, dark 2, accents, hyperlinks)
+ */
+function readThemeColors(document: Document | null): string[] {
+  const scheme = document ? first(document.documentElement, 'clrScheme') : undefined;
+  if (!scheme) return DEFAULT_THEME_COLORS;
+
+  const colors = Array.from(scheme.children).map((color) => {
+    const value = color.firstElementChild;
+    return value?.getAttribute('lastClr') ?? value?.getAttribute('val') ?? '';
+  });
+  // The scheme lists dark before light colors
+  const [dark1, light1, dark2, light2, ...others] = colors;
+  return [light1, dark1, light2, dark2, ...others];
+}
+
+/**
+ * Reads the relationships of a package part ('' for the package itself),
+ * keyed by their id
+ */
+function readRelationships(
+  files: Map<string, Uint8Array>,
+  partPath: string
+): Map<string, Relationship> {
+  const slash = partPath.lastIndexOf('/');
+  const directory = partPath.slice(0, slash + 1);
+  const document = parseXml(files, `${directory}_rels/${partPath.slice(slash + 1)}.rels`);
+  const relationships = new Map<string, Relationship>();
+
+  for (const element of descendants(document?.documentElement, 'Relationship')) {
+    const target = element.getAttribute('Target') ?? '';
+    relationships.set(element.getAttribute('Id') ?? '', {
+      type: element.getAttribute('Type') ?? '',
+      target:
+        element.getAttribute('TargetMode') === 'External'
+          ? target
+          : resolvePath(directory, target),
+    });
+  }
+  return relationships;
+}
+
+/**
+ * Finds the target of the first relationship of a type (e.g. 'styles')
+ */
+function findTarget(relationships: Map<string, Relationship>, type: string): string | undefined {
+  return [...relationships.values()].find((relationship) =>
+    relationship.type.endsWith(`/${type}`)
+  )?.target;
+}
+
+/**
+ * Resolves a relationship target against the directory of its part
+ */
+function resolvePath(directory: string, target: string): string {
+  const segments = target.startsWith('/') ? [] : directory.split('/').filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+/**
+ * Gets the r:id of an element, whatever prefix the relationships namespace has
+ */
+function getRelationshipId(element: Element): string {
+  const attribute = Array.from(element.attributes).find(
+    (candidate) => candidate.localName === 'id' && candidate.namespaceURI !== null
+  );
+  return attribute?.value ?? '';
+}
+
+function parseXml(files: Map<string, Uint8Array>, path: string): Document | null {
+  const bytes = files.get(path);
+  if (!bytes) return null;
+
+  const document = new DOMParser().parseFromString(
+    new TextDecoder().decode(bytes),
+    'application/xml'
+  );
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`The workbook is damaged: '${path}' is not valid XML`);
+  }
+  return document;
+}
+
+/**
+ * Child elements with a local name, whatever their namespace prefix
+ */
+function children(parent: Element | undefined, name: string): Element[] {
+  return parent ? Array.from(parent.children).filter((child) => child.localName === name) : [];
+}
+
+/**
+ * The first descendant element with a local name
+ */
+function first(parent: Element | undefined, name: string): Element | undefined {
+  return parent?.getElementsByTagNameNS('*', name)[0] ?? undefined;
+}
+
+function descendants(parent: Element | undefined, name: string): Element[] {
+  return parent ? Array.from(parent.getElementsByTagNameNS('*', name)) : [];
+}
+
+/**
+ * Whether a font property such as <b/> or <b val="1"/> is set
+ */
+function hasFlag(parent: Element, name: string): boolean {
+  const element = first(parent, name);
+  return element !== undefined && isOn(element.getAttribute('val'), true);
+}
+
+/**
+ * Reads an OOXML boolean ('1', 'true', '0', 'false'), or the fallback when absent
+ */
+function isOn(value: string | null | undefined, fallback: boolean): boolean {
+  if (value === null || value === undefined) return fallback;
+  return value === '1' || value === 'true';
+}
@@ -0,0 +1,85 @@
+/**
+ * Constants and unit conversions shared by the .xlsx reader and writer
+ */
+
+export const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+export const RELATIONSHIPS_NS =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+export const PACKAGE_RELATIONSHIPS_NS =
+  'http://schemas.openxmlformats.org/package/2006/relationships';
+
+export const RELATIONSHIP_TYPES = {
+  officeDocument: `${RELATIONSHIPS_NS}/officeDocument`,
+  worksheet: `${RELATIONSHIPS_NS}/worksheet`,
+  styles: `${RELATIONSHIPS_NS}/styles`,
+  sharedStrings: `${RELATIONSHIPS_NS}/sharedStrings`,
+  comments: `${RELATIONSHIPS_NS}/comments`,
+  vmlDrawing: `${RELATIONSHIPS_NS}/vmlDrawing`,
+};
+
+/** Width of the digit '0' of the default font (Calibri 11) in pixels */
+const MAX_DIGIT_WIDTH = 7;
+
+/** Format codes Excel knows by id and does not write to styles.xml */
+export const BUILT_IN_NUMBER_FORMATS: Record<number, string> = {
+  0: 'General',
+  1: '0',
+  2: '0.00',
+  3: '#,##0',
+  4: '#,##0.00',
+  9: '0%',
+  10: '0.00%',
+  11: '0.00E+00',
+  12: '# ?/?',
+  13: '# ??/??',
+  14: 'm/d/yyyy',
+  15: 'd-mmm-yy',
+  16: 'd-mmm',
+  17: 'mmm-yy',
+  18: 'h:mm AM/PM',
+  19: 'h:mm:ss AM/PM',
+  20: 'h:mm',
+  21: 'h:mm:ss',
+  22: 'm/d/yyyy h:mm',
+  37: '#,##0 ;(#,##0)',
+  38: '#,##0 ;[Red](#,##0)',
+  39: '#,##0.00;(#,##0.00)',
+  40: '#,##0.00;[Red](#,##0.00)',
+  45: 'mm:ss',
+  46: '[h]:mm:ss',
+  47: 'mmss.0',
+  48: '##0.0E+0',
+  49: '@',
+};
+
+/** First id available to custom format codes */
+export const FIRST_CUSTOM_NUMBER_FORMAT_ID = 164;
+
+/**
+ * Converts a column width as stored in a worksheet (characters of the default
+ * font, including padding) to pixels
+ */
+export function columnWidthToPixels(width: number): number {
+  return Math.trunc(((256 * width + Math.trunc(128 / MAX_DIGIT_WIDTH)) / 256) * MAX_DIGIT_WIDTH);
+}
+
+/**
+ * Converts a column width in pixels to the width stored in a worksheet
+ */
+export function pixelsToColumnWidth(pixels: number): number {
+  return Math.trunc((pixels / MAX_DIGIT_WIDTH) * 256) / 256;
+}
+
+/**
+ * Converts a row height or font size in points to pixels
+ */
+export function pointsToPixels(points: number): number {
+  return Math.round((points * 4) / 3);
+}
+
+/**
+ * Converts a row height or font size in pixels to points
+ */
+export function pixelsToPoints(pixels: number): number {
+  return (pixels * 3) / 4;
+}
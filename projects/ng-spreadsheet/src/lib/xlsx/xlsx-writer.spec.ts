@@ -0,0 +1,224 @@
+import { SpreadsheetData, createEmptySheet, getSheetCell, setSheetCells } from '../models';
+import { readXlsx } from './xlsx-reader';
+import { XLSX_MIME_TYPE, writeXlsx } from './xlsx-writer';
+import { readZip } from './zip';
+
+describe('writeXlsx', () => {
+  function createWorkbook(): SpreadsheetData {
+    const sheet = createEmptySheet({
+      name: 'Sales & Costs',
+      rowCount: 20,
+      colCount: 6,
+      data: [
+        ['Region', 'Q1', 'Q2'],
+        ['North', 100, '250'],
+        ['  padded  ', true, 'TRUE'],
+      ],
+    });
+    sheet.isActive = true;
+    sheet.cells = setSheetCells(sheet.cells, [
+      {
+        row: 3,
+        col: 1,
+        value: '=SUM(B2:C2)',
+        computedValue: 350,
+        displayValue: '$350.00',
+        dataType: 'formula',
+        style: { numberFormat: 'currency', fontWeight: 'bold', borderTop: '2px solid #000' },
+      },
+      {
+        row: 3,
+        col: 2,
+        value: '=A2&"!"',
+        computedValue: 'North!',
+        displayValue: 'North!',
+        dataType: 'formula',
+      },
+      {
+        row: 4,
+        col: 0,
+        value: '',
+        comment: { id: 'c1', author: 'Ana', text: 'Check', createdAt: '' },
+      },
+    ]);
+    getSheetCell(sheet, 0, 0)!.style = {
+      backgroundColor: '#217346',
+      color: 'white',
+      fontStyle: 'italic',
+      fontSize: '16px',
+      fontFamily: 'Georgia, serif',
+      textDecoration: 'underline line-through',
+      textAlign: 'center',
+      verticalAlign: 'top',
+      whiteSpace: 'normal',
+      border: '1px solid rgb(255, 0, 0)',
+    };
+    sheet.columnWidths![1] = 150;
+    sheet.columnWidths![2] = 150;
+    sheet.rowHeights![0] = 40;
+    sheet.hiddenRows = [2];
+    sheet.merges = [{ start: { row: 5, col: 0 }, end: { row: 6, col: 1 } }];
+    sheet.frozenRows = 1;
+    sheet.frozenColumns = 1;
+
+    const hidden = createEmptySheet({ name: 'Rates', rowCount: 5, colCount: 2, data: [[0.2]] });
+    hidden.isHidden = true;
+    hidden.dataValidations = [
+      {
+        id: 'v',
+        range: { start: { row: 0, col: 1 }, end: { row: 4, col: 1 } },
+        type: 'list',
+        list: ['Yes', 'No'],
+      },
+    ];
+
+    return {
+      sheets: [sheet, hidden],
+      activeSheetIndex: 0,
+      names: [
+        {
+          id: 'n1',
+          name: 'Rate',
+          range: {
+            start: { row: 0, col: 0, absoluteRow: true, absoluteCol: true },
+            end: { row: 0, col: 0, absoluteRow: true, absoluteCol: true },
+            sheet: 'Rates',
+          },
+          sheetId: sheet.id,
+          comment: 'Tax',
+        },
+      ],
+      calculation: { iterative: true, maxIterations: 50, maxChange: 0.01 },
+    };
+  }
+
+  async function readPart(blob: Blob, path: string): Promise<string> {
+    const files = await readZip(await blob.arrayBuffer());
+    return new TextDecoder().decode(files.get(path));
+  }
+
+  it('should write an .xlsx package', async () => {
+    const { blob } = await writeXlsx(createWorkbook());
+
+    expect(blob.type).toBe(XLSX_MIME_TYPE);
+    const files = await readZip(await blob.arrayBuffer());
+    expect([...files.keys()]).toEqual(
+      jasmine.arrayWithExactContents([
+        'xl/worksheets/sheet1.xml',
+        'xl/worksheets/sheet2.xml',
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'xl/workbook.xml',
+        'xl/_rels/workbook.xml.rels',
+        'xl/styles.xml',
+        'xl/sharedStrings.xml',
+        'xl/comments1.xml',
+        'xl/drawings/vmlDrawing1.vml',
+        'xl/worksheets/_rels/sheet1.xml.rels',
+      ])
+    );
+
+    const workbook = await readPart(blob, 'xl/workbook.xml');
+    expect(workbook).toContain('<sheet name="Sales &amp; Costs" sheetId="1" r:id="rId1"/>');
+    expect(workbook).toContain('<sheet name="Rates" sheetId="2" state="hidden" r:id="rId2"/>');
+    expect(workbook).toContain(
+      '<definedName name="Rate" comment="Tax" localSheetId="0">Rates!$A$1</definedName>'
+    );
+
+    const worksheet = await readPart(blob, 'xl/worksheets/sheet1.xml');
+    expect(worksheet).toContain('<c r="B2"><v>100</v></c><c r="C2"><v>250</v></c>');
+    expect(worksheet).toContain('<c r="B3" t="b"><v>1</v></c><c r="C3" t="b"><v>1</v></c>');
+    expect(worksheet).toContain('<f>SUM(B2:C2)</f><v>350</v>');
+    expect(worksheet).toContain('t="str"><f>A2&amp;&quot;!&quot;</f><v>North!</v>');
+    expect(worksheet).toContain('<pane xSplit="1" ySplit="1" topLeftCell="B2"');
+    expect(worksheet).toContain('<legacyDrawing r:id="rId2"/>');
+
+    const comments = await readPart(blob, 'xl/comments1.xml');
+    expect(comments).toContain('<authors><author>Ana</author></authors>');
+    expect(comments).toContain('<comment ref="A5" authorId="0">');
+  });
+
+  it('should read back what it wrote', async () => {
+    const { blob } = await writeXlsx(createWorkbook());
+    const { data, warnings } = await readXlsx(blob);
+    const [sheet, hidden] = data.sheets;
+
+    expect(warnings).toEqual([]);
+    expect(data.sheets.map((s) => s.name)).toEqual(['Sales & Costs', 'Rates']);
+    expect(hidden.isHidden).toBeTrue();
+    expect(getSheetCell(sheet, 2, 0)?.value).toBe('  padded  ');
+    expect(getSheetCell(sheet, 3, 1)).toEqual(
+      jasmine.objectContaining({
+        value: '=SUM(B2:C2)',
+        computedValue: 350,
+        displayValue: '$350.00',
+      })
+    );
+    expect(getSheetCell(sheet, 3, 1)?.style).toEqual({
+      fontWeight: 'bold',
+      borderTop: '2px solid #000000',
+      numberFormatPattern: '"$"#,##0.00',
+    });
+    expect(getSheetCell(sheet, 0, 0)?.style).toEqual({
+      backgroundColor: '#217346',
+      color: '#ffffff',
+      fontStyle: 'italic',
+      fontSize: '16px',
+      fontFamily: 'Georgia',
+      textDecoration: 'underline line-through',
+      textAlign: 'center',
+      verticalAlign: 'top',
+      whiteSpace: 'normal',
+      borderTop: '1px solid #ff0000',
+      borderRight: '1px solid #ff0000',
+      borderBottom: '1px solid #ff0000',
+      borderLeft: '1px solid #ff0000',
+    });
+
+    expect(sheet.defaultColumnWidth).toBe(100);
+    expect(sheet.columnWidths?.slice(0, 4)).toEqual([100, 150, 150, 100]);
+    expect(sheet.rowHeights?.slice(0, 2)).toEqual([40, 25]);
+    expect(sheet.hiddenRows).toEqual([2]);
+    expect(sheet.merges).toEqual([{ start: { row: 5, col: 0 }, end: { row: 6, col: 1 } }]);
+    expect(sheet.frozenRows).toBe(1);
+    expect(sheet.frozenColumns).toBe(1);
+    expect(getSheetCell(sheet, 4, 0)?.comment).toEqual(
+      jasmine.objectContaining({ author: 'Ana', text: 'Check' })
+    );
+
+    expect(data.names?.[0]).toEqual(
+      jasmine.objectContaining({ name: 'Rate', sheetId: sheet.id, comment: 'Tax' })
+    );
+    expect(data.calculation).toEqual({ iterative: true, maxIterations: 50, maxChange: 0.01 });
+  });
+
+  it('should write the replies of a comment into its note', async () => {
+    const data = createWorkbook();
+    getSheetCell(data.sheets[0], 4, 0)!.comment!.replies = [
+      { id: 'c2', author: 'Bo', text: 'Done', createdAt: '' },
+    ];
+
+    const { data: read } = await readXlsx((await writeXlsx(data)).blob);
+    expect(getSheetCell(read.sheets[0], 4, 0)?.comment?.text).toBe('Check\nBo: Done');
+  });
+
+  it('should list the features it left out', async () => {
+    const data = createWorkbook();
+    getSheetCell(data.sheets[0], 1, 0)!.style = { color: 'hsl(0, 0%, 0%)', padding: '2px' };
+    getSheetCell(data.sheets[0], 4, 0)!.comment!.replies = [
+      { id: 'c2', author: 'Bo', text: 'Done', createdAt: '' },
+    ];
+
+    const { warnings } = await writeXlsx(data);
+
+    expect(warnings).toEqual(
+      jasmine.arrayWithExactContents([
+        "Sheet 'Sales & Costs': wrote comment threads as notes " +
+          '(replies are added to the text, resolved threads are reopened)',
+        "Sheet 'Rates': skipped data validation (not supported)",
+        "Skipped the color 'hsl(0, 0%, 0%)' (only hex, rgb() and basic color names are supported)",
+        'Skipped cell padding (not supported)',
+      ])
+    );
+  });
+});
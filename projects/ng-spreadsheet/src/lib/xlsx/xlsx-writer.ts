@@ -0,0 +1,728 @@
+import {
+  Cell,
+  CellStyle,
+  Sheet,
+  SpreadsheetData,
+  cellAddressToA1,
+  cellRangeToA1,
+  forEachSheetCell,
+  getCommentThread,
+} from '../models';
+import { getNumberFormatPattern } from '../format';
+import { writeZip } from './zip';
+import {
+  BUILT_IN_NUMBER_FORMATS,
+  FIRST_CUSTOM_NUMBER_FORMAT_ID,
+  PACKAGE_RELATIONSHIPS_NS,
+  RELATIONSHIPS_NS,
+  RELATIONSHIP_TYPES,
+  SPREADSHEET_NS,
+  pixelsToColumnWidth,
+  pixelsToPoints,
+} from './xlsx-shared';
+
+/**
+ * A workbook written as an .xlsx file
+ */
+export interface XlsxExportResult {
+  /** The .xlsx file */
+  blob: Blob;
+
+  /** Features of the workbook that were left out of the file, one message each */
+  warnings: string[];
+}
+
+/** Fonts, fills, borders and cell formats of styles.xml, each deduplicated by its XML */
+interface StyleTable {
+  numberFormats: Map<string, number>;
+  fonts: string[];
+  fills: string[];
+  borders: string[];
+  cellFormats: string[];
+  warnings: Set<string>;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+const CONTENT_TYPE_PREFIX = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const VML_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.vmlDrawing';
+
+/** Font Excel uses for the text of notes */
+const COMMENT_FONT = '<sz val="9"/><rFont val="Tahoma"/>';
+
+/** Text the formula engine reads as a number, written to the file as one */
+const NUMERIC_TEXT_PATTERN = /^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/;
+
+/** Excel's default font, which cells without font settings keep */
+const DEFAULT_FONT_SIZE = 11;
+const DEFAULT_FONT_NAME = 'Calibri';
+
+/** CSS color keywords written as their hex value */
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000',
+  white: 'FFFFFF',
+  red: 'FF0000',
+  green: '008000',
+  blue: '0000FF',
+  yellow: 'FFFF00',
+  orange: 'FFA500',
+  purple: '800080',
+  gray: '808080',
+  grey: '808080',
+  silver: 'C0C0C0',
+  maroon: '800000',
+  olive: '808000',
+  lime: '00FF00',
+  teal: '008080',
+  navy: '000080',
+  aqua: '00FFFF',
+  fuchsia: 'FF00FF',
+};
+
+/**
+ * Writes a workbook as an .xlsx file: every sheet (hidden ones stay hidden),
+ * values, formulas with their cached results, cell styles, number formats,
+ * column widths, row heights, hidden rows, merged cells, frozen panes, comments
+ * (as notes) and defined names. Features Excel files cannot hold this way are
+ * left out and listed in `warnings`.
+ */
+export async function writeXlsx(data: SpreadsheetData): Promise<XlsxExportResult> {
+  const warnings = new Set<string>();
+  const styles: StyleTable = {
+    numberFormats: new Map(),
+    fonts: [`<font><sz val="${DEFAULT_FONT_SIZE}"/><name val="${DEFAULT_FONT_NAME}"/></font>`],
+    fills: [
+      '<fill><patternFill patternType="none"/></fill>',
+      '<fill><patternFill patternType="gray125"/></fill>',
+    ],
+    borders: ['<border><left/><right/><top/><bottom/><diagonal/></border>'],
+    cellFormats: ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'],
+    warnings,
+  };
+  const sharedStrings: string[] = [];
+  const sharedStringIndexes = new Map<string, number>();
+  const addSharedString = (text: string): number => {
+    let index = sharedStringIndexes.get(text);
+    if (index === undefined) {
+      index = sharedStrings.push(text) - 1;
+      sharedStringIndexes.set(text, index);
+    }
+    return index;
+  };
+
+  const files = new Map<string, string>();
+  const sheetsWithComments: number[] = [];
+  data.sheets.forEach((sheet, index) => {
+    const number = index + 1;
+    const comments: Cell[] = [];
+    forEachSheetCell(sheet.cells, (cell) => {
+      if (cell.comment) comments.push(cell);
+    });
+
+    // Comments are written as notes: the comments part holds their text and a VML
+    // drawing the boxes Excel shows them in
+    if (comments.length > 0) {
+      sheetsWithComments.push(number);
+      files.set(`xl/comments${number}.xml`, writeComments(sheet.name, comments, warnings));
+      files.set(`xl/drawings/vmlDrawing${number}.vml`, writeCommentShapes(comments, number));
+      files.set(
+        `xl/worksheets/_rels/sheet${number}.xml.rels`,
+        writeRelationships([
+          { type: RELATIONSHIP_TYPES.comments, target: `../comments${number}.xml` },
+          { type: RELATIONSHIP_TYPES.vmlDrawing, target: `../drawings/vmlDrawing${number}.vml` },
+        ])
+      );
+    }
+    files.set(
+      `xl/worksheets/sheet${number}.xml`,
+      writeWorksheet(
+        sheet,
+        index === data.activeSheetIndex,
+        comments.length > 0,
+        styles,
+        addSharedString
+      )
+    );
+  });
+
+  const sheetCount = data.sheets.length;
+  files.set('[Content_Types].xml', writeContentTypes(sheetCount, sheetsWithComments));
+  files.set(
+    '_rels/.rels',
+    writeRelationships([{ type: RELATIONSHIP_TYPES.officeDocument, target: 'xl/workbook.xml' }])
+  );
+  files.set('xl/workbook.xml', writeWorkbook(data));
+  files.set(
+    'xl/_rels/workbook.xml.rels',
+    writeRelationships([
+      ...data.sheets.map((_, index) => ({
+        type: RELATIONSHIP_TYPES.worksheet,
+        target: `worksheets/sheet${index + 1}.xml`,
+      })),
+      { type: RELATIONSHIP_TYPES.styles, target: 'styles.xml' },
+      { type: RELATIONSHIP_TYPES.sharedStrings, target: 'sharedStrings.xml' },
+    ])
+  );
+  files.set('xl/styles.xml', writeStyles(styles));
+  files.set('xl/sharedStrings.xml', writeSharedStrings(sharedStrings));
+
+  const encoder = new TextEncoder();
+  const encoded = new Map<string, Uint8Array>();
+  for (const [path, xml] of files) {
+    encoded.set(path, encoder.encode(xml));
+  }
+
+  return { blob: await writeZip(encoded, XLSX_MIME_TYPE), warnings: [...warnings] };
+}
+
+/**
+ * Writes a worksheet: its view, column widths, rows of cells and merged cells, and a
+ * reference to the drawing of its comments when it has any
+ */
+function writeWorksheet(
+  sheet: Sheet,
+  isActive: boolean,
+  hasComments: boolean,
+  styles: StyleTable,
+  addSharedString: (text: string) => number
+): string {
+  const { warnings } = styles;
+  const name = sheet.name;
+  if (sheet.conditionalFormats?.length) {
+    warnings.add(`Sheet '${name}': skipped conditional formatting (not supported)`);
+  }
+  if (sheet.dataValidations?.length) {
+    warnings.add(`Sheet '${name}': skipped data validation (not supported)`);
+  }
+  if (sheet.autoFilter) {
+    warnings.add(`Sheet '${name}': skipped the AutoFilter (not supported)`);
+  }
+
+  const defaultColumnWidth = sheet.defaultColumnWidth ?? 100;
+  const defaultRowHeight = sheet.defaultRowHeight ?? 25;
+  const hiddenRows = new Set(sheet.hiddenRows ?? []);
+
+  // Frozen rows and columns
+  const frozenRows = sheet.frozenRows ?? 0;
+  const frozenColumns = sheet.frozenColumns ?? 0;
+  let pane = '';
+  if (frozenRows > 0 || frozenColumns > 0) {
+    const activePane =
+      frozenRows > 0 && frozenColumns > 0
+        ? 'bottomRight'
+        : frozenRows > 0
+          ? 'bottomLeft'
+          : 'topRight';
+    pane =
+      `<pane${frozenColumns > 0 ? ` xSplit="${frozenColumns}"` : ''}` +
+      `${frozenRows > 0 ? ` ySplit="${frozenRows}"` : ''}` +
+      ` topLeftCell="${cellAddressToA1({ row: frozenRows, col: frozenColumns })}"` +
+      ` activePane="${activePane}" state="frozen"/>`;
+  }
+  const view =
+    `<sheetViews><sheetView${isActive ? ' tabSelected="1"' : ''} workbookViewId="0">` +
+    `${pane}</sheetView></sheetViews>`;
+
+  const format =
+    `<sheetFormatPr defaultColWidth="${pixelsToColumnWidth(defaultColumnWidth)}"` +
+    ` defaultRowHeight="${pixelsToPoints(defaultRowHeight)}" customHeight="1"/>`;
+
+  // Runs of columns with the same width, leaving out default widths
+  const columns: string[] = [];
+  const widths = sheet.columnWidths ?? [];
+  for (let col = 0; col < sheet.colCount; col++) {
+    const width = widths[col] ?? defaultColumnWidth;
+    if (width === defaultColumnWidth) continue;
+
+    let last = col;
+    while (last + 1 < sheet.colCount && (widths[last + 1] ?? defaultColumnWidth) === width) {
+      last++;
+    }
+    columns.push(
+      `<col min="${col + 1}" max="${last + 1}" width="${pixelsToColumnWidth(width)}"` +
+        ' customWidth="1"/>'
+    );
+    col = last;
+  }
+
+  const rows: string[] = [];
+  for (let row = 0; row < sheet.rowCount; row++) {
+    const cells: string[] = [];
+    for (const cell of sheet.cells[row] ?? []) {
+      if (!cell) continue;
+      const xml = writeCell(cell, styles, addSharedString);
+      if (xml) cells.push(xml);
+    }
+
+    const height = sheet.rowHeights?.[row] ?? defaultRowHeight;
+    const isHidden = hiddenRows.has(row);
+    if (cells.length === 0 && height === defaultRowHeight && !isHidden) continue;
+
+    rows.push(
+      `<row r="${row + 1}"` +
+        (height !== defaultRowHeight ? ` ht="${pixelsToPoints(height)}" customHeight="1"` : '') +
+        (isHidden ? ' hidden="1"' : '') +
+        `>${cells.join('')}</row>`
+    );
+  }
+  const merges = (sheet.merges ?? []).map(
+    (merge) =>
+      `<mergeCell ref="${cellAddressToA1({ row: merge.start.row, col: merge.start.col })}:` +
+      `${cellAddressToA1({ row: merge.end.row, col: merge.end.col })}"/>`
+  );
+
+  return (
+    XML_DECLARATION +
+    `<worksheet xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}">` +
+    view +
+    format +
+    (columns.length > 0 ? `<cols>${columns.join('')}</cols>` : '') +
+    `<sheetData>${rows.join('')}</sheetData>` +
+    (merges.length > 0
+      ? `<mergeCells count="${merges.length}">${merges.join('')}</mergeCells>`
+      : '') +
+    (hasComments ? '<legacyDrawing r:id="rId2"/>' : '') +
+    '</worksheet>'
+  );
+}
+
+/**
+ * Writes the comments part of a sheet. Notes hold one text, so a thread is written
+ * as its first comment, preceded by the author's name in bold as Excel does, with
+ * the replies added below it.
+ */
+function writeComments(sheetName: string, cells: Cell[], warnings: Set<string>): string {
+  const authors: string[] = [];
+  const run = (text: string, bold = false) =>
+    `<r><rPr>${bold ? '<b/>' : ''}${COMMENT_FONT}</rPr>` +
+    `<t xml:space="preserve">${escapeXml(text)}</t></r>`;
+
+  const comments = cells.map((cell) => {
+    const [comment, ...replies] = getCommentThread(cell.comment!);
+    if (replies.length > 0 || cell.comment!.resolved) {
+      warnings.add(
+        `Sheet '${sheetName}': wrote comment threads as notes ` +
+          '(replies are added to the text, resolved threads are reopened)'
+      );
+    }
+
+    const authorId = add(authors, comment.author);
+    const text = [
+      comment.text,
+      ...replies.map((reply) => (reply.author ? `${reply.author}: ${reply.text}` : reply.text)),
+    ].join('\n');
+    const content = comment.author
+      ? run(`${comment.author}:`, true) + run(`\n${text}`)
+      : run(text);
+    return (
+      `<comment ref="${cellAddressToA1({ row: cell.row, col: cell.col })}"` +
+      ` authorId="${authorId}"><text>${content}</text></comment>`
+    );
+  });
+
+  return (
+    XML_DECLARATION +
+    `<comments xmlns="${SPREADSHEET_NS}">` +
+    `<authors>${authors.map((author) => `<author>${escapeXml(author)}</author>`).join('')}` +
+    `</authors><commentList>${comments.join('')}</commentList></comments>`
+  );
+}
+
+/**
+ * Writes the VML drawing with the (hidden) note boxes of a sheet's comments, anchored
+ * to the right of their cells
+ */
+function writeCommentShapes(cells: Cell[], sheetNumber: number): string {
+  const shapes = cells.map(({ row, col }, index) => {
+    const anchor = [col + 1, 15, row, 2, col + 3, 15, row + 4, 16].join(', ');
+    return (
+      `<v:shape id="_x0000_s${sheetNumber * 1024 + index + 1}" type="#_x0000_t202"` +
+      ' style="position:absolute;margin-left:59.25pt;margin-top:1.5pt;width:108pt;' +
+      `height:59.25pt;z-index:${index + 1};visibility:hidden" fillcolor="#ffffe1"` +
+      ' o:insetmode="auto"><v:fill color2="#ffffe1"/>' +
+      '<v:shadow on="t" color="black" obscured="t"/><v:path o:connecttype="none"/>' +
+      '<v:textbox style="mso-direction-alt:auto"><div style="text-align:left"></div>' +
+      '</v:textbox><x:ClientData ObjectType="Note"><x:MoveWithCells/><x:SizeWithCells/>' +
+      `<x:Anchor>${anchor}</x:Anchor><x:AutoFill>False</x:AutoFill>` +
+      `<x:Row>${row}</x:Row><x:Column>${col}</x:Column></x:ClientData></v:shape>`
+    );
+  });
+
+  return (
+    '<xml xmlns:v="urn:schemas-microsoft-com:vml"' +
+    ' xmlns:o="urn:schemas-microsoft-com:office:office"' +
+    ' xmlns:x="urn:schemas-microsoft-com:office:excel">' +
+    `<o:shapelayout v:ext="edit"><o:idmap v:ext="edit" data="${sheetNumber}"/>` +
+    '</o:shapelayout>' +
+    '<v:shapetype id="_x0000_t202" coordsize="21600,21600" o:spt="202"' +
+    ' path="m,l,21600r21600,l21600,xe"><v:stroke joinstyle="miter"/>' +
+    '<v:path gradientshapeok="t" o:connecttype="rect"/></v:shapetype>' +
+    `${shapes.join('')}</xml>`
+  );
+}
+
+/**
+ * Writes a cell with its value or formula and style. Returns '' for empty
+ * cells without a style.
+ */
+function writeCell(
+  cell: Cell,
+  styles: StyleTable,
+  addSharedString: (text: string) => number
+): string {
+  const reference = cellAddressToA1({ row: cell.row, col: cell.col });
+  const styleIndex = cell.style ? addCellFormat(cell.style, styles) : 0;
+  const style = styleIndex > 0 ? ` s="${styleIndex}"` : '';
+  const value = cell.value;
+
+  const element = (type: string, content: string) =>
+    `<c r="${reference}"${style}${type ? ` t="${type}"` : ''}>${content}</c>`;
+
+  if (typeof value === 'string' && value.startsWith('=') && value.length > 1) {
+    // Formulas keep the result of their last evaluation
+    const formula = `<f>${escapeXml(value.slice(1))}</f>`;
+    const result = cell.computedValue;
+    if (cell.dataType === 'error' || cell.error) {
+      return element('e', `${formula}<v>${escapeXml(cell.displayValue ?? '#VALUE!')}</v>`);
+    }
+    if (typeof result === 'number' && Number.isFinite(result)) {
+      return element('', `${formula}<v>${result}</v>`);
+    }
+    if (typeof result === 'string' && result !== '') {
+      return element('str', `${formula}<v>${escapeXml(result)}</v>`);
+    }
+    return element('', formula);
+  }
+
+  if (cell.dataType === 'error') {
+    return element('e', `<v>${escapeXml(String(value))}</v>`);
+  }
+  if (typeof value === 'boolean') {
+    return element('b', `<v>${value ? 1 : 0}</v>`);
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return element('', `<v>${value}</v>`);
+  }
+  if (value === null || value === undefined || value === '') {
+    return styleIndex > 0 ? `<c r="${reference}"${style}/>` : '';
+  }
+
+  const text = String(value);
+  if (NUMERIC_TEXT_PATTERN.test(text) && getNumberFormatPattern(cell.style) !== '@') {
+    return element('', `<v>${Number(text)}</v>`);
+  }
+  if (/^(true|false)$/i.test(text)) {
+    return element('b', `<v>${text.toLowerCase() === 'true' ? 1 : 0}</v>`);
+  }
+  return element('s', `<v>${addSharedString(text)}</v>`);
+}
+
+/**
+ * Adds the font, fill, border, number format and alignment of a cell style to the
+ * style table, returning the index of its cell format
+ */
+function addCellFormat(style: CellStyle, styles: StyleTable): number {
+  const fontId = add(styles.fonts, writeFont(style, styles.warnings));
+  const fillId = add(styles.fills, writeFill(style, styles.warnings));
+  const borderId = add(styles.borders, writeBorder(style, styles.warnings));
+  const numFmtId = getNumberFormatId(getNumberFormatPattern(style), styles.numberFormats);
+  const alignment = writeAlignment(style);
+  if (style.padding) {
+    styles.warnings.add('Skipped cell padding (not supported)');
+  }
+
+  const xf =
+    `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}"` +
+    ` borderId="${borderId}" xfId="0"` +
+    (numFmtId > 0 ? ' applyNumberFormat="1"' : '') +
+    (fontId > 0 ? ' applyFont="1"' : '') +
+    (fillId > 0 ? ' applyFill="1"' : '') +
+    (borderId > 0 ? ' applyBorder="1"' : '') +
+    (alignment ? ` applyAlignment="1">${alignment}</xf>` : '/>');
+  return add(styles.cellFormats, xf);
+}
+
+/**
+ * Returns the index of an entry of a style list, adding it if it is new
+ */
+function add(list: string[], xml: string): number {
+  const index = list.indexOf(xml);
+  return index >= 0 ? index : list.push(xml) - 1;
+}
+
+function writeFont(style: CellStyle, warnings: Set<string>): string {
+  const weight = style.fontWeight ?? 'normal';
+  const bold = weight === 'bold' || weight === 'bolder' || Number(weight) >= 600;
+  const italic = style.fontStyle === 'italic' || style.fontStyle === 'oblique';
+  const decoration = style.textDecoration ?? '';
+  const size = parseFontSize(style.fontSize) ?? DEFAULT_FONT_SIZE;
+  const family = (style.fontFamily ?? '').split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+  const name = family && !/^(serif|sans-serif|monospace|cursive|fantasy)$/i.test(family)
+    ? family
+    : DEFAULT_FONT_NAME;
+  const color = style.color ? toArgb(style.color, warnings) : undefined;
+
+  return (
+    '<font>' +
+    (bold ? '<b/>' : '') +
+    (italic ? '<i/>' : '') +
+    (decoration.includes('line-through') ? '<strike/>' : '') +
+    (decoration.includes('underline') ? '<u/>' : '') +
+    `<sz val="${size}"/>` +
+    (color ? `<color rgb="${color}"/>` : '') +
+    `<name val="${escapeXml(name)}"/>` +
+    '</font>'
+  );
+}
+
+function writeFill(style: CellStyle, warnings: Set<string>): string {
+  const color = style.backgroundColor ? toArgb(style.backgroundColor, warnings) : undefined;
+  return color
+    ? `<fill><patternFill patternType="solid"><fgColor rgb="${color}"/>` +
+        '<bgColor indexed="64"/></patternFill></fill>'
+    : '<fill><patternFill patternType="none"/></fill>';
+}
+
+function writeBorder(style: CellStyle, warnings: Set<string>): string {
+  const side = (name: string, css: string | undefined) => {
+    const border = css ? parseBorder(css, warnings) : null;
+    return border
+      ? `<${name} style="${border.style}"><color rgb="${border.color}"/></${name}>`
+      : `<${name}/>`;
+  };
+
+  return (
+    '<border>' +
+    side('left', style.borderLeft ?? style.border) +
+    side('right', style.borderRight ?? style.border) +
+    side('top', style.borderTop ?? style.border) +
+    side('bottom', style.borderBottom ?? style.border) +
+    '<diagonal/></border>'
+  );
+}
+
+function writeAlignment(style: CellStyle): string {
+  const attributes: string[] = [];
+  if (style.textAlign) {
+    attributes.push(`horizontal="${style.textAlign}"`);
+  }
+  if (style.verticalAlign) {
+    const vertical = style.verticalAlign === 'middle' ? 'center' : style.verticalAlign;
+    attributes.push(`vertical="${vertical}"`);
+  }
+  if (style.whiteSpace === 'normal' || style.whiteSpace === 'pre-wrap' ||
+      style.whiteSpace === 'pre-line') {
+    attributes.push('wrapText="1"');
+  }
+  return attributes.length > 0 ? `<alignment ${attributes.join(' ')}/>` : '';
+}
+
+/**
+ * Gets the id of a format code: built-in codes have fixed ids, others are
+ * numbered from 164 as they are first used
+ */
+function getNumberFormatId(pattern: string, numberFormats: Map<string, number>): number {
+  for (const [id, code] of Object.entries(BUILT_IN_NUMBER_FORMATS)) {
+    if (code === pattern) return Number(id);
+  }
+  let id = numberFormats.get(pattern);
+  if (id === undefined) {
+    id = FIRST_CUSTOM_NUMBER_FORMAT_ID + numberFormats.size;
+    numberFormats.set(pattern, id);
+  }
+  return id;
+}
+
+/**
+ * Reads a font size in pixels ('12px') or points ('9pt') as points
+ */
+function parseFontSize(size: string | undefined): number | undefined {
+  const match = size?.trim().match(/^(\d+(?:\.\d+)?)(px|pt)?$/);
+  if (!match) return undefined;
+  return match[2] === 'pt' ? Number(match[1]) : pixelsToPoints(Number(match[1]));
+}
+
+/**
+ * Reads a CSS border ('1px solid #000') as an Excel border style and ARGB color.
+ * Returns null for no border.
+ */
+function parseBorder(css: string, warnings: Set<string>): { style: string; color: string } | null {
+  // rgb() colors contain spaces; take them out before splitting
+  const rgb = css.match(/rgba?\([^)]*\)/i)?.[0];
+  const parts = css.replace(/rgba?\([^)]*\)/i, '').trim().split(/\s+/).filter(Boolean);
+
+  let width = 1;
+  let lineStyle = 'none';
+  let color = rgb;
+  for (const part of parts) {
+    const lower = part.toLowerCase();
+    if (/^\d+(\.\d+)?px$/.test(lower)) width = parseFloat(lower);
+    else if (lower === 'thin') width = 1;
+    else if (lower === 'medium') width = 2;
+    else if (lower === 'thick') width = 3;
+    else if (/^(none|hidden|solid|dashed|dotted|double|groove|ridge|inset|outset)$/.test(lower)) {
+      lineStyle = lower;
+    } else color = part;
+  }
+  if (lineStyle === 'none' || lineStyle === 'hidden' || width === 0) return null;
+
+  let style: string;
+  if (lineStyle === 'double') style = 'double';
+  else if (lineStyle === 'dotted') style = 'dotted';
+  else if (lineStyle === 'dashed') style = width >= 2 ? 'mediumDashed' : 'dashed';
+  else style = width >= 3 ? 'thick' : width >= 2 ? 'medium' : 'thin';
+
+  return { style, color: (color && toArgb(color, warnings)) ?? 'FF000000' };
+}
+
+/**
+ * Converts a CSS color (hex, rgb() or a basic color name) to ARGB ('FF217346').
+ * Other colors are left out with a warning; transparent yields undefined.
+ */
+function toArgb(css: string, warnings: Set<string>): string | undefined {
+  const color = css.trim().toLowerCase();
+  if (color === 'transparent') return undefined;
+
+  let hex = NAMED_COLORS[color];
+  const short = color.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+  const long = color.match(/^#([0-9a-f]{6})([0-9a-f]{2})?$/);
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+  if (short) {
+    hex = short.slice(1, 4).map((digit) => digit + digit).join('');
+  } else if (long) {
+    hex = long[1];
+  } else if (rgb) {
+    hex = rgb
+      .slice(1, 4)
+      .map((channel) => Math.min(255, Number(channel)).toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  if (!hex) {
+    warnings.add(
+      `Skipped the color '${css}' (only hex, rgb() and basic color names are supported)`
+    );
+    return undefined;
+  }
+  return `FF${hex.toUpperCase()}`;
+}
+
+/**
+ * Writes the workbook part: the sheets, defined names and calculation settings
+ */
+function writeWorkbook(data: SpreadsheetData): string {
+  const sheets = data.sheets.map(
+    (sheet, index) =>
+      `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}"` +
+      `${sheet.isHidden ? ' state="hidden"' : ''} r:id="rId${index + 1}"/>`
+  );
+
+  const names = (data.names ?? []).map((name) => {
+    const localSheetId = data.sheets.findIndex((sheet) => sheet.id === name.sheetId);
+    return (
+      `<definedName name="${escapeXml(name.name)}"` +
+      (name.comment ? ` comment="${escapeXml(name.comment)}"` : '') +
+      (name.sheetId !== undefined && localSheetId >= 0 ? ` localSheetId="${localSheetId}"` : '') +
+      `>${escapeXml(name.range ? cellRangeToA1(name.range) : '#REF!')}</definedName>`
+    );
+  });
+
+  const calculation = data.calculation?.iterative
+    ? `<calcPr iterate="1" iterateCount="${data.calculation.maxIterations}"` +
+      ` iterateDelta="${data.calculation.maxChange}"/>`
+    : '';
+
+  return (
+    XML_DECLARATION +
+    `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}">` +
+    `<bookViews><workbookView activeTab="${data.activeSheetIndex}"/></bookViews>` +
+    `<sheets>${sheets.join('')}</sheets>` +
+    (names.length > 0 ? `<definedNames>${names.join('')}</definedNames>` : '') +
+    calculation +
+    '</workbook>'
+  );
+}
+
+function writeStyles(styles: StyleTable): string {
+  const numberFormats = [...styles.numberFormats].map(
+    ([code, id]) => `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`
+  );
+  const list = (name: string, items: string[]) =>
+    `<${name} count="${items.length}">${items.join('')}</${name}>`;
+
+  return (
+    XML_DECLARATION +
+    `<styleSheet xmlns="${SPREADSHEET_NS}">` +
+    (numberFormats.length > 0 ? list('numFmts', numberFormats) : '') +
+    list('fonts', styles.fonts) +
+    list('fills', styles.fills) +
+    list('borders', styles.borders) +
+    list('cellStyleXfs', ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0"/>']) +
+    list('cellXfs', styles.cellFormats) +
+    list('cellStyles', ['<cellStyle name="Normal" xfId="0" builtinId="0"/>']) +
+    '</styleSheet>'
+  );
+}
+
+function writeSharedStrings(strings: string[]): string {
+  const items = strings.map((text) => {
+    const preserve = /^\s|\s$|\n/.test(text) ? ' xml:space="preserve"' : '';
+    return `<si><t${preserve}>${escapeXml(text)}</t></si>`;
+  });
+  return (
+    XML_DECLARATION +
+    `<sst xmlns="${SPREADSHEET_NS}" count="${items.length}" uniqueCount="${items.length}">` +
+    `${items.join('')}</sst>`
+  );
+}
+
+function writeContentTypes(sheetCount: number, sheetsWithComments: number[]): string {
+  const override = (part: string, type: string) =>
+    `<Override PartName="/${part}" ContentType="${CONTENT_TYPE_PREFIX}.${type}+xml"/>`;
+  const sheets = Array.from({ length: sheetCount }, (_, index) =>
+    override(`xl/worksheets/sheet${index + 1}.xml`, 'worksheet')
+  );
+  const comments = sheetsWithComments.map((number) =>
+    override(`xl/comments${number}.xml`, 'comments')
+  );
+
+  return (
+    XML_DECLARATION +
+    `<Types xmlns="${CONTENT_TYPES_NS}">` +
+    '<Default Extension="rels"' +
+    ' ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    (comments.length > 0 ? `<Default Extension="vml" ContentType="${VML_CONTENT_TYPE}"/>` : '') +
+    override('xl/workbook.xml', 'sheet.main') +
+    sheets.join('') +
+    comments.join('') +
+    override('xl/styles.xml', 'styles') +
+    override('xl/sharedStrings.xml', 'sharedStrings') +
+    '</Types>'
+  );
+}
+
+function writeRelationships(relationships: { type: string; target: string }[]): string {
+  const items = relationships.map(
+    ({ type, target }, index) =>
+      `<Relationship Id="rId${index + 1}" Type="${type}" Target="${target}"/>`
+  );
+  return (
+    XML_DECLARATION +
+    `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">${items.join('')}</Relationships>`
+  );
+}
+
+/**
+ * Escapes text for XML, dropping control characters XML cannot hold
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,214 @@
+/**
+ * Minimal ZIP archive support for .xlsx packages, using the browser's
+ * CompressionStream and DecompressionStream for deflate. ZIP64 archives,
+ * encryption and multi-disk archives are not supported.
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/** General purpose flag marking file names as UTF-8 */
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = createCrcTable();
+
+/**
+ * Reads the files of a ZIP archive, keyed by their path inside the archive
+ * (e.g. 'xl/workbook.xml'). Directories are left out.
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const end = findEndOfCentralDirectory(view);
+  if (end < 0) {
+    throw new Error('Not a ZIP archive: the end of the central directory is missing');
+  }
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Not a ZIP archive: the central directory is damaged');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) {
+      throw new Error(`'${name}' is encrypted`);
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Not a ZIP archive: the header of '${name}' is missing`);
+    }
+
+    // The local header repeats the name and may carry a different extra field
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      files.set(name, data);
+    } else if (method === METHOD_DEFLATE) {
+      files.set(name, await transform(data, new DecompressionStream('deflate-raw')));
+    } else {
+      throw new Error(`'${name}' uses an unsupported compression method (${method})`);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Writes files to a ZIP archive, deflating them where the browser supports
+ * CompressionStream and storing them uncompressed otherwise. `type` is the
+ * media type of the Blob.
+ */
+export async function writeZip(
+  files: Map<string, Uint8Array>,
+  type = 'application/zip'
+): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const canDeflate = typeof CompressionStream !== 'undefined';
+  const { time, date } = toDosDateTime(new Date());
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [path, content] of files) {
+    const name = encoder.encode(path);
+    const data = canDeflate
+      ? await transform(content, new CompressionStream('deflate-raw'))
+      : content;
+    const method = canDeflate ? METHOD_DEFLATE : METHOD_STORED;
+    const crc = crc32(content);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, content.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, content.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, files.size, true);
+  endView.setUint16(10, files.size, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...localParts, ...centralParts, end] as BlobPart[], { type });
+}
+
+/**
+ * Computes the CRC-32 checksum ZIP archives store for each file
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Finds the end of central directory record, which is followed only by the
+ * archive comment. Returns its offset, or -1 if there is none.
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE;
+  const first = Math.max(0, last - MAX_COMMENT_LENGTH);
+  for (let offset = last; offset >= first; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Pipes bytes through a compression or decompression stream
+ */
+async function transform(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const output = new Blob([data as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * Converts a date to the MS-DOS time and date fields of ZIP headers
+ */
+function toDosDateTime(value: Date): { time: number; date: number } {
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1),
+    date:
+      ((Math.max(value.getFullYear(), 1980) - 1980) << 9) |
+      ((value.getMonth() + 1) << 5) |
+      value.getDate(),
+  };
+}
+
+function createCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}
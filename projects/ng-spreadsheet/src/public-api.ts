@@ -8,5 +8,47 @@ export * from './lib/components';
 // Services
 export * from './lib/services';
 
+// Formula engine
+export * from './lib/formula';
+
+// Fill handle
+export * from './lib/fill';
+
+// Number formats
+export * from './lib/format';
+
+// AutoFilter
+export * from './lib/filter';
+
+// Sorting
+export * from './lib/sort';
+
+// Find and Replace
+export * from './lib/find';
+
+// Merged cells
+export * from './lib/merge';
+
+// Conditional formatting
+export * from './lib/conditional-format';
+
+// Data validation
+export * from './lib/validation';
+
+// Defined names
+export * from './lib/names';
+
+// Excel import and export
+export * from './lib/xlsx';
+
+// CSV import
+export * from './lib/csv';
+
+// CSV, JSON and HTML export
+export * from './lib/export';
+
+// Serialization
+export * from './lib/serialization';
+
 // Models
 export * from './lib/models';
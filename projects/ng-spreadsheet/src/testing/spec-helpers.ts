@@ -0,0 +1,38 @@
+/**
+ * Fixtures shared by the specs; not part of the library
+ */
+
+import { Cell, CellRange, Sheet, setSheetCells } from '../lib/models';
+
+/**
+ * Creates a range from its first and last row and column, in the order given
+ */
+export function range(
+  startRow: number,
+  startCol: number,
+  endRow: number,
+  endCol: number
+): CellRange {
+  return { start: { row: startRow, col: startCol }, end: { row: endRow, col: endCol } };
+}
+
+/**
+ * Creates a cell holding a number, as typed into the grid
+ */
+export function numberCell(row: number, col: number, value: number): Cell {
+  return { row, col, value, displayValue: String(value), dataType: 'number' };
+}
+
+/**
+ * Creates a cell holding text, as typed into the grid
+ */
+export function textCell(row: number, col: number, value: string): Cell {
+  return { row, col, value, displayValue: value };
+}
+
+/**
+ * Writes cells into a sheet
+ */
+export function setCells(sheet: Sheet, ...cells: Cell[]): void {
+  sheet.cells = setSheetCells(sheet.cells, cells);
+}